@@ -30,6 +30,18 @@ const AuditLogs = lazy(() => import("@/pages/AuditLogs"));
 const UserProfile = lazy(() => import("@/pages/UserProfile"));
 const Users = lazy(() => import("@/pages/Users"));
 const Maintenance = lazy(() => import("@/pages/Maintenance"));
+const Timesheets = lazy(() => import("@/pages/Timesheets"));
+const Locations = lazy(() => import("@/pages/Locations"));
+const AssetScan = lazy(() => import("@/pages/AssetScan"));
+const StockTakes = lazy(() => import("@/pages/StockTakes"));
+const Licenses = lazy(() => import("@/pages/Licenses"));
+const Consumables = lazy(() => import("@/pages/Consumables"));
+const PurchaseOrders = lazy(() => import("@/pages/PurchaseOrders"));
+const Approvals = lazy(() => import("@/pages/Approvals"));
+const ServiceCatalog = lazy(() => import("@/pages/ServiceCatalog"));
+const ApprovalResponse = lazy(() => import("@/pages/ApprovalResponse"));
+const Onboarding = lazy(() => import("@/pages/Onboarding"));
+const Offboarding = lazy(() => import("@/pages/Offboarding"));
 const ChangesLog = lazy(() => import("@/pages/ChangesLog"));
 const BulkOperations = lazy(() => import("@/pages/admin/BulkOperations"));
 const UpgradeRequests = lazy(() => import("@/pages/admin/UpgradeRequests"));
@@ -45,6 +57,7 @@ const PortalDashboard = lazy(() => import('@/pages/portal/PortalDashboard'));
 const MyAssets = lazy(() => import('@/pages/portal/MyAssets'));
 const MyTickets = lazy(() => import('@/pages/portal/MyTickets'));
 const CreateTicket = lazy(() => import('@/pages/portal/CreateTicket'));
+const PortalServiceCatalog = lazy(() => import('@/pages/portal/ServiceCatalog'));
 const MyProfile = lazy(() => import('@/pages/portal/MyProfile'));
 const TicketDetail = lazy(() => import('@/pages/portal/TicketDetail'));
 const PortalDebug = lazy(() => import('@/pages/portal/PortalDebug'));
@@ -141,6 +154,7 @@ function Router() {
           <Route path="/verify-email" component={VerifyEmail} />
           <Route path="/forgot-password" component={ForgotPassword} />
           <Route path="/reset-password" component={ResetPassword} />
+          <Route path="/approval-response" component={ApprovalResponse} />
           
           {/* Employee Portal Routes - Must be before "/" route */}
           <Route path="/portal/debug" component={PortalDebug} />
@@ -149,6 +163,7 @@ function Router() {
           <Route path="/portal/my-tickets/:id" component={TicketDetail} />
           <Route path="/portal/my-tickets" component={MyTickets} />
           <Route path="/portal/create-ticket" component={CreateTicket} />
+          <Route path="/portal/service-catalog" component={PortalServiceCatalog} />
           <Route path="/portal/my-profile" component={MyProfile} />
           <Route path="/portal">
             {() => {
@@ -177,6 +192,74 @@ function Router() {
             <PrivateRoute component={Assets} />
           </Layout>
         </Route>
+        <Route path="/scan">
+          <Layout>
+            <PrivateRoute component={() => (
+              <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]} fallback={<NotFound />}>
+                <AssetScan />
+              </RoleGuard>
+            )} />
+          </Layout>
+        </Route>
+        <Route path="/locations">
+          <Layout>
+            <PrivateRoute component={() => (
+              <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]} fallback={<NotFound />}>
+                <Locations />
+              </RoleGuard>
+            )} />
+          </Layout>
+        </Route>
+        <Route path="/stock-takes">
+          <Layout>
+            <PrivateRoute component={() => (
+              <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]} fallback={<NotFound />}>
+                <StockTakes />
+              </RoleGuard>
+            )} />
+          </Layout>
+        </Route>
+        <Route path="/licenses">
+          <Layout>
+            <PrivateRoute component={() => (
+              <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]} fallback={<NotFound />}>
+                <Licenses />
+              </RoleGuard>
+            )} />
+          </Layout>
+        </Route>
+        <Route path="/consumables">
+          <Layout>
+            <PrivateRoute component={() => (
+              <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]} fallback={<NotFound />}>
+                <Consumables />
+              </RoleGuard>
+            )} />
+          </Layout>
+        </Route>
+        <Route path="/purchase-orders">
+          <Layout>
+            <PrivateRoute component={() => (
+              <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]} fallback={<NotFound />}>
+                <PurchaseOrders />
+              </RoleGuard>
+            )} />
+          </Layout>
+        </Route>
+        <Route path="/approvals">
+          <Layout>
+            <PrivateRoute component={Approvals} />
+          </Layout>
+        </Route>
+        <Route path="/service-catalog">
+          <Layout>
+            <PrivateRoute component={() => (
+              <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]} fallback={<NotFound />}>
+                <ServiceCatalog />
+              </RoleGuard>
+            )} />
+          </Layout>
+        </Route>
         <Route path="/asset-history">
           <Layout>
             <PrivateRoute component={() => (
@@ -232,6 +315,33 @@ function Router() {
             )} />
           </Layout>
         </Route>
+        <Route path="/timesheets">
+          <Layout>
+            <PrivateRoute component={() => (
+              <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]} fallback={<NotFound />}>
+                <Timesheets />
+              </RoleGuard>
+            )} />
+          </Layout>
+        </Route>
+        <Route path="/onboarding">
+          <Layout>
+            <PrivateRoute component={() => (
+              <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]} fallback={<NotFound />}>
+                <Onboarding />
+              </RoleGuard>
+            )} />
+          </Layout>
+        </Route>
+        <Route path="/offboarding">
+          <Layout>
+            <PrivateRoute component={() => (
+              <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]} fallback={<NotFound />}>
+                <Offboarding />
+              </RoleGuard>
+            )} />
+          </Layout>
+        </Route>
         <Route path="/changes-log">
           <Layout>
             <PrivateRoute component={ChangesLog} />
@@ -0,0 +1,459 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/use-language';
+import { Plus, Edit, Trash2, SlidersHorizontal } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  useCustomFieldDefinitions,
+  type CustomFieldDefinition,
+  type CustomFieldEntityType,
+  type CustomFieldType,
+} from '@/components/custom-fields/CustomFieldInputs';
+
+interface FieldFormData {
+  label: string;
+  key: string;
+  fieldType: CustomFieldType;
+  options: string;
+  required: boolean;
+  assetTypes: string[];
+  pattern: string;
+  minValue: string;
+  maxValue: string;
+  sortOrder: string;
+  isActive: boolean;
+}
+
+const emptyField: FieldFormData = {
+  label: '',
+  key: '',
+  fieldType: 'text',
+  options: '',
+  required: false,
+  assetTypes: [],
+  pattern: '',
+  minValue: '',
+  maxValue: '',
+  sortOrder: '0',
+  isActive: true,
+};
+
+const FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'select', 'boolean'];
+
+// Suggested key for a new field: "Cost Center" -> "cost_center"
+const toFieldKey = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '').slice(0, 50);
+
+const toNumber = (value: string) => value.trim() === '' ? null : Number(value);
+
+interface CustomFieldsManagerProps {
+  entityType: CustomFieldEntityType;
+}
+
+/**
+ * Admin list and editor of the custom fields of one entity (System Config > Customizable Fields)
+ */
+export default function CustomFieldsManager({ entityType }: CustomFieldsManagerProps) {
+  const { language } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<CustomFieldDefinition | null>(null);
+  const [form, setForm] = useState<FieldFormData>(emptyField);
+
+  const t = {
+    customFields: language === 'English' ? 'Custom Fields' : 'الحقول المخصصة',
+    customFieldsDesc: language === 'English'
+      ? 'Extra attributes shown in the forms, table filters and CSV import.'
+      : 'سمات إضافية تظهر في النماذج وفلاتر الجداول واستيراد CSV.',
+    addField: language === 'English' ? 'Add Field' : 'إضافة حقل',
+    editField: language === 'English' ? 'Edit Field' : 'تعديل الحقل',
+    label: language === 'English' ? 'Label' : 'التسمية',
+    key: language === 'English' ? 'Key' : 'المفتاح',
+    keyHint: language === 'English'
+      ? 'Lowercase letters, digits and underscores; used as the CSV column "customFields.<key>". Cannot be changed later.'
+      : 'أحرف صغيرة وأرقام وشرطات سفلية؛ يُستخدم كعمود CSV "customFields.<key>". لا يمكن تغييره لاحقاً.',
+    type: language === 'English' ? 'Type' : 'النوع',
+    typeFixed: language === 'English' ? 'The type cannot be changed once the field exists.' : 'لا يمكن تغيير النوع بعد إنشاء الحقل.',
+    options: language === 'English' ? 'Options (one per line)' : 'الخيارات (خيار في كل سطر)',
+    required: language === 'English' ? 'Required' : 'مطلوب',
+    assetTypes: language === 'English' ? 'Asset Types' : 'أنواع الأصول',
+    assetTypesHint: language === 'English' ? 'Leave all unchecked to show the field for every asset type.' : 'اترك الكل بدون تحديد لإظهار الحقل لجميع أنواع الأصول.',
+    allAssetTypes: language === 'English' ? 'All types' : 'جميع الأنواع',
+    pattern: language === 'English' ? 'Validation Pattern (regular expression)' : 'نمط التحقق (تعبير نمطي)',
+    patternHint: language === 'English' ? 'The whole value must match, e.g. [0-9]{15} for an IMEI.' : 'يجب أن تطابق القيمة بالكامل، مثلاً [0-9]{15} لرقم IMEI.',
+    minValue: language === 'English' ? 'Minimum' : 'الحد الأدنى',
+    maxValue: language === 'English' ? 'Maximum' : 'الحد الأقصى',
+    sortOrder: language === 'English' ? 'Sort Order' : 'ترتيب العرض',
+    active: language === 'English' ? 'Active' : 'نشط',
+    inactive: language === 'English' ? 'Inactive' : 'غير نشط',
+    actions: language === 'English' ? 'Actions' : 'الإجراءات',
+    noFields: language === 'English' ? 'No custom fields defined.' : 'لا توجد حقول مخصصة.',
+    save: language === 'English' ? 'Save' : 'حفظ',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    done: language === 'English' ? 'Success' : 'تم بنجاح',
+    error: language === 'English' ? 'Error' : 'خطأ',
+    saved: language === 'English' ? 'Custom field saved' : 'تم حفظ الحقل المخصص',
+    deleted: language === 'English' ? 'Deleted successfully' : 'تم الحذف بنجاح',
+    confirmDelete: (label: string) => language === 'English'
+      ? `Delete "${label}"? Values stored in this field are removed as well.`
+      : `هل تريد حذف "${label}"؟ سيتم حذف القيم المخزنة في هذا الحقل أيضاً.`,
+  };
+
+  const typeLabels: Record<CustomFieldType, string> = {
+    text: language === 'English' ? 'Text' : 'نص',
+    number: language === 'English' ? 'Number' : 'رقم',
+    date: language === 'English' ? 'Date' : 'تاريخ',
+    select: language === 'English' ? 'Select list' : 'قائمة اختيار',
+    boolean: language === 'English' ? 'Yes / No' : 'نعم / لا',
+  };
+
+  const definitions = useCustomFieldDefinitions(entityType, true);
+
+  const { data: assetTypeOptions = [] } = useQuery<{ id: number; name: string }[]>({
+    queryKey: ['/api/custom-asset-types'],
+    enabled: entityType === 'asset',
+  });
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  // Forms and filters read the active list, this screen the full one
+  const invalidateDefinitions = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith(`/api/custom-fields?entityType=${entityType}`)
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) => editing
+      ? apiRequest(`/api/custom-fields/${editing.id}`, 'PUT', data)
+      : apiRequest('/api/custom-fields', 'POST', { ...data, entityType, key: form.key, fieldType: form.fieldType }),
+    onSuccess: () => {
+      invalidateDefinitions();
+      closeDialog();
+      toast({ title: t.done, description: t.saved });
+    },
+    onError: handleError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/custom-fields/${id}`, 'DELETE'),
+    onSuccess: () => {
+      invalidateDefinitions();
+      toast({ title: t.done, description: t.deleted });
+    },
+    onError: handleError
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+    setForm(emptyField);
+  };
+
+  const openField = (definition?: CustomFieldDefinition) => {
+    if (definition) {
+      setEditing(definition);
+      setForm({
+        label: definition.label,
+        key: definition.key,
+        fieldType: definition.fieldType,
+        options: definition.options.join('\n'),
+        required: definition.required,
+        assetTypes: definition.assetTypes,
+        pattern: definition.pattern || '',
+        minValue: definition.minValue !== null ? String(Number(definition.minValue)) : '',
+        maxValue: definition.maxValue !== null ? String(Number(definition.maxValue)) : '',
+        sortOrder: String(definition.sortOrder),
+        isActive: definition.isActive,
+      });
+    }
+    setDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      label: form.label,
+      options: form.options.split('\n').map(option => option.trim()).filter(Boolean),
+      required: form.required,
+      assetTypes: form.assetTypes,
+      pattern: form.pattern || null,
+      minValue: toNumber(form.minValue),
+      maxValue: toNumber(form.maxValue),
+      sortOrder: parseInt(form.sortOrder) || 0,
+      isActive: form.isActive,
+    });
+  };
+
+  const handleDelete = (definition: CustomFieldDefinition) => {
+    if (window.confirm(t.confirmDelete(definition.label))) {
+      deleteMutation.mutate(definition.id);
+    }
+  };
+
+  const toggleAssetType = (name: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      assetTypes: checked ? [...prev.assetTypes, name] : prev.assetTypes.filter(type => type !== name)
+    }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium flex items-center gap-2">
+            <SlidersHorizontal className="h-4 w-4" />
+            {t.customFields}
+          </h3>
+          <p className="text-sm text-muted-foreground">{t.customFieldsDesc}</p>
+        </div>
+        <Button size="sm" onClick={() => openField()}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t.addField}
+        </Button>
+      </div>
+
+      {definitions.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground border rounded-md">{t.noFields}</div>
+      ) : (
+        <div className="border rounded-md overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t.label}</TableHead>
+                <TableHead>{t.key}</TableHead>
+                <TableHead>{t.type}</TableHead>
+                {entityType === 'asset' && <TableHead>{t.assetTypes}</TableHead>}
+                <TableHead>{t.required}</TableHead>
+                <TableHead>{t.active}</TableHead>
+                <TableHead className="w-24">{t.actions}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {definitions.map(definition => (
+                <TableRow key={definition.id}>
+                  <TableCell className="font-medium">{definition.label}</TableCell>
+                  <TableCell className="font-mono text-xs">{definition.key}</TableCell>
+                  <TableCell>{typeLabels[definition.fieldType]}</TableCell>
+                  {entityType === 'asset' && (
+                    <TableCell>
+                      {definition.assetTypes.length === 0 ? (
+                        <span className="text-muted-foreground text-sm">{t.allAssetTypes}</span>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {definition.assetTypes.map(type => (
+                            <Badge key={type} variant="outline" className="text-xs">{type}</Badge>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                  )}
+                  <TableCell>{definition.required ? '✓' : '-'}</TableCell>
+                  <TableCell>
+                    <Badge variant={definition.isActive ? 'default' : 'secondary'}>
+                      {definition.isActive ? t.active : t.inactive}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openField(definition)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                        onClick={() => handleDelete(definition)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? t.editField : t.addField}</DialogTitle>
+            <DialogDescription>{t.customFieldsDesc}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-label">{t.label}</Label>
+              <Input
+                id="custom-field-label"
+                value={form.label}
+                onChange={(e) => {
+                  const label = e.target.value;
+                  setForm(prev => ({
+                    ...prev,
+                    label,
+                    // Follow the label until the key is edited by hand
+                    key: !editing && prev.key === toFieldKey(prev.label) ? toFieldKey(label) : prev.key
+                  }));
+                }}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-key">{t.key}</Label>
+                <Input
+                  id="custom-field-key"
+                  className="font-mono"
+                  value={form.key}
+                  onChange={(e) => setForm(prev => ({ ...prev, key: e.target.value }))}
+                  disabled={!!editing}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t.type}</Label>
+                <Select
+                  value={form.fieldType}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, fieldType: value as CustomFieldType }))}
+                  disabled={!!editing}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FIELD_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{typeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">{editing ? t.typeFixed : t.keyHint}</p>
+
+            {form.fieldType === 'select' && (
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-options">{t.options}</Label>
+                <Textarea
+                  id="custom-field-options"
+                  rows={4}
+                  value={form.options}
+                  onChange={(e) => setForm(prev => ({ ...prev, options: e.target.value }))}
+                />
+              </div>
+            )}
+
+            {form.fieldType === 'text' && (
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-pattern">{t.pattern}</Label>
+                <Input
+                  id="custom-field-pattern"
+                  className="font-mono"
+                  value={form.pattern}
+                  onChange={(e) => setForm(prev => ({ ...prev, pattern: e.target.value }))}
+                />
+                <p className="text-xs text-muted-foreground">{t.patternHint}</p>
+              </div>
+            )}
+
+            {form.fieldType === 'number' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-min">{t.minValue}</Label>
+                  <Input
+                    id="custom-field-min"
+                    type="number"
+                    value={form.minValue}
+                    onChange={(e) => setForm(prev => ({ ...prev, minValue: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-max">{t.maxValue}</Label>
+                  <Input
+                    id="custom-field-max"
+                    type="number"
+                    value={form.maxValue}
+                    onChange={(e) => setForm(prev => ({ ...prev, maxValue: e.target.value }))}
+                  />
+                </div>
+              </div>
+            )}
+
+            {entityType === 'asset' && (
+              <div className="space-y-2">
+                <Label>{t.assetTypes}</Label>
+                <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto border rounded-md p-2">
+                  {assetTypeOptions.map(type => (
+                    <label key={type.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.assetTypes.includes(type.name)}
+                        onCheckedChange={(checked) => toggleAssetType(type.name, checked === true)}
+                      />
+                      {type.name}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">{t.assetTypesHint}</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-sort">{t.sortOrder}</Label>
+                <Input
+                  id="custom-field-sort"
+                  type="number"
+                  min={0}
+                  value={form.sortOrder}
+                  onChange={(e) => setForm(prev => ({ ...prev, sortOrder: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-3 pt-6">
+                {form.fieldType !== 'boolean' && (
+                  <label className="flex items-center gap-2 text-sm">
+                    <Switch
+                      checked={form.required}
+                      onCheckedChange={(checked) => setForm(prev => ({ ...prev, required: checked }))}
+                    />
+                    {t.required}
+                  </label>
+                )}
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch
+                    checked={form.isActive}
+                    onCheckedChange={(checked) => setForm(prev => ({ ...prev, isActive: checked }))}
+                  />
+                  {t.active}
+                </label>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>{t.cancel}</Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending || !form.label.trim() || !form.key.trim()}>
+              {t.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,485 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/use-language';
+import { Network, Loader2, PlugZap, Eye, RefreshCw, AlertTriangle } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { getRoleDisplayName } from '@shared/roles.config';
+
+type SyncFieldValue = string | number | null;
+
+interface SyncChange {
+  directoryId: string;
+  dn: string;
+  name: string;
+  employeeId?: number;
+  empId?: string;
+  reason?: 'removed' | 'disabled';
+  changes: Record<string, { from: SyncFieldValue; to: SyncFieldValue }>;
+}
+
+interface SyncResult {
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  scanned: number;
+  created: SyncChange[];
+  updated: SyncChange[];
+  deactivated: SyncChange[];
+  unchanged: number;
+  skipped: { dn: string; reason: string }[];
+  warnings: string[];
+}
+
+interface DirectoryStatus {
+  enabled: boolean;
+  url: string;
+  startTls: boolean;
+  serviceAccount: string | null;
+  userSearchBase: string;
+  groupRoles: Record<string, string>;
+  defaultRole: string;
+  sync: {
+    enabled: boolean;
+    intervalMinutes: number;
+    searchBase: string;
+    deactivateLeavers: boolean;
+  };
+  lastSync: SyncResult | null;
+}
+
+interface TestResult {
+  connected: boolean;
+  user?: {
+    dn: string;
+    username: string | null;
+    email: string | null;
+    displayName: string | null;
+    department: string | null;
+    title: string | null;
+    disabled: boolean;
+    groups: string[];
+    mappedRole: string | null;
+    role: string;
+  } | null;
+}
+
+export default function DirectorySyncTab() {
+  const { language } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [testUsername, setTestUsername] = useState('');
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+  const [syncResult, setSyncResult] = useState<SyncResult | null>(null);
+  const [confirmSync, setConfirmSync] = useState(false);
+
+  const t = {
+    title: language === 'English' ? 'LDAP / Active Directory' : 'LDAP / Active Directory',
+    description: language === 'English'
+      ? 'Directory sign-in and employee sync. Connection settings come from the server environment (LDAP_* variables).'
+      : 'تسجيل الدخول عبر الدليل ومزامنة الموظفين. تأتي إعدادات الاتصال من متغيرات بيئة الخادم (LDAP_*).',
+    disabled: language === 'English'
+      ? 'Directory integration is not enabled. Set LDAP_ENABLED=true and the LDAP_* settings described in the deployment guide, then restart SimpleIT.'
+      : 'تكامل الدليل غير مفعّل. اضبط LDAP_ENABLED=true وإعدادات LDAP_* الموضحة في دليل النشر ثم أعد تشغيل SimpleIT.',
+    server: language === 'English' ? 'Server' : 'الخادم',
+    searchBase: language === 'English' ? 'User search base' : 'قاعدة البحث عن المستخدمين',
+    serviceAccount: language === 'English' ? 'Service account' : 'حساب الخدمة',
+    anonymous: language === 'English' ? 'Anonymous' : 'مجهول',
+    groupRoles: language === 'English' ? 'Group → role mapping' : 'ربط المجموعات بالأدوار',
+    group: language === 'English' ? 'Group' : 'المجموعة',
+    role: language === 'English' ? 'Role' : 'الدور',
+    noGroupRoles: language === 'English' ? 'No groups mapped; everyone gets the default role.' : 'لا توجد مجموعات مرتبطة؛ يحصل الجميع على الدور الافتراضي.',
+    defaultRole: language === 'English' ? 'Default role' : 'الدور الافتراضي',
+    testTitle: language === 'English' ? 'Test Connection' : 'اختبار الاتصال',
+    testDescription: language === 'English'
+      ? 'Binds with the service account. Enter a username to also see their entry, groups and resulting role.'
+      : 'يتصل باستخدام حساب الخدمة. أدخل اسم مستخدم لعرض بياناته ومجموعاته والدور الناتج.',
+    username: language === 'English' ? 'Username (optional)' : 'اسم المستخدم (اختياري)',
+    test: language === 'English' ? 'Test' : 'اختبار',
+    connected: language === 'English' ? 'Connected to the directory' : 'تم الاتصال بالدليل',
+    userNotFound: language === 'English' ? 'No unique directory entry matches this username.' : 'لا يوجد إدخال فريد في الدليل يطابق اسم المستخدم هذا.',
+    accountDisabled: language === 'English' ? 'Disabled in the directory' : 'معطّل في الدليل',
+    groups: language === 'English' ? 'Groups' : 'المجموعات',
+    noMappedGroup: language === 'English' ? 'no mapped group, default role' : 'لا توجد مجموعة مرتبطة، الدور الافتراضي',
+    syncTitle: language === 'English' ? 'Employee Sync' : 'مزامنة الموظفين',
+    syncDescription: language === 'English'
+      ? 'Creates and updates employees (name, department, title, manager, corporate email) and marks leavers as Resigned, deactivating their account.'
+      : 'ينشئ ويحدّث الموظفين (الاسم، القسم، المسمى الوظيفي، المدير، البريد المؤسسي) ويعلّم المغادرين كمستقيلين مع تعطيل حساباتهم.',
+    scheduled: language === 'English' ? 'Scheduled every' : 'مجدولة كل',
+    minutes: language === 'English' ? 'minutes' : 'دقيقة',
+    notScheduled: language === 'English' ? 'Scheduled sync is off (LDAP_SYNC_ENABLED)' : 'المزامنة المجدولة متوقفة (LDAP_SYNC_ENABLED)',
+    lastSync: language === 'English' ? 'Last sync' : 'آخر مزامنة',
+    never: language === 'English' ? 'Not run since the server started' : 'لم تُنفذ منذ تشغيل الخادم',
+    preview: language === 'English' ? 'Preview Changes' : 'معاينة التغييرات',
+    runSync: language === 'English' ? 'Sync Now' : 'مزامنة الآن',
+    confirmTitle: language === 'English' ? 'Sync employees from the directory?' : 'مزامنة الموظفين من الدليل؟',
+    confirmDescription: language === 'English'
+      ? 'Employees are created and updated, and leavers are marked as Resigned with their account deactivated. Run a preview first to check the changes.'
+      : 'سيتم إنشاء الموظفين وتحديثهم، وتعليم المغادرين كمستقيلين مع تعطيل حساباتهم. قم بالمعاينة أولاً للتحقق من التغييرات.',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    previewResult: language === 'English' ? 'Preview (nothing was changed)' : 'معاينة (لم يتم تغيير أي شيء)',
+    appliedResult: language === 'English' ? 'Sync result' : 'نتيجة المزامنة',
+    scanned: language === 'English' ? 'Directory entries' : 'إدخالات الدليل',
+    created: language === 'English' ? 'New employees' : 'موظفون جدد',
+    updated: language === 'English' ? 'Updated' : 'محدّث',
+    deactivated: language === 'English' ? 'Leavers' : 'المغادرون',
+    unchanged: language === 'English' ? 'Unchanged' : 'بدون تغيير',
+    skipped: language === 'English' ? 'Skipped' : 'تم تخطيه',
+    employee: language === 'English' ? 'Employee' : 'الموظف',
+    changes: language === 'English' ? 'Changes' : 'التغييرات',
+    reason: language === 'English' ? 'Reason' : 'السبب',
+    removed: language === 'English' ? 'Removed from directory' : 'أزيل من الدليل',
+    disabledInDirectory: language === 'English' ? 'Disabled in directory' : 'معطّل في الدليل',
+    syncDone: language === 'English' ? 'Directory sync completed' : 'اكتملت مزامنة الدليل',
+    errorTitle: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const fieldLabels: Record<string, string> = {
+    englishName: language === 'English' ? 'Name' : 'الاسم',
+    department: language === 'English' ? 'Department' : 'القسم',
+    title: language === 'English' ? 'Title' : 'المسمى الوظيفي',
+    corporateEmail: language === 'English' ? 'Corporate email' : 'البريد المؤسسي',
+    workMobile: language === 'English' ? 'Work mobile' : 'جوال العمل',
+    directManager: language === 'English' ? 'Manager' : 'المدير',
+    directoryId: language === 'English' ? 'Linked to directory' : 'مرتبط بالدليل',
+    status: language === 'English' ? 'Status' : 'الحالة',
+    exitDate: language === 'English' ? 'Exit date' : 'تاريخ المغادرة',
+  };
+
+  const { data: status, isLoading } = useQuery<DirectoryStatus>({
+    queryKey: ['/api/directory/status'],
+  });
+
+  const handleError = (error: any) => {
+    toast({ title: t.errorTitle, description: error.message, variant: 'destructive' });
+  };
+
+  const testMutation = useMutation({
+    mutationFn: () => apiRequest('/api/directory/test', 'POST', { username: testUsername || undefined }),
+    onSuccess: (result: TestResult) => setTestResult(result),
+    onError: (error: any) => {
+      setTestResult(null);
+      handleError(error);
+    }
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => apiRequest('/api/directory/sync/preview', 'POST'),
+    onSuccess: (result: SyncResult) => setSyncResult(result),
+    onError: handleError
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: () => apiRequest('/api/directory/sync', 'POST'),
+    onSuccess: (result: SyncResult) => {
+      setSyncResult(result);
+      queryClient.invalidateQueries({ queryKey: ['/api/directory/status'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/employees'] });
+      toast({ title: t.syncDone });
+    },
+    onError: handleError
+  });
+
+  const roleName = (role: string) => getRoleDisplayName(role, language === 'English' ? 'en' : 'ar');
+  const formatValue = (value: SyncFieldValue) => value === null || value === '' ? '—' : String(value);
+
+  const renderChanges = (change: SyncChange) => (
+    <div className="space-y-0.5 text-xs">
+      {Object.entries(change.changes).map(([field, { from, to }]) => (
+        <div key={field}>
+          <span className="text-muted-foreground">{fieldLabels[field] ?? field}: </span>
+          {from !== null && <span className="line-through text-muted-foreground mr-1">{formatValue(from)}</span>}
+          <span>{formatValue(to)}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  if (isLoading || !status) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Network className="h-5 w-5" />
+            {t.title}
+          </CardTitle>
+          <CardDescription>{t.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!status.enabled ? (
+            <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+              {t.disabled}
+            </p>
+          ) : (
+            <>
+              <div className="grid gap-2 text-sm md:grid-cols-2">
+                <p>
+                  <span className="text-muted-foreground">{t.server}: </span>
+                  <span className="font-mono">{status.url}</span>
+                  {status.startTls && <Badge variant="outline" className="ml-2">StartTLS</Badge>}
+                </p>
+                <p>
+                  <span className="text-muted-foreground">{t.serviceAccount}: </span>
+                  <span className="font-mono break-all">{status.serviceAccount || t.anonymous}</span>
+                </p>
+                <p>
+                  <span className="text-muted-foreground">{t.searchBase}: </span>
+                  <span className="font-mono break-all">{status.userSearchBase}</span>
+                </p>
+                <p>
+                  <span className="text-muted-foreground">{t.defaultRole}: </span>
+                  {roleName(status.defaultRole)}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <p className="font-medium text-sm">{t.groupRoles}</p>
+                {Object.keys(status.groupRoles).length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t.noGroupRoles}</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t.group}</TableHead>
+                        <TableHead>{t.role}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {Object.entries(status.groupRoles).map(([group, role]) => (
+                        <TableRow key={group}>
+                          <TableCell className="font-mono text-xs break-all">{group}</TableCell>
+                          <TableCell>{roleName(role)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {status.enabled && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <PlugZap className="h-5 w-5" />
+                {t.testTitle}
+              </CardTitle>
+              <CardDescription>{t.testDescription}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form
+                className="flex flex-wrap items-end gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  testMutation.mutate();
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="directory-test-username">{t.username}</Label>
+                  <Input
+                    id="directory-test-username"
+                    value={testUsername}
+                    onChange={(e) => setTestUsername(e.target.value)}
+                    className="w-64"
+                  />
+                </div>
+                <Button type="submit" disabled={testMutation.isPending}>
+                  {testMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t.test}
+                </Button>
+              </form>
+
+              {testResult && (
+                <div className="rounded-md border p-3 text-sm space-y-2">
+                  <p className="text-green-700">{t.connected}</p>
+                  {testResult.user === null && <p className="text-amber-700">{t.userNotFound}</p>}
+                  {testResult.user && (
+                    <div className="space-y-1">
+                      <p className="font-medium">
+                        {testResult.user.displayName || testResult.user.username}
+                        {testResult.user.disabled && <Badge variant="destructive" className="ml-2">{t.accountDisabled}</Badge>}
+                      </p>
+                      <p className="font-mono text-xs break-all text-muted-foreground">{testResult.user.dn}</p>
+                      <p>{[testResult.user.email, testResult.user.department, testResult.user.title].filter(Boolean).join(' · ')}</p>
+                      <p>
+                        <span className="text-muted-foreground">{t.role}: </span>
+                        {roleName(testResult.user.role)}
+                        {!testResult.user.mappedRole && <span className="text-muted-foreground"> ({t.noMappedGroup})</span>}
+                      </p>
+                      {testResult.user.groups.length > 0 && (
+                        <div>
+                          <span className="text-muted-foreground">{t.groups}:</span>
+                          <ul className="font-mono text-xs list-disc pl-5">
+                            {testResult.user.groups.map(group => <li key={group} className="break-all">{group}</li>)}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <RefreshCw className="h-5 w-5" />
+                {t.syncTitle}
+              </CardTitle>
+              <CardDescription>{t.syncDescription}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-1 text-sm">
+                <p className="text-muted-foreground">
+                  {status.sync.enabled ? `${t.scheduled} ${status.sync.intervalMinutes} ${t.minutes}` : t.notScheduled}
+                </p>
+                <p>
+                  <span className="text-muted-foreground">{t.lastSync}: </span>
+                  {status.lastSync
+                    ? `${new Date(status.lastSync.finishedAt).toLocaleString()} · ${t.created} ${status.lastSync.created.length}, ${t.updated} ${status.lastSync.updated.length}, ${t.deactivated} ${status.lastSync.deactivated.length}`
+                    : t.never}
+                </p>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending || syncMutation.isPending}>
+                  {previewMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                  {t.preview}
+                </Button>
+                <Button onClick={() => setConfirmSync(true)} disabled={previewMutation.isPending || syncMutation.isPending}>
+                  {syncMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                  {t.runSync}
+                </Button>
+              </div>
+
+              {syncResult && (
+                <div className="space-y-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{syncResult.dryRun ? t.previewResult : t.appliedResult}</span>
+                    <Badge variant="outline">{t.scanned}: {syncResult.scanned}</Badge>
+                    <Badge variant="outline" className="bg-green-50 text-green-800">{t.created}: {syncResult.created.length}</Badge>
+                    <Badge variant="outline" className="bg-blue-50 text-blue-800">{t.updated}: {syncResult.updated.length}</Badge>
+                    <Badge variant="outline" className="bg-red-50 text-red-800">{t.deactivated}: {syncResult.deactivated.length}</Badge>
+                    <Badge variant="outline">{t.unchanged}: {syncResult.unchanged}</Badge>
+                    {syncResult.skipped.length > 0 && <Badge variant="outline">{t.skipped}: {syncResult.skipped.length}</Badge>}
+                  </div>
+
+                  {syncResult.warnings.map(warning => (
+                    <p key={warning} className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                      {warning}
+                    </p>
+                  ))}
+
+                  {[...syncResult.created, ...syncResult.updated, ...syncResult.deactivated].length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{t.employee}</TableHead>
+                          <TableHead>{t.reason}</TableHead>
+                          <TableHead>{t.changes}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {syncResult.created.map(change => (
+                          <TableRow key={`created-${change.directoryId}`}>
+                            <TableCell>{change.name}</TableCell>
+                            <TableCell><Badge className="bg-green-600">{t.created}</Badge></TableCell>
+                            <TableCell>{renderChanges(change)}</TableCell>
+                          </TableRow>
+                        ))}
+                        {syncResult.updated.map(change => (
+                          <TableRow key={`updated-${change.directoryId}`}>
+                            <TableCell>{change.name} <span className="text-xs text-muted-foreground">{change.empId}</span></TableCell>
+                            <TableCell><Badge className="bg-blue-600">{t.updated}</Badge></TableCell>
+                            <TableCell>{renderChanges(change)}</TableCell>
+                          </TableRow>
+                        ))}
+                        {syncResult.deactivated.map(change => (
+                          <TableRow key={`deactivated-${change.employeeId}`}>
+                            <TableCell>{change.name} <span className="text-xs text-muted-foreground">{change.empId}</span></TableCell>
+                            <TableCell>
+                              <Badge variant="destructive">
+                                {change.reason === 'disabled' ? t.disabledInDirectory : t.removed}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>{renderChanges(change)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+
+                  {syncResult.skipped.length > 0 && (
+                    <div className="text-sm space-y-1">
+                      <p className="font-medium">{t.skipped}</p>
+                      <ul className="list-disc pl-5 text-xs">
+                        {syncResult.skipped.map(skipped => (
+                          <li key={skipped.dn} className="break-all">
+                            <span className="font-mono">{skipped.dn}</span> — {skipped.reason}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <AlertDialog open={confirmSync} onOpenChange={setConfirmSync}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.confirmTitle}</AlertDialogTitle>
+            <AlertDialogDescription>{t.confirmDescription}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t.cancel}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                setConfirmSync(false);
+                syncMutation.mutate();
+              }}
+            >
+              {t.runSync}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
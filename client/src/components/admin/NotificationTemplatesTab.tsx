@@ -0,0 +1,469 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/use-language';
+import { MessageSquareText, Plus, Edit, Power, PowerOff, RotateCcw, AlertCircle } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import type { NotificationTemplate } from '@shared/schema';
+
+interface NotificationEventInfo {
+  key: string;
+  description: string;
+  type: string;
+  category: string;
+  variables: { name: string; description: string; list: boolean }[];
+  defaults: Record<'English' | 'Arabic', { title: string; message: string }>;
+}
+
+interface PreviewResult {
+  valid: boolean;
+  problems: string[];
+  preview: { title: string; message: string } | null;
+}
+
+interface TemplateFormData {
+  name: string;
+  description: string;
+  eventKey: string;
+  language: 'English' | 'Arabic';
+  titleTemplate: string;
+  messageTemplate: string;
+  isActive: boolean;
+}
+
+const emptyTemplate: TemplateFormData = {
+  name: '',
+  description: '',
+  eventKey: '',
+  language: 'English',
+  titleTemplate: '',
+  messageTemplate: '',
+  isActive: true
+};
+
+export default function NotificationTemplatesTab() {
+  const { language } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<NotificationTemplate | null>(null);
+  const [form, setForm] = useState<TemplateFormData>(emptyTemplate);
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+
+  const t = {
+    templates: language === 'English' ? 'Notification Templates' : 'قوالب الإشعارات',
+    templatesDesc: language === 'English'
+      ? 'Override the wording of system notifications. The active template for an event and language is used for recipients who read notifications in that language; otherwise the built-in text is sent.'
+      : 'تخصيص نص إشعارات النظام. يُستخدم القالب النشط للحدث واللغة للمستلمين الذين يقرؤون الإشعارات بتلك اللغة؛ وإلا يُرسل النص الافتراضي.',
+    addTemplate: language === 'English' ? 'Add Template' : 'إضافة قالب',
+    editTemplate: language === 'English' ? 'Edit Template' : 'تعديل القالب',
+    name: language === 'English' ? 'Name' : 'الاسم',
+    description: language === 'English' ? 'Description' : 'الوصف',
+    event: language === 'English' ? 'Event' : 'الحدث',
+    selectEvent: language === 'English' ? 'Select an event' : 'اختر حدثاً',
+    templateLanguage: language === 'English' ? 'Recipient language' : 'لغة المستلم',
+    english: language === 'English' ? 'English' : 'الإنجليزية',
+    arabic: language === 'English' ? 'Arabic' : 'العربية',
+    title: language === 'English' ? 'Title' : 'العنوان',
+    message: language === 'English' ? 'Message' : 'الرسالة',
+    variables: language === 'English' ? 'Available variables' : 'المتغيرات المتاحة',
+    syntaxHint: language === 'English'
+      ? 'Use {{name}}, {{#if name}}...{{else}}...{{/if}}, {{#unless name}}...{{/unless}} and {{#each list}}{{this}}{{/each}}.'
+      : 'استخدم {{name}} و {{#if name}}...{{else}}...{{/if}} و {{#unless name}}...{{/unless}} و {{#each list}}{{this}}{{/each}}.',
+    list: language === 'English' ? 'list' : 'قائمة',
+    loadDefault: language === 'English' ? 'Load built-in text' : 'تحميل النص الافتراضي',
+    preview: language === 'English' ? 'Preview with sample values' : 'معاينة بقيم تجريبية',
+    problems: language === 'English' ? 'Fix these before saving' : 'يرجى تصحيح ما يلي قبل الحفظ',
+    active: language === 'English' ? 'Active' : 'نشط',
+    inactive: language === 'English' ? 'Inactive' : 'غير نشط',
+    activeHint: language === 'English'
+      ? 'Activating replaces the currently active template for the same event and language.'
+      : 'التفعيل يستبدل القالب النشط الحالي لنفس الحدث واللغة.',
+    activate: language === 'English' ? 'Activate' : 'تفعيل',
+    deactivate: language === 'English' ? 'Deactivate' : 'إلغاء التفعيل',
+    noTemplates: language === 'English'
+      ? 'No templates yet - all notifications use the built-in text.'
+      : 'لا توجد قوالب بعد - تستخدم جميع الإشعارات النص الافتراضي.',
+    actions: language === 'English' ? 'Actions' : 'الإجراءات',
+    save: language === 'English' ? 'Save' : 'حفظ',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    done: language === 'English' ? 'Success' : 'تم بنجاح',
+    error: language === 'English' ? 'Error' : 'خطأ',
+    saved: language === 'English' ? 'Template saved' : 'تم حفظ القالب',
+    confirmDeactivate: language === 'English'
+      ? 'Deactivate this template? Recipients will get the built-in text again.'
+      : 'هل تريد إلغاء تفعيل هذا القالب؟ سيتلقى المستلمون النص الافتراضي مجدداً.',
+  };
+
+  const eventLabels: Record<string, string> = language === 'English'
+    ? {
+        'ticket.assigned': 'Ticket assigned',
+        'ticket.status_changed': 'Ticket status changed',
+        'ticket.merged': 'Ticket merged',
+        'ticket.sla': 'SLA at risk / breached',
+        'ticket.urgent': 'Urgent ticket assigned',
+        'asset.assigned': 'Asset assigned',
+        'asset.unassigned': 'Asset unassigned',
+        'asset.transaction': 'Asset checked out / returned',
+        'maintenance.scheduled': 'Maintenance scheduled',
+        'maintenance.completed': 'Maintenance completed',
+        'upgrade.requested': 'Upgrade requested',
+        'upgrade.decided': 'Upgrade approved / rejected',
+        'employee.onboarding': 'Employee onboarding',
+        'employee.offboarding': 'Employee offboarding',
+        'offboarding.reminder': 'Offboarding reminder',
+        'license.renewal': 'License renewal due',
+        'consumable.low_stock': 'Consumable low on stock',
+        'purchase_order.approval_required': 'Purchase order awaiting approval',
+        'purchase_order.decided': 'Purchase order approved / rejected',
+        'service_request.decided': 'Service request approved / rejected',
+        'approval.step_required': 'Approval chain step waiting',
+      }
+    : {
+        'ticket.assigned': 'تعيين تذكرة',
+        'ticket.status_changed': 'تغيير حالة تذكرة',
+        'ticket.merged': 'دمج تذكرة',
+        'ticket.sla': 'اتفاقية مستوى الخدمة معرضة للتجاوز / متجاوزة',
+        'ticket.urgent': 'تعيين تذكرة عاجلة',
+        'asset.assigned': 'إسناد أصل',
+        'asset.unassigned': 'إلغاء إسناد أصل',
+        'asset.transaction': 'تسليم / إرجاع أصل',
+        'maintenance.scheduled': 'جدولة صيانة',
+        'maintenance.completed': 'اكتمال صيانة',
+        'upgrade.requested': 'طلب ترقية',
+        'upgrade.decided': 'الموافقة على ترقية / رفضها',
+        'employee.onboarding': 'تهيئة موظف',
+        'employee.offboarding': 'إنهاء خدمة موظف',
+        'offboarding.reminder': 'تذكير إنهاء الخدمة',
+        'license.renewal': 'استحقاق تجديد ترخيص',
+        'consumable.low_stock': 'انخفاض مخزون مستهلك',
+        'purchase_order.approval_required': 'أمر شراء بانتظار الموافقة',
+        'purchase_order.decided': 'الموافقة على / رفض أمر شراء',
+        'service_request.decided': 'الموافقة على / رفض طلب خدمة',
+        'approval.step_required': 'خطوة موافقة بالانتظار',
+      };
+
+  const { data: templates = [], isLoading } = useQuery<NotificationTemplate[]>({
+    queryKey: ['/api/notification-templates'],
+  });
+
+  const { data: events = [] } = useQuery<NotificationEventInfo[]>({
+    queryKey: ['/api/notification-templates/events'],
+  });
+
+  const selectedEvent = events.find(event => event.key === form.eventKey);
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  const invalidateTemplates = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/notification-templates'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) => editing
+      ? apiRequest(`/api/notification-templates/${editing.id}`, 'PUT', data)
+      : apiRequest('/api/notification-templates', 'POST', data),
+    onSuccess: () => {
+      invalidateTemplates();
+      closeDialog();
+      toast({ title: t.done, description: t.saved });
+    },
+    onError: handleError
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (template: NotificationTemplate) => template.isActive
+      ? apiRequest(`/api/notification-templates/${template.id}`, 'DELETE')
+      : apiRequest(`/api/notification-templates/${template.id}/activate`, 'POST'),
+    onSuccess: invalidateTemplates,
+    onError: handleError
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: (data: Pick<TemplateFormData, 'eventKey' | 'titleTemplate' | 'messageTemplate'>) =>
+      apiRequest('/api/notification-templates/preview', 'POST', data),
+    onSuccess: (result: PreviewResult) => setPreview(result),
+  });
+
+  // Validate and preview while the admin types
+  useEffect(() => {
+    if (!dialogOpen || !form.eventKey || !form.titleTemplate || !form.messageTemplate) {
+      setPreview(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      previewMutation.mutate({
+        eventKey: form.eventKey,
+        titleTemplate: form.titleTemplate,
+        messageTemplate: form.messageTemplate,
+      });
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [dialogOpen, form.eventKey, form.titleTemplate, form.messageTemplate]);
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+    setForm(emptyTemplate);
+    setPreview(null);
+  };
+
+  const openTemplate = (template?: NotificationTemplate) => {
+    if (template) {
+      setEditing(template);
+      setForm({
+        name: template.name,
+        description: template.description || '',
+        eventKey: template.eventKey || '',
+        language: template.language === 'Arabic' ? 'Arabic' : 'English',
+        titleTemplate: template.titleTemplate,
+        messageTemplate: template.messageTemplate,
+        isActive: template.isActive
+      });
+    } else {
+      setEditing(null);
+      setForm(emptyTemplate);
+    }
+    setDialogOpen(true);
+  };
+
+  const loadDefault = () => {
+    if (!selectedEvent) return;
+    const defaults = selectedEvent.defaults[form.language];
+    setForm({ ...form, titleTemplate: defaults.title, messageTemplate: defaults.message });
+  };
+
+  const hasProblems = !!preview && !preview.valid;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquareText className="h-5 w-5" />
+              {t.templates}
+            </CardTitle>
+            <CardDescription>{t.templatesDesc}</CardDescription>
+          </div>
+          <Button onClick={() => openTemplate()}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t.addTemplate}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">{t.noTemplates}</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.name}</TableHead>
+                    <TableHead>{t.event}</TableHead>
+                    <TableHead>{t.templateLanguage}</TableHead>
+                    <TableHead>{t.title}</TableHead>
+                    <TableHead>{t.active}</TableHead>
+                    <TableHead>{t.actions}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.map(template => (
+                    <TableRow key={template.id}>
+                      <TableCell className="font-medium">{template.name}</TableCell>
+                      <TableCell>
+                        {template.eventKey ? (eventLabels[template.eventKey] || template.eventKey) : '-'}
+                      </TableCell>
+                      <TableCell>{template.language === 'Arabic' ? t.arabic : t.english}</TableCell>
+                      <TableCell className="max-w-xs truncate font-mono text-xs" title={template.titleTemplate}>
+                        {template.titleTemplate}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={template.isActive ? 'default' : 'secondary'}>
+                          {template.isActive ? t.active : t.inactive}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openTemplate(template)} title={t.editTemplate}>
+                            <Edit className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title={template.isActive ? t.deactivate : t.activate}
+                            disabled={toggleMutation.isPending}
+                            onClick={() => {
+                              if (!template.isActive || confirm(t.confirmDeactivate)) toggleMutation.mutate(template);
+                            }}
+                          >
+                            {template.isActive ? <PowerOff className="h-3 w-3" /> : <Power className="h-3 w-3" />}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Template Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={(open) => { if (!open) closeDialog(); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? t.editTemplate : t.addTemplate}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="template-name">{t.name}</Label>
+                <Input
+                  id="template-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="template-description">{t.description}</Label>
+                <Input
+                  id="template-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>{t.event}</Label>
+                <Select value={form.eventKey} onValueChange={(eventKey) => setForm({ ...form, eventKey })}>
+                  <SelectTrigger><SelectValue placeholder={t.selectEvent} /></SelectTrigger>
+                  <SelectContent>
+                    {events.map(event => (
+                      <SelectItem key={event.key} value={event.key}>{eventLabels[event.key] || event.key}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>{t.templateLanguage}</Label>
+                <Select
+                  value={form.language}
+                  onValueChange={(value) => setForm({ ...form, language: value as TemplateFormData['language'] })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="English">{t.english}</SelectItem>
+                    <SelectItem value="Arabic">{t.arabic}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {selectedEvent && (
+              <div className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>{t.variables}</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={loadDefault}>
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    {t.loadDefault}
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {selectedEvent.variables.map(variable => (
+                    <Badge key={variable.name} variant="outline" className="font-mono text-xs" title={variable.description}>
+                      {`{{${variable.name}}}`}{variable.list && ` (${t.list})`}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">{t.syntaxHint}</p>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="template-title">{t.title}</Label>
+              <Input
+                id="template-title"
+                className="font-mono text-sm"
+                dir={form.language === 'Arabic' ? 'rtl' : 'ltr'}
+                value={form.titleTemplate}
+                onChange={(e) => setForm({ ...form, titleTemplate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="template-message">{t.message}</Label>
+              <Textarea
+                id="template-message"
+                rows={4}
+                className="font-mono text-sm"
+                dir={form.language === 'Arabic' ? 'rtl' : 'ltr'}
+                value={form.messageTemplate}
+                onChange={(e) => setForm({ ...form, messageTemplate: e.target.value })}
+              />
+            </div>
+
+            {hasProblems && (
+              <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm">
+                <div className="flex items-center gap-2 font-medium text-destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  {t.problems}
+                </div>
+                <ul className="mt-1 list-disc pl-6">
+                  {preview.problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              </div>
+            )}
+            {preview?.preview && (
+              <div className="rounded-md bg-muted p-3" dir={form.language === 'Arabic' ? 'rtl' : 'ltr'}>
+                <p className="text-xs text-muted-foreground mb-1">{t.preview}</p>
+                <p className="font-medium">{preview.preview.title}</p>
+                <p className="text-sm">{preview.preview.message}</p>
+              </div>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="template-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+              <Label htmlFor="template-active">{t.active}</Label>
+            </div>
+            <p className="text-xs text-muted-foreground">{t.activeHint}</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>{t.cancel}</Button>
+            <Button
+              onClick={() => saveMutation.mutate({ ...form })}
+              disabled={
+                !form.name.trim() || !form.eventKey || !form.titleTemplate.trim() || !form.messageTemplate.trim()
+                || hasProblems || saveMutation.isPending
+              }
+            >
+              {t.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,695 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/use-language';
+import { Timer, CalendarDays, Plus, Edit, Trash2, RefreshCw, X } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import type { SlaPolicy, BusinessCalendar, BusinessHoliday } from '@shared/schema';
+
+type CalendarWithHolidays = BusinessCalendar & { holidays: BusinessHoliday[] };
+
+interface PolicyFormData {
+  name: string;
+  description: string;
+  priority: string;
+  type: string;
+  categoryId: string;
+  calendarId: string;
+  responseMinutes: number;
+  resolutionMinutes: number;
+  atRiskPercent: number;
+  isActive: boolean;
+}
+
+interface CalendarFormData {
+  name: string;
+  workingDays: number[];
+  dayStartTime: string;
+  dayEndTime: string;
+  isDefault: boolean;
+}
+
+// Select placeholder for "applies to any value"
+const ANY = 'any';
+
+const emptyPolicy: PolicyFormData = {
+  name: '',
+  description: '',
+  priority: ANY,
+  type: ANY,
+  categoryId: ANY,
+  calendarId: ANY,
+  responseMinutes: 240,
+  resolutionMinutes: 1440,
+  atRiskPercent: 80,
+  isActive: true
+};
+
+const emptyCalendar: CalendarFormData = {
+  name: '',
+  workingDays: [1, 2, 3, 4, 5],
+  dayStartTime: '08:00',
+  dayEndTime: '17:00',
+  isDefault: false
+};
+
+export default function SLASettingsTab() {
+  const { language } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [policyDialogOpen, setPolicyDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<SlaPolicy | null>(null);
+  const [policyForm, setPolicyForm] = useState<PolicyFormData>(emptyPolicy);
+  const [calendarDialogOpen, setCalendarDialogOpen] = useState(false);
+  const [editingCalendar, setEditingCalendar] = useState<CalendarWithHolidays | null>(null);
+  const [calendarForm, setCalendarForm] = useState<CalendarFormData>(emptyCalendar);
+  const [holidayInputs, setHolidayInputs] = useState<Record<number, { date: string; name: string }>>({});
+
+  const t = {
+    slaPolicies: language === 'English' ? 'SLA Policies' : 'سياسات اتفاقية مستوى الخدمة',
+    slaPoliciesDesc: language === 'English'
+      ? 'Response and resolution targets. The most specific matching policy applies to each ticket.'
+      : 'أهداف الاستجابة والحل. تنطبق السياسة الأكثر تحديداً على كل تذكرة.',
+    businessCalendars: language === 'English' ? 'Business Calendars' : 'تقويمات العمل',
+    businessCalendarsDesc: language === 'English'
+      ? 'Working hours and holidays. SLA time only counts during business hours.'
+      : 'ساعات العمل والعطلات. يُحتسب وقت الاتفاقية خلال ساعات العمل فقط.',
+    addPolicy: language === 'English' ? 'Add Policy' : 'إضافة سياسة',
+    editPolicy: language === 'English' ? 'Edit Policy' : 'تعديل السياسة',
+    addCalendar: language === 'English' ? 'Add Calendar' : 'إضافة تقويم',
+    editCalendar: language === 'English' ? 'Edit Calendar' : 'تعديل التقويم',
+    recalculate: language === 'English' ? 'Recalculate Open Tickets' : 'إعادة حساب التذاكر المفتوحة',
+    name: language === 'English' ? 'Name' : 'الاسم',
+    description: language === 'English' ? 'Description' : 'الوصف',
+    priority: language === 'English' ? 'Priority' : 'الأولوية',
+    type: language === 'English' ? 'Type' : 'النوع',
+    category: language === 'English' ? 'Category' : 'الفئة',
+    calendar: language === 'English' ? 'Calendar' : 'التقويم',
+    any: language === 'English' ? 'Any' : 'الكل',
+    defaultCalendar: language === 'English' ? 'Default calendar' : 'التقويم الافتراضي',
+    responseMinutes: language === 'English' ? 'Response (minutes)' : 'الاستجابة (دقائق)',
+    resolutionMinutes: language === 'English' ? 'Resolution (minutes)' : 'الحل (دقائق)',
+    atRiskPercent: language === 'English' ? 'At risk after (% elapsed)' : 'معرضة للخطر بعد (% من الوقت)',
+    response: language === 'English' ? 'Response' : 'الاستجابة',
+    resolution: language === 'English' ? 'Resolution' : 'الحل',
+    active: language === 'English' ? 'Active' : 'نشط',
+    inactive: language === 'English' ? 'Inactive' : 'غير نشط',
+    isDefault: language === 'English' ? 'Default' : 'افتراضي',
+    workingDays: language === 'English' ? 'Working Days' : 'أيام العمل',
+    dayStart: language === 'English' ? 'Day Starts' : 'بداية اليوم',
+    dayEnd: language === 'English' ? 'Day Ends' : 'نهاية اليوم',
+    holidays: language === 'English' ? 'Holidays' : 'العطلات',
+    holidayName: language === 'English' ? 'Holiday name' : 'اسم العطلة',
+    addHoliday: language === 'English' ? 'Add Holiday' : 'إضافة عطلة',
+    noHolidays: language === 'English' ? 'No holidays' : 'لا توجد عطلات',
+    noPolicies: language === 'English'
+      ? 'No SLA policies. Built-in targets by priority are used.'
+      : 'لا توجد سياسات. يتم استخدام الأهداف الافتراضية حسب الأولوية.',
+    noCalendars: language === 'English'
+      ? 'No business calendars. SLA time is counted around the clock.'
+      : 'لا توجد تقويمات عمل. يتم احتساب الوقت على مدار الساعة.',
+    actions: language === 'English' ? 'Actions' : 'الإجراءات',
+    save: language === 'English' ? 'Save' : 'حفظ',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    success: language === 'English' ? 'Success' : 'تم بنجاح',
+    error: language === 'English' ? 'Error' : 'خطأ',
+    saved: language === 'English' ? 'SLA settings saved' : 'تم حفظ إعدادات الاتفاقية',
+    deleted: language === 'English' ? 'Deleted successfully' : 'تم الحذف بنجاح',
+    recalculated: (count: number) => language === 'English'
+      ? `SLA targets recalculated for ${count} open ticket(s)`
+      : `تمت إعادة حساب الأهداف لـ ${count} تذكرة مفتوحة`,
+    confirmDelete: language === 'English' ? 'Are you sure you want to delete this item?' : 'هل أنت متأكد من حذف هذا العنصر؟'
+  };
+
+  const dayNames = language === 'English'
+    ? ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+    : ['الأحد', 'الإثنين', 'الثلاثاء', 'الأربعاء', 'الخميس', 'الجمعة', 'السبت'];
+
+  const { data: policies = [], isLoading: policiesLoading } = useQuery<SlaPolicy[]>({
+    queryKey: ['/api/sla/policies'],
+  });
+
+  const { data: calendars = [], isLoading: calendarsLoading } = useQuery<CalendarWithHolidays[]>({
+    queryKey: ['/api/sla/calendars'],
+  });
+
+  const { data: categories = [] } = useQuery<any[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  // Policy changes re-target open tickets on the server, so refresh ticket lists too
+  const invalidateSLA = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/sla/policies'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/sla/calendars'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+  };
+
+  const savePolicyMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) => editingPolicy
+      ? apiRequest(`/api/sla/policies/${editingPolicy.id}`, 'PUT', data)
+      : apiRequest('/api/sla/policies', 'POST', data),
+    onSuccess: () => {
+      invalidateSLA();
+      closePolicyDialog();
+      toast({ title: t.success, description: t.saved });
+    },
+    onError: handleError
+  });
+
+  const deletePolicyMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/sla/policies/${id}`, 'DELETE'),
+    onSuccess: () => {
+      invalidateSLA();
+      toast({ title: t.success, description: t.deleted });
+    },
+    onError: handleError
+  });
+
+  const saveCalendarMutation = useMutation({
+    mutationFn: (data: CalendarFormData) => editingCalendar
+      ? apiRequest(`/api/sla/calendars/${editingCalendar.id}`, 'PUT', data)
+      : apiRequest('/api/sla/calendars', 'POST', data),
+    onSuccess: () => {
+      invalidateSLA();
+      closeCalendarDialog();
+      toast({ title: t.success, description: t.saved });
+    },
+    onError: handleError
+  });
+
+  const deleteCalendarMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/sla/calendars/${id}`, 'DELETE'),
+    onSuccess: () => {
+      invalidateSLA();
+      toast({ title: t.success, description: t.deleted });
+    },
+    onError: handleError
+  });
+
+  const addHolidayMutation = useMutation({
+    mutationFn: ({ calendarId, date, name }: { calendarId: number; date: string; name: string }) =>
+      apiRequest(`/api/sla/calendars/${calendarId}/holidays`, 'POST', { date, name }),
+    onSuccess: (_data, variables) => {
+      invalidateSLA();
+      setHolidayInputs(prev => ({ ...prev, [variables.calendarId]: { date: '', name: '' } }));
+    },
+    onError: handleError
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/sla/holidays/${id}`, 'DELETE'),
+    onSuccess: invalidateSLA,
+    onError: handleError
+  });
+
+  const recalculateMutation = useMutation({
+    mutationFn: () => apiRequest('/api/sla/recalculate', 'POST'),
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+      toast({ title: t.success, description: t.recalculated(data.ticketCount || 0) });
+    },
+    onError: handleError
+  });
+
+  const closePolicyDialog = () => {
+    setPolicyDialogOpen(false);
+    setEditingPolicy(null);
+    setPolicyForm(emptyPolicy);
+  };
+
+  const closeCalendarDialog = () => {
+    setCalendarDialogOpen(false);
+    setEditingCalendar(null);
+    setCalendarForm(emptyCalendar);
+  };
+
+  const openPolicy = (policy?: SlaPolicy) => {
+    if (policy) {
+      setEditingPolicy(policy);
+      setPolicyForm({
+        name: policy.name,
+        description: policy.description || '',
+        priority: policy.priority || ANY,
+        type: policy.type || ANY,
+        categoryId: policy.categoryId ? String(policy.categoryId) : ANY,
+        calendarId: policy.calendarId ? String(policy.calendarId) : ANY,
+        responseMinutes: policy.responseMinutes,
+        resolutionMinutes: policy.resolutionMinutes,
+        atRiskPercent: policy.atRiskPercent,
+        isActive: policy.isActive ?? true
+      });
+    }
+    setPolicyDialogOpen(true);
+  };
+
+  const openCalendar = (calendar?: CalendarWithHolidays) => {
+    if (calendar) {
+      setEditingCalendar(calendar);
+      setCalendarForm({
+        name: calendar.name,
+        workingDays: calendar.workingDays,
+        dayStartTime: calendar.dayStartTime,
+        dayEndTime: calendar.dayEndTime,
+        isDefault: calendar.isDefault ?? false
+      });
+    }
+    setCalendarDialogOpen(true);
+  };
+
+  const handleSavePolicy = () => {
+    savePolicyMutation.mutate({
+      name: policyForm.name,
+      description: policyForm.description || null,
+      priority: policyForm.priority === ANY ? null : policyForm.priority,
+      type: policyForm.type === ANY ? null : policyForm.type,
+      categoryId: policyForm.categoryId === ANY ? null : parseInt(policyForm.categoryId),
+      calendarId: policyForm.calendarId === ANY ? null : parseInt(policyForm.calendarId),
+      responseMinutes: policyForm.responseMinutes,
+      resolutionMinutes: policyForm.resolutionMinutes,
+      atRiskPercent: policyForm.atRiskPercent,
+      isActive: policyForm.isActive
+    });
+  };
+
+  const toggleWorkingDay = (day: number, checked: boolean) => {
+    setCalendarForm(prev => ({
+      ...prev,
+      workingDays: checked
+        ? [...prev.workingDays, day].sort((a, b) => a - b)
+        : prev.workingDays.filter(d => d !== day)
+    }));
+  };
+
+  const formatMinutes = (minutes: number) => {
+    if (minutes % 1440 === 0) return language === 'English' ? `${minutes / 1440}d` : `${minutes / 1440} يوم`;
+    if (minutes % 60 === 0) return language === 'English' ? `${minutes / 60}h` : `${minutes / 60} ساعة`;
+    return language === 'English' ? `${minutes}m` : `${minutes} دقيقة`;
+  };
+
+  const categoryName = (id: number | null) =>
+    id ? categories.find((c: any) => c.id === id)?.name || `#${id}` : t.any;
+
+  const calendarName = (id: number | null) =>
+    id ? calendars.find(c => c.id === id)?.name || `#${id}` : t.defaultCalendar;
+
+  const spinner = (
+    <div className="flex justify-center p-8">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* SLA Policies */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5" />
+              {t.slaPolicies}
+            </CardTitle>
+            <CardDescription>{t.slaPoliciesDesc}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => recalculateMutation.mutate()}
+              disabled={recalculateMutation.isPending}
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${recalculateMutation.isPending ? 'animate-spin' : ''}`} />
+              {t.recalculate}
+            </Button>
+            <Button onClick={() => openPolicy()}>
+              <Plus className="h-4 w-4 mr-2" />
+              {t.addPolicy}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {policiesLoading ? spinner : policies.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">{t.noPolicies}</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.name}</TableHead>
+                    <TableHead>{t.priority}</TableHead>
+                    <TableHead>{t.type}</TableHead>
+                    <TableHead>{t.category}</TableHead>
+                    <TableHead>{t.calendar}</TableHead>
+                    <TableHead>{t.response}</TableHead>
+                    <TableHead>{t.resolution}</TableHead>
+                    <TableHead>{t.active}</TableHead>
+                    <TableHead>{t.actions}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {policies.map(policy => (
+                    <TableRow key={policy.id}>
+                      <TableCell className="font-medium">{policy.name}</TableCell>
+                      <TableCell>{policy.priority || t.any}</TableCell>
+                      <TableCell>{policy.type || t.any}</TableCell>
+                      <TableCell>{categoryName(policy.categoryId)}</TableCell>
+                      <TableCell>{calendarName(policy.calendarId)}</TableCell>
+                      <TableCell>{formatMinutes(policy.responseMinutes)}</TableCell>
+                      <TableCell>{formatMinutes(policy.resolutionMinutes)}</TableCell>
+                      <TableCell>
+                        <Badge variant={policy.isActive ? 'default' : 'secondary'}>
+                          {policy.isActive ? t.active : t.inactive}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openPolicy(policy)} title={t.editPolicy}>
+                            <Edit className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              if (confirm(t.confirmDelete)) deletePolicyMutation.mutate(policy.id);
+                            }}
+                            disabled={deletePolicyMutation.isPending}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Business Calendars */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              {t.businessCalendars}
+            </CardTitle>
+            <CardDescription>{t.businessCalendarsDesc}</CardDescription>
+          </div>
+          <Button onClick={() => openCalendar()}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t.addCalendar}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {calendarsLoading ? spinner : calendars.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">{t.noCalendars}</div>
+          ) : calendars.map(calendar => {
+            const holidayInput = holidayInputs[calendar.id] || { date: '', name: '' };
+            return (
+              <div key={calendar.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium flex items-center gap-2">
+                      {calendar.name}
+                      {calendar.isDefault && <Badge>{t.isDefault}</Badge>}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {calendar.workingDays.map(d => dayNames[d]).join(', ')} · {calendar.dayStartTime} - {calendar.dayEndTime}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openCalendar(calendar)} title={t.editCalendar}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        if (confirm(t.confirmDelete)) deleteCalendarMutation.mutate(calendar.id);
+                      }}
+                      disabled={deleteCalendarMutation.isPending}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div>
+                  <Label className="text-xs">{t.holidays}</Label>
+                  <div className="flex flex-wrap gap-2 mt-1">
+                    {calendar.holidays.length === 0 ? (
+                      <span className="text-sm text-muted-foreground">{t.noHolidays}</span>
+                    ) : calendar.holidays.map(holiday => (
+                      <Badge key={holiday.id} variant="outline" className="gap-1">
+                        {holiday.date} · {holiday.name}
+                        <button
+                          type="button"
+                          onClick={() => deleteHolidayMutation.mutate(holiday.id)}
+                          className="ml-1 hover:text-red-600"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-2 mt-2">
+                    <Input
+                      type="date"
+                      className="w-44"
+                      value={holidayInput.date}
+                      onChange={(e) => setHolidayInputs(prev => ({ ...prev, [calendar.id]: { ...holidayInput, date: e.target.value } }))}
+                    />
+                    <Input
+                      placeholder={t.holidayName}
+                      value={holidayInput.name}
+                      onChange={(e) => setHolidayInputs(prev => ({ ...prev, [calendar.id]: { ...holidayInput, name: e.target.value } }))}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => addHolidayMutation.mutate({ calendarId: calendar.id, ...holidayInput })}
+                      disabled={!holidayInput.date || !holidayInput.name.trim() || addHolidayMutation.isPending}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      {t.addHoliday}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {/* Policy Dialog */}
+      <Dialog open={policyDialogOpen} onOpenChange={(open) => { if (!open) closePolicyDialog(); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingPolicy ? t.editPolicy : t.addPolicy}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="sla-policy-name">{t.name}</Label>
+              <Input
+                id="sla-policy-name"
+                value={policyForm.name}
+                onChange={(e) => setPolicyForm({ ...policyForm, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="sla-policy-description">{t.description}</Label>
+              <Textarea
+                id="sla-policy-description"
+                rows={2}
+                value={policyForm.description}
+                onChange={(e) => setPolicyForm({ ...policyForm, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>{t.priority}</Label>
+                <Select value={policyForm.priority} onValueChange={(value) => setPolicyForm({ ...policyForm, priority: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>{t.any}</SelectItem>
+                    {['Critical', 'High', 'Medium', 'Low'].map(p => (
+                      <SelectItem key={p} value={p}>{p}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>{t.type}</Label>
+                <Select value={policyForm.type} onValueChange={(value) => setPolicyForm({ ...policyForm, type: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>{t.any}</SelectItem>
+                    {['Incident', 'Service Request', 'Problem', 'Change'].map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>{t.category}</Label>
+                <Select value={policyForm.categoryId} onValueChange={(value) => setPolicyForm({ ...policyForm, categoryId: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>{t.any}</SelectItem>
+                    {categories.map((category: any) => (
+                      <SelectItem key={category.id} value={String(category.id)}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>{t.calendar}</Label>
+                <Select value={policyForm.calendarId} onValueChange={(value) => setPolicyForm({ ...policyForm, calendarId: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>{t.defaultCalendar}</SelectItem>
+                    {calendars.map(calendar => (
+                      <SelectItem key={calendar.id} value={String(calendar.id)}>{calendar.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="sla-response" className="text-xs">{t.responseMinutes}</Label>
+                <Input
+                  id="sla-response"
+                  type="number"
+                  min="1"
+                  value={policyForm.responseMinutes}
+                  onChange={(e) => setPolicyForm({ ...policyForm, responseMinutes: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="sla-resolution" className="text-xs">{t.resolutionMinutes}</Label>
+                <Input
+                  id="sla-resolution"
+                  type="number"
+                  min="1"
+                  value={policyForm.resolutionMinutes}
+                  onChange={(e) => setPolicyForm({ ...policyForm, resolutionMinutes: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="sla-at-risk" className="text-xs">{t.atRiskPercent}</Label>
+                <Input
+                  id="sla-at-risk"
+                  type="number"
+                  min="1"
+                  max="99"
+                  value={policyForm.atRiskPercent}
+                  onChange={(e) => setPolicyForm({ ...policyForm, atRiskPercent: parseInt(e.target.value) || 80 })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="sla-policy-active"
+                checked={policyForm.isActive}
+                onCheckedChange={(checked) => setPolicyForm({ ...policyForm, isActive: checked })}
+              />
+              <Label htmlFor="sla-policy-active">{t.active}</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closePolicyDialog}>{t.cancel}</Button>
+            <Button onClick={handleSavePolicy} disabled={!policyForm.name.trim() || savePolicyMutation.isPending}>
+              {t.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Calendar Dialog */}
+      <Dialog open={calendarDialogOpen} onOpenChange={(open) => { if (!open) closeCalendarDialog(); }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingCalendar ? t.editCalendar : t.addCalendar}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="sla-calendar-name">{t.name}</Label>
+              <Input
+                id="sla-calendar-name"
+                value={calendarForm.name}
+                onChange={(e) => setCalendarForm({ ...calendarForm, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>{t.workingDays}</Label>
+              <div className="flex flex-wrap gap-3 mt-2">
+                {dayNames.map((dayName, day) => (
+                  <label key={day} className="flex items-center gap-1 text-sm">
+                    <Checkbox
+                      checked={calendarForm.workingDays.includes(day)}
+                      onCheckedChange={(checked) => toggleWorkingDay(day, checked === true)}
+                    />
+                    {dayName}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="sla-day-start">{t.dayStart}</Label>
+                <Input
+                  id="sla-day-start"
+                  type="time"
+                  value={calendarForm.dayStartTime}
+                  onChange={(e) => setCalendarForm({ ...calendarForm, dayStartTime: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="sla-day-end">{t.dayEnd}</Label>
+                <Input
+                  id="sla-day-end"
+                  type="time"
+                  value={calendarForm.dayEndTime}
+                  onChange={(e) => setCalendarForm({ ...calendarForm, dayEndTime: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="sla-calendar-default"
+                checked={calendarForm.isDefault}
+                onCheckedChange={(checked) => setCalendarForm({ ...calendarForm, isDefault: checked })}
+              />
+              <Label htmlFor="sla-calendar-default">{t.isDefault}</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeCalendarDialog}>{t.cancel}</Button>
+            <Button
+              onClick={() => saveCalendarMutation.mutate(calendarForm)}
+              disabled={!calendarForm.name.trim() || calendarForm.workingDays.length === 0 || saveCalendarMutation.isPending}
+            >
+              {t.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,572 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/use-language';
+import { Webhook, History, Plus, Edit, Trash2, Send, RotateCcw, RefreshCw, Copy, Eye } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import type { WebhookSubscription, WebhookDelivery } from '@shared/schema';
+
+interface SubscriptionFormData {
+  name: string;
+  url: string;
+  events: string[];
+  isActive: boolean;
+}
+
+// Select placeholder for "no filter"
+const ALL = 'all';
+
+const emptySubscription: SubscriptionFormData = {
+  name: '',
+  url: '',
+  events: [],
+  isActive: true
+};
+
+export default function WebhooksSettingsTab() {
+  const { language } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<WebhookSubscription | null>(null);
+  const [form, setForm] = useState<SubscriptionFormData>(emptySubscription);
+  const [subscriptionFilter, setSubscriptionFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [viewingDelivery, setViewingDelivery] = useState<WebhookDelivery | null>(null);
+
+  const t = {
+    webhooks: language === 'English' ? 'Webhooks' : 'خطافات الويب',
+    webhooksDesc: language === 'English'
+      ? 'Send signed JSON to other systems (HR, chat) when tickets, assets or employees change. Failed deliveries are retried automatically.'
+      : 'إرسال JSON موقّع إلى الأنظمة الأخرى (الموارد البشرية، الدردشة) عند تغيير التذاكر أو الأصول أو الموظفين. تتم إعادة محاولة التسليمات الفاشلة تلقائياً.',
+    deliveries: language === 'English' ? 'Delivery Log' : 'سجل التسليم',
+    deliveriesDesc: language === 'English'
+      ? 'Recent deliveries with the endpoint response. Replay sends the same payload again.'
+      : 'أحدث التسليمات مع استجابة الخادم. إعادة الإرسال ترسل نفس البيانات مرة أخرى.',
+    addWebhook: language === 'English' ? 'Add Webhook' : 'إضافة خطاف',
+    editWebhook: language === 'English' ? 'Edit Webhook' : 'تعديل الخطاف',
+    name: language === 'English' ? 'Name' : 'الاسم',
+    url: language === 'English' ? 'Endpoint URL' : 'عنوان الاستقبال',
+    events: language === 'English' ? 'Events' : 'الأحداث',
+    secret: language === 'English' ? 'Signing Secret' : 'مفتاح التوقيع',
+    secretHint: language === 'English'
+      ? 'Verify the X-SimpleIT-Signature header: sha256 HMAC of "<X-SimpleIT-Timestamp>.<raw body>" with this secret.'
+      : 'تحقق من ترويسة X-SimpleIT-Signature: قيمة HMAC sha256 لـ "<X-SimpleIT-Timestamp>.<raw body>" باستخدام هذا المفتاح.',
+    secretAfterCreate: language === 'English'
+      ? 'A signing secret is generated when the webhook is saved.'
+      : 'يتم إنشاء مفتاح التوقيع عند حفظ الخطاف.',
+    regenerateSecret: language === 'English' ? 'Regenerate' : 'إعادة الإنشاء',
+    confirmRegenerate: language === 'English'
+      ? 'Generate a new secret? The receiving system must be updated to keep verifying signatures.'
+      : 'إنشاء مفتاح جديد؟ يجب تحديث النظام المستقبل لمواصلة التحقق من التواقيع.',
+    copied: language === 'English' ? 'Copied to clipboard' : 'تم النسخ',
+    active: language === 'English' ? 'Active' : 'نشط',
+    inactive: language === 'English' ? 'Inactive' : 'غير نشط',
+    test: language === 'English' ? 'Send test' : 'إرسال تجربة',
+    testSent: language === 'English' ? 'Test delivered' : 'تم تسليم التجربة',
+    testFailed: language === 'English' ? 'Test delivery failed' : 'فشل تسليم التجربة',
+    replay: language === 'English' ? 'Replay' : 'إعادة الإرسال',
+    replayed: language === 'English' ? 'Delivery replayed' : 'تمت إعادة الإرسال',
+    refresh: language === 'English' ? 'Refresh' : 'تحديث',
+    viewPayload: language === 'English' ? 'View payload' : 'عرض البيانات',
+    payload: language === 'English' ? 'Payload' : 'البيانات',
+    response: language === 'English' ? 'Response' : 'الاستجابة',
+    time: language === 'English' ? 'Time' : 'الوقت',
+    webhook: language === 'English' ? 'Webhook' : 'الخطاف',
+    event: language === 'English' ? 'Event' : 'الحدث',
+    status: language === 'English' ? 'Status' : 'الحالة',
+    attempts: language === 'English' ? 'Attempts' : 'المحاولات',
+    lastError: language === 'English' ? 'Last error' : 'آخر خطأ',
+    allWebhooks: language === 'English' ? 'All webhooks' : 'كل الخطافات',
+    allStatuses: language === 'English' ? 'All statuses' : 'كل الحالات',
+    pending: language === 'English' ? 'Retrying' : 'قيد إعادة المحاولة',
+    success: language === 'English' ? 'Delivered' : 'تم التسليم',
+    failed: language === 'English' ? 'Failed' : 'فشل',
+    noWebhooks: language === 'English' ? 'No webhooks configured.' : 'لا توجد خطافات.',
+    noDeliveries: language === 'English' ? 'No deliveries yet.' : 'لا توجد تسليمات بعد.',
+    actions: language === 'English' ? 'Actions' : 'الإجراءات',
+    save: language === 'English' ? 'Save' : 'حفظ',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    close: language === 'English' ? 'Close' : 'إغلاق',
+    done: language === 'English' ? 'Success' : 'تم بنجاح',
+    error: language === 'English' ? 'Error' : 'خطأ',
+    saved: language === 'English' ? 'Webhook saved' : 'تم حفظ الخطاف',
+    deleted: language === 'English' ? 'Deleted successfully' : 'تم الحذف بنجاح',
+    confirmDelete: language === 'English'
+      ? 'Delete this webhook and its delivery log?'
+      : 'هل تريد حذف هذا الخطاف وسجل التسليم الخاص به؟'
+  };
+
+  const eventLabels: Record<string, string> = language === 'English'
+    ? {
+        'ticket.created': 'Ticket created',
+        'ticket.assigned': 'Ticket assigned',
+        'ticket.status_changed': 'Ticket status changed',
+        'asset.checked_out': 'Asset checked out',
+        'asset.checked_in': 'Asset checked in',
+        'employee.created': 'Employee created',
+        'employee.offboarded': 'Employee offboarded',
+        'upgrade.approved': 'Upgrade approved',
+        'upgrade.rejected': 'Upgrade rejected',
+        'webhook.test': 'Test',
+      }
+    : {
+        'ticket.created': 'إنشاء تذكرة',
+        'ticket.assigned': 'تعيين تذكرة',
+        'ticket.status_changed': 'تغيير حالة تذكرة',
+        'asset.checked_out': 'تسليم أصل',
+        'asset.checked_in': 'استلام أصل',
+        'employee.created': 'إضافة موظف',
+        'employee.offboarded': 'إنهاء خدمة موظف',
+        'upgrade.approved': 'الموافقة على ترقية',
+        'upgrade.rejected': 'رفض ترقية',
+        'webhook.test': 'تجربة',
+      };
+
+  const deliveriesKey = `/api/webhooks/deliveries?limit=100${
+    subscriptionFilter !== ALL ? `&subscriptionId=${subscriptionFilter}` : ''
+  }${statusFilter !== ALL ? `&status=${statusFilter}` : ''}`;
+
+  const { data: subscriptions = [], isLoading: subscriptionsLoading } = useQuery<WebhookSubscription[]>({
+    queryKey: ['/api/webhooks'],
+  });
+
+  const { data: eventTypes = [] } = useQuery<string[]>({
+    queryKey: ['/api/webhooks/events'],
+  });
+
+  const { data: deliveries = [], isLoading: deliveriesLoading, refetch: refetchDeliveries, isFetching: deliveriesFetching } = useQuery<WebhookDelivery[]>({
+    queryKey: [deliveriesKey],
+  });
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  const invalidateWebhooks = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/webhooks/deliveries')
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) => editing
+      ? apiRequest(`/api/webhooks/${editing.id}`, 'PUT', data)
+      : apiRequest('/api/webhooks', 'POST', data),
+    onSuccess: (subscription: WebhookSubscription) => {
+      invalidateWebhooks();
+      // Stay open after creating so the generated secret can be copied
+      if (editing) {
+        closeDialog();
+      } else {
+        setEditing(subscription);
+      }
+      toast({ title: t.done, description: t.saved });
+    },
+    onError: handleError
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/webhooks/${id}`, 'PUT', { regenerateSecret: true }),
+    onSuccess: (subscription: WebhookSubscription) => {
+      invalidateWebhooks();
+      setEditing(subscription);
+    },
+    onError: handleError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/webhooks/${id}`, 'DELETE'),
+    onSuccess: () => {
+      invalidateWebhooks();
+      toast({ title: t.done, description: t.deleted });
+    },
+    onError: handleError
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/webhooks/${id}/test`, 'POST'),
+    onSuccess: (delivery: WebhookDelivery) => {
+      invalidateWebhooks();
+      if (delivery.status === 'success') {
+        toast({ title: t.testSent, description: `HTTP ${delivery.responseStatus}` });
+      } else {
+        toast({ title: t.testFailed, description: delivery.lastError || undefined, variant: 'destructive' });
+      }
+    },
+    onError: handleError
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/webhooks/deliveries/${id}/replay`, 'POST'),
+    onSuccess: () => {
+      invalidateWebhooks();
+      toast({ title: t.done, description: t.replayed });
+    },
+    onError: handleError
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+    setForm(emptySubscription);
+  };
+
+  const openSubscription = (subscription?: WebhookSubscription) => {
+    if (subscription) {
+      setEditing(subscription);
+      setForm({
+        name: subscription.name,
+        url: subscription.url,
+        events: (subscription.events as string[]) || [],
+        isActive: subscription.isActive
+      });
+    }
+    setDialogOpen(true);
+  };
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter(e => e !== event)
+    }));
+  };
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast({ description: t.copied });
+  };
+
+  const subscriptionName = (id: number) =>
+    subscriptions.find(s => s.id === id)?.name || `#${id}`;
+
+  const statusBadge = (status: string) => {
+    if (status === 'success') return <Badge className="bg-green-600 hover:bg-green-600">{t.success}</Badge>;
+    if (status === 'failed') return <Badge variant="destructive">{t.failed}</Badge>;
+    return <Badge variant="secondary">{t.pending}</Badge>;
+  };
+
+  const formatTime = (value: Date | string | null) =>
+    value ? new Date(value).toLocaleString(language === 'English' ? 'en-US' : 'ar-SA') : '-';
+
+  const spinner = (
+    <div className="flex justify-center p-8">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Subscriptions */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Webhook className="h-5 w-5" />
+              {t.webhooks}
+            </CardTitle>
+            <CardDescription>{t.webhooksDesc}</CardDescription>
+          </div>
+          <Button onClick={() => openSubscription()}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t.addWebhook}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {subscriptionsLoading ? spinner : subscriptions.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">{t.noWebhooks}</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.name}</TableHead>
+                    <TableHead>{t.url}</TableHead>
+                    <TableHead>{t.events}</TableHead>
+                    <TableHead>{t.active}</TableHead>
+                    <TableHead>{t.actions}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subscriptions.map(subscription => (
+                    <TableRow key={subscription.id}>
+                      <TableCell className="font-medium">{subscription.name}</TableCell>
+                      <TableCell className="max-w-xs truncate font-mono text-xs" title={subscription.url}>
+                        {subscription.url}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {((subscription.events as string[]) || []).map(event => (
+                            <Badge key={event} variant="outline" className="text-xs">
+                              {eventLabels[event] || event}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={subscription.isActive ? 'default' : 'secondary'}>
+                          {subscription.isActive ? t.active : t.inactive}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => testMutation.mutate(subscription.id)}
+                            disabled={testMutation.isPending}
+                            title={t.test}
+                          >
+                            <Send className="h-3 w-3" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => openSubscription(subscription)} title={t.editWebhook}>
+                            <Edit className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              if (confirm(t.confirmDelete)) deleteMutation.mutate(subscription.id);
+                            }}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delivery Log */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              {t.deliveries}
+            </CardTitle>
+            <CardDescription>{t.deliveriesDesc}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={subscriptionFilter} onValueChange={setSubscriptionFilter}>
+              <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t.allWebhooks}</SelectItem>
+                {subscriptions.map(subscription => (
+                  <SelectItem key={subscription.id} value={String(subscription.id)}>{subscription.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t.allStatuses}</SelectItem>
+                <SelectItem value="success">{t.success}</SelectItem>
+                <SelectItem value="pending">{t.pending}</SelectItem>
+                <SelectItem value="failed">{t.failed}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => refetchDeliveries()} disabled={deliveriesFetching} title={t.refresh}>
+              <RefreshCw className={`h-4 w-4 ${deliveriesFetching ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {deliveriesLoading ? spinner : deliveries.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">{t.noDeliveries}</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.time}</TableHead>
+                    <TableHead>{t.webhook}</TableHead>
+                    <TableHead>{t.event}</TableHead>
+                    <TableHead>{t.status}</TableHead>
+                    <TableHead>{t.attempts}</TableHead>
+                    <TableHead>{t.lastError}</TableHead>
+                    <TableHead>{t.actions}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map(delivery => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="whitespace-nowrap text-sm">{formatTime(delivery.createdAt)}</TableCell>
+                      <TableCell>{subscriptionName(delivery.subscriptionId)}</TableCell>
+                      <TableCell>{eventLabels[delivery.eventType] || delivery.eventType}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {statusBadge(delivery.status)}
+                          {delivery.responseStatus && (
+                            <span className="text-xs text-muted-foreground">HTTP {delivery.responseStatus}</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>{delivery.attempts}</TableCell>
+                      <TableCell className="max-w-xs truncate text-sm text-muted-foreground" title={delivery.lastError || ''}>
+                        {delivery.lastError || '-'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setViewingDelivery(delivery)} title={t.viewPayload}>
+                            <Eye className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => replayMutation.mutate(delivery.id)}
+                            disabled={replayMutation.isPending}
+                            title={t.replay}
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Subscription Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={(open) => { if (!open) closeDialog(); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? t.editWebhook : t.addWebhook}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="webhook-name">{t.name}</Label>
+              <Input
+                id="webhook-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="webhook-url">{t.url}</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                placeholder="https://"
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>{t.events}</Label>
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {eventTypes.map(event => (
+                  <div key={event} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`webhook-event-${event}`}
+                      checked={form.events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    />
+                    <Label htmlFor={`webhook-event-${event}`} className="text-sm font-normal">
+                      {eventLabels[event] || event}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label>{t.secret}</Label>
+              {editing ? (
+                <div className="flex gap-2 mt-1">
+                  <Input readOnly value={editing.secret} className="font-mono text-xs" />
+                  <Button type="button" variant="outline" size="sm" onClick={() => copySecret(editing.secret)}>
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      if (confirm(t.confirmRegenerate)) regenerateMutation.mutate(editing.id);
+                    }}
+                    disabled={regenerateMutation.isPending}
+                  >
+                    {t.regenerateSecret}
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground mt-1">{t.secretAfterCreate}</p>
+              )}
+              <p className="text-xs text-muted-foreground mt-1">{t.secretHint}</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="webhook-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+              <Label htmlFor="webhook-active">{t.active}</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>{t.cancel}</Button>
+            <Button
+              onClick={() => saveMutation.mutate({ ...form })}
+              disabled={!form.name.trim() || !form.url.trim() || form.events.length === 0 || saveMutation.isPending}
+            >
+              {t.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delivery Details Dialog */}
+      <Dialog open={!!viewingDelivery} onOpenChange={(open) => { if (!open) setViewingDelivery(null); }}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {viewingDelivery && (eventLabels[viewingDelivery.eventType] || viewingDelivery.eventType)}
+            </DialogTitle>
+          </DialogHeader>
+          {viewingDelivery && (
+            <div className="space-y-4">
+              <div>
+                <Label>{t.payload}</Label>
+                <pre className="mt-1 max-h-72 overflow-auto rounded-md bg-muted p-3 text-xs" dir="ltr">
+                  {JSON.stringify(viewingDelivery.payload, null, 2)}
+                </pre>
+              </div>
+              <div>
+                <Label>{t.response}</Label>
+                <pre className="mt-1 max-h-40 overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap" dir="ltr">
+                  {viewingDelivery.responseStatus ? `HTTP ${viewingDelivery.responseStatus}\n` : ''}
+                  {viewingDelivery.responseBody || viewingDelivery.lastError || '-'}
+                </pre>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setViewingDelivery(null)}>{t.close}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
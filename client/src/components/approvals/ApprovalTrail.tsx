@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle, Circle, Clock, MinusCircle, XCircle } from 'lucide-react';
+
+export type ApprovalRequestType = 'upgrade' | 'purchase_order' | 'service_request';
+export type ApprovalRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type ApprovalStepStatus = 'waiting' | 'pending' | 'approved' | 'rejected' | 'skipped' | 'cancelled';
+
+export interface ApprovalStep {
+  id: number;
+  stepOrder: number;
+  name: string;
+  approverType: 'direct_manager' | 'role' | 'user';
+  approverRole: string | null;
+  approverUserId: number | null;
+  approverUserName: string | null;
+  status: ApprovalStepStatus;
+  decidedById: number | null;
+  decidedByName: string | null;
+  onBehalfOfName: string | null;
+  decidedVia: 'app' | 'notification' | 'email' | null;
+  decidedAt: string | null;
+  comments: string | null;
+}
+
+export interface ApprovalRequest {
+  id: number;
+  requestType: ApprovalRequestType;
+  subjectId: number;
+  title: string;
+  amount: string | null;
+  status: ApprovalRequestStatus;
+  requestedById: number | null;
+  requestedByName: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  path: string;
+  steps: ApprovalStep[];
+  canAct: boolean;
+  actingForName: string | null;
+}
+
+/**
+ * Refresh every approval list after a decision (inbox, bell, trails and the subject pages)
+ */
+export function invalidateApprovalQueries(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({
+    predicate: (query) => ['/api/approvals', '/api/upgrades', '/api/purchase-orders', '/api/service-catalog']
+      .some(prefix => String(query.queryKey[0]).startsWith(prefix))
+  });
+}
+
+export function useApprovalLabels() {
+  const { language } = useLanguage();
+  const isEnglish = language === 'English';
+
+  return {
+    requestTypes: {
+      upgrade: isEnglish ? 'Upgrade request' : 'طلب ترقية',
+      purchase_order: isEnglish ? 'Purchase order' : 'أمر شراء',
+      service_request: isEnglish ? 'Service request' : 'طلب خدمة',
+    } as Record<ApprovalRequestType, string>,
+    requestStatuses: {
+      pending: isEnglish ? 'Pending' : 'قيد الانتظار',
+      approved: isEnglish ? 'Approved' : 'موافق عليه',
+      rejected: isEnglish ? 'Rejected' : 'مرفوض',
+      cancelled: isEnglish ? 'Cancelled' : 'ملغى',
+    } as Record<ApprovalRequestStatus, string>,
+    stepStatuses: {
+      waiting: isEnglish ? 'Waiting' : 'بالانتظار',
+      pending: isEnglish ? 'Awaiting decision' : 'بانتظار القرار',
+      approved: isEnglish ? 'Approved' : 'موافق عليه',
+      rejected: isEnglish ? 'Rejected' : 'مرفوض',
+      skipped: isEnglish ? 'Skipped (below amount)' : 'تم التخطي (أقل من المبلغ)',
+      cancelled: isEnglish ? 'Cancelled' : 'ملغى',
+    } as Record<ApprovalStepStatus, string>,
+    roles: {
+      agent: isEnglish ? 'Agent or above' : 'وكيل أو أعلى',
+      manager: isEnglish ? 'Manager or above' : 'مدير أو أعلى',
+      admin: isEnglish ? 'Admin or above' : 'مسؤول أو أعلى',
+      super_admin: isEnglish ? 'Super admin' : 'مسؤول أعلى',
+    } as Record<string, string>,
+    channels: {
+      app: isEnglish ? 'in the app' : 'من التطبيق',
+      notification: isEnglish ? 'from a notification' : 'من إشعار',
+      email: isEnglish ? 'from an email link' : 'من رابط البريد',
+    } as Record<string, string>,
+    directManager: isEnglish ? 'Direct manager' : 'المدير المباشر',
+    onBehalfOf: (name: string) => isEnglish ? `on behalf of ${name}` : `نيابة عن ${name}`,
+  };
+}
+
+export function getRequestStatusClass(status: ApprovalRequestStatus): string {
+  switch (status) {
+    case 'approved': return 'bg-green-100 text-green-800';
+    case 'rejected': return 'bg-red-100 text-red-800';
+    case 'cancelled': return 'bg-gray-100 text-gray-800';
+    default: return 'bg-yellow-100 text-yellow-800';
+  }
+}
+
+function StepIcon({ status }: { status: ApprovalStepStatus }) {
+  switch (status) {
+    case 'approved': return <CheckCircle className="h-4 w-4 text-green-600" />;
+    case 'rejected': return <XCircle className="h-4 w-4 text-red-600" />;
+    case 'pending': return <Clock className="h-4 w-4 text-yellow-600" />;
+    case 'skipped':
+    case 'cancelled': return <MinusCircle className="h-4 w-4 text-gray-400" />;
+    default: return <Circle className="h-4 w-4 text-gray-300" />;
+  }
+}
+
+interface ApprovalStepListProps {
+  request: ApprovalRequest;
+}
+
+/**
+ * The steps of one approval run: who each step waits for and who decided it, when and how
+ */
+export function ApprovalStepList({ request }: ApprovalStepListProps) {
+  const { language } = useLanguage();
+  const labels = useApprovalLabels();
+
+  const getApproverLabel = (step: ApprovalStep) => {
+    if (step.approverUserName) {
+      return step.approverType === 'direct_manager'
+        ? `${labels.directManager}: ${step.approverUserName}`
+        : step.approverUserName;
+    }
+    return labels.roles[step.approverRole || ''] || step.approverRole || '-';
+  };
+
+  return (
+    <ol className="space-y-2">
+      {request.steps.map(step => (
+        <li key={step.id} className="flex items-start gap-2 text-sm">
+          <div className="mt-0.5"><StepIcon status={step.status} /></div>
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{step.stepOrder}. {step.name}</span>
+              <span className="text-xs text-muted-foreground">{getApproverLabel(step)}</span>
+              <span className="text-xs text-muted-foreground">· {labels.stepStatuses[step.status]}</span>
+            </div>
+            {step.decidedByName && step.decidedAt && (
+              <div className="text-xs text-muted-foreground">
+                {step.decidedByName}
+                {step.onBehalfOfName && ` (${labels.onBehalfOf(step.onBehalfOfName)})`}
+                {step.decidedVia && ` · ${labels.channels[step.decidedVia]}`}
+                {' · '}
+                {new Date(step.decidedAt).toLocaleString(language === 'English' ? 'en-US' : 'ar-SA')}
+              </div>
+            )}
+            {step.comments && (
+              <div className="text-xs whitespace-pre-line mt-0.5">{step.comments}</div>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+interface ApprovalDecisionFormProps {
+  request: ApprovalRequest;
+  onDecided?: () => void;
+}
+
+/**
+ * Approve or reject the current step; a reason is required to reject
+ */
+export function ApprovalDecisionForm({ request, onDecided }: ApprovalDecisionFormProps) {
+  const { language } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const labels = useApprovalLabels();
+  const [comments, setComments] = useState('');
+
+  const t = {
+    comments: language === 'English' ? 'Comments (required to reject)' : 'ملاحظات (مطلوبة للرفض)',
+    approve: language === 'English' ? 'Approve' : 'موافقة',
+    reject: language === 'English' ? 'Reject' : 'رفض',
+    decided: language === 'English' ? 'Decision recorded' : 'تم تسجيل القرار',
+    error: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const decideMutation = useMutation({
+    mutationFn: (approved: boolean) =>
+      apiRequest(`/api/approvals/${request.id}/${approved ? 'approve' : 'reject'}`, 'POST', { comments }),
+    onSuccess: () => {
+      toast({ title: t.decided });
+      setComments('');
+      invalidateApprovalQueries(queryClient);
+      onDecided?.();
+    },
+    onError: (error: any) => {
+      toast({ title: t.error, description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const current = request.steps.find(step => step.status === 'pending');
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      {current && (
+        <div className="text-sm font-medium">
+          {current.name}
+          {request.actingForName && (
+            <span className="text-muted-foreground font-normal"> · {labels.onBehalfOf(request.actingForName)}</span>
+          )}
+        </div>
+      )}
+      <Textarea value={comments} onChange={(e) => setComments(e.target.value)} placeholder={t.comments} rows={2} />
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          className="text-red-600"
+          disabled={!comments.trim() || decideMutation.isPending}
+          onClick={() => decideMutation.mutate(false)}
+        >
+          {t.reject}
+        </Button>
+        <Button disabled={decideMutation.isPending} onClick={() => decideMutation.mutate(true)}>
+          {t.approve}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface ApprovalTrailProps {
+  requestType: ApprovalRequestType;
+  subjectId: number;
+}
+
+/**
+ * Approval trail of an upgrade request, purchase order or service request, with the decision
+ * form for whoever can decide the current step; renders nothing when no chain was involved
+ */
+export default function ApprovalTrail({ requestType, subjectId }: ApprovalTrailProps) {
+  const { language } = useLanguage();
+  const labels = useApprovalLabels();
+
+  const t = {
+    approvalTrail: language === 'English' ? 'Approval Trail' : 'سجل الموافقات',
+    earlierRuns: language === 'English' ? 'Earlier approval runs' : 'جولات موافقة سابقة',
+  };
+
+  const { data: requests = [] } = useQuery<ApprovalRequest[]>({
+    queryKey: [`/api/approvals/subject/${requestType}/${subjectId}`],
+  });
+
+  if (requests.length === 0) return null;
+  const [latest, ...earlier] = requests;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">{t.approvalTrail}</h4>
+        <Badge className={getRequestStatusClass(latest.status)}>{labels.requestStatuses[latest.status]}</Badge>
+      </div>
+      <ApprovalStepList request={latest} />
+      {latest.canAct && <ApprovalDecisionForm request={latest} />}
+      {earlier.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-muted-foreground">{t.earlierRuns} ({earlier.length})</summary>
+          <div className="space-y-3 mt-2">
+            {earlier.map(request => (
+              <div key={request.id} className="rounded-md border p-2">
+                <Badge className={`mb-2 ${getRequestStatusClass(request.status)}`}>{labels.requestStatuses[request.status]}</Badge>
+                <ApprovalStepList request={request} />
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
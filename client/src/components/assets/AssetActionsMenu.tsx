@@ -12,13 +12,14 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { MoreHorizontal, Wrench, ArrowUp, FileText, LogOut, LogIn, Edit, Calendar, User, Settings, CheckCircle, AlertCircle, Eye, Trash2, Plus } from 'lucide-react';
+import { MoreHorizontal, Wrench, ArrowUp, FileText, LogOut, LogIn, Edit, Calendar, User, Settings, CheckCircle, AlertCircle, Eye, Trash2, Plus, QrCode } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import { format } from 'date-fns';
 import MaintenanceForm from './MaintenanceForm';
 import { UpgradeForm } from './UpgradeForm';
 import AssetDetailView from './AssetDetailView';
+import PrintLabelsDialog from './PrintLabelsDialog';
 import ActiveEmployeeSelect from '@/components/employees/ActiveEmployee';
 
 
@@ -49,6 +50,7 @@ export function AssetActionsMenu({ asset, employees = [], onEdit }: AssetActions
   const [showCheckInDialog, setShowCheckInDialog] = useState(false);
   const [showHistoryDialog, setShowHistoryDialog] = useState(false);
   const [showDetailsDialog, setShowDetailsDialog] = useState(false);
+  const [showLabelDialog, setShowLabelDialog] = useState(false);
   const [selectedEmployeeId, setSelectedEmployeeId] = useState('');
   const [notes, setNotes] = useState('');
   const [reason, setReason] = useState('');
@@ -75,6 +77,7 @@ export function AssetActionsMenu({ asset, employees = [], onEdit }: AssetActions
     scheduleMaintenance: language === 'English' ? 'Schedule Maintenance' : 'جدولة الصيانة',
     viewHistory: language === 'English' ? 'View History' : 'عرض السجل',
     requestUpgrade: language === 'English' ? 'Request Upgrade' : 'طلب ترقية',
+    printLabel: language === 'English' ? 'Print Label' : 'طباعة الملصق',
   };
 
 
@@ -286,6 +289,15 @@ export function AssetActionsMenu({ asset, employees = [], onEdit }: AssetActions
             {translations.viewHistory}
           </DropdownMenuItem>
 
+          <DropdownMenuItem onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            setShowLabelDialog(true);
+          }}>
+            <QrCode className="mr-2 h-4 w-4" />
+            {translations.printLabel}
+          </DropdownMenuItem>
+
   
           <DropdownMenuSeparator />
 
@@ -461,6 +473,13 @@ export function AssetActionsMenu({ asset, employees = [], onEdit }: AssetActions
         onOpenChange={setShowDetailsDialog}
       />
 
+      {/* QR label for this asset */}
+      <PrintLabelsDialog
+        open={showLabelDialog}
+        onOpenChange={setShowLabelDialog}
+        assetIds={[asset.id]}
+      />
+
       {/* Asset History Dialog */}
       <AssetHistoryDialog 
         open={showHistoryDialog} 
@@ -4,6 +4,7 @@ import { useLanguage } from '@/hooks/use-language';
 import { format } from 'date-fns';
 import { useCurrency } from '@/lib/currencyContext';
 import AssetDepreciationInfo from './AssetDepreciationInfo';
+import type { LocationOption } from './LocationSelect';
 import {
   Dialog,
   DialogContent,
@@ -100,6 +101,11 @@ export default function AssetDetailView({ assetId, open, onOpenChange }: AssetDe
     noDescription: language === 'English' ? 'No description provided' : 'لا يوجد وصف متاح',
     checkedOut: language === 'English' ? 'Checked Out' : 'تم التسليم',
     checkedIn: language === 'English' ? 'Checked In' : 'تم الاستلام',
+    transferred: language === 'English' ? 'Transferred' : 'تم النقل',
+    audited: language === 'English' ? 'Stock-take' : 'الجرد',
+    location: language === 'English' ? 'Location' : 'الموقع',
+    movedFrom: language === 'English' ? 'From' : 'من',
+    movedTo: language === 'English' ? 'To' : 'إلى',
     dateNotAvailable: language === 'English' ? 'Date not available' : 'التاريخ غير متاح',
     maintenanceType: language === 'English' ? 'Maintenance' : 'صيانة',
     noMaintenanceHistory: language === 'English' ? 'This asset has no maintenance history' : 'هذا الأصل ليس له تاريخ صيانة',
@@ -159,6 +165,13 @@ const { data: transactions = [], isLoading: transactionsLoading } = useQuery({
   enabled: !!assetId && open && activeTab === 'transactions',
 });
 
+  // Locations resolve the asset's and each transaction's location ids to full paths
+  const { data: locations = [] } = useQuery<LocationOption[]>({
+    queryKey: ['/api/locations'],
+    enabled: open,
+  });
+  const locationPath = (id?: number | null) => id ? locations.find(l => l.id === id)?.path || '-' : '-';
+
   // Fetch custom asset statuses for dynamic colors
   const { data: assetStatuses = [] } = useQuery<any[]>({
     queryKey: ['/api/custom-asset-statuses'],
@@ -339,6 +352,10 @@ const getWarrantyStatus = (warrantyDate: string | null) => {
                       {asset.status}
                     </Badge>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-sm font-medium">{translations.location}:</span>
+                    <span className="text-sm">{locationPath(asset.locationId)}</span>
+                  </div>
                   {asset.outOfBoxOs && (
                     <div className="flex justify-between">
                       <span className="text-sm font-medium">{translations.operatingSystem}:</span>
@@ -657,7 +674,9 @@ const getWarrantyStatus = (warrantyDate: string | null) => {
                       <div className="flex justify-between items-start">
                         <div>
                           <h4 className="font-semibold">
-                            {transaction.type === 'Check-Out' ? translations.checkedOut : translations.checkedIn}
+                            {transaction.type === 'Check-Out' ? translations.checkedOut :
+                              transaction.type === 'Transfer' ? translations.transferred :
+                              transaction.type === 'Audit' ? translations.audited : translations.checkedIn}
                           </h4>
                           <p className="text-sm text-muted-foreground">
                             {format(new Date(transaction.transactionDate), 'PPP p')}
@@ -674,6 +693,12 @@ const getWarrantyStatus = (warrantyDate: string | null) => {
                           {transaction.employee.englishName}
                         </p>
                       )}
+                      {transaction.fromLocationId !== transaction.toLocationId && (
+                        <p className="text-sm mt-2">
+                          <span className="font-medium">{translations.location}: </span>
+                          {translations.movedFrom} {locationPath(transaction.fromLocationId)} {translations.movedTo} {locationPath(transaction.toLocationId)}
+                        </p>
+                      )}
                       {transaction.conditionNotes && (
                         <p className="text-sm mt-2">
                           <span className="font-medium">{translations.notes}: </span>
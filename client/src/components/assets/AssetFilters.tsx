@@ -23,6 +23,8 @@ import {
   CommandList,
 } from '@/components/ui/command';
 import { X, Filter, Search, Download, ChevronDown, ChevronsUpDown, Check } from 'lucide-react';
+import CustomFieldFilter from '@/components/custom-fields/CustomFieldFilter';
+import { useCustomFieldDefinitions } from '@/components/custom-fields/CustomFieldInputs';
 import type { AssetFilters } from '@shared/types';
 
 interface AssetFiltersProps {
@@ -57,6 +59,9 @@ export default function AssetFilters({
     status: language === 'English' ? 'Status' : 'الحالة',
     assignment: language === 'English' ? 'Assignment' : 'التخصيص',
     maintenanceStatus: language === 'English' ? 'Maintenance Status' : 'حالة الصيانة',
+    location: language === 'English' ? 'Location' : 'الموقع',
+    allLocations: language === 'English' ? 'All Locations' : 'جميع المواقع',
+    noLocation: language === 'English' ? 'No Location' : 'بدون موقع',
     clearAll: language === 'English' ? 'Clear All' : 'مسح الكل',
     searchPlaceholder: language === 'English' ? 'Search assets...' : 'البحث في الأصول...',
     searchEmployees: language === 'English' ? 'Search employees...' : 'البحث عن الموظفين...',
@@ -104,6 +109,14 @@ export default function AssetFilters({
     select: (data: any[]) => data.map(status => status.name)
   });
 
+  // Locations come back ordered by path; a location also matches assets kept beneath it
+  const { data: locations = [] } = useQuery<{ id: number; name: string; path: string; depth: number; isActive: boolean }[]>({
+    queryKey: ['/api/locations']
+  });
+
+  const customFieldDefinitions = useCustomFieldDefinitions('asset');
+  const customFieldLabel = customFieldDefinitions.find(definition => definition.key === filters.customField)?.label;
+
   // Filter brands based on selected type
   const filteredBrands = filters.type 
     ? [...new Set(assets?.filter((a: any) => {
@@ -193,7 +206,8 @@ export default function AssetFilters({
     onFiltersChange({});
   };
 
-  const activeFiltersCount = Object.values(filters).filter(Boolean).length;
+  // The custom field and its value count as one filter
+  const activeFiltersCount = Object.entries(filters).filter(([key, value]) => key !== 'customFieldValue' && value).length;
 
   return (
     <Card>
@@ -231,8 +245,8 @@ export default function AssetFilters({
           </Button>
         </form>
 
-        {/* Filter Grid - Updated layout for 6 columns */}
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2">
+        {/* Filter Grid - Updated layout for 7 columns */}
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-2">
           {/* Type Filter - Multi-Select */}
           <div>
             <label className="text-sm font-medium mb-2 block">
@@ -559,6 +573,37 @@ export default function AssetFilters({
               </SelectContent>
             </Select>
           </div>
+
+          {/* Location Filter */}
+          <div>
+            <label className="text-sm font-medium mb-2 block">
+              {translations.location}
+            </label>
+            <Select
+              value={filters.location || 'all'}
+              onValueChange={(value) => updateFilter('location', value === 'all' ? undefined : value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={translations.allLocations} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{translations.allLocations}</SelectItem>
+                <SelectItem value="none">{translations.noLocation}</SelectItem>
+                {locations.map((location) => (
+                  <SelectItem key={location.id} value={location.id.toString()}>
+                    <span style={{ paddingLeft: `${location.depth * 12}px` }}>{location.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <CustomFieldFilter
+            entityType="asset"
+            field={filters.customField}
+            value={filters.customFieldValue}
+            onChange={(customField, customFieldValue) => onFiltersChange({ ...filters, customField, customFieldValue })}
+          />
         </div>
 
         {/* Active Filters */}
@@ -639,6 +684,28 @@ export default function AssetFilters({
                 />
               </Badge>
             )}
+            {filters.location && (
+              <Badge variant="outline" className="gap-1">
+                {translations.location}: {
+                  filters.location === 'none'
+                    ? translations.noLocation
+                    : locations.find((l) => l.id.toString() === filters.location)?.path || filters.location
+                }
+                <X 
+                  className="h-3 w-3 cursor-pointer" 
+                  onClick={() => updateFilter('location', undefined)}
+                />
+              </Badge>
+            )}
+            {filters.customField && (
+              <Badge variant="outline" className="gap-1">
+                {customFieldLabel || filters.customField}: {filters.customFieldValue || '*'}
+                <X 
+                  className="h-3 w-3 cursor-pointer" 
+                  onClick={() => onFiltersChange({ ...filters, customField: undefined, customFieldValue: undefined })}
+                />
+              </Badge>
+            )}
             {filters.maintenanceDue && (
               <Badge variant="outline" className="gap-1">
                 {translations.maintenanceStatus}: {translations[filters.maintenanceDue as keyof typeof translations] || filters.maintenanceDue}
@@ -28,6 +28,14 @@ import { Textarea } from '@/components/ui/textarea';
 import { Calendar } from '@/components/ui/calendar';
 import { CalendarIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import LocationSelect from '@/components/assets/LocationSelect';
+import CustomFieldInputs, {
+  useCustomFieldDefinitions,
+  getApplicableFields,
+  getCustomFieldError,
+  pickCustomFieldValues,
+  type CustomFieldValues,
+} from '@/components/custom-fields/CustomFieldInputs';
 import { useState } from 'react';
 
 interface AssetFormProps {
@@ -102,6 +110,8 @@ export default function AssetForm({ onSubmit, initialData, isSubmitting }: Asset
     lifeSpanDesc: language === 'English' ? 'Expected useful life in months' : 'العمر المتوقع بالأشهر',
     outOfBoxOs: language === 'English' ? 'Factory OS' : 'نظام التشغيل الأصلي',
     outOfBoxOsDesc: language === 'English' ? 'OS that came with the device' : 'نظام التشغيل الذي أتى مع الجهاز',
+    location: language === 'English' ? 'Location' : 'الموقع',
+    locationDesc: language === 'English' ? 'Where the asset is kept; changes are recorded as transfers' : 'مكان حفظ الأصل؛ يتم تسجيل التغييرات كعمليات نقل',
     assignedTo: language === 'English' ? 'Assigned To' : 'معين إلى',
     assignedToDesc: language === 'English' ? 'Employee using this asset' : 'الموظف الذي يستخدم هذا الأصل',
     none: language === 'English' ? 'None' : 'لا يوجد',
@@ -149,9 +159,11 @@ export default function AssetForm({ onSubmit, initialData, isSubmitting }: Asset
     lifeSpan: z.string().optional().or(z.literal("")).transform((value: string | undefined) => value === "" ? undefined : value),
     outOfBoxOs: z.string().optional().or(z.literal("")).transform((value: string | undefined) => value === "" ? undefined : value),
     assignedEmployeeId: z.string().optional().or(z.literal("")).transform((value: string | undefined) => value === "" ? undefined : value),
+    locationId: z.number().nullable().optional(),
     cpu: z.string().optional().or(z.literal("")).transform((value: string | undefined) => value === "" ? undefined : value),
     ram: z.string().optional().or(z.literal("")).transform((value: string | undefined) => value === "" ? undefined : value),
     storage: z.string().optional().or(z.literal("")).transform((value: string | undefined) => value === "" ? undefined : value),
+    customFields: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
   });
 
   const assetFormSchema = createAssetFormSchema();
@@ -178,6 +190,9 @@ export default function AssetForm({ onSubmit, initialData, isSubmitting }: Asset
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 
+  // Admin-defined fields; some only apply to certain asset types
+  const customFieldDefinitions = useCustomFieldDefinitions('asset');
+
   // Convert initial data to form format
   const getFormattedInitialData = () => {
     if (!initialData) return undefined;
@@ -193,10 +208,12 @@ export default function AssetForm({ onSubmit, initialData, isSubmitting }: Asset
       lifeSpan: initialData.lifeSpan ? initialData.lifeSpan.toString() : '',
       outOfBoxOs: initialData.outOfBoxOs || '',
       assignedEmployeeId: initialData.assignedEmployeeId ? initialData.assignedEmployeeId.toString() : '',
+      locationId: initialData.locationId ?? null,
       cpu: initialData.cpu || '',
       ram: initialData.ram || '',
       storage: initialData.storage || '',
       specs: initialData.specs || '',
+      customFields: initialData.customFields || {},
     };
   };
 
@@ -217,15 +234,25 @@ export default function AssetForm({ onSubmit, initialData, isSubmitting }: Asset
       lifeSpan: '',
       outOfBoxOs: '',
       assignedEmployeeId: '',
+      locationId: null,
       cpu: '',
       ram: '',
       storage: '',
+      customFields: {},
     },
   });
 
+  const applicableCustomFields = getApplicableFields(customFieldDefinitions, form.watch('type'));
+
   // Handle form submission
   const handleSubmit = (values: z.infer<typeof assetFormSchema>) => {
     try {
+      const customFieldError = getCustomFieldError(applicableCustomFields, values.customFields, language === 'English');
+      if (customFieldError) {
+        form.setError('customFields', { message: customFieldError });
+        return;
+      }
+
       // Convert string values to appropriate types for submission
       const formattedData = {
         ...values,
@@ -236,12 +263,14 @@ export default function AssetForm({ onSubmit, initialData, isSubmitting }: Asset
         lifeSpan: values.lifeSpan ? parseInt(values.lifeSpan) : null,
         assignedEmployeeId: values.assignedEmployeeId && values.assignedEmployeeId !== 'none' ? parseInt(values.assignedEmployeeId) : null,
         outOfBoxOs: values.outOfBoxOs || null,
+        locationId: values.locationId ?? null,
         cpu: values.cpu || null,
         ram: values.ram || null,
         storage: values.storage || null,
         specs: values.specs || null,
         purchaseDate: values.purchaseDate || null,
         warrantyExpiryDate: values.warrantyExpiryDate || null,
+        customFields: pickCustomFieldValues(applicableCustomFields, values.customFields),
       };
       
       onSubmit(formattedData);
@@ -509,6 +538,21 @@ export default function AssetForm({ onSubmit, initialData, isSubmitting }: Asset
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="locationId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{translations.location}</FormLabel>
+                    <FormControl>
+                      <LocationSelect value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormDescription>{translations.locationDesc}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="specs"
@@ -618,6 +662,21 @@ export default function AssetForm({ onSubmit, initialData, isSubmitting }: Asset
 
         </Tabs>
 
+        <FormField
+          control={form.control}
+          name="customFields"
+          render={({ field }) => (
+            <FormItem>
+              <CustomFieldInputs
+                definitions={applicableCustomFields}
+                values={field.value as CustomFieldValues | undefined}
+                onChange={field.onChange}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Hidden field for assignedEmployeeId to maintain backend compatibility */}
         <input 
           type="hidden" 
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { useLanguage } from '@/hooks/use-language';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import LocationSelect from '@/components/assets/LocationSelect';
+import { BulkActionResult } from '../types';
+
+interface BulkTransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  selectedAssets: number[];
+  onSuccess: (result: BulkActionResult) => void;
+  onCancel: () => void;
+}
+
+export default function BulkTransferDialog({
+  open,
+  onOpenChange,
+  selectedAssets,
+  onSuccess,
+  onCancel,
+}: BulkTransferDialogProps) {
+  const { language } = useLanguage();
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [notes, setNotes] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const translations = {
+    title: language === 'English' ? 'Transfer Assets' : 'نقل الأصول',
+    description: language === 'English'
+      ? `Move ${selectedAssets.length} selected asset(s) to another location`
+      : `نقل ${selectedAssets.length} أصل محدد إلى موقع آخر`,
+    destination: language === 'English' ? 'Destination' : 'الوجهة',
+    selectLocation: language === 'English' ? 'Select location...' : 'اختر الموقع...',
+    notes: language === 'English' ? 'Notes (Optional)' : 'ملاحظات (اختياري)',
+    notesPlaceholder: language === 'English' ? 'e.g. courier reference, reason for the move' : 'مثال: مرجع الشحن، سبب النقل',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    transfer: language === 'English' ? 'Transfer' : 'نقل',
+    processing: language === 'English' ? 'Processing...' : 'جاري المعالجة...',
+  };
+
+  const handleSubmit = async () => {
+    if (!locationId) return;
+
+    setIsProcessing(true);
+    try {
+      const response = await apiRequest(`/api/locations/${locationId}/transfer`, 'POST', {
+        assetIds: selectedAssets,
+        notes: notes || undefined,
+      });
+
+      const result: BulkActionResult = {
+        success: true,
+        message: language === 'English'
+          ? `Transferred ${response.transferred} asset(s)${response.skipped ? `, ${response.skipped} already at this location` : ''}`
+          : `تم نقل ${response.transferred} أصل${response.skipped ? `، ${response.skipped} موجود بالفعل في هذا الموقع` : ''}`,
+        details: {
+          succeeded: response.transferred,
+          failed: 0,
+        }
+      };
+
+      setLocationId(null);
+      setNotes('');
+      onSuccess(result);
+      onOpenChange(false);
+    } catch (error: any) {
+      const result: BulkActionResult = {
+        success: false,
+        message: error.message || 'Failed to transfer assets',
+        details: {
+          succeeded: 0,
+          failed: selectedAssets.length,
+        }
+      };
+      onSuccess(result);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{translations.title}</DialogTitle>
+          <DialogDescription>{translations.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4">
+          <div className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="destination">{translations.destination}</Label>
+              <LocationSelect
+                id="destination"
+                value={locationId}
+                onChange={setLocationId}
+                emptyLabel={translations.selectLocation}
+                disabled={isProcessing}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="transferNotes">{translations.notes}</Label>
+              <Textarea
+                id="transferNotes"
+                placeholder={translations.notesPlaceholder}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="min-h-[80px] resize-none"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onCancel}
+            disabled={isProcessing}
+          >
+            {translations.cancel}
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!locationId || isProcessing}
+          >
+            {isProcessing ? translations.processing : translations.transfer}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -26,6 +26,8 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import AttachmentDropzone, { uploadAttachments } from '@/components/attachments/AttachmentDropzone';
+import LocationSelect from '@/components/assets/LocationSelect';
 import {
   Package,
   User,
@@ -77,6 +79,8 @@ export default function EnhancedCheckInDialog({
   // State
   const [reason, setReason] = useState<string>('');
   const [notes, setNotes] = useState('');
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [showAssetDetails, setShowAssetDetails] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState(0);
@@ -132,6 +136,8 @@ export default function EnhancedCheckInDialog({
     notesPlaceholder: language === 'English' 
       ? 'Additional notes about the return condition...' 
       : 'ملاحظات إضافية حول حالة الإرجاع...',
+    returnLocation: language === 'English' ? 'Return to Location' : 'الإرجاع إلى الموقع',
+    keepLocation: language === 'English' ? 'Keep current location' : 'الإبقاء على الموقع الحالي',
     
     // Asset summary
     assetSummary: language === 'English' ? 'Assets Summary' : 'ملخص الأصول',
@@ -183,6 +189,10 @@ export default function EnhancedCheckInDialog({
       ? 'Failed to check in assets' 
       : 'فشل استلام الأصول',
 
+    // Attachments
+    attachments: language === 'English' ? 'Handover Documents (Optional)' : 'مستندات التسليم (اختياري)',
+    attachmentsFailed: language === 'English' ? 'Failed to attach files' : 'فشل إرفاق الملفات',
+
     // Check-in reasons
     endOfAssignment: language === 'English' ? 'End of assignment' : 'انتهاء التكليف',
     employeeExit: language === 'English' ? 'Employee exit' : 'خروج الموظف',
@@ -202,6 +212,16 @@ export default function EnhancedCheckInDialog({
     translations.loanEnded
   ];
 
+  // Attach signed handover forms/photos to a recorded transaction; returns an error message on failure
+  const attachFiles = async (transactionId: number): Promise<string | undefined> => {
+    if (files.length === 0) return undefined;
+    try {
+      await uploadAttachments(`/api/attachments/asset-transaction/${transactionId}`, files);
+    } catch (error: any) {
+      return `${translations.attachmentsFailed}: ${error.message}`;
+    }
+  };
+
   // Process check-in for single or bulk
   const handleCheckIn = async () => {
     if (!reason) return;
@@ -217,11 +237,27 @@ export default function EnhancedCheckInDialog({
           assetIds: validAssets.map(a => a.id),
           reason,
           notes,
+          locationId,
         });
 
         // Handle response
         const successCount = response.successful || 0;
         const failedCount = response.failed || 0;
+
+        // Attach the same handover files to every recorded return
+        const attachErrors: string[] = [];
+        for (const transaction of response.transactions || []) {
+          const attachError = await attachFiles(transaction.id);
+          if (attachError) attachErrors.push(attachError);
+        }
+        if (attachErrors.length > 0) {
+          toast({
+            title: translations.attachmentsFailed,
+            description: attachErrors[0],
+            variant: 'destructive',
+          });
+        }
+        setFiles([]);
         
         // Show toast based on results
         if (successCount > 0 && failedCount === 0) {
@@ -256,12 +292,23 @@ export default function EnhancedCheckInDialog({
       } else {
         // Single asset operation
         const asset = validAssets[0];
-        await apiRequest(`/api/assets/${asset.id}/check-in`, 'POST', {
+        const transaction = await apiRequest(`/api/assets/${asset.id}/check-in`, 'POST', {
           reason,
           notes,
+          locationId,
           transactionDate: new Date().toISOString(),
         });
 
+        const attachError = await attachFiles(transaction.id);
+        if (attachError) {
+          toast({
+            title: translations.attachmentsFailed,
+            description: attachError,
+            variant: 'destructive',
+          });
+        }
+        setFiles([]);
+
         toast({
           title: translations.successMessage,
           description: `${asset.assetId} ${language === 'English' ? 'checked in successfully' : 'تم استلامه بنجاح'}`,
@@ -291,6 +338,8 @@ export default function EnhancedCheckInDialog({
   const handleClose = () => {
     setReason('');
     setNotes('');
+    setLocationId(null);
+    setFiles([]);
     setShowAssetDetails(false);
     setShowResults(false);
     setProcessingResults([]);
@@ -499,6 +548,18 @@ export default function EnhancedCheckInDialog({
                   </Select>
                 </div>
 
+                {/* Where the returned assets will be kept */}
+                <div className="grid gap-2">
+                  <Label htmlFor="returnLocation">{translations.returnLocation}</Label>
+                  <LocationSelect
+                    id="returnLocation"
+                    value={locationId}
+                    onChange={setLocationId}
+                    emptyLabel={translations.keepLocation}
+                    disabled={isProcessing}
+                  />
+                </div>
+
                 {/* Notes */}
                 <div className="grid gap-2">
                   <Label htmlFor="notes">{translations.notes}</Label>
@@ -510,6 +571,17 @@ export default function EnhancedCheckInDialog({
                     className="min-h-[80px] max-h-[120px] resize-none"
                   />
                 </div>
+
+                {/* Handover documents */}
+                <div className="grid gap-2">
+                  <Label>{translations.attachments}</Label>
+                  <AttachmentDropzone
+                    files={files}
+                    onFilesChange={setFiles}
+                    disabled={isProcessing}
+                    compact
+                  />
+                </div>
               </div>
 
               {/* Progress bar for bulk processing */}
@@ -27,6 +27,8 @@ import { Progress } from '@/components/ui/progress';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import ActiveEmployeeSelect from '@/components/employees/ActiveEmployee';
+import AttachmentDropzone, { uploadAttachments } from '@/components/attachments/AttachmentDropzone';
+import LocationSelect from '@/components/assets/LocationSelect';
 import {
   Package,
   User,
@@ -78,6 +80,8 @@ export default function EnhancedCheckOutDialog({
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string>('');
   const [reason, setReason] = useState<string>('');
   const [notes, setNotes] = useState('');
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [showAssetDetails, setShowAssetDetails] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState(0);
@@ -113,6 +117,10 @@ export default function EnhancedCheckOutDialog({
     notesPlaceholder: language === 'English' 
       ? 'Additional notes about this transaction...' 
       : 'ملاحظات إضافية حول هذه العملية...',
+    destination: language === 'English' ? 'Destination Location' : 'موقع الوجهة',
+    keepLocation: language === 'English' ? 'Keep current location' : 'الإبقاء على الموقع الحالي',
+    attachments: language === 'English' ? 'Handover Documents (Optional)' : 'مستندات التسليم (اختياري)',
+    attachmentsFailed: language === 'English' ? 'Failed to attach files' : 'فشل إرفاق الملفات',
     
     // Asset summary
     assetSummary: language === 'English' ? 'Assets Summary' : 'ملخص الأصول',
@@ -175,6 +183,16 @@ export default function EnhancedCheckOutDialog({
     translations.onboarding
   ];
 
+  // Attach signed handover forms/photos to a recorded transaction; returns an error message on failure
+  const attachFiles = async (transactionId: number): Promise<string | undefined> => {
+    if (files.length === 0) return undefined;
+    try {
+      await uploadAttachments(`/api/attachments/asset-transaction/${transactionId}`, files);
+    } catch (error: any) {
+      return `${translations.attachmentsFailed}: ${error.message}`;
+    }
+  };
+
   // Process check-out for single or bulk
   const handleCheckOut = async () => {
     if (!selectedEmployeeId || !reason) return;
@@ -193,16 +211,18 @@ export default function EnhancedCheckOutDialog({
           const asset = validAssets[i];
           
           try {
-            await apiRequest(`/api/assets/${asset.id}/check-out`, 'POST', {
+            const transaction = await apiRequest(`/api/assets/${asset.id}/check-out`, 'POST', {
               employeeId: parseInt(selectedEmployeeId),
               reason,
               notes,
+              locationId,
               transactionDate: new Date().toISOString(),
             });
 
             results.push({
               assetId: asset.assetId,
               success: true,
+              message: await attachFiles(transaction.id),
             });
           } catch (error: any) {
             results.push({
@@ -250,13 +270,24 @@ export default function EnhancedCheckOutDialog({
       } else {
         // Single asset operation
         const asset = validAssets[0];
-        await apiRequest(`/api/assets/${asset.id}/check-out`, 'POST', {
+        const transaction = await apiRequest(`/api/assets/${asset.id}/check-out`, 'POST', {
           employeeId: parseInt(selectedEmployeeId),
           reason,
           notes,
+          locationId,
           transactionDate: new Date().toISOString(),
         });
 
+        const attachError = await attachFiles(transaction.id);
+        if (attachError) {
+          toast({
+            title: translations.attachmentsFailed,
+            description: attachError,
+            variant: 'destructive',
+          });
+        }
+        setFiles([]);
+
         toast({
           title: translations.successMessage,
           description: `${asset.assetId} ${language === 'English' ? 'checked out successfully' : 'تم تسليمه بنجاح'}`,
@@ -287,6 +318,8 @@ export default function EnhancedCheckOutDialog({
     setSelectedEmployeeId('');
     setReason('');
     setNotes('');
+    setLocationId(null);
+    setFiles([]);
     setShowAssetDetails(false);
     setShowResults(false);
     setProcessingResults([]);
@@ -445,6 +478,18 @@ export default function EnhancedCheckOutDialog({
                   </Select>
                 </div>
 
+                {/* Where the assets will be used */}
+                <div className="grid gap-2">
+                  <Label htmlFor="destination">{translations.destination}</Label>
+                  <LocationSelect
+                    id="destination"
+                    value={locationId}
+                    onChange={setLocationId}
+                    emptyLabel={translations.keepLocation}
+                    disabled={isProcessing}
+                  />
+                </div>
+
                 {/* Notes */}
                 <div className="grid gap-2">
                   <Label htmlFor="notes">{translations.notes}</Label>
@@ -456,6 +501,17 @@ export default function EnhancedCheckOutDialog({
                     className="min-h-[80px] max-h-[120px] resize-none"
                   />
                 </div>
+
+                {/* Handover documents */}
+                <div className="grid gap-2">
+                  <Label>{translations.attachments}</Label>
+                  <AttachmentDropzone
+                    files={files}
+                    onFilesChange={setFiles}
+                    disabled={isProcessing}
+                    compact
+                  />
+                </div>
               </div>
 
               {/* Progress bar for bulk processing */}
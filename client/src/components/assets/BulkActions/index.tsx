@@ -14,6 +14,8 @@ import { createSuccessResult, createErrorResult, validateBulkActionContext } fro
 import BulkStatusDialog from './dialogs/BulkStatusDialog';
 import BulkDeleteDialog from './dialogs/BulkDeleteDialog';
 import BulkMaintenanceDialog from './dialogs/BulkMaintenanceDialog';
+import BulkTransferDialog from './dialogs/BulkTransferDialog';
+import PrintLabelsDialog from '../PrintLabelsDialog';
 
 // Import the new Check-In/Out dialogs
 import CheckOutDialog from './dialogs/CheckOutDialog';
@@ -36,7 +38,8 @@ import {
   XCircle,
   LogOut,
   LogIn,
-  ChevronDown
+  ChevronDown,
+  QrCode
 } from 'lucide-react';
 
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
@@ -127,6 +130,8 @@ export default function BulkActions({
     retire: language === 'English' ? 'Retire' : 'تقاعد',
     delete: language === 'English' ? 'Delete' : 'حذف',
     maintenance: language === 'English' ? 'Schedule Maintenance' : 'جدولة الصيانة',
+    transfer: language === 'English' ? 'Transfer to Location' : 'نقل إلى موقع',
+    printLabels: language === 'English' ? 'Print Labels' : 'طباعة الملصقات',
     selected: language === 'English' ? 'selected' : 'محدد',
   };
 
@@ -260,6 +265,18 @@ export default function BulkActions({
             {translations.maintenance}
           </DropdownMenuItem>
 
+          {/* Transfer to another location */}
+          <DropdownMenuItem onClick={() => setActiveDialog('transfer')}>
+            <ArrowRightLeft className="mr-2 h-4 w-4" />
+            {translations.transfer}
+          </DropdownMenuItem>
+
+          {/* QR code labels */}
+          <DropdownMenuItem onClick={() => setActiveDialog('labels')}>
+            <QrCode className="mr-2 h-4 w-4" />
+            {translations.printLabels}
+          </DropdownMenuItem>
+
           <DropdownMenuSeparator />
 
           {/* Sell Action */}
@@ -342,6 +359,26 @@ export default function BulkActions({
         />
       )}
 
+      {/* Transfer Dialog */}
+      {activeDialog === 'transfer' && (
+        <BulkTransferDialog
+          open={true}
+          onOpenChange={(open) => !open && setActiveDialog(null)}
+          selectedAssets={selectedAssets}
+          onSuccess={handleDialogSuccess}
+          onCancel={handleDialogCancel}
+        />
+      )}
+
+      {/* Print Labels Dialog */}
+      {activeDialog === 'labels' && (
+        <PrintLabelsDialog
+          open={true}
+          onOpenChange={(open) => !open && setActiveDialog(null)}
+          assetIds={selectedAssets}
+        />
+      )}
+
       {/* Result Dialog */}
       {lastResult && (
         <AlertDialog open={!!lastResult} onOpenChange={() => setLastResult(null)}>
@@ -0,0 +1,61 @@
+import { useQuery } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export interface LocationOption {
+  id: number;
+  name: string;
+  type: string;
+  path: string;
+  depth: number;
+  isActive: boolean;
+}
+
+interface LocationSelectProps {
+  value: number | null | undefined;
+  onChange: (locationId: number | null) => void;
+  // Label of the empty choice, e.g. "Keep current location"
+  emptyLabel?: string;
+  disabled?: boolean;
+  id?: string;
+}
+
+/**
+ * Location picker indented by hierarchy level; inactive locations can't be chosen
+ * but stay visible when already selected
+ */
+export default function LocationSelect({ value, onChange, emptyLabel, disabled, id }: LocationSelectProps) {
+  const { language } = useLanguage();
+  const { data: locations = [] } = useQuery<LocationOption[]>({ queryKey: ['/api/locations'] });
+
+  const noLocation = emptyLabel || (language === 'English' ? 'No location' : 'بدون موقع');
+  const selectable = locations.filter(location => location.isActive || location.id === value);
+
+  return (
+    <Select
+      value={value ? value.toString() : 'none'}
+      onValueChange={(selected) => onChange(selected === 'none' ? null : parseInt(selected))}
+      disabled={disabled}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue placeholder={noLocation} />
+      </SelectTrigger>
+      <SelectContent position="popper" sideOffset={5}>
+        <SelectItem value="none">{noLocation}</SelectItem>
+        {selectable.map((location) => (
+          <SelectItem key={location.id} value={location.id.toString()} disabled={!location.isActive}>
+            <span style={{ paddingLeft: `${location.depth * 12}px` }}>
+              {location.name} <span className="text-xs text-muted-foreground">({location.type})</span>
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
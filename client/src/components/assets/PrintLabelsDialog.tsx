@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Download, Printer } from 'lucide-react';
+
+interface LabelLayout {
+  id: string;
+  name: string;
+  columns: number;
+  rows: number;
+}
+
+interface PrintLabelsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  assetIds: number[];
+}
+
+/**
+ * Label sheet options; the sheet itself is rendered by the server and opened in a new tab
+ */
+export default function PrintLabelsDialog({ open, onOpenChange, assetIds }: PrintLabelsDialogProps) {
+  const { language } = useLanguage();
+  const [layoutId, setLayoutId] = useState('');
+  const [format, setFormat] = useState<'pdf' | 'svg'>('pdf');
+  const [skip, setSkip] = useState(0);
+
+  const { data: layouts = [] } = useQuery<LabelLayout[]>({
+    queryKey: ['/api/asset-labels/layouts'],
+    enabled: open,
+  });
+
+  const layout = layouts.find(item => item.id === layoutId) || layouts[0];
+  const perSheet = layout ? layout.columns * layout.rows : 1;
+
+  const translations = {
+    title: language === 'English' ? 'Print Asset Labels' : 'طباعة ملصقات الأصول',
+    description: language === 'English'
+      ? `QR code labels for ${assetIds.length} asset(s)`
+      : `ملصقات رمز QR لعدد ${assetIds.length} أصل`,
+    layout: language === 'English' ? 'Label Sheet' : 'ورقة الملصقات',
+    format: language === 'English' ? 'Format' : 'الصيغة',
+    pdf: language === 'English' ? 'PDF (for printing)' : 'PDF (للطباعة)',
+    svg: language === 'English' ? 'SVG (for label software)' : 'SVG (لبرامج الملصقات)',
+    skip: language === 'English' ? 'Labels already used on the first sheet' : 'الملصقات المستخدمة في الورقة الأولى',
+    skipHint: language === 'English'
+      ? 'Printing starts after this many positions, row by row'
+      : 'تبدأ الطباعة بعد هذا العدد من المواضع، صفاً بصف',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    download: language === 'English' ? 'Download' : 'تنزيل',
+    open: language === 'English' ? 'Open & Print' : 'فتح وطباعة',
+  };
+
+  const buildUrl = (download: boolean) => {
+    const params = new URLSearchParams({
+      ids: assetIds.join(','),
+      format,
+      skip: skip.toString(),
+    });
+    if (layout) params.set('layout', layout.id);
+    if (download) params.set('download', 'true');
+    return `/api/asset-labels?${params.toString()}`;
+  };
+
+  const handleOpen = () => {
+    window.open(buildUrl(false), '_blank');
+    onOpenChange(false);
+  };
+
+  const handleDownload = () => {
+    window.location.href = buildUrl(true);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>{translations.title}</DialogTitle>
+          <DialogDescription>{translations.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label>{translations.layout}</Label>
+            <Select value={layout?.id || ''} onValueChange={setLayoutId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {layouts.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>{translations.format}</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as 'pdf' | 'svg')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pdf">{translations.pdf}</SelectItem>
+                <SelectItem value="svg">{translations.svg}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="labelSkip">{translations.skip}</Label>
+            <Input
+              id="labelSkip"
+              type="number"
+              min={0}
+              max={perSheet - 1}
+              value={skip}
+              onChange={(e) => setSkip(Math.min(Math.max(0, parseInt(e.target.value) || 0), perSheet - 1))}
+            />
+            <p className="text-xs text-muted-foreground">{translations.skipHint}</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {translations.cancel}
+          </Button>
+          <Button variant="outline" onClick={handleDownload} disabled={assetIds.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            {translations.download}
+          </Button>
+          <Button onClick={handleOpen} disabled={assetIds.length === 0}>
+            <Printer className="mr-2 h-4 w-4" />
+            {translations.open}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+import { useRef, useState } from 'react';
+import { useLanguage } from '@/hooks/use-language';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Paperclip, Upload, X } from 'lucide-react';
+import type { AttachmentResponse } from '@shared/types';
+
+// Mirrors ATTACHMENT_CONFIG on the server; the server remains the authority
+export const MAX_ATTACHMENT_FILES = 10;
+export const ATTACHMENT_ACCEPT = 'image/*,.pdf,.txt,.csv,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.zip,.eml';
+
+interface AttachmentDropzoneProps {
+  files: File[];
+  onFilesChange: (files: File[]) => void;
+  disabled?: boolean;
+  compact?: boolean;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Upload files to an attachment endpoint (multipart field "files")
+ */
+export async function uploadAttachments(url: string, files: File[]): Promise<AttachmentResponse[]> {
+  const formData = new FormData();
+  files.forEach(file => formData.append('files', file));
+  return apiRequest(url, 'POST', formData);
+}
+
+/**
+ * Drag-and-drop file picker; the parent decides when to upload the selected files
+ */
+export default function AttachmentDropzone({ files, onFilesChange, disabled = false, compact = false }: AttachmentDropzoneProps) {
+  const { language } = useLanguage();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragActive, setDragActive] = useState(false);
+
+  const translations = {
+    dropFiles: language === 'English' ? 'Drag and drop files here' : 'اسحب وأفلت الملفات هنا',
+    browse: language === 'English' ? 'Browse' : 'استعراض',
+    attachFiles: language === 'English' ? 'Attach files' : 'إرفاق ملفات',
+    limitHint: language === 'English'
+      ? `Up to ${MAX_ATTACHMENT_FILES} files: images, PDF, Office documents, text or ZIP`
+      : `حتى ${MAX_ATTACHMENT_FILES} ملفات: صور، PDF، مستندات Office، نصوص أو ZIP`,
+    remove: language === 'English' ? 'Remove' : 'إزالة',
+  };
+
+  const addFiles = (incoming: FileList | null) => {
+    if (!incoming || disabled) return;
+    onFilesChange([...files, ...Array.from(incoming)].slice(0, MAX_ATTACHMENT_FILES));
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!disabled) setDragActive(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        className={`border-2 border-dashed rounded-lg text-center transition-colors ${compact ? 'p-3' : 'p-6'} ${
+          dragActive
+            ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/30'
+            : 'border-gray-300 hover:border-gray-400'
+        } ${disabled ? 'opacity-50' : ''}`}
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <div className={compact ? 'flex items-center justify-center gap-2' : 'space-y-2'}>
+          <Upload className={compact ? 'h-4 w-4 text-gray-400' : 'h-8 w-8 mx-auto text-gray-400'} />
+          <p className="text-sm text-muted-foreground">{translations.dropFiles}</p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            onClick={() => inputRef.current?.click()}
+          >
+            <Paperclip className="h-4 w-4 mr-1" />
+            {compact ? translations.browse : translations.attachFiles}
+          </Button>
+          {!compact && (
+            <p className="text-xs text-muted-foreground">{translations.limitHint}</p>
+          )}
+        </div>
+      </div>
+
+      {files.length > 0 && (
+        <div className="space-y-1">
+          {files.map((file, index) => (
+            <div key={`${file.name}-${index}`} className="flex items-center justify-between px-3 py-1.5 bg-muted/50 rounded-md border">
+              <div className="flex items-center gap-2 min-w-0">
+                <Paperclip className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+                <span className="text-sm truncate">{file.name}</span>
+                <span className="text-xs text-muted-foreground flex-shrink-0">({formatFileSize(file.size)})</span>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                disabled={disabled}
+                title={translations.remove}
+                onClick={() => onFilesChange(files.filter((_, i) => i !== index))}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
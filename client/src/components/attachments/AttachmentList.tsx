@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { useLanguage } from '@/hooks/use-language';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Download, Eye, FileText, Image as ImageIcon, Loader2, Trash2 } from 'lucide-react';
+import { formatFileSize } from './AttachmentDropzone';
+import type { AttachmentResponse } from '@shared/types';
+
+interface AttachmentListProps {
+  attachments: AttachmentResponse[];
+  canDelete?: (attachment: AttachmentResponse) => boolean;
+  onDeleted?: (attachment: AttachmentResponse) => void;
+  className?: string;
+}
+
+/**
+ * Download links for stored attachments, with optional image preview and delete
+ */
+export default function AttachmentList({ attachments, canDelete, onDeleted, className = '' }: AttachmentListProps) {
+  const { language } = useLanguage();
+  const { toast } = useToast();
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+
+  const translations = {
+    download: language === 'English' ? 'Download' : 'تنزيل',
+    view: language === 'English' ? 'View' : 'عرض',
+    delete: language === 'English' ? 'Delete' : 'حذف',
+    confirmDelete: language === 'English' ? 'Delete this attachment?' : 'هل تريد حذف هذا المرفق؟',
+    deleted: language === 'English' ? 'Attachment deleted' : 'تم حذف المرفق',
+    deleteFailed: language === 'English' ? 'Failed to delete attachment' : 'فشل حذف المرفق',
+  };
+
+  if (attachments.length === 0) return null;
+
+  const handleDelete = async (attachment: AttachmentResponse) => {
+    if (!window.confirm(translations.confirmDelete)) return;
+
+    setDeletingId(attachment.id);
+    try {
+      await apiRequest(`/api/attachments/${attachment.id}`, 'DELETE');
+      toast({ title: translations.deleted });
+      onDeleted?.(attachment);
+    } catch (error: any) {
+      toast({
+        title: translations.deleteFailed,
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      {attachments.map((attachment) => {
+        const isImage = attachment.mimeType.startsWith('image/');
+        const downloadUrl = `/api/attachments/${attachment.id}/download`;
+
+        return (
+          <div key={attachment.id} className="flex items-center justify-between px-3 py-1.5 rounded-md border">
+            <a
+              href={downloadUrl}
+              className="flex items-center gap-2 min-w-0 hover:underline"
+              title={translations.download}
+            >
+              {isImage ? (
+                <ImageIcon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              ) : (
+                <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              )}
+              <span className="text-sm truncate">{attachment.originalName}</span>
+              <span className="text-xs text-muted-foreground flex-shrink-0">({formatFileSize(attachment.size)})</span>
+            </a>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              {isImage && (
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title={translations.view} asChild>
+                  <a href={`${downloadUrl}?inline=true`} target="_blank" rel="noopener noreferrer">
+                    <Eye className="h-4 w-4" />
+                  </a>
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title={translations.download} asChild>
+                <a href={downloadUrl}>
+                  <Download className="h-4 w-4" />
+                </a>
+              </Button>
+              {canDelete?.(attachment) && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                  title={translations.delete}
+                  disabled={deletingId === attachment.id}
+                  onClick={() => handleDelete(attachment)}
+                >
+                  {deletingId === attachment.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -35,7 +35,7 @@ import { Badge } from '@/components/ui/badge';
 // Actions and entity types from auditLogger
 const actionTypes = [
   'CREATE', 'READ', 'UPDATE', 'DELETE', 'LOGIN', 'LOGOUT', 
-  'EXPORT', 'IMPORT', 'ASSIGN', 'UNASSIGN', 'CONFIG_CHANGE', 'STATUS_CHANGE', 'ERROR'
+  'EXPORT', 'IMPORT', 'ASSIGN', 'UNASSIGN', 'CONFIG_CHANGE', 'STATUS_CHANGE', 'MERGE', 'ERROR'
 ];
 
 const entityTypes = [
@@ -67,6 +67,8 @@ const getActionBadgeColor = (action: string) => {
       return 'bg-violet-100 text-violet-800';
     case 'STATUS_CHANGE':
       return 'bg-emerald-100 text-emerald-800';
+    case 'MERGE':
+      return 'bg-teal-100 text-teal-800';
     case 'ERROR':
       return 'bg-rose-100 text-rose-800';
     default:
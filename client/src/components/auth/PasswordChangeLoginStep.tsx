@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { useAuth } from '@/lib/authContext';
+import { useLanguage } from '@/hooks/use-language';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { getApiErrorMessage } from '@/components/auth/TwoFactorLoginStep';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
+
+interface PasswordChangeLoginStepProps {
+  reason: 'expired' | 'reset';
+  onComplete: (user: any) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Last login step when the password expired or an admin requires a new one:
+ * the new password (checked against the password policy) signs the session in
+ */
+export default function PasswordChangeLoginStep({ reason, onComplete, onCancel }: PasswordChangeLoginStepProps) {
+  const { completeLogin } = useAuth();
+  const { language } = useLanguage();
+
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const t = {
+    title: language === 'English' ? 'Choose a New Password' : 'اختر كلمة مرور جديدة',
+    expired: language === 'English'
+      ? 'Your password has expired. Choose a new password to continue.'
+      : 'انتهت صلاحية كلمة المرور الخاصة بك. اختر كلمة مرور جديدة للمتابعة.',
+    reset: language === 'English'
+      ? 'Your administrator requires you to change your password before continuing.'
+      : 'يطلب منك المسؤول تغيير كلمة المرور قبل المتابعة.',
+    newPassword: language === 'English' ? 'New Password' : 'كلمة المرور الجديدة',
+    confirmPassword: language === 'English' ? 'Confirm Password' : 'تأكيد كلمة المرور',
+    mismatch: language === 'English' ? 'Passwords do not match' : 'كلمات المرور غير متطابقة',
+    submit: language === 'English' ? 'Change Password and Sign In' : 'تغيير كلمة المرور وتسجيل الدخول',
+    back: language === 'English' ? 'Back to login' : 'العودة لتسجيل الدخول',
+    failed: language === 'English' ? 'Failed to change password' : 'فشل تغيير كلمة المرور',
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setError(t.mismatch);
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      await apiRequest('/api/login/change-password', 'POST', { newPassword });
+      onComplete(await completeLogin());
+    } catch (submitError) {
+      const message = getApiErrorMessage(submitError, t.failed);
+      setError(message);
+      // The pending login expires like the two-factor step
+      if (submitError instanceof Error && submitError.message.startsWith('401')) {
+        setTimeout(onCancel, 2000);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-center gap-2 font-medium">
+        <KeyRound className="h-5 w-5 text-primary" />
+        {t.title}
+      </div>
+      <p className="text-sm text-muted-foreground">{reason === 'expired' ? t.expired : t.reset}</p>
+
+      <div className="space-y-2">
+        <Label htmlFor="login-new-password">{t.newPassword}</Label>
+        <Input
+          id="login-new-password"
+          type="password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          autoComplete="new-password"
+          autoFocus
+        />
+        <PasswordStrengthMeter password={newPassword} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="login-confirm-password">{t.confirmPassword}</Label>
+        <Input
+          id="login-confirm-password"
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          autoComplete="new-password"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Button type="submit" className="w-full" disabled={submitting || !newPassword || !confirmPassword}>
+        {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t.submit}
+      </Button>
+      <Button type="button" variant="link" className="w-full text-sm" onClick={onCancel}>
+        {t.back}
+      </Button>
+    </form>
+  );
+}
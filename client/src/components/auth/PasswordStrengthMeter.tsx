@@ -0,0 +1,67 @@
+import { useQuery } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import { Check, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_PASSWORD_RULES, getActivePasswordRules, getPasswordRuleFailures, describePasswordRule,
+  getPasswordStrength, type PasswordRules
+} from '@shared/passwordPolicy';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  className?: string;
+}
+
+const STRENGTH_COLORS = ['bg-red-500', 'bg-red-500', 'bg-orange-500', 'bg-yellow-500', 'bg-green-600'];
+
+/**
+ * Strength bar and the password policy's rules for a new password (setup, reset and change-password forms)
+ * The server enforces the same rules; this only guides the user while typing
+ */
+export function PasswordStrengthMeter({ password, className }: PasswordStrengthMeterProps) {
+  const { language } = useLanguage();
+
+  const { data: rules = DEFAULT_PASSWORD_RULES } = useQuery<PasswordRules>({
+    queryKey: ['/api/auth/password-policy'],
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const strengthLabels = language === 'English'
+    ? ['Very weak', 'Weak', 'Fair', 'Good', 'Strong']
+    : ['ضعيفة جداً', 'ضعيفة', 'مقبولة', 'جيدة', 'قوية'];
+  const t = {
+    strength: language === 'English' ? 'Strength' : 'القوة',
+  };
+
+  const strength = getPasswordStrength(password);
+  const failures = getPasswordRuleFailures(password, rules);
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex gap-1" aria-hidden="true">
+        {[1, 2, 3, 4].map((segment) => (
+          <div
+            key={segment}
+            className={cn('h-1.5 flex-1 rounded-full', password && strength >= segment ? STRENGTH_COLORS[strength] : 'bg-muted')}
+          />
+        ))}
+      </div>
+      {password && (
+        <p className="text-xs text-muted-foreground">
+          {t.strength}: {strengthLabels[strength]}
+        </p>
+      )}
+      <ul className="space-y-1 text-xs">
+        {getActivePasswordRules(rules).map((rule) => {
+          const met = !!password && !failures.includes(rule);
+          return (
+            <li key={rule} className={cn('flex items-center gap-1.5', met ? 'text-green-700' : 'text-muted-foreground')}>
+              {met ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+              {describePasswordRule(rule, rules, language === 'English' ? 'en' : 'ar')}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { useAuth, type PasswordChangeChallenge } from '@/lib/authContext';
+import { useLanguage } from '@/hooks/use-language';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { RecoveryCodesList } from '@/components/users/TwoFactorSettings';
+
+interface Enrollment {
+  secret: string;
+  qrCode: string;
+}
+
+interface TwoFactorLoginStepProps {
+  enrollmentRequired: boolean;
+  onComplete: (user: any) => void;
+  onPasswordChangeRequired: (challenge: PasswordChangeChallenge) => void; // Expired or reset password comes next
+  onCancel: () => void;
+}
+
+// apiRequest errors read "<status>: <json body>"
+export function getApiErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+/**
+ * Second login step after a correct password: an authenticator or recovery code,
+ * or first-time enrollment when the user's role requires 2FA
+ */
+export default function TwoFactorLoginStep({ enrollmentRequired, onComplete, onPasswordChangeRequired, onCancel }: TwoFactorLoginStepProps) {
+  const { completeLogin } = useAuth();
+  const { language } = useLanguage();
+
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [passwordChange, setPasswordChange] = useState<PasswordChangeChallenge | null>(null);
+
+  const t = {
+    title: language === 'English' ? 'Two-Factor Authentication' : 'المصادقة الثنائية',
+    enterCode: language === 'English'
+      ? 'Enter the 6-digit code from your authenticator app, or one of your recovery codes.'
+      : 'أدخل الرمز المكون من 6 أرقام من تطبيق المصادقة، أو أحد رموز الاسترداد.',
+    setupRequired: language === 'English'
+      ? 'Your role requires two-factor authentication. Scan this QR code with an authenticator app (Google Authenticator, Microsoft Authenticator...), then enter the code it shows.'
+      : 'يتطلب دورك المصادقة الثنائية. امسح رمز QR هذا بتطبيق مصادقة (Google Authenticator أو Microsoft Authenticator...) ثم أدخل الرمز الذي يظهره.',
+    manualKey: language === 'English' ? 'Or enter this key manually:' : 'أو أدخل هذا المفتاح يدوياً:',
+    code: language === 'English' ? 'Verification Code' : 'رمز التحقق',
+    verify: language === 'English' ? 'Verify' : 'تحقق',
+    back: language === 'English' ? 'Back to login' : 'العودة لتسجيل الدخول',
+    continue: language === 'English' ? 'Continue' : 'متابعة',
+    failed: language === 'English' ? 'Verification failed' : 'فشل التحقق',
+  };
+
+  useEffect(() => {
+    if (!enrollmentRequired) return;
+    apiRequest('/api/login/2fa/setup', 'POST')
+      .then((result: Enrollment) => setEnrollment(result))
+      .catch((setupError) => setError(getApiErrorMessage(setupError, t.failed)));
+  }, [enrollmentRequired]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      if (enrollmentRequired) {
+        const result = await apiRequest('/api/login/2fa/enroll', 'POST', { code });
+        // Signed in already (or on to the password change); show the recovery codes before leaving this step
+        if (result?.passwordChangeRequired) {
+          setPasswordChange(result);
+        }
+        setRecoveryCodes(result.recoveryCodes);
+      } else {
+        const result = await apiRequest('/api/login/2fa', 'POST', { code });
+        if (result?.passwordChangeRequired) {
+          onPasswordChangeRequired(result);
+          return;
+        }
+        onComplete(await completeLogin());
+      }
+    } catch (submitError) {
+      const message = getApiErrorMessage(submitError, t.failed);
+      setError(message);
+      setCode('');
+      // The server drops the pending login after too many wrong codes, when it expires or when the account locks
+      if (submitError instanceof Error && submitError.message.startsWith('401')
+        && (/sign in again/i.test(message) || /"locked":true/.test(submitError.message))) {
+        setTimeout(onCancel, 2000);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button
+          className="w-full"
+          onClick={async () => passwordChange ? onPasswordChangeRequired(passwordChange) : onComplete(await completeLogin())}
+        >
+          {t.continue}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-center gap-2 font-medium">
+        <ShieldCheck className="h-5 w-5 text-primary" />
+        {t.title}
+      </div>
+
+      {enrollmentRequired ? (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">{t.setupRequired}</p>
+          {enrollment ? (
+            <div className="flex flex-col items-center gap-2">
+              <img src={enrollment.qrCode} alt="QR code" className="h-48 w-48 border rounded-md" />
+              <p className="text-xs text-muted-foreground">{t.manualKey}</p>
+              <code className="text-xs font-mono break-all bg-muted px-2 py-1 rounded">{enrollment.secret}</code>
+            </div>
+          ) : !error && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">{t.enterCode}</p>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-code">{t.code}</Label>
+        <Input
+          id="two-factor-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          autoComplete="one-time-code"
+          inputMode={enrollmentRequired ? 'numeric' : 'text'}
+          autoFocus
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Button type="submit" className="w-full" disabled={submitting || !code.trim() || (enrollmentRequired && !enrollment)}>
+        {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t.verify}
+      </Button>
+      <Button type="button" variant="link" className="w-full text-sm" onClick={onCancel}>
+        {t.back}
+      </Button>
+    </form>
+  );
+}
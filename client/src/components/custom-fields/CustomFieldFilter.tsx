@@ -0,0 +1,90 @@
+import { useLanguage } from '@/hooks/use-language';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCustomFieldDefinitions, type CustomFieldEntityType } from './CustomFieldInputs';
+
+const NO_FIELD = '__none';
+const ANY_VALUE = '__any';
+
+interface CustomFieldFilterProps {
+  entityType: CustomFieldEntityType;
+  field?: string;
+  value?: string;
+  onChange: (field: string | undefined, value: string | undefined) => void;
+}
+
+/**
+ * Custom field picker plus a value for the table filters; an empty value matches any entity
+ * that has the field filled in. Renders nothing until an admin has defined fields.
+ */
+export default function CustomFieldFilter({ entityType, field, value, onChange }: CustomFieldFilterProps) {
+  const { language } = useLanguage();
+  const definitions = useCustomFieldDefinitions(entityType);
+
+  const translations = {
+    customField: language === 'English' ? 'Custom Field' : 'حقل مخصص',
+    noField: language === 'English' ? 'No custom field filter' : 'بدون تصفية حقل مخصص',
+    anyValue: language === 'English' ? 'Any value' : 'أي قيمة',
+    valuePlaceholder: language === 'English' ? 'Value (empty: any)' : 'القيمة (فارغ: أي قيمة)',
+    yes: language === 'English' ? 'Yes' : 'نعم',
+    no: language === 'English' ? 'No' : 'لا',
+  };
+
+  if (definitions.length === 0) return null;
+
+  const definition = definitions.find(candidate => candidate.key === field);
+
+  const renderValue = () => {
+    if (!definition) return null;
+    if (definition.fieldType === 'select' || definition.fieldType === 'boolean') {
+      const options = definition.fieldType === 'boolean'
+        ? [{ value: 'true', label: translations.yes }, { value: 'false', label: translations.no }]
+        : definition.options.map(option => ({ value: option, label: option }));
+      return (
+        <Select
+          value={value || ANY_VALUE}
+          onValueChange={(next) => onChange(field, next === ANY_VALUE ? undefined : next)}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_VALUE}>{translations.anyValue}</SelectItem>
+            {options.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        type={definition.fieldType === 'number' ? 'number' : 'text'}
+        placeholder={translations.valuePlaceholder}
+        value={value || ''}
+        onChange={(e) => onChange(field, e.target.value || undefined)}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">{translations.customField}</label>
+      <Select
+        value={field || NO_FIELD}
+        onValueChange={(next) => onChange(next === NO_FIELD ? undefined : next, undefined)}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_FIELD}>{translations.noField}</SelectItem>
+          {definitions.map(candidate => (
+            <SelectItem key={candidate.key} value={candidate.key}>{candidate.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {renderValue()}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { useLanguage } from '@/hooks/use-language';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+export type CustomFieldEntityType = 'asset' | 'employee' | 'ticket';
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'boolean';
+export type CustomFieldValue = string | number | boolean | null;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export interface CustomFieldDefinition {
+  id: number;
+  entityType: CustomFieldEntityType;
+  key: string;
+  label: string;
+  fieldType: CustomFieldType;
+  options: string[];
+  required: boolean;
+  assetTypes: string[];
+  pattern: string | null;
+  minValue: string | null;
+  maxValue: string | null;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+const NO_OPTION = '__none';
+
+/**
+ * Active custom field definitions of an entity, optionally including inactive ones (admin screens)
+ */
+export function useCustomFieldDefinitions(entityType: CustomFieldEntityType, includeInactive = false) {
+  const { data = [] } = useQuery<CustomFieldDefinition[]>({
+    queryKey: [`/api/custom-fields?entityType=${entityType}${includeInactive ? '&includeInactive=true' : ''}`],
+    staleTime: 1000 * 60 * 5,
+  });
+  return data;
+}
+
+/**
+ * Asset fields can be limited to some asset types; fields of other entities always apply
+ */
+export function getApplicableFields(definitions: CustomFieldDefinition[], assetType?: string | null) {
+  return definitions.filter(definition =>
+    definition.assetTypes.length === 0 || (!!assetType && definition.assetTypes.includes(assetType))
+  );
+}
+
+/**
+ * Only the values of the given fields, so values of fields that no longer apply are not resubmitted
+ */
+export function pickCustomFieldValues(definitions: CustomFieldDefinition[], values: CustomFieldValues | undefined): CustomFieldValues {
+  return Object.fromEntries(definitions.map(definition => [definition.key, values?.[definition.key] ?? null]));
+}
+
+/**
+ * First validation problem of the values, or null; the server applies the same rules
+ */
+export function getCustomFieldError(
+  definitions: CustomFieldDefinition[],
+  values: CustomFieldValues | undefined,
+  isEnglish: boolean
+): string | null {
+  for (const definition of definitions) {
+    const value = values?.[definition.key];
+    const isEmpty = value === null || value === undefined || String(value).trim() === '';
+    if (isEmpty) {
+      if (definition.required) {
+        return isEnglish ? `"${definition.label}" is required` : `"${definition.label}" مطلوب`;
+      }
+      continue;
+    }
+    if (definition.fieldType === 'number') {
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        return isEnglish ? `"${definition.label}" must be a number` : `"${definition.label}" يجب أن يكون رقمًا`;
+      }
+      if (definition.minValue !== null && number < Number(definition.minValue)) {
+        return isEnglish
+          ? `"${definition.label}" must be at least ${Number(definition.minValue)}`
+          : `"${definition.label}" يجب ألا يقل عن ${Number(definition.minValue)}`;
+      }
+      if (definition.maxValue !== null && number > Number(definition.maxValue)) {
+        return isEnglish
+          ? `"${definition.label}" must be at most ${Number(definition.maxValue)}`
+          : `"${definition.label}" يجب ألا يزيد عن ${Number(definition.maxValue)}`;
+      }
+    }
+    if (definition.fieldType === 'text' && definition.pattern && !new RegExp(`^(?:${definition.pattern})$`).test(String(value).trim())) {
+      return isEnglish
+        ? `"${definition.label}" is not in the expected format`
+        : `"${definition.label}" ليس بالتنسيق المتوقع`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Display form of a stored value (tables, details)
+ */
+export function formatCustomFieldValue(definition: CustomFieldDefinition, value: CustomFieldValue | undefined, isEnglish: boolean) {
+  if (value === null || value === undefined || value === '') return '-';
+  if (definition.fieldType === 'boolean') {
+    return value === true ? (isEnglish ? 'Yes' : 'نعم') : (isEnglish ? 'No' : 'لا');
+  }
+  return String(value);
+}
+
+interface CustomFieldInputsProps {
+  definitions: CustomFieldDefinition[];
+  values: CustomFieldValues | undefined;
+  onChange: (values: CustomFieldValues) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Inputs for the admin-defined fields of an entity form; renders nothing when there are none
+ */
+export default function CustomFieldInputs({ definitions, values, onChange, disabled }: CustomFieldInputsProps) {
+  const { language } = useLanguage();
+
+  const translations = {
+    customFields: language === 'English' ? 'Additional Fields' : 'حقول إضافية',
+    selectOption: language === 'English' ? 'Select...' : 'اختر...',
+    none: language === 'English' ? 'None' : 'لا يوجد',
+  };
+
+  if (definitions.length === 0) return null;
+
+  const setValue = (key: string, value: CustomFieldValue) => onChange({ ...values, [key]: value });
+
+  const renderInput = (definition: CustomFieldDefinition) => {
+    const id = `custom-field-${definition.key}`;
+    const value = values?.[definition.key];
+
+    switch (definition.fieldType) {
+      case 'select':
+        return (
+          <Select
+            value={value ? String(value) : ''}
+            onValueChange={(next) => setValue(definition.key, next === NO_OPTION ? null : next)}
+            disabled={disabled}
+          >
+            <SelectTrigger id={id}>
+              <SelectValue placeholder={translations.selectOption} />
+            </SelectTrigger>
+            <SelectContent>
+              {!definition.required && <SelectItem value={NO_OPTION}>{translations.none}</SelectItem>}
+              {definition.options.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'boolean':
+        return (
+          <Checkbox
+            id={id}
+            checked={value === true}
+            onCheckedChange={(checked) => setValue(definition.key, checked === true)}
+            disabled={disabled}
+          />
+        );
+      default:
+        return (
+          <Input
+            id={id}
+            type={definition.fieldType === 'number' ? 'number' : definition.fieldType === 'date' ? 'date' : 'text'}
+            min={definition.minValue ?? undefined}
+            max={definition.maxValue ?? undefined}
+            value={value === null || value === undefined ? '' : String(value)}
+            onChange={(e) => setValue(definition.key, e.target.value)}
+            disabled={disabled}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium">{translations.customFields}</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {definitions.map(definition => (
+          <div
+            key={definition.key}
+            className={definition.fieldType === 'boolean' ? 'flex items-center gap-2 pt-6' : 'space-y-2'}
+          >
+            {definition.fieldType === 'boolean' && renderInput(definition)}
+            <Label htmlFor={`custom-field-${definition.key}`}>
+              {definition.label}
+              {definition.required && <span className="text-red-500 ml-1">*</span>}
+            </Label>
+            {definition.fieldType !== 'boolean' && renderInput(definition)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,12 @@ import { useLanguage } from '@/hooks/use-language';
 import { useQuery } from '@tanstack/react-query';
 import { useEffect } from 'react';
 import ActiveEmployeeSelect from '@/components/employees/ActiveEmployee';
+import CustomFieldInputs, {
+  useCustomFieldDefinitions,
+  getCustomFieldError,
+  pickCustomFieldValues,
+  type CustomFieldValues,
+} from '@/components/custom-fields/CustomFieldInputs';
 import {
   Form,
   FormControl,
@@ -105,6 +111,7 @@ export default function EmployeeForm({ onSubmit, initialData, isSubmitting }: Em
     personalEmail: z.string().email(translations.invalidEmail).optional().or(z.literal('')),
     corporateEmail: z.string().email(translations.invalidEmail).optional().or(z.literal('')),
     userId: z.string().optional().or(z.literal('')),
+    customFields: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
   });
 
   // Fetch users list for user assignment dropdown
@@ -131,6 +138,8 @@ export default function EmployeeForm({ onSubmit, initialData, isSubmitting }: Em
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 
+  const customFieldDefinitions = useCustomFieldDefinitions('employee');
+
   // Convert initial data to form format with proper field mapping
   const getFormattedInitialData = () => {
     if (!initialData) return undefined;
@@ -153,6 +162,7 @@ export default function EmployeeForm({ onSubmit, initialData, isSubmitting }: Em
       personalEmail: initialData.personalEmail || initialData.email || '',
       corporateEmail: initialData.corporateEmail || '',
       userId: initialData.userId ? initialData.userId.toString() : '',
+      customFields: initialData.customFields || {},
     };
   };
 
@@ -179,6 +189,7 @@ export default function EmployeeForm({ onSubmit, initialData, isSubmitting }: Em
       personalEmail: '',
       corporateEmail: '',
       userId: '',
+      customFields: {},
     },
   });
 
@@ -209,6 +220,7 @@ export default function EmployeeForm({ onSubmit, initialData, isSubmitting }: Em
         personalEmail: '',
         corporateEmail: '',
         userId: '',
+        customFields: {},
       });
     }
   }, [initialData, form]);
@@ -216,6 +228,12 @@ export default function EmployeeForm({ onSubmit, initialData, isSubmitting }: Em
   // Handle form submission
   const handleSubmit = (values: z.infer<typeof employeeFormSchema>) => {
     console.log('Raw form values:', values);
+
+    const customFieldError = getCustomFieldError(customFieldDefinitions, values.customFields, language === 'English');
+    if (customFieldError) {
+      form.setError('customFields', { message: customFieldError });
+      return;
+    }
     
     // Format the data for the server according to the database schema
     const formattedData = {
@@ -239,6 +257,7 @@ export default function EmployeeForm({ onSubmit, initialData, isSubmitting }: Em
       personalEmail: values.personalEmail || null,
       corporateEmail: values.corporateEmail || null,
       userId: values.userId && values.userId !== '' ? parseInt(values.userId) : null,
+      customFields: pickCustomFieldValues(customFieldDefinitions, values.customFields),
     };
     
     // For edit mode, include the empId if it exists in initialData
@@ -564,6 +583,21 @@ export default function EmployeeForm({ onSubmit, initialData, isSubmitting }: Em
           </TabsContent>
         </Tabs>
 
+        <FormField
+          control={form.control}
+          name="customFields"
+          render={({ field }) => (
+            <FormItem>
+              <CustomFieldInputs
+                definitions={customFieldDefinitions}
+                values={field.value as CustomFieldValues | undefined}
+                onChange={field.onChange}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <Button type="submit" className="w-full" disabled={isSubmitting}>
           {isSubmitting ? translations.submitting : isEditMode ? translations.save : translations.create}
         </Button>
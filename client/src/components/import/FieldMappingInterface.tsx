@@ -22,6 +22,7 @@ interface DatabaseField {
   autoGenerated: boolean;
   enumValues?: string[];
   example?: string;
+  customField?: boolean;
 }
 
 interface FieldMapping {
@@ -32,7 +33,7 @@ interface FieldMapping {
 }
 
 interface FieldMappingInterfaceProps {
-  entityType: 'employees' | 'assets' | 'tickets';
+  entityType: 'employees' | 'assets' | 'tickets' | 'licenses';
   fileData: any[];
   fileColumns: FileColumn[];
   onMappingComplete: (mappings: FieldMapping[]) => void;
@@ -417,6 +418,9 @@ export function FieldMappingInterface({
                         {field.autoGenerated && (
                           <Badge variant="secondary" className="text-xs">System Generated</Badge>
                         )}
+                        {field.customField && (
+                          <Badge variant="outline" className="text-xs">Custom Field</Badge>
+                        )}
                         {isMapped && <CheckCircle className="h-4 w-4 text-green-500" />}
                       </div>
                       
@@ -28,6 +28,16 @@ import {
   Terminal,
   Zap,
   FileCode,
+  Clock,
+  UserMinus,
+  UserCheck,
+  MapPin,
+  ScanLine,
+  ClipboardCheck,
+  KeyRound,
+  Boxes,
+  ShoppingCart,
+  ClipboardList,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
@@ -64,9 +74,20 @@ export default function Sidebar({ isSidebarOpen, onHover, onPageSelect, isPinned
     Dashboard: language === 'English' ? 'Dashboard' : 'لوحة التحكم',
     Users: language === 'English' ? 'Users' : 'المستخدمين',
     Employees: language === 'English' ? 'Employees' : 'الموظفين',
+    Onboarding: language === 'English' ? 'Onboarding' : 'التهيئة',
+    Offboarding: language === 'English' ? 'Offboarding' : 'إنهاء الخدمة',
     Assets: language === 'English' ? 'Assets' : 'الأصول',
+    Locations: language === 'English' ? 'Locations' : 'المواقع',
+    ScanAssets: language === 'English' ? 'Scan Assets' : 'مسح الأصول',
+    StockTakes: language === 'English' ? 'Stock-takes' : 'الجرد',
+    Licenses: language === 'English' ? 'Licenses' : 'التراخيص',
+    Consumables: language === 'English' ? 'Consumables' : 'المستهلكات',
+    PurchaseOrders: language === 'English' ? 'Purchase Orders' : 'أوامر الشراء',
+    Approvals: language === 'English' ? 'Approvals' : 'الموافقات',
     AssetHistory: language === 'English' ? 'Asset History' : 'سجل الأصول',
     Tickets: language === 'English' ? 'Tickets' : 'التذاكر',
+    ServiceCatalog: language === 'English' ? 'Service Catalog' : 'كتالوج الخدمات',
+    Timesheets: language === 'English' ? 'Timesheets' : 'سجلات الدوام',
     Reports: language === 'English' ? 'Reports' : 'التقارير',
     SystemConfig: language === 'English' ? 'System Config' : 'إعدادات النظام',
     AdminConsole: language === 'English' ? 'Admin Console' : 'وحدة التحكم الإدارية',
@@ -183,6 +204,24 @@ export default function Sidebar({ isSidebarOpen, onHover, onPageSelect, isPinned
             </Link>
           </div>
         </RoleGuard>
+
+        <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]}>
+          <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
+            <Link href="/onboarding" className={getLinkClass('/onboarding')} onClick={handleLinkClick}>
+              <UserCheck className="h-5 w-5" />
+              <span>{translations.Onboarding}</span>
+            </Link>
+          </div>
+        </RoleGuard>
+
+        <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]}>
+          <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
+            <Link href="/offboarding" className={getLinkClass('/offboarding')} onClick={handleLinkClick}>
+              <UserMinus className="h-5 w-5" />
+              <span>{translations.Offboarding}</span>
+            </Link>
+          </div>
+        </RoleGuard>
         
         <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
           <Link href="/assets" className={getLinkClass('/assets')} onClick={handleLinkClick}>
@@ -191,6 +230,67 @@ export default function Sidebar({ isSidebarOpen, onHover, onPageSelect, isPinned
           </Link>
         </div>
         
+        <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]}>
+          <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
+            <Link href="/locations" className={getLinkClass('/locations')} onClick={handleLinkClick}>
+              <MapPin className="h-5 w-5" />
+              <span>{translations.Locations}</span>
+            </Link>
+          </div>
+        </RoleGuard>
+
+        <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]}>
+          <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
+            <Link href="/scan" className={getLinkClass('/scan')} onClick={handleLinkClick}>
+              <ScanLine className="h-5 w-5" />
+              <span>{translations.ScanAssets}</span>
+            </Link>
+          </div>
+        </RoleGuard>
+
+        <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]}>
+          <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
+            <Link href="/stock-takes" className={getLinkClass('/stock-takes')} onClick={handleLinkClick}>
+              <ClipboardCheck className="h-5 w-5" />
+              <span>{translations.StockTakes}</span>
+            </Link>
+          </div>
+        </RoleGuard>
+
+        <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]}>
+          <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
+            <Link href="/licenses" className={getLinkClass('/licenses')} onClick={handleLinkClick}>
+              <KeyRound className="h-5 w-5" />
+              <span>{translations.Licenses}</span>
+            </Link>
+          </div>
+        </RoleGuard>
+
+        <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]}>
+          <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
+            <Link href="/consumables" className={getLinkClass('/consumables')} onClick={handleLinkClick}>
+              <Boxes className="h-5 w-5" />
+              <span>{translations.Consumables}</span>
+            </Link>
+          </div>
+        </RoleGuard>
+
+        <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]}>
+          <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
+            <Link href="/purchase-orders" className={getLinkClass('/purchase-orders')} onClick={handleLinkClick}>
+              <ShoppingCart className="h-5 w-5" />
+              <span>{translations.PurchaseOrders}</span>
+            </Link>
+          </div>
+        </RoleGuard>
+
+        <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
+          <Link href="/approvals" className={getLinkClass('/approvals')} onClick={handleLinkClick}>
+            <ClipboardCheck className="h-5 w-5" />
+            <span>{translations.Approvals}</span>
+          </Link>
+        </div>
+
         <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]}>
           <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
             <Link href="/asset-history" className={getLinkClass('/asset-history')} onClick={handleLinkClick}>
@@ -206,6 +306,24 @@ export default function Sidebar({ isSidebarOpen, onHover, onPageSelect, isPinned
             <span>{translations.Tickets}</span>
           </Link>
         </div>
+
+        <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]}>
+          <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
+            <Link href="/service-catalog" className={getLinkClass('/service-catalog')} onClick={handleLinkClick}>
+              <ClipboardList className="h-5 w-5" />
+              <span>{translations.ServiceCatalog}</span>
+            </Link>
+          </div>
+        </RoleGuard>
+
+        <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]}>
+          <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
+            <Link href="/timesheets" className={getLinkClass('/timesheets')} onClick={handleLinkClick}>
+              <Clock className="h-5 w-5" />
+              <span>{translations.Timesheets}</span>
+            </Link>
+          </div>
+        </RoleGuard>
         
         <RoleGuard allowedRoles={[ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER]}>
           <div className={`transform transition-transform duration-200 ${language === 'English' ? 'hover:translate-x-1' : 'hover:-translate-x-1'}`}>
@@ -1,4 +1,5 @@
-import { Bell, Package, Ticket, Users, CheckCircle, X } from 'lucide-react';
+import { Bell, Package, Ticket, Users, CheckCircle, ClipboardCheck, X } from 'lucide-react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -13,12 +14,18 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { useNotifications } from '@/hooks/use-notifications';
 import { useLanguage } from '@/hooks/use-language';
 import { useLocation } from 'wouter';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { invalidateApprovalQueries, useApprovalLabels, type ApprovalRequest } from '@/components/approvals/ApprovalTrail';
 import { formatDistanceToNow } from 'date-fns';
 import { ar } from 'date-fns/locale';
 
 export function NotificationBell() {
   const { language } = useLanguage();
   const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const approvalLabels = useApprovalLabels();
   const { 
     recentNotifications, 
     unreadCount, 
@@ -38,6 +45,36 @@ export function NotificationBell() {
     viewAll: language === 'English' ? 'View all notifications' : 'عرض جميع الإشعارات',
     noNotifications: language === 'English' ? 'No new notifications' : 'لا توجد إشعارات جديدة',
     justNow: language === 'English' ? 'just now' : 'الآن',
+    awaitingApproval: language === 'English' ? 'Awaiting your approval' : 'بانتظار موافقتك',
+    approve: language === 'English' ? 'Approve' : 'موافقة',
+    reject: language === 'English' ? 'Reject' : 'رفض',
+    rejectReason: language === 'English' ? 'Reason for rejecting:' : 'سبب الرفض:',
+    decided: language === 'English' ? 'Decision recorded' : 'تم تسجيل القرار',
+    error: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const { data: approvalInbox = [] } = useQuery<ApprovalRequest[]>({
+    queryKey: ['/api/approvals/inbox'],
+    refetchInterval: 60000,
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: ({ id, approved, comments }: { id: number; approved: boolean; comments?: string }) =>
+      apiRequest(`/api/approvals/${id}/${approved ? 'approve' : 'reject'}`, 'POST', { comments, via: 'notification' }),
+    onSuccess: () => {
+      toast({ title: translations.decided });
+      invalidateApprovalQueries(queryClient);
+    },
+    onError: (error: any) => {
+      toast({ title: translations.error, description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const handleReject = (id: number) => {
+    const comments = window.prompt(translations.rejectReason);
+    if (comments?.trim()) {
+      decideMutation.mutate({ id, approved: false, comments });
+    }
   };
 
   const getNotificationIcon = (type: string) => {
@@ -73,6 +110,11 @@ export function NotificationBell() {
       await markAsRead([notification.id]);
     }
 
+    if (notification.category === 'approvals') {
+      setLocation('/approvals');
+      return;
+    }
+
     // Navigate based on type
     switch (notification.type) {
       case 'Asset':
@@ -105,12 +147,12 @@ export function NotificationBell() {
           className="relative hover:bg-gray-100 dark:hover:bg-gray-800"
         >
           <Bell className="h-5 w-5 text-gray-700 dark:text-gray-300" />
-          {unreadCount > 0 && (
+          {(unreadCount + approvalInbox.length) > 0 && (
             <Badge 
               variant="destructive" 
               className="absolute -top-1 -right-1 h-5 w-5 p-0 flex items-center justify-center text-xs font-bold"
             >
-              {unreadCount > 9 ? '9+' : unreadCount}
+              {(unreadCount + approvalInbox.length) > 9 ? '9+' : unreadCount + approvalInbox.length}
             </Badge>
           )}
         </Button>
@@ -137,6 +179,48 @@ export function NotificationBell() {
 
         <DropdownMenuSeparator />
 
+        {approvalInbox.length > 0 && (
+          <>
+            <div className="px-3 py-2">
+              <button
+                className="flex items-center gap-2 text-sm font-semibold hover:underline"
+                onClick={() => setLocation('/approvals')}
+              >
+                <ClipboardCheck className="h-4 w-4 text-green-600" />
+                {translations.awaitingApproval} ({approvalInbox.length})
+              </button>
+              <div className="mt-2 space-y-2 max-h-48 overflow-y-auto">
+                {approvalInbox.slice(0, 5).map(request => (
+                  <div key={request.id} className="rounded-md border p-2">
+                    <p className="text-xs text-gray-500">{approvalLabels.requestTypes[request.requestType]}</p>
+                    <p className="text-sm font-medium line-clamp-1">{request.title}</p>
+                    <div className="flex justify-end gap-2 mt-1">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs text-red-600"
+                        disabled={decideMutation.isPending}
+                        onClick={() => handleReject(request.id)}
+                      >
+                        {translations.reject}
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="h-7 text-xs"
+                        disabled={decideMutation.isPending}
+                        onClick={() => decideMutation.mutate({ id: request.id, approved: true })}
+                      >
+                        {translations.approve}
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <DropdownMenuSeparator />
+          </>
+        )}
+
         <ScrollArea className="h-[400px]">
           {isLoading ? (
             <div className="p-4 text-center text-sm text-gray-500">
@@ -34,6 +34,7 @@ export default function PortalHeader() {
     dashboard: language === 'English' ? 'Dashboard' : 'لوحة التحكم',
     myAssets: language === 'English' ? 'My Assets' : 'أصولي',
     myTickets: language === 'English' ? 'My Tickets' : 'تذاكري',
+    serviceCatalog: language === 'English' ? 'Services' : 'الخدمات',
     myProfile: language === 'English' ? 'My Profile' : 'ملفي الشخصي',
     logout: language === 'English' ? 'Logout' : 'تسجيل الخروج',
     welcome: language === 'English' ? 'Welcome' : 'مرحباً',
@@ -44,6 +45,7 @@ export default function PortalHeader() {
     { path: '/portal/dashboard', label: translations.dashboard, icon: '📊' },
     { path: '/portal/my-assets', label: translations.myAssets, icon: '📦' },
     { path: '/portal/my-tickets', label: translations.myTickets, icon: '🎫' },
+    { path: '/portal/service-catalog', label: translations.serviceCatalog, icon: '🧾' },
     { path: '/portal/my-profile', label: translations.myProfile, icon: '👤' },
   ];
 
@@ -23,6 +23,7 @@ import {
 } from 'lucide-react';
 import type { TicketResponse } from '@shared/types';
 import { formatDistanceToNow } from 'date-fns';
+import SLACountdown from './SLACountdown';
 
 interface KanbanBoardProps {
   tickets: TicketResponse[];
@@ -266,6 +267,9 @@ export default function KanbanBoard({ tickets, onTicketClick, users = [] }: Kanb
                             </Tooltip>
                           </TooltipProvider>
                         </div>
+
+                        {/* SLA Countdown */}
+                        {!ticket.mergedIntoId && <SLACountdown ticket={ticket} className="text-[10px] px-1.5 py-0" />}
                       </div>
                     </CardContent>
                   </Card>
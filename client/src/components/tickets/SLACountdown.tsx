@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '@/hooks/use-language';
+import { useTicketTranslations } from '@/lib/translations/tickets';
+import { Badge } from '@/components/ui/badge';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { Timer, PauseCircle, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import type { TicketResponse } from '@shared/types';
+
+interface SLACountdownProps {
+  ticket: Pick<TicketResponse, 'status' | 'slaStatus' | 'slaTarget' | 'responseDueAt' | 'firstResponseAt' | 'slaPausedAt'>;
+  className?: string;
+}
+
+const statusStyles = {
+  on_track: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-900/30 dark:text-green-300',
+  at_risk: 'bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-900/30 dark:text-amber-300',
+  breached: 'bg-red-100 text-red-800 border-red-200 dark:bg-red-900/30 dark:text-red-300',
+  paused: 'bg-gray-100 text-gray-700 border-gray-200 dark:bg-gray-800 dark:text-gray-300',
+  met: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-900/30 dark:text-green-300',
+};
+
+// Format a minute count as "2d 3h", "3h 20m" or "45m"
+function formatDuration(totalMinutes: number): string {
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+/**
+ * SLA badge with a live countdown to the next response or resolution target
+ */
+export default function SLACountdown({ ticket, className = '' }: SLACountdownProps) {
+  const { language } = useLanguage();
+  const t = useTicketTranslations(language);
+  const [now, setNow] = useState(() => Date.now());
+
+  const isClosed = ticket.status === 'Resolved' || ticket.status === 'Closed';
+
+  useEffect(() => {
+    if (isClosed || ticket.slaPausedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [isClosed, ticket.slaPausedAt]);
+
+  if (!ticket.slaTarget) return null;
+
+  // Until someone responds, the response target is the one that matters
+  const awaitingResponse = !ticket.firstResponseAt && !!ticket.responseDueAt;
+  const dueAt = new Date(awaitingResponse ? ticket.responseDueAt! : ticket.slaTarget);
+  const remainingMinutes = Math.round((dueAt.getTime() - now) / 60000);
+
+  let status = ticket.slaStatus || 'on_track';
+  if (isClosed) {
+    status = status === 'breached' ? 'breached' : 'met';
+  } else if (ticket.slaPausedAt) {
+    status = 'paused';
+  } else if (remainingMinutes < 0) {
+    status = 'breached';
+  }
+
+  let label: string;
+  let Icon = Timer;
+  if (status === 'met') {
+    label = t.slaMet;
+    Icon = CheckCircle2;
+  } else if (status === 'paused') {
+    label = t.slaPaused;
+    Icon = PauseCircle;
+  } else if (isClosed) {
+    label = t.slaBreached;
+    Icon = AlertTriangle;
+  } else if (remainingMinutes < 0) {
+    label = `${formatDuration(-remainingMinutes)} ${t.slaOverdue}`;
+    Icon = AlertTriangle;
+  } else {
+    label = formatDuration(remainingMinutes);
+  }
+
+  const statusLabel = {
+    on_track: t.slaCompliant,
+    at_risk: t.slaAtRisk,
+    breached: t.slaBreached,
+    paused: t.slaPaused,
+    met: t.slaMet,
+  }[status];
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline" className={`gap-1 whitespace-nowrap ${statusStyles[status]} ${className}`}>
+            <Icon className="h-3 w-3" />
+            {label}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent>
+          <div className="space-y-1 text-xs">
+            <div className="font-medium">{statusLabel}</div>
+            {ticket.responseDueAt && (
+              <div>{t.responseDue}: {format(new Date(ticket.responseDueAt), 'MMM d, HH:mm')}</div>
+            )}
+            <div>{t.resolutionDue}: {format(new Date(ticket.slaTarget), 'MMM d, HH:mm')}</div>
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
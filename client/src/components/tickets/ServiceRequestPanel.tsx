@@ -0,0 +1,197 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+
+import { useLanguage } from '@/hooks/use-language';
+import { useAuth } from '@/lib/authContext';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { hasPermission } from '@/components/auth/RoleGuard';
+import ApprovalTrail from '@/components/approvals/ApprovalTrail';
+import { ROLE_IDS } from '@shared/roles.config';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { ClipboardList } from 'lucide-react';
+
+export type ServiceFormFieldType = 'text' | 'textarea' | 'number' | 'select' | 'checkbox' | 'date';
+export type ServiceRequestStatus = 'pending_approval' | 'submitted' | 'rejected' | 'cancelled';
+
+export interface ServiceFormField {
+  key: string;
+  label: string;
+  type: ServiceFormFieldType;
+  required: boolean;
+  options?: string[];
+}
+
+export interface ServiceRequestAnswer {
+  key: string;
+  label: string;
+  type: ServiceFormFieldType;
+  value: string | number | boolean | null;
+}
+
+export interface ServiceRequestTask {
+  id: number;
+  serviceRequestId: number;
+  sortOrder: number;
+  title: string;
+  status: 'pending' | 'done';
+  completedById: number | null;
+  completedByName: string | null;
+  completedAt: string | null;
+}
+
+export interface ServiceRequest {
+  id: number;
+  itemId: number | null;
+  itemName: string;
+  answers: ServiceRequestAnswer[];
+  status: ServiceRequestStatus;
+  employeeId: number;
+  employeeName: string | null;
+  requestedById: number;
+  requestedByName: string | null;
+  ticketId: number | null;
+  ticketCode: string | null;
+  createdAt: string;
+  updatedAt: string;
+  tasks: ServiceRequestTask[];
+}
+
+export function useServiceRequestLabels() {
+  const { language } = useLanguage();
+  const isEnglish = language === 'English';
+
+  return {
+    statuses: {
+      pending_approval: isEnglish ? 'Awaiting approval' : 'بانتظار الموافقة',
+      submitted: isEnglish ? 'Submitted' : 'مقدم',
+      rejected: isEnglish ? 'Rejected' : 'مرفوض',
+      cancelled: isEnglish ? 'Cancelled' : 'ملغى',
+    } as Record<ServiceRequestStatus, string>,
+    statusVariants: {
+      pending_approval: 'secondary',
+      submitted: 'default',
+      rejected: 'destructive',
+      cancelled: 'outline',
+    } as Record<ServiceRequestStatus, 'default' | 'secondary' | 'destructive' | 'outline'>,
+    yes: isEnglish ? 'Yes' : 'نعم',
+    no: isEnglish ? 'No' : 'لا',
+  };
+}
+
+/**
+ * Answers of a service request as label/value pairs
+ */
+export function ServiceRequestAnswers({ answers }: { answers: ServiceRequestAnswer[] }) {
+  const labels = useServiceRequestLabels();
+
+  const formatValue = (answer: ServiceRequestAnswer) => {
+    if (answer.value === null || answer.value === '') return '-';
+    if (typeof answer.value === 'boolean') return answer.value ? labels.yes : labels.no;
+    return String(answer.value);
+  };
+
+  if (answers.length === 0) return null;
+
+  return (
+    <dl className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-2 text-sm">
+      {answers.map(answer => (
+        <div key={answer.key} className="contents">
+          <dt className="text-muted-foreground">{answer.label}</dt>
+          <dd className="sm:col-span-2 whitespace-pre-wrap break-words">{formatValue(answer)}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+interface ServiceRequestPanelProps {
+  ticketId: number;
+}
+
+/**
+ * Catalog request behind a ticket: the requester's answers, the fulfillment checklist
+ * and the approval trail; renders nothing for ordinary tickets
+ */
+export default function ServiceRequestPanel({ ticketId }: ServiceRequestPanelProps) {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const labels = useServiceRequestLabels();
+  const canWorkTasks = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT]);
+
+  const translations = {
+    serviceRequest: language === 'English' ? 'Service Request' : 'طلب خدمة',
+    tasks: language === 'English' ? 'Fulfillment Tasks' : 'مهام التنفيذ',
+    tasksDone: (done: number, total: number) => language === 'English' ? `${done} of ${total} done` : `${done} من ${total} مكتملة`,
+    completedBy: language === 'English' ? 'Done by' : 'أنجزها',
+    taskUpdateFailed: language === 'English' ? 'Failed to update task' : 'فشل تحديث المهمة',
+  };
+
+  const queryKey = [`/api/service-catalog/tickets/${ticketId}`];
+  const { data: request } = useQuery<ServiceRequest | null>({ queryKey });
+
+  const taskMutation = useMutation({
+    mutationFn: ({ id, done }: { id: number; done: boolean }) =>
+      apiRequest(`/api/service-catalog/tasks/${id}`, 'PATCH', { done }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: any) => {
+      toast({ title: translations.taskUpdateFailed, description: error.message, variant: 'destructive' });
+    }
+  });
+
+  if (!request) return null;
+
+  const doneCount = request.tasks.filter(task => task.status === 'done').length;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <ClipboardList className="h-4 w-4" />
+            {translations.serviceRequest}: {request.itemName}
+            <Badge variant={labels.statusVariants[request.status]}>{labels.statuses[request.status]}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ServiceRequestAnswers answers={request.answers} />
+
+          {request.tasks.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm font-medium">
+                <span>{translations.tasks}</span>
+                <span className="text-muted-foreground">{translations.tasksDone(doneCount, request.tasks.length)}</span>
+              </div>
+              {request.tasks.map(task => (
+                <label key={task.id} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    checked={task.status === 'done'}
+                    disabled={!canWorkTasks || taskMutation.isPending}
+                    onCheckedChange={(checked) => taskMutation.mutate({ id: task.id, done: checked === true })}
+                  />
+                  <span className="flex-1">
+                    <span className={task.status === 'done' ? 'line-through text-muted-foreground' : ''}>{task.title}</span>
+                    {task.status === 'done' && task.completedAt && (
+                      <span className="block text-xs text-muted-foreground">
+                        {translations.completedBy} {task.completedByName || '-'} · {format(new Date(task.completedAt), 'yyyy-MM-dd HH:mm')}
+                      </span>
+                    )}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ApprovalTrail requestType="service_request" subjectId={request.id} />
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ import {
 } from '@/components/ui/select';
 import { X, Filter, Search, User, ChevronDown, Check } from 'lucide-react';
 import { Calendar } from '@/components/ui/calendar';
+import CustomFieldFilter from '@/components/custom-fields/CustomFieldFilter';
 import type { TicketFilters } from '@shared/types';
 
 interface TicketFiltersProps {
@@ -106,7 +107,7 @@ export default function TicketFilters({
 
   // Count active filters
   const activeFiltersCount = Object.entries(filters).filter(([key, value]) => 
-    value !== undefined && value !== '' && key !== 'search'
+    value !== undefined && value !== '' && key !== 'search' && key !== 'customFieldValue'
   ).length;
 
   // Date range helpers
@@ -470,6 +471,15 @@ export default function TicketFilters({
               </div>
             </>
           )}
+
+          <div className="w-64">
+            <CustomFieldFilter
+              entityType="ticket"
+              field={filters.customField}
+              value={filters.customFieldValue}
+              onChange={(customField, customFieldValue) => onFiltersChange({ ...filters, customField, customFieldValue })}
+            />
+          </div>
         </div>
       </CardContent>
     </Card>
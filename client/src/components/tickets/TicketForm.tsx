@@ -11,8 +11,20 @@ import { apiRequest } from '@/lib/queryClient';
 import { useTicketTranslations } from '@/lib/translations/tickets';
 import { calculatePriority, getPriorityBadgeVariant, getPriorityExplanation } from '@shared/priorityUtils';
 import { ROLE_IDS, getRoleLevel } from '@shared/roles.config';
+import TicketTimeEntries from '@/components/tickets/TicketTimeEntries';
+import ServiceRequestPanel from '@/components/tickets/ServiceRequestPanel';
+import TicketMergeDialog from '@/components/tickets/TicketMergeDialog';
+import SLACountdown from '@/components/tickets/SLACountdown';
+import AttachmentDropzone, { uploadAttachments } from '@/components/attachments/AttachmentDropzone';
+import AttachmentList from '@/components/attachments/AttachmentList';
+import CustomFieldInputs, {
+  useCustomFieldDefinitions,
+  getCustomFieldError,
+  pickCustomFieldValues,
+  type CustomFieldValues,
+} from '@/components/custom-fields/CustomFieldInputs';
 
-import type { TicketResponse, TicketCreateRequest, TicketUpdateRequest, UserResponse, AssetResponse, EmployeeResponse } from '@shared/types';
+import type { TicketResponse, TicketCreateRequest, TicketUpdateRequest, UserResponse, AssetResponse, EmployeeResponse, AttachmentResponse } from '@shared/types';
 import type { UrgencyLevel, ImpactLevel } from '@shared/priorityUtils';
 
 import { Button } from '@/components/ui/button';
@@ -70,7 +82,11 @@ import {
   Send,
   Check,
   ChevronsUpDown,
-  CalendarIcon
+  CalendarIcon,
+  GitMerge,
+  PauseCircle,
+  PlayCircle,
+  Paperclip
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
@@ -110,7 +126,9 @@ const ticketFormSchema = z.object({
   ]).optional(),
   
   dueDate: z.string().optional(),
-  slaTarget: z.string().optional(),
+
+  // Admin-defined custom fields, checked against their definitions on submit
+  customFields: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
 });
 
 type TicketFormData = z.infer<typeof ticketFormSchema>;
@@ -144,6 +162,8 @@ export default function TicketForm({
   const [userSearchOpen, setUserSearchOpen] = useState(false);
   const [newComment, setNewComment] = useState('');
   const [addingComment, setAddingComment] = useState(false);
+  const [ticketFiles, setTicketFiles] = useState<File[]>([]);
+  const [commentFiles, setCommentFiles] = useState<File[]>([]);
 
   // Initialize form with proper defaults - Fixed field mapping
   const form = useForm<TicketFormData>({
@@ -162,7 +182,7 @@ export default function TicketForm({
       resolution: ticket?.resolution || '',
       timeSpent: ticket?.timeSpent || undefined,
       dueDate: ticket?.dueDate ? format(new Date(ticket.dueDate), 'yyyy-MM-dd') : '',
-      slaTarget: ticket?.slaTarget ? format(new Date(ticket.slaTarget), 'yyyy-MM-dd') : '',
+      customFields: ticket?.customFields || {},
     },
   });
 
@@ -188,6 +208,8 @@ export default function TicketForm({
     staleTime: 300000, // 5 minutes
   });
 
+  const customFieldDefinitions = useCustomFieldDefinitions('ticket');
+
   // Filter assets by selected employee
   const submittedById = form.watch('submittedById');
   const filteredAssets = submittedById 
@@ -215,6 +237,13 @@ export default function TicketForm({
     staleTime: 30000, // 30 seconds
   });
 
+  // Ticket and comment attachments (private comment files are filtered by the server)
+  const attachmentsKey = `/api/attachments/ticket/${ticket?.id}`;
+  const { data: ticketAttachments = [] } = useQuery<AttachmentResponse[]>({
+    queryKey: [attachmentsKey],
+    enabled: mode === 'edit' && !!ticket?.id,
+  });
+
   // Watch urgency and impact to calculate priority - RESTORED
   const urgency = form.watch('urgency');
   const impact = form.watch('impact');
@@ -244,7 +273,7 @@ export default function TicketForm({
         resolution: ticket.resolution || '',
         timeSpent: ticket.timeSpent || undefined,
         dueDate: ticket.dueDate ? format(new Date(ticket.dueDate), 'yyyy-MM-dd') : '',
-        slaTarget: ticket.slaTarget ? format(new Date(ticket.slaTarget), 'yyyy-MM-dd') : '',
+        customFields: ticket.customFields || {},
       });
     } else if (mode === 'create') {
       // Create mode: reset form to default values
@@ -262,7 +291,7 @@ export default function TicketForm({
         resolution: '',
         timeSpent: undefined,
         dueDate: '',
-        slaTarget: '',
+        customFields: {},
       });
     }
   }, [ticket, mode, form, user]);
@@ -285,21 +314,37 @@ export default function TicketForm({
         resolution: '',
         timeSpent: undefined,
         dueDate: '',
-        slaTarget: '',
+        customFields: {},
       });
       // Reset state variables
       setActiveTab('details');
       setNewComment('');
+      setTicketFiles([]);
+      setCommentFiles([]);
     }
   }, [open, mode, form, user]);
 
   // Create/Update ticket mutations - FIXED: Remove duplicate date conversion
   const createTicketMutation = useMutation({
     mutationFn: async (data: TicketCreateRequest) => {
-      return apiRequest('/api/tickets', 'POST', {
+      const created = await apiRequest('/api/tickets', 'POST', {
         ...data,
         // Priority is already included in submitData
       });
+
+      // Files are attached once the ticket exists; a failed upload does not undo the ticket
+      if (ticketFiles.length > 0) {
+        try {
+          await uploadAttachments(`/api/attachments/ticket/${created.id}`, ticketFiles);
+        } catch (error: any) {
+          toast({
+            title: t.attachmentUploadFailed,
+            description: error.message,
+            variant: 'destructive',
+          });
+        }
+      }
+      return created;
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
@@ -356,10 +401,14 @@ export default function TicketForm({
   const addCommentMutation = useMutation({
     mutationFn: async (content: string) => {
       if (!ticket?.id) throw new Error('Ticket ID is required');
-      return apiRequest('/api/tickets/comments', 'POST', { 
+      const comment = await apiRequest('/api/tickets/comments', 'POST', { 
         ticketId: ticket.id,
         content 
       });
+      if (commentFiles.length > 0) {
+        await uploadAttachments(`/api/attachments/comment/${comment.id}`, commentFiles);
+      }
+      return comment;
     },
     onSuccess: async (data, variables, context) => {
       const ticketId = ticket?.id;
@@ -369,6 +418,8 @@ export default function TicketForm({
         await refetchComments();
       }
       setNewComment('');
+      setCommentFiles([]);
+      queryClient.invalidateQueries({ queryKey: [attachmentsKey] });
       toast({
         title: t.success,
         description: t.commentAdded,
@@ -388,16 +439,25 @@ export default function TicketForm({
 
   // Form submit handler - FIXED: Proper date handling
   const onSubmit = async (data: TicketFormData) => {
+    const customFieldError = getCustomFieldError(customFieldDefinitions, data.customFields, language === 'English');
+    if (customFieldError) {
+      form.setError('customFields', { message: customFieldError });
+      return;
+    }
+
     setIsSubmitting(true);
     
     try {
       // Prepare data for submission with proper date conversion
+      // timeSpent is rolled up from time entries on the server - never submit the stale form value
+      // SLA targets are computed by the server from the matching SLA policy
+      const { timeSpent, ...ticketData } = data;
       const submitData = {
-        ...data,
+        ...ticketData,
         priority: calculatedPriority,
         // FIXED: Proper date conversion for modern Calendar component
         dueDate: data.dueDate ? new Date(data.dueDate).toISOString() : undefined,
-        slaTarget: data.slaTarget ? new Date(data.slaTarget).toISOString() : undefined,
+        customFields: pickCustomFieldValues(customFieldDefinitions, data.customFields),
       };
 
       if (mode === 'create') {
@@ -443,6 +503,61 @@ export default function TicketForm({
     return users.filter((user: any) => getRoleLevel(user.role) >= getRoleLevel(ROLE_IDS.AGENT));
   }, [users]);
 
+  // Time entries are logged by agents and above on existing tickets
+  const canTrackTime = mode === 'edit' && !!ticket?.id && getRoleLevel(user?.role || '') >= getRoleLevel(ROLE_IDS.AGENT);
+
+  // Open tickets can be merged into another ticket by agents and above
+  const canMerge = canTrackTime && !ticket?.mergedIntoId && ticket?.status !== 'Closed';
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+
+  // Files can be removed by whoever uploaded them, or by agents and above
+  const canDeleteAttachment = (attachment: AttachmentResponse) =>
+    attachment.uploadedById === user?.id || getRoleLevel(user?.role || '') >= getRoleLevel(ROLE_IDS.AGENT);
+
+  const uploadTicketFilesMutation = useMutation({
+    mutationFn: (files: File[]) => uploadAttachments(`/api/attachments/ticket/${ticket?.id}`, files),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [attachmentsKey] });
+      toast({
+        title: t.success,
+        description: t.attachmentsUploaded,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: t.attachmentUploadFailed,
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // SLA clock pauses while the ticket waits on the requester; keep the latest server copy for display
+  const [slaSnapshot, setSlaSnapshot] = useState<TicketResponse | null>(null);
+  const slaTicket = slaSnapshot && slaSnapshot.id === ticket?.id ? slaSnapshot : ticket;
+  const canPauseSla = canTrackTime && !ticket?.mergedIntoId && ticket?.status !== 'Resolved' && ticket?.status !== 'Closed';
+
+  const slaPauseMutation = useMutation({
+    mutationFn: (action: 'pause' | 'resume') =>
+      apiRequest(`/api/tickets/${ticket?.id}/sla/${action}`, 'POST'),
+    onSuccess: (data: TicketResponse, action) => {
+      setSlaSnapshot(data);
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets', ticket?.id, 'history'] });
+      toast({
+        title: t.success,
+        description: action === 'pause' ? t.slaPausedMessage : t.slaResumedMessage,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: t.error,
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -455,6 +570,11 @@ export default function TicketForm({
                 {ticket.ticketId}
               </Badge>
             )}
+            {ticket?.mergedIntoId && (
+              <Badge variant="secondary">
+                {t.mergedInto} #{ticket.mergedIntoId}
+              </Badge>
+            )}
           </DialogTitle>
           <DialogDescription>
             {mode === 'create' ? t.createNewTicketDescription || 'Fill out the form below to create a new support ticket.' : t.editTicketDescription || 'Update the ticket information below.'}
@@ -462,11 +582,14 @@ export default function TicketForm({
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className={cn("grid w-full", canTrackTime ? "grid-cols-4" : "grid-cols-3")}>
             <TabsTrigger value="details">{t.ticketDetails}</TabsTrigger>
             {mode === 'edit' && (
               <>
                 <TabsTrigger value="comments">{t.comments}</TabsTrigger>
+                {canTrackTime && (
+                  <TabsTrigger value="time">{t.timeTracking}</TabsTrigger>
+                )}
                 <TabsTrigger value="history">{t.history}</TabsTrigger>
               </>
             )}
@@ -476,6 +599,7 @@ export default function TicketForm({
           <div className="mt-4 min-h-[600px]">
             {/* Main Details Tab - FIXED: Flat layout without Card wrappers */}
             <TabsContent value="details" className="space-y-3">
+              {canTrackTime && ticket?.id && <ServiceRequestPanel ticketId={ticket.id} />}
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                   
@@ -913,17 +1037,14 @@ export default function TicketForm({
                               <FormControl>
                                 <Input
                                   type="number"
-                                  min="0"
                                   placeholder="0"
                                   {...field}
                                   value={field.value || ''}
-                                  onChange={(e) => {
-                                    const value = e.target.value;
-                                    field.onChange(value === '' ? undefined : parseInt(value));
-                                  }}
-                                  disabled={isSubmitting}
+                                  readOnly
+                                  disabled
                                 />
                               </FormControl>
+                              <p className="text-xs text-muted-foreground">{t.timeSpentRollupHint}</p>
                               <FormMessage />
                             </FormItem>
                           )}
@@ -977,31 +1098,82 @@ export default function TicketForm({
                         )}
                       />
 
-                      {/* SLA Target - Modern datepicker */}
-                      <FormField
-                        control={form.control}
-                        name="slaTarget"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>{t.slaTarget}</FormLabel>
-                            <FormControl>
-                              <Calendar
-                                mode="picker"
-                                value={field.value}
-                                onChange={field.onChange}
-                                placeholder={t.selectSlaTarget}
-                                disabled={isSubmitting}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                      {/* SLA Target - computed from the matching SLA policy */}
+                      {mode === 'edit' && slaTicket?.slaTarget && (
+                        <div className="space-y-2">
+                          <Label>{t.slaTarget}</Label>
+                          <div className="flex items-center gap-2 min-h-10">
+                            <SLACountdown ticket={slaTicket} />
+                            {canPauseSla && (
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => slaPauseMutation.mutate(slaTicket.slaPausedAt ? 'resume' : 'pause')}
+                                disabled={slaPauseMutation.isPending}
+                              >
+                                {slaTicket.slaPausedAt
+                                  ? <><PlayCircle className="w-4 h-4 mr-1" />{t.resumeSla}</>
+                                  : <><PauseCircle className="w-4 h-4 mr-1" />{t.pauseSla}</>}
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
 
+                  <FormField
+                    control={form.control}
+                    name="customFields"
+                    render={({ field }) => (
+                      <FormItem>
+                        <CustomFieldInputs
+                          definitions={customFieldDefinitions}
+                          values={field.value as CustomFieldValues | undefined}
+                          onChange={field.onChange}
+                          disabled={isSubmitting}
+                        />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Attachments - staged until the ticket is created, uploaded immediately when editing */}
+                  <div className="space-y-2">
+                    <Label className="flex items-center gap-2">
+                      <Paperclip className="h-4 w-4" />
+                      {t.attachments}
+                    </Label>
+                    {mode === 'edit' && (
+                      <AttachmentList
+                        attachments={ticketAttachments.filter(a => a.entityType === 'ticket')}
+                        canDelete={canDeleteAttachment}
+                        onDeleted={() => queryClient.invalidateQueries({ queryKey: [attachmentsKey] })}
+                      />
+                    )}
+                    <AttachmentDropzone
+                      files={mode === 'create' ? ticketFiles : []}
+                      onFilesChange={mode === 'create' ? setTicketFiles : (files) => uploadTicketFilesMutation.mutate(files)}
+                      disabled={isSubmitting || uploadTicketFilesMutation.isPending}
+                      compact
+                    />
+                  </div>
+
                   {/* Action Buttons */}
                   <DialogFooter>
+                    {canMerge && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="sm:mr-auto"
+                        onClick={() => setShowMergeDialog(true)}
+                        disabled={isSubmitting}
+                      >
+                        <GitMerge className="w-4 h-4 mr-2" />
+                        {t.mergeInto}
+                      </Button>
+                    )}
                     <Button
                       type="button"
                       variant="outline"
@@ -1054,6 +1226,12 @@ export default function TicketForm({
                         rows={3}
                         disabled={addingComment}
                       />
+                      <AttachmentDropzone
+                        files={commentFiles}
+                        onFilesChange={setCommentFiles}
+                        disabled={addingComment}
+                        compact
+                      />
                       <Button
                         onClick={handleAddComment}
                         disabled={!newComment.trim() || addingComment}
@@ -1088,6 +1266,12 @@ export default function TicketForm({
                               </span>
                             </div>
                             <p className="text-sm whitespace-pre-wrap">{comment.content}</p>
+                            <AttachmentList
+                              className="mt-2"
+                              attachments={ticketAttachments.filter(a => a.entityType === 'ticket_comment' && a.entityId === comment.id)}
+                              canDelete={canDeleteAttachment}
+                              onDeleted={() => queryClient.invalidateQueries({ queryKey: [attachmentsKey] })}
+                            />
                           </div>
                         ))
                       ) : (
@@ -1102,6 +1286,13 @@ export default function TicketForm({
               </TabsContent>
             )}
 
+            {/* Time Tracking Tab */}
+            {canTrackTime && ticket?.id && (
+              <TabsContent value="time" className="space-y-4 min-h-[600px]">
+                <TicketTimeEntries ticketId={ticket.id} />
+              </TabsContent>
+            )}
+
             {/* History Tab */}
             {mode === 'edit' && (
               <TabsContent value="history" className="space-y-4 min-h-[600px]">
@@ -1168,6 +1359,15 @@ export default function TicketForm({
             )}
           </div>
         </Tabs>
+
+        {canMerge && ticket && (
+          <TicketMergeDialog
+            open={showMergeDialog}
+            onOpenChange={setShowMergeDialog}
+            ticket={ticket}
+            onMerged={() => onOpenChange?.(false)}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
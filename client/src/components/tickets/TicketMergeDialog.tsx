@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import { useTicketTranslations } from '@/lib/translations/tickets';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { GitMerge, Loader2 } from 'lucide-react';
+
+interface TicketMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ticket: { id: number; ticketId: string; title: string } | null;
+  onMerged?: (primaryTicketId: number) => void;
+}
+
+/**
+ * "Merge into…" dialog - closes the given ticket as a duplicate of the selected primary ticket
+ */
+export default function TicketMergeDialog({ open, onOpenChange, ticket, onMerged }: TicketMergeDialogProps) {
+  const { language } = useLanguage();
+  const t = useTicketTranslations(language);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [targetTicketId, setTargetTicketId] = useState('');
+
+  const { data: tickets = [] } = useQuery<any[]>({
+    queryKey: ['/api/tickets'],
+    enabled: open,
+  });
+
+  // Only active, unmerged tickets can receive a merge
+  const mergeTargets = tickets.filter((candidate: any) =>
+    candidate.id !== ticket?.id &&
+    !candidate.mergedIntoId &&
+    candidate.status !== 'Closed'
+  );
+
+  const mergeMutation = useMutation({
+    mutationFn: (primaryTicketId: number) =>
+      apiRequest(`/api/tickets/${primaryTicketId}/merge`, 'POST', { ticketIds: [ticket!.id] }),
+    onSuccess: (_data, primaryTicketId) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+      toast({ title: t.success, description: t.ticketsMerged });
+      setTargetTicketId('');
+      onOpenChange(false);
+      onMerged?.(primaryTicketId);
+    },
+    onError: (error: any) => {
+      toast({ title: t.error, description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) setTargetTicketId('');
+    onOpenChange(isOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            {t.mergeTicketTitle} {ticket?.ticketId}
+          </DialogTitle>
+          <DialogDescription>{t.mergeTicketDescription}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>{t.mergeTargetTicket}</Label>
+          {mergeTargets.length > 0 ? (
+            <Select value={targetTicketId} onValueChange={setTargetTicketId}>
+              <SelectTrigger>
+                <SelectValue placeholder={t.selectTargetTicket} />
+              </SelectTrigger>
+              <SelectContent>
+                {mergeTargets.map((candidate: any) => (
+                  <SelectItem key={candidate.id} value={candidate.id.toString()}>
+                    {candidate.ticketId} - {candidate.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="text-sm text-muted-foreground">{t.noMergeTargets}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {t.cancel}
+          </Button>
+          <Button
+            onClick={() => mergeMutation.mutate(parseInt(targetTicketId))}
+            disabled={!ticket || !targetTicketId || mergeMutation.isPending}
+          >
+            {mergeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t.mergeTickets}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
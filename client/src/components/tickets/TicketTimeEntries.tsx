@@ -0,0 +1,288 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+
+import { useLanguage } from '@/hooks/use-language';
+import { useAuth } from '@/lib/authContext';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { hasPermission } from '@/components/auth/RoleGuard';
+import { ROLE_IDS } from '@shared/roles.config';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Clock, Edit, Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+
+interface TimeEntry {
+  id: number;
+  ticketId: number;
+  userId: number;
+  workDate: string;
+  minutes: number;
+  description: string | null;
+  user?: { id: number; username?: string };
+}
+
+interface TicketTimeEntriesProps {
+  ticketId: number;
+}
+
+const formatHours = (minutes: number) => (minutes / 60).toFixed(2).replace(/\.?0+$/, '');
+
+export default function TicketTimeEntries({ ticketId }: TicketTimeEntriesProps) {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [hours, setHours] = useState('');
+  const [workDate, setWorkDate] = useState(today);
+  const [description, setDescription] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editValues, setEditValues] = useState({ hours: '', workDate: '', description: '' });
+
+  const translations = {
+    timeEntries: language === 'English' ? 'Time Entries' : 'سجل الوقت',
+    logTime: language === 'English' ? 'Log Time' : 'تسجيل الوقت',
+    hours: language === 'English' ? 'Hours' : 'الساعات',
+    workDate: language === 'English' ? 'Date' : 'التاريخ',
+    description: language === 'English' ? 'Description' : 'الوصف',
+    descriptionPlaceholder: language === 'English' ? 'What did you work on?' : 'ما الذي عملت عليه؟',
+    totalLogged: language === 'English' ? 'Total logged' : 'إجمالي الوقت المسجل',
+    noEntries: language === 'English' ? 'No time logged yet' : 'لم يتم تسجيل وقت بعد',
+    timeLogged: language === 'English' ? 'Time logged successfully' : 'تم تسجيل الوقت بنجاح',
+    entryUpdated: language === 'English' ? 'Time entry updated' : 'تم تحديث سجل الوقت',
+    entryDeleted: language === 'English' ? 'Time entry deleted' : 'تم حذف سجل الوقت',
+    invalidHours: language === 'English' ? 'Enter hours between 0 and 24' : 'أدخل عدد ساعات بين 0 و 24',
+    deleteConfirm: language === 'English' ? 'Delete this time entry?' : 'هل تريد حذف سجل الوقت هذا؟',
+    success: language === 'English' ? 'Success' : 'نجاح',
+    error: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const { data: entries = [], isLoading } = useQuery<TimeEntry[]>({
+    queryKey: ['/api/tickets', ticketId, 'time'],
+    queryFn: () => apiRequest(`/api/tickets/${ticketId}/time`),
+    enabled: !!ticketId,
+  });
+
+  const isManager = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER]);
+  const canModify = (entry: TimeEntry) => isManager || entry.userId === user?.id;
+  const totalMinutes = entries.reduce((total, entry) => total + entry.minutes, 0);
+
+  const invalidateTicketTime = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/tickets', ticketId, 'time'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/timesheets'] });
+  };
+
+  const onError = (error: any) => {
+    toast({ title: translations.error, description: error.message, variant: 'destructive' });
+  };
+
+  const addEntryMutation = useMutation({
+    mutationFn: (data: { hours: number; workDate: string; description: string }) =>
+      apiRequest(`/api/tickets/${ticketId}/time`, 'POST', data),
+    onSuccess: () => {
+      invalidateTicketTime();
+      setHours('');
+      setDescription('');
+      setWorkDate(today);
+      toast({ title: translations.success, description: translations.timeLogged });
+    },
+    onError,
+  });
+
+  const updateEntryMutation = useMutation({
+    mutationFn: ({ id, ...data }: { id: number; hours: number; workDate: string; description: string }) =>
+      apiRequest(`/api/tickets/${ticketId}/time/${id}`, 'PUT', data),
+    onSuccess: () => {
+      invalidateTicketTime();
+      setEditingId(null);
+      toast({ title: translations.success, description: translations.entryUpdated });
+    },
+    onError,
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/tickets/${ticketId}/time/${id}`, 'DELETE'),
+    onSuccess: () => {
+      invalidateTicketTime();
+      toast({ title: translations.success, description: translations.entryDeleted });
+    },
+    onError,
+  });
+
+  const parseHours = (value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed) || parsed <= 0 || parsed > 24) {
+      toast({ title: translations.error, description: translations.invalidHours, variant: 'destructive' });
+      return null;
+    }
+    return parsed;
+  };
+
+  const handleAdd = () => {
+    const parsed = parseHours(hours);
+    if (parsed === null) return;
+    addEntryMutation.mutate({ hours: parsed, workDate, description });
+  };
+
+  const startEditing = (entry: TimeEntry) => {
+    setEditingId(entry.id);
+    setEditValues({
+      hours: formatHours(entry.minutes),
+      workDate: entry.workDate,
+      description: entry.description || '',
+    });
+  };
+
+  const handleUpdate = (id: number) => {
+    const parsed = parseHours(editValues.hours);
+    if (parsed === null) return;
+    updateEntryMutation.mutate({ id, hours: parsed, workDate: editValues.workDate, description: editValues.description });
+  };
+
+  const handleDelete = (id: number) => {
+    if (window.confirm(translations.deleteConfirm)) {
+      deleteEntryMutation.mutate(id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            {translations.timeEntries}
+          </span>
+          <Badge variant="secondary">
+            {translations.totalLogged}: {formatHours(totalMinutes)} {translations.hours}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Log Time */}
+        <div className="grid grid-cols-1 md:grid-cols-[120px_160px_1fr_auto] gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="time-hours">{translations.hours}</Label>
+            <Input
+              id="time-hours"
+              type="number"
+              min="0.25"
+              max="24"
+              step="0.25"
+              value={hours}
+              onChange={(e) => setHours(e.target.value)}
+              disabled={addEntryMutation.isPending}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="time-date">{translations.workDate}</Label>
+            <Input
+              id="time-date"
+              type="date"
+              max={today}
+              value={workDate}
+              onChange={(e) => setWorkDate(e.target.value)}
+              disabled={addEntryMutation.isPending}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="time-description">{translations.description}</Label>
+            <Input
+              id="time-description"
+              placeholder={translations.descriptionPlaceholder}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={addEntryMutation.isPending}
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={!hours || addEntryMutation.isPending} size="sm">
+            {addEntryMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            {translations.logTime}
+          </Button>
+        </div>
+
+        {/* Entries List */}
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : entries.length > 0 ? (
+            entries.map((entry) => (
+              <div key={entry.id} className="p-3 border rounded-lg">
+                {editingId === entry.id ? (
+                  <div className="grid grid-cols-1 md:grid-cols-[100px_150px_1fr_auto] gap-2 items-center">
+                    <Input
+                      type="number"
+                      min="0.25"
+                      max="24"
+                      step="0.25"
+                      value={editValues.hours}
+                      onChange={(e) => setEditValues({ ...editValues, hours: e.target.value })}
+                    />
+                    <Input
+                      type="date"
+                      max={today}
+                      value={editValues.workDate}
+                      onChange={(e) => setEditValues({ ...editValues, workDate: e.target.value })}
+                    />
+                    <Input
+                      value={editValues.description}
+                      onChange={(e) => setEditValues({ ...editValues, description: e.target.value })}
+                    />
+                    <div className="flex gap-1">
+                      <Button size="icon" variant="ghost" onClick={() => handleUpdate(entry.id)} disabled={updateEntryMutation.isPending}>
+                        <Save className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => setEditingId(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-3">
+                    <Badge variant="outline">{formatHours(entry.minutes)} {translations.hours}</Badge>
+                    <span className="text-sm text-muted-foreground">{entry.workDate}</span>
+                    <span className="text-sm font-medium">{entry.user?.username}</span>
+                    <span className="text-sm flex-1 truncate">{entry.description}</span>
+                    {canModify(entry) && (
+                      <div className="flex gap-1">
+                        <Button size="icon" variant="ghost" onClick={() => startEditing(entry)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleDelete(entry.id)}
+                          disabled={deleteEntryMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <Clock className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>{translations.noEntries}</p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
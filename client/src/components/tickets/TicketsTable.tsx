@@ -38,9 +38,11 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Trash2, CheckCircle, XCircle, Clock, AlertTriangle, User } from 'lucide-react';
+import { Trash2, CheckCircle, XCircle, Clock, AlertTriangle, User, GitMerge } from 'lucide-react';
 import { format } from 'date-fns';
 import { getPriorityColor } from '@/lib/utils/ticketUtils';
+import TicketMergeDialog from './TicketMergeDialog';
+import SLACountdown from './SLACountdown';
 
 
 // Validation utilities
@@ -91,6 +93,7 @@ export default function TicketsTable({
     newStatus: string;
   }>({ open: false, ticketId: null, newStatus: '' });
   const [resolutionNotes, setResolutionNotes] = useState('');
+  const [mergeTicket, setMergeTicket] = useState<any | null>(null);
 
   // FIXED: Enhanced update ticket mutation with comprehensive validation
   const updateTicketMutation = useMutation({
@@ -481,6 +484,7 @@ export default function TicketsTable({
               <TableHead>{t.category || 'Category'}</TableHead>
               <TableHead>{t.priority || 'Priority'}</TableHead>
               <TableHead>{t.status || 'Status'}</TableHead>
+              <TableHead>{t.slaColumn}</TableHead>
               <TableHead>{t.submittedBy || 'Submitted By'}</TableHead>
               <TableHead>{t.assignedTo || 'Assigned To'}</TableHead>
               <TableHead className="w-[120px] text-center">{t.actions || 'Actions'}</TableHead>
@@ -514,6 +518,11 @@ export default function TicketsTable({
                     <Badge variant="outline" className="text-xs">
                       {ticket.ticketId || `TKT-${ticket.id}`}
                     </Badge>
+                    {ticket.mergedIntoId && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {t.mergedInto} {safeTickets.find(candidate => candidate.id === ticket.mergedIntoId)?.ticketId || `#${ticket.mergedIntoId}`}
+                      </div>
+                    )}
                   </TableCell>
                   
                   {/* Date Created */}
@@ -610,6 +619,11 @@ export default function TicketsTable({
                     </Select>
                   </TableCell>
                   
+                  {/* SLA Countdown */}
+                  <TableCell className="min-w-[110px]">
+                    {ticket.mergedIntoId ? '-' : <SLACountdown ticket={ticket} />}
+                  </TableCell>
+                  
                   {/* Submitted By */}
                   <TableCell className="min-w-[150px] text-sm">
                     {ticket.submittedById ? getEmployeeName(ticket.submittedById) : (t.none || 'None')}
@@ -675,6 +689,20 @@ export default function TicketsTable({
                         </Button>
                       )}
                       
+                      {/* Merge Button - Agent+ level, only for tickets that are still open */}
+                      {user && getRoleLevel(user.role) >= getRoleLevel(ROLE_IDS.AGENT) &&
+                        !ticket.mergedIntoId && ticket.status !== 'Closed' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => setMergeTicket(ticket)}
+                          title={t.mergeInto}
+                        >
+                          <GitMerge className="h-3 w-3" />
+                        </Button>
+                      )}
+
                       {/* Delete Button - Manager+ level through RBAC */}
                       {user && getRoleLevel(user.role) >= getRoleLevel(ROLE_IDS.MANAGER) && (
                         <Button
@@ -744,6 +772,13 @@ export default function TicketsTable({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Merge Dialog */}
+      <TicketMergeDialog
+        open={!!mergeTicket}
+        onOpenChange={(open) => !open && setMergeTicket(null)}
+        ticket={mergeTicket}
+      />
     </div>
   );
 }
\ No newline at end of file
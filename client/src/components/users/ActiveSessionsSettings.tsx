@@ -0,0 +1,140 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/use-language';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, MonitorSmartphone, LogOut } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+
+interface ActiveSession {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+}
+
+/**
+ * Browsers and devices signed in to the current user's account, with revocation
+ */
+export function ActiveSessionsSettings() {
+  const { toast } = useToast();
+  const { language } = useLanguage();
+  const queryClient = useQueryClient();
+
+  const t = {
+    title: language === 'English' ? 'Active Sessions' : 'الجلسات النشطة',
+    description: language === 'English'
+      ? 'Devices currently signed in to your account. Revoke any session you do not recognize.'
+      : 'الأجهزة المسجلة الدخول إلى حسابك حالياً. قم بإلغاء أي جلسة لا تعرفها.',
+    current: language === 'English' ? 'This device' : 'هذا الجهاز',
+    ip: language === 'English' ? 'IP address' : 'عنوان IP',
+    lastSeen: language === 'English' ? 'Last seen' : 'آخر نشاط',
+    signedIn: language === 'English' ? 'Signed in' : 'تسجيل الدخول',
+    unknown: language === 'English' ? 'Unknown' : 'غير معروف',
+    revoke: language === 'English' ? 'Revoke' : 'إلغاء',
+    revokeOthers: language === 'English' ? 'Sign out other sessions' : 'تسجيل الخروج من الجلسات الأخرى',
+    revoked: language === 'English' ? 'Session revoked' : 'تم إلغاء الجلسة',
+    othersRevoked: language === 'English' ? 'Other sessions signed out' : 'تم تسجيل الخروج من الجلسات الأخرى',
+    noOthers: language === 'English' ? 'No other active sessions.' : 'لا توجد جلسات نشطة أخرى.',
+    errorTitle: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ['/api/sessions'],
+  });
+
+  const handleError = (error: any) => {
+    toast({ title: t.errorTitle, description: error.message, variant: 'destructive' });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: (sessionId: string) => apiRequest(`/api/sessions/${sessionId}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      toast({ title: t.revoked });
+    },
+    onError: handleError
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: () => apiRequest('/api/sessions/revoke-others', 'POST'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      toast({ title: t.othersRevoked });
+    },
+    onError: handleError
+  });
+
+  const formatDate = (value: string | null) => value ? new Date(value).toLocaleString() : t.unknown;
+  const hasOtherSessions = sessions.some(session => !session.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          {t.title}
+        </CardTitle>
+        <CardDescription>{t.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="divide-y rounded-md border">
+              {sessions.map(session => (
+                <div key={session.id} className="flex flex-wrap items-center justify-between gap-3 p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 font-medium">
+                      {session.device}
+                      {session.current && <Badge>{t.current}</Badge>}
+                    </div>
+                    <div className="grid gap-x-4 text-sm text-muted-foreground sm:grid-cols-3">
+                      <span>{t.ip}: {session.ip || t.unknown}</span>
+                      <span>{t.lastSeen}: {formatDate(session.lastSeenAt)}</span>
+                      <span>{t.signedIn}: {formatDate(session.createdAt)}</span>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => revokeMutation.mutate(session.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      {t.revoke}
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {hasOtherSessions ? (
+              <Button
+                variant="outline"
+                onClick={() => revokeOthersMutation.mutate()}
+                disabled={revokeOthersMutation.isPending}
+              >
+                {revokeOthersMutation.isPending
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <LogOut className="h-4 w-4 mr-2" />}
+                {t.revokeOthers}
+              </Button>
+            ) : (
+              <p className="text-sm text-muted-foreground">{t.noOthers}</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,352 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/use-language';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, KeyRound, Plus, Copy, Trash2, FileJson } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import type { ApiToken } from '@shared/schema';
+
+type ApiTokenItem = Omit<ApiToken, 'tokenHash'>;
+
+const EXPIRY_OPTIONS = ['30', '90', '365', 'never'] as const;
+
+export function ApiTokensSettings() {
+  const { toast } = useToast();
+  const { language } = useLanguage();
+  const queryClient = useQueryClient();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [expiry, setExpiry] = useState<string>('90');
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const t = {
+    title: language === 'English' ? 'API Tokens' : 'رموز الوصول للواجهة البرمجية',
+    description: language === 'English'
+      ? 'Personal tokens for scripts and integrations. Send them as "Authorization: Bearer <token>".'
+      : 'رموز شخصية للبرامج النصية والتكاملات. أرسلها كـ "Authorization: Bearer <token>".',
+    apiDocs: language === 'English' ? 'API reference (OpenAPI)' : 'مرجع الواجهة البرمجية (OpenAPI)',
+    newToken: language === 'English' ? 'New Token' : 'رمز جديد',
+    name: language === 'English' ? 'Name' : 'الاسم',
+    namePlaceholder: language === 'English' ? 'e.g. Nightly asset export' : 'مثال: تصدير الأصول الليلي',
+    expiration: language === 'English' ? 'Expiration' : 'انتهاء الصلاحية',
+    days: language === 'English' ? 'days' : 'يوم',
+    never: language === 'English' ? 'Never' : 'أبداً',
+    scopes: language === 'English' ? 'Scopes' : 'الصلاحيات',
+    scopesHint: language === 'English'
+      ? 'Only permissions your role has can be granted.'
+      : 'يمكن منح الصلاحيات التي يملكها دورك فقط.',
+    prefix: language === 'English' ? 'Token' : 'الرمز',
+    expires: language === 'English' ? 'Expires' : 'ينتهي',
+    lastUsed: language === 'English' ? 'Last used' : 'آخر استخدام',
+    notUsed: language === 'English' ? 'Never used' : 'لم يستخدم',
+    status: language === 'English' ? 'Status' : 'الحالة',
+    active: language === 'English' ? 'Active' : 'نشط',
+    expired: language === 'English' ? 'Expired' : 'منتهي',
+    revoked: language === 'English' ? 'Revoked' : 'ملغى',
+    revoke: language === 'English' ? 'Revoke' : 'إلغاء',
+    confirmRevoke: language === 'English'
+      ? 'Revoke this token? Scripts using it will stop working immediately.'
+      : 'إلغاء هذا الرمز؟ ستتوقف البرامج التي تستخدمه عن العمل فوراً.',
+    noTokens: language === 'English' ? 'You have no API tokens.' : 'ليس لديك رموز وصول.',
+    create: language === 'English' ? 'Create Token' : 'إنشاء الرمز',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    done: language === 'English' ? 'Done' : 'تم',
+    tokenCreated: language === 'English' ? 'Token created' : 'تم إنشاء الرمز',
+    copyNow: language === 'English'
+      ? 'Copy this token now. It will not be shown again.'
+      : 'انسخ هذا الرمز الآن. لن يتم عرضه مرة أخرى.',
+    copied: language === 'English' ? 'Copied to clipboard' : 'تم النسخ',
+    tokenRevoked: language === 'English' ? 'Token revoked' : 'تم إلغاء الرمز',
+    errorTitle: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const scopeLabels: Record<string, string> = language === 'English'
+    ? {
+        system_logs: 'System logs',
+        system_health: 'System health',
+        system_backup: 'Backups',
+        system_config: 'System configuration',
+        manage_users: 'Manage users',
+        view_users: 'View users',
+        edit_user_roles: 'Edit user roles',
+        manage_assets: 'Manage assets',
+        view_assets: 'View assets',
+        assign_assets: 'Check assets out/in',
+        delete_assets: 'Delete assets',
+        manage_employees: 'Manage employees',
+        view_employees: 'View employees',
+        manage_tickets: 'Manage tickets',
+        view_tickets: 'View tickets',
+        assign_tickets: 'Assign tickets',
+        view_reports: 'View reports',
+        export_data: 'Export data',
+        schedule_maintenance: 'Schedule maintenance',
+        view_maintenance: 'View maintenance',
+        view_audit_logs: 'View audit logs',
+        manage_notifications: 'Manage notifications',
+      }
+    : {
+        system_logs: 'سجلات النظام',
+        system_health: 'صحة النظام',
+        system_backup: 'النسخ الاحتياطي',
+        system_config: 'إعدادات النظام',
+        manage_users: 'إدارة المستخدمين',
+        view_users: 'عرض المستخدمين',
+        edit_user_roles: 'تعديل أدوار المستخدمين',
+        manage_assets: 'إدارة الأصول',
+        view_assets: 'عرض الأصول',
+        assign_assets: 'تسليم واستلام الأصول',
+        delete_assets: 'حذف الأصول',
+        manage_employees: 'إدارة الموظفين',
+        view_employees: 'عرض الموظفين',
+        manage_tickets: 'إدارة التذاكر',
+        view_tickets: 'عرض التذاكر',
+        assign_tickets: 'تعيين التذاكر',
+        view_reports: 'عرض التقارير',
+        export_data: 'تصدير البيانات',
+        schedule_maintenance: 'جدولة الصيانة',
+        view_maintenance: 'عرض الصيانة',
+        view_audit_logs: 'عرض سجلات التدقيق',
+        manage_notifications: 'إدارة الإشعارات',
+      };
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenItem[]>({
+    queryKey: ['/api/api-tokens'],
+  });
+
+  const { data: grantableScopes = [] } = useQuery<string[]>({
+    queryKey: ['/api/api-tokens/scopes'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('/api/api-tokens', 'POST', {
+      name,
+      scopes,
+      expiresInDays: expiry === 'never' ? null : parseInt(expiry),
+    }),
+    onSuccess: (token: ApiTokenItem & { token: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-tokens'] });
+      setCreatedToken(token.token);
+    },
+    onError: (error: any) => {
+      toast({ title: t.errorTitle, description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/api-tokens/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-tokens'] });
+      toast({ description: t.tokenRevoked });
+    },
+    onError: (error: any) => {
+      toast({ title: t.errorTitle, description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setName('');
+    setExpiry('90');
+    setScopes([]);
+    setCreatedToken(null);
+  };
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast({ description: t.copied });
+  };
+
+  const formatDate = (value: Date | string | null) =>
+    value ? new Date(value).toLocaleString(language === 'English' ? 'en-US' : 'ar-SA') : null;
+
+  const statusBadge = (token: ApiTokenItem) => {
+    if (token.revokedAt) return <Badge variant="secondary">{t.revoked}</Badge>;
+    if (token.expiresAt && new Date(token.expiresAt) <= new Date()) return <Badge variant="destructive">{t.expired}</Badge>;
+    return <Badge>{t.active}</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            {t.title}
+          </CardTitle>
+          <CardDescription>{t.description}</CardDescription>
+          <a
+            href="/api/v1/openapi.json"
+            target="_blank"
+            rel="noreferrer"
+            className="inline-flex items-center gap-1 text-sm text-primary hover:underline mt-2"
+          >
+            <FileJson className="h-4 w-4" />
+            {t.apiDocs}
+          </a>
+        </div>
+        <Button onClick={() => setDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t.newToken}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : tokens.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">{t.noTokens}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t.name}</TableHead>
+                  <TableHead>{t.prefix}</TableHead>
+                  <TableHead>{t.scopes}</TableHead>
+                  <TableHead>{t.expires}</TableHead>
+                  <TableHead>{t.lastUsed}</TableHead>
+                  <TableHead>{t.status}</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tokens.map(token => (
+                  <TableRow key={token.id}>
+                    <TableCell className="font-medium">{token.name}</TableCell>
+                    <TableCell className="font-mono text-xs">{token.tokenPrefix}…</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {((token.scopes as string[]) || []).map(scope => (
+                          <Badge key={scope} variant="outline" className="text-xs">
+                            {scopeLabels[scope] || scope}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">{formatDate(token.expiresAt) || t.never}</TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {formatDate(token.lastUsedAt) || t.notUsed}
+                      {token.lastUsedIp && <div className="text-xs text-muted-foreground">{token.lastUsedIp}</div>}
+                    </TableCell>
+                    <TableCell>{statusBadge(token)}</TableCell>
+                    <TableCell>
+                      {!token.revokedAt && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            if (confirm(t.confirmRevoke)) revokeMutation.mutate(token.id);
+                          }}
+                          disabled={revokeMutation.isPending}
+                          title={t.revoke}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => { if (!open) closeDialog(); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{createdToken ? t.tokenCreated : t.newToken}</DialogTitle>
+            {createdToken && <DialogDescription>{t.copyNow}</DialogDescription>}
+          </DialogHeader>
+
+          {createdToken ? (
+            <div className="flex gap-2">
+              <Input readOnly value={createdToken} className="font-mono text-xs" dir="ltr" />
+              <Button type="button" variant="outline" onClick={copyToken}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="api-token-name">{t.name}</Label>
+                <Input
+                  id="api-token-name"
+                  value={name}
+                  placeholder={t.namePlaceholder}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label>{t.expiration}</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map(option => (
+                      <SelectItem key={option} value={option}>
+                        {option === 'never' ? t.never : `${option} ${t.days}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>{t.scopes}</Label>
+                <p className="text-xs text-muted-foreground">{t.scopesHint}</p>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  {grantableScopes.map(scope => (
+                    <div key={scope} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`api-token-scope-${scope}`}
+                        checked={scopes.includes(scope)}
+                        onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      />
+                      <Label htmlFor={`api-token-scope-${scope}`} className="text-sm font-normal">
+                        {scopeLabels[scope] || scope}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {createdToken ? (
+              <Button onClick={closeDialog}>{t.done}</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeDialog}>{t.cancel}</Button>
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+                >
+                  {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {t.create}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -20,12 +20,15 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Key } from 'lucide-react';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
 
 // Define schema for password change validation
 const changePasswordSchema = z.object({
   newPassword: z.string().min(6, 'Password must be at least 6 characters'),
   confirmPassword: z.string().min(6, 'Password must be at least 6 characters'),
+  mustChangePassword: z.boolean(),
 }).refine((data) => data.newPassword === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
@@ -35,7 +38,7 @@ interface ChangePasswordDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   user: any;
-  onSubmit: (userId: number, newPassword: string) => void;
+  onSubmit: (userId: number, newPassword: string, mustChangePassword: boolean) => void;
   isSubmitting: boolean;
 }
 
@@ -62,6 +65,9 @@ export default function ChangePasswordDialog({
     cancel: language === 'English' ? 'Cancel' : 'إلغاء',
     changePassword: language === 'English' ? 'Change Password' : 'تغيير كلمة المرور',
     changing: language === 'English' ? 'Changing...' : 'جاري التغيير...',
+    mustChangePassword: language === 'English'
+      ? 'Require a new password at next login'
+      : 'طلب كلمة مرور جديدة عند تسجيل الدخول التالي',
   };
 
   // Initialize form
@@ -70,12 +76,13 @@ export default function ChangePasswordDialog({
     defaultValues: {
       newPassword: '',
       confirmPassword: '',
+      mustChangePassword: true,
     },
   });
 
   // Handle form submission
   const handleSubmit = (values: z.infer<typeof changePasswordSchema>) => {
-    onSubmit(user.id, values.newPassword);
+    onSubmit(user.id, values.newPassword, values.mustChangePassword);
   };
 
   // Reset form when dialog closes
@@ -124,6 +131,7 @@ export default function ChangePasswordDialog({
                   <FormControl>
                     <Input {...field} type="password" />
                   </FormControl>
+                  <PasswordStrengthMeter password={field.value} />
                   <FormMessage />
                 </FormItem>
               )}
@@ -143,6 +151,19 @@ export default function ChangePasswordDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="mustChangePassword"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel className="font-normal">{translations.mustChangePassword}</FormLabel>
+                </FormItem>
+              )}
+            />
+
             <div className="flex justify-end gap-2 pt-4">
               <Button 
                 type="button" 
@@ -4,7 +4,9 @@ import { useLanguage } from '@/hooks/use-language';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { Loader2, Bell } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Bell, Mail } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
 import NotificationSettings from '@/components/notifications/NotificationSettings';
 
@@ -18,6 +20,14 @@ interface NotificationPreferencesData {
   employeeChanges: boolean;
 }
 
+type EmailFrequency = 'off' | 'immediate' | 'hourly' | 'daily';
+
+interface EmailSettingsData {
+  emailChannels: Partial<Record<keyof NotificationPreferencesData, EmailFrequency>>;
+  dailyDigestTime: string;
+  emailLanguage: string;
+}
+
 export function NotificationPreferences() {
   const { toast } = useToast();
   const { language } = useLanguage();
@@ -32,6 +42,12 @@ export function NotificationPreferences() {
     systemAnnouncements: true,
     employeeChanges: true,
   });
+  const [emailSettings, setEmailSettings] = useState<EmailSettingsData>({
+    emailChannels: {},
+    dailyDigestTime: '08:00',
+    emailLanguage: 'English',
+  });
+  const [savingEmail, setSavingEmail] = useState(false);
 
   const t = {
     title: language === 'English' ? 'Notification Preferences' : 'تفضيلات الإشعارات',
@@ -66,6 +82,18 @@ export function NotificationPreferences() {
     employeeChangesDesc: language === 'English' 
       ? 'Changes to employee records (managers/admins only)' 
       : 'تغييرات في سجلات الموظفين (للمديرين/المسؤولين فقط)',
+    emailTitle: language === 'English' ? 'Email Delivery' : 'التسليم عبر البريد الإلكتروني',
+    emailDescription: language === 'English'
+      ? 'Also receive notifications by email, right away or bundled into a digest. Do Not Disturb hours are respected.'
+      : 'استلم الإشعارات أيضًا عبر البريد الإلكتروني فورًا أو مجمعة في ملخص. يتم احترام ساعات عدم الإزعاج.',
+    emailOff: language === 'English' ? 'Off' : 'إيقاف',
+    emailImmediate: language === 'English' ? 'Immediately' : 'فورًا',
+    emailHourly: language === 'English' ? 'Hourly digest' : 'ملخص كل ساعة',
+    emailDaily: language === 'English' ? 'Daily digest' : 'ملخص يومي',
+    dailyDigestTime: language === 'English' ? 'Daily digest time' : 'وقت الملخص اليومي',
+    emailLanguage: language === 'English' ? 'Notification language' : 'لغة الإشعارات',
+    english: language === 'English' ? 'English' : 'الإنجليزية',
+    arabic: language === 'English' ? 'Arabic' : 'العربية',
     saved: language === 'English' ? 'Saved' : 'تم الحفظ',
     errorTitle: language === 'English' ? 'Error' : 'خطأ',
     errorMsg: language === 'English' 
@@ -84,6 +112,11 @@ export function NotificationPreferences() {
       if (response.ok) {
         const data = await response.json();
         setPreferences(data);
+        setEmailSettings({
+          emailChannels: data.emailChannels || {},
+          dailyDigestTime: data.dailyDigestTime || '08:00',
+          emailLanguage: data.emailLanguage || 'English',
+        });
       }
     } catch (error) {
       console.error('Failed to load preferences:', error);
@@ -104,16 +137,11 @@ export function NotificationPreferences() {
     try {
       setSavingKey(key);
       
-      // Save to server with the new preferences
-      const updatedPreferences = {
-        ...preferences,
-        [key]: newValue
-      };
-      
+      // Save only the changed field so settings saved elsewhere (e.g. Do Not Disturb) are kept
       await apiRequest(
         '/api/notifications/preferences',
         'PUT',
-        updatedPreferences
+        { [key]: newValue }
       );
 
       // Show brief success feedback
@@ -138,6 +166,35 @@ export function NotificationPreferences() {
     }
   };
 
+  const handleEmailChange = async (changes: Partial<EmailSettingsData>) => {
+    const previous = emailSettings;
+    const updated = { ...emailSettings, ...changes };
+
+    // Optimistically update UI
+    setEmailSettings(updated);
+
+    try {
+      setSavingEmail(true);
+      await apiRequest('/api/notifications/preferences', 'PUT', changes);
+
+      toast({
+        description: t.saved,
+        duration: 2000,
+      });
+    } catch (error) {
+      // Revert on error
+      setEmailSettings(previous);
+
+      toast({
+        title: t.errorTitle,
+        description: t.errorMsg,
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingEmail(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <Card>
@@ -208,6 +265,75 @@ export function NotificationPreferences() {
           ))}
         </CardContent>
       </Card>
+
+      {/* Email Channel Preferences */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            {t.emailTitle}
+            {savingEmail && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </CardTitle>
+          <CardDescription>{t.emailDescription}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {preferenceItems.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between space-x-2 py-2 border-b">
+              <Label className="text-sm font-medium">{label}</Label>
+              <Select
+                value={emailSettings.emailChannels[key] || 'off'}
+                onValueChange={(value) => handleEmailChange({
+                  emailChannels: { ...emailSettings.emailChannels, [key]: value as EmailFrequency }
+                })}
+                disabled={savingEmail}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">{t.emailOff}</SelectItem>
+                  <SelectItem value="immediate">{t.emailImmediate}</SelectItem>
+                  <SelectItem value="hourly">{t.emailHourly}</SelectItem>
+                  <SelectItem value="daily">{t.emailDaily}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-2">
+            <div className="space-y-2">
+              <Label htmlFor="dailyDigestTime">{t.dailyDigestTime}</Label>
+              <Input
+                id="dailyDigestTime"
+                type="time"
+                defaultValue={emailSettings.dailyDigestTime}
+                onBlur={(e) => {
+                  if (e.target.value && e.target.value !== emailSettings.dailyDigestTime) {
+                    handleEmailChange({ dailyDigestTime: e.target.value });
+                  }
+                }}
+                disabled={savingEmail}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.emailLanguage}</Label>
+              <Select
+                value={emailSettings.emailLanguage}
+                onValueChange={(value) => handleEmailChange({ emailLanguage: value })}
+                disabled={savingEmail}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="English">{t.english}</SelectItem>
+                  <SelectItem value="Arabic">{t.arabic}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
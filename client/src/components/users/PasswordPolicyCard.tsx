@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/use-language';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, LockKeyhole, Unlock } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { PASSWORD_MIN_LENGTH_FLOOR, PASSWORD_MIN_LENGTH_CEILING, type PasswordRules } from '@shared/passwordPolicy';
+
+interface PasswordPolicy extends PasswordRules {
+  historyCount: number;
+  maxAgeDays: number;
+  lockoutThreshold: number;
+  lockoutDurationMinutes: number;
+}
+
+interface LockedUser {
+  userId: number;
+  username: string;
+  email: string | null;
+  failedLoginCount: number;
+  lockedAt: string;
+  lockedUntil: string | null;
+}
+
+type NumberSetting = 'minLength' | 'historyCount' | 'maxAgeDays' | 'lockoutThreshold' | 'lockoutDurationMinutes';
+type RuleSetting = 'requireUppercase' | 'requireLowercase' | 'requireNumber' | 'requireSymbol';
+
+/**
+ * Password rules, expiry and lockout for local accounts, and the accounts locked right now (admins only)
+ */
+export function PasswordPolicyCard() {
+  const { toast } = useToast();
+  const { language } = useLanguage();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<PasswordPolicy | null>(null);
+
+  const t = {
+    title: language === 'English' ? 'Password Policy' : 'سياسة كلمات المرور',
+    description: language === 'English'
+      ? 'Rules for passwords of local accounts. New rules apply to the next password set; expired passwords are changed at the next login. Directory and single sign-on accounts are not affected.'
+      : 'قواعد كلمات مرور الحسابات المحلية. تطبق القواعد الجديدة على كلمة المرور التالية؛ وتُغيّر كلمات المرور المنتهية عند تسجيل الدخول التالي. لا تتأثر حسابات الدليل وتسجيل الدخول الموحد.',
+    minLength: language === 'English' ? 'Minimum length' : 'الحد الأدنى للطول',
+    requireUppercase: language === 'English' ? 'Uppercase letter' : 'حرف كبير',
+    requireLowercase: language === 'English' ? 'Lowercase letter' : 'حرف صغير',
+    requireNumber: language === 'English' ? 'Number' : 'رقم',
+    requireSymbol: language === 'English' ? 'Symbol' : 'رمز',
+    require: language === 'English' ? 'Require' : 'إلزام',
+    historyCount: language === 'English' ? 'Previous passwords that cannot be reused (0 = off)' : 'كلمات المرور السابقة الممنوع إعادة استخدامها (0 = إيقاف)',
+    maxAgeDays: language === 'English' ? 'Maximum age in days (0 = never expires)' : 'الحد الأقصى للعمر بالأيام (0 = لا تنتهي)',
+    lockoutThreshold: language === 'English' ? 'Failed sign-ins before lockout (0 = off)' : 'محاولات الدخول الفاشلة قبل القفل (0 = إيقاف)',
+    lockoutDurationMinutes: language === 'English' ? 'Lockout duration in minutes (0 = until unlocked by an admin)' : 'مدة القفل بالدقائق (0 = حتى يفتحه المسؤول)',
+    save: language === 'English' ? 'Save' : 'حفظ',
+    saved: language === 'English' ? 'Password policy updated' : 'تم تحديث سياسة كلمات المرور',
+    lockedAccounts: language === 'English' ? 'Locked accounts' : 'الحسابات المقفلة',
+    noLockedAccounts: language === 'English' ? 'No accounts are locked.' : 'لا توجد حسابات مقفلة.',
+    failedAttempts: language === 'English' ? 'failed sign-ins' : 'محاولات فاشلة',
+    lockedUntil: language === 'English' ? 'until' : 'حتى',
+    untilUnlocked: language === 'English' ? 'until unlocked' : 'حتى فتحه',
+    unlock: language === 'English' ? 'Unlock' : 'فتح',
+    unlocked: language === 'English' ? 'Account unlocked' : 'تم فتح الحساب',
+    errorTitle: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ['/api/password-policy'],
+  });
+
+  const { data: lockedUsers = [] } = useQuery<LockedUser[]>({
+    queryKey: ['/api/password-policy/locked-users'],
+  });
+
+  useEffect(() => {
+    if (policy) setForm(policy);
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: (values: PasswordPolicy) => apiRequest('/api/password-policy', 'PUT', values),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/password-policy'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/password-policy'] });
+      toast({ title: t.saved });
+    },
+    onError: (error: any) => {
+      toast({ title: t.errorTitle, description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: (userId: number) => apiRequest(`/api/password-policy/users/${userId}/unlock`, 'POST'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/password-policy/locked-users'] });
+      toast({ title: t.unlocked });
+    },
+    onError: (error: any) => {
+      toast({ title: t.errorTitle, description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const setNumber = (key: NumberSetting, value: string) => {
+    setForm(prev => prev && { ...prev, [key]: value === '' ? 0 : parseInt(value, 10) || 0 });
+  };
+
+  const numberField = (key: NumberSetting, min: number, max?: number) => (
+    <div className="space-y-1">
+      <Label htmlFor={`password-policy-${key}`} className="text-sm font-normal">{t[key]}</Label>
+      <Input
+        id={`password-policy-${key}`}
+        type="number"
+        min={min}
+        max={max}
+        value={form?.[key] ?? ''}
+        onChange={(e) => setNumber(key, e.target.value)}
+        disabled={!form}
+      />
+    </div>
+  );
+
+  const formatDate = (value: string) => new Date(value).toLocaleString(language === 'English' ? 'en-US' : 'ar-EG');
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <LockKeyhole className="h-5 w-5" />
+          {t.title}
+        </CardTitle>
+        <CardDescription>{t.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          {numberField('minLength', PASSWORD_MIN_LENGTH_FLOOR, PASSWORD_MIN_LENGTH_CEILING)}
+          <div className="space-y-1">
+            <p className="text-sm">{t.require}</p>
+            <div className="flex flex-wrap items-center gap-4 pt-2">
+              {(['requireUppercase', 'requireLowercase', 'requireNumber', 'requireSymbol'] as RuleSetting[]).map(rule => (
+                <label key={rule} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form?.[rule] ?? false}
+                    onCheckedChange={(checked) => setForm(prev => prev && { ...prev, [rule]: checked === true })}
+                    disabled={!form}
+                  />
+                  {t[rule]}
+                </label>
+              ))}
+            </div>
+          </div>
+          {numberField('historyCount', 0, 24)}
+          {numberField('maxAgeDays', 0)}
+          {numberField('lockoutThreshold', 0)}
+          {numberField('lockoutDurationMinutes', 0)}
+        </div>
+        <div className="flex justify-end">
+          <Button size="sm" onClick={() => form && saveMutation.mutate(form)} disabled={!form || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t.save}
+          </Button>
+        </div>
+
+        <div className="space-y-2 border-t pt-4">
+          <p className="font-medium text-sm">{t.lockedAccounts}</p>
+          {lockedUsers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t.noLockedAccounts}</p>
+          ) : (
+            lockedUsers.map(locked => (
+              <div key={locked.userId} className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm">
+                <div>
+                  <p className="font-medium">{locked.username}</p>
+                  <p className="text-muted-foreground">
+                    {locked.failedLoginCount} {t.failedAttempts} · {formatDate(locked.lockedAt)} – {locked.lockedUntil
+                      ? `${t.lockedUntil} ${formatDate(locked.lockedUntil)}`
+                      : t.untilUnlocked}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => unlockMutation.mutate(locked.userId)}
+                  disabled={unlockMutation.isPending}
+                >
+                  <Unlock className="mr-2 h-4 w-4" />
+                  {t.unlock}
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
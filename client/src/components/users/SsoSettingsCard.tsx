@@ -0,0 +1,145 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/use-language';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { KeyRound } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { getRoleDisplayName } from '@shared/roles.config';
+
+interface SsoSettings {
+  enabled: boolean;
+  providerName: string;
+  issuerUrl: string;
+  clientId: string;
+  redirectUri: string;
+  scopes: string;
+  roleClaim: string;
+  roleMap: Record<string, string>;
+  defaultRole: string;
+  autoProvision: boolean;
+  linkUnverifiedEmail: boolean;
+  passwordLoginEnabled: boolean;
+}
+
+/**
+ * Single sign-on (OIDC) summary and the switch for password sign-in (admins only)
+ */
+export function SsoSettingsCard() {
+  const { toast } = useToast();
+  const { language } = useLanguage();
+  const queryClient = useQueryClient();
+
+  const t = {
+    title: language === 'English' ? 'Single Sign-On' : 'تسجيل الدخول الموحد',
+    description: language === 'English'
+      ? 'OpenID Connect sign-in. Provider settings come from the server environment (OIDC_* variables).'
+      : 'تسجيل الدخول عبر OpenID Connect. تأتي إعدادات المزود من متغيرات بيئة الخادم (OIDC_*).',
+    disabled: language === 'English'
+      ? 'Single sign-on is not enabled. Set OIDC_ENABLED=true and the OIDC_* settings described in the deployment guide, then restart SimpleIT.'
+      : 'تسجيل الدخول الموحد غير مفعّل. اضبط OIDC_ENABLED=true وإعدادات OIDC_* الموضحة في دليل النشر ثم أعد تشغيل SimpleIT.',
+    provider: language === 'English' ? 'Provider' : 'المزود',
+    redirectUri: language === 'English' ? 'Redirect URI' : 'رابط إعادة التوجيه',
+    roleClaim: language === 'English' ? 'Role claim' : 'مطالبة الدور',
+    roleMap: language === 'English' ? 'Mapped values' : 'القيم المرتبطة',
+    noRoleMap: language === 'English' ? 'none (roles are managed in SimpleIT)' : 'لا يوجد (تُدار الأدوار في SimpleIT)',
+    defaultRole: language === 'English' ? 'Default role' : 'الدور الافتراضي',
+    autoProvision: language === 'English' ? 'Accounts created on first sign-in' : 'إنشاء الحسابات عند أول تسجيل دخول',
+    linkUnverifiedEmail: language === 'English'
+      ? 'Existing accounts linked without a verified email'
+      : 'ربط الحسابات الحالية دون بريد إلكتروني موثق',
+    yes: language === 'English' ? 'Yes' : 'نعم',
+    no: language === 'English' ? 'No' : 'لا',
+    passwordLogin: language === 'English' ? 'Allow password sign-in' : 'السماح بتسجيل الدخول بكلمة المرور',
+    passwordLoginHint: language === 'English'
+      ? 'When off, everyone signs in with single sign-on (including LDAP accounts).'
+      : 'عند الإيقاف، يسجل الجميع الدخول عبر تسجيل الدخول الموحد (بما في ذلك حسابات LDAP).',
+    saved: language === 'English' ? 'Sign-in settings updated' : 'تم تحديث إعدادات تسجيل الدخول',
+    errorTitle: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const { data: settings } = useQuery<SsoSettings>({
+    queryKey: ['/api/sso/settings'],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (passwordLoginEnabled: boolean) => apiRequest('/api/sso/settings', 'PUT', { passwordLoginEnabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sso/settings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/options'] });
+      toast({ title: t.saved });
+    },
+    onError: (error: any) => {
+      toast({ title: t.errorTitle, description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const roleName = (role: string) => getRoleDisplayName(role, language === 'English' ? 'en' : 'ar');
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <KeyRound className="h-5 w-5" />
+          {t.title}
+        </CardTitle>
+        <CardDescription>{t.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {settings && !settings.enabled && (
+          <p className="text-sm text-muted-foreground">{t.disabled}</p>
+        )}
+
+        {settings?.enabled && (
+          <div className="grid gap-2 text-sm md:grid-cols-2">
+            <p>
+              <span className="text-muted-foreground">{t.provider}: </span>
+              {settings.providerName} <span className="font-mono break-all">({settings.issuerUrl})</span>
+            </p>
+            <p>
+              <span className="text-muted-foreground">{t.redirectUri}: </span>
+              <span className="font-mono break-all">{settings.redirectUri}</span>
+            </p>
+            <p>
+              <span className="text-muted-foreground">{t.roleClaim}: </span>
+              <span className="font-mono">{settings.roleClaim}</span>
+            </p>
+            <p>
+              <span className="text-muted-foreground">{t.defaultRole}: </span>
+              {roleName(settings.defaultRole)}
+            </p>
+            <div className="md:col-span-2 flex flex-wrap items-center gap-2">
+              <span className="text-muted-foreground">{t.roleMap}:</span>
+              {Object.keys(settings.roleMap).length === 0
+                ? <span>{t.noRoleMap}</span>
+                : Object.entries(settings.roleMap).map(([value, role]) => (
+                    <Badge key={value} variant="outline">{value} → {roleName(role)}</Badge>
+                  ))}
+            </div>
+            <p>
+              <span className="text-muted-foreground">{t.autoProvision}: </span>
+              {settings.autoProvision ? t.yes : t.no}
+            </p>
+            <p>
+              <span className="text-muted-foreground">{t.linkUnverifiedEmail}: </span>
+              {settings.linkUnverifiedEmail ? t.yes : t.no}
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+          <div>
+            <p className="font-medium text-sm">{t.passwordLogin}</p>
+            <p className="text-sm text-muted-foreground">{t.passwordLoginHint}</p>
+          </div>
+          <Switch
+            checked={settings?.passwordLoginEnabled ?? true}
+            onCheckedChange={(checked) => saveMutation.mutate(checked)}
+            disabled={!settings?.enabled || saveMutation.isPending}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/use-language';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { ROLE_IDS, getRoleDisplayName } from '@shared/roles.config';
+
+const ROLES = [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER, ROLE_IDS.AGENT, ROLE_IDS.EMPLOYEE];
+
+/**
+ * Roles whose users must sign in with two-factor authentication (admins only)
+ */
+export function TwoFactorPolicyCard() {
+  const { toast } = useToast();
+  const { language } = useLanguage();
+  const queryClient = useQueryClient();
+  const [requiredRoles, setRequiredRoles] = useState<string[]>([]);
+
+  const t = {
+    title: language === 'English' ? 'Two-Factor Requirement' : 'إلزام المصادقة الثنائية',
+    description: language === 'English'
+      ? 'Users of the selected roles must use an authenticator app to sign in. Those without 2FA set it up at their next login.'
+      : 'يجب على مستخدمي الأدوار المحددة استخدام تطبيق مصادقة لتسجيل الدخول. من لم يُعد المصادقة الثنائية سيُطلب منه إعدادها عند تسجيل الدخول التالي.',
+    save: language === 'English' ? 'Save' : 'حفظ',
+    saved: language === 'English' ? 'Two-factor requirement updated' : 'تم تحديث إلزام المصادقة الثنائية',
+    errorTitle: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const { data: policy } = useQuery<{ requiredRoles: string[] }>({
+    queryKey: ['/api/two-factor/policy'],
+  });
+
+  useEffect(() => {
+    if (policy) setRequiredRoles(policy.requiredRoles);
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest('/api/two-factor/policy', 'PUT', { requiredRoles }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/two-factor/policy'] });
+      toast({ title: t.saved });
+    },
+    onError: (error: any) => {
+      toast({ title: t.errorTitle, description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const toggleRole = (role: string, checked: boolean) => {
+    setRequiredRoles(prev => checked ? [...prev, role] : prev.filter(candidate => candidate !== role));
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ShieldCheck className="h-5 w-5" />
+          {t.title}
+        </CardTitle>
+        <CardDescription>{t.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center gap-4">
+        {ROLES.map(role => (
+          <label key={role} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={requiredRoles.includes(role)}
+              onCheckedChange={(checked) => toggleRole(role, checked === true)}
+              disabled={!policy}
+            />
+            {getRoleDisplayName(role, language === 'English' ? 'en' : 'ar')}
+          </label>
+        ))}
+        <Button size="sm" className="ml-auto" onClick={() => saveMutation.mutate()} disabled={!policy || saveMutation.isPending}>
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t.save}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
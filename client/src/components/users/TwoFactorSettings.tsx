@@ -0,0 +1,300 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/use-language';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Loader2, ShieldCheck, ShieldOff, Copy, RefreshCw } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+interface Enrollment {
+  secret: string;
+  qrCode: string;
+}
+
+/**
+ * Recovery codes shown once after enrollment or regeneration
+ */
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+  const { language } = useLanguage();
+
+  const t = {
+    title: language === 'English' ? 'Recovery codes' : 'رموز الاسترداد',
+    hint: language === 'English'
+      ? 'Store these codes somewhere safe. Each one signs you in once if you lose your authenticator. They will not be shown again.'
+      : 'احفظ هذه الرموز في مكان آمن. كل رمز يسمح بتسجيل الدخول مرة واحدة إذا فقدت تطبيق المصادقة. لن يتم عرضها مرة أخرى.',
+    copy: language === 'English' ? 'Copy codes' : 'نسخ الرموز',
+    copied: language === 'English' ? 'Copied to clipboard' : 'تم النسخ',
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="font-medium">{t.title}</p>
+        <p className="text-sm text-muted-foreground">{t.hint}</p>
+      </div>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted p-3 font-mono text-sm">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          navigator.clipboard.writeText(codes.join('\n'));
+          toast({ title: t.copied });
+        }}
+      >
+        <Copy className="h-4 w-4 mr-2" />
+        {t.copy}
+      </Button>
+    </div>
+  );
+}
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const { language } = useLanguage();
+  const queryClient = useQueryClient();
+
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<'disable' | 'regenerate' | null>(null);
+  const [code, setCode] = useState('');
+
+  const t = {
+    title: language === 'English' ? 'Two-Factor Authentication' : 'المصادقة الثنائية',
+    description: language === 'English'
+      ? 'Require a code from an authenticator app in addition to your password when signing in.'
+      : 'طلب رمز من تطبيق المصادقة بالإضافة إلى كلمة المرور عند تسجيل الدخول.',
+    enabled: language === 'English' ? 'Enabled' : 'مفعّلة',
+    disabled: language === 'English' ? 'Disabled' : 'غير مفعّلة',
+    enabledSince: language === 'English' ? 'Enabled since' : 'مفعّلة منذ',
+    requiredForRole: language === 'English'
+      ? 'Two-factor authentication is required for your role.'
+      : 'المصادقة الثنائية مطلوبة لدورك.',
+    codesRemaining: language === 'English' ? 'Unused recovery codes' : 'رموز الاسترداد غير المستخدمة',
+    enable: language === 'English' ? 'Enable Two-Factor' : 'تفعيل المصادقة الثنائية',
+    scan: language === 'English'
+      ? 'Scan this QR code with an authenticator app (Google Authenticator, Microsoft Authenticator...), then enter the 6-digit code it shows.'
+      : 'امسح رمز QR هذا بتطبيق مصادقة (Google Authenticator أو Microsoft Authenticator...) ثم أدخل الرمز المكون من 6 أرقام.',
+    manualKey: language === 'English' ? 'Or enter this key manually:' : 'أو أدخل هذا المفتاح يدوياً:',
+    code: language === 'English' ? 'Verification Code' : 'رمز التحقق',
+    confirm: language === 'English' ? 'Confirm' : 'تأكيد',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    done: language === 'English' ? 'Done' : 'تم',
+    disable: language === 'English' ? 'Disable' : 'إلغاء التفعيل',
+    regenerate: language === 'English' ? 'New Recovery Codes' : 'رموز استرداد جديدة',
+    disableTitle: language === 'English' ? 'Disable two-factor authentication' : 'إلغاء المصادقة الثنائية',
+    regenerateTitle: language === 'English' ? 'Generate new recovery codes' : 'إنشاء رموز استرداد جديدة',
+    codePrompt: language === 'English'
+      ? 'Enter a code from your authenticator app or a recovery code.'
+      : 'أدخل رمزاً من تطبيق المصادقة أو رمز استرداد.',
+    regenerateWarning: language === 'English' ? 'Your current recovery codes will stop working.' : 'ستتوقف رموز الاسترداد الحالية عن العمل.',
+    enabledToast: language === 'English' ? 'Two-factor authentication enabled' : 'تم تفعيل المصادقة الثنائية',
+    disabledToast: language === 'English' ? 'Two-factor authentication disabled' : 'تم إلغاء المصادقة الثنائية',
+    errorTitle: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/two-factor/status'],
+  });
+
+  const handleError = (error: any) => {
+    toast({ title: t.errorTitle, description: error.message, variant: 'destructive' });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => apiRequest('/api/two-factor/setup', 'POST'),
+    onSuccess: (result: Enrollment) => {
+      setEnrollment(result);
+      setCode('');
+    },
+    onError: handleError
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: () => apiRequest('/api/two-factor/enable', 'POST', { code }),
+    onSuccess: (result: { recoveryCodes: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/two-factor/status'] });
+      setEnrollment(null);
+      setCode('');
+      setRecoveryCodes(result.recoveryCodes);
+      toast({ title: t.enabledToast });
+    },
+    onError: handleError
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: () => apiRequest(
+      pendingAction === 'disable' ? '/api/two-factor/disable' : '/api/two-factor/recovery-codes',
+      'POST',
+      { code }
+    ),
+    onSuccess: (result: { recoveryCodes?: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/two-factor/status'] });
+      if (result.recoveryCodes) {
+        setRecoveryCodes(result.recoveryCodes);
+      } else {
+        toast({ title: t.disabledToast });
+      }
+      setPendingAction(null);
+      setCode('');
+    },
+    onError: handleError
+  });
+
+  if (isLoading || !status) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          {t.title}
+          <Badge variant={status.enabled ? 'default' : 'secondary'}>
+            {status.enabled ? t.enabled : t.disabled}
+          </Badge>
+        </CardTitle>
+        <CardDescription>{t.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status.required && (
+          <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+            {t.requiredForRole}
+          </p>
+        )}
+
+        {recoveryCodes ? (
+          <div className="space-y-4">
+            <RecoveryCodesList codes={recoveryCodes} />
+            <Button onClick={() => setRecoveryCodes(null)}>{t.done}</Button>
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <div className="grid gap-1 text-sm">
+              {status.enabledAt && (
+                <p>
+                  <span className="text-muted-foreground">{t.enabledSince}: </span>
+                  {new Date(status.enabledAt).toLocaleDateString()}
+                </p>
+              )}
+              <p>
+                <span className="text-muted-foreground">{t.codesRemaining}: </span>
+                {status.recoveryCodesRemaining}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setPendingAction('regenerate')}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                {t.regenerate}
+              </Button>
+              {!status.required && (
+                <Button variant="outline" className="text-red-600 hover:text-red-700" onClick={() => setPendingAction('disable')}>
+                  <ShieldOff className="h-4 w-4 mr-2" />
+                  {t.disable}
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : enrollment ? (
+          <form
+            className="space-y-4 max-w-sm"
+            onSubmit={(e) => {
+              e.preventDefault();
+              enableMutation.mutate();
+            }}
+          >
+            <p className="text-sm text-muted-foreground">{t.scan}</p>
+            <img src={enrollment.qrCode} alt="QR code" className="h-48 w-48 border rounded-md" />
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">{t.manualKey}</p>
+              <code className="text-xs font-mono break-all bg-muted px-2 py-1 rounded">{enrollment.secret}</code>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-enable-code">{t.code}</Label>
+              <Input
+                id="two-factor-enable-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                inputMode="numeric"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={enableMutation.isPending || !code.trim()}>
+                {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t.confirm}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEnrollment(null)}>
+                {t.cancel}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t.enable}
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={pendingAction !== null} onOpenChange={(open) => {
+        if (!open) {
+          setPendingAction(null);
+          setCode('');
+        }
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pendingAction === 'disable' ? t.disableTitle : t.regenerateTitle}</DialogTitle>
+            <DialogDescription>
+              {t.codePrompt}
+              {pendingAction === 'regenerate' && ` ${t.regenerateWarning}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-action-code">{t.code}</Label>
+            <Input
+              id="two-factor-action-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>{t.cancel}</Button>
+            <Button
+              variant={pendingAction === 'disable' ? 'destructive' : 'default'}
+              onClick={() => actionMutation.mutate()}
+              disabled={actionMutation.isPending || !code.trim()}
+            >
+              {actionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t.confirm}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
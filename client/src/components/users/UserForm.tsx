@@ -4,6 +4,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useLanguage } from '@/hooks/use-language';
 import { useAuth } from '@/lib/authContext';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
 import { ROLE_IDS, normalizeRoleId } from '@shared/roles.config';
 import {
   Form,
@@ -204,6 +205,7 @@ export default function UserForm({ onSubmit, initialData, isSubmitting }: UserFo
                 <FormControl>
                   <Input {...field} type="password" />
                 </FormControl>
+                <PasswordStrengthMeter password={field.value ?? ''} />
                 <FormMessage />
               </FormItem>
             )}
@@ -28,6 +28,8 @@ import {
   UserX,
   UserCheck,
   Code,
+  ShieldOff,
+  LogOut,
 } from 'lucide-react';
 import {
   AlertDialog,
@@ -48,12 +50,17 @@ interface UsersTableProps {
   onDelete: (userId: number) => void;
   onToggleActive: (userId: number, isActive: boolean) => void;
   onChangePassword: (user: any) => void;
+  twoFactorUserIds?: Set<number>;
+  onResetTwoFactor?: (userId: number) => void; // Admins only
+  onForceLogout?: (userId: number) => void; // Admins only
 }
 
-export default function UsersTable({ users, onEdit, onDelete, onToggleActive, onChangePassword }: UsersTableProps) {
+export default function UsersTable({ users, onEdit, onDelete, onToggleActive, onChangePassword, twoFactorUserIds, onResetTwoFactor, onForceLogout }: UsersTableProps) {
   const { language } = useLanguage();
   const { user: currentUser } = useAuth();
   const [userToDelete, setUserToDelete] = useState<any>(null);
+  const [userToResetTwoFactor, setUserToResetTwoFactor] = useState<any>(null);
+  const [userToForceLogout, setUserToForceLogout] = useState<any>(null);
   
   const isSuperAdmin = normalizeRoleId(currentUser?.role) === ROLE_IDS.SUPER_ADMIN;
   
@@ -82,6 +89,18 @@ export default function UsersTable({ users, onEdit, onDelete, onToggleActive, on
     deactivate: language === 'English' ? 'Deactivate' : 'إلغاء تفعيل',
     activate: language === 'English' ? 'Activate' : 'تفعيل',
     changePassword: language === 'English' ? 'Change Password' : 'تغيير كلمة المرور',
+    twoFactor: language === 'English' ? '2FA' : 'ثنائية',
+    resetTwoFactor: language === 'English' ? 'Reset 2FA' : 'إعادة تعيين المصادقة الثنائية',
+    confirmResetTwoFactor: language === 'English' ? 'Reset two-factor authentication' : 'إعادة تعيين المصادقة الثنائية',
+    resetTwoFactorWarning: language === 'English'
+      ? 'The user\'s authenticator and recovery codes will stop working. They can set up 2FA again from their profile (or at their next login if their role requires it).'
+      : 'سيتوقف تطبيق المصادقة ورموز الاسترداد الخاصة بالمستخدم عن العمل. يمكنه إعداد المصادقة الثنائية مجدداً من ملفه الشخصي (أو عند تسجيل الدخول التالي إذا كان دوره يتطلبها).',
+    reset: language === 'English' ? 'Reset' : 'إعادة تعيين',
+    forceLogout: language === 'English' ? 'Force Logout' : 'فرض تسجيل الخروج',
+    confirmForceLogout: language === 'English' ? 'Sign out this user everywhere' : 'تسجيل خروج المستخدم من جميع الأجهزة',
+    forceLogoutWarning: language === 'English'
+      ? 'All of the user\'s active sessions will end immediately. They can sign in again with their credentials.'
+      : 'ستنتهي جميع الجلسات النشطة للمستخدم فوراً. يمكنه تسجيل الدخول مجدداً باستخدام بياناته.',
     confirmDelete: language === 'English' ? 'Confirm Deletion' : 'تأكيد الحذف',
     deleteWarning: language === 'English' 
       ? 'Are you sure you want to delete this user? This action cannot be undone.' 
@@ -189,7 +208,17 @@ export default function UsersTable({ users, onEdit, onDelete, onToggleActive, on
                 </TableCell>
                 <TableCell>{user.email}</TableCell>
                 <TableCell>{getRoleBadge(user.role)}</TableCell>
-                <TableCell>{getStatusBadge(user.isActive)}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    {getStatusBadge(user.isActive)}
+                    {twoFactorUserIds?.has(user.id) && (
+                      <Badge variant="outline" className="bg-sky-100 text-sky-800 border-sky-200">
+                        <ShieldCheck className="h-3.5 w-3.5 mr-1" />
+                        {translations.twoFactor}
+                      </Badge>
+                    )}
+                  </div>
+                </TableCell>
                 <TableCell className="text-right">
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
@@ -207,6 +236,18 @@ export default function UsersTable({ users, onEdit, onDelete, onToggleActive, on
                         <Key className="h-4 w-4 mr-2" />
                         {translations.changePassword}
                       </DropdownMenuItem>
+                      {onResetTwoFactor && twoFactorUserIds?.has(user.id) && (
+                        <DropdownMenuItem onClick={() => setUserToResetTwoFactor(user)}>
+                          <ShieldOff className="h-4 w-4 mr-2" />
+                          {translations.resetTwoFactor}
+                        </DropdownMenuItem>
+                      )}
+                      {onForceLogout && user.id !== currentUser?.id && (
+                        <DropdownMenuItem onClick={() => setUserToForceLogout(user)}>
+                          <LogOut className="h-4 w-4 mr-2" />
+                          {translations.forceLogout}
+                        </DropdownMenuItem>
+                      )}
                       <DropdownMenuItem 
                         onClick={() => onToggleActive(user.id, !user.isActive)}
                         className={user.isActive ? "text-orange-600 focus:text-orange-600" : "text-green-600 focus:text-green-600"}
@@ -264,6 +305,52 @@ export default function UsersTable({ users, onEdit, onDelete, onToggleActive, on
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <AlertDialog open={!!userToResetTwoFactor} onOpenChange={(open) => !open && setUserToResetTwoFactor(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{translations.confirmResetTwoFactor}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {translations.resetTwoFactorWarning}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{translations.cancel}</AlertDialogCancel>
+            <AlertDialogAction 
+              onClick={() => {
+                onResetTwoFactor?.(userToResetTwoFactor.id);
+                setUserToResetTwoFactor(null);
+              }}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {translations.reset}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!userToForceLogout} onOpenChange={(open) => !open && setUserToForceLogout(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{translations.confirmForceLogout}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {translations.forceLogoutWarning}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{translations.cancel}</AlertDialogCancel>
+            <AlertDialogAction 
+              onClick={() => {
+                onForceLogout?.(userToForceLogout.id);
+                setUserToForceLogout(null);
+              }}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {translations.forceLogout}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import { useAuth } from '@/lib/authContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { hasPermission } from '@/components/auth/RoleGuard';
+import { ROLE_IDS } from '@shared/roles.config';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Pencil, Trash2 } from 'lucide-react';
+
+export interface Vendor {
+  id: number;
+  name: string;
+  website: string | null;
+  contactName: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  notes: string | null;
+  isActive: boolean;
+  licenseCount: number;
+  purchaseOrderCount: number;
+}
+
+interface VendorsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after a vendor is added or renamed, for lists that show vendor names
+  onVendorsChanged?: () => void;
+}
+
+const emptyVendorForm = { name: '', website: '', contactName: '', contactEmail: '', contactPhone: '', notes: '' };
+
+/**
+ * Vendor list and editor shared by the licenses and purchase orders pages;
+ * vendors already referenced can only be deactivated
+ */
+export default function VendorsDialog({ open, onOpenChange, onVendorsChanged }: VendorsDialogProps) {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [vendorForm, setVendorForm] = useState(emptyVendorForm);
+  const [editingVendorId, setEditingVendorId] = useState<number | null>(null);
+
+  const isManager = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER]);
+
+  const t = {
+    vendors: language === 'English' ? 'Vendors' : 'الموردون',
+    vendorsDescription: language === 'English'
+      ? 'Vendors with licenses or purchase orders can only be deactivated'
+      : 'لا يمكن سوى إلغاء تفعيل الموردين الذين لديهم تراخيص أو أوامر شراء',
+    vendorName: language === 'English' ? 'Name' : 'الاسم',
+    website: language === 'English' ? 'Website' : 'الموقع الإلكتروني',
+    contactName: language === 'English' ? 'Contact Name' : 'اسم جهة الاتصال',
+    contactEmail: language === 'English' ? 'Contact Email' : 'البريد الإلكتروني',
+    contactPhone: language === 'English' ? 'Contact Phone' : 'الهاتف',
+    contact: language === 'English' ? 'Contact' : 'جهة الاتصال',
+    licenses: language === 'English' ? 'Licenses' : 'التراخيص',
+    purchaseOrders: language === 'English' ? 'Purchase Orders' : 'أوامر الشراء',
+    active: language === 'English' ? 'Active' : 'نشط',
+    actions: language === 'English' ? 'Actions' : 'الإجراءات',
+    addVendor: language === 'English' ? 'Add Vendor' : 'إضافة مورد',
+    updateVendor: language === 'English' ? 'Update Vendor' : 'تحديث المورد',
+    noVendors: language === 'English' ? 'No vendors yet' : 'لا يوجد موردون بعد',
+    confirmDeleteVendor: (name: string) => language === 'English' ? `Delete vendor ${name}?` : `هل تريد حذف المورد ${name}؟`,
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    error: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ['/api/vendors'],
+  });
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  const refreshVendors = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/vendors')
+    });
+  };
+
+  const resetForm = () => {
+    setVendorForm(emptyVendorForm);
+    setEditingVendorId(null);
+  };
+
+  const vendorMutation = useMutation({
+    mutationFn: () => editingVendorId
+      ? apiRequest(`/api/vendors/${editingVendorId}`, 'PUT', vendorForm)
+      : apiRequest('/api/vendors', 'POST', vendorForm),
+    onSuccess: () => {
+      refreshVendors();
+      onVendorsChanged?.();
+      resetForm();
+    },
+    onError: handleError
+  });
+
+  const vendorStatusMutation = useMutation({
+    mutationFn: (vendor: Vendor) => apiRequest(`/api/vendors/${vendor.id}`, 'PUT', {
+      name: vendor.name,
+      website: vendor.website,
+      contactName: vendor.contactName,
+      contactEmail: vendor.contactEmail,
+      contactPhone: vendor.contactPhone,
+      notes: vendor.notes,
+      isActive: !vendor.isActive,
+    }),
+    onSuccess: refreshVendors,
+    onError: handleError
+  });
+
+  const deleteVendorMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/vendors/${id}`, 'DELETE'),
+    onSuccess: refreshVendors,
+    onError: handleError
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { onOpenChange(next); resetForm(); }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t.vendors}</DialogTitle>
+          <DialogDescription>{t.vendorsDescription}</DialogDescription>
+        </DialogHeader>
+
+        {isManager && (
+          <div className="grid gap-3 md:grid-cols-3 rounded-md border p-3">
+            <Input value={vendorForm.name} onChange={(e) => setVendorForm({ ...vendorForm, name: e.target.value })} placeholder={t.vendorName} />
+            <Input value={vendorForm.website} onChange={(e) => setVendorForm({ ...vendorForm, website: e.target.value })} placeholder={t.website} />
+            <Input value={vendorForm.contactName} onChange={(e) => setVendorForm({ ...vendorForm, contactName: e.target.value })} placeholder={t.contactName} />
+            <Input value={vendorForm.contactEmail} onChange={(e) => setVendorForm({ ...vendorForm, contactEmail: e.target.value })} placeholder={t.contactEmail} />
+            <Input value={vendorForm.contactPhone} onChange={(e) => setVendorForm({ ...vendorForm, contactPhone: e.target.value })} placeholder={t.contactPhone} />
+            <div className="flex gap-2">
+              {editingVendorId && (
+                <Button variant="outline" onClick={resetForm}>{t.cancel}</Button>
+              )}
+              <Button className="flex-1" disabled={!vendorForm.name.trim() || vendorMutation.isPending} onClick={() => vendorMutation.mutate()}>
+                {editingVendorId ? t.updateVendor : t.addVendor}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {vendors.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">{t.noVendors}</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t.vendorName}</TableHead>
+                <TableHead>{t.contact}</TableHead>
+                <TableHead>{t.licenses}</TableHead>
+                <TableHead>{t.purchaseOrders}</TableHead>
+                <TableHead>{t.active}</TableHead>
+                {isManager && <TableHead className="text-right">{t.actions}</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {vendors.map(vendor => (
+                <TableRow key={vendor.id}>
+                  <TableCell>
+                    <div className="font-medium">{vendor.name}</div>
+                    {vendor.website && <div className="text-xs text-muted-foreground">{vendor.website}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {[vendor.contactName, vendor.contactEmail, vendor.contactPhone].filter(Boolean).join(' · ') || '-'}
+                  </TableCell>
+                  <TableCell>{vendor.licenseCount}</TableCell>
+                  <TableCell>{vendor.purchaseOrderCount}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={vendor.isActive}
+                      disabled={!isManager || vendorStatusMutation.isPending}
+                      onCheckedChange={() => vendorStatusMutation.mutate(vendor)}
+                    />
+                  </TableCell>
+                  {isManager && (
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setEditingVendorId(vendor.id);
+                          setVendorForm({
+                            name: vendor.name,
+                            website: vendor.website || '',
+                            contactName: vendor.contactName || '',
+                            contactEmail: vendor.contactEmail || '',
+                            contactPhone: vendor.contactPhone || '',
+                            notes: vendor.notes || '',
+                          });
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={vendor.licenseCount > 0 || vendor.purchaseOrderCount > 0 || deleteVendorMutation.isPending}
+                        onClick={() => window.confirm(t.confirmDeleteVendor(vendor.name)) && deleteVendorMutation.mutate(vendor.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
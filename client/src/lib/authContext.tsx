@@ -16,12 +16,26 @@ type User = {
   isActive: boolean;
 };
 
+// POST /api/login answers this instead of signing in when a second factor is needed
+export type TwoFactorChallenge = {
+  twoFactorRequired: true;
+  enrollmentRequired: boolean;
+};
+
+// ...or this when the password expired or an admin requires a new one (POST /api/login/change-password)
+export type PasswordChangeChallenge = {
+  passwordChangeRequired: true;
+  reason: 'expired' | 'reset';
+  recoveryCodes?: string[]; // Shown first when the login enrolled two-factor authentication
+};
+
 type AuthContextType = {
   user: User | null;
   isLoading: boolean;
   isFetching: boolean;
   hasCheckedAuth: boolean; // Flag to indicate if initial auth check is complete
-  login: (username: string, password: string) => Promise<void>;
+  login: (username: string, password: string) => Promise<User | TwoFactorChallenge | PasswordChangeChallenge | null>;
+  completeLogin: () => Promise<User | null>; // After the two-factor or password-change step signed the session in
   logout: () => Promise<void>;
   hasAccess: (minRoleLevel: number) => boolean;
   hasPermission: (permission: string) => boolean;
@@ -55,9 +69,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const result = await apiRequest('/api/login', 'POST', { username, password });
       return result;
     },
-    onSuccess: async () => {
+    onSuccess: async (result) => {
       // Invalidate to trigger refetch
-      queryClient.invalidateQueries({ queryKey: ['/api/me'] });
+      if (!result?.twoFactorRequired && !result?.passwordChangeRequired) {
+        queryClient.invalidateQueries({ queryKey: ['/api/me'] });
+      }
     },
   });
 
@@ -93,18 +109,32 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [isUserLoading]);
 
+  const completeLogin = async () => {
+    // After successful login, fetch user data and wait for it
+    return await queryClient.fetchQuery<User | null>({ 
+      queryKey: ['/api/me'],
+      retry: false 
+    });
+  };
+
   const login = async (username: string, password: string) => {
     try {
       setIsLoading(true);
       
       // Perform the login request
-      await loginMutation.mutateAsync({ username, password });
+      const result = await loginMutation.mutateAsync({ username, password });
       
-      // After successful login, fetch user data and wait for it
-      const userData = await queryClient.fetchQuery({ 
-        queryKey: ['/api/me'],
-        retry: false 
-      });
+      // The session is not signed in until the second factor is verified
+      if (result?.twoFactorRequired) {
+        setIsLoading(false);
+        return result as TwoFactorChallenge;
+      }
+      if (result?.passwordChangeRequired) {
+        setIsLoading(false);
+        return result as PasswordChangeChallenge;
+      }
+      
+      const userData = await completeLogin();
       
       setIsLoading(false);
       return userData;
@@ -135,7 +165,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user: user || null, isLoading, isFetching: isUserFetching, hasCheckedAuth, login, logout, hasAccess, hasPermission }}>
+    <AuthContext.Provider value={{ user: user || null, isLoading, isFetching: isUserFetching, hasCheckedAuth, login, completeLogin, logout, hasAccess, hasPermission }}>
       {children}
     </AuthContext.Provider>
   );
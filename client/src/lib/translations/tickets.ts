@@ -179,11 +179,39 @@ export interface TicketTranslations {
   history: string;
   noComments: string;
   commentAdded: string;
+  timeTracking: string;
+  timeSpentRollupHint: string;
+
+  // Merge
+  mergeInto: string;
+  mergeTicketTitle: string;
+  mergeTicketDescription: string;
+  mergeTargetTicket: string;
+  selectTargetTicket: string;
+  mergeTickets: string;
+  ticketsMerged: string;
+  mergedInto: string;
+  noMergeTargets: string;
   
   // SLA
   slaCompliant: string;
   slaAtRisk: string;
   slaBreached: string;
+  slaMet: string;
+  slaPaused: string;
+  slaColumn: string;
+  slaOverdue: string;
+  responseDue: string;
+  resolutionDue: string;
+  pauseSla: string;
+  resumeSla: string;
+  slaPausedMessage: string;
+  slaResumedMessage: string;
+
+  // Attachments
+  attachments: string;
+  attachmentsUploaded: string;
+  attachmentUploadFailed: string;
   
   // Responsive
   showing: string;
@@ -379,11 +407,39 @@ export const ticketTranslations = {
     history: 'History',
     noComments: 'No comments yet',
     commentAdded: 'Comment added successfully',
+    timeTracking: 'Time',
+    timeSpentRollupHint: 'Calculated from logged time entries',
+
+    // Merge
+    mergeInto: 'Merge into…',
+    mergeTicketTitle: 'Merge Ticket',
+    mergeTicketDescription: 'Comments, history and logged time will move to the selected ticket. This ticket will be closed and its submitter notified.',
+    mergeTargetTicket: 'Merge into ticket',
+    selectTargetTicket: 'Select the ticket to keep',
+    mergeTickets: 'Merge',
+    ticketsMerged: 'Tickets merged successfully',
+    mergedInto: 'Merged into',
+    noMergeTargets: 'No open tickets available to merge into',
     
     // SLA
     slaCompliant: 'SLA Compliant',
     slaAtRisk: 'SLA At Risk',
     slaBreached: 'SLA Breached',
+    slaMet: 'SLA Met',
+    slaPaused: 'SLA Paused',
+    slaColumn: 'SLA',
+    slaOverdue: 'overdue',
+    responseDue: 'Response due',
+    resolutionDue: 'Resolution due',
+    pauseSla: 'Waiting on requester',
+    resumeSla: 'Resume SLA',
+    slaPausedMessage: 'SLA clock paused while waiting on the requester',
+    slaResumedMessage: 'SLA clock resumed',
+
+    // Attachments
+    attachments: 'Attachments',
+    attachmentsUploaded: 'Files attached',
+    attachmentUploadFailed: 'Failed to upload attachments',
     
     // Responsive
     showing: 'Showing',
@@ -578,11 +634,39 @@ export const ticketTranslations = {
     history: 'التاريخ',
     noComments: 'لا توجد تعليقات بعد',
     commentAdded: 'تم إضافة التعليق بنجاح',
+    timeTracking: 'الوقت',
+    timeSpentRollupHint: 'يُحسب من سجلات الوقت المسجلة',
+
+    // Merge
+    mergeInto: 'دمج في…',
+    mergeTicketTitle: 'دمج التذكرة',
+    mergeTicketDescription: 'سيتم نقل التعليقات والسجل والوقت المسجل إلى التذكرة المحددة. سيتم إغلاق هذه التذكرة وإشعار مقدمها.',
+    mergeTargetTicket: 'دمج في التذكرة',
+    selectTargetTicket: 'اختر التذكرة التي سيتم الاحتفاظ بها',
+    mergeTickets: 'دمج',
+    ticketsMerged: 'تم دمج التذاكر بنجاح',
+    mergedInto: 'تم الدمج في',
+    noMergeTargets: 'لا توجد تذاكر مفتوحة متاحة للدمج',
     
     // SLA
     slaCompliant: 'متوافق مع مستوى الخدمة',
     slaAtRisk: 'مستوى الخدمة في خطر',
     slaBreached: 'تم انتهاك مستوى الخدمة',
+    slaMet: 'تم تحقيق مستوى الخدمة',
+    slaPaused: 'مستوى الخدمة متوقف مؤقتاً',
+    slaColumn: 'مستوى الخدمة',
+    slaOverdue: 'متأخر',
+    responseDue: 'موعد الاستجابة',
+    resolutionDue: 'موعد الحل',
+    pauseSla: 'بانتظار رد مقدم الطلب',
+    resumeSla: 'استئناف مستوى الخدمة',
+    slaPausedMessage: 'تم إيقاف مؤقت مستوى الخدمة بانتظار رد مقدم الطلب',
+    slaResumedMessage: 'تم استئناف مؤقت مستوى الخدمة',
+
+    // Attachments
+    attachments: 'المرفقات',
+    attachmentsUploaded: 'تم إرفاق الملفات',
+    attachmentUploadFailed: 'فشل رفع المرفقات',
     
     // Responsive
     showing: 'عرض',
@@ -0,0 +1,205 @@
+/**
+ * Approval Response Page
+ *
+ * Opened from the approve/reject links in approval emails; works without signing in.
+ * The link only preselects the decision - nothing is recorded until the approver confirms,
+ * so mail scanners following the link can't decide for them.
+ */
+
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CheckCircle2, AlertCircle, Loader2, XCircle } from 'lucide-react';
+import { useLanguage } from '@/hooks/use-language';
+
+interface ApprovalLinkDetails {
+  approver: string;
+  actingForName: string | null;
+  requestType: 'upgrade' | 'purchase_order' | 'service_request';
+  title: string;
+  amount: string | null;
+  requestedByName: string | null;
+  createdAt: string;
+  stepName: string | null;
+}
+
+export default function ApprovalResponse() {
+  const { language } = useLanguage();
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get('token') || '';
+  const [decision, setDecision] = useState<'approve' | 'reject'>(params.get('action') === 'reject' ? 'reject' : 'approve');
+  const [comments, setComments] = useState('');
+  const [decidedStatus, setDecidedStatus] = useState<string | null>(null);
+
+  const translations = {
+    title: language === 'English' ? 'Approval Request' : 'طلب موافقة',
+    description: (name: string) => language === 'English' ? `Sent to ${name}` : `مرسل إلى ${name}`,
+    onBehalfOf: (name: string) => language === 'English' ? `Deciding on behalf of ${name}` : `القرار نيابة عن ${name}`,
+    requestType: {
+      upgrade: language === 'English' ? 'Upgrade request' : 'طلب ترقية',
+      purchase_order: language === 'English' ? 'Purchase order' : 'أمر شراء',
+      service_request: language === 'English' ? 'Service request' : 'طلب خدمة',
+    },
+    requestedBy: language === 'English' ? 'Requested by' : 'مقدم الطلب',
+    amount: language === 'English' ? 'Amount' : 'المبلغ',
+    step: language === 'English' ? 'Your step' : 'خطوتك',
+    approve: language === 'English' ? 'Approve' : 'موافقة',
+    reject: language === 'English' ? 'Reject' : 'رفض',
+    comments: language === 'English' ? 'Comments' : 'ملاحظات',
+    reasonRequired: language === 'English' ? 'A reason is required to reject' : 'السبب مطلوب للرفض',
+    confirmApprove: language === 'English' ? 'Confirm Approval' : 'تأكيد الموافقة',
+    confirmReject: language === 'English' ? 'Confirm Rejection' : 'تأكيد الرفض',
+    submitting: language === 'English' ? 'Submitting...' : 'جاري الإرسال...',
+    validating: language === 'English' ? 'Checking your approval link...' : 'جاري التحقق من رابط الموافقة...',
+    invalidLink: language === 'English' ? 'Link No Longer Valid' : 'الرابط لم يعد صالحاً',
+    doneTitle: language === 'English' ? 'Decision Recorded' : 'تم تسجيل القرار',
+    doneApproved: language === 'English'
+      ? 'Thank you. Your approval was recorded; the request moves on to the next step if there is one.'
+      : 'شكراً لك. تم تسجيل موافقتك؛ ينتقل الطلب إلى الخطوة التالية إن وجدت.',
+    doneRejected: language === 'English'
+      ? 'Thank you. The request was rejected and the requester will be notified.'
+      : 'شكراً لك. تم رفض الطلب وسيتم إشعار مقدم الطلب.',
+  };
+
+  const { data: details, isLoading, error } = useQuery<ApprovalLinkDetails>({
+    queryKey: ['approval-link', token],
+    queryFn: async () => {
+      if (!token) throw new Error('No token provided');
+      const response = await fetch(`/api/approval-links/${encodeURIComponent(token)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Invalid approval link');
+      }
+      return data;
+    },
+    enabled: !!token,
+    retry: false,
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/approval-links/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approved: decision === 'approve', comments }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to record the decision');
+      }
+      return data;
+    },
+    onSuccess: () => setDecidedStatus(decision === 'approve' ? 'approved' : 'rejected'),
+  });
+
+  const wrapper = (content: React.ReactNode) => (
+    <div
+      className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4"
+      dir={language === 'Arabic' ? 'rtl' : 'ltr'}
+    >
+      <Card className="w-full max-w-md">{content}</Card>
+    </div>
+  );
+
+  if (isLoading) {
+    return wrapper(
+      <CardContent className="flex flex-col items-center justify-center py-12">
+        <Loader2 className="h-12 w-12 animate-spin text-blue-500 mb-4" />
+        <p className="text-gray-600">{translations.validating}</p>
+      </CardContent>
+    );
+  }
+
+  if (decidedStatus) {
+    return wrapper(
+      <CardHeader>
+        <div className="flex items-center justify-center mb-4">
+          {decidedStatus === 'rejected'
+            ? <XCircle className="h-16 w-16 text-red-500" />
+            : <CheckCircle2 className="h-16 w-16 text-green-500" />}
+        </div>
+        <CardTitle className="text-center text-2xl">{translations.doneTitle}</CardTitle>
+        <CardDescription className="text-center">
+          {decidedStatus === 'rejected' ? translations.doneRejected : translations.doneApproved}
+        </CardDescription>
+      </CardHeader>
+    );
+  }
+
+  if (error || !token || !details) {
+    return wrapper(
+      <CardHeader>
+        <div className="flex items-center justify-center mb-4">
+          <AlertCircle className="h-16 w-16 text-red-500" />
+        </div>
+        <CardTitle className="text-center text-2xl">{translations.invalidLink}</CardTitle>
+        <CardDescription className="text-center">
+          {error instanceof Error ? error.message : 'This approval link is invalid or has expired.'}
+        </CardDescription>
+      </CardHeader>
+    );
+  }
+
+  return wrapper(
+    <>
+      <CardHeader>
+        <CardTitle>{translations.title}</CardTitle>
+        <CardDescription>{translations.description(details.approver)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1 text-sm">
+          <div className="text-muted-foreground">{translations.requestType[details.requestType]}</div>
+          <div className="font-medium text-base">{details.title}</div>
+          {details.requestedByName && <div>{translations.requestedBy}: {details.requestedByName}</div>}
+          {details.amount && <div>{translations.amount}: {details.amount}</div>}
+          {details.stepName && <div>{translations.step}: {details.stepName}</div>}
+        </div>
+
+        {details.actingForName && (
+          <Alert>
+            <AlertDescription>{translations.onBehalfOf(details.actingForName)}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant={decision === 'approve' ? 'default' : 'outline'} onClick={() => setDecision('approve')}>
+            {translations.approve}
+          </Button>
+          <Button variant={decision === 'reject' ? 'destructive' : 'outline'} onClick={() => setDecision('reject')}>
+            {translations.reject}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>{translations.comments}</Label>
+          <Textarea value={comments} onChange={(e) => setComments(e.target.value)} rows={3} />
+          {decision === 'reject' && !comments.trim() && (
+            <p className="text-xs text-muted-foreground">{translations.reasonRequired}</p>
+          )}
+        </div>
+
+        {decideMutation.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{(decideMutation.error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button
+          className="w-full"
+          variant={decision === 'reject' ? 'destructive' : 'default'}
+          disabled={decideMutation.isPending || (decision === 'reject' && !comments.trim())}
+          onClick={() => decideMutation.mutate()}
+        >
+          {decideMutation.isPending
+            ? translations.submitting
+            : decision === 'approve' ? translations.confirmApprove : translations.confirmReject}
+        </Button>
+      </CardFooter>
+    </>
+  );
+}
@@ -0,0 +1,732 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useLanguage } from '@/hooks/use-language';
+import { useAuth } from '@/lib/authContext';
+import { useCurrency } from '@/lib/currencyContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { hasPermission } from '@/components/auth/RoleGuard';
+import { ROLE_IDS } from '@shared/roles.config';
+import {
+  ApprovalStepList, ApprovalDecisionForm, useApprovalLabels, getRequestStatusClass,
+  type ApprovalRequest, type ApprovalRequestType
+} from '@/components/approvals/ApprovalTrail';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ClipboardCheck, ExternalLink, Eye, Pencil, Plus, Trash2 } from 'lucide-react';
+
+type ApproverType = 'direct_manager' | 'role' | 'user';
+
+interface ApproverUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+interface ChainStep {
+  name: string;
+  approverType: ApproverType;
+  approverRole: string | null;
+  approverUserId: number | null;
+  minAmount: string | null;
+}
+
+interface ApprovalChain {
+  id: number;
+  requestType: ApprovalRequestType;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  steps: Array<ChainStep & { id: number; stepOrder: number; approverUserName: string | null }>;
+}
+
+interface Delegation {
+  id: number;
+  delegatorId: number;
+  delegatorName: string | null;
+  delegateId: number;
+  delegateName: string | null;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+}
+
+const REQUEST_TYPES: ApprovalRequestType[] = ['upgrade', 'purchase_order', 'service_request'];
+const APPROVER_ROLES = ['agent', 'manager', 'admin', 'super_admin'];
+
+const emptyStep: ChainStep = { name: '', approverType: 'role', approverRole: 'manager', approverUserId: null, minAmount: null };
+
+export default function Approvals() {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { formatCurrency } = useCurrency();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+  const labels = useApprovalLabels();
+
+  const [statusFilter, setStatusFilter] = useState('pending');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [viewRequest, setViewRequest] = useState<ApprovalRequest | null>(null);
+
+  const [delegationForm, setDelegationForm] = useState({ delegatorId: '', delegateId: '', startsAt: '', endsAt: '', reason: '' });
+
+  const [chainDialogOpen, setChainDialogOpen] = useState(false);
+  const [editingChainId, setEditingChainId] = useState<number | null>(null);
+  const [chainForm, setChainForm] = useState({
+    requestType: 'upgrade' as ApprovalRequestType,
+    name: '',
+    description: '',
+    isActive: true,
+    steps: [emptyStep],
+  });
+
+  const isManager = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER]);
+  const isAdmin = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN]);
+
+  const t = {
+    title: language === 'English' ? 'Approvals' : 'الموافقات',
+    description: language === 'English'
+      ? 'Upgrade requests, purchase orders and service requests waiting for your decision, delegation while you are away and approval chains'
+      : 'طلبات الترقية وأوامر الشراء وطلبات الخدمة التي تنتظر قرارك، والتفويض أثناء غيابك، وسلاسل الموافقة',
+    inboxTab: language === 'English' ? 'Awaiting Me' : 'بانتظاري',
+    requestsTab: language === 'English' ? 'All Requests' : 'جميع الطلبات',
+    delegationsTab: language === 'English' ? 'Delegation' : 'التفويض',
+    chainsTab: language === 'English' ? 'Approval Chains' : 'سلاسل الموافقة',
+    inboxEmpty: language === 'English' ? 'Nothing is waiting for your approval' : 'لا يوجد شيء بانتظار موافقتك',
+    requestedBy: language === 'English' ? 'Requested by' : 'مقدم الطلب',
+    amount: language === 'English' ? 'Amount' : 'المبلغ',
+    open: language === 'English' ? 'Open' : 'فتح',
+    request: language === 'English' ? 'Request' : 'الطلب',
+    type: language === 'English' ? 'Type' : 'النوع',
+    currentStep: language === 'English' ? 'Current Step' : 'الخطوة الحالية',
+    status: language === 'English' ? 'Status' : 'الحالة',
+    created: language === 'English' ? 'Created' : 'تاريخ الإنشاء',
+    actions: language === 'English' ? 'Actions' : 'الإجراءات',
+    allStatuses: language === 'English' ? 'All statuses' : 'جميع الحالات',
+    allTypes: language === 'English' ? 'All types' : 'جميع الأنواع',
+    noRequests: language === 'English' ? 'No approval requests found' : 'لا توجد طلبات موافقة',
+    delegationHint: language === 'English'
+      ? 'While a delegation is in effect the delegate can decide every step you could, and gets your approval notifications'
+      : 'أثناء سريان التفويض يمكن للمفوَّض اتخاذ القرار في كل خطوة يمكنك اتخاذها، ويتلقى إشعارات الموافقة الخاصة بك',
+    delegator: language === 'English' ? 'Approver' : 'الموافق',
+    delegate: language === 'English' ? 'Delegate' : 'المفوَّض',
+    myself: language === 'English' ? 'Myself' : 'أنا',
+    startsAt: language === 'English' ? 'From' : 'من',
+    endsAt: language === 'English' ? 'Until' : 'حتى',
+    reason: language === 'English' ? 'Reason' : 'السبب',
+    addDelegation: language === 'English' ? 'Add Delegation' : 'إضافة تفويض',
+    noDelegations: language === 'English' ? 'No current or upcoming delegations' : 'لا توجد تفويضات حالية أو قادمة',
+    confirmDeleteDelegation: language === 'English' ? 'End this delegation?' : 'هل تريد إنهاء هذا التفويض؟',
+    chainsHint: language === 'English'
+      ? 'Without an active chain, upgrade requests and purchase orders keep their built-in approval and service requests go to the requester\'s direct manager'
+      : 'بدون سلسلة نشطة تحتفظ طلبات الترقية وأوامر الشراء بآلية الموافقة المدمجة وتُرسل طلبات الخدمة إلى المدير المباشر لمقدم الطلب',
+    noChain: language === 'English' ? 'No chain - built-in approval in use' : 'لا توجد سلسلة - تُستخدم الموافقة المدمجة',
+    newChain: language === 'English' ? 'New Chain' : 'سلسلة جديدة',
+    editChain: language === 'English' ? 'Edit Approval Chain' : 'تعديل سلسلة الموافقة',
+    chainDescription: language === 'English'
+      ? 'Steps run in order; a step with a minimum amount only applies from that amount up. Requests already in progress keep their steps.'
+      : 'تُنفذ الخطوات بالترتيب؛ الخطوة ذات الحد الأدنى للمبلغ تنطبق فقط من ذلك المبلغ فأعلى. تحتفظ الطلبات الجارية بخطواتها.',
+    name: language === 'English' ? 'Name' : 'الاسم',
+    descriptionLabel: language === 'English' ? 'Description' : 'الوصف',
+    active: language === 'English' ? 'Active' : 'نشط',
+    inactive: language === 'English' ? 'Inactive' : 'غير نشط',
+    steps: language === 'English' ? 'Steps' : 'الخطوات',
+    stepName: language === 'English' ? 'Step name (e.g. Finance)' : 'اسم الخطوة (مثل المالية)',
+    approver: language === 'English' ? 'Approver' : 'الموافق',
+    specificUser: language === 'English' ? 'Specific user' : 'مستخدم محدد',
+    role: language === 'English' ? 'Role' : 'الدور',
+    selectUser: language === 'English' ? 'Select user' : 'اختر مستخدماً',
+    minAmount: language === 'English' ? 'From amount (optional)' : 'من مبلغ (اختياري)',
+    always: language === 'English' ? 'Always' : 'دائماً',
+    fromAmount: (amount: string) => language === 'English' ? `From ${amount}` : `من ${amount}`,
+    addStep: language === 'English' ? 'Add Step' : 'إضافة خطوة',
+    save: language === 'English' ? 'Save' : 'حفظ',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    delete: language === 'English' ? 'Delete' : 'حذف',
+    confirmDeleteChain: language === 'English' ? 'Delete this approval chain?' : 'هل تريد حذف سلسلة الموافقة هذه؟',
+    saved: language === 'English' ? 'Saved' : 'تم الحفظ',
+    error: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const { data: inbox = [] } = useQuery<ApprovalRequest[]>({
+    queryKey: ['/api/approvals/inbox'],
+  });
+
+  const requestsUrl = `/api/approvals?${new URLSearchParams({
+    ...(statusFilter !== 'all' ? { status: statusFilter } : {}),
+    ...(typeFilter !== 'all' ? { requestType: typeFilter } : {}),
+  })}`;
+  const { data: requests = [] } = useQuery<ApprovalRequest[]>({
+    queryKey: [requestsUrl],
+    enabled: isManager,
+  });
+
+  const { data: delegations = [] } = useQuery<Delegation[]>({
+    queryKey: [isManager ? '/api/approvals/delegations?all=true' : '/api/approvals/delegations'],
+  });
+
+  const { data: approverUsers = [] } = useQuery<ApproverUser[]>({
+    queryKey: ['/api/approvals/users'],
+  });
+
+  const { data: chains = [] } = useQuery<ApprovalChain[]>({
+    queryKey: ['/api/approvals/chains'],
+    enabled: isAdmin,
+  });
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  const refreshApprovals = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/approvals')
+    });
+  };
+
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleDateString(language === 'English' ? 'en-US' : 'ar-SA') : '-';
+
+  const delegationMutation = useMutation({
+    mutationFn: () => apiRequest('/api/approvals/delegations', 'POST', {
+      delegateId: Number(delegationForm.delegateId),
+      delegatorId: delegationForm.delegatorId ? Number(delegationForm.delegatorId) : undefined,
+      startsAt: new Date(delegationForm.startsAt).toISOString(),
+      endsAt: new Date(delegationForm.endsAt).toISOString(),
+      reason: delegationForm.reason,
+    }),
+    onSuccess: () => {
+      toast({ title: t.saved });
+      setDelegationForm({ delegatorId: '', delegateId: '', startsAt: '', endsAt: '', reason: '' });
+      refreshApprovals();
+    },
+    onError: handleError
+  });
+
+  const deleteDelegationMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/approvals/delegations/${id}`, 'DELETE'),
+    onSuccess: refreshApprovals,
+    onError: handleError
+  });
+
+  const chainMutation = useMutation({
+    mutationFn: () => {
+      const body = {
+        ...chainForm,
+        steps: chainForm.steps.map(step => ({
+          ...step,
+          minAmount: step.minAmount || null,
+        })),
+      };
+      return editingChainId
+        ? apiRequest(`/api/approvals/chains/${editingChainId}`, 'PUT', body)
+        : apiRequest('/api/approvals/chains', 'POST', body);
+    },
+    onSuccess: () => {
+      toast({ title: t.saved });
+      setChainDialogOpen(false);
+      refreshApprovals();
+    },
+    onError: handleError
+  });
+
+  const deleteChainMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/approvals/chains/${id}`, 'DELETE'),
+    onSuccess: refreshApprovals,
+    onError: handleError
+  });
+
+  const openChainDialog = (requestType: ApprovalRequestType, chain?: ApprovalChain) => {
+    setEditingChainId(chain?.id ?? null);
+    setChainForm({
+      requestType,
+      name: chain?.name ?? labels.requestTypes[requestType],
+      description: chain?.description ?? '',
+      isActive: chain?.isActive ?? true,
+      steps: chain
+        ? chain.steps.map(step => ({
+          name: step.name,
+          approverType: step.approverType,
+          approverRole: step.approverRole,
+          approverUserId: step.approverUserId,
+          minAmount: step.minAmount,
+        }))
+        : [{ ...emptyStep, name: labels.directManager, approverType: 'direct_manager', approverRole: null }],
+    });
+    setChainDialogOpen(true);
+  };
+
+  const updateStep = (index: number, changes: Partial<ChainStep>) => {
+    setChainForm({
+      ...chainForm,
+      steps: chainForm.steps.map((step, i) => i === index ? { ...step, ...changes } : step),
+    });
+  };
+
+  const getCurrentStepName = (request: ApprovalRequest) =>
+    request.steps.find(step => step.status === 'pending')?.name ?? '-';
+
+  const getStepApproverLabel = (step: ApprovalChain['steps'][number]) => {
+    if (step.approverType === 'direct_manager') return labels.directManager;
+    if (step.approverType === 'user') return step.approverUserName || '-';
+    return labels.roles[step.approverRole || ''] || step.approverRole;
+  };
+
+  const chainFormValid = chainForm.name.trim() && chainForm.steps.length > 0 && chainForm.steps.every(step =>
+    step.name.trim()
+    && (step.approverType !== 'role' || step.approverRole)
+    && (step.approverType !== 'user' || step.approverUserId)
+  );
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <div className="flex items-center gap-2 mb-2">
+          <ClipboardCheck className="h-6 w-6 text-green-600" />
+          <h1 className="text-2xl font-bold">{t.title}</h1>
+        </div>
+        <p className="text-muted-foreground">{t.description}</p>
+      </div>
+
+      <Tabs defaultValue="inbox">
+        <TabsList className="mb-4">
+          <TabsTrigger value="inbox">
+            {t.inboxTab}
+            {inbox.length > 0 && <Badge variant="destructive" className="ml-2">{inbox.length}</Badge>}
+          </TabsTrigger>
+          {isManager && <TabsTrigger value="requests">{t.requestsTab}</TabsTrigger>}
+          <TabsTrigger value="delegations">{t.delegationsTab}</TabsTrigger>
+          {isAdmin && <TabsTrigger value="chains">{t.chainsTab}</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="inbox">
+          {inbox.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12 text-muted-foreground">{t.inboxEmpty}</CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4 lg:grid-cols-2">
+              {inbox.map(request => (
+                <Card key={request.id}>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <div className="text-xs text-muted-foreground">{labels.requestTypes[request.requestType]}</div>
+                        <div className="font-semibold">{request.title}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {t.requestedBy}: {request.requestedByName || '-'}
+                          {request.amount && ` · ${t.amount}: ${formatCurrency(request.amount)}`}
+                        </div>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => navigate(request.path)}>
+                        <ExternalLink className="h-4 w-4 mr-1" />
+                        {t.open}
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <ApprovalStepList request={request} />
+                    <ApprovalDecisionForm request={request} />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        {isManager && (
+          <TabsContent value="requests">
+            <Card>
+              <CardHeader>
+                <div className="flex flex-col md:flex-row gap-3">
+                  <Select value={statusFilter} onValueChange={setStatusFilter}>
+                    <SelectTrigger className="md:w-48"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">{t.allStatuses}</SelectItem>
+                      {(['pending', 'approved', 'rejected', 'cancelled'] as const).map(status => (
+                        <SelectItem key={status} value={status}>{labels.requestStatuses[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={typeFilter} onValueChange={setTypeFilter}>
+                    <SelectTrigger className="md:w-48"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">{t.allTypes}</SelectItem>
+                      {REQUEST_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{labels.requestTypes[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {requests.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">{t.noRequests}</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t.request}</TableHead>
+                        <TableHead>{t.type}</TableHead>
+                        <TableHead>{t.requestedBy}</TableHead>
+                        <TableHead>{t.amount}</TableHead>
+                        <TableHead>{t.currentStep}</TableHead>
+                        <TableHead>{t.status}</TableHead>
+                        <TableHead>{t.created}</TableHead>
+                        <TableHead className="text-right">{t.actions}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {requests.map(request => (
+                        <TableRow key={request.id}>
+                          <TableCell className="font-medium">{request.title}</TableCell>
+                          <TableCell>{labels.requestTypes[request.requestType]}</TableCell>
+                          <TableCell>{request.requestedByName || '-'}</TableCell>
+                          <TableCell>{request.amount ? formatCurrency(request.amount) : '-'}</TableCell>
+                          <TableCell>{getCurrentStepName(request)}</TableCell>
+                          <TableCell>
+                            <Badge className={getRequestStatusClass(request.status)}>{labels.requestStatuses[request.status]}</Badge>
+                          </TableCell>
+                          <TableCell>{formatDate(request.createdAt)}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button variant="ghost" size="sm" onClick={() => setViewRequest(request)}>
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => navigate(request.path)}>
+                              <ExternalLink className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+
+        <TabsContent value="delegations">
+          <Card>
+            <CardHeader>
+              <p className="text-sm text-muted-foreground">{t.delegationHint}</p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-3 md:grid-cols-3 rounded-md border p-3">
+                {isAdmin && (
+                  <div className="space-y-1">
+                    <Label>{t.delegator}</Label>
+                    <Select
+                      value={delegationForm.delegatorId || 'self'}
+                      onValueChange={(value) => setDelegationForm({ ...delegationForm, delegatorId: value === 'self' ? '' : value })}
+                    >
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="self">{t.myself}</SelectItem>
+                        {approverUsers.filter(option => option.id !== user?.id).map(option => (
+                          <SelectItem key={option.id} value={String(option.id)}>{option.username}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <Label>{t.delegate}</Label>
+                  <Select value={delegationForm.delegateId} onValueChange={(value) => setDelegationForm({ ...delegationForm, delegateId: value })}>
+                    <SelectTrigger><SelectValue placeholder={t.selectUser} /></SelectTrigger>
+                    <SelectContent>
+                      {approverUsers
+                        .filter(option => String(option.id) !== (delegationForm.delegatorId || String(user?.id)))
+                        .map(option => (
+                          <SelectItem key={option.id} value={String(option.id)}>{option.username}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>{t.startsAt}</Label>
+                  <Input type="datetime-local" value={delegationForm.startsAt} onChange={(e) => setDelegationForm({ ...delegationForm, startsAt: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label>{t.endsAt}</Label>
+                  <Input type="datetime-local" value={delegationForm.endsAt} onChange={(e) => setDelegationForm({ ...delegationForm, endsAt: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label>{t.reason}</Label>
+                  <Input value={delegationForm.reason} onChange={(e) => setDelegationForm({ ...delegationForm, reason: e.target.value })} />
+                </div>
+                <div className="flex items-end">
+                  <Button
+                    className="w-full"
+                    disabled={!delegationForm.delegateId || !delegationForm.startsAt || !delegationForm.endsAt || delegationMutation.isPending}
+                    onClick={() => delegationMutation.mutate()}
+                  >
+                    {t.addDelegation}
+                  </Button>
+                </div>
+              </div>
+
+              {delegations.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">{t.noDelegations}</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t.delegator}</TableHead>
+                      <TableHead>{t.delegate}</TableHead>
+                      <TableHead>{t.startsAt}</TableHead>
+                      <TableHead>{t.endsAt}</TableHead>
+                      <TableHead>{t.reason}</TableHead>
+                      <TableHead className="text-right">{t.actions}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {delegations.map(delegation => (
+                      <TableRow key={delegation.id}>
+                        <TableCell>{delegation.delegatorName || '-'}</TableCell>
+                        <TableCell>{delegation.delegateName || '-'}</TableCell>
+                        <TableCell>{new Date(delegation.startsAt).toLocaleString(language === 'English' ? 'en-US' : 'ar-SA')}</TableCell>
+                        <TableCell>{new Date(delegation.endsAt).toLocaleString(language === 'English' ? 'en-US' : 'ar-SA')}</TableCell>
+                        <TableCell>{delegation.reason || '-'}</TableCell>
+                        <TableCell className="text-right">
+                          {(delegation.delegatorId === user?.id || isAdmin) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={deleteDelegationMutation.isPending}
+                              onClick={() => window.confirm(t.confirmDeleteDelegation) && deleteDelegationMutation.mutate(delegation.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {isAdmin && (
+          <TabsContent value="chains">
+            <p className="text-sm text-muted-foreground mb-4">{t.chainsHint}</p>
+            <div className="grid gap-4 lg:grid-cols-2">
+              {REQUEST_TYPES.map(requestType => {
+                const chain = chains.find(entry => entry.requestType === requestType);
+                return (
+                  <Card key={requestType}>
+                    <CardHeader className="pb-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <div className="text-xs text-muted-foreground">{labels.requestTypes[requestType]}</div>
+                          <div className="font-semibold">{chain?.name ?? t.noChain}</div>
+                          {chain?.description && <div className="text-sm text-muted-foreground">{chain.description}</div>}
+                        </div>
+                        <div className="flex items-center gap-1">
+                          {chain && (
+                            <Badge variant={chain.isActive ? 'default' : 'secondary'}>{chain.isActive ? t.active : t.inactive}</Badge>
+                          )}
+                          <Button variant="ghost" size="sm" onClick={() => openChainDialog(requestType, chain)}>
+                            {chain ? <Pencil className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+                          </Button>
+                          {chain && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={deleteChainMutation.isPending}
+                              onClick={() => window.confirm(t.confirmDeleteChain) && deleteChainMutation.mutate(chain.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </CardHeader>
+                    {chain && (
+                      <CardContent>
+                        <ol className="space-y-1 text-sm">
+                          {chain.steps.map(step => (
+                            <li key={step.id}>
+                              <span className="font-medium">{step.stepOrder}. {step.name}</span>
+                              <span className="text-muted-foreground">
+                                {' · '}{getStepApproverLabel(step)}
+                                {' · '}{step.minAmount ? t.fromAmount(formatCurrency(step.minAmount)) : t.always}
+                              </span>
+                            </li>
+                          ))}
+                        </ol>
+                      </CardContent>
+                    )}
+                  </Card>
+                );
+              })}
+            </div>
+          </TabsContent>
+        )}
+      </Tabs>
+
+      {/* Request details */}
+      <Dialog open={viewRequest !== null} onOpenChange={(open) => !open && setViewRequest(null)}>
+        <DialogContent className="max-w-lg">
+          {viewRequest && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{viewRequest.title}</DialogTitle>
+                <DialogDescription>
+                  {labels.requestTypes[viewRequest.requestType]} · {t.requestedBy}: {viewRequest.requestedByName || '-'}
+                  {viewRequest.amount && ` · ${formatCurrency(viewRequest.amount)}`}
+                </DialogDescription>
+              </DialogHeader>
+              <ApprovalStepList request={viewRequest} />
+              {viewRequest.canAct && (
+                <ApprovalDecisionForm request={viewRequest} onDecided={() => setViewRequest(null)} />
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Chain editor */}
+      <Dialog open={chainDialogOpen} onOpenChange={setChainDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t.editChain} · {labels.requestTypes[chainForm.requestType]}</DialogTitle>
+            <DialogDescription>{t.chainDescription}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label>{t.name}</Label>
+                <Input value={chainForm.name} onChange={(e) => setChainForm({ ...chainForm, name: e.target.value })} />
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <Switch checked={chainForm.isActive} onCheckedChange={(checked) => setChainForm({ ...chainForm, isActive: checked })} />
+                <Label>{t.active}</Label>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>{t.descriptionLabel}</Label>
+              <Textarea value={chainForm.description} onChange={(e) => setChainForm({ ...chainForm, description: e.target.value })} rows={2} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t.steps}</Label>
+              {chainForm.steps.map((step, index) => (
+                <div key={index} className="grid gap-2 md:grid-cols-[auto_1fr_1fr_1fr_1fr_auto] items-center rounded-md border p-2">
+                  <span className="text-sm font-medium w-6">{index + 1}.</span>
+                  <Input value={step.name} onChange={(e) => updateStep(index, { name: e.target.value })} placeholder={t.stepName} />
+                  <Select
+                    value={step.approverType}
+                    onValueChange={(value: ApproverType) => updateStep(index, {
+                      approverType: value,
+                      approverRole: value === 'role' ? step.approverRole || 'manager' : null,
+                      approverUserId: value === 'user' ? step.approverUserId : null,
+                    })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="direct_manager">{labels.directManager}</SelectItem>
+                      <SelectItem value="role">{t.role}</SelectItem>
+                      <SelectItem value="user">{t.specificUser}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {step.approverType === 'role' ? (
+                    <Select value={step.approverRole || ''} onValueChange={(value) => updateStep(index, { approverRole: value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {APPROVER_ROLES.map(role => (
+                          <SelectItem key={role} value={role}>{labels.roles[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : step.approverType === 'user' ? (
+                    <Select
+                      value={step.approverUserId ? String(step.approverUserId) : ''}
+                      onValueChange={(value) => updateStep(index, { approverUserId: Number(value) })}
+                    >
+                      <SelectTrigger><SelectValue placeholder={t.selectUser} /></SelectTrigger>
+                      <SelectContent>
+                        {approverUsers.map(option => (
+                          <SelectItem key={option.id} value={String(option.id)}>{option.username}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">{t.approver}: {labels.directManager}</span>
+                  )}
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={step.minAmount ?? ''}
+                    onChange={(e) => updateStep(index, { minAmount: e.target.value || null })}
+                    placeholder={t.minAmount}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={chainForm.steps.length === 1}
+                    onClick={() => setChainForm({ ...chainForm, steps: chainForm.steps.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={chainForm.steps.length >= 10}
+                onClick={() => setChainForm({ ...chainForm, steps: [...chainForm.steps, emptyStep] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                {t.addStep}
+              </Button>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setChainDialogOpen(false)}>{t.cancel}</Button>
+            <Button disabled={!chainFormValid || chainMutation.isPending} onClick={() => chainMutation.mutate()}>
+              {t.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
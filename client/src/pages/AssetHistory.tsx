@@ -116,6 +116,8 @@ export default function AssetHistory() {
     sale: language === 'English' ? 'Sale' : 'بيع',
     retirement: language === 'English' ? 'Retirement' : 'تقاعد',
     upgrade: language === 'English' ? 'Upgrade' : 'ترقية',
+    transfer: language === 'English' ? 'Transfer' : 'نقل',
+    audit: language === 'English' ? 'Audit' : 'جرد',
     sold: language === 'English' ? 'Sold' : 'مباع',
     retired: language === 'English' ? 'Retired' : 'متقاعد',
     id: language === 'English' ? 'ID' : 'المعرف',
@@ -186,6 +188,17 @@ export default function AssetHistory() {
     costLabel: language === 'English' ? 'Cost' : 'التكلفة',
     providerLabel: language === 'English' ? 'Provider' : 'المزود',
     statusLabel: language === 'English' ? 'Status' : 'الحالة',
+    stockTakeLabel: language === 'English' ? 'Stock-take' : 'الجرد',
+    auditResultLabel: language === 'English' ? 'Result' : 'النتيجة',
+    auditDetails: language === 'English' ? 'Stock-take Details' : 'تفاصيل الجرد',
+    previousStatusLabel: language === 'English' ? 'Previous Status' : 'الحالة السابقة',
+    correctionApplied: language === 'English' ? 'Correction applied' : 'تم تطبيق تصحيح',
+    auditResults: {
+      found: language === 'English' ? 'Found' : 'موجود',
+      misplaced: language === 'English' ? 'Misplaced' : 'في غير مكانه',
+      missing: language === 'English' ? 'Missing' : 'مفقود',
+      wrong_assignee: language === 'English' ? 'Wrong Assignee' : 'لدى شخص آخر',
+    } as Record<string, string>,
     // Pagination text
     showing: language === 'English' ? 'Showing' : 'عرض',
     to: language === 'English' ? 'to' : 'إلى',
@@ -380,6 +393,8 @@ export default function AssetHistory() {
       'Sale': { bg: 'bg-purple-100', text: 'text-purple-800', icon: '💰' },
       'Retirement': { bg: 'bg-orange-100', text: 'text-orange-800', icon: '🗑️' },
       'Upgrade': { bg: 'bg-blue-100', text: 'text-blue-800', icon: '⬆' },
+      'Transfer': { bg: 'bg-cyan-100', text: 'text-cyan-800', icon: '⇄' },
+      'Audit': { bg: 'bg-slate-100', text: 'text-slate-800', icon: '☑' },
     };
 
 
@@ -555,6 +570,8 @@ export default function AssetHistory() {
                     <SelectItem value="Sale">{translations.sale}</SelectItem>
                     <SelectItem value="Retirement">{translations.retirement}</SelectItem>
                     <SelectItem value="Upgrade">{translations.upgrade}</SelectItem>
+                    <SelectItem value="Transfer">{translations.transfer}</SelectItem>
+                    <SelectItem value="Audit">{translations.audit}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -866,6 +883,18 @@ export default function AssetHistory() {
                                 );
                               }
                               
+                              if (transaction.type === 'Audit' && metadata?.stockTakeName) {
+                                return (
+                                  <div className="text-sm space-y-1">
+                                    <p className="font-medium text-gray-900">{translations.stockTakeLabel}: {metadata.stockTakeName}</p>
+                                    <p className="text-gray-600">
+                                      {translations.auditResultLabel}: {translations.auditResults[metadata.result] || metadata.result}
+                                      {metadata.correction && ` · ${translations.correctionApplied}`}
+                                    </p>
+                                  </div>
+                                );
+                              }
+                              
                               // Default display for Check-In/Check-Out
                               return (
                                 <div className="max-w-xs truncate" title={transaction.notes || transaction.conditionNotes}>
@@ -1160,6 +1189,36 @@ export default function AssetHistory() {
                                   );
                                 }
                                 
+                                if (selectedTransaction.type === 'Audit' && metadata) {
+                                  return (
+                                    <div className="space-y-4">
+                                      <h4 className="font-medium">{translations.auditDetails}</h4>
+                                      <div className="grid grid-cols-2 gap-4 p-4 bg-slate-50 rounded-lg">
+                                        <div>
+                                          <Label className="text-xs text-gray-500">{translations.stockTakeLabel}</Label>
+                                          <p className="text-sm font-medium">{metadata.stockTakeName || '-'}</p>
+                                        </div>
+                                        <div>
+                                          <Label className="text-xs text-gray-500">{translations.auditResultLabel}</Label>
+                                          <p className="text-sm font-medium">{translations.auditResults[metadata.result] || metadata.result || '-'}</p>
+                                        </div>
+                                        {metadata.previousStatus && (
+                                          <div>
+                                            <Label className="text-xs text-gray-500">{translations.previousStatusLabel}</Label>
+                                            <p className="text-sm font-medium">{metadata.previousStatus}</p>
+                                          </div>
+                                        )}
+                                        {selectedTransaction.conditionNotes && (
+                                          <div className="col-span-2">
+                                            <Label className="text-xs text-gray-500">{translations.notes}</Label>
+                                            <p className="text-sm">{selectedTransaction.conditionNotes}</p>
+                                          </div>
+                                        )}
+                                      </div>
+                                    </div>
+                                  );
+                                }
+                                
                                 return null;
                               })()}
 
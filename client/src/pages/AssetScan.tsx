@@ -0,0 +1,403 @@
+import { useState, useRef, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { playNotificationSound } from '@/lib/notificationSound';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import ActiveEmployeeSelect from '@/components/employees/ActiveEmployee';
+import LocationSelect from '@/components/assets/LocationSelect';
+import AssetDetailView from '@/components/assets/AssetDetailView';
+import { Camera, CameraOff, CheckCircle, Eye, LogIn, LogOut, ScanLine, SkipForward, XCircle } from 'lucide-react';
+
+type ScanMode = 'open' | 'check-out' | 'check-in';
+
+interface ScannedAsset {
+  id: number;
+  assetId: string;
+  type: string;
+  brand: string;
+  modelName: string | null;
+  status: string;
+  assignedEmployeeId: number | null;
+  assignedEmployeeName: string | null;
+}
+
+interface ScanLogEntry {
+  key: number;
+  code: string;
+  asset?: ScannedAsset;
+  result: 'success' | 'skipped' | 'error';
+  message: string;
+}
+
+// Browser Shape Detection API; not yet part of the TypeScript DOM types
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const BarcodeDetector = typeof window !== 'undefined'
+  ? (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+  : undefined;
+
+const WANTED_FORMATS = ['qr_code', 'code_128', 'code_39', 'data_matrix', 'ean_13'];
+// Interval between camera frames checked for a code
+const DETECT_INTERVAL_MS = 300;
+// The same code seen again by the camera within this window is the same scan
+const REPEAT_WINDOW_MS = 3000;
+
+// apiRequest errors read "<status>: <body>"; show the server's message when the body is JSON
+function describeError(error: unknown): string {
+  const text = error instanceof Error ? error.message : String(error);
+  const body = text.replace(/^\d{3}: /, '');
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+export default function AssetScan() {
+  const { language } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [mode, setMode] = useState<ScanMode>('open');
+  const [employeeId, setEmployeeId] = useState('');
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [code, setCode] = useState('');
+  const [log, setLog] = useState<ScanLogEntry[]>([]);
+  const [detailAssetId, setDetailAssetId] = useState<number | null>(null);
+  const [cameraOn, setCameraOn] = useState(false);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+  const logKeyRef = useRef(0);
+  // Read from the processing queue, which outlives the render that queued a scan
+  const settingsRef = useRef({ mode, employeeId, locationId });
+  settingsRef.current = { mode, employeeId, locationId };
+
+  const t = {
+    title: language === 'English' ? 'Scan Assets' : 'مسح الأصول',
+    description: language === 'English'
+      ? 'Scan asset labels with a handheld scanner or the camera to open, check out or check in assets'
+      : 'امسح ملصقات الأصول بالماسح الضوئي أو الكاميرا لفتحها أو تسليمها أو استلامها',
+    mode: language === 'English' ? 'When a label is scanned' : 'عند مسح ملصق',
+    open: language === 'English' ? 'Open asset' : 'فتح الأصل',
+    checkOut: language === 'English' ? 'Check out' : 'تسليم',
+    checkIn: language === 'English' ? 'Check in' : 'استلام',
+    employee: language === 'English' ? 'Check out to' : 'تسليم إلى',
+    destination: language === 'English' ? 'Location' : 'الموقع',
+    keepLocation: language === 'English' ? 'Keep current location' : 'الإبقاء على الموقع الحالي',
+    scanHere: language === 'English' ? 'Scan or type an asset ID, then press Enter' : 'امسح أو اكتب رقم الأصل ثم اضغط Enter',
+    startCamera: language === 'English' ? 'Use Camera' : 'استخدام الكاميرا',
+    stopCamera: language === 'English' ? 'Stop Camera' : 'إيقاف الكاميرا',
+    cameraUnsupported: language === 'English'
+      ? 'This browser cannot read codes from the camera. Use a handheld scanner or type the asset ID.'
+      : 'لا يدعم هذا المتصفح قراءة الرموز من الكاميرا. استخدم ماسحاً ضوئياً أو اكتب رقم الأصل.',
+    cameraError: language === 'English' ? 'Camera unavailable' : 'الكاميرا غير متاحة',
+    selectEmployeeFirst: language === 'English' ? 'Select the employee to check out to first' : 'اختر الموظف أولاً',
+    history: language === 'English' ? 'Scanned This Session' : 'الممسوح في هذه الجلسة',
+    clear: language === 'English' ? 'Clear' : 'مسح',
+    nothingScanned: language === 'English' ? 'Nothing scanned yet' : 'لم يتم مسح أي شيء بعد',
+    opened: language === 'English' ? 'Opened' : 'تم الفتح',
+    checkedOut: language === 'English' ? 'Checked out' : 'تم التسليم',
+    checkedIn: language === 'English' ? 'Checked in' : 'تم الاستلام',
+    notAvailable: language === 'English' ? 'Not available for check-out' : 'غير متاح للتسليم',
+    notCheckedOut: language === 'English' ? 'Not checked out' : 'غير مسلّم',
+    assignedTo: language === 'English' ? 'assigned to' : 'مسلّم إلى',
+    error: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const addLog = (entry: Omit<ScanLogEntry, 'key'>) => {
+    logKeyRef.current += 1;
+    const key = logKeyRef.current;
+    setLog(current => [{ ...entry, key }, ...current].slice(0, 200));
+  };
+
+  const refreshAssets = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/assets')
+    });
+  };
+
+  const handleScan = async (scanned: string) => {
+    const { mode, employeeId, locationId } = settingsRef.current;
+    let asset: ScannedAsset | undefined;
+
+    try {
+      asset = await apiRequest(`/api/asset-labels/scan?code=${encodeURIComponent(scanned)}`) as ScannedAsset;
+
+      if (mode === 'open') {
+        setDetailAssetId(asset.id);
+        addLog({ code: scanned, asset, result: 'success', message: t.opened });
+        return;
+      }
+
+      if (mode === 'check-out') {
+        if (asset.status !== 'Available') {
+          const holder = asset.assignedEmployeeName ? ` (${asset.status}, ${t.assignedTo} ${asset.assignedEmployeeName})` : ` (${asset.status})`;
+          addLog({ code: scanned, asset, result: 'skipped', message: t.notAvailable + holder });
+          return;
+        }
+        await apiRequest(`/api/assets/${asset.id}/check-out`, 'POST', {
+          employeeId: parseInt(employeeId),
+          type: 'Check-Out',
+          locationId: locationId || undefined,
+        });
+        addLog({ code: scanned, asset, result: 'success', message: t.checkedOut });
+      } else {
+        if (!asset.assignedEmployeeId) {
+          addLog({ code: scanned, asset, result: 'skipped', message: t.notCheckedOut });
+          return;
+        }
+        await apiRequest(`/api/assets/${asset.id}/check-in`, 'POST', {
+          type: 'Check-In',
+          locationId: locationId || undefined,
+        });
+        addLog({ code: scanned, asset, result: 'success', message: `${t.checkedIn} (${asset.assignedEmployeeName || ''})` });
+      }
+
+      playNotificationSound();
+      refreshAssets();
+    } catch (error) {
+      addLog({ code: scanned, asset, result: 'error', message: describeError(error) });
+    }
+  };
+
+  // Scans are processed one at a time in arrival order, so a fast scanner can't race itself
+  const submitCode = (value: string) => {
+    const scanned = value.trim();
+    if (!scanned) return;
+
+    if (settingsRef.current.mode === 'check-out' && !settingsRef.current.employeeId) {
+      toast({ title: t.error, description: t.selectEmployeeFirst, variant: 'destructive' });
+      return;
+    }
+
+    queueRef.current = queueRef.current.then(() => handleScan(scanned));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keyboard-wedge scanners type the code followed by Enter
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      submitCode(code);
+      setCode('');
+    }
+  };
+
+  // Camera scanning
+  useEffect(() => {
+    if (!cameraOn || !BarcodeDetector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      try {
+        const supported = await BarcodeDetector.getSupportedFormats();
+        const detector = new BarcodeDetector({ formats: WANTED_FORMATS.filter(format => supported.includes(format)) });
+
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        timer = setInterval(async () => {
+          const video = videoRef.current;
+          if (!video || video.readyState < 2) return;
+          const [barcode] = await detector.detect(video).catch(() => []);
+          if (!barcode?.rawValue) return;
+
+          const now = Date.now();
+          const last = lastScanRef.current;
+          if (last && last.code === barcode.rawValue && now - last.at < REPEAT_WINDOW_MS) return;
+          lastScanRef.current = { code: barcode.rawValue, at: now };
+          submitCode(barcode.rawValue);
+        }, DETECT_INTERVAL_MS);
+      } catch (error) {
+        toast({ title: t.cameraError, description: describeError(error), variant: 'destructive' });
+        setCameraOn(false);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [cameraOn]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [mode]);
+
+  const resultIcon = (result: ScanLogEntry['result']) => {
+    if (result === 'success') return <CheckCircle className="h-4 w-4 text-green-600" />;
+    if (result === 'skipped') return <SkipForward className="h-4 w-4 text-amber-500" />;
+    return <XCircle className="h-4 w-4 text-red-600" />;
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <div className="flex items-center gap-2 mb-2">
+          <ScanLine className="h-6 w-6 text-blue-600" />
+          <h1 className="text-2xl font-bold">{t.title}</h1>
+        </div>
+        <p className="text-muted-foreground">{t.description}</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>{t.mode}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Tabs value={mode} onValueChange={(value) => setMode(value as ScanMode)}>
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="open">
+                  <Eye className="h-4 w-4 mr-2" />
+                  {t.open}
+                </TabsTrigger>
+                <TabsTrigger value="check-out">
+                  <LogOut className="h-4 w-4 mr-2" />
+                  {t.checkOut}
+                </TabsTrigger>
+                <TabsTrigger value="check-in">
+                  <LogIn className="h-4 w-4 mr-2" />
+                  {t.checkIn}
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {mode === 'check-out' && (
+              <div className="space-y-2">
+                <Label>{t.employee}</Label>
+                <ActiveEmployeeSelect value={employeeId} onValueChange={setEmployeeId} />
+              </div>
+            )}
+
+            {mode !== 'open' && (
+              <div className="space-y-2">
+                <Label>{t.destination}</Label>
+                <LocationSelect value={locationId} onChange={setLocationId} emptyLabel={t.keepLocation} />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="scanInput">{t.scanHere}</Label>
+              <Input
+                id="scanInput"
+                ref={inputRef}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                onKeyDown={handleKeyDown}
+                autoComplete="off"
+                autoFocus
+                className="font-mono text-lg"
+              />
+            </div>
+
+            {BarcodeDetector ? (
+              <div className="space-y-2">
+                <Button variant="outline" onClick={() => setCameraOn(!cameraOn)}>
+                  {cameraOn ? <CameraOff className="h-4 w-4 mr-2" /> : <Camera className="h-4 w-4 mr-2" />}
+                  {cameraOn ? t.stopCamera : t.startCamera}
+                </Button>
+                {cameraOn && (
+                  <video ref={videoRef} className="w-full rounded-md border bg-black" muted playsInline />
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">{t.cameraUnsupported}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>{t.history}</CardTitle>
+                <CardDescription>
+                  {log.filter(entry => entry.result === 'success').length} / {log.length}
+                </CardDescription>
+              </div>
+              {log.length > 0 && (
+                <Button variant="ghost" size="sm" onClick={() => setLog([])}>{t.clear}</Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {log.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <ScanLine className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                <p>{t.nothingScanned}</p>
+              </div>
+            ) : (
+              <div className="space-y-2 max-h-[600px] overflow-y-auto">
+                {log.map((entry) => (
+                  <div key={entry.key} className="flex items-start gap-3 rounded-md border p-3">
+                    <div className="mt-0.5">{resultIcon(entry.result)}</div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono font-medium">{entry.asset?.assetId || entry.code}</span>
+                        {entry.asset && (
+                          <Badge variant="outline">{entry.asset.type}</Badge>
+                        )}
+                      </div>
+                      {entry.asset && (
+                        <div className="text-xs text-muted-foreground truncate">
+                          {[entry.asset.brand, entry.asset.modelName].filter(Boolean).join(' ')}
+                        </div>
+                      )}
+                      <div className="text-sm">{entry.message}</div>
+                    </div>
+                    {entry.asset && (
+                      <Button size="icon" variant="ghost" onClick={() => setDetailAssetId(entry.asset!.id)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AssetDetailView
+        assetId={detailAssetId}
+        open={detailAssetId !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setDetailAssetId(null);
+            inputRef.current?.focus();
+          }
+        }}
+      />
+    </div>
+  );
+}
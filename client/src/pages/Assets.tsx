@@ -19,7 +19,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Textarea } from '@/components/ui/textarea';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Calendar } from '@/components/ui/calendar';
-import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight,CalendarIcon , Plus, Search, Filter, Download, Upload, RefreshCw, FileUp, DollarSign, FileDown, Package, Wrench, X, Trash2 } from 'lucide-react';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight,CalendarIcon , Plus, Search, Filter, Download, Upload, RefreshCw, FileUp, DollarSign, FileDown, Package, Wrench, X, Trash2, ScanLine } from 'lucide-react';
 import type { AssetFilters as AssetFiltersType } from '@shared/types';
 import AssetFilters from '@/components/assets/AssetFilters';
 import AssetForm from '@/components/assets/AssetForm';
@@ -37,7 +37,7 @@ export default function Assets() {
   const { language } = useLanguage();
   const { toast } = useToast();
   const { user, hasAccess } = useAuth();
-  const [location] = useLocation();
+  const [location, setLocation] = useLocation();
   const queryClient = useQueryClient();
   const [openDialog, setOpenDialog] = useState(false);
   const [editingAsset, setEditingAsset] = useState<any>(null);
@@ -207,7 +207,8 @@ export default function Assets() {
     searchEmployees: language === 'Arabic' ? 'البحث عن الموظفين...' : 'Search employees...',
     noEmployeesFound: language === 'Arabic' ? 'لم يتم العثور على موظفين.' : 'No employees found.',
     maintenanceStatus: language === 'Arabic' ? 'حالة الصيانة' : 'Maintenance Status',
-    exportCsv: language === 'Arabic' ? 'تصدير CSV' : 'Export CSV'
+    exportCsv: language === 'Arabic' ? 'تصدير CSV' : 'Export CSV',
+    scan: language === 'Arabic' ? 'مسح' : 'Scan'
   };
 
   // Parse URL parameters on component mount
@@ -226,6 +227,9 @@ export default function Assets() {
     
     const status = urlParams.get('status');
     if (status) urlFilters.status = status;
+
+    const location = urlParams.get('location');
+    if (location) urlFilters.location = location;
     
     const search = urlParams.get('search');
     if (search) {
@@ -271,7 +275,12 @@ export default function Assets() {
     }
     
     if (filters.assignedTo) params.assignedTo = filters.assignedTo;
+    if (filters.location) params.location = filters.location;
     if (filters.maintenanceDue) params.maintenanceDue = filters.maintenanceDue;
+    if (filters.customField) {
+      params.customField = filters.customField;
+      if (filters.customFieldValue) params.customFieldValue = filters.customFieldValue;
+    }
     
     return params;
   }, [currentPage, itemsPerPage, filters]);
@@ -897,6 +906,17 @@ export default function Assets() {
             <p className="text-gray-600">{translations.description}</p>
           </div>
           <div className="flex gap-2">
+            {hasAccess(2) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setLocation('/scan')}
+              >
+                <ScanLine className="h-4 w-4 mr-2" />
+                {translations.scan}
+              </Button>
+            )}
+
             {hasAccess(2) && (
               <Button 
                 variant="outline"
@@ -0,0 +1,690 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import { useAuth } from '@/lib/authContext';
+import { useCurrency } from '@/lib/currencyContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { hasPermission } from '@/components/auth/RoleGuard';
+import { ROLE_IDS } from '@shared/roles.config';
+import ActiveEmployeeSelect from '@/components/employees/ActiveEmployee';
+import LocationSelect from '@/components/assets/LocationSelect';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Boxes, History, Loader2, PackageMinus, PackagePlus, Pencil, Plus, Search, SlidersHorizontal, Trash2
+} from 'lucide-react';
+
+type MovementType = 'receive' | 'issue' | 'adjust';
+
+interface StockLevel {
+  locationId: number | null;
+  locationPath: string | null;
+  quantity: number;
+}
+
+interface ConsumableSummary {
+  id: number;
+  name: string;
+  sku: string | null;
+  category: string | null;
+  unit: string;
+  minStock: number;
+  unitCost: string | null;
+  notes: string | null;
+  isActive: boolean;
+  totalQuantity: number;
+  lowStock: boolean;
+  stock: StockLevel[];
+}
+
+interface ConsumableTransaction {
+  id: number;
+  type: MovementType;
+  quantity: number;
+  locationPath: string | null;
+  employeeName: string | null;
+  department: string | null;
+  unitCost: string | null;
+  reference: string | null;
+  notes: string | null;
+  performedByName: string | null;
+  createdAt: string;
+}
+
+interface ConsumableDetails extends ConsumableSummary {
+  transactions: ConsumableTransaction[];
+}
+
+const emptyForm = { name: '', sku: '', category: '', unit: 'pcs', minStock: '0', unitCost: '', notes: '', isActive: true };
+const emptyMovement = { quantity: '1', locationId: null as number | null, employeeId: '', unitCost: '', reference: '', notes: '' };
+
+export default function Consumables() {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { formatCurrency } = useCurrency();
+  const queryClient = useQueryClient();
+
+  const [search, setSearch] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState('all');
+  const [locationFilter, setLocationFilter] = useState<number | null>(null);
+  const [lowStockOnly, setLowStockOnly] = useState(false);
+  const [showInactive, setShowInactive] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<ConsumableSummary | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [movementTarget, setMovementTarget] = useState<{ consumable: ConsumableSummary; type: MovementType } | null>(null);
+  const [movement, setMovement] = useState(emptyMovement);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+
+  const isManager = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER]);
+
+  const t = {
+    title: language === 'English' ? 'Consumables' : 'المستهلكات',
+    description: language === 'English'
+      ? 'Cables, peripherals, toner and other stock tracked by quantity per location'
+      : 'الكابلات والملحقات والأحبار وغيرها من المخزون المتتبع بالكمية لكل موقع',
+    newConsumable: language === 'English' ? 'New Consumable' : 'مستهلك جديد',
+    editConsumable: language === 'English' ? 'Edit Consumable' : 'تعديل المستهلك',
+    searchPlaceholder: language === 'English' ? 'Search name, SKU or category...' : 'البحث بالاسم أو الرمز أو الفئة...',
+    allCategories: language === 'English' ? 'All categories' : 'جميع الفئات',
+    allLocations: language === 'English' ? 'All locations' : 'جميع المواقع',
+    lowStockOnly: language === 'English' ? 'Low stock only' : 'المخزون المنخفض فقط',
+    showInactive: language === 'English' ? 'Show inactive' : 'إظهار غير النشطة',
+    items: language === 'English' ? 'Items' : 'الأصناف',
+    lowStock: language === 'English' ? 'Low Stock' : 'مخزون منخفض',
+    outOfStock: language === 'English' ? 'Out of Stock' : 'نفد المخزون',
+    stockValue: language === 'English' ? 'Stock Value' : 'قيمة المخزون',
+    name: language === 'English' ? 'Name' : 'الاسم',
+    sku: language === 'English' ? 'SKU' : 'رمز الصنف',
+    category: language === 'English' ? 'Category' : 'الفئة',
+    unit: language === 'English' ? 'Unit' : 'الوحدة',
+    onHand: language === 'English' ? 'On Hand' : 'المتوفر',
+    minStock: language === 'English' ? 'Reorder At' : 'حد إعادة الطلب',
+    minStockHint: language === 'English'
+      ? 'Managers are notified when the total across locations drops to this quantity; 0 turns alerts off'
+      : 'يتم إشعار المدراء عندما ينخفض الإجمالي في جميع المواقع إلى هذه الكمية؛ 0 يوقف التنبيهات',
+    byLocation: language === 'English' ? 'By Location' : 'حسب الموقع',
+    noLocation: language === 'English' ? 'No location' : 'بدون موقع',
+    unitCost: language === 'English' ? 'Unit Cost' : 'تكلفة الوحدة',
+    active: language === 'English' ? 'Active' : 'نشط',
+    inactive: language === 'English' ? 'Inactive' : 'غير نشط',
+    notes: language === 'English' ? 'Notes' : 'ملاحظات',
+    actions: language === 'English' ? 'Actions' : 'الإجراءات',
+    noConsumables: language === 'English' ? 'No consumables found' : 'لا توجد مستهلكات',
+    receive: language === 'English' ? 'Receive Stock' : 'استلام مخزون',
+    issue: language === 'English' ? 'Issue to Employee' : 'صرف لموظف',
+    adjust: language === 'English' ? 'Adjust Stock' : 'تعديل المخزون',
+    history: language === 'English' ? 'Movements' : 'الحركات',
+    quantity: language === 'English' ? 'Quantity' : 'الكمية',
+    countedQuantity: language === 'English' ? 'Counted quantity on hand' : 'الكمية المعدودة المتوفرة',
+    location: language === 'English' ? 'Location' : 'الموقع',
+    issueFrom: language === 'English' ? 'Issue from' : 'الصرف من',
+    nothingInStock: language === 'English' ? 'Nothing in stock to issue' : 'لا يوجد مخزون للصرف',
+    available: (quantity: number, unit: string) => language === 'English' ? `${quantity} ${unit} available` : `${quantity} ${unit} متوفر`,
+    employee: language === 'English' ? 'Employee' : 'الموظف',
+    reference: language === 'English' ? 'Invoice / delivery note' : 'الفاتورة / سند التسليم',
+    date: language === 'English' ? 'Date' : 'التاريخ',
+    type: language === 'English' ? 'Type' : 'النوع',
+    details: language === 'English' ? 'Details' : 'التفاصيل',
+    by: language === 'English' ? 'By' : 'بواسطة',
+    received: language === 'English' ? 'Received' : 'استلام',
+    issued: language === 'English' ? 'Issued' : 'صرف',
+    adjusted: language === 'English' ? 'Adjusted' : 'تعديل',
+    noMovements: language === 'English' ? 'No stock movements yet' : 'لا توجد حركات مخزون بعد',
+    confirmDelete: (name: string) => language === 'English' ? `Delete ${name}?` : `هل تريد حذف ${name}؟`,
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    save: language === 'English' ? 'Save' : 'حفظ',
+    create: language === 'English' ? 'Create' : 'إنشاء',
+    error: language === 'English' ? 'Error' : 'خطأ',
+    done: language === 'English' ? 'Done' : 'تم',
+  };
+
+  const movementLabels: Record<MovementType, string> = { receive: t.received, issue: t.issued, adjust: t.adjusted };
+  const movementTitles: Record<MovementType, string> = { receive: t.receive, issue: t.issue, adjust: t.adjust };
+
+  const listQuery = new URLSearchParams();
+  if (search.trim()) listQuery.set('search', search.trim());
+  if (categoryFilter !== 'all') listQuery.set('category', categoryFilter);
+  if (locationFilter) listQuery.set('locationId', String(locationFilter));
+  if (lowStockOnly) listQuery.set('lowStock', 'true');
+  if (showInactive) listQuery.set('includeInactive', 'true');
+  const listQueryString = listQuery.toString();
+
+  const { data: items = [], isLoading } = useQuery<ConsumableSummary[]>({
+    queryKey: [`/api/consumables${listQueryString ? `?${listQueryString}` : ''}`],
+  });
+
+  // Unfiltered list for the category choices
+  const { data: allItems = [] } = useQuery<ConsumableSummary[]>({
+    queryKey: ['/api/consumables?includeInactive=true'],
+  });
+
+  const { data: history, isLoading: historyLoading } = useQuery<ConsumableDetails>({
+    queryKey: [`/api/consumables/${historyId}`],
+    enabled: historyId !== null,
+  });
+
+  const categories = useMemo(
+    () => Array.from(new Set(allItems.map(item => item.category).filter((category): category is string => Boolean(category)))).sort(),
+    [allItems]
+  );
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/consumables')
+        || String(query.queryKey[0]).startsWith('/api/reports/consumables')
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload = {
+        name: form.name,
+        sku: form.sku || null,
+        category: form.category || null,
+        unit: form.unit || 'pcs',
+        minStock: parseInt(form.minStock) || 0,
+        unitCost: form.unitCost.trim() ? parseFloat(form.unitCost) : null,
+        notes: form.notes || null,
+        isActive: form.isActive,
+      };
+      return editing
+        ? apiRequest(`/api/consumables/${editing.id}`, 'PUT', payload)
+        : apiRequest('/api/consumables', 'POST', payload);
+    },
+    onSuccess: () => {
+      refresh();
+      setFormOpen(false);
+    },
+    onError: handleError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/consumables/${id}`, 'DELETE'),
+    onSuccess: refresh,
+    onError: handleError
+  });
+
+  const movementMutation = useMutation({
+    mutationFn: () => {
+      if (!movementTarget) throw new Error('No consumable selected');
+      const { consumable, type } = movementTarget;
+      return apiRequest(`/api/consumables/${consumable.id}/${type}`, 'POST', {
+        quantity: parseInt(movement.quantity),
+        locationId: movement.locationId,
+        notes: movement.notes || null,
+        ...(type === 'issue' ? { employeeId: parseInt(movement.employeeId) } : {}),
+        ...(type === 'receive' ? {
+          unitCost: movement.unitCost.trim() ? parseFloat(movement.unitCost) : null,
+          reference: movement.reference || null,
+        } : {}),
+      });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: t.done, description: movementTarget ? `${movementTitles[movementTarget.type]}: ${movementTarget.consumable.name}` : undefined });
+      setMovementTarget(null);
+    },
+    onError: handleError
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setFormOpen(true);
+  };
+
+  const openEdit = (item: ConsumableSummary) => {
+    setEditing(item);
+    setForm({
+      name: item.name,
+      sku: item.sku || '',
+      category: item.category || '',
+      unit: item.unit,
+      minStock: String(item.minStock),
+      unitCost: item.unitCost ?? '',
+      notes: item.notes || '',
+      isActive: item.isActive,
+    });
+    setFormOpen(true);
+  };
+
+  const openMovement = (consumable: ConsumableSummary, type: MovementType) => {
+    // Issues default to the location with the most stock
+    const fullest = [...consumable.stock].sort((a, b) => b.quantity - a.quantity)[0];
+    setMovement({ ...emptyMovement, locationId: type === 'issue' ? fullest?.locationId ?? null : null, quantity: type === 'adjust' ? '' : '1' });
+    setMovementTarget({ consumable, type });
+  };
+
+  const issueLevel = movementTarget?.type === 'issue'
+    ? movementTarget.consumable.stock.find(level => level.locationId === movement.locationId)
+    : undefined;
+  const adjustLevel = movementTarget?.type === 'adjust'
+    ? movementTarget.consumable.stock.find(level => level.locationId === movement.locationId)
+    : undefined;
+
+  const quantityValue = parseInt(movement.quantity);
+  const movementValid = movementTarget !== null && !isNaN(quantityValue) && (
+    movementTarget.type === 'adjust'
+      ? quantityValue >= 0
+      : quantityValue >= 1 && (movementTarget.type === 'receive'
+        || (Boolean(movement.employeeId) && movement.employeeId !== 'none' && quantityValue <= (issueLevel?.quantity ?? 0)))
+  );
+
+  const stockValue = items.reduce((total, item) => total + (item.unitCost ? parseFloat(item.unitCost) * Math.max(item.totalQuantity, 0) : 0), 0);
+
+  const quantityBadge = (item: ConsumableSummary) => {
+    const label = `${item.totalQuantity} ${item.unit}`;
+    if (item.totalQuantity <= 0) return <Badge variant="destructive">{label}</Badge>;
+    if (item.lowStock) return <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">{label}</Badge>;
+    return <span className="font-medium">{label}</span>;
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <Boxes className="h-6 w-6 text-blue-600" />
+            <h1 className="text-2xl font-bold">{t.title}</h1>
+          </div>
+          <p className="text-muted-foreground">{t.description}</p>
+        </div>
+        {isManager && (
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t.newConsumable}
+          </Button>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {[
+          { label: t.items, value: items.length },
+          { label: t.lowStock, value: items.filter(item => item.lowStock && item.totalQuantity > 0).length },
+          { label: t.outOfStock, value: items.filter(item => item.totalQuantity <= 0).length },
+          { label: t.stockValue, value: formatCurrency(stockValue) },
+        ].map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="p-4">
+              <div className="text-xs text-muted-foreground">{stat.label}</div>
+              <div className="text-2xl font-bold">{stat.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col lg:flex-row gap-3 lg:items-center">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder={t.searchPlaceholder} className="pl-9" />
+            </div>
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger className="w-full lg:w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t.allCategories}</SelectItem>
+                {categories.map(category => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="w-full lg:w-[220px]">
+              <LocationSelect value={locationFilter} onChange={setLocationFilter} emptyLabel={t.allLocations} />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch checked={lowStockOnly} onCheckedChange={setLowStockOnly} id="low-stock-only" />
+              <Label htmlFor="low-stock-only" className="whitespace-nowrap">{t.lowStockOnly}</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch checked={showInactive} onCheckedChange={setShowInactive} id="show-inactive" />
+              <Label htmlFor="show-inactive" className="whitespace-nowrap">{t.showInactive}</Label>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">{t.noConsumables}</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t.name}</TableHead>
+                  <TableHead>{t.category}</TableHead>
+                  <TableHead>{t.onHand}</TableHead>
+                  <TableHead>{t.minStock}</TableHead>
+                  <TableHead>{t.byLocation}</TableHead>
+                  <TableHead>{t.unitCost}</TableHead>
+                  <TableHead className="text-right">{t.actions}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => (
+                  <TableRow key={item.id} className={item.isActive ? '' : 'opacity-60'}>
+                    <TableCell>
+                      <div className="font-medium">{item.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {[item.sku, item.isActive ? null : t.inactive].filter(Boolean).join(' · ')}
+                      </div>
+                    </TableCell>
+                    <TableCell>{item.category || '-'}</TableCell>
+                    <TableCell>{quantityBadge(item)}</TableCell>
+                    <TableCell>{item.minStock > 0 ? item.minStock : '-'}</TableCell>
+                    <TableCell className="text-sm">
+                      {item.stock.length === 0 ? '-' : item.stock.map(level => (
+                        <div key={level.locationId ?? 'none'}>
+                          <span className="text-muted-foreground">{level.locationPath || t.noLocation}:</span> {level.quantity}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>{item.unitCost !== null ? formatCurrency(item.unitCost) : '-'}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {item.isActive && (
+                        <>
+                          <Button variant="ghost" size="sm" title={t.receive} onClick={() => openMovement(item, 'receive')}>
+                            <PackagePlus className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={t.issue}
+                            disabled={item.totalQuantity <= 0}
+                            onClick={() => openMovement(item, 'issue')}
+                          >
+                            <PackageMinus className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      <Button variant="ghost" size="sm" title={t.history} onClick={() => setHistoryId(item.id)}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                      {isManager && (
+                        <>
+                          <Button variant="ghost" size="sm" title={t.adjust} onClick={() => openMovement(item, 'adjust')}>
+                            <SlidersHorizontal className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => openEdit(item)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => window.confirm(t.confirmDelete(item.name)) && deleteMutation.mutate(item.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / edit */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? t.editConsumable : t.newConsumable}</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.name}</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.sku}</Label>
+              <Input value={form.sku} onChange={(e) => setForm({ ...form, sku: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.category}</Label>
+              <Input list="consumable-categories" value={form.category} onChange={(e) => setForm({ ...form, category: e.target.value })} />
+              <datalist id="consumable-categories">
+                {categories.map(category => <option key={category} value={category} />)}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.unit}</Label>
+              <Input value={form.unit} onChange={(e) => setForm({ ...form, unit: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.unitCost}</Label>
+              <Input type="number" min={0} step="0.01" value={form.unitCost} onChange={(e) => setForm({ ...form, unitCost: e.target.value })} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.minStock}</Label>
+              <Input type="number" min={0} value={form.minStock} onChange={(e) => setForm({ ...form, minStock: e.target.value })} />
+              <p className="text-xs text-muted-foreground">{t.minStockHint}</p>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.notes}</Label>
+              <Textarea rows={2} value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+            </div>
+            {editing && (
+              <div className="flex items-center gap-2">
+                <Switch checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+                <Label>{t.active}</Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>{t.cancel}</Button>
+            <Button disabled={!form.name.trim() || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing ? t.save : t.create}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Receive / issue / adjust */}
+      <Dialog open={movementTarget !== null} onOpenChange={(open) => !open && setMovementTarget(null)}>
+        <DialogContent className="max-w-lg">
+          {movementTarget && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{movementTitles[movementTarget.type]}</DialogTitle>
+                <DialogDescription>
+                  {movementTarget.consumable.name}
+                  {movementTarget.consumable.sku ? ` (${movementTarget.consumable.sku})` : ''}
+                  {' · '}
+                  {movementTarget.consumable.totalQuantity} {movementTarget.consumable.unit}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                {movementTarget.type === 'issue' ? (
+                  <div className="space-y-2">
+                    <Label>{t.issueFrom}</Label>
+                    {movementTarget.consumable.stock.some(level => level.quantity > 0) ? (
+                      <Select
+                        value={movement.locationId === null ? 'none' : String(movement.locationId)}
+                        onValueChange={(value) => setMovement({ ...movement, locationId: value === 'none' ? null : parseInt(value) })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {movementTarget.consumable.stock.filter(level => level.quantity > 0).map(level => (
+                            <SelectItem key={level.locationId ?? 'none'} value={level.locationId === null ? 'none' : String(level.locationId)}>
+                              {level.locationPath || t.noLocation} ({level.quantity})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <p className="text-sm text-red-600">{t.nothingInStock}</p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label>{t.location}</Label>
+                    <LocationSelect value={movement.locationId} onChange={(locationId) => setMovement({ ...movement, locationId })} />
+                    {movementTarget.type === 'adjust' && (
+                      <p className="text-xs text-muted-foreground">
+                        {t.available(adjustLevel?.quantity ?? 0, movementTarget.consumable.unit)}
+                      </p>
+                    )}
+                  </div>
+                )}
+                {movementTarget.type === 'issue' && (
+                  <div className="space-y-2">
+                    <Label>{t.employee}</Label>
+                    <ActiveEmployeeSelect value={movement.employeeId} onValueChange={(employeeId) => setMovement({ ...movement, employeeId })} />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label>{movementTarget.type === 'adjust' ? t.countedQuantity : t.quantity}</Label>
+                  <Input
+                    type="number"
+                    min={movementTarget.type === 'adjust' ? 0 : 1}
+                    max={movementTarget.type === 'issue' ? issueLevel?.quantity : undefined}
+                    value={movement.quantity}
+                    onChange={(e) => setMovement({ ...movement, quantity: e.target.value })}
+                  />
+                  {movementTarget.type === 'issue' && issueLevel && (
+                    <p className="text-xs text-muted-foreground">{t.available(issueLevel.quantity, movementTarget.consumable.unit)}</p>
+                  )}
+                </div>
+                {movementTarget.type === 'receive' && (
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label>{t.unitCost}</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={movement.unitCost}
+                        placeholder={movementTarget.consumable.unitCost ?? ''}
+                        onChange={(e) => setMovement({ ...movement, unitCost: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>{t.reference}</Label>
+                      <Input value={movement.reference} onChange={(e) => setMovement({ ...movement, reference: e.target.value })} />
+                    </div>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label>{t.notes}</Label>
+                  <Textarea rows={2} value={movement.notes} onChange={(e) => setMovement({ ...movement, notes: e.target.value })} />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setMovementTarget(null)}>{t.cancel}</Button>
+                <Button disabled={!movementValid || movementMutation.isPending} onClick={() => movementMutation.mutate()}>
+                  {movementMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {t.save}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Movement history */}
+      <Dialog open={historyId !== null} onOpenChange={(open) => !open && setHistoryId(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          {historyLoading || !history ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle>{history.name}</DialogTitle>
+                <DialogDescription>
+                  {[history.sku, history.category, `${history.totalQuantity} ${history.unit}`].filter(Boolean).join(' · ')}
+                </DialogDescription>
+              </DialogHeader>
+              {history.transactions.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">{t.noMovements}</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t.date}</TableHead>
+                      <TableHead>{t.type}</TableHead>
+                      <TableHead className="text-right">{t.quantity}</TableHead>
+                      <TableHead>{t.location}</TableHead>
+                      <TableHead>{t.details}</TableHead>
+                      <TableHead>{t.by}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {history.transactions.map(transaction => (
+                      <TableRow key={transaction.id}>
+                        <TableCell className="whitespace-nowrap">{new Date(transaction.createdAt).toLocaleString()}</TableCell>
+                        <TableCell>
+                          <Badge variant={transaction.type === 'issue' ? 'secondary' : 'outline'}>{movementLabels[transaction.type]}</Badge>
+                        </TableCell>
+                        <TableCell className={`text-right font-medium ${transaction.quantity < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                          {transaction.quantity > 0 ? `+${transaction.quantity}` : transaction.quantity}
+                        </TableCell>
+                        <TableCell>{transaction.locationPath || t.noLocation}</TableCell>
+                        <TableCell className="text-sm">
+                          {transaction.employeeName && (
+                            <div>{transaction.employeeName}{transaction.department ? ` · ${transaction.department}` : ''}</div>
+                          )}
+                          {transaction.reference && <div className="text-muted-foreground">{transaction.reference}</div>}
+                          {transaction.notes && <div className="text-muted-foreground">{transaction.notes}</div>}
+                        </TableCell>
+                        <TableCell>{transaction.performedByName || '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
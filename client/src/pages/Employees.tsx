@@ -9,6 +9,9 @@ import EmployeesTable from '@/components/employees/EmployeesTable';
 import EmployeeForm from '@/components/employees/EmployeeForm';
 import EmployeeCustomFilters, { CustomFilterType } from '@/components/employees/EmployeeCustomFilters';
 import { applyCustomEmployeeFilter } from '@/utils/employeeFilters'
+import CustomFieldFilter from '@/components/custom-fields/CustomFieldFilter';
+import { useCustomFieldDefinitions } from '@/components/custom-fields/CustomFieldInputs';
+import { matchesCustomFieldFilter } from '@shared/customFields';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -45,6 +48,8 @@ export default function Employees() {
   const [importFile, setImportFile] = useState<File | null>(null);
   const [isImporting, setIsImporting] = useState(false);
   const [customFilter, setCustomFilter] = useState<CustomFilterType>(null);
+  const [customFieldFilter, setCustomFieldFilter] = useState<{ field?: string; value?: string }>({});
+  const customFieldDefinitions = useCustomFieldDefinitions('employee');
   const isInitialMount = useRef(true);
   const updateTimeoutRef = useRef<NodeJS.Timeout>(); 
 
@@ -495,7 +500,11 @@ export default function Employees() {
     const matchesEmploymentType = employmentTypeFilter === 'All' || 
       safeEmployee.employmentType === employmentTypeFilter;
     
-    return matchesSearch && matchesStatus && matchesDepartment && matchesEmploymentType;
+    // Admin-defined custom field filter
+    const matchesCustomField = !customFieldFilter.field ||
+      matchesCustomFieldFilter(employee?.customFields, customFieldFilter.field, customFieldFilter.value);
+    
+    return matchesSearch && matchesStatus && matchesDepartment && matchesEmploymentType && matchesCustomField;
   });
 
   // Then, apply custom filter if it exists
@@ -504,7 +513,7 @@ export default function Employees() {
   }
 
   return filtered;
-}, [employees, searchQuery, statusFilter, departmentFilter, employmentTypeFilter, customFilter, assets]);
+}, [employees, searchQuery, statusFilter, departmentFilter, employmentTypeFilter, customFilter, customFieldFilter, assets]);
 
   // Count active filters for display
   const activeFilterCount = useMemo(() => {
@@ -514,8 +523,9 @@ export default function Employees() {
     if (departmentFilter !== 'All') count++;
     if (employmentTypeFilter !== 'All') count++;
     if (customFilter) count++;
+    if (customFieldFilter.field) count++;
     return count;
-  }, [searchQuery, statusFilter, departmentFilter, employmentTypeFilter,customFilter]);
+  }, [searchQuery, statusFilter, departmentFilter, employmentTypeFilter,customFilter, customFieldFilter]);
 
   // Add this useEffect to read URL parameters on mount
 
@@ -685,6 +695,15 @@ export default function Employees() {
             </div>
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <CustomFieldFilter
+              entityType="employee"
+              field={customFieldFilter.field}
+              value={customFieldFilter.value}
+              onChange={(field, value) => setCustomFieldFilter({ field, value })}
+            />
+          </div>
+
           {/* Active Filters */}
           {activeFilterCount > 0 && (
             <div className="flex flex-wrap gap-2 pt-2 border-t">
@@ -733,6 +752,15 @@ export default function Employees() {
                   />
                 </Badge>
               )}
+              {customFieldFilter.field && (
+                <Badge variant="outline" className="gap-1">
+                  {customFieldDefinitions.find(definition => definition.key === customFieldFilter.field)?.label || customFieldFilter.field}: {customFieldFilter.value || '*'}
+                  <X 
+                    className="h-3 w-3 cursor-pointer" 
+                    onClick={() => setCustomFieldFilter({})}
+                  />
+                </Badge>
+              )}
               <Button 
                 variant="ghost" 
                 size="sm" 
@@ -742,6 +770,7 @@ export default function Employees() {
                   setStatusFilter('All');
                   setSearchQuery('');
                   setCustomFilter(null);
+                  setCustomFieldFilter({});
                 }}
                 className="h-6 px-2 text-xs"
               >
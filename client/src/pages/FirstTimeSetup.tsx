@@ -18,6 +18,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { queryClient } from '@/lib/queryClient';
 import { apiRequest } from '@/lib/queryClient';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
 import { VERSION_INFO, getVersionString } from '@shared/version';
 
 const setupSchema = z.object({
@@ -122,9 +123,7 @@ export default function FirstTimeSetup() {
                     <FormControl>
                       <Input type="password" placeholder="••••••••" {...field} />
                     </FormControl>
-                    <FormDescription>
-                      Must be at least 6 characters
-                    </FormDescription>
+                    <PasswordStrengthMeter password={field.value} />
                     <FormMessage />
                   </FormItem>
                 )}
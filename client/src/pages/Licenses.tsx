@@ -0,0 +1,980 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import { useAuth } from '@/lib/authContext';
+import { useCurrency } from '@/lib/currencyContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { hasPermission } from '@/components/auth/RoleGuard';
+import { ROLE_IDS } from '@shared/roles.config';
+import ActiveEmployeeSelect from '@/components/employees/ActiveEmployee';
+import VendorsDialog, { type Vendor } from '@/components/vendors/VendorsDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Building2, Download, Eye, KeyRound, Loader2, Pencil, Plus, Search, Trash2, UserMinus, Users
+} from 'lucide-react';
+
+type LicenseType = 'subscription' | 'perpetual';
+type BillingCycle = 'monthly' | 'quarterly' | 'annual' | 'one_time';
+type LicenseStatus = 'active' | 'expired' | 'cancelled';
+type ComplianceStatus = 'over_allocated' | 'under_allocated' | 'compliant' | 'expired_in_use';
+
+interface LicenseSummary {
+  id: number;
+  productName: string;
+  vendorId: number | null;
+  vendorName: string | null;
+  edition: string | null;
+  licenseType: LicenseType;
+  seatCount: number;
+  usedSeats: number;
+  availableSeats: number;
+  hasLicenseKey: boolean;
+  billingCycle: BillingCycle;
+  cost: string | null;
+  annualCost: number | null;
+  purchaseDate: string | null;
+  renewalDate: string | null;
+  daysUntilRenewal: number | null;
+  autoRenew: boolean;
+  status: LicenseStatus;
+  renewalReminderDays: number;
+  notes: string | null;
+}
+
+interface LicenseSeat {
+  id: number;
+  employeeId: number | null;
+  assetId: number | null;
+  assignedAt: string;
+  releasedAt: string | null;
+  releaseReason: string | null;
+  notes: string | null;
+  employee: { id: number; empId: string; englishName: string; department: string; status: string } | null;
+  asset: { id: number; assetId: string; type: string; brand: string; serialNumber: string } | null;
+}
+
+interface LicenseDetails extends LicenseSummary {
+  seats: LicenseSeat[];
+}
+
+interface ComplianceReport {
+  summary: {
+    licenses: number;
+    overAllocated: number;
+    underAllocated: number;
+    expiredInUse: number;
+    compliant: number;
+    annualCost: number;
+    unusedAnnualCost: number;
+  };
+  licenses: Array<{
+    id: number;
+    productName: string;
+    edition: string | null;
+    vendorName: string | null;
+    status: LicenseStatus;
+    seatCount: number;
+    usedSeats: number;
+    overAllocatedSeats: number;
+    unusedSeats: number;
+    annualCost: number | null;
+    unusedAnnualCost: number | null;
+    renewalDate: string | null;
+    complianceStatus: ComplianceStatus;
+  }>;
+}
+
+interface AssetOption {
+  id: number;
+  assetId: string;
+  type: string;
+  brand: string;
+  serialNumber: string;
+}
+
+const emptyLicenseForm = {
+  productName: '',
+  vendorId: 'none',
+  edition: '',
+  licenseType: 'subscription' as LicenseType,
+  seatCount: '1',
+  licenseKey: '',
+  billingCycle: 'annual' as BillingCycle,
+  cost: '',
+  purchaseDate: '',
+  renewalDate: '',
+  autoRenew: false,
+  status: 'active' as LicenseStatus,
+  renewalReminderDays: '30',
+  notes: '',
+};
+
+
+export default function Licenses() {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { formatCurrency } = useCurrency();
+  const queryClient = useQueryClient();
+
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState('active');
+  const [vendorFilter, setVendorFilter] = useState('all');
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<LicenseSummary | null>(null);
+  const [form, setForm] = useState(emptyLicenseForm);
+  const [changeKey, setChangeKey] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [revealedKey, setRevealedKey] = useState<string | null>(null);
+  const [holderType, setHolderType] = useState<'employee' | 'asset'>('employee');
+  const [seatEmployeeId, setSeatEmployeeId] = useState('');
+  const [seatAssetCode, setSeatAssetCode] = useState('');
+  const [seatNotes, setSeatNotes] = useState('');
+  const [vendorsOpen, setVendorsOpen] = useState(false);
+
+  const isManager = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER]);
+
+  const t = {
+    title: language === 'English' ? 'Software Licenses' : 'تراخيص البرامج',
+    description: language === 'English'
+      ? 'Track subscriptions and licenses, who holds each seat, and what is up for renewal'
+      : 'تتبع الاشتراكات والتراخيص، ومن يشغل كل مقعد، وما يقترب موعد تجديده',
+    newLicense: language === 'English' ? 'New License' : 'ترخيص جديد',
+    editLicense: language === 'English' ? 'Edit License' : 'تعديل الترخيص',
+    vendors: language === 'English' ? 'Vendors' : 'الموردون',
+    export: language === 'English' ? 'Export CSV' : 'تصدير CSV',
+    licensesTab: language === 'English' ? 'Licenses' : 'التراخيص',
+    complianceTab: language === 'English' ? 'Compliance' : 'الامتثال',
+    searchPlaceholder: language === 'English' ? 'Search product, edition or vendor...' : 'البحث عن منتج أو إصدار أو مورد...',
+    allStatuses: language === 'English' ? 'All statuses' : 'جميع الحالات',
+    allVendors: language === 'English' ? 'All vendors' : 'جميع الموردين',
+    product: language === 'English' ? 'Product' : 'المنتج',
+    productName: language === 'English' ? 'Product Name' : 'اسم المنتج',
+    vendor: language === 'English' ? 'Vendor' : 'المورد',
+    noVendor: language === 'English' ? 'No vendor' : 'بدون مورد',
+    edition: language === 'English' ? 'Edition' : 'الإصدار',
+    licenseType: language === 'English' ? 'License Type' : 'نوع الترخيص',
+    subscription: language === 'English' ? 'Subscription' : 'اشتراك',
+    perpetual: language === 'English' ? 'Perpetual' : 'دائم',
+    seats: language === 'English' ? 'Seats' : 'المقاعد',
+    seatCount: language === 'English' ? 'Seat Count' : 'عدد المقاعد',
+    licenseKey: language === 'English' ? 'License Key' : 'مفتاح الترخيص',
+    licenseKeyHint: language === 'English' ? 'Stored encrypted; only managers can reveal it' : 'يُخزن مشفراً؛ يمكن للمدراء فقط عرضه',
+    keyStored: language === 'English' ? 'A key is stored' : 'يوجد مفتاح مخزن',
+    changeKey: language === 'English' ? 'Replace or remove the stored key' : 'استبدال أو حذف المفتاح المخزن',
+    revealKey: language === 'English' ? 'Reveal Key' : 'عرض المفتاح',
+    billing: language === 'English' ? 'Billing' : 'الفوترة',
+    billingCycle: language === 'English' ? 'Billing Cycle' : 'دورة الفوترة',
+    cost: language === 'English' ? 'Cost per Cycle' : 'التكلفة لكل دورة',
+    annualCost: language === 'English' ? 'Annual Cost' : 'التكلفة السنوية',
+    purchaseDate: language === 'English' ? 'Purchase Date' : 'تاريخ الشراء',
+    renewalDate: language === 'English' ? 'Renewal Date' : 'تاريخ التجديد',
+    renewal: language === 'English' ? 'Renewal' : 'التجديد',
+    autoRenew: language === 'English' ? 'Renews automatically' : 'يتجدد تلقائياً',
+    reminderDays: language === 'English' ? 'First reminder (days before renewal)' : 'التذكير الأول (أيام قبل التجديد)',
+    status: language === 'English' ? 'Status' : 'الحالة',
+    notes: language === 'English' ? 'Notes' : 'ملاحظات',
+    actions: language === 'English' ? 'Actions' : 'الإجراءات',
+    noLicenses: language === 'English' ? 'No licenses found' : 'لا توجد تراخيص',
+    inDays: (days: number) => days < 0
+      ? (language === 'English' ? `${-days} day(s) overdue` : `متأخر ${-days} يوم`)
+      : (language === 'English' ? `in ${days} day(s)` : `خلال ${days} يوم`),
+    manageSeats: language === 'English' ? 'Manage seats' : 'إدارة المقاعد',
+    confirmDelete: (name: string) => language === 'English'
+      ? `Delete ${name} and its seat history?`
+      : `هل تريد حذف ${name} وسجل مقاعده؟`,
+    holder: language === 'English' ? 'Assigned To' : 'مخصص لـ',
+    assigned: language === 'English' ? 'Assigned' : 'تاريخ التخصيص',
+    released: language === 'English' ? 'Released' : 'تم التحرير',
+    releasedOffboarding: language === 'English' ? 'Released at offboarding' : 'تم التحرير عند إنهاء الخدمة',
+    inUse: language === 'English' ? 'In use' : 'قيد الاستخدام',
+    release: language === 'English' ? 'Release' : 'تحرير',
+    confirmRelease: language === 'English' ? 'Release this seat?' : 'هل تريد تحرير هذا المقعد؟',
+    noSeats: language === 'English' ? 'No seats assigned yet' : 'لم يتم تخصيص أي مقعد بعد',
+    assignSeat: language === 'English' ? 'Assign Seat' : 'تخصيص مقعد',
+    employee: language === 'English' ? 'Employee' : 'موظف',
+    asset: language === 'English' ? 'Asset' : 'أصل',
+    assetCode: language === 'English' ? 'Asset ID or serial number' : 'رقم الأصل أو الرقم التسلسلي',
+    assetNotFound: language === 'English' ? 'No asset with this ID or serial number' : 'لا يوجد أصل بهذا الرقم أو الرقم التسلسلي',
+    assign: language === 'English' ? 'Assign' : 'تخصيص',
+    seatsFull: language === 'English' ? 'All seats are in use' : 'جميع المقاعد مستخدمة',
+    active: language === 'English' ? 'Active' : 'نشط',
+    expired: language === 'English' ? 'Expired' : 'منتهي',
+    cancelled: language === 'English' ? 'Cancelled' : 'ملغى',
+    monthly: language === 'English' ? 'Monthly' : 'شهري',
+    quarterly: language === 'English' ? 'Quarterly' : 'ربع سنوي',
+    annual: language === 'English' ? 'Annual' : 'سنوي',
+    oneTime: language === 'English' ? 'One-time' : 'مرة واحدة',
+    overAllocated: language === 'English' ? 'Over-allocated' : 'تخصيص زائد',
+    underAllocated: language === 'English' ? 'Under-allocated' : 'تخصيص ناقص',
+    expiredInUse: language === 'English' ? 'Expired but in use' : 'منتهي وقيد الاستخدام',
+    compliant: language === 'English' ? 'Compliant' : 'ملتزم',
+    complianceTitle: language === 'English' ? 'Seat Compliance' : 'امتثال المقاعد',
+    complianceDescription: language === 'English'
+      ? 'Over-allocation is a licensing risk; unused seats are money spent for nothing'
+      : 'التخصيص الزائد يمثل مخاطرة ترخيص؛ والمقاعد غير المستخدمة تكلفة بلا فائدة',
+    overSeats: language === 'English' ? 'Over' : 'زائد',
+    unusedSeats: language === 'English' ? 'Unused' : 'غير مستخدم',
+    unusedCost: language === 'English' ? 'Unused Annual Cost' : 'التكلفة السنوية غير المستخدمة',
+    compliance: language === 'English' ? 'Compliance' : 'الامتثال',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    save: language === 'English' ? 'Save' : 'حفظ',
+    create: language === 'English' ? 'Create' : 'إنشاء',
+    error: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const statusLabels: Record<LicenseStatus, string> = { active: t.active, expired: t.expired, cancelled: t.cancelled };
+  const cycleLabels: Record<BillingCycle, string> = { monthly: t.monthly, quarterly: t.quarterly, annual: t.annual, one_time: t.oneTime };
+  const complianceLabels: Record<ComplianceStatus, string> = {
+    over_allocated: t.overAllocated,
+    under_allocated: t.underAllocated,
+    expired_in_use: t.expiredInUse,
+    compliant: t.compliant,
+  };
+
+  const licenseQuery = new URLSearchParams();
+  if (statusFilter !== 'all') licenseQuery.set('status', statusFilter);
+  if (vendorFilter !== 'all') licenseQuery.set('vendorId', vendorFilter);
+  if (search.trim()) licenseQuery.set('search', search.trim());
+  const licenseQueryString = licenseQuery.toString();
+
+  const { data: licenses = [], isLoading } = useQuery<LicenseSummary[]>({
+    queryKey: [`/api/licenses${licenseQueryString ? `?${licenseQueryString}` : ''}`],
+  });
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ['/api/vendors'],
+  });
+
+  const { data: compliance } = useQuery<ComplianceReport>({
+    queryKey: ['/api/licenses/compliance'],
+  });
+
+  const { data: details, isLoading: detailsLoading } = useQuery<LicenseDetails>({
+    queryKey: [`/api/licenses/${selectedId}`],
+    enabled: selectedId !== null,
+  });
+
+  const { data: assets = [] } = useQuery<AssetOption[]>({
+    queryKey: ['/api/assets'],
+    enabled: selectedId !== null && holderType === 'asset',
+  });
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/licenses')
+    });
+  };
+
+  const refreshVendors = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/vendors')
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload: Record<string, unknown> = {
+        productName: form.productName,
+        vendorId: form.vendorId !== 'none' ? parseInt(form.vendorId) : null,
+        edition: form.edition || null,
+        licenseType: form.licenseType,
+        seatCount: parseInt(form.seatCount) || 0,
+        billingCycle: form.billingCycle,
+        cost: form.cost.trim() ? parseFloat(form.cost) : null,
+        purchaseDate: form.purchaseDate || null,
+        renewalDate: form.renewalDate || null,
+        autoRenew: form.autoRenew,
+        status: form.status,
+        renewalReminderDays: parseInt(form.renewalReminderDays) || 30,
+        notes: form.notes || null,
+      };
+      // Leaving licenseKey out keeps the stored key
+      if (!editing || changeKey) payload.licenseKey = form.licenseKey || null;
+      return editing
+        ? apiRequest(`/api/licenses/${editing.id}`, 'PUT', payload)
+        : apiRequest('/api/licenses', 'POST', payload);
+    },
+    onSuccess: () => {
+      refresh();
+      refreshVendors();
+      setFormOpen(false);
+    },
+    onError: handleError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/licenses/${id}`, 'DELETE'),
+    onSuccess: () => {
+      refresh();
+      refreshVendors();
+    },
+    onError: handleError
+  });
+
+  const revealMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/licenses/${id}/key`, 'GET'),
+    onSuccess: (response: { licenseKey: string }) => setRevealedKey(response.licenseKey),
+    onError: handleError
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) => apiRequest(`/api/licenses/${selectedId}/seats`, 'POST', data),
+    onSuccess: () => {
+      refresh();
+      setSeatEmployeeId('');
+      setSeatAssetCode('');
+      setSeatNotes('');
+    },
+    onError: handleError
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: (seatId: number) => apiRequest(`/api/licenses/${selectedId}/seats/${seatId}/release`, 'POST', {}),
+    onSuccess: refresh,
+    onError: handleError
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyLicenseForm);
+    setChangeKey(false);
+    setFormOpen(true);
+  };
+
+  const openEdit = (license: LicenseSummary) => {
+    setEditing(license);
+    setForm({
+      productName: license.productName,
+      vendorId: license.vendorId ? String(license.vendorId) : 'none',
+      edition: license.edition || '',
+      licenseType: license.licenseType,
+      seatCount: String(license.seatCount),
+      licenseKey: '',
+      billingCycle: license.billingCycle,
+      cost: license.cost ?? '',
+      purchaseDate: license.purchaseDate || '',
+      renewalDate: license.renewalDate || '',
+      autoRenew: license.autoRenew,
+      status: license.status,
+      renewalReminderDays: String(license.renewalReminderDays),
+      notes: license.notes || '',
+    });
+    setChangeKey(false);
+    setFormOpen(true);
+  };
+
+  const openDetails = (id: number) => {
+    setSelectedId(id);
+    setRevealedKey(null);
+    setHolderType('employee');
+    setSeatEmployeeId('');
+    setSeatAssetCode('');
+    setSeatNotes('');
+  };
+
+  const handleAssign = () => {
+    if (holderType === 'employee') {
+      if (!seatEmployeeId || seatEmployeeId === 'none') return;
+      assignMutation.mutate({ employeeId: parseInt(seatEmployeeId), notes: seatNotes || undefined });
+      return;
+    }
+
+    const code = seatAssetCode.trim().toLowerCase();
+    const asset = assets.find(item => item.assetId.toLowerCase() === code || item.serialNumber?.toLowerCase() === code);
+    if (!asset) {
+      toast({ title: t.error, description: t.assetNotFound, variant: 'destructive' });
+      return;
+    }
+    assignMutation.mutate({ assetId: asset.id, notes: seatNotes || undefined });
+  };
+
+  const activeVendors = useMemo(
+    () => vendors.filter(vendor => vendor.isActive || String(vendor.id) === form.vendorId),
+    [vendors, form.vendorId]
+  );
+
+  const statusBadge = (status: LicenseStatus) => {
+    if (status === 'active') return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{t.active}</Badge>;
+    if (status === 'expired') return <Badge variant="destructive">{t.expired}</Badge>;
+    return <Badge variant="secondary">{t.cancelled}</Badge>;
+  };
+
+  const complianceBadge = (status: ComplianceStatus) => {
+    if (status === 'compliant') return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{t.compliant}</Badge>;
+    if (status === 'under_allocated') return <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">{t.underAllocated}</Badge>;
+    return <Badge variant="destructive">{complianceLabels[status]}</Badge>;
+  };
+
+  const renewalCell = (license: Pick<LicenseSummary, 'renewalDate' | 'daysUntilRenewal' | 'status' | 'autoRenew'>) => {
+    if (!license.renewalDate || license.daysUntilRenewal === null) return '-';
+    const urgent = license.status === 'active' && license.daysUntilRenewal <= 30;
+    return (
+      <div>
+        <div>{new Date(license.renewalDate).toLocaleDateString()}</div>
+        {license.status === 'active' && (
+          <div className={`text-xs ${urgent ? 'text-red-600' : 'text-muted-foreground'}`}>
+            {t.inDays(license.daysUntilRenewal)}{license.autoRenew ? ` · ${t.autoRenew}` : ''}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const seatHolder = (seat: LicenseSeat) => {
+    if (seat.employee) {
+      return (
+        <div>
+          <div className="font-medium">{seat.employee.englishName}</div>
+          <div className="text-xs text-muted-foreground">{seat.employee.empId} · {seat.employee.department}</div>
+        </div>
+      );
+    }
+    if (seat.asset) {
+      return (
+        <div>
+          <div className="font-medium">{seat.asset.assetId}</div>
+          <div className="text-xs text-muted-foreground">{seat.asset.type} · {seat.asset.brand} · {seat.asset.serialNumber}</div>
+        </div>
+      );
+    }
+    return '-';
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <KeyRound className="h-6 w-6 text-purple-600" />
+            <h1 className="text-2xl font-bold">{t.title}</h1>
+          </div>
+          <p className="text-muted-foreground">{t.description}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => window.open('/api/licenses/export', '_blank')}>
+            <Download className="h-4 w-4 mr-2" />
+            {t.export}
+          </Button>
+          <Button variant="outline" onClick={() => setVendorsOpen(true)}>
+            <Building2 className="h-4 w-4 mr-2" />
+            {t.vendors}
+          </Button>
+          {isManager && (
+            <Button onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              {t.newLicense}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Tabs defaultValue="licenses">
+        <TabsList className="mb-4">
+          <TabsTrigger value="licenses">{t.licensesTab}</TabsTrigger>
+          <TabsTrigger value="compliance">{t.complianceTab}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="licenses">
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col md:flex-row gap-3">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder={t.searchPlaceholder}
+                    className="pl-9"
+                  />
+                </div>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-full md:w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t.allStatuses}</SelectItem>
+                    <SelectItem value="active">{t.active}</SelectItem>
+                    <SelectItem value="expired">{t.expired}</SelectItem>
+                    <SelectItem value="cancelled">{t.cancelled}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={vendorFilter} onValueChange={setVendorFilter}>
+                  <SelectTrigger className="w-full md:w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t.allVendors}</SelectItem>
+                    {vendors.map(vendor => (
+                      <SelectItem key={vendor.id} value={String(vendor.id)}>{vendor.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : licenses.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">{t.noLicenses}</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t.product}</TableHead>
+                      <TableHead>{t.vendor}</TableHead>
+                      <TableHead>{t.seats}</TableHead>
+                      <TableHead>{t.billing}</TableHead>
+                      <TableHead>{t.renewal}</TableHead>
+                      <TableHead>{t.status}</TableHead>
+                      <TableHead className="text-right">{t.actions}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {licenses.map(license => (
+                      <TableRow key={license.id}>
+                        <TableCell>
+                          <button className="text-left font-medium hover:underline" onClick={() => openDetails(license.id)}>
+                            {license.productName}
+                          </button>
+                          <div className="text-xs text-muted-foreground">
+                            {[license.edition, license.licenseType === 'perpetual' ? t.perpetual : t.subscription].filter(Boolean).join(' · ')}
+                          </div>
+                        </TableCell>
+                        <TableCell>{license.vendorName || '-'}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2 min-w-[120px]">
+                            <Progress value={Math.min((license.usedSeats / license.seatCount) * 100, 100)} className="h-2" />
+                            <span className={`text-sm whitespace-nowrap ${license.usedSeats > license.seatCount ? 'text-red-600 font-medium' : ''}`}>
+                              {license.usedSeats}/{license.seatCount}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div>{license.cost !== null ? formatCurrency(license.cost) : '-'}</div>
+                          <div className="text-xs text-muted-foreground">{cycleLabels[license.billingCycle]}</div>
+                        </TableCell>
+                        <TableCell>{renewalCell(license)}</TableCell>
+                        <TableCell>{statusBadge(license.status)}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="sm" title={t.manageSeats} onClick={() => openDetails(license.id)}>
+                            <Users className="h-4 w-4" />
+                          </Button>
+                          {isManager && (
+                            <>
+                              <Button variant="ghost" size="sm" onClick={() => openEdit(license)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={deleteMutation.isPending}
+                                onClick={() => window.confirm(t.confirmDelete(license.productName)) && deleteMutation.mutate(license.id)}
+                              >
+                                <Trash2 className="h-4 w-4 text-red-600" />
+                              </Button>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="compliance">
+          {compliance && (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+              {[
+                { label: t.overAllocated, value: compliance.summary.overAllocated },
+                { label: t.expiredInUse, value: compliance.summary.expiredInUse },
+                { label: t.underAllocated, value: compliance.summary.underAllocated },
+                { label: t.compliant, value: compliance.summary.compliant },
+                { label: t.annualCost, value: formatCurrency(compliance.summary.annualCost) },
+                { label: t.unusedCost, value: formatCurrency(compliance.summary.unusedAnnualCost) },
+              ].map((stat) => (
+                <Card key={stat.label}>
+                  <CardContent className="p-4">
+                    <div className="text-xs text-muted-foreground">{stat.label}</div>
+                    <div className="text-2xl font-bold">{stat.value}</div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <CardTitle>{t.complianceTitle}</CardTitle>
+                  <CardDescription>{t.complianceDescription}</CardDescription>
+                </div>
+                <Button variant="outline" onClick={() => window.open('/api/licenses/compliance?format=csv', '_blank')}>
+                  <Download className="h-4 w-4 mr-2" />
+                  {t.export}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!compliance || compliance.licenses.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">{t.noLicenses}</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t.product}</TableHead>
+                      <TableHead>{t.seats}</TableHead>
+                      <TableHead>{t.overSeats}</TableHead>
+                      <TableHead>{t.unusedSeats}</TableHead>
+                      <TableHead>{t.annualCost}</TableHead>
+                      <TableHead>{t.unusedCost}</TableHead>
+                      <TableHead>{t.compliance}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {compliance.licenses.map(row => (
+                      <TableRow key={row.id}>
+                        <TableCell>
+                          <button className="text-left font-medium hover:underline" onClick={() => openDetails(row.id)}>
+                            {row.productName}
+                          </button>
+                          <div className="text-xs text-muted-foreground">
+                            {[row.edition, row.vendorName, statusLabels[row.status]].filter(Boolean).join(' · ')}
+                          </div>
+                        </TableCell>
+                        <TableCell>{row.usedSeats}/{row.seatCount}</TableCell>
+                        <TableCell className={row.overAllocatedSeats > 0 ? 'text-red-600 font-medium' : ''}>{row.overAllocatedSeats}</TableCell>
+                        <TableCell>{row.unusedSeats}</TableCell>
+                        <TableCell>{row.annualCost !== null ? formatCurrency(row.annualCost) : '-'}</TableCell>
+                        <TableCell>{row.unusedAnnualCost !== null ? formatCurrency(row.unusedAnnualCost) : '-'}</TableCell>
+                        <TableCell>{complianceBadge(row.complianceStatus)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Create / edit license */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? t.editLicense : t.newLicense}</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.productName}</Label>
+              <Input value={form.productName} onChange={(e) => setForm({ ...form, productName: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.vendor}</Label>
+              <Select value={form.vendorId} onValueChange={(value) => setForm({ ...form, vendorId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{t.noVendor}</SelectItem>
+                  {activeVendors.map(vendor => (
+                    <SelectItem key={vendor.id} value={String(vendor.id)}>{vendor.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.edition}</Label>
+              <Input value={form.edition} onChange={(e) => setForm({ ...form, edition: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.licenseType}</Label>
+              <Select value={form.licenseType} onValueChange={(value) => setForm({ ...form, licenseType: value as LicenseType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="subscription">{t.subscription}</SelectItem>
+                  <SelectItem value="perpetual">{t.perpetual}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.seatCount}</Label>
+              <Input type="number" min={1} value={form.seatCount} onChange={(e) => setForm({ ...form, seatCount: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.billingCycle}</Label>
+              <Select value={form.billingCycle} onValueChange={(value) => setForm({ ...form, billingCycle: value as BillingCycle })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(cycleLabels) as BillingCycle[]).map(cycle => (
+                    <SelectItem key={cycle} value={cycle}>{cycleLabels[cycle]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.cost}</Label>
+              <Input type="number" min={0} step="0.01" value={form.cost} onChange={(e) => setForm({ ...form, cost: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.purchaseDate}</Label>
+              <Input type="date" value={form.purchaseDate} onChange={(e) => setForm({ ...form, purchaseDate: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.renewalDate}</Label>
+              <Input type="date" value={form.renewalDate} onChange={(e) => setForm({ ...form, renewalDate: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.reminderDays}</Label>
+              <Input
+                type="number"
+                min={1}
+                max={365}
+                value={form.renewalReminderDays}
+                onChange={(e) => setForm({ ...form, renewalReminderDays: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.status}</Label>
+              <Select value={form.status} onValueChange={(value) => setForm({ ...form, status: value as LicenseStatus })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(statusLabels) as LicenseStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>{statusLabels[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 md:col-span-2">
+              <Switch checked={form.autoRenew} onCheckedChange={(checked) => setForm({ ...form, autoRenew: checked })} />
+              <Label>{t.autoRenew}</Label>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.licenseKey}</Label>
+              {editing?.hasLicenseKey && !changeKey ? (
+                <div className="flex items-center justify-between rounded-md border p-2 text-sm">
+                  <span className="text-muted-foreground">{t.keyStored}</span>
+                  <Button variant="outline" size="sm" onClick={() => setChangeKey(true)}>{t.changeKey}</Button>
+                </div>
+              ) : (
+                <Textarea
+                  rows={2}
+                  value={form.licenseKey}
+                  onChange={(e) => { setForm({ ...form, licenseKey: e.target.value }); setChangeKey(true); }}
+                />
+              )}
+              <p className="text-xs text-muted-foreground">{t.licenseKeyHint}</p>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.notes}</Label>
+              <Textarea rows={3} value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>{t.cancel}</Button>
+            <Button disabled={!form.productName.trim() || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing ? t.save : t.create}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* License details and seats */}
+      <Dialog open={selectedId !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          {detailsLoading || !details ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {details.productName}
+                  {details.edition && <span className="text-muted-foreground font-normal">{details.edition}</span>}
+                  {statusBadge(details.status)}
+                </DialogTitle>
+                <DialogDescription>
+                  {[details.vendorName, details.licenseType === 'perpetual' ? t.perpetual : t.subscription, cycleLabels[details.billingCycle]]
+                    .filter(Boolean).join(' · ')}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">{t.seats}</div>
+                  <div className="font-medium">{details.usedSeats}/{details.seatCount}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t.annualCost}</div>
+                  <div className="font-medium">{details.annualCost !== null ? formatCurrency(details.annualCost) : '-'}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t.purchaseDate}</div>
+                  <div className="font-medium">{details.purchaseDate ? new Date(details.purchaseDate).toLocaleDateString() : '-'}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t.renewalDate}</div>
+                  <div className="font-medium">{renewalCell(details)}</div>
+                </div>
+              </div>
+
+              {details.notes && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{details.notes}</p>}
+
+              {isManager && details.hasLicenseKey && (
+                <div className="rounded-md border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label>{t.licenseKey}</Label>
+                    {revealedKey === null && (
+                      <Button variant="outline" size="sm" disabled={revealMutation.isPending} onClick={() => revealMutation.mutate(details.id)}>
+                        <Eye className="h-4 w-4 mr-2" />
+                        {t.revealKey}
+                      </Button>
+                    )}
+                  </div>
+                  {revealedKey !== null && <pre className="mt-2 text-sm font-mono whitespace-pre-wrap break-all">{revealedKey}</pre>}
+                </div>
+              )}
+
+              {/* Assign */}
+              {details.status === 'active' && (
+                <div className="rounded-md border p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label>{t.assignSeat}</Label>
+                    {details.availableSeats === 0 && <span className="text-sm text-red-600">{t.seatsFull}</span>}
+                  </div>
+                  <div className="grid gap-3 md:grid-cols-[140px_1fr_1fr_auto]">
+                    <Select value={holderType} onValueChange={(value) => setHolderType(value as 'employee' | 'asset')}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="employee">{t.employee}</SelectItem>
+                        <SelectItem value="asset">{t.asset}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {holderType === 'employee' ? (
+                      <ActiveEmployeeSelect value={seatEmployeeId} onValueChange={setSeatEmployeeId} />
+                    ) : (
+                      <Input value={seatAssetCode} onChange={(e) => setSeatAssetCode(e.target.value)} placeholder={t.assetCode} />
+                    )}
+                    <Input value={seatNotes} onChange={(e) => setSeatNotes(e.target.value)} placeholder={t.notes} />
+                    <Button
+                      disabled={details.availableSeats === 0 || assignMutation.isPending
+                        || (holderType === 'employee' ? !seatEmployeeId || seatEmployeeId === 'none' : !seatAssetCode.trim())}
+                      onClick={handleAssign}
+                    >
+                      {t.assign}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {/* Seats */}
+              {details.seats.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">{t.noSeats}</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t.holder}</TableHead>
+                      <TableHead>{t.assigned}</TableHead>
+                      <TableHead>{t.status}</TableHead>
+                      <TableHead>{t.notes}</TableHead>
+                      <TableHead className="text-right">{t.actions}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {details.seats.map(seat => (
+                      <TableRow key={seat.id} className={seat.releasedAt ? 'opacity-60' : ''}>
+                        <TableCell>{seatHolder(seat)}</TableCell>
+                        <TableCell>{new Date(seat.assignedAt).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          {seat.releasedAt ? (
+                            <div className="text-sm">
+                              <div>{seat.releaseReason === 'offboarding' ? t.releasedOffboarding : t.released}</div>
+                              <div className="text-xs text-muted-foreground">{new Date(seat.releasedAt).toLocaleDateString()}</div>
+                            </div>
+                          ) : (
+                            <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">{t.inUse}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-[200px] truncate">{seat.notes || '-'}</TableCell>
+                        <TableCell className="text-right">
+                          {!seat.releasedAt && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={releaseMutation.isPending}
+                              onClick={() => window.confirm(t.confirmRelease) && releaseMutation.mutate(seat.id)}
+                            >
+                              <UserMinus className="h-4 w-4 mr-1" />
+                              {t.release}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Vendors */}
+      <VendorsDialog open={vendorsOpen} onOpenChange={setVendorsOpen} onVendorsChanged={refresh} />
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import { useAuth } from '@/lib/authContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { hasPermission } from '@/components/auth/RoleGuard';
+import { ROLE_IDS } from '@shared/roles.config';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import LocationSelect, { type LocationOption } from '@/components/assets/LocationSelect';
+import { Loader2, MapPin, Package, Pencil, Plus, Trash2 } from 'lucide-react';
+
+const LOCATION_TYPES = ['Site', 'Building', 'Floor', 'Room', 'Cabinet'] as const;
+
+// Type a new child location usually has, one level below its parent
+const CHILD_TYPE: Record<string, string> = {
+  Site: 'Building',
+  Building: 'Floor',
+  Floor: 'Room',
+  Room: 'Cabinet',
+  Cabinet: 'Cabinet',
+};
+
+interface LocationRow extends LocationOption {
+  parentId: number | null;
+  code: string | null;
+  description: string | null;
+  assetCount: number;
+  totalAssetCount: number;
+}
+
+interface LocationForm {
+  name: string;
+  type: string;
+  parentId: number | null;
+  code: string;
+  description: string;
+  isActive: boolean;
+}
+
+const emptyForm: LocationForm = {
+  name: '',
+  type: 'Site',
+  parentId: null,
+  code: '',
+  description: '',
+  isActive: true,
+};
+
+export default function Locations() {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [editing, setEditing] = useState<LocationRow | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [form, setForm] = useState<LocationForm>(emptyForm);
+
+  const isManager = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER]);
+
+  const t = {
+    title: language === 'English' ? 'Locations' : 'المواقع',
+    description: language === 'English'
+      ? 'Sites, buildings, floors, rooms and cabinets where assets are kept'
+      : 'المواقع والمباني والطوابق والغرف والخزائن التي تحفظ فيها الأصول',
+    hierarchy: language === 'English' ? 'Location Hierarchy' : 'تسلسل المواقع',
+    hierarchyDescription: language === 'English'
+      ? 'Asset counts include everything stored in the locations beneath'
+      : 'تشمل أعداد الأصول كل ما هو محفوظ في المواقع التابعة',
+    name: language === 'English' ? 'Name' : 'الاسم',
+    type: language === 'English' ? 'Type' : 'النوع',
+    parent: language === 'English' ? 'Inside' : 'داخل',
+    topLevel: language === 'English' ? 'None (top-level site)' : 'لا يوجد (موقع رئيسي)',
+    code: language === 'English' ? 'Code' : 'الرمز',
+    codeHint: language === 'English' ? 'Optional short code used in imports, e.g. CAI-STORE' : 'رمز قصير اختياري يستخدم في الاستيراد، مثال: CAI-STORE',
+    notes: language === 'English' ? 'Description' : 'الوصف',
+    assets: language === 'English' ? 'Assets' : 'الأصول',
+    direct: language === 'English' ? 'here' : 'هنا',
+    status: language === 'English' ? 'Status' : 'الحالة',
+    active: language === 'English' ? 'Active' : 'نشط',
+    inactive: language === 'English' ? 'Inactive' : 'غير نشط',
+    addLocation: language === 'English' ? 'Add Location' : 'إضافة موقع',
+    addChild: language === 'English' ? 'Add inside' : 'إضافة بداخله',
+    editLocation: language === 'English' ? 'Edit Location' : 'تعديل الموقع',
+    viewAssets: language === 'English' ? 'View assets' : 'عرض الأصول',
+    noLocations: language === 'English' ? 'No locations yet' : 'لا توجد مواقع بعد',
+    confirmDelete: language === 'English' ? 'Delete this location?' : 'هل تريد حذف هذا الموقع؟',
+    save: language === 'English' ? 'Save' : 'حفظ',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    done: language === 'English' ? 'Done' : 'تم',
+    error: language === 'English' ? 'Error' : 'خطأ',
+    saved: language === 'English' ? 'Changes saved' : 'تم حفظ التغييرات',
+    types: {
+      Site: language === 'English' ? 'Site' : 'موقع',
+      Building: language === 'English' ? 'Building' : 'مبنى',
+      Floor: language === 'English' ? 'Floor' : 'طابق',
+      Room: language === 'English' ? 'Room' : 'غرفة',
+      Cabinet: language === 'English' ? 'Cabinet' : 'خزانة',
+    } as Record<string, string>,
+  };
+
+  const { data: locations = [], isLoading } = useQuery<LocationRow[]>({
+    queryKey: ['/api/locations'],
+  });
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/locations'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: LocationForm) => editing
+      ? apiRequest(`/api/locations/${editing.id}`, 'PUT', data)
+      : apiRequest('/api/locations', 'POST', data),
+    onSuccess: () => {
+      refresh();
+      setShowDialog(false);
+      toast({ title: t.done, description: t.saved });
+    },
+    onError: handleError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/locations/${id}`, 'DELETE'),
+    onSuccess: refresh,
+    onError: handleError
+  });
+
+  const openDialog = (location: LocationRow | null, parent?: LocationRow) => {
+    setEditing(location);
+    setForm(location ? {
+      name: location.name,
+      type: location.type,
+      parentId: location.parentId,
+      code: location.code || '',
+      description: location.description || '',
+      isActive: location.isActive,
+    } : {
+      ...emptyForm,
+      type: parent ? CHILD_TYPE[parent.type] : 'Site',
+      parentId: parent?.id ?? null,
+    });
+    setShowDialog(true);
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <div className="flex items-center gap-2 mb-2">
+          <MapPin className="h-6 w-6 text-blue-600" />
+          <h1 className="text-2xl font-bold">{t.title}</h1>
+        </div>
+        <p className="text-muted-foreground">{t.description}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle>{t.hierarchy}</CardTitle>
+              <CardDescription>{t.hierarchyDescription}</CardDescription>
+            </div>
+            {isManager && (
+              <Button onClick={() => openDialog(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                {t.addLocation}
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : locations.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <MapPin className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>{t.noLocations}</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t.name}</TableHead>
+                  <TableHead>{t.type}</TableHead>
+                  <TableHead>{t.code}</TableHead>
+                  <TableHead>{t.assets}</TableHead>
+                  <TableHead>{t.status}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {locations.map((location) => (
+                  <TableRow key={location.id}>
+                    <TableCell>
+                      <div style={{ paddingLeft: `${location.depth * 20}px` }}>
+                        <div className="font-medium">{location.name}</div>
+                        {location.description && (
+                          <div className="text-xs text-muted-foreground">{location.description}</div>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{t.types[location.type] || location.type}</TableCell>
+                    <TableCell className="font-mono text-xs">{location.code || '–'}</TableCell>
+                    <TableCell>
+                      {location.totalAssetCount}
+                      {location.totalAssetCount !== location.assetCount && (
+                        <span className="text-xs text-muted-foreground"> ({location.assetCount} {t.direct})</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={location.isActive ? 'default' : 'secondary'}>
+                        {location.isActive ? t.active : t.inactive}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Link href={`/assets?location=${location.id}`}>
+                          <Button size="icon" variant="ghost" title={t.viewAssets}>
+                            <Package className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                        {isManager && (
+                          <>
+                            {location.type !== 'Cabinet' && (
+                              <Button size="icon" variant="ghost" title={t.addChild} onClick={() => openDialog(null, location)}>
+                                <Plus className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button size="icon" variant="ghost" title={t.editLocation} onClick={() => openDialog(location)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => window.confirm(t.confirmDelete) && deleteMutation.mutate(location.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Location dialog */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? t.editLocation : t.addLocation}</DialogTitle>
+            <DialogDescription>{t.description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t.name}</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Storeroom" />
+              </div>
+              <div className="space-y-2">
+                <Label>{t.type}</Label>
+                <Select value={form.type} onValueChange={(type) => setForm({ ...form, type })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LOCATION_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{t.types[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.parent}</Label>
+              <LocationSelect
+                value={form.parentId}
+                onChange={(parentId) => setForm({ ...form, parentId })}
+                emptyLabel={t.topLevel}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.code}</Label>
+              <Input value={form.code} onChange={(e) => setForm({ ...form, code: e.target.value })} />
+              <p className="text-xs text-muted-foreground">{t.codeHint}</p>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.notes}</Label>
+              <Textarea
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="min-h-[60px] resize-none"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch checked={form.isActive} onCheckedChange={(isActive) => setForm({ ...form, isActive })} />
+              <Label>{t.active}</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>{t.cancel}</Button>
+            <Button onClick={() => saveMutation.mutate(form)} disabled={!form.name.trim() || saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
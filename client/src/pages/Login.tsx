@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
-import { useAuth } from '@/lib/authContext';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth, type TwoFactorChallenge, type PasswordChangeChallenge } from '@/lib/authContext';
 import { useToast } from '@/hooks/use-toast';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
@@ -19,6 +20,14 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { useLanguage } from '@/hooks/use-language';
 import { VERSION_INFO, getVersionString } from '@shared/version';
+import TwoFactorLoginStep, { getApiErrorMessage } from '@/components/auth/TwoFactorLoginStep';
+import PasswordChangeLoginStep from '@/components/auth/PasswordChangeLoginStep';
+
+// GET /api/auth/options
+type LoginOptions = {
+  passwordLogin: boolean;
+  sso: { providerName: string; loginUrl: string } | null;
+};
 
 const loginSchema = z.object({
   username: z.string().min(1, 'Username or Email is required'),
@@ -30,7 +39,13 @@ export default function Login() {
   const { toast } = useToast();
   const [location, navigate] = useLocation();
   const [isLoading, setIsLoading] = useState(false);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [passwordChangeChallenge, setPasswordChangeChallenge] = useState<PasswordChangeChallenge | null>(null);
   const { language } = useLanguage();
+
+  const { data: loginOptions } = useQuery<LoginOptions>({
+    queryKey: ['/api/auth/options'],
+  });
   
   // Redirect to dashboard if already authenticated
   useEffect(() => {
@@ -51,8 +66,26 @@ export default function Login() {
     welcomeBack: language === 'English' ? 'Welcome back!' : 'مرحبا بعودتك!',
     loginFailed: language === 'English' ? 'Login failed' : 'فشل تسجيل الدخول',
     invalidCredentials: language === 'English' ? 'Invalid username/email or password' : 'اسم المستخدم/البريد الإلكتروني أو كلمة المرور غير صحيحة',
+    signInWith: language === 'English' ? 'Sign in with' : 'تسجيل الدخول عبر',
+    or: language === 'English' ? 'or' : 'أو',
+    accountLocked: language === 'English' ? 'Account locked' : 'الحساب مقفل',
   };
 
+  // Back from single sign-on: a failure to show, or a second factor to ask for
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const ssoError = params.get('sso_error');
+    const ssoStep = params.get('sso');
+    if (!ssoError && !ssoStep) return;
+
+    if (ssoError) {
+      toast({ title: translations.loginFailed, description: ssoError, variant: 'destructive' });
+    } else if (ssoStep === '2fa' || ssoStep === '2fa-enroll') {
+      setTwoFactorChallenge({ twoFactorRequired: true, enrollmentRequired: ssoStep === '2fa-enroll' });
+    }
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
+
   const form = useForm<z.infer<typeof loginSchema>>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
@@ -61,38 +94,53 @@ export default function Login() {
     },
   });
 
+  const completeSignIn = (loggedInUser: any) => {
+    // Debug logging for role-based redirection
+    console.log('Login successful, user data:', loggedInUser);
+    console.log('User role:', loggedInUser?.role);
+    console.log('Role type:', typeof loggedInUser?.role);
+    console.log('Role toLowerCase():', loggedInUser?.role?.toLowerCase());
+    console.log('Is employee?', normalizeRoleId(loggedInUser?.role) === ROLE_IDS.EMPLOYEE);
+    
+    toast({
+      title: translations.loginSuccess,
+      description: translations.welcomeBack,
+    });
+    
+    // Redirect based on user role
+    if (normalizeRoleId(loggedInUser?.role) === ROLE_IDS.EMPLOYEE) {
+      console.log('Redirecting employee to portal...');
+      navigate('/portal');
+    } else {
+      console.log('Redirecting non-employee to main system...');
+      // Agents, Managers, Admins go to main system
+      navigate('/');
+    }
+    
+    // TEMPORARY: Force redirect to portal for testing
+    // Uncomment the line below to test portal access regardless of role
+    // navigate('/portal');
+  };
+
   const onSubmit = async (values: z.infer<typeof loginSchema>) => {
     try {
       setIsLoading(true);
       
       // Attempt login - this now waits for user data to be loaded
-      const loggedInUser = await login(values.username, values.password);
-      
-      // Debug logging for role-based redirection
-      console.log('Login successful, user data:', loggedInUser);
-      console.log('User role:', loggedInUser?.role);
-      console.log('Role type:', typeof loggedInUser?.role);
-      console.log('Role toLowerCase():', loggedInUser?.role?.toLowerCase());
-      console.log('Is employee?', normalizeRoleId(loggedInUser?.role) === ROLE_IDS.EMPLOYEE);
+      const result = await login(values.username, values.password);
       
-      toast({
-        title: translations.loginSuccess,
-        description: translations.welcomeBack,
-      });
-      
-      // Redirect based on user role
-      if (normalizeRoleId(loggedInUser?.role) === ROLE_IDS.EMPLOYEE) {
-        console.log('Redirecting employee to portal...');
-        navigate('/portal');
-      } else {
-        console.log('Redirecting non-employee to main system...');
-        // Agents, Managers, Admins go to main system
-        navigate('/');
+      // Password accepted; the second factor is asked for before the session is signed in
+      if (result && 'twoFactorRequired' in result) {
+        setTwoFactorChallenge(result);
+        return;
+      }
+      // Expired or admin-reset password: a new one is chosen before the session is signed in
+      if (result && 'passwordChangeRequired' in result) {
+        setPasswordChangeChallenge(result);
+        return;
       }
       
-      // TEMPORARY: Force redirect to portal for testing
-      // Uncomment the line below to test portal access regardless of role
-      // navigate('/portal');
+      completeSignIn(result);
       
     } catch (error) {
       console.error('Login error:', error);
@@ -106,6 +154,10 @@ export default function Login() {
           errorDescription = language === 'English' 
             ? 'Network error. Please check your connection and try again.' 
             : 'خطأ في الشبكة. يرجى التحقق من الاتصال والمحاولة مرة أخرى.';
+        } else if (error.message.startsWith('401') && /"locked":true/.test(error.message)) {
+          // Too many failed sign-ins: the server says how long the lock lasts
+          errorTitle = translations.accountLocked;
+          errorDescription = getApiErrorMessage(error, translations.invalidCredentials);
         } else if (error.message.includes('401') || error.message.includes('Unauthorized')) {
           errorDescription = language === 'English' 
             ? 'Invalid username/email or password. Please try again.' 
@@ -136,71 +188,119 @@ export default function Login() {
           <CardTitle className="text-2xl font-bold text-center">{translations.title}</CardTitle>
         </CardHeader>
         <CardContent>
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>{translations.username}</FormLabel>
-                    <FormControl>
-                      <Input placeholder="eladwy or eladwy.ahmed@example.com" autoComplete="username" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>{translations.password}</FormLabel>
-                    <FormControl>
-                      <Input type="password" placeholder="••••••••" autoComplete="current-password" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <Button type="submit" className="w-full mb-2" disabled={isLoading}>
-                {isLoading ? (
-                  <div className="flex items-center gap-2">
-                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent"></div>
-                    <span>{translations.loginButton}...</span>
-                  </div>
-                ) : (
-                  translations.loginButton
-                )}
+          {passwordChangeChallenge ? (
+            <PasswordChangeLoginStep
+              reason={passwordChangeChallenge.reason}
+              onComplete={completeSignIn}
+              onCancel={() => {
+                setPasswordChangeChallenge(null);
+                form.reset({ username: form.getValues('username'), password: '' });
+              }}
+            />
+          ) : twoFactorChallenge ? (
+            <TwoFactorLoginStep
+              enrollmentRequired={twoFactorChallenge.enrollmentRequired}
+              onComplete={completeSignIn}
+              onPasswordChangeRequired={(challenge) => {
+                setTwoFactorChallenge(null);
+                setPasswordChangeChallenge(challenge);
+              }}
+              onCancel={() => {
+                setTwoFactorChallenge(null);
+                form.reset({ username: form.getValues('username'), password: '' });
+              }}
+            />
+          ) : loginOptions && !loginOptions.passwordLogin ? (
+            loginOptions.sso && (
+              <Button className="w-full" onClick={() => { window.location.href = loginOptions.sso!.loginUrl; }}>
+                {translations.signInWith} {loginOptions.sso.providerName}
               </Button>
-              
-              <div className="flex flex-col gap-2">
-                <Button 
-                  variant="link" 
-                  className="text-sm text-primary" 
-                  onClick={() => navigate('/forgot-password')}
-                  type="button"
-                >
-                  {language === 'English' ? 'Forgot Password?' : 'نسيت كلمة المرور؟'}
+            )
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{translations.username}</FormLabel>
+                      <FormControl>
+                        <Input placeholder="eladwy or eladwy.ahmed@example.com" autoComplete="username" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{translations.password}</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="••••••••" autoComplete="current-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full mb-2" disabled={isLoading}>
+                  {isLoading ? (
+                    <div className="flex items-center gap-2">
+                      <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent"></div>
+                      <span>{translations.loginButton}...</span>
+                    </div>
+                  ) : (
+                    translations.loginButton
+                  )}
                 </Button>
+
+                {loginOptions?.sso && (
+                  <>
+                    <div className="flex items-center gap-3 text-xs uppercase text-gray-500">
+                      <div className="h-px flex-1 bg-gray-200" />
+                      {translations.or}
+                      <div className="h-px flex-1 bg-gray-200" />
+                    </div>
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      type="button"
+                      onClick={() => { window.location.href = loginOptions.sso!.loginUrl; }}
+                    >
+                      {translations.signInWith} {loginOptions.sso.providerName}
+                    </Button>
+                  </>
+                )}
                 
-                <div className="text-center border-t pt-3">
-                  <p className="text-sm text-gray-600 mb-2">
-                    {language === 'English' ? 'Don\'t have an account?' : 'ليس لديك حساب؟'}
-                  </p>
+                <div className="flex flex-col gap-2">
                   <Button 
-                    variant="outline" 
-                    className="w-full" 
-                    onClick={() => navigate('/register')}
+                    variant="link" 
+                    className="text-sm text-primary" 
+                    onClick={() => navigate('/forgot-password')}
                     type="button"
                   >
-                    {language === 'English' ? 'Register as Employee' : 'التسجيل كموظف'}
+                    {language === 'English' ? 'Forgot Password?' : 'نسيت كلمة المرور؟'}
                   </Button>
+                  
+                  <div className="text-center border-t pt-3">
+                    <p className="text-sm text-gray-600 mb-2">
+                      {language === 'English' ? 'Don\'t have an account?' : 'ليس لديك حساب؟'}
+                    </p>
+                    <Button 
+                      variant="outline" 
+                      className="w-full" 
+                      onClick={() => navigate('/register')}
+                      type="button"
+                    >
+                      {language === 'English' ? 'Register as Employee' : 'التسجيل كموظف'}
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            </form>
-          </Form>
+              </form>
+            </Form>
+          )}
         </CardContent>
         <CardFooter className="text-sm text-center text-gray-500">
           <p className="w-full">
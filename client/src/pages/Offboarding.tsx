@@ -0,0 +1,532 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import { useAuth } from '@/lib/authContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { hasPermission } from '@/components/auth/RoleGuard';
+import { ROLE_IDS, getRoleLevel } from '@shared/roles.config';
+import type { UserResponse } from '@shared/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  CheckCircle2, Circle, Download, Loader2, MinusCircle, Plus, UserMinus
+} from 'lucide-react';
+
+interface OffboardingEmployee {
+  id: number;
+  empId: string;
+  englishName: string;
+  arabicName: string | null;
+  department: string;
+  status: string;
+}
+
+interface OffboardingCaseSummary {
+  id: number;
+  employeeId: number;
+  status: 'open' | 'completed' | 'cancelled';
+  exitDate: string | null;
+  reason: string | null;
+  daysLeft: number | null;
+  completedAt: string | null;
+  employee: OffboardingEmployee | null;
+  progress: { total: number; completed: number };
+}
+
+interface OffboardingTask {
+  id: number;
+  type: 'return_asset' | 'disable_account' | 'transfer_tickets' | 'manager_signoff';
+  title: string;
+  status: 'pending' | 'done' | 'waived';
+  notes: string | null;
+  completedAt: string | null;
+  asset: { id: number; assetId: string; serialNumber: string; assignedEmployeeId: number | null } | null;
+}
+
+interface OffboardingCaseDetails extends Omit<OffboardingCaseSummary, 'progress'> {
+  managerSignedOffAt: string | null;
+  manager: { id: number; englishName: string; userId: number | null } | null;
+  account: { id: number; username: string; isActive: boolean } | null;
+  openTickets: { id: number; ticketId: string; title: string; status: string }[];
+  tasks: OffboardingTask[];
+}
+
+interface EmployeeOption {
+  id: number;
+  empId: string;
+  englishName: string;
+  status: string;
+}
+
+export default function Offboarding() {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [statusFilter, setStatusFilter] = useState('open');
+  const [selectedCaseId, setSelectedCaseId] = useState<number | null>(null);
+  const [openDialog, setOpenDialog] = useState(false);
+  const [newEmployeeId, setNewEmployeeId] = useState('');
+  const [transferToId, setTransferToId] = useState('');
+  const [waiveTask, setWaiveTask] = useState<OffboardingTask | null>(null);
+  const [waiveReason, setWaiveReason] = useState('');
+
+  const isManager = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER]);
+
+  const t = {
+    title: language === 'English' ? 'Offboarding' : 'إنهاء الخدمة',
+    description: language === 'English'
+      ? 'Recover assets, disable access and hand over work for leaving employees'
+      : 'استرداد الأصول وتعطيل الوصول وتسليم العمل للموظفين المغادرين',
+    openCase: language === 'English' ? 'Open Case' : 'فتح حالة',
+    cases: language === 'English' ? 'Offboarding Cases' : 'حالات إنهاء الخدمة',
+    casesDescription: language === 'English'
+      ? 'Cases open automatically when an employee gets an exit date or is marked Resigned/Terminated'
+      : 'تُفتح الحالات تلقائياً عند تحديد تاريخ مغادرة للموظف أو تغيير حالته إلى مستقيل/منتهي الخدمة',
+    employee: language === 'English' ? 'Employee' : 'الموظف',
+    department: language === 'English' ? 'Department' : 'القسم',
+    exitDate: language === 'English' ? 'Exit Date' : 'تاريخ المغادرة',
+    progress: language === 'English' ? 'Progress' : 'التقدم',
+    status: language === 'English' ? 'Status' : 'الحالة',
+    all: language === 'English' ? 'All' : 'الكل',
+    open: language === 'English' ? 'Open' : 'مفتوحة',
+    completed: language === 'English' ? 'Completed' : 'مكتملة',
+    cancelled: language === 'English' ? 'Cancelled' : 'ملغاة',
+    noCases: language === 'English' ? 'No offboarding cases' : 'لا توجد حالات إنهاء خدمة',
+    daysLeft: (days: number) => days < 0
+      ? (language === 'English' ? `${-days}d overdue` : `متأخر ${-days} يوم`)
+      : days === 0
+        ? (language === 'English' ? 'Today' : 'اليوم')
+        : (language === 'English' ? `${days}d left` : `متبقي ${days} يوم`),
+    checklist: language === 'English' ? 'Checklist' : 'قائمة المهام',
+    manager: language === 'English' ? 'Direct Manager' : 'المدير المباشر',
+    account: language === 'English' ? 'User Account' : 'حساب المستخدم',
+    active: language === 'English' ? 'Active' : 'نشط',
+    disabled: language === 'English' ? 'Disabled' : 'معطل',
+    none: language === 'English' ? 'None' : 'لا يوجد',
+    checkIn: language === 'English' ? 'Check In' : 'استلام',
+    disableAccount: language === 'English' ? 'Disable Account' : 'تعطيل الحساب',
+    transfer: language === 'English' ? 'Transfer' : 'نقل',
+    transferTo: language === 'English' ? 'Transfer to...' : 'نقل إلى...',
+    openTickets: language === 'English' ? 'open tickets' : 'تذاكر مفتوحة',
+    signOff: language === 'English' ? 'Sign Off' : 'اعتماد',
+    waive: language === 'English' ? 'Waive' : 'إعفاء',
+    waiveTitle: language === 'English' ? 'Waive Checklist Item' : 'إعفاء من بند',
+    waiveReason: language === 'English' ? 'Reason (e.g. asset reported lost)' : 'السبب (مثال: تم الإبلاغ عن فقدان الأصل)',
+    cancelCase: language === 'English' ? 'Cancel Case' : 'إلغاء الحالة',
+    certificate: language === 'English' ? 'Clearance Certificate' : 'شهادة إخلاء الطرف',
+    selectEmployee: language === 'English' ? 'Select employee' : 'اختر الموظف',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    confirm: language === 'English' ? 'Confirm' : 'تأكيد',
+    done: language === 'English' ? 'Done' : 'تم',
+    error: language === 'English' ? 'Error' : 'خطأ',
+    updated: language === 'English' ? 'Offboarding case updated' : 'تم تحديث حالة إنهاء الخدمة',
+    confirmCancel: language === 'English' ? 'Cancel this offboarding case?' : 'هل تريد إلغاء حالة إنهاء الخدمة هذه؟',
+    confirmDisable: language === 'English' ? 'Disable this user account now?' : 'هل تريد تعطيل حساب المستخدم الآن؟',
+  };
+
+  const { data: cases = [], isLoading } = useQuery<OffboardingCaseSummary[]>({
+    queryKey: ['/api/offboarding', statusFilter],
+    queryFn: () => apiRequest(`/api/offboarding?status=${statusFilter}`),
+  });
+
+  const { data: details, isLoading: detailsLoading } = useQuery<OffboardingCaseDetails>({
+    queryKey: [`/api/offboarding/${selectedCaseId}`],
+    enabled: selectedCaseId !== null,
+  });
+
+  const { data: employees = [] } = useQuery<EmployeeOption[]>({
+    queryKey: ['/api/employees'],
+    enabled: openDialog,
+  });
+
+  const { data: users = [] } = useQuery<UserResponse[]>({
+    queryKey: ['/api/users'],
+    enabled: isManager && selectedCaseId !== null,
+  });
+
+  const agents = users.filter((u) => u.isActive && getRoleLevel(u.role) >= getRoleLevel(ROLE_IDS.AGENT)
+    && u.id !== details?.account?.id);
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/offboarding')
+    });
+  };
+
+  const caseAction = useMutation({
+    mutationFn: ({ path, data }: { path: string; data?: Record<string, unknown> }) =>
+      apiRequest(`/api/offboarding/${selectedCaseId}${path}`, 'POST', data),
+    onSuccess: () => {
+      refresh();
+      toast({ title: t.done, description: t.updated });
+    },
+    onError: handleError
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: (assetId: number) => apiRequest(`/api/assets/${assetId}/check-in`, 'POST', {
+      notes: language === 'English' ? 'Employee exit' : 'مغادرة الموظف',
+      type: 'Check-In'
+    }),
+    onSuccess: () => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ['/api/assets'] });
+      toast({ title: t.done, description: t.updated });
+    },
+    onError: handleError
+  });
+
+  const openCaseMutation = useMutation({
+    mutationFn: (employeeId: number) => apiRequest('/api/offboarding', 'POST', { employeeId }),
+    onSuccess: (created: OffboardingCaseDetails) => {
+      refresh();
+      setOpenDialog(false);
+      setNewEmployeeId('');
+      setSelectedCaseId(created.id);
+    },
+    onError: handleError
+  });
+
+  const statusBadge = (status: OffboardingCaseSummary['status']) => {
+    if (status === 'completed') return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{t.completed}</Badge>;
+    if (status === 'cancelled') return <Badge variant="secondary">{t.cancelled}</Badge>;
+    return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">{t.open}</Badge>;
+  };
+
+  const daysLeftBadge = (item: { status: string; daysLeft: number | null }) => {
+    if (item.status !== 'open' || item.daysLeft === null) return null;
+    const variant = item.daysLeft <= 1 ? 'destructive' : item.daysLeft <= 7 ? 'default' : 'outline';
+    return <Badge variant={variant}>{t.daysLeft(item.daysLeft)}</Badge>;
+  };
+
+  const taskIcon = (task: OffboardingTask) => {
+    if (task.status === 'done') return <CheckCircle2 className="h-5 w-5 text-green-600" />;
+    if (task.status === 'waived') return <MinusCircle className="h-5 w-5 text-amber-500" />;
+    return <Circle className="h-5 w-5 text-muted-foreground" />;
+  };
+
+  const renderTaskAction = (task: OffboardingTask) => {
+    if (task.status !== 'pending' || details?.status !== 'open') return null;
+    const busy = caseAction.isPending || checkInMutation.isPending;
+
+    switch (task.type) {
+      case 'return_asset':
+        return task.asset ? (
+          <Button size="sm" variant="outline" disabled={busy} onClick={() => checkInMutation.mutate(task.asset!.id)}>
+            {t.checkIn}
+          </Button>
+        ) : null;
+      case 'disable_account':
+        return isManager ? (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={busy}
+            onClick={() => window.confirm(t.confirmDisable) && caseAction.mutate({ path: '/disable-account' })}
+          >
+            {t.disableAccount}
+          </Button>
+        ) : null;
+      case 'transfer_tickets':
+        return isManager ? (
+          <div className="flex items-center gap-2">
+            <Select value={transferToId} onValueChange={setTransferToId}>
+              <SelectTrigger className="w-[160px] h-8">
+                <SelectValue placeholder={t.transferTo} />
+              </SelectTrigger>
+              <SelectContent>
+                {agents.map((agent) => (
+                  <SelectItem key={agent.id} value={String(agent.id)}>{agent.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={busy || !transferToId}
+              onClick={() => caseAction.mutate({ path: '/transfer-tickets', data: { assignToId: parseInt(transferToId) } })}
+            >
+              {t.transfer}
+            </Button>
+          </div>
+        ) : null;
+      case 'manager_signoff':
+        return (
+          <Button
+            size="sm"
+            disabled={busy || details.tasks.some((other) => other.id !== task.id && other.status === 'pending')}
+            onClick={() => caseAction.mutate({ path: '/sign-off' })}
+          >
+            {t.signOff}
+          </Button>
+        );
+    }
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <UserMinus className="h-6 w-6 text-blue-600" />
+            <h1 className="text-2xl font-bold">{t.title}</h1>
+          </div>
+          <p className="text-muted-foreground">{t.description}</p>
+        </div>
+        <Button onClick={() => setOpenDialog(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t.openCase}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle>{t.cases}</CardTitle>
+              <CardDescription>{t.casesDescription}</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">{t.open}</SelectItem>
+                <SelectItem value="completed">{t.completed}</SelectItem>
+                <SelectItem value="cancelled">{t.cancelled}</SelectItem>
+                <SelectItem value="all">{t.all}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : cases.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <UserMinus className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>{t.noCases}</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t.employee}</TableHead>
+                  <TableHead>{t.department}</TableHead>
+                  <TableHead>{t.exitDate}</TableHead>
+                  <TableHead>{t.progress}</TableHead>
+                  <TableHead>{t.status}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cases.map((item) => (
+                  <TableRow key={item.id} className="cursor-pointer" onClick={() => setSelectedCaseId(item.id)}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {language === 'English' ? item.employee?.englishName : item.employee?.arabicName || item.employee?.englishName}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{item.employee?.empId}</div>
+                    </TableCell>
+                    <TableCell>{item.employee?.department}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span>{item.exitDate || '–'}</span>
+                        {daysLeftBadge(item)}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2 min-w-[140px]">
+                        <Progress value={item.progress.total ? (item.progress.completed / item.progress.total) * 100 : 0} className="h-2" />
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {item.progress.completed}/{item.progress.total}
+                        </span>
+                      </div>
+                    </TableCell>
+                    <TableCell>{statusBadge(item.status)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Case checklist */}
+      <Dialog open={selectedCaseId !== null} onOpenChange={(open) => { if (!open) { setSelectedCaseId(null); setTransferToId(''); } }}>
+        <DialogContent className="max-w-2xl">
+          {detailsLoading || !details ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {details.employee?.englishName}
+                  {statusBadge(details.status)}
+                  {daysLeftBadge(details)}
+                </DialogTitle>
+                <DialogDescription>
+                  {details.employee?.empId} · {details.employee?.department} · {t.exitDate}: {details.exitDate || '–'}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">{t.manager}</div>
+                  <div>{details.manager?.englishName || t.none}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t.account}</div>
+                  <div>
+                    {details.account
+                      ? `${details.account.username} (${details.account.isActive ? t.active : t.disabled})`
+                      : t.none}
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="font-medium mb-2">{t.checklist}</h3>
+                <div className="divide-y rounded-md border">
+                  {details.tasks.map((task) => (
+                    <div key={task.id} className="flex items-center justify-between gap-3 p-3">
+                      <div className="flex items-start gap-3 min-w-0">
+                        {taskIcon(task)}
+                        <div className="min-w-0">
+                          <div className="font-medium truncate">{task.title}</div>
+                          {task.type === 'transfer_tickets' && task.status === 'pending' && (
+                            <div className="text-xs text-muted-foreground">
+                              {details.openTickets.length} {t.openTickets}
+                            </div>
+                          )}
+                          {task.notes && <div className="text-xs text-muted-foreground">{task.notes}</div>}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {renderTaskAction(task)}
+                        {isManager && task.status === 'pending' && task.type !== 'manager_signoff' && details.status === 'open' && (
+                          <Button size="sm" variant="ghost" onClick={() => { setWaiveTask(task); setWaiveReason(''); }}>
+                            {t.waive}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <DialogFooter className="gap-2">
+                {isManager && details.status === 'open' && (
+                  <Button
+                    variant="outline"
+                    disabled={caseAction.isPending}
+                    onClick={() => window.confirm(t.confirmCancel) && caseAction.mutate({ path: '/cancel' })}
+                  >
+                    {t.cancelCase}
+                  </Button>
+                )}
+                {details.status === 'completed' && (
+                  <Button onClick={() => window.open(`/api/offboarding/${details.id}/certificate`, '_blank')}>
+                    <Download className="h-4 w-4 mr-2" />
+                    {t.certificate}
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Waive item */}
+      <Dialog open={waiveTask !== null} onOpenChange={(open) => !open && setWaiveTask(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t.waiveTitle}</DialogTitle>
+            <DialogDescription>{waiveTask?.title}</DialogDescription>
+          </DialogHeader>
+          <Textarea value={waiveReason} onChange={(e) => setWaiveReason(e.target.value)} placeholder={t.waiveReason} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWaiveTask(null)}>{t.cancel}</Button>
+            <Button
+              disabled={!waiveReason.trim() || caseAction.isPending}
+              onClick={() => {
+                caseAction.mutate({ path: `/tasks/${waiveTask!.id}/waive`, data: { notes: waiveReason } });
+                setWaiveTask(null);
+              }}
+            >
+              {t.confirm}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Open case manually */}
+      <Dialog open={openDialog} onOpenChange={setOpenDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t.openCase}</DialogTitle>
+            <DialogDescription>{t.casesDescription}</DialogDescription>
+          </DialogHeader>
+          <Select value={newEmployeeId} onValueChange={setNewEmployeeId}>
+            <SelectTrigger>
+              <SelectValue placeholder={t.selectEmployee} />
+            </SelectTrigger>
+            <SelectContent>
+              {employees.map((employee) => (
+                <SelectItem key={employee.id} value={String(employee.id)}>
+                  {employee.englishName} ({employee.empId})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpenDialog(false)}>{t.cancel}</Button>
+            <Button
+              disabled={!newEmployeeId || openCaseMutation.isPending}
+              onClick={() => openCaseMutation.mutate(parseInt(newEmployeeId))}
+            >
+              {t.openCase}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,597 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import { useAuth } from '@/lib/authContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { hasPermission } from '@/components/auth/RoleGuard';
+import { ROLE_IDS } from '@shared/roles.config';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, PackageCheck, Pencil, Plus, Trash2, UserCheck, X } from 'lucide-react';
+
+interface AssetRequirement {
+  type: string;
+  quantity: number;
+}
+
+interface OnboardingTemplate {
+  id: number;
+  name: string;
+  department: string | null;
+  title: string | null;
+  assetRequirements: AssetRequirement[];
+  provisioningTasks: string[];
+  sendRegistrationInvite: boolean;
+  isActive: boolean;
+}
+
+interface OnboardingPlan {
+  id: number;
+  employeeId: number;
+  joiningDate: string;
+  status: 'scheduled' | 'completed' | 'cancelled';
+  shortfall: { type: string; missing: number }[];
+  invitationSentAt: string | null;
+  checkedOutAt: string | null;
+  employee: { id: number; empId: string; englishName: string; arabicName: string | null; department: string; title: string } | null;
+  template: { id: number; name: string } | null;
+  assets: { id: number; assetId: string; type: string; brand: string; status: string }[];
+  tickets: { id: number; ticketId: string; title: string; status: string }[];
+}
+
+interface TemplateForm {
+  name: string;
+  department: string;
+  title: string;
+  assetRequirements: AssetRequirement[];
+  provisioningTasks: string[];
+  sendRegistrationInvite: boolean;
+  isActive: boolean;
+}
+
+const emptyForm: TemplateForm = {
+  name: '',
+  department: '',
+  title: '',
+  assetRequirements: [{ type: 'Laptop', quantity: 1 }],
+  provisioningTasks: ['Create user accounts'],
+  sendRegistrationInvite: true,
+  isActive: true,
+};
+
+export default function Onboarding() {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [statusFilter, setStatusFilter] = useState('scheduled');
+  const [editing, setEditing] = useState<OnboardingTemplate | null>(null);
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
+  const [form, setForm] = useState<TemplateForm>(emptyForm);
+
+  const isManager = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER]);
+
+  const t = {
+    title: language === 'English' ? 'Onboarding' : 'التهيئة',
+    description: language === 'English'
+      ? 'Assets, accounts and provisioning work prepared for new hires'
+      : 'الأصول والحسابات ومهام التجهيز المعدة للموظفين الجدد',
+    plans: language === 'English' ? 'Upcoming Hires' : 'الموظفون القادمون',
+    plansDescription: language === 'English'
+      ? 'Reserved assets are checked out to the employee automatically on their joining date'
+      : 'يتم تسليم الأصول المحجوزة للموظف تلقائياً في تاريخ انضمامه',
+    templates: language === 'English' ? 'Templates' : 'القوالب',
+    templatesDescription: language === 'English'
+      ? 'Applied to employees created with a future joining date; the most specific department/title match wins'
+      : 'تطبق على الموظفين المضافين بتاريخ انضمام مستقبلي؛ ويُختار القالب الأكثر تطابقاً مع القسم/المسمى',
+    employee: language === 'English' ? 'Employee' : 'الموظف',
+    joiningDate: language === 'English' ? 'Joining Date' : 'تاريخ الانضمام',
+    template: language === 'English' ? 'Template' : 'القالب',
+    assets: language === 'English' ? 'Reserved Assets' : 'الأصول المحجوزة',
+    tickets: language === 'English' ? 'Provisioning Tickets' : 'تذاكر التجهيز',
+    invite: language === 'English' ? 'Invite' : 'الدعوة',
+    sent: language === 'English' ? 'Sent' : 'أُرسلت',
+    notSent: language === 'English' ? 'Not sent' : 'لم تُرسل',
+    missing: language === 'English' ? 'missing' : 'ناقص',
+    status: language === 'English' ? 'Status' : 'الحالة',
+    scheduled: language === 'English' ? 'Scheduled' : 'مجدولة',
+    completed: language === 'English' ? 'Completed' : 'مكتملة',
+    cancelled: language === 'English' ? 'Cancelled' : 'ملغاة',
+    all: language === 'English' ? 'All' : 'الكل',
+    checkOutNow: language === 'English' ? 'Check Out Now' : 'تسليم الآن',
+    cancelPlan: language === 'English' ? 'Cancel' : 'إلغاء',
+    confirmCancel: language === 'English'
+      ? 'Cancel this onboarding plan and release its reserved assets?'
+      : 'هل تريد إلغاء خطة التهيئة وتحرير الأصول المحجوزة؟',
+    noPlans: language === 'English' ? 'No onboarding plans' : 'لا توجد خطط تهيئة',
+    noTemplates: language === 'English' ? 'No onboarding templates yet' : 'لا توجد قوالب تهيئة بعد',
+    addTemplate: language === 'English' ? 'Add Template' : 'إضافة قالب',
+    editTemplate: language === 'English' ? 'Edit Template' : 'تعديل القالب',
+    name: language === 'English' ? 'Name' : 'الاسم',
+    department: language === 'English' ? 'Department' : 'القسم',
+    jobTitle: language === 'English' ? 'Job Title' : 'المسمى الوظيفي',
+    anyValue: language === 'English' ? 'Any (leave empty)' : 'أي قيمة (اتركه فارغاً)',
+    assetType: language === 'English' ? 'Asset type' : 'نوع الأصل',
+    quantity: language === 'English' ? 'Qty' : 'الكمية',
+    addAsset: language === 'English' ? 'Add asset' : 'إضافة أصل',
+    provisioningTasks: language === 'English' ? 'Provisioning tickets' : 'تذاكر التجهيز',
+    addTask: language === 'English' ? 'Add ticket' : 'إضافة تذكرة',
+    sendInvite: language === 'English' ? 'Send registration invite' : 'إرسال دعوة التسجيل',
+    active: language === 'English' ? 'Active' : 'نشط',
+    inactive: language === 'English' ? 'Inactive' : 'غير نشط',
+    save: language === 'English' ? 'Save' : 'حفظ',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    confirmDelete: language === 'English' ? 'Delete this template?' : 'هل تريد حذف هذا القالب؟',
+    done: language === 'English' ? 'Done' : 'تم',
+    error: language === 'English' ? 'Error' : 'خطأ',
+    saved: language === 'English' ? 'Changes saved' : 'تم حفظ التغييرات',
+  };
+
+  const { data: plans = [], isLoading: plansLoading } = useQuery<OnboardingPlan[]>({
+    queryKey: ['/api/onboarding/plans', statusFilter],
+    queryFn: () => apiRequest(`/api/onboarding/plans?status=${statusFilter}`),
+  });
+
+  const { data: templates = [], isLoading: templatesLoading } = useQuery<OnboardingTemplate[]>({
+    queryKey: ['/api/onboarding/templates'],
+  });
+
+  const { data: assetTypes = [] } = useQuery<{ id: number; name: string }[]>({
+    queryKey: ['/api/custom-asset-types'],
+    enabled: showTemplateDialog,
+  });
+
+  const { data: departments = [] } = useQuery<{ id: number; name: string }[]>({
+    queryKey: ['/api/custom-departments'],
+    enabled: showTemplateDialog,
+  });
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/onboarding')
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: TemplateForm) => editing
+      ? apiRequest(`/api/onboarding/templates/${editing.id}`, 'PUT', data)
+      : apiRequest('/api/onboarding/templates', 'POST', data),
+    onSuccess: () => {
+      refresh();
+      setShowTemplateDialog(false);
+      toast({ title: t.done, description: t.saved });
+    },
+    onError: handleError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/onboarding/templates/${id}`, 'DELETE'),
+    onSuccess: refresh,
+    onError: handleError
+  });
+
+  const planAction = useMutation({
+    mutationFn: ({ id, action }: { id: number; action: 'check-out' | 'cancel' }) =>
+      apiRequest(`/api/onboarding/plans/${id}/${action}`, 'POST'),
+    onSuccess: () => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ['/api/assets'] });
+      toast({ title: t.done, description: t.saved });
+    },
+    onError: handleError
+  });
+
+  const openTemplateDialog = (template: OnboardingTemplate | null) => {
+    setEditing(template);
+    setForm(template ? {
+      name: template.name,
+      department: template.department || '',
+      title: template.title || '',
+      assetRequirements: template.assetRequirements,
+      provisioningTasks: template.provisioningTasks,
+      sendRegistrationInvite: template.sendRegistrationInvite,
+      isActive: template.isActive,
+    } : emptyForm);
+    setShowTemplateDialog(true);
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      ...form,
+      assetRequirements: form.assetRequirements.filter((r) => r.type.trim()),
+      provisioningTasks: form.provisioningTasks.filter((task) => task.trim()),
+    });
+  };
+
+  const statusBadge = (status: OnboardingPlan['status']) => {
+    if (status === 'completed') return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{t.completed}</Badge>;
+    if (status === 'cancelled') return <Badge variant="secondary">{t.cancelled}</Badge>;
+    return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">{t.scheduled}</Badge>;
+  };
+
+  const describeTemplate = (template: OnboardingTemplate) =>
+    template.assetRequirements.map((r) => `${r.quantity} × ${r.type}`).join(', ');
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <div className="flex items-center gap-2 mb-2">
+          <UserCheck className="h-6 w-6 text-blue-600" />
+          <h1 className="text-2xl font-bold">{t.title}</h1>
+        </div>
+        <p className="text-muted-foreground">{t.description}</p>
+      </div>
+
+      <Tabs defaultValue="plans">
+        <TabsList>
+          <TabsTrigger value="plans">{t.plans}</TabsTrigger>
+          <TabsTrigger value="templates">{t.templates}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="plans">
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <CardTitle>{t.plans}</CardTitle>
+                  <CardDescription>{t.plansDescription}</CardDescription>
+                </div>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="scheduled">{t.scheduled}</SelectItem>
+                    <SelectItem value="completed">{t.completed}</SelectItem>
+                    <SelectItem value="cancelled">{t.cancelled}</SelectItem>
+                    <SelectItem value="all">{t.all}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {plansLoading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : plans.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <UserCheck className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                  <p>{t.noPlans}</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t.employee}</TableHead>
+                      <TableHead>{t.joiningDate}</TableHead>
+                      <TableHead>{t.assets}</TableHead>
+                      <TableHead>{t.tickets}</TableHead>
+                      <TableHead>{t.invite}</TableHead>
+                      <TableHead>{t.status}</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plans.map((plan) => (
+                      <TableRow key={plan.id}>
+                        <TableCell>
+                          <div className="font-medium">
+                            {language === 'English' ? plan.employee?.englishName : plan.employee?.arabicName || plan.employee?.englishName}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {plan.employee?.department} · {plan.employee?.title}
+                            {plan.template && ` · ${plan.template.name}`}
+                          </div>
+                        </TableCell>
+                        <TableCell>{plan.joiningDate}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {plan.assets.map((asset) => (
+                              <Badge key={asset.id} variant="outline" title={`${asset.type} ${asset.brand} (${asset.status})`}>
+                                {asset.assetId}
+                              </Badge>
+                            ))}
+                            {plan.shortfall.map((item) => (
+                              <Badge key={item.type} variant="destructive">
+                                {item.type}: {item.missing} {t.missing}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {plan.tickets.map((ticket) => (
+                              <a key={ticket.id} href={`/tickets?id=${ticket.id}`}>
+                                <Badge variant="secondary" title={`${ticket.title} (${ticket.status})`}>{ticket.ticketId}</Badge>
+                              </a>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>{plan.invitationSentAt ? t.sent : t.notSent}</TableCell>
+                        <TableCell>{statusBadge(plan.status)}</TableCell>
+                        <TableCell>
+                          {plan.status === 'scheduled' && (
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={planAction.isPending}
+                                onClick={() => planAction.mutate({ id: plan.id, action: 'check-out' })}
+                              >
+                                <PackageCheck className="h-4 w-4 mr-1" />
+                                {t.checkOutNow}
+                              </Button>
+                              {isManager && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  disabled={planAction.isPending}
+                                  onClick={() => window.confirm(t.confirmCancel) && planAction.mutate({ id: plan.id, action: 'cancel' })}
+                                >
+                                  {t.cancelPlan}
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="templates">
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <CardTitle>{t.templates}</CardTitle>
+                  <CardDescription>{t.templatesDescription}</CardDescription>
+                </div>
+                {isManager && (
+                  <Button onClick={() => openTemplateDialog(null)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    {t.addTemplate}
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {templatesLoading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : templates.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <p>{t.noTemplates}</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t.name}</TableHead>
+                      <TableHead>{t.department}</TableHead>
+                      <TableHead>{t.jobTitle}</TableHead>
+                      <TableHead>{t.assets}</TableHead>
+                      <TableHead>{t.provisioningTasks}</TableHead>
+                      <TableHead>{t.status}</TableHead>
+                      {isManager && <TableHead />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {templates.map((template) => (
+                      <TableRow key={template.id}>
+                        <TableCell className="font-medium">{template.name}</TableCell>
+                        <TableCell>{template.department || '*'}</TableCell>
+                        <TableCell>{template.title || '*'}</TableCell>
+                        <TableCell>{describeTemplate(template) || '–'}</TableCell>
+                        <TableCell>{template.provisioningTasks.length}</TableCell>
+                        <TableCell>
+                          <Badge variant={template.isActive ? 'default' : 'secondary'}>
+                            {template.isActive ? t.active : t.inactive}
+                          </Badge>
+                        </TableCell>
+                        {isManager && (
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              <Button size="icon" variant="ghost" onClick={() => openTemplateDialog(template)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => window.confirm(t.confirmDelete) && deleteMutation.mutate(template.id)}
+                              >
+                                <Trash2 className="h-4 w-4 text-red-500" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Template dialog */}
+      <Dialog open={showTemplateDialog} onOpenChange={setShowTemplateDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? t.editTemplate : t.addTemplate}</DialogTitle>
+            <DialogDescription>{t.templatesDescription}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>{t.name}</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Developer" />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t.department}</Label>
+                <Input
+                  list="onboarding-departments"
+                  value={form.department}
+                  onChange={(e) => setForm({ ...form, department: e.target.value })}
+                  placeholder={t.anyValue}
+                />
+                <datalist id="onboarding-departments">
+                  {departments.map((d) => <option key={d.id} value={d.name} />)}
+                </datalist>
+              </div>
+              <div className="space-y-2">
+                <Label>{t.jobTitle}</Label>
+                <Input value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} placeholder={t.anyValue} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t.assets}</Label>
+              {form.assetRequirements.map((requirement, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    list="onboarding-asset-types"
+                    value={requirement.type}
+                    placeholder={t.assetType}
+                    onChange={(e) => setForm({
+                      ...form,
+                      assetRequirements: form.assetRequirements.map((r, i) => i === index ? { ...r, type: e.target.value } : r)
+                    })}
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    max={20}
+                    className="w-20"
+                    value={requirement.quantity}
+                    aria-label={t.quantity}
+                    onChange={(e) => setForm({
+                      ...form,
+                      assetRequirements: form.assetRequirements.map((r, i) => i === index ? { ...r, quantity: Math.max(1, parseInt(e.target.value) || 1) } : r)
+                    })}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setForm({ ...form, assetRequirements: form.assetRequirements.filter((_, i) => i !== index) })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <datalist id="onboarding-asset-types">
+                {assetTypes.map((type) => <option key={type.id} value={type.name} />)}
+              </datalist>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setForm({ ...form, assetRequirements: [...form.assetRequirements, { type: '', quantity: 1 }] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                {t.addAsset}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t.provisioningTasks}</Label>
+              {form.provisioningTasks.map((task, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    value={task}
+                    onChange={(e) => setForm({
+                      ...form,
+                      provisioningTasks: form.provisioningTasks.map((existing, i) => i === index ? e.target.value : existing)
+                    })}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setForm({ ...form, provisioningTasks: form.provisioningTasks.filter((_, i) => i !== index) })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setForm({ ...form, provisioningTasks: [...form.provisioningTasks, ''] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                {t.addTask}
+              </Button>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="onboarding-invite">{t.sendInvite}</Label>
+              <Switch
+                id="onboarding-invite"
+                checked={form.sendRegistrationInvite}
+                onCheckedChange={(checked) => setForm({ ...form, sendRegistrationInvite: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="onboarding-active">{t.active}</Label>
+              <Switch
+                id="onboarding-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowTemplateDialog(false)}>{t.cancel}</Button>
+            <Button onClick={handleSave} disabled={!form.name.trim() || saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,990 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import { useAuth } from '@/lib/authContext';
+import { useCurrency } from '@/lib/currencyContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { hasPermission } from '@/components/auth/RoleGuard';
+import { ROLE_IDS, getRoleLevel } from '@shared/roles.config';
+import LocationSelect from '@/components/assets/LocationSelect';
+import VendorsDialog, { type Vendor } from '@/components/vendors/VendorsDialog';
+import ApprovalTrail from '@/components/approvals/ApprovalTrail';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Building2, Eye, Loader2, PackageCheck, Plus, Search, ShoppingCart, SlidersHorizontal, Trash2
+} from 'lucide-react';
+
+type PurchaseOrderStatus =
+  'draft' | 'pending_approval' | 'approved' | 'rejected' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+type ApprovalLevel = 'auto' | 'manager' | 'admin' | 'chain';
+
+interface PurchaseOrderSummary {
+  id: number;
+  poNumber: string;
+  vendorId: number;
+  vendorName: string;
+  upgradeId: number | null;
+  upgradeTitle: string | null;
+  status: PurchaseOrderStatus;
+  totalAmount: string;
+  approvalLevel: ApprovalLevel | null;
+  expectedDate: string | null;
+  notes: string | null;
+  submittedAt: string | null;
+  decidedByName: string | null;
+  decidedAt: string | null;
+  decisionNotes: string | null;
+  orderedAt: string | null;
+  receivedAt: string | null;
+  createdById: number | null;
+  createdByName: string | null;
+  createdAt: string;
+  lineCount: number;
+  receivedAmount: number;
+}
+
+interface PurchaseOrderLine {
+  id: number;
+  description: string;
+  createsAssets: boolean;
+  assetType: string | null;
+  assetBrand: string | null;
+  assetModelName: string | null;
+  quantity: number;
+  unitPrice: string;
+  receivedQuantity: number;
+}
+
+interface PurchaseOrderReceipt {
+  id: number;
+  lineId: number;
+  quantity: number;
+  assetId: number | null;
+  assetTag: string | null;
+  serialNumber: string | null;
+  locationPath: string | null;
+  notes: string | null;
+  receivedByName: string | null;
+  receivedAt: string;
+}
+
+interface PurchaseOrderDetails extends PurchaseOrderSummary {
+  lines: PurchaseOrderLine[];
+  receipts: PurchaseOrderReceipt[];
+}
+
+interface ApprovalLimits {
+  autoApproveLimit: number;
+  managerApprovalLimit: number;
+}
+
+interface UpgradeOption {
+  id: number;
+  title: string;
+  status: string;
+}
+
+const STATUSES: PurchaseOrderStatus[] = [
+  'draft', 'pending_approval', 'approved', 'rejected', 'ordered', 'partially_received', 'received', 'cancelled'
+];
+const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = ['approved', 'ordered', 'partially_received'];
+const PURCHASABLE_UPGRADE_STATUSES = ['Approved', 'In Progress'];
+
+const emptyLine = {
+  description: '', createsAssets: false, assetType: '', assetBrand: '', assetModelName: '', quantity: '1', unitPrice: ''
+};
+const emptyForm = { vendorId: '', upgradeId: '', expectedDate: '', notes: '', lines: [emptyLine] };
+
+const statusBadgeClass: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800 hover:bg-gray-100',
+  pending_approval: 'bg-amber-100 text-amber-800 hover:bg-amber-100',
+  approved: 'bg-blue-100 text-blue-800 hover:bg-blue-100',
+  rejected: 'bg-red-100 text-red-800 hover:bg-red-100',
+  ordered: 'bg-indigo-100 text-indigo-800 hover:bg-indigo-100',
+  partially_received: 'bg-teal-100 text-teal-800 hover:bg-teal-100',
+  received: 'bg-green-100 text-green-800 hover:bg-green-100',
+  cancelled: 'bg-gray-100 text-gray-500 hover:bg-gray-100',
+};
+
+export default function PurchaseOrders() {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { formatCurrency } = useCurrency();
+  const queryClient = useQueryClient();
+
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [vendorFilter, setVendorFilter] = useState('all');
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [detailId, setDetailId] = useState<number | null>(null);
+  const [decisionNotes, setDecisionNotes] = useState('');
+  const [receiveOpen, setReceiveOpen] = useState(false);
+  const [receipt, setReceipt] = useState<{ locationId: number | null; notes: string; lines: Record<number, string> }>({
+    locationId: null, notes: '', lines: {}
+  });
+  const [vendorsOpen, setVendorsOpen] = useState(false);
+  const [limitsOpen, setLimitsOpen] = useState(false);
+  const [limitsForm, setLimitsForm] = useState({ autoApproveLimit: '', managerApprovalLimit: '' });
+
+  const isManager = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER]);
+  const isAdmin = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN]);
+
+  const t = {
+    title: language === 'English' ? 'Purchase Orders' : 'أوامر الشراء',
+    description: language === 'English'
+      ? 'Order from vendors, route orders for approval by amount and receive goods into the asset register'
+      : 'الطلب من الموردين وتوجيه الأوامر للموافقة حسب المبلغ واستلام البضائع في سجل الأصول',
+    newOrder: language === 'English' ? 'New Purchase Order' : 'أمر شراء جديد',
+    editOrder: language === 'English' ? 'Edit Purchase Order' : 'تعديل أمر الشراء',
+    vendors: language === 'English' ? 'Vendors' : 'الموردون',
+    approvalLimits: language === 'English' ? 'Approval Limits' : 'حدود الموافقة',
+    approvalLimitsDescription: language === 'English'
+      ? 'Orders up to the auto-approval limit are approved on submission; up to the manager limit a manager approves; above it an admin must approve'
+      : 'تتم الموافقة على الأوامر حتى حد الموافقة التلقائية عند الإرسال؛ وحتى حد المدير يوافق المدير؛ وما فوقه يتطلب موافقة المسؤول',
+    autoApproveLimit: language === 'English' ? 'Auto-approve up to' : 'موافقة تلقائية حتى',
+    managerApprovalLimit: language === 'English' ? 'Manager approves up to' : 'يوافق المدير حتى',
+    searchPlaceholder: language === 'English' ? 'Search PO number, vendor or notes...' : 'البحث برقم الأمر أو المورد أو الملاحظات...',
+    allStatuses: language === 'English' ? 'All statuses' : 'جميع الحالات',
+    allVendors: language === 'English' ? 'All vendors' : 'جميع الموردين',
+    awaitingApproval: language === 'English' ? 'Awaiting Approval' : 'بانتظار الموافقة',
+    openOrders: language === 'English' ? 'Open Orders' : 'الأوامر المفتوحة',
+    committed: language === 'English' ? 'Committed Value' : 'القيمة الملتزم بها',
+    receivedValue: language === 'English' ? 'Received Value' : 'القيمة المستلمة',
+    poNumber: language === 'English' ? 'PO Number' : 'رقم الأمر',
+    vendor: language === 'English' ? 'Vendor' : 'المورد',
+    upgrade: language === 'English' ? 'Upgrade Request' : 'طلب الترقية',
+    noUpgrade: language === 'English' ? 'Not linked' : 'غير مرتبط',
+    total: language === 'English' ? 'Total' : 'الإجمالي',
+    received: language === 'English' ? 'Received' : 'المستلم',
+    status: language === 'English' ? 'Status' : 'الحالة',
+    approval: language === 'English' ? 'Approval' : 'الموافقة',
+    expectedDate: language === 'English' ? 'Expected Delivery' : 'التسليم المتوقع',
+    createdBy: language === 'English' ? 'Raised By' : 'أنشئ بواسطة',
+    notes: language === 'English' ? 'Notes' : 'ملاحظات',
+    actions: language === 'English' ? 'Actions' : 'الإجراءات',
+    noOrders: language === 'English' ? 'No purchase orders found' : 'لا توجد أوامر شراء',
+    lines: language === 'English' ? 'Line Items' : 'البنود',
+    addLine: language === 'English' ? 'Add Line' : 'إضافة بند',
+    lineDescription: language === 'English' ? 'Description' : 'الوصف',
+    quantity: language === 'English' ? 'Qty' : 'الكمية',
+    unitPrice: language === 'English' ? 'Unit Price' : 'سعر الوحدة',
+    lineTotal: language === 'English' ? 'Line Total' : 'إجمالي البند',
+    createsAssets: language === 'English' ? 'Creates assets' : 'ينشئ أصولاً',
+    assetType: language === 'English' ? 'Asset type' : 'نوع الأصل',
+    assetBrand: language === 'English' ? 'Brand' : 'العلامة التجارية',
+    assetModel: language === 'English' ? 'Model' : 'الطراز',
+    requiredApproval: (level: ApprovalLevel) => ({
+      auto: language === 'English' ? 'Approved automatically on submission' : 'تتم الموافقة تلقائياً عند الإرسال',
+      manager: language === 'English' ? 'Needs manager approval' : 'يتطلب موافقة المدير',
+      admin: language === 'English' ? 'Needs admin approval' : 'يتطلب موافقة المسؤول',
+      chain: language === 'English' ? 'Goes through the approval chain' : 'يمر عبر سلسلة الموافقة',
+    })[level],
+    levels: {
+      auto: language === 'English' ? 'Auto' : 'تلقائي',
+      manager: language === 'English' ? 'Manager' : 'مدير',
+      admin: language === 'English' ? 'Admin' : 'مسؤول',
+      chain: language === 'English' ? 'Approval chain' : 'سلسلة الموافقة',
+    } as Record<ApprovalLevel, string>,
+    statuses: {
+      draft: language === 'English' ? 'Draft' : 'مسودة',
+      pending_approval: language === 'English' ? 'Pending Approval' : 'بانتظار الموافقة',
+      approved: language === 'English' ? 'Approved' : 'موافق عليه',
+      rejected: language === 'English' ? 'Rejected' : 'مرفوض',
+      ordered: language === 'English' ? 'Ordered' : 'تم الطلب',
+      partially_received: language === 'English' ? 'Partially Received' : 'مستلم جزئياً',
+      received: language === 'English' ? 'Received' : 'مستلم',
+      cancelled: language === 'English' ? 'Cancelled' : 'ملغى',
+    } as Record<PurchaseOrderStatus, string>,
+    submit: language === 'English' ? 'Submit for Approval' : 'إرسال للموافقة',
+    approve: language === 'English' ? 'Approve' : 'موافقة',
+    reject: language === 'English' ? 'Reject' : 'رفض',
+    markOrdered: language === 'English' ? 'Mark as Ordered' : 'تحديد كمطلوب',
+    receiveGoods: language === 'English' ? 'Receive Goods' : 'استلام البضائع',
+    cancelOrder: language === 'English' ? 'Cancel Order' : 'إلغاء الأمر',
+    edit: language === 'English' ? 'Edit' : 'تعديل',
+    delete: language === 'English' ? 'Delete' : 'حذف',
+    decisionNotes: language === 'English' ? 'Decision notes (required to reject)' : 'ملاحظات القرار (مطلوبة للرفض)',
+    decision: language === 'English' ? 'Decision' : 'القرار',
+    needsAdmin: language === 'English' ? 'This order is above the manager limit and needs an admin' : 'هذا الأمر يتجاوز حد المدير ويتطلب موافقة المسؤول',
+    receipts: language === 'English' ? 'Goods Received' : 'البضائع المستلمة',
+    noReceipts: language === 'English' ? 'Nothing received yet' : 'لم يتم استلام شيء بعد',
+    serialNumber: language === 'English' ? 'Serial Number' : 'الرقم التسلسلي',
+    asset: language === 'English' ? 'Asset' : 'الأصل',
+    location: language === 'English' ? 'Location' : 'الموقع',
+    receivedBy: language === 'English' ? 'Received By' : 'استلم بواسطة',
+    date: language === 'English' ? 'Date' : 'التاريخ',
+    receiveDescription: language === 'English'
+      ? 'Each serial number creates an Available asset at the chosen location'
+      : 'ينشئ كل رقم تسلسلي أصلاً متاحاً في الموقع المختار',
+    serialsHint: (remaining: number) => language === 'English'
+      ? `One serial number per line, up to ${remaining}`
+      : `رقم تسلسلي واحد في كل سطر، حتى ${remaining}`,
+    outstanding: (remaining: number) => language === 'English' ? `${remaining} outstanding` : `${remaining} متبقٍ`,
+    assetsCreated: (count: number) => language === 'English' ? `${count} asset(s) created` : `تم إنشاء ${count} أصل`,
+    confirmDelete: (poNumber: string) => language === 'English' ? `Delete draft ${poNumber}?` : `هل تريد حذف المسودة ${poNumber}؟`,
+    confirmCancel: (poNumber: string) => language === 'English' ? `Cancel ${poNumber}?` : `هل تريد إلغاء ${poNumber}؟`,
+    selectVendor: language === 'English' ? 'Select vendor' : 'اختر المورد',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    save: language === 'English' ? 'Save' : 'حفظ',
+    create: language === 'English' ? 'Create' : 'إنشاء',
+    close: language === 'English' ? 'Close' : 'إغلاق',
+    error: language === 'English' ? 'Error' : 'خطأ',
+    done: language === 'English' ? 'Done' : 'تم',
+  };
+
+  const listQuery = new URLSearchParams();
+  if (search.trim()) listQuery.set('search', search.trim());
+  if (statusFilter !== 'all') listQuery.set('status', statusFilter);
+  if (vendorFilter !== 'all') listQuery.set('vendorId', vendorFilter);
+  const listQueryString = listQuery.toString();
+
+  const { data: orders = [], isLoading } = useQuery<PurchaseOrderSummary[]>({
+    queryKey: [`/api/purchase-orders${listQueryString ? `?${listQueryString}` : ''}`],
+  });
+
+  const { data: detail, isLoading: detailLoading } = useQuery<PurchaseOrderDetails>({
+    queryKey: [`/api/purchase-orders/${detailId}`],
+    enabled: detailId !== null,
+  });
+
+  const { data: limits } = useQuery<ApprovalLimits>({
+    queryKey: ['/api/purchase-orders/approval-limits'],
+  });
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ['/api/vendors'],
+  });
+
+  const { data: upgrades = [] } = useQuery<UpgradeOption[]>({
+    queryKey: ['/api/upgrades'],
+    enabled: formOpen,
+  });
+
+  // Opened from an upgrade request: start a new order linked to it
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const upgradeId = params.get('upgradeId');
+    if (upgradeId) {
+      setEditingId(null);
+      setForm({ ...emptyForm, upgradeId });
+      setFormOpen(true);
+    }
+  }, []);
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/purchase-orders')
+        || String(query.queryKey[0]).startsWith('/api/vendors')
+        || String(query.queryKey[0]).startsWith('/api/upgrades')
+    });
+  };
+
+  const formTotal = form.lines.reduce((total, line) => total + (parseInt(line.quantity) || 0) * (parseFloat(line.unitPrice) || 0), 0);
+  const formLevel: ApprovalLevel | null = limits
+    ? formTotal <= limits.autoApproveLimit ? 'auto' : formTotal <= limits.managerApprovalLimit ? 'manager' : 'admin'
+    : null;
+  const formValid = Boolean(form.vendorId) && form.lines.length > 0 && form.lines.every(line =>
+    line.description.trim()
+    && parseInt(line.quantity) >= 1
+    && line.unitPrice.trim() !== '' && parseFloat(line.unitPrice) >= 0
+    && (!line.createsAssets || (line.assetType.trim() && line.assetBrand.trim()))
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload = {
+        vendorId: parseInt(form.vendorId),
+        upgradeId: form.upgradeId && form.upgradeId !== 'none' ? parseInt(form.upgradeId) : null,
+        expectedDate: form.expectedDate || null,
+        notes: form.notes || null,
+        lines: form.lines.map(line => ({
+          description: line.description,
+          createsAssets: line.createsAssets,
+          assetType: line.assetType || null,
+          assetBrand: line.assetBrand || null,
+          assetModelName: line.assetModelName || null,
+          quantity: parseInt(line.quantity),
+          unitPrice: parseFloat(line.unitPrice),
+        })),
+      };
+      return editingId
+        ? apiRequest(`/api/purchase-orders/${editingId}`, 'PUT', payload)
+        : apiRequest('/api/purchase-orders', 'POST', payload);
+    },
+    onSuccess: (order: PurchaseOrderSummary) => {
+      refresh();
+      setFormOpen(false);
+      setDetailId(order.id);
+    },
+    onError: handleError
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: ({ id, action, notes }: { id: number; action: 'submit' | 'approve' | 'reject' | 'order' | 'cancel'; notes?: string }) =>
+      apiRequest(`/api/purchase-orders/${id}/${action}`, 'POST', notes !== undefined ? { notes: notes || null } : {}),
+    onSuccess: (order: PurchaseOrderSummary) => {
+      refresh();
+      setDecisionNotes('');
+      toast({ title: t.done, description: `${order.poNumber}: ${t.statuses[order.status]}` });
+    },
+    onError: handleError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/purchase-orders/${id}`, 'DELETE'),
+    onSuccess: () => {
+      refresh();
+      setDetailId(null);
+    },
+    onError: handleError
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: () => {
+      if (!detail) throw new Error('No purchase order selected');
+      return apiRequest(`/api/purchase-orders/${detail.id}/receive`, 'POST', {
+        locationId: receipt.locationId,
+        notes: receipt.notes || null,
+        lines: detail.lines
+          .filter(line => (receipt.lines[line.id] || '').trim())
+          .map(line => line.createsAssets
+            ? { lineId: line.id, serialNumbers: splitSerials(receipt.lines[line.id]) }
+            : { lineId: line.id, quantity: parseInt(receipt.lines[line.id]) || 0 }),
+      });
+    },
+    onSuccess: (result: { assetIds: number[] }) => {
+      refresh();
+      setReceiveOpen(false);
+      toast({ title: t.done, description: result.assetIds.length > 0 ? t.assetsCreated(result.assetIds.length) : undefined });
+    },
+    onError: handleError
+  });
+
+  const limitsMutation = useMutation({
+    mutationFn: () => apiRequest('/api/purchase-orders/approval-limits', 'PUT', {
+      autoApproveLimit: parseFloat(limitsForm.autoApproveLimit) || 0,
+      managerApprovalLimit: parseFloat(limitsForm.managerApprovalLimit) || 0,
+    }),
+    onSuccess: () => {
+      refresh();
+      setLimitsOpen(false);
+    },
+    onError: handleError
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setFormOpen(true);
+  };
+
+  const openEdit = (order: PurchaseOrderDetails) => {
+    setEditingId(order.id);
+    setForm({
+      vendorId: String(order.vendorId),
+      upgradeId: order.upgradeId ? String(order.upgradeId) : '',
+      expectedDate: order.expectedDate || '',
+      notes: order.notes || '',
+      lines: order.lines.map(line => ({
+        description: line.description,
+        createsAssets: line.createsAssets,
+        assetType: line.assetType || '',
+        assetBrand: line.assetBrand || '',
+        assetModelName: line.assetModelName || '',
+        quantity: String(line.quantity),
+        unitPrice: line.unitPrice,
+      })),
+    });
+    setFormOpen(true);
+  };
+
+  const openReceive = () => {
+    setReceipt({ locationId: null, notes: '', lines: {} });
+    setReceiveOpen(true);
+  };
+
+  const openLimits = () => {
+    setLimitsForm({
+      autoApproveLimit: String(limits?.autoApproveLimit ?? 0),
+      managerApprovalLimit: String(limits?.managerApprovalLimit ?? 0),
+    });
+    setLimitsOpen(true);
+  };
+
+  const updateLine = (index: number, changes: Partial<typeof emptyLine>) => {
+    setForm({ ...form, lines: form.lines.map((line, i) => i === index ? { ...line, ...changes } : line) });
+  };
+
+  const receiveValid = detail !== undefined && detail.lines.some(line => (receipt.lines[line.id] || '').trim())
+    && detail.lines.every(line => {
+      const value = (receipt.lines[line.id] || '').trim();
+      if (!value) return true;
+      const remaining = line.quantity - line.receivedQuantity;
+      const count = line.createsAssets ? splitSerials(value).length : parseInt(value);
+      return count >= (line.createsAssets ? 1 : 0) && count <= remaining;
+    });
+
+  // Only offer approval to users senior enough for the order's level; chain approvals are decided in the trail
+  const canDecide = detail?.status === 'pending_approval'
+    && detail.approvalLevel !== 'chain'
+    && getRoleLevel(user?.role || '') >= getRoleLevel(detail.approvalLevel === 'admin' ? ROLE_IDS.ADMIN : ROLE_IDS.MANAGER);
+
+  const vendorName = (id: string) => vendors.find(vendor => String(vendor.id) === id)?.name;
+  const upgradeOptions = upgrades.filter(upgrade =>
+    PURCHASABLE_UPGRADE_STATUSES.includes(upgrade.status) || String(upgrade.id) === form.upgradeId
+  );
+
+  const committedValue = orders
+    .filter(order => RECEIVABLE_STATUSES.includes(order.status) || order.status === 'received')
+    .reduce((total, order) => total + parseFloat(order.totalAmount), 0);
+
+  const statusBadge = (status: PurchaseOrderStatus) => (
+    <Badge className={statusBadgeClass[status]}>{t.statuses[status]}</Badge>
+  );
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <ShoppingCart className="h-6 w-6 text-blue-600" />
+            <h1 className="text-2xl font-bold">{t.title}</h1>
+          </div>
+          <p className="text-muted-foreground">{t.description}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setVendorsOpen(true)}>
+            <Building2 className="h-4 w-4 mr-2" />
+            {t.vendors}
+          </Button>
+          {isAdmin && (
+            <Button variant="outline" onClick={openLimits}>
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              {t.approvalLimits}
+            </Button>
+          )}
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t.newOrder}
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {[
+          { label: t.awaitingApproval, value: orders.filter(order => order.status === 'pending_approval').length },
+          { label: t.openOrders, value: orders.filter(order => RECEIVABLE_STATUSES.includes(order.status)).length },
+          { label: t.committed, value: formatCurrency(committedValue) },
+          { label: t.receivedValue, value: formatCurrency(orders.reduce((total, order) => total + order.receivedAmount, 0)) },
+        ].map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="p-4">
+              <div className="text-xs text-muted-foreground">{stat.label}</div>
+              <div className="text-2xl font-bold">{stat.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col lg:flex-row gap-3 lg:items-center">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder={t.searchPlaceholder} className="pl-9" />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-full lg:w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t.allStatuses}</SelectItem>
+                {STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{t.statuses[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={vendorFilter} onValueChange={setVendorFilter}>
+              <SelectTrigger className="w-full lg:w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t.allVendors}</SelectItem>
+                {vendors.map(vendor => (
+                  <SelectItem key={vendor.id} value={String(vendor.id)}>{vendor.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : orders.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">{t.noOrders}</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t.poNumber}</TableHead>
+                  <TableHead>{t.vendor}</TableHead>
+                  <TableHead>{t.upgrade}</TableHead>
+                  <TableHead>{t.total}</TableHead>
+                  <TableHead>{t.received}</TableHead>
+                  <TableHead>{t.status}</TableHead>
+                  <TableHead>{t.createdBy}</TableHead>
+                  <TableHead className="text-right">{t.actions}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map(order => (
+                  <TableRow key={order.id} className={order.status === 'cancelled' ? 'opacity-60' : ''}>
+                    <TableCell>
+                      <div className="font-medium">{order.poNumber}</div>
+                      <div className="text-xs text-muted-foreground">{new Date(order.createdAt).toLocaleDateString()}</div>
+                    </TableCell>
+                    <TableCell>{order.vendorName}</TableCell>
+                    <TableCell className="max-w-[200px] truncate" title={order.upgradeTitle || undefined}>
+                      {order.upgradeId ? `#${order.upgradeId} ${order.upgradeTitle || ''}` : '-'}
+                    </TableCell>
+                    <TableCell>{formatCurrency(order.totalAmount)}</TableCell>
+                    <TableCell>{order.receivedAmount > 0 ? formatCurrency(order.receivedAmount) : '-'}</TableCell>
+                    <TableCell>
+                      {statusBadge(order.status)}
+                      {order.status === 'pending_approval' && order.approvalLevel && (
+                        <div className="text-xs text-muted-foreground mt-1">{t.levels[order.approvalLevel]}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{order.createdByName || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => { setDecisionNotes(''); setDetailId(order.id); }}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / edit */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? t.editOrder : t.newOrder}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label>{t.vendor} *</Label>
+                <Select value={form.vendorId} onValueChange={(vendorId) => setForm({ ...form, vendorId })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t.selectVendor}>{vendorName(form.vendorId)}</SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vendors.filter(vendor => vendor.isActive || String(vendor.id) === form.vendorId).map(vendor => (
+                      <SelectItem key={vendor.id} value={String(vendor.id)}>{vendor.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t.upgrade}</Label>
+                <Select value={form.upgradeId || 'none'} onValueChange={(upgradeId) => setForm({ ...form, upgradeId })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">{t.noUpgrade}</SelectItem>
+                    {upgradeOptions.map(upgrade => (
+                      <SelectItem key={upgrade.id} value={String(upgrade.id)}>#{upgrade.id} {upgrade.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t.expectedDate}</Label>
+                <Input type="date" value={form.expectedDate} onChange={(e) => setForm({ ...form, expectedDate: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>{t.lines}</Label>
+                <Button variant="outline" size="sm" onClick={() => setForm({ ...form, lines: [...form.lines, emptyLine] })}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  {t.addLine}
+                </Button>
+              </div>
+              {form.lines.map((line, index) => (
+                <div key={index} className="rounded-md border p-3 space-y-2">
+                  <div className="grid gap-2 md:grid-cols-[1fr_90px_130px_auto] items-center">
+                    <Input value={line.description} onChange={(e) => updateLine(index, { description: e.target.value })} placeholder={t.lineDescription} />
+                    <Input type="number" min="1" value={line.quantity} onChange={(e) => updateLine(index, { quantity: e.target.value })} placeholder={t.quantity} />
+                    <Input type="number" min="0" step="0.01" value={line.unitPrice} onChange={(e) => updateLine(index, { unitPrice: e.target.value })} placeholder={t.unitPrice} />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={form.lines.length === 1}
+                      onClick={() => setForm({ ...form, lines: form.lines.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-col md:flex-row gap-2 md:items-center">
+                    <div className="flex items-center gap-2 md:w-[160px]">
+                      <Switch checked={line.createsAssets} onCheckedChange={(createsAssets) => updateLine(index, { createsAssets })} id={`creates-assets-${index}`} />
+                      <Label htmlFor={`creates-assets-${index}`} className="whitespace-nowrap">{t.createsAssets}</Label>
+                    </div>
+                    {line.createsAssets && (
+                      <>
+                        <Input value={line.assetType} onChange={(e) => updateLine(index, { assetType: e.target.value })} placeholder={`${t.assetType} *`} />
+                        <Input value={line.assetBrand} onChange={(e) => updateLine(index, { assetBrand: e.target.value })} placeholder={`${t.assetBrand} *`} />
+                        <Input value={line.assetModelName} onChange={(e) => updateLine(index, { assetModelName: e.target.value })} placeholder={t.assetModel} />
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t.notes}</Label>
+              <Textarea value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} rows={2} />
+            </div>
+
+            <div className="flex items-center justify-between rounded-md bg-muted p-3">
+              <span className="text-sm text-muted-foreground">{formLevel ? t.requiredApproval(formLevel) : ''}</span>
+              <span className="font-bold">{t.total}: {formatCurrency(formTotal)}</span>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>{t.cancel}</Button>
+            <Button disabled={!formValid || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+              {editingId ? t.save : t.create}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Details */}
+      <Dialog open={detailId !== null} onOpenChange={(open) => !open && setDetailId(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{detail ? `${detail.poNumber} · ${detail.vendorName}` : t.title}</DialogTitle>
+            {detail && (
+              <DialogDescription>
+                {detail.upgradeId ? `${t.upgrade}: #${detail.upgradeId} ${detail.upgradeTitle || ''}` : t.noUpgrade}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {detailLoading || !detail ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div>
+                  <div className="text-muted-foreground">{t.status}</div>
+                  {statusBadge(detail.status)}
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t.approval}</div>
+                  <div>{detail.approvalLevel ? t.levels[detail.approvalLevel] : '-'}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t.total}</div>
+                  <div className="font-medium">{formatCurrency(detail.totalAmount)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t.expectedDate}</div>
+                  <div>{detail.expectedDate ? new Date(detail.expectedDate).toLocaleDateString() : '-'}</div>
+                </div>
+              </div>
+              {detail.notes && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{detail.notes}</p>}
+              {detail.decidedAt && (
+                <div className="rounded-md border p-3 text-sm">
+                  <span className="font-medium">{t.decision}:</span> {t.statuses[detail.status === 'rejected' ? 'rejected' : 'approved']}
+                  {' · '}{detail.decidedByName || '-'} · {new Date(detail.decidedAt).toLocaleString()}
+                  {detail.decisionNotes && <div className="mt-1 text-muted-foreground">{detail.decisionNotes}</div>}
+                </div>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.lineDescription}</TableHead>
+                    <TableHead>{t.quantity}</TableHead>
+                    <TableHead>{t.unitPrice}</TableHead>
+                    <TableHead>{t.lineTotal}</TableHead>
+                    <TableHead>{t.received}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detail.lines.map(line => (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        <div className="font-medium">{line.description}</div>
+                        {line.createsAssets && (
+                          <div className="text-xs text-muted-foreground">
+                            {[line.assetType, line.assetBrand, line.assetModelName].filter(Boolean).join(' · ')}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{line.quantity}</TableCell>
+                      <TableCell>{formatCurrency(line.unitPrice)}</TableCell>
+                      <TableCell>{formatCurrency(line.quantity * parseFloat(line.unitPrice))}</TableCell>
+                      <TableCell>{line.receivedQuantity} / {line.quantity}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div>
+                <h3 className="font-medium mb-2">{t.receipts}</h3>
+                {detail.receipts.length === 0 ? (
+                  <div className="text-sm text-muted-foreground">{t.noReceipts}</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t.date}</TableHead>
+                        <TableHead>{t.lineDescription}</TableHead>
+                        <TableHead>{t.quantity}</TableHead>
+                        <TableHead>{t.asset}</TableHead>
+                        <TableHead>{t.location}</TableHead>
+                        <TableHead>{t.receivedBy}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {detail.receipts.map(received => (
+                        <TableRow key={received.id}>
+                          <TableCell className="whitespace-nowrap">{new Date(received.receivedAt).toLocaleDateString()}</TableCell>
+                          <TableCell>{detail.lines.find(line => line.id === received.lineId)?.description || '-'}</TableCell>
+                          <TableCell>{received.quantity}</TableCell>
+                          <TableCell>
+                            {received.assetTag || '-'}
+                            {received.serialNumber && <div className="text-xs text-muted-foreground">{received.serialNumber}</div>}
+                          </TableCell>
+                          <TableCell>{received.locationPath || '-'}</TableCell>
+                          <TableCell>{received.receivedByName || '-'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+
+              <ApprovalTrail requestType="purchase_order" subjectId={detail.id} />
+
+              {detail.status === 'pending_approval' && detail.approvalLevel !== 'chain' && isManager && (
+                canDecide ? (
+                  <div className="space-y-2">
+                    <Label>{t.decisionNotes}</Label>
+                    <Textarea value={decisionNotes} onChange={(e) => setDecisionNotes(e.target.value)} rows={2} />
+                  </div>
+                ) : (
+                  <div className="text-sm text-amber-700">{t.needsAdmin}</div>
+                )
+              )}
+            </div>
+          )}
+          {detail && (
+            <DialogFooter className="flex-wrap gap-2">
+              {detail.status === 'draft' && (
+                <Button
+                  variant="outline"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => window.confirm(t.confirmDelete(detail.poNumber)) && deleteMutation.mutate(detail.id)}
+                >
+                  <Trash2 className="h-4 w-4 mr-2 text-red-600" />
+                  {t.delete}
+                </Button>
+              )}
+              {isManager && ['draft', 'pending_approval', 'approved', 'ordered'].includes(detail.status) && (
+                <Button
+                  variant="outline"
+                  disabled={transitionMutation.isPending}
+                  onClick={() => window.confirm(t.confirmCancel(detail.poNumber)) && transitionMutation.mutate({ id: detail.id, action: 'cancel' })}
+                >
+                  {t.cancelOrder}
+                </Button>
+              )}
+              {(detail.status === 'draft' || detail.status === 'rejected') && (
+                <Button variant="outline" onClick={() => openEdit(detail)}>{t.edit}</Button>
+              )}
+              {detail.status === 'draft' && (
+                <Button disabled={transitionMutation.isPending} onClick={() => transitionMutation.mutate({ id: detail.id, action: 'submit' })}>
+                  {t.submit}
+                </Button>
+              )}
+              {canDecide && (
+                <>
+                  <Button
+                    variant="destructive"
+                    disabled={!decisionNotes.trim() || transitionMutation.isPending}
+                    onClick={() => transitionMutation.mutate({ id: detail.id, action: 'reject', notes: decisionNotes })}
+                  >
+                    {t.reject}
+                  </Button>
+                  <Button
+                    disabled={transitionMutation.isPending}
+                    onClick={() => transitionMutation.mutate({ id: detail.id, action: 'approve', notes: decisionNotes })}
+                  >
+                    {t.approve}
+                  </Button>
+                </>
+              )}
+              {detail.status === 'approved' && (
+                <Button variant="outline" disabled={transitionMutation.isPending} onClick={() => transitionMutation.mutate({ id: detail.id, action: 'order' })}>
+                  {t.markOrdered}
+                </Button>
+              )}
+              {RECEIVABLE_STATUSES.includes(detail.status) && (
+                <Button onClick={openReceive}>
+                  <PackageCheck className="h-4 w-4 mr-2" />
+                  {t.receiveGoods}
+                </Button>
+              )}
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Receive goods */}
+      <Dialog open={receiveOpen} onOpenChange={setReceiveOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t.receiveGoods}{detail ? ` · ${detail.poNumber}` : ''}</DialogTitle>
+            <DialogDescription>{t.receiveDescription}</DialogDescription>
+          </DialogHeader>
+          {detail && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>{t.location}</Label>
+                <LocationSelect value={receipt.locationId} onChange={(locationId) => setReceipt({ ...receipt, locationId })} />
+              </div>
+              {detail.lines.filter(line => line.receivedQuantity < line.quantity).map(line => {
+                const remaining = line.quantity - line.receivedQuantity;
+                return (
+                  <div key={line.id} className="space-y-2 rounded-md border p-3">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium">{line.description}</span>
+                      <span className="text-muted-foreground">{t.outstanding(remaining)}</span>
+                    </div>
+                    {line.createsAssets ? (
+                      <>
+                        <Textarea
+                          value={receipt.lines[line.id] || ''}
+                          onChange={(e) => setReceipt({ ...receipt, lines: { ...receipt.lines, [line.id]: e.target.value } })}
+                          placeholder={t.serialNumber}
+                          rows={Math.min(remaining, 5)}
+                        />
+                        <div className="text-xs text-muted-foreground">
+                          {t.serialsHint(remaining)} · {splitSerials(receipt.lines[line.id] || '').length}
+                        </div>
+                      </>
+                    ) : (
+                      <Input
+                        type="number"
+                        min="0"
+                        max={remaining}
+                        value={receipt.lines[line.id] || ''}
+                        onChange={(e) => setReceipt({ ...receipt, lines: { ...receipt.lines, [line.id]: e.target.value } })}
+                        placeholder={t.quantity}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+              <div className="space-y-2">
+                <Label>{t.notes}</Label>
+                <Textarea value={receipt.notes} onChange={(e) => setReceipt({ ...receipt, notes: e.target.value })} rows={2} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReceiveOpen(false)}>{t.cancel}</Button>
+            <Button disabled={!receiveValid || receiveMutation.isPending} onClick={() => receiveMutation.mutate()}>
+              {t.receiveGoods}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Approval limits */}
+      <Dialog open={limitsOpen} onOpenChange={setLimitsOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t.approvalLimits}</DialogTitle>
+            <DialogDescription>{t.approvalLimitsDescription}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>{t.autoApproveLimit}</Label>
+              <Input type="number" min="0" step="0.01" value={limitsForm.autoApproveLimit} onChange={(e) => setLimitsForm({ ...limitsForm, autoApproveLimit: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.managerApprovalLimit}</Label>
+              <Input type="number" min="0" step="0.01" value={limitsForm.managerApprovalLimit} onChange={(e) => setLimitsForm({ ...limitsForm, managerApprovalLimit: e.target.value })} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLimitsOpen(false)}>{t.cancel}</Button>
+            <Button disabled={limitsMutation.isPending} onClick={() => limitsMutation.mutate()}>{t.save}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <VendorsDialog open={vendorsOpen} onOpenChange={setVendorsOpen} onVendorsChanged={refresh} />
+    </div>
+  );
+}
+
+function splitSerials(value: string): string[] {
+  return value.split('\n').map(serial => serial.trim()).filter(Boolean);
+}
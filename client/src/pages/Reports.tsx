@@ -79,6 +79,7 @@ export default function Reports() {
   const [startDate, setStartDate] = useState<Date | null>(null);
   const [endDate, setEndDate] = useState<Date | null>(null);
   const [selectedReportType, setSelectedReportType] = useState<'all' | 'employees' | 'assets' | 'tickets'>('all');
+  const [consumptionDays, setConsumptionDays] = useState<30 | 90 | 365>(90);
 
   // Enhanced translations
   const translations = {
@@ -106,10 +107,15 @@ export default function Reports() {
     assetsByStatus: language === 'English' ? 'Assets by Status' : 'الأصول حسب الحالة',
     assignedVsUnassigned: language === 'English' ? 'Assigned vs Unassigned Assets' : 'الأصول المعينة مقابل غير المعينة',
     warrantyExpiry: language === 'English' ? 'Assets Nearing Warranty Expiry' : 'الأصول التي تقترب من انتهاء الضمان',
+    assetsByLocation: language === 'English' ? 'Assets by Location' : 'الأصول حسب الموقع',
+    withoutLocation: language === 'English' ? 'Without location' : 'بدون موقع',
     assetValue: language === 'English' ? 'Total Purchase Cost' : 'إجمالي تكلفة الشراء',
     assetUtilization: language === 'English' ? 'Asset Lifespan Utilization' : 'استخدام عمر الأصول',
     maintenanceCosts: language === 'English' ? 'Maintenance Costs by Type' : 'تكاليف الصيانة حسب النوع',
     assetAge: language === 'English' ? 'Asset Age Distribution' : 'توزيع أعمار الأصول',
+    consumablesByDepartment: language === 'English' ? 'Consumables Issued by Department' : 'المستهلكات المصروفة حسب الإدارة',
+    lowStockConsumables: language === 'English' ? 'Consumables at or Below Reorder Level' : 'المستهلكات عند حد إعادة الطلب أو أقل',
+    lastDays: (days: number) => language === 'English' ? `${days} days` : `${days} يومًا`,
     
     // Chart titles - Ticket
     ticketsByStatus: language === 'English' ? 'Tickets by Status' : 'التذاكر حسب الحالة',
@@ -206,6 +212,20 @@ export default function Reports() {
     staleTime: 1000 * 60 * 10, // 10 minutes
   });
 
+  // Fetch consumable usage for the selected period
+  const consumptionFrom = new Date(Date.now() - consumptionDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const { 
+    data: consumableReport, 
+    isLoading: consumableReportLoading
+  } = useQuery<{
+    totals: { quantity: number; cost: number };
+    byDepartment: { department: string; quantity: number; cost: number; items: { consumableId: number; name: string; unit: string; quantity: number }[] }[];
+    lowStock: { id: number; name: string; sku: string | null; unit: string; totalQuantity: number; minStock: number }[];
+  }>({
+    queryKey: [`/api/reports/consumables?from=${consumptionFrom}`],
+    staleTime: 1000 * 60 * 10, // 10 minutes
+  });
+
   // Check for any errors
   const hasErrors = employeeReportsError || assetReportsError || ticketReportsError;
 
@@ -988,6 +1008,191 @@ export default function Reports() {
               </CardContent>
             </Card>
 
+            {/* Assets by Location */}
+            <Card>
+              <CardHeader>
+                <CardTitle>{translations.assetsByLocation}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {assetReportsLoading ? (
+                  <Skeleton className="h-80 w-full" />
+                ) : assetReports?.assetsByLocation?.length > 0 ? (
+                  <div className="overflow-auto max-h-80">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Location
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Type
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Assets
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {assetReports?.assetsByLocation?.map((location: any) => (
+                          <tr key={location.locationId}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                              {location.path}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {location.type}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                              {location.totalCount}
+                            </td>
+                          </tr>
+                        ))}
+                        <tr>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm italic text-gray-500" colSpan={2}>
+                            {translations.withoutLocation}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                            {assetReports?.assetsWithoutLocation || 0}
+                          </td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <div className="h-80 flex items-center justify-center text-gray-500">
+                    No locations have been set up yet
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Consumables by Department */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>{translations.consumablesByDepartment}</CardTitle>
+                <div className="flex gap-1">
+                  {([30, 90, 365] as const).map(days => (
+                    <Button
+                      key={days}
+                      size="sm"
+                      variant={consumptionDays === days ? 'default' : 'outline'}
+                      onClick={() => setConsumptionDays(days)}
+                    >
+                      {translations.lastDays(days)}
+                    </Button>
+                  ))}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {consumableReportLoading ? (
+                  <Skeleton className="h-80 w-full" />
+                ) : consumableReport && consumableReport.byDepartment.length > 0 ? (
+                  <div className="overflow-auto max-h-80">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Department
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Top Items
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Qty
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Cost
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {consumableReport.byDepartment.map(department => (
+                          <tr key={department.department}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                              {department.department}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-500">
+                              {department.items.slice(0, 3).map(item => `${item.name} (${item.quantity} ${item.unit})`).join(', ')}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                              {department.quantity}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                              {formatCurrency(department.cost)}
+                            </td>
+                          </tr>
+                        ))}
+                        <tr>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900" colSpan={2}>
+                            {translations.total}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 text-right">
+                            {consumableReport.totals.quantity}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 text-right">
+                            {formatCurrency(consumableReport.totals.cost)}
+                          </td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <div className="h-80 flex items-center justify-center text-gray-500">
+                    No consumables were issued in this period
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Low Stock Consumables */}
+            <Card>
+              <CardHeader>
+                <CardTitle>{translations.lowStockConsumables}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {consumableReportLoading ? (
+                  <Skeleton className="h-80 w-full" />
+                ) : consumableReport && consumableReport.lowStock.length > 0 ? (
+                  <div className="overflow-auto max-h-80">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Item
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            On Hand
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Reorder At
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {consumableReport.lowStock.map(item => (
+                          <tr key={item.id}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                              {item.name}
+                              {item.sku && <span className="ml-2 text-xs text-gray-500">{item.sku}</span>}
+                            </td>
+                            <td className={`px-6 py-4 whitespace-nowrap text-sm text-right ${item.totalQuantity <= 0 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                              {item.totalQuantity} {item.unit}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                              {item.minStock}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <div className="h-80 flex items-center justify-center text-gray-500">
+                    All consumables are above their reorder level
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Total Purchase Cost */}
             <Card>
               <CardHeader>
@@ -11,21 +11,17 @@ import {
   FormItem,
   FormLabel,
   FormMessage,
-  FormDescription,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useLanguage } from '@/hooks/use-language';
 import { apiRequest } from '@/lib/queryClient';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
 
-// Schema for password reset
+// Schema for password reset (the server checks the admin-configured password policy)
 const resetPasswordSchema = z.object({
-  newPassword: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Za-z]/, 'Password must contain at least one letter')
-    .regex(/\d/, 'Password must contain at least one number'),
+  newPassword: z.string().min(1, 'New password is required'),
   confirmPassword: z.string(),
 }).refine(data => data.newPassword === data.confirmPassword, {
   message: "Passwords don't match",
@@ -51,9 +47,6 @@ export default function ResetPassword() {
     subtitle: language === 'English' ? 'Create a new password' : 'إنشاء كلمة مرور جديدة',
     newPassword: language === 'English' ? 'New Password' : 'كلمة المرور الجديدة',
     confirmPassword: language === 'English' ? 'Confirm Password' : 'تأكيد كلمة المرور',
-    requirements: language === 'English' 
-      ? 'Password must be at least 8 characters and contain both letters and numbers' 
-      : 'يجب أن تتكون كلمة المرور من 8 أحرف على الأقل وتحتوي على أحرف وأرقام',
     resetButton: language === 'English' ? 'Reset Password' : 'إعادة تعيين كلمة المرور',
     backToLogin: language === 'English' ? 'Back to Login' : 'العودة إلى تسجيل الدخول',
     requestNewLink: language === 'English' ? 'Request New Link' : 'طلب رابط جديد',
@@ -266,9 +259,7 @@ export default function ResetPassword() {
                               {...field} 
                             />
                           </FormControl>
-                          <FormDescription>
-                            {translations.requirements}
-                          </FormDescription>
+                          <PasswordStrengthMeter password={field.value} />
                           <FormMessage />
                         </FormItem>
                       )}
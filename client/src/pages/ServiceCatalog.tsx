@@ -0,0 +1,634 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useLanguage } from '@/hooks/use-language';
+import { useAuth } from '@/lib/authContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { hasPermission } from '@/components/auth/RoleGuard';
+import { ROLE_IDS } from '@shared/roles.config';
+import ApprovalTrail from '@/components/approvals/ApprovalTrail';
+import {
+  ServiceRequestAnswers, useServiceRequestLabels,
+  type ServiceFormField, type ServiceFormFieldType, type ServiceRequest, type ServiceRequestStatus
+} from '@/components/tickets/ServiceRequestPanel';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ClipboardList, ExternalLink, Eye, Pencil, Plus, Trash2 } from 'lucide-react';
+
+type TicketType = 'Incident' | 'Service Request' | 'Problem' | 'Change';
+type PriorityLevel = 'Low' | 'Medium' | 'High' | 'Critical';
+
+interface CatalogItem {
+  id: number;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  formFields: ServiceFormField[];
+  ticketType: TicketType;
+  categoryId: number | null;
+  categoryName: string | null;
+  urgency: PriorityLevel;
+  impact: PriorityLevel;
+  requiresApproval: boolean;
+  fulfillmentTasks: string[];
+  sortOrder: number;
+  isActive: boolean;
+}
+
+interface Category {
+  id: number;
+  name: string;
+}
+
+// Options of a select field are edited as one comma-separated line
+type FieldDraft = Omit<ServiceFormField, 'options'> & { options: string };
+
+const FIELD_TYPES: ServiceFormFieldType[] = ['text', 'textarea', 'number', 'select', 'checkbox', 'date'];
+const TICKET_TYPES: TicketType[] = ['Incident', 'Service Request', 'Problem', 'Change'];
+const PRIORITY_LEVELS: PriorityLevel[] = ['Low', 'Medium', 'High', 'Critical'];
+const REQUEST_STATUSES: ServiceRequestStatus[] = ['pending_approval', 'submitted', 'rejected', 'cancelled'];
+
+const emptyField: FieldDraft = { key: '', label: '', type: 'text', required: false, options: '' };
+
+const emptyItemForm = {
+  name: '',
+  description: '',
+  icon: '',
+  formFields: [] as FieldDraft[],
+  ticketType: 'Service Request' as TicketType,
+  categoryId: '',
+  urgency: 'Medium' as PriorityLevel,
+  impact: 'Medium' as PriorityLevel,
+  requiresApproval: false,
+  fulfillmentTasks: [] as string[],
+  sortOrder: '0',
+  isActive: true,
+};
+
+// Field keys are derived from the label until the admin edits them
+const toFieldKey = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '').slice(0, 50);
+
+export default function ServiceCatalog() {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+  const labels = useServiceRequestLabels();
+
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [viewRequest, setViewRequest] = useState<ServiceRequest | null>(null);
+
+  const [itemDialogOpen, setItemDialogOpen] = useState(false);
+  const [editingItemId, setEditingItemId] = useState<number | null>(null);
+  const [itemForm, setItemForm] = useState(emptyItemForm);
+
+  const isAdmin = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN]);
+
+  const t = {
+    title: language === 'English' ? 'Service Catalog' : 'كتالوج الخدمات',
+    description: language === 'English'
+      ? 'Requests employees submit from the portal and the catalog items they choose from'
+      : 'الطلبات التي يقدمها الموظفون من البوابة وعناصر الكتالوج التي يختارون منها',
+    requestsTab: language === 'English' ? 'Requests' : 'الطلبات',
+    itemsTab: language === 'English' ? 'Catalog Items' : 'عناصر الكتالوج',
+    item: language === 'English' ? 'Item' : 'العنصر',
+    employee: language === 'English' ? 'Employee' : 'الموظف',
+    status: language === 'English' ? 'Status' : 'الحالة',
+    tasks: language === 'English' ? 'Tasks' : 'المهام',
+    ticket: language === 'English' ? 'Ticket' : 'التذكرة',
+    created: language === 'English' ? 'Created' : 'تاريخ الإنشاء',
+    actions: language === 'English' ? 'Actions' : 'الإجراءات',
+    allStatuses: language === 'English' ? 'All statuses' : 'جميع الحالات',
+    noRequests: language === 'English' ? 'No service requests found' : 'لا توجد طلبات خدمة',
+    noItems: language === 'English' ? 'No catalog items yet' : 'لا توجد عناصر في الكتالوج بعد',
+    requestedBy: language === 'English' ? 'Requested by' : 'مقدم الطلب',
+    newItem: language === 'English' ? 'New Item' : 'عنصر جديد',
+    editItem: language === 'English' ? 'Edit Catalog Item' : 'تعديل عنصر الكتالوج',
+    itemHint: language === 'English'
+      ? 'Answers to the form are copied into the ticket; tasks become the fulfillment checklist of every request. Approval uses the Service request chain, or the requester\'s direct manager when no chain is active.'
+      : 'تُنسخ إجابات النموذج إلى التذكرة، وتصبح المهام قائمة التنفيذ لكل طلب. تستخدم الموافقة سلسلة طلبات الخدمة، أو المدير المباشر لمقدم الطلب عند عدم وجود سلسلة نشطة.',
+    name: language === 'English' ? 'Name' : 'الاسم',
+    icon: language === 'English' ? 'Icon (emoji)' : 'الأيقونة (رمز تعبيري)',
+    descriptionLabel: language === 'English' ? 'Description' : 'الوصف',
+    ticketType: language === 'English' ? 'Ticket type' : 'نوع التذكرة',
+    category: language === 'English' ? 'Category' : 'الفئة',
+    none: language === 'English' ? 'None' : 'لا شيء',
+    urgency: language === 'English' ? 'Urgency' : 'الإلحاح',
+    impact: language === 'English' ? 'Impact' : 'التأثير',
+    sortOrder: language === 'English' ? 'Sort order' : 'الترتيب',
+    requiresApproval: language === 'English' ? 'Requires approval' : 'يتطلب موافقة',
+    approval: language === 'English' ? 'Approval' : 'الموافقة',
+    active: language === 'English' ? 'Active' : 'نشط',
+    inactive: language === 'English' ? 'Inactive' : 'غير نشط',
+    formFields: language === 'English' ? 'Form fields' : 'حقول النموذج',
+    fieldLabel: language === 'English' ? 'Label' : 'التسمية',
+    fieldKey: language === 'English' ? 'Key' : 'المفتاح',
+    fieldOptions: language === 'English' ? 'Options, comma separated' : 'الخيارات، مفصولة بفواصل',
+    required: language === 'English' ? 'Required' : 'مطلوب',
+    addField: language === 'English' ? 'Add Field' : 'إضافة حقل',
+    fulfillmentTasks: language === 'English' ? 'Fulfillment tasks' : 'مهام التنفيذ',
+    taskTitle: language === 'English' ? 'Task (e.g. Image laptop)' : 'مهمة (مثل تجهيز الحاسوب)',
+    addTask: language === 'English' ? 'Add Task' : 'إضافة مهمة',
+    fieldTypes: {
+      text: language === 'English' ? 'Text' : 'نص',
+      textarea: language === 'English' ? 'Long text' : 'نص طويل',
+      number: language === 'English' ? 'Number' : 'رقم',
+      select: language === 'English' ? 'Dropdown' : 'قائمة منسدلة',
+      checkbox: language === 'English' ? 'Checkbox' : 'مربع اختيار',
+      date: language === 'English' ? 'Date' : 'تاريخ',
+    } as Record<ServiceFormFieldType, string>,
+    save: language === 'English' ? 'Save' : 'حفظ',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    confirmDeleteItem: language === 'English'
+      ? 'Delete this catalog item? Past requests keep their answers.'
+      : 'هل تريد حذف عنصر الكتالوج هذا؟ تحتفظ الطلبات السابقة بإجاباتها.',
+    saved: language === 'English' ? 'Saved' : 'تم الحفظ',
+    error: language === 'English' ? 'Error' : 'خطأ',
+  };
+
+  const requestsUrl = `/api/service-catalog/requests${statusFilter !== 'all' ? `?status=${statusFilter}` : ''}`;
+  const { data: requests = [] } = useQuery<ServiceRequest[]>({
+    queryKey: [requestsUrl],
+  });
+
+  const { data: items = [] } = useQuery<CatalogItem[]>({
+    queryKey: ['/api/service-catalog/items?includeInactive=true'],
+    enabled: isAdmin,
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+    enabled: isAdmin,
+  });
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  const refreshCatalog = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/service-catalog')
+    });
+  };
+
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleDateString(language === 'English' ? 'en-US' : 'ar-SA') : '-';
+
+  const itemMutation = useMutation({
+    mutationFn: () => {
+      const body = {
+        name: itemForm.name,
+        description: itemForm.description,
+        icon: itemForm.icon,
+        formFields: itemForm.formFields.map(field => ({
+          key: field.key,
+          label: field.label,
+          type: field.type,
+          required: field.required,
+          ...(field.type === 'select'
+            ? { options: field.options.split(',').map(option => option.trim()).filter(Boolean) }
+            : {}),
+        })),
+        ticketType: itemForm.ticketType,
+        categoryId: itemForm.categoryId ? Number(itemForm.categoryId) : null,
+        urgency: itemForm.urgency,
+        impact: itemForm.impact,
+        requiresApproval: itemForm.requiresApproval,
+        fulfillmentTasks: itemForm.fulfillmentTasks.map(task => task.trim()).filter(Boolean),
+        sortOrder: Number(itemForm.sortOrder) || 0,
+        isActive: itemForm.isActive,
+      };
+      return editingItemId
+        ? apiRequest(`/api/service-catalog/items/${editingItemId}`, 'PUT', body)
+        : apiRequest('/api/service-catalog/items', 'POST', body);
+    },
+    onSuccess: () => {
+      toast({ title: t.saved });
+      setItemDialogOpen(false);
+      refreshCatalog();
+    },
+    onError: handleError
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/service-catalog/items/${id}`, 'DELETE'),
+    onSuccess: refreshCatalog,
+    onError: handleError
+  });
+
+  const openItemDialog = (item?: CatalogItem) => {
+    setEditingItemId(item?.id ?? null);
+    setItemForm(item
+      ? {
+        name: item.name,
+        description: item.description ?? '',
+        icon: item.icon ?? '',
+        formFields: item.formFields.map(field => ({ ...field, options: field.options?.join(', ') ?? '' })),
+        ticketType: item.ticketType,
+        categoryId: item.categoryId ? String(item.categoryId) : '',
+        urgency: item.urgency,
+        impact: item.impact,
+        requiresApproval: item.requiresApproval,
+        fulfillmentTasks: item.fulfillmentTasks,
+        sortOrder: String(item.sortOrder),
+        isActive: item.isActive,
+      }
+      : emptyItemForm);
+    setItemDialogOpen(true);
+  };
+
+  const updateField = (index: number, changes: Partial<FieldDraft>) => {
+    setItemForm({
+      ...itemForm,
+      formFields: itemForm.formFields.map((field, i) => {
+        if (i !== index) return field;
+        const keyFollowsLabel = !field.key || field.key === toFieldKey(field.label);
+        return {
+          ...field,
+          ...changes,
+          ...(changes.label !== undefined && changes.key === undefined && keyFollowsLabel ? { key: toFieldKey(changes.label) } : {}),
+        };
+      }),
+    });
+  };
+
+  const updateTask = (index: number, title: string) => {
+    setItemForm({
+      ...itemForm,
+      fulfillmentTasks: itemForm.fulfillmentTasks.map((task, i) => i === index ? title : task),
+    });
+  };
+
+  const itemFormValid = itemForm.name.trim() && itemForm.formFields.every(field =>
+    field.label.trim() && field.key.trim() && (field.type !== 'select' || field.options.trim())
+  );
+
+  const getTaskProgress = (request: ServiceRequest) => request.tasks.length > 0
+    ? `${request.tasks.filter(task => task.status === 'done').length}/${request.tasks.length}`
+    : '-';
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <div className="flex items-center gap-2 mb-2">
+          <ClipboardList className="h-6 w-6 text-blue-600" />
+          <h1 className="text-2xl font-bold">{t.title}</h1>
+        </div>
+        <p className="text-muted-foreground">{t.description}</p>
+      </div>
+
+      <Tabs defaultValue="requests">
+        <TabsList className="mb-4">
+          <TabsTrigger value="requests">{t.requestsTab}</TabsTrigger>
+          {isAdmin && <TabsTrigger value="items">{t.itemsTab}</TabsTrigger>}
+        </TabsList>
+
+        {/* Requests */}
+        <TabsContent value="requests">
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <div className="w-48">
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t.allStatuses}</SelectItem>
+                    {REQUEST_STATUSES.map(status => (
+                      <SelectItem key={status} value={status}>{labels.statuses[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.item}</TableHead>
+                    <TableHead>{t.employee}</TableHead>
+                    <TableHead>{t.status}</TableHead>
+                    <TableHead>{t.tasks}</TableHead>
+                    <TableHead>{t.ticket}</TableHead>
+                    <TableHead>{t.created}</TableHead>
+                    <TableHead className="text-right">{t.actions}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground py-8">{t.noRequests}</TableCell>
+                    </TableRow>
+                  ) : requests.map(request => (
+                    <TableRow key={request.id}>
+                      <TableCell className="font-medium">{request.itemName}</TableCell>
+                      <TableCell>{request.employeeName || '-'}</TableCell>
+                      <TableCell>
+                        <Badge variant={labels.statusVariants[request.status]}>{labels.statuses[request.status]}</Badge>
+                      </TableCell>
+                      <TableCell>{getTaskProgress(request)}</TableCell>
+                      <TableCell>
+                        {request.ticketCode ? (
+                          <Button variant="link" size="sm" className="px-0" onClick={() => navigate(`/tickets?search=${request.ticketCode}`)}>
+                            {request.ticketCode}
+                            <ExternalLink className="h-3 w-3 ml-1" />
+                          </Button>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell>{formatDate(request.createdAt)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setViewRequest(request)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Catalog items */}
+        {isAdmin && (
+          <TabsContent value="items">
+            <Card>
+              <CardContent className="pt-6 space-y-4">
+                <div className="flex justify-end">
+                  <Button onClick={() => openItemDialog()}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    {t.newItem}
+                  </Button>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t.name}</TableHead>
+                      <TableHead>{t.category}</TableHead>
+                      <TableHead>{t.formFields}</TableHead>
+                      <TableHead>{t.tasks}</TableHead>
+                      <TableHead>{t.approval}</TableHead>
+                      <TableHead>{t.status}</TableHead>
+                      <TableHead className="text-right">{t.actions}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {items.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground py-8">{t.noItems}</TableCell>
+                      </TableRow>
+                    ) : items.map(item => (
+                      <TableRow key={item.id}>
+                        <TableCell className="font-medium">{item.icon} {item.name}</TableCell>
+                        <TableCell>{item.categoryName || '-'}</TableCell>
+                        <TableCell>{item.formFields.length}</TableCell>
+                        <TableCell>{item.fulfillmentTasks.length}</TableCell>
+                        <TableCell>{item.requiresApproval ? t.requiresApproval : '-'}</TableCell>
+                        <TableCell>
+                          <Badge variant={item.isActive ? 'default' : 'outline'}>{item.isActive ? t.active : t.inactive}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => openItemDialog(item)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={deleteItemMutation.isPending}
+                            onClick={() => window.confirm(t.confirmDeleteItem) && deleteItemMutation.mutate(item.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+      </Tabs>
+
+      {/* Request details */}
+      <Dialog open={!!viewRequest} onOpenChange={(open) => !open && setViewRequest(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {viewRequest && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{viewRequest.itemName}</DialogTitle>
+                <DialogDescription>
+                  {viewRequest.employeeName || '-'} · {t.requestedBy}: {viewRequest.requestedByName || '-'} · {formatDate(viewRequest.createdAt)}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <Badge variant={labels.statusVariants[viewRequest.status]}>{labels.statuses[viewRequest.status]}</Badge>
+                <ServiceRequestAnswers answers={viewRequest.answers} />
+                {viewRequest.tasks.length > 0 && (
+                  <div className="space-y-1 text-sm">
+                    <Label>{t.fulfillmentTasks}</Label>
+                    {viewRequest.tasks.map(task => (
+                      <div key={task.id} className={task.status === 'done' ? 'line-through text-muted-foreground' : ''}>
+                        {task.sortOrder}. {task.title}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <ApprovalTrail requestType="service_request" subjectId={viewRequest.id} />
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Item editor */}
+      <Dialog open={itemDialogOpen} onOpenChange={setItemDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingItemId ? t.editItem : t.newItem}</DialogTitle>
+            <DialogDescription>{t.itemHint}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid gap-3 md:grid-cols-[1fr_8rem_8rem]">
+              <div className="space-y-1">
+                <Label>{t.name}</Label>
+                <Input value={itemForm.name} onChange={(e) => setItemForm({ ...itemForm, name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>{t.icon}</Label>
+                <Input value={itemForm.icon} maxLength={10} onChange={(e) => setItemForm({ ...itemForm, icon: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>{t.sortOrder}</Label>
+                <Input type="number" min="0" value={itemForm.sortOrder} onChange={(e) => setItemForm({ ...itemForm, sortOrder: e.target.value })} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>{t.descriptionLabel}</Label>
+              <Textarea value={itemForm.description} onChange={(e) => setItemForm({ ...itemForm, description: e.target.value })} rows={2} />
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-4">
+              <div className="space-y-1">
+                <Label>{t.ticketType}</Label>
+                <Select value={itemForm.ticketType} onValueChange={(value: TicketType) => setItemForm({ ...itemForm, ticketType: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {TICKET_TYPES.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>{t.category}</Label>
+                <Select value={itemForm.categoryId || 'none'} onValueChange={(value) => setItemForm({ ...itemForm, categoryId: value === 'none' ? '' : value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">{t.none}</SelectItem>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={String(category.id)}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>{t.urgency}</Label>
+                <Select value={itemForm.urgency} onValueChange={(value: PriorityLevel) => setItemForm({ ...itemForm, urgency: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {PRIORITY_LEVELS.map(level => <SelectItem key={level} value={level}>{level}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>{t.impact}</Label>
+                <Select value={itemForm.impact} onValueChange={(value: PriorityLevel) => setItemForm({ ...itemForm, impact: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {PRIORITY_LEVELS.map(level => <SelectItem key={level} value={level}>{level}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center gap-2">
+                <Switch checked={itemForm.requiresApproval} onCheckedChange={(checked) => setItemForm({ ...itemForm, requiresApproval: checked })} />
+                <Label>{t.requiresApproval}</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch checked={itemForm.isActive} onCheckedChange={(checked) => setItemForm({ ...itemForm, isActive: checked })} />
+                <Label>{t.active}</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t.formFields}</Label>
+              {itemForm.formFields.map((field, index) => (
+                <div key={index} className="rounded-md border p-2 space-y-2">
+                  <div className="grid gap-2 md:grid-cols-[1fr_10rem_9rem_auto_auto] items-center">
+                    <Input value={field.label} onChange={(e) => updateField(index, { label: e.target.value })} placeholder={t.fieldLabel} />
+                    <Input value={field.key} onChange={(e) => updateField(index, { key: e.target.value })} placeholder={t.fieldKey} />
+                    <Select value={field.type} onValueChange={(value: ServiceFormFieldType) => updateField(index, { type: value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {FIELD_TYPES.map(type => <SelectItem key={type} value={type}>{t.fieldTypes[type]}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center gap-1">
+                      <Switch checked={field.required} onCheckedChange={(checked) => updateField(index, { required: checked })} />
+                      <span className="text-xs">{t.required}</span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setItemForm({ ...itemForm, formFields: itemForm.formFields.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                  {field.type === 'select' && (
+                    <Input value={field.options} onChange={(e) => updateField(index, { options: e.target.value })} placeholder={t.fieldOptions} />
+                  )}
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={itemForm.formFields.length >= 30}
+                onClick={() => setItemForm({ ...itemForm, formFields: [...itemForm.formFields, emptyField] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                {t.addField}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t.fulfillmentTasks}</Label>
+              {itemForm.fulfillmentTasks.map((task, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm font-medium w-6">{index + 1}.</span>
+                  <Input value={task} onChange={(e) => updateTask(index, e.target.value)} placeholder={t.taskTitle} />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setItemForm({ ...itemForm, fulfillmentTasks: itemForm.fulfillmentTasks.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={itemForm.fulfillmentTasks.length >= 30}
+                onClick={() => setItemForm({ ...itemForm, fulfillmentTasks: [...itemForm.fulfillmentTasks, ''] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                {t.addTask}
+              </Button>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setItemDialogOpen(false)}>{t.cancel}</Button>
+            <Button disabled={!itemFormValid || itemMutation.isPending} onClick={() => itemMutation.mutate()}>
+              {t.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,828 @@
+import { useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import { useAuth } from '@/lib/authContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { hasPermission } from '@/components/auth/RoleGuard';
+import { ROLE_IDS } from '@shared/roles.config';
+import ActiveEmployeeSelect from '@/components/employees/ActiveEmployee';
+import LocationSelect from '@/components/assets/LocationSelect';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  ArrowLeft, ClipboardCheck, Download, Loader2, Plus, ScanLine, Wrench
+} from 'lucide-react';
+
+type StockTakeStatus = 'open' | 'closed' | 'cancelled';
+type StockTakeResult = 'found' | 'misplaced' | 'missing' | 'wrong_assignee';
+
+interface StockTakeSummaryRow {
+  id: number;
+  name: string;
+  status: StockTakeStatus;
+  department: string | null;
+  assetType: string | null;
+  assignedEmployeeId: number | null;
+  locationId: number | null;
+  assignedEmployeeName: string | null;
+  locationPath: string | null;
+  notes: string | null;
+  createdAt: string;
+  closedAt: string | null;
+  itemCount: number;
+  countedCount: number;
+}
+
+type StockTakeCorrection =
+  | { action: 'mark_missing' | 'restore'; status: string }
+  | { action: 'move'; toLocationId: number }
+  | { action: 'reassign'; toEmployeeId: number | null };
+
+interface StockTakeLine {
+  id: number;
+  unexpected: boolean;
+  expectedStatus: string | null;
+  result: StockTakeResult | null;
+  notes: string | null;
+  countedAt: string | null;
+  correctedAt: string | null;
+  asset: {
+    id: number;
+    assetId: string;
+    type: string;
+    brand: string;
+    modelName: string | null;
+    serialNumber: string;
+    status: string;
+  };
+  expectedEmployeeName: string | null;
+  foundEmployeeName: string | null;
+  expectedLocationPath: string | null;
+  foundLocationPath: string | null;
+  correction: StockTakeCorrection | null;
+}
+
+interface StockTakeDetails {
+  stockTake: StockTakeSummaryRow;
+  summary: {
+    total: number;
+    counted: number;
+    notCounted: number;
+    found: number;
+    misplaced: number;
+    missing: number;
+    wrongAssignee: number;
+    unexpected: number;
+    pendingCorrections: number;
+    corrected: number;
+  };
+  items: StockTakeLine[];
+}
+
+interface NamedOption {
+  id: number;
+  name: string;
+}
+
+export default function StockTakes() {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [itemFilter, setItemFilter] = useState('all');
+  const [openDialog, setOpenDialog] = useState(false);
+  const [form, setForm] = useState({ name: '', notes: '', department: '', assetType: '', assignedEmployeeId: '', locationId: null as number | null });
+  const [scanCode, setScanCode] = useState('');
+  const [scanLocationId, setScanLocationId] = useState<number | null>(null);
+  const [countItem, setCountItem] = useState<{ line: StockTakeLine; result: 'misplaced' | 'wrong_assignee' } | null>(null);
+  const [countLocationId, setCountLocationId] = useState<number | null>(null);
+  const [countEmployeeId, setCountEmployeeId] = useState('');
+  const [countNotes, setCountNotes] = useState('');
+  const [closeDialog, setCloseDialog] = useState(false);
+  const [markUncountedMissing, setMarkUncountedMissing] = useState(true);
+
+  const isManager = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER]);
+
+  const t = {
+    title: language === 'English' ? 'Stock-takes' : 'الجرد',
+    description: language === 'English'
+      ? 'Reconcile the asset register with what is actually on the shelves and desks'
+      : 'مطابقة سجل الأصول مع ما هو موجود فعلياً على الرفوف والمكاتب',
+    newStockTake: language === 'English' ? 'New Stock-take' : 'جرد جديد',
+    campaigns: language === 'English' ? 'Stock-take Campaigns' : 'حملات الجرد',
+    campaignsDescription: language === 'English'
+      ? 'Each campaign expects every asset matching its scope; sold, retired and disposed assets are left out'
+      : 'تشمل كل حملة جميع الأصول المطابقة لنطاقها؛ باستثناء الأصول المباعة والمتقاعدة والمتخلص منها',
+    name: language === 'English' ? 'Name' : 'الاسم',
+    scope: language === 'English' ? 'Scope' : 'النطاق',
+    progress: language === 'English' ? 'Progress' : 'التقدم',
+    status: language === 'English' ? 'Status' : 'الحالة',
+    created: language === 'English' ? 'Created' : 'تاريخ الإنشاء',
+    open: language === 'English' ? 'Open' : 'مفتوح',
+    closed: language === 'English' ? 'Closed' : 'مغلق',
+    cancelled: language === 'English' ? 'Cancelled' : 'ملغى',
+    noCampaigns: language === 'English' ? 'No stock-takes yet' : 'لا توجد عمليات جرد بعد',
+    allAssets: language === 'English' ? 'All assets' : 'جميع الأصول',
+    department: language === 'English' ? 'Department' : 'القسم',
+    assetType: language === 'English' ? 'Asset Type' : 'نوع الأصل',
+    assignee: language === 'English' ? 'Assigned To' : 'مخصص لـ',
+    location: language === 'English' ? 'Location' : 'الموقع',
+    any: language === 'English' ? 'Any' : 'الكل',
+    anyLocation: language === 'English' ? 'Any location' : 'أي موقع',
+    notes: language === 'English' ? 'Notes' : 'ملاحظات',
+    back: language === 'English' ? 'Back' : 'رجوع',
+    counted: language === 'English' ? 'Counted' : 'تم الجرد',
+    notCounted: language === 'English' ? 'Not counted' : 'لم يتم الجرد',
+    found: language === 'English' ? 'Found' : 'موجود',
+    misplaced: language === 'English' ? 'Misplaced' : 'في غير مكانه',
+    missing: language === 'English' ? 'Missing' : 'مفقود',
+    wrongAssignee: language === 'English' ? 'Wrong Assignee' : 'لدى شخص آخر',
+    unexpected: language === 'English' ? 'Unexpected' : 'غير متوقع',
+    pendingCorrections: language === 'English' ? 'Pending Corrections' : 'تصحيحات معلقة',
+    corrected: language === 'English' ? 'Corrected' : 'تم التصحيح',
+    scanTitle: language === 'English' ? 'Scan' : 'المسح',
+    scanPlaceholder: language === 'English' ? 'Scan a label or type an asset ID / serial number' : 'امسح الملصق أو اكتب رقم الأصل / الرقم التسلسلي',
+    countingAt: language === 'English' ? 'Counting at' : 'الجرد في',
+    countingAtHint: language === 'English'
+      ? 'Assets scanned here but registered elsewhere are counted as misplaced'
+      : 'الأصول الممسوحة هنا والمسجلة في مكان آخر تُحتسب في غير مكانها',
+    anywhere: language === 'English' ? 'Not specified' : 'غير محدد',
+    all: language === 'English' ? 'All' : 'الكل',
+    variance: language === 'English' ? 'Variance only' : 'الفروقات فقط',
+    asset: language === 'English' ? 'Asset' : 'الأصل',
+    expected: language === 'English' ? 'Expected' : 'المتوقع',
+    result: language === 'English' ? 'Result' : 'النتيجة',
+    correction: language === 'English' ? 'Correction' : 'التصحيح',
+    actions: language === 'English' ? 'Actions' : 'الإجراءات',
+    foundAt: language === 'English' ? 'Found at' : 'وجد في',
+    heldBy: language === 'English' ? 'Held by' : 'لدى',
+    nobody: language === 'English' ? 'Nobody' : 'لا أحد',
+    noItems: language === 'English' ? 'No assets to show' : 'لا توجد أصول للعرض',
+    markStatus: (status: string) => language === 'English' ? `Set status to ${status}` : `تغيير الحالة إلى ${status}`,
+    moveTo: (path: string) => language === 'English' ? `Move to ${path}` : `نقل إلى ${path}`,
+    reassignTo: (name: string) => language === 'English' ? `Reassign to ${name}` : `إعادة التخصيص إلى ${name}`,
+    unassign: language === 'English' ? 'Unassign' : 'إلغاء التخصيص',
+    correct: language === 'English' ? 'Correct' : 'تصحيح',
+    applyCorrections: language === 'English' ? 'Apply Corrections' : 'تطبيق التصحيحات',
+    confirmCorrections: (count: number) => language === 'English'
+      ? `Apply ${count} correction(s) to the asset register? Each one is recorded in the asset history.`
+      : `هل تريد تطبيق ${count} تصحيح على سجل الأصول؟ يتم تسجيل كل تصحيح في سجل الأصل.`,
+    correctionsApplied: (count: number) => language === 'English' ? `${count} asset(s) corrected` : `تم تصحيح ${count} أصل`,
+    exportCsv: language === 'English' ? 'Export Variance' : 'تصدير الفروقات',
+    close: language === 'English' ? 'Close Stock-take' : 'إغلاق الجرد',
+    closeDescription: language === 'English'
+      ? 'The result of every counted asset is written to its history. Counting is no longer possible afterwards.'
+      : 'تُسجل نتيجة كل أصل تم جرده في سجله. لا يمكن الجرد بعد الإغلاق.',
+    markUncountedMissing: language === 'English' ? 'Report assets not counted as missing' : 'اعتبار الأصول غير المجرودة مفقودة',
+    cancelStockTake: language === 'English' ? 'Cancel Stock-take' : 'إلغاء الجرد',
+    confirmCancel: language === 'English' ? 'Cancel this stock-take? Nothing will be written to the asset history.' : 'هل تريد إلغاء هذا الجرد؟ لن يتم تسجيل أي شيء في سجل الأصول.',
+    countTitle: language === 'English' ? 'Record Count' : 'تسجيل الجرد',
+    whereFound: language === 'English' ? 'Where was it found?' : 'أين وجد؟',
+    whoHolds: language === 'English' ? 'Who has it?' : 'من لديه الأصل؟',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    save: language === 'English' ? 'Save' : 'حفظ',
+    create: language === 'English' ? 'Create' : 'إنشاء',
+    error: language === 'English' ? 'Error' : 'خطأ',
+    done: language === 'English' ? 'Done' : 'تم',
+    scanned: (assetId: string, result: string) => language === 'English' ? `${assetId}: ${result}` : `${assetId}: ${result}`,
+    notInScope: language === 'English' ? 'Not expected in this stock-take; added as unexpected' : 'غير متوقع في هذا الجرد؛ تمت إضافته كأصل غير متوقع',
+  };
+
+  const resultLabels: Record<StockTakeResult, string> = {
+    found: t.found,
+    misplaced: t.misplaced,
+    missing: t.missing,
+    wrong_assignee: t.wrongAssignee,
+  };
+
+  const { data: campaigns = [], isLoading } = useQuery<StockTakeSummaryRow[]>({
+    queryKey: ['/api/stock-takes'],
+  });
+
+  const { data: details, isLoading: detailsLoading } = useQuery<StockTakeDetails>({
+    queryKey: [`/api/stock-takes/${selectedId}`],
+    enabled: selectedId !== null,
+  });
+
+  const { data: departments = [] } = useQuery<NamedOption[]>({
+    queryKey: ['/api/custom-departments'],
+    enabled: openDialog,
+  });
+
+  const { data: assetTypes = [] } = useQuery<NamedOption[]>({
+    queryKey: ['/api/custom-asset-types'],
+    enabled: openDialog,
+  });
+
+  const handleError = (error: any) => {
+    toast({ title: t.error, description: error.message, variant: 'destructive' });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/stock-takes')
+    });
+  };
+
+  const refreshAssets = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/assets')
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('/api/stock-takes', 'POST', {
+      name: form.name,
+      notes: form.notes || undefined,
+      department: form.department || null,
+      assetType: form.assetType || null,
+      assignedEmployeeId: form.assignedEmployeeId && form.assignedEmployeeId !== 'none' ? parseInt(form.assignedEmployeeId) : null,
+      locationId: form.locationId,
+    }),
+    onSuccess: (created: StockTakeSummaryRow) => {
+      refresh();
+      setOpenDialog(false);
+      setForm({ name: '', notes: '', department: '', assetType: '', assignedEmployeeId: '', locationId: null });
+      setSelectedId(created.id);
+    },
+    onError: handleError
+  });
+
+  const countMutation = useMutation({
+    mutationFn: ({ assetId, data }: { assetId: number; data: Record<string, unknown> }) =>
+      apiRequest(`/api/stock-takes/${selectedId}/assets/${assetId}/count`, 'POST', data),
+    onSuccess: () => {
+      refresh();
+      setCountItem(null);
+    },
+    onError: handleError
+  });
+
+  const scanMutation = useMutation({
+    mutationFn: (code: string) => apiRequest(`/api/stock-takes/${selectedId}/scan`, 'POST', { code, locationId: scanLocationId }),
+    onSuccess: (response: { item: { result: StockTakeResult }; asset: { assetId: string }; expected: boolean }) => {
+      refresh();
+      toast({
+        title: t.scanned(response.asset.assetId, resultLabels[response.item.result]),
+        description: response.expected ? undefined : t.notInScope,
+        variant: response.expected && response.item.result === 'found' ? 'default' : 'destructive',
+      });
+    },
+    onError: handleError,
+    onSettled: () => scanInputRef.current?.focus(),
+  });
+
+  const correctionsMutation = useMutation({
+    mutationFn: (itemIds?: number[]) => apiRequest(`/api/stock-takes/${selectedId}/corrections`, 'POST', { itemIds }),
+    onSuccess: (response: { corrected: number }) => {
+      refresh();
+      refreshAssets();
+      toast({ title: t.done, description: t.correctionsApplied(response.corrected) });
+    },
+    onError: handleError
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ path, data }: { path: string; data?: Record<string, unknown> }) =>
+      apiRequest(`/api/stock-takes/${selectedId}${path}`, 'POST', data),
+    onSuccess: () => {
+      refresh();
+      refreshAssets();
+      setCloseDialog(false);
+    },
+    onError: handleError
+  });
+
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = scanCode.trim();
+    if (!code) return;
+    setScanCode('');
+    scanMutation.mutate(code);
+  };
+
+  const openCountDialog = (line: StockTakeLine, result: 'misplaced' | 'wrong_assignee') => {
+    setCountItem({ line, result });
+    setCountLocationId(null);
+    setCountEmployeeId('');
+    setCountNotes('');
+  };
+
+  const describeScope = (item: StockTakeSummaryRow) => {
+    const parts = [item.department, item.assetType, item.assignedEmployeeName, item.locationPath].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : t.allAssets;
+  };
+
+  const describeCorrection = (line: StockTakeLine) => {
+    const correction = line.correction;
+    if (!correction) return null;
+    switch (correction.action) {
+      case 'mark_missing':
+      case 'restore':
+        return t.markStatus(correction.status);
+      case 'move':
+        return t.moveTo(line.foundLocationPath || `#${correction.toLocationId}`);
+      case 'reassign':
+        return correction.toEmployeeId ? t.reassignTo(line.foundEmployeeName || `#${correction.toEmployeeId}`) : t.unassign;
+    }
+  };
+
+  const statusBadge = (status: StockTakeStatus) => {
+    if (status === 'closed') return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{t.closed}</Badge>;
+    if (status === 'cancelled') return <Badge variant="secondary">{t.cancelled}</Badge>;
+    return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">{t.open}</Badge>;
+  };
+
+  const resultBadge = (line: StockTakeLine) => {
+    if (!line.result) return <Badge variant="outline">{t.notCounted}</Badge>;
+    if (line.result === 'found') return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{t.found}</Badge>;
+    if (line.result === 'missing') return <Badge variant="destructive">{t.missing}</Badge>;
+    return <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">{resultLabels[line.result]}</Badge>;
+  };
+
+  const isVariance = (line: StockTakeLine) => line.result !== 'found' || line.unexpected || line.correction !== null;
+
+  if (selectedId !== null) {
+    const isOpen = details?.stockTake.status === 'open';
+    const busy = countMutation.isPending || statusMutation.isPending || correctionsMutation.isPending;
+    const items = (details?.items || []).filter(line =>
+      itemFilter === 'variance' ? isVariance(line) : itemFilter === 'not_counted' ? !line.result : true
+    );
+
+    return (
+      <div className="p-6">
+        <Button variant="ghost" className="mb-4" onClick={() => { setSelectedId(null); setItemFilter('all'); }}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          {t.back}
+        </Button>
+
+        {detailsLoading || !details ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {/* Header */}
+            <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <ClipboardCheck className="h-6 w-6 text-blue-600" />
+                  <h1 className="text-2xl font-bold">{details.stockTake.name}</h1>
+                  {statusBadge(details.stockTake.status)}
+                </div>
+                <p className="text-muted-foreground">{describeScope(details.stockTake)}</p>
+                {details.stockTake.notes && <p className="text-sm text-muted-foreground mt-1">{details.stockTake.notes}</p>}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => window.open(`/api/stock-takes/${details.stockTake.id}/variance?format=csv`, '_blank')}>
+                  <Download className="h-4 w-4 mr-2" />
+                  {t.exportCsv}
+                </Button>
+                {isManager && details.stockTake.status !== 'cancelled' && details.summary.pendingCorrections > 0 && (
+                  <Button
+                    variant="outline"
+                    disabled={busy}
+                    onClick={() => window.confirm(t.confirmCorrections(details.summary.pendingCorrections)) && correctionsMutation.mutate(undefined)}
+                  >
+                    <Wrench className="h-4 w-4 mr-2" />
+                    {t.applyCorrections} ({details.summary.pendingCorrections})
+                  </Button>
+                )}
+                {isManager && isOpen && (
+                  <>
+                    <Button
+                      variant="outline"
+                      disabled={busy}
+                      onClick={() => window.confirm(t.confirmCancel) && statusMutation.mutate({ path: '/cancel' })}
+                    >
+                      {t.cancelStockTake}
+                    </Button>
+                    <Button disabled={busy} onClick={() => { setMarkUncountedMissing(true); setCloseDialog(true); }}>
+                      {t.close}
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4 mb-6">
+              {[
+                { label: t.counted, value: `${details.summary.counted}/${details.summary.total}` },
+                { label: t.found, value: details.summary.found },
+                { label: t.misplaced, value: details.summary.misplaced },
+                { label: t.missing, value: details.summary.missing },
+                { label: t.wrongAssignee, value: details.summary.wrongAssignee },
+                { label: t.unexpected, value: details.summary.unexpected },
+                { label: t.pendingCorrections, value: details.summary.pendingCorrections },
+              ].map((stat) => (
+                <Card key={stat.label}>
+                  <CardContent className="p-4">
+                    <div className="text-xs text-muted-foreground">{stat.label}</div>
+                    <div className="text-2xl font-bold">{stat.value}</div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {/* Scan */}
+            {isOpen && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ScanLine className="h-5 w-5" />
+                    {t.scanTitle}
+                  </CardTitle>
+                  <CardDescription>{t.countingAtHint}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleScan} className="grid gap-4 md:grid-cols-[1fr_280px]">
+                    <Input
+                      ref={scanInputRef}
+                      autoFocus
+                      value={scanCode}
+                      onChange={(e) => setScanCode(e.target.value)}
+                      placeholder={t.scanPlaceholder}
+                    />
+                    <div className="flex items-center gap-2">
+                      <Label className="whitespace-nowrap">{t.countingAt}</Label>
+                      <LocationSelect value={scanLocationId} onChange={setScanLocationId} emptyLabel={t.anywhere} />
+                    </div>
+                  </form>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Items */}
+            <Card>
+              <CardHeader>
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div className="flex items-center gap-3 min-w-[240px]">
+                    <Progress value={details.summary.total ? (details.summary.counted / details.summary.total) * 100 : 0} className="h-2" />
+                    <span className="text-sm text-muted-foreground whitespace-nowrap">
+                      {details.summary.counted}/{details.summary.total}
+                    </span>
+                  </div>
+                  <Select value={itemFilter} onValueChange={setItemFilter}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">{t.all}</SelectItem>
+                      <SelectItem value="not_counted">{t.notCounted}</SelectItem>
+                      <SelectItem value="variance">{t.variance}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {items.length === 0 ? (
+                  <div className="text-center py-12 text-muted-foreground">{t.noItems}</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t.asset}</TableHead>
+                        <TableHead>{t.expected}</TableHead>
+                        <TableHead>{t.result}</TableHead>
+                        <TableHead>{t.correction}</TableHead>
+                        <TableHead className="text-right">{t.actions}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {items.map((line) => (
+                        <TableRow key={line.id}>
+                          <TableCell>
+                            <div className="font-medium">{line.asset.assetId}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {line.asset.type} · {line.asset.brand} {line.asset.modelName || ''} · {line.asset.serialNumber}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            <div>{line.expectedEmployeeName || t.nobody}</div>
+                            <div className="text-xs text-muted-foreground">{line.expectedLocationPath || '–'}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap items-center gap-1">
+                              {resultBadge(line)}
+                              {line.unexpected && <Badge variant="outline">{t.unexpected}</Badge>}
+                            </div>
+                            {line.result === 'misplaced' && line.foundLocationPath && (
+                              <div className="text-xs text-muted-foreground mt-1">{t.foundAt}: {line.foundLocationPath}</div>
+                            )}
+                            {line.result === 'wrong_assignee' && (
+                              <div className="text-xs text-muted-foreground mt-1">{t.heldBy}: {line.foundEmployeeName || t.nobody}</div>
+                            )}
+                            {line.notes && <div className="text-xs text-muted-foreground mt-1">{line.notes}</div>}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {line.correctedAt ? (
+                              <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{t.corrected}</Badge>
+                            ) : (
+                              <div className="flex items-center gap-2">
+                                <span>{describeCorrection(line) || '–'}</span>
+                                {isManager && line.correction && details.stockTake.status !== 'cancelled' && (
+                                  <Button size="sm" variant="ghost" disabled={busy} onClick={() => correctionsMutation.mutate([line.id])}>
+                                    {t.correct}
+                                  </Button>
+                                )}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {isOpen && (
+                              <div className="flex flex-wrap justify-end gap-1">
+                                <Button
+                                  size="sm"
+                                  variant={line.result === 'found' ? 'default' : 'outline'}
+                                  disabled={busy}
+                                  onClick={() => countMutation.mutate({ assetId: line.asset.id, data: { result: 'found' } })}
+                                >
+                                  {t.found}
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant={line.result === 'misplaced' ? 'default' : 'outline'}
+                                  disabled={busy}
+                                  onClick={() => openCountDialog(line, 'misplaced')}
+                                >
+                                  {t.misplaced}
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant={line.result === 'wrong_assignee' ? 'default' : 'outline'}
+                                  disabled={busy}
+                                  onClick={() => openCountDialog(line, 'wrong_assignee')}
+                                >
+                                  {t.wrongAssignee}
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant={line.result === 'missing' ? 'destructive' : 'outline'}
+                                  disabled={busy}
+                                  onClick={() => countMutation.mutate({ assetId: line.asset.id, data: { result: 'missing' } })}
+                                >
+                                  {t.missing}
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {/* Misplaced / wrong assignee details */}
+        <Dialog open={countItem !== null} onOpenChange={(open) => !open && setCountItem(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{t.countTitle}: {countItem && resultLabels[countItem.result]}</DialogTitle>
+              <DialogDescription>{countItem?.line.asset.assetId}</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-2">
+              {countItem?.result === 'misplaced' ? (
+                <div className="grid gap-2">
+                  <Label>{t.whereFound}</Label>
+                  <LocationSelect value={countLocationId} onChange={setCountLocationId} />
+                </div>
+              ) : (
+                <div className="grid gap-2">
+                  <Label>{t.whoHolds}</Label>
+                  <ActiveEmployeeSelect value={countEmployeeId} onValueChange={setCountEmployeeId} placeholder={t.nobody} />
+                </div>
+              )}
+              <div className="grid gap-2">
+                <Label>{t.notes}</Label>
+                <Textarea value={countNotes} onChange={(e) => setCountNotes(e.target.value)} />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCountItem(null)}>{t.cancel}</Button>
+              <Button
+                disabled={countMutation.isPending}
+                onClick={() => countItem && countMutation.mutate({
+                  assetId: countItem.line.asset.id,
+                  data: {
+                    result: countItem.result,
+                    foundLocationId: countLocationId,
+                    foundEmployeeId: countEmployeeId && countEmployeeId !== 'none' ? parseInt(countEmployeeId) : null,
+                    notes: countNotes || undefined,
+                  }
+                })}
+              >
+                {t.save}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Close campaign */}
+        <Dialog open={closeDialog} onOpenChange={setCloseDialog}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{t.close}</DialogTitle>
+              <DialogDescription>{t.closeDescription}</DialogDescription>
+            </DialogHeader>
+            {details && details.summary.notCounted > 0 && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="markUncountedMissing"
+                  checked={markUncountedMissing}
+                  onCheckedChange={(checked) => setMarkUncountedMissing(checked === true)}
+                />
+                <Label htmlFor="markUncountedMissing">
+                  {t.markUncountedMissing} ({details.summary.notCounted})
+                </Label>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCloseDialog(false)}>{t.cancel}</Button>
+              <Button
+                disabled={statusMutation.isPending}
+                onClick={() => statusMutation.mutate({ path: '/close', data: { markUncountedMissing } })}
+              >
+                {t.close}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <ClipboardCheck className="h-6 w-6 text-blue-600" />
+            <h1 className="text-2xl font-bold">{t.title}</h1>
+          </div>
+          <p className="text-muted-foreground">{t.description}</p>
+        </div>
+        {isManager && (
+          <Button onClick={() => setOpenDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t.newStockTake}
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t.campaigns}</CardTitle>
+          <CardDescription>{t.campaignsDescription}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : campaigns.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <ClipboardCheck className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>{t.noCampaigns}</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t.name}</TableHead>
+                  <TableHead>{t.scope}</TableHead>
+                  <TableHead>{t.progress}</TableHead>
+                  <TableHead>{t.created}</TableHead>
+                  <TableHead>{t.status}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map((item) => (
+                  <TableRow key={item.id} className="cursor-pointer" onClick={() => setSelectedId(item.id)}>
+                    <TableCell className="font-medium">{item.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{describeScope(item)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2 min-w-[140px]">
+                        <Progress value={item.itemCount ? (item.countedCount / item.itemCount) * 100 : 0} className="h-2" />
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {item.countedCount}/{item.itemCount}
+                        </span>
+                      </div>
+                    </TableCell>
+                    <TableCell>{new Date(item.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>{statusBadge(item.status)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* New campaign */}
+      <Dialog open={openDialog} onOpenChange={setOpenDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t.newStockTake}</DialogTitle>
+            <DialogDescription>{t.campaignsDescription}</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="grid gap-2">
+              <Label htmlFor="stockTakeName">{t.name}</Label>
+              <Input id="stockTakeName" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>{t.department}</Label>
+                <Select value={form.department || 'any'} onValueChange={(value) => setForm({ ...form, department: value === 'any' ? '' : value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">{t.any}</SelectItem>
+                    {departments.map((department) => (
+                      <SelectItem key={department.id} value={department.name}>{department.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label>{t.assetType}</Label>
+                <Select value={form.assetType || 'any'} onValueChange={(value) => setForm({ ...form, assetType: value === 'any' ? '' : value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">{t.any}</SelectItem>
+                    {assetTypes.map((type) => (
+                      <SelectItem key={type.id} value={type.name}>{type.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label>{t.assignee}</Label>
+              <ActiveEmployeeSelect
+                value={form.assignedEmployeeId}
+                onValueChange={(value) => setForm({ ...form, assignedEmployeeId: value })}
+                placeholder={t.any}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>{t.location}</Label>
+              <LocationSelect value={form.locationId} onChange={(locationId) => setForm({ ...form, locationId })} emptyLabel={t.anyLocation} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="stockTakeNotes">{t.notes}</Label>
+              <Textarea id="stockTakeNotes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpenDialog(false)}>{t.cancel}</Button>
+            <Button disabled={!form.name.trim() || createMutation.isPending} onClick={() => createMutation.mutate()}>
+              {t.create}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
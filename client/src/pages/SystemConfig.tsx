@@ -15,7 +15,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Settings, Save, Globe, Loader2, Trash, Trash2, Plus, Edit, Check, X, Mail, Download, Upload, Search, Users, Ticket, Package, FileText, Database, Info as InfoIcon } from 'lucide-react';
+import { Settings, Save, Globe, Loader2, Trash, Trash2, Plus, Edit, Check, X, Mail, Download, Upload, Search, Users, Ticket, Package, FileText, Database, Timer, Webhook, MessageSquareText, KeyRound, Network, Info as InfoIcon } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from '@/components/ui/dialog';
 import {
   Tabs,
@@ -27,6 +27,11 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { FieldMappingInterface } from '@/components/import/FieldMappingInterface';
+import SLASettingsTab from '@/components/admin/SLASettingsTab';
+import WebhooksSettingsTab from '@/components/admin/WebhooksSettingsTab';
+import NotificationTemplatesTab from '@/components/admin/NotificationTemplatesTab';
+import CustomFieldsManager from '@/components/admin/CustomFieldsManager';
+import DirectorySyncTab from '@/components/admin/DirectorySyncTab';
 
 function SystemConfig() {
   const { language } = useLanguage();
@@ -71,6 +76,7 @@ function SystemConfig() {
     types: language === 'English' ? 'Types' : 'الأنواع',
     brands: language === 'English' ? 'Brands' : 'العلامات التجارية',
     statuses: language === 'English' ? 'Statuses' : 'الحالات',
+    customFields: language === 'English' ? 'Custom Fields' : 'الحقول المخصصة',
     searchTypesPlaceholder: language === 'English' ? 'Search asset types...' : 'البحث في أنواع الأصول...',
     addType: language === 'English' ? 'Add Type' : 'إضافة نوع',
     addTypeTitle: language === 'English' ? 'Add Asset Type' : 'إضافة نوع أصل',
@@ -106,6 +112,10 @@ function SystemConfig() {
     actions: language === 'English' ? 'Actions' : 'الإجراءات',
     tabEmail: language === 'English' ? 'Email' : 'البريد',
     tabImportExport: language === 'English' ? 'Import/Export' : 'استيراد/تصدير',
+    tabSLA: language === 'English' ? 'SLA' : 'اتفاقية الخدمة',
+    tabWebhooks: language === 'English' ? 'Webhooks' : 'خطافات الويب',
+    tabNotificationTemplates: language === 'English' ? 'Notification Templates' : 'قوالب الإشعارات',
+    tabDirectory: language === 'English' ? 'Directory' : 'الدليل',
     systemDefaults: language === 'English' ? 'System Defaults' : 'الإعدادات الافتراضية',
     companyDetails: language === 'English' ? 'Company Details' : 'تفاصيل الشركة',
     companyName: language === 'English' ? 'Company Name' : 'اسم الشركة',
@@ -338,6 +348,13 @@ function SystemConfig() {
       description: { English: 'Manage support tickets and requests', Arabic: 'إدارة تذاكر الدعم والطلبات' } as Record<string, string>,
       icon: Ticket,
       color: 'text-orange-600'
+    },
+    { 
+      value: 'licenses', 
+      label: { English: 'Licenses', Arabic: 'التراخيص' } as Record<string, string>,
+      description: { English: 'Manage software licenses and subscriptions', Arabic: 'إدارة تراخيص البرامج والاشتراكات' } as Record<string, string>,
+      icon: KeyRound,
+      color: 'text-purple-600'
     }
   ];
 
@@ -828,7 +845,7 @@ function SystemConfig() {
     }
   };
 
-  const handleDownloadTemplate = async (type: 'employees' | 'assets' | 'tickets') => {
+  const handleDownloadTemplate = async (type: 'employees' | 'assets' | 'tickets' | 'licenses') => {
     try {
       // Use direct fetch with authentication since we need the raw CSV text
       const response = await fetch(`/api/${type}/template`, {
@@ -873,7 +890,7 @@ function SystemConfig() {
     }
   };
 
-  const handleExport = async (type: 'employees' | 'assets' | 'tickets') => {
+  const handleExport = async (type: 'employees' | 'assets' | 'tickets' | 'licenses') => {
     try {
       // Use direct fetch with authentication since we need the raw CSV text
       const response = await fetch(`/api/${type}/export`, {
@@ -1354,7 +1371,7 @@ const parseCSVLine = (line: string): string[] => {
 
       {/* Navigation Tabs */}
       <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-8">
           <TabsTrigger value="general" className="flex items-center gap-2 text-sm">
             <Settings className="h-4 w-4" />
             <span className="hidden sm:inline">
@@ -1373,6 +1390,30 @@ const parseCSVLine = (line: string): string[] => {
               {translations.tabEmail}
             </span>
           </TabsTrigger>
+          <TabsTrigger value="sla" className="flex items-center gap-2 text-sm">
+            <Timer className="h-4 w-4" />
+            <span className="hidden sm:inline">
+              {translations.tabSLA}
+            </span>
+          </TabsTrigger>
+          <TabsTrigger value="webhooks" className="flex items-center gap-2 text-sm">
+            <Webhook className="h-4 w-4" />
+            <span className="hidden sm:inline">
+              {translations.tabWebhooks}
+            </span>
+          </TabsTrigger>
+          <TabsTrigger value="notification-templates" className="flex items-center gap-2 text-sm">
+            <MessageSquareText className="h-4 w-4" />
+            <span className="hidden sm:inline">
+              {translations.tabNotificationTemplates}
+            </span>
+          </TabsTrigger>
+          <TabsTrigger value="directory" className="flex items-center gap-2 text-sm">
+            <Network className="h-4 w-4" />
+            <span className="hidden sm:inline">
+              {translations.tabDirectory}
+            </span>
+          </TabsTrigger>
           <TabsTrigger value="import-export" className="flex items-center gap-2 text-sm">
             <FileText className="h-4 w-4" />
             <span className="hidden sm:inline">
@@ -1553,7 +1594,7 @@ const parseCSVLine = (line: string): string[] => {
                 {/* Data Type Selection */}
                 <div className="space-y-4">
                   <h3 className="text-lg font-medium">{translations.selectDataType}</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                     {DATA_TYPE_OPTIONS.map((option) => {
                       const Icon = option.icon;
                       const isSelected = selectedDataType === option.value;
@@ -1594,7 +1635,7 @@ const parseCSVLine = (line: string): string[] => {
                 {showFieldMapping && (
                   <div className="mt-6">
                     <FieldMappingInterface
-                      entityType={selectedDataType as 'employees' | 'assets' | 'tickets'}
+                      entityType={selectedDataType as 'employees' | 'assets' | 'tickets' | 'licenses'}
                       fileData={parsedFileData}
                       fileColumns={fileColumns.map(col => ({ 
                         name: col, 
@@ -1686,7 +1727,7 @@ const parseCSVLine = (line: string): string[] => {
                         {/* Action Buttons */}
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
                           <Button 
-                            onClick={() => handleDownloadTemplate(selectedDataType as 'employees' | 'assets' | 'tickets')}
+                            onClick={() => handleDownloadTemplate(selectedDataType as 'employees' | 'assets' | 'tickets' | 'licenses')}
                             variant="outline" 
                             className="w-full"
                           >
@@ -1695,7 +1736,7 @@ const parseCSVLine = (line: string): string[] => {
                           </Button>
                           
                           <Button 
-                            onClick={() => handleExport(selectedDataType as 'employees' | 'assets' | 'tickets')}
+                            onClick={() => handleExport(selectedDataType as 'employees' | 'assets' | 'tickets' | 'licenses')}
                             variant="outline"
                             className="w-full"
                           >
@@ -2018,6 +2059,8 @@ const parseCSVLine = (line: string): string[] => {
                   )}
                 </div>
               </div>
+
+              <CustomFieldsManager entityType="employee" />
             </CardContent>
           </Card>
         </TabsContent>
@@ -2038,10 +2081,11 @@ const parseCSVLine = (line: string): string[] => {
             </CardHeader>
             <CardContent>
               <Tabs defaultValue="types" className="w-full">
-                <TabsList className="grid w-full grid-cols-3">
+                <TabsList className="grid w-full grid-cols-4">
                   <TabsTrigger value="types" className="text-xs">{translations.types}</TabsTrigger>
                   <TabsTrigger value="brands" className="text-xs">{translations.brands}</TabsTrigger>
                   <TabsTrigger value="statuses" className="text-xs">{translations.statuses}</TabsTrigger>
+                  <TabsTrigger value="custom-fields" className="text-xs">{translations.customFields}</TabsTrigger>
                 </TabsList>
 
                 {/* Asset Types Tab */}
@@ -2659,6 +2703,11 @@ const parseCSVLine = (line: string): string[] => {
                   </div>
                 </TabsContent>
 
+                {/* Asset Custom Fields Tab */}
+                <TabsContent value="custom-fields" className="space-y-4">
+                  <CustomFieldsManager entityType="asset" />
+                </TabsContent>
+
               </Tabs>
             </CardContent>
           </Card>
@@ -2887,6 +2936,8 @@ const parseCSVLine = (line: string): string[] => {
                   )}
                 </div>
               </div>
+
+              <CustomFieldsManager entityType="ticket" />
             </CardContent>
           </Card>
         </TabsContent>
@@ -3076,6 +3127,24 @@ const parseCSVLine = (line: string): string[] => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* SLA Tab */}
+        <TabsContent value="sla" className="space-y-4">
+          <SLASettingsTab />
+        </TabsContent>
+
+        {/* Webhooks Tab */}
+        <TabsContent value="webhooks" className="space-y-4">
+          <WebhooksSettingsTab />
+        </TabsContent>
+
+        <TabsContent value="directory" className="space-y-4">
+          <DirectorySyncTab />
+        </TabsContent>
+
+        <TabsContent value="notification-templates" className="space-y-4">
+          <NotificationTemplatesTab />
+        </TabsContent>
       </Tabs>
     </div>
   );
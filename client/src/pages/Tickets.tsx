@@ -17,6 +17,7 @@ import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 import { Plus, Users, Ticket, AlertCircle, Download, LayoutGrid, List } from 'lucide-react';
 import type { TicketFilters as TicketFiltersType, TicketResponse, TicketCreateRequest } from '@shared/types';
+import { matchesCustomFieldFilter } from '@shared/customFields';
 
 export default function Tickets() {
   const { language } = useLanguage();
@@ -125,6 +126,11 @@ export default function Tickets() {
         if (ticket.submittedById?.toString() !== filters.submittedBy) return false;
       }
 
+      // Custom field filter
+      if (filters.customField && !matchesCustomFieldFilter(ticket.customFields, filters.customField, filters.customFieldValue)) {
+        return false;
+      }
+
       return true;
     });
   }, [tickets, filters]);
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { addDays, format, parseISO } from 'date-fns';
+import { useLanguage } from '@/hooks/use-language';
+import { useAuth } from '@/lib/authContext';
+import { apiRequest } from '@/lib/queryClient';
+import { hasPermission } from '@/components/auth/RoleGuard';
+import { ROLE_IDS, getRoleLevel } from '@shared/roles.config';
+import type { UserResponse } from '@shared/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ChevronLeft, ChevronRight, Clock, Download, Loader2 } from 'lucide-react';
+
+interface TimesheetRow {
+  ticketId: number;
+  ticketCode: string;
+  ticketTitle: string;
+  ticketStatus: string;
+  minutesByDay: Record<string, number>;
+  totalMinutes: number;
+}
+
+interface WeeklyTimesheet {
+  userId: number;
+  weekStart: string;
+  weekEnd: string;
+  days: string[];
+  rows: TimesheetRow[];
+  totalsByDay: Record<string, number>;
+  totalMinutes: number;
+}
+
+const formatHours = (minutes: number) => (minutes ? (minutes / 60).toFixed(2) : '–');
+
+export default function Timesheets() {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const [week, setWeek] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [selectedUserId, setSelectedUserId] = useState<string>('');
+
+  const isManager = hasPermission(user?.role, [ROLE_IDS.SUPER_ADMIN, ROLE_IDS.ADMIN, ROLE_IDS.MANAGER]);
+  const userId = selectedUserId || String(user?.id || '');
+
+  const translations = {
+    title: language === 'English' ? 'Timesheets' : 'سجلات الدوام',
+    description: language === 'English' ? 'Weekly time logged against tickets' : 'الوقت الأسبوعي المسجل على التذاكر',
+    agent: language === 'English' ? 'Agent' : 'الوكيل',
+    selectAgent: language === 'English' ? 'Select agent' : 'اختر الوكيل',
+    previousWeek: language === 'English' ? 'Previous week' : 'الأسبوع السابق',
+    nextWeek: language === 'English' ? 'Next week' : 'الأسبوع التالي',
+    thisWeek: language === 'English' ? 'This week' : 'هذا الأسبوع',
+    ticket: language === 'English' ? 'Ticket' : 'التذكرة',
+    total: language === 'English' ? 'Total' : 'الإجمالي',
+    hours: language === 'English' ? 'hours' : 'ساعات',
+    exportCsv: language === 'English' ? 'Export CSV' : 'تصدير CSV',
+    exportAll: language === 'English' ? 'Export All Agents' : 'تصدير جميع الوكلاء',
+    noEntries: language === 'English' ? 'No time logged this week' : 'لا يوجد وقت مسجل هذا الأسبوع',
+    loading: language === 'English' ? 'Loading...' : 'جاري التحميل...',
+  };
+
+  const { data: users = [] } = useQuery<UserResponse[]>({
+    queryKey: ['/api/users'],
+    enabled: isManager,
+  });
+
+  const agents = users.filter((u) => getRoleLevel(u.role) >= getRoleLevel(ROLE_IDS.AGENT));
+
+  const { data: timesheet, isLoading } = useQuery<WeeklyTimesheet>({
+    queryKey: ['/api/timesheets', userId, week],
+    queryFn: () => apiRequest(`/api/timesheets?userId=${userId}&week=${week}`),
+    enabled: !!userId,
+  });
+
+  const shiftWeek = (days: number) => {
+    setWeek(format(addDays(parseISO(week), days), 'yyyy-MM-dd'));
+  };
+
+  const handleExport = (allAgents: boolean) => {
+    const params = new URLSearchParams({ week });
+    if (!allAgents) params.set('userId', userId);
+    window.open(`/api/timesheets/export?${params.toString()}`, '_blank');
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <Clock className="h-6 w-6 text-blue-600" />
+            <h1 className="text-2xl font-bold">{translations.title}</h1>
+          </div>
+          <p className="text-muted-foreground">{translations.description}</p>
+        </div>
+        {isManager && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => handleExport(false)} disabled={!userId}>
+              <Download className="h-4 w-4 mr-2" />
+              {translations.exportCsv}
+            </Button>
+            <Button variant="outline" onClick={() => handleExport(true)}>
+              <Download className="h-4 w-4 mr-2" />
+              {translations.exportAll}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle>
+                {timesheet ? `${timesheet.weekStart} → ${timesheet.weekEnd}` : translations.loading}
+              </CardTitle>
+              <CardDescription>
+                {translations.total}: {timesheet ? (timesheet.totalMinutes / 60).toFixed(2) : '0'} {translations.hours}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              {isManager && (
+                <Select value={userId} onValueChange={setSelectedUserId}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue placeholder={translations.selectAgent} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agents.map((agent) => (
+                      <SelectItem key={agent.id} value={String(agent.id)}>
+                        {agent.username}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button variant="outline" size="icon" onClick={() => shiftWeek(-7)} title={translations.previousWeek}>
+                {language === 'English' ? <ChevronLeft className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              </Button>
+              <Button variant="outline" onClick={() => setWeek(format(new Date(), 'yyyy-MM-dd'))}>
+                {translations.thisWeek}
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => shiftWeek(7)} title={translations.nextWeek}>
+                {language === 'English' ? <ChevronRight className="h-4 w-4" /> : <ChevronLeft className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !timesheet ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : timesheet.rows.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Clock className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>{translations.noEntries}</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{translations.ticket}</TableHead>
+                  {timesheet.days.map((day) => (
+                    <TableHead key={day} className="text-center">
+                      <div>{format(parseISO(day), 'EEE')}</div>
+                      <div className="text-xs text-muted-foreground">{format(parseISO(day), 'dd/MM')}</div>
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-center">{translations.total}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {timesheet.rows.map((row) => (
+                  <TableRow key={row.ticketId}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{row.ticketCode}</Badge>
+                        <span className="truncate max-w-xs" title={row.ticketTitle}>{row.ticketTitle}</span>
+                      </div>
+                    </TableCell>
+                    {timesheet.days.map((day) => (
+                      <TableCell key={day} className="text-center">
+                        {formatHours(row.minutesByDay[day] || 0)}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-center font-medium">{formatHours(row.totalMinutes)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="bg-muted/50 font-semibold">
+                  <TableCell>{translations.total}</TableCell>
+                  {timesheet.days.map((day) => (
+                    <TableCell key={day} className="text-center">
+                      {formatHours(timesheet.totalsByDay[day] || 0)}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-center">{formatHours(timesheet.totalMinutes)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
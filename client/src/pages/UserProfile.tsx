@@ -3,6 +3,9 @@ import { useAuth } from '@/lib/authContext';
 import { useLanguage } from '@/hooks/use-language';
 import { SecurityQuestionsSettings } from '@/components/users/SecurityQuestionsSettings';
 import { NotificationPreferences } from '@/components/users/NotificationPreferences';
+import { ApiTokensSettings } from '@/components/users/ApiTokensSettings';
+import { TwoFactorSettings } from '@/components/users/TwoFactorSettings';
+import { ActiveSessionsSettings } from '@/components/users/ActiveSessionsSettings';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -10,7 +13,9 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
-import { Loader2, Key, User as UserIcon, Save, Bell } from 'lucide-react';
+import { getApiErrorMessage } from '@/components/auth/TwoFactorLoginStep';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
+import { Loader2, Key, KeyRound, User as UserIcon, Save, Bell, ShieldCheck, MonitorSmartphone } from 'lucide-react';
 
 export default function UserProfile() {
   const { user } = useAuth();
@@ -29,7 +34,10 @@ export default function UserProfile() {
       : 'إدارة إعدادات حسابك وتفضيلات الأمان',
     passwordTab: language === 'English' ? 'Change Password' : 'تغيير كلمة المرور',
     securityQuestionsTab: language === 'English' ? 'Security Questions' : 'أسئلة الأمان',
+    twoFactorTab: language === 'English' ? 'Two-Factor' : 'المصادقة الثنائية',
+    sessionsTab: language === 'English' ? 'Sessions' : 'الجلسات',
     notificationsTab: language === 'English' ? 'Notifications' : 'الإشعارات',
+    apiTokensTab: language === 'English' ? 'API Tokens' : 'رموز الوصول',
     profileTab: language === 'English' ? 'Profile' : 'الملف الشخصي',
     currentPassword: language === 'English' ? 'Current Password' : 'كلمة المرور الحالية',
     newPassword: language === 'English' ? 'New Password' : 'كلمة المرور الجديدة',
@@ -81,43 +89,28 @@ export default function UserProfile() {
     setLoading(true);
     
     try {
-      const response = await apiRequest('/api/user/change-password', 'POST', {
+      // apiRequest throws on error responses
+      await apiRequest('/api/user/change-password', 'POST', {
         currentPassword,
         newPassword
       });
       
-      if (response.ok) {
-        toast({
-          title: translations.successTitle,
-          description: translations.successMsg
-        });
-        
-        // Reset form
-        setCurrentPassword('');
-        setNewPassword('');
-        setConfirmPassword('');
-      } else {
-        const data = await response.json();
-        
-        if (response.status === 401) {
-          toast({
-            title: translations.errorTitle,
-            description: translations.invalidCurrentPassword,
-            variant: 'destructive'
-          });
-        } else {
-          toast({
-            title: translations.errorTitle,
-            description: data.message || 'An error occurred',
-            variant: 'destructive'
-          });
-        }
-      }
+      toast({
+        title: translations.successTitle,
+        description: translations.successMsg
+      });
+      
+      // Reset form
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
     } catch (error) {
       console.error('Error changing password:', error);
+      const message = getApiErrorMessage(error, 'An error occurred while changing your password');
       toast({
         title: translations.errorTitle,
-        description: 'An error occurred while changing your password',
+        // Policy violations come from the server as they are
+        description: message === 'Current password is incorrect' ? translations.invalidCurrentPassword : message,
         variant: 'destructive'
       });
     } finally {
@@ -135,7 +128,7 @@ export default function UserProfile() {
       </div>
       
       <Tabs defaultValue="profile" className="w-full">
-        <TabsList className="grid w-full md:w-auto grid-cols-4">
+        <TabsList className="grid w-full md:w-auto grid-cols-7">
           <TabsTrigger value="profile">
             <UserIcon className="h-4 w-4 mr-2" />
             {translations.profileTab}
@@ -148,10 +141,22 @@ export default function UserProfile() {
             <Key className="h-4 w-4 mr-2" />
             {translations.securityQuestionsTab}
           </TabsTrigger>
+          <TabsTrigger value="two-factor">
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            {translations.twoFactorTab}
+          </TabsTrigger>
+          <TabsTrigger value="sessions">
+            <MonitorSmartphone className="h-4 w-4 mr-2" />
+            {translations.sessionsTab}
+          </TabsTrigger>
           <TabsTrigger value="notifications">
             <Bell className="h-4 w-4 mr-2" />
             {translations.notificationsTab}
           </TabsTrigger>
+          <TabsTrigger value="api-tokens">
+            <KeyRound className="h-4 w-4 mr-2" />
+            {translations.apiTokensTab}
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="profile" className="mt-6">
@@ -232,6 +237,7 @@ export default function UserProfile() {
                     value={newPassword}
                     onChange={(e) => setNewPassword(e.target.value)}
                   />
+                  <PasswordStrengthMeter password={newPassword} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="confirm-password">{translations.confirmPassword}</Label>
@@ -264,9 +270,21 @@ export default function UserProfile() {
           <SecurityQuestionsSettings />
         </TabsContent>
 
+        <TabsContent value="two-factor" className="mt-6">
+          <TwoFactorSettings />
+        </TabsContent>
+        
+        <TabsContent value="sessions" className="mt-6">
+          <ActiveSessionsSettings />
+        </TabsContent>
+
         <TabsContent value="notifications" className="mt-6">
           <NotificationPreferences />
         </TabsContent>
+
+        <TabsContent value="api-tokens" className="mt-6">
+          <ApiTokensSettings />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -7,6 +7,9 @@ import { apiRequest } from '@/lib/queryClient';
 import UsersTable from '@/components/users/UsersTable';
 import UserForm from '@/components/users/UserForm';
 import ChangePasswordDialog from '@/components/users/ChangePasswordDialog';
+import { TwoFactorPolicyCard } from '@/components/users/TwoFactorPolicyCard';
+import { SsoSettingsCard } from '@/components/users/SsoSettingsCard';
+import { PasswordPolicyCard } from '@/components/users/PasswordPolicyCard';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Plus, RefreshCw, Shield, ChevronRight } from 'lucide-react';
@@ -79,6 +82,8 @@ export default function Users() {
     userActivated: language === 'English' ? 'User activated successfully' : 'تم تفعيل المستخدم بنجاح',
     userDeactivated: language === 'English' ? 'User deactivated successfully' : 'تم إلغاء تفعيل المستخدم بنجاح',
     passwordChanged: language === 'English' ? 'Password changed successfully' : 'تم تغيير كلمة المرور بنجاح',
+    twoFactorReset: language === 'English' ? 'Two-factor authentication reset' : 'تمت إعادة تعيين المصادقة الثنائية',
+    userSignedOut: language === 'English' ? 'User signed out of all sessions' : 'تم تسجيل خروج المستخدم من جميع الجلسات',
     error: language === 'English' ? 'An error occurred' : 'حدث خطأ',
   };
 
@@ -114,6 +119,14 @@ export default function Users() {
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 
+  // Users with 2FA enabled (resetting it is admin-only)
+  const isAdmin = hasAccess(4);
+  const { data: twoFactorUsers = [] } = useQuery<{ userId: number }[]>({
+    queryKey: ['/api/two-factor/users'],
+    enabled: isAdmin,
+  });
+  const twoFactorUserIds = new Set(twoFactorUsers.map(entry => entry.userId));
+
   // Add user mutation
   const addUserMutation = useMutation({
     mutationFn: async (userData: any) => {
@@ -182,8 +195,8 @@ export default function Users() {
 
   // Change user password mutation
   const changePasswordMutation = useMutation({
-    mutationFn: async ({ id, newPassword }: { id: number; newPassword: string }) => {
-      const res = await apiRequest(`/api/users/${id}/change-password`, 'PUT', { password: newPassword });
+    mutationFn: async ({ id, newPassword, mustChangePassword }: { id: number; newPassword: string; mustChangePassword: boolean }) => {
+      const res = await apiRequest(`/api/users/${id}/change-password`, 'PUT', { password: newPassword, mustChangePassword });
       return res;
     },
     onSuccess: () => {
@@ -223,6 +236,27 @@ export default function Users() {
     },
   });
 
+  // Reset 2FA mutation
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest(`/api/two-factor/users/${id}`, 'DELETE');
+      return res;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/two-factor/users'] });
+      toast({
+        title: translations.twoFactorReset,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: translations.error,
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   const handleAddUser = (userData: any) => {
     addUserMutation.mutate(userData);
   };
@@ -251,8 +285,35 @@ export default function Users() {
     setOpenChangePasswordDialog(true);
   };
 
-  const handleChangePasswordSubmit = (userId: number, newPassword: string) => {
-    changePasswordMutation.mutate({ id: userId, newPassword });
+  const handleChangePasswordSubmit = (userId: number, newPassword: string, mustChangePassword: boolean) => {
+    changePasswordMutation.mutate({ id: userId, newPassword, mustChangePassword });
+  };
+
+  const forceLogoutMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest(`/api/sessions/users/${id}/revoke`, 'POST');
+      return res;
+    },
+    onSuccess: () => {
+      toast({
+        title: translations.userSignedOut,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: translations.error,
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleResetTwoFactor = (userId: number) => {
+    resetTwoFactorMutation.mutate(userId);
+  };
+
+  const handleForceLogout = (userId: number) => {
+    forceLogoutMutation.mutate(userId);
   };
 
   const admins = users.filter((user: any) => {
@@ -378,6 +439,10 @@ export default function Users() {
         </div>
       </div>
 
+      {isAdmin && <TwoFactorPolicyCard />}
+      {isAdmin && <SsoSettingsCard />}
+      {isAdmin && <PasswordPolicyCard />}
+
       <Tabs defaultValue="all" className="mb-6">
         <TabsList>
           <TabsTrigger value="all">{translations.allUsers}</TabsTrigger>
@@ -397,6 +462,9 @@ export default function Users() {
               onDelete={handleDeleteUser} 
               onToggleActive={handleToggleActive}
               onChangePassword={handleChangePassword}
+              twoFactorUserIds={twoFactorUserIds}
+              onResetTwoFactor={isAdmin ? handleResetTwoFactor : undefined}
+              onForceLogout={isAdmin ? handleForceLogout : undefined}
             />
           )}
         </TabsContent>
@@ -411,6 +479,9 @@ export default function Users() {
               onDelete={handleDeleteUser} 
               onToggleActive={handleToggleActive}
               onChangePassword={handleChangePassword}
+              twoFactorUserIds={twoFactorUserIds}
+              onResetTwoFactor={isAdmin ? handleResetTwoFactor : undefined}
+              onForceLogout={isAdmin ? handleForceLogout : undefined}
             />
           )}
         </TabsContent>
@@ -425,6 +496,9 @@ export default function Users() {
               onDelete={handleDeleteUser} 
               onToggleActive={handleToggleActive}
               onChangePassword={handleChangePassword}
+              twoFactorUserIds={twoFactorUserIds}
+              onResetTwoFactor={isAdmin ? handleResetTwoFactor : undefined}
+              onForceLogout={isAdmin ? handleForceLogout : undefined}
             />
           )}
         </TabsContent>
@@ -439,6 +513,9 @@ export default function Users() {
               onDelete={handleDeleteUser} 
               onToggleActive={handleToggleActive}
               onChangePassword={handleChangePassword}
+              twoFactorUserIds={twoFactorUserIds}
+              onResetTwoFactor={isAdmin ? handleResetTwoFactor : undefined}
+              onForceLogout={isAdmin ? handleForceLogout : undefined}
             />
           )}
         </TabsContent>
@@ -453,6 +530,9 @@ export default function Users() {
               onDelete={handleDeleteUser} 
               onToggleActive={handleToggleActive}
               onChangePassword={handleChangePassword}
+              twoFactorUserIds={twoFactorUserIds}
+              onResetTwoFactor={isAdmin ? handleResetTwoFactor : undefined}
+              onForceLogout={isAdmin ? handleForceLogout : undefined}
             />
           )}
         </TabsContent>
@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useLanguage } from '@/hooks/use-language';
 import { useAuth } from '@/lib/authContext';
+import { useCurrency } from '@/lib/currencyContext';
+import { useLocation } from 'wouter';
 import { ROLE_IDS, getRoleLevel } from '@shared/roles.config';
 import {
   Table,
@@ -33,6 +35,7 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import ApprovalTrail from '@/components/approvals/ApprovalTrail';
 import {
   Search,
   FileText,
@@ -46,6 +49,7 @@ import {
   AlertCircle,
   Wrench,
   Ban,
+  ShoppingCart,
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -63,6 +67,9 @@ interface UpgradeRequest {
   justification: string;
   estimatedCost?: number;
   purchaseRequired: boolean;
+  // Total of approved-or-later purchase orders raised for the request; null when there are none
+  actualCost: number | null;
+  purchaseOrderCount: number;
   createdBy: string;
   createdAt: string;
   approvedBy?: string;
@@ -85,6 +92,8 @@ export default function UpgradeRequests() {
   const { toast } = useToast();
   const { language } = useLanguage();
   const { user } = useAuth();
+  const { formatCurrency } = useCurrency();
+  const [, navigate] = useLocation();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [priorityFilter, setPriorityFilter] = useState<string>('all');
@@ -144,6 +153,13 @@ export default function UpgradeRequests() {
     justification: language === 'English' ? 'Justification' : 'المبرر',
     estimatedCost: language === 'English' ? 'Estimated Cost' : 'التكلفة المقدرة',
     purchaseRequired: language === 'English' ? 'Purchase Required' : 'يتطلب شراء',
+    cost: language === 'English' ? 'Cost' : 'التكلفة',
+    estimated: language === 'English' ? 'Est.' : 'تقديري',
+    actual: language === 'English' ? 'Actual' : 'فعلي',
+    actualCost: language === 'English' ? 'Actual Cost' : 'التكلفة الفعلية',
+    variance: language === 'English' ? 'Variance' : 'الفرق',
+    purchaseOrders: language === 'English' ? 'Purchase Orders' : 'أوامر الشراء',
+    createPurchaseOrder: language === 'English' ? 'Raise PO' : 'إنشاء أمر شراء',
     yes: language === 'English' ? 'Yes' : 'نعم',
     no: language === 'English' ? 'No' : 'لا',
     page: language === 'English' ? 'Page' : 'صفحة',
@@ -174,8 +190,10 @@ export default function UpgradeRequests() {
         status: item.status || 'Pending Approval',
         scheduledDate: item.scheduled_date || item.scheduledDate || '',
         justification: item.justification || '',
-        estimatedCost: item.estimated_cost || item.estimatedCost || 0,
+        estimatedCost: Number(item.estimated_cost || item.estimatedCost || 0),
         purchaseRequired: item.purchase_required || item.purchaseRequired || false,
+        actualCost: item.actualCost ?? null,
+        purchaseOrderCount: item.purchaseOrderCount || 0,
         createdBy: item.createdByName || item.created_by_name || '',
         createdAt: item.created_at || item.createdAt || '',
         approvedBy: item.approvedByName || item.approved_by_name || null,
@@ -266,7 +284,7 @@ export default function UpgradeRequests() {
   // Export function
   const handleExport = () => {
     const csvContent = [
-      ['Request ID', 'Asset', 'Title', 'Category', 'Type', 'Priority', 'Status', 'Scheduled Date', 'Created By'].join(','),
+      ['Request ID', 'Asset', 'Title', 'Category', 'Type', 'Priority', 'Status', 'Scheduled Date', 'Estimated Cost', 'Actual Cost', 'Created By'].join(','),
       ...filteredRequests.map(req => [
         req.id,
         `"${req.assetName}"`,
@@ -276,6 +294,8 @@ export default function UpgradeRequests() {
         req.priority,
         req.status,
         req.scheduledDate ? format(new Date(req.scheduledDate), 'yyyy-MM-dd') : '',
+        req.estimatedCost || '',
+        req.actualCost ?? '',
         `"${req.createdBy}"`
       ].join(','))
     ].join('\n');
@@ -289,6 +309,15 @@ export default function UpgradeRequests() {
     window.URL.revokeObjectURL(url);
   };
 
+  // Purchase orders can be raised once a request needing a purchase is approved
+  const canRaisePurchaseOrder = (request: UpgradeRequest) =>
+    request.purchaseRequired && (request.status === 'Approved' || request.status === 'In Progress');
+
+  const getVarianceClass = (request: UpgradeRequest) => {
+    if (request.actualCost === null || !request.estimatedCost) return '';
+    return request.actualCost > request.estimatedCost ? 'text-red-600' : 'text-green-600';
+  };
+
   const getStatusBadgeVariant = (status: string): "default" | "secondary" | "destructive" | "outline" | "success" | "warning" => {
     switch (status) {
       case 'Approved': return 'success';
@@ -399,6 +428,7 @@ export default function UpgradeRequests() {
                   <TableHead>{translations.upgradeType}</TableHead>
                   <TableHead>{translations.priority}</TableHead>
                   <TableHead>{translations.status}</TableHead>
+                  <TableHead>{translations.cost}</TableHead>
                   <TableHead>{translations.assignedEmployee}</TableHead>
                   <TableHead>{translations.scheduledDate}</TableHead>
                   <TableHead>{translations.actions}</TableHead>
@@ -407,7 +437,7 @@ export default function UpgradeRequests() {
               <TableBody>
                 {isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={10} className="text-center py-8">
+                    <TableCell colSpan={11} className="text-center py-8">
                       <div className="flex justify-center items-center">
                         <RefreshCw className="w-6 h-6 animate-spin mr-2" />
                         {translations.loading}
@@ -416,7 +446,7 @@ export default function UpgradeRequests() {
                   </TableRow>
                 ) : paginatedRequests.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={10} className="text-center py-8">
+                    <TableCell colSpan={11} className="text-center py-8">
                       <div className="flex flex-col items-center">
                         <AlertCircle className="w-12 h-12 text-gray-400 mb-2" />
                         <p className="text-gray-500">{translations.noRequests}</p>
@@ -462,6 +492,14 @@ export default function UpgradeRequests() {
                           {request.status}
                         </Badge>
                       </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        <div>{translations.estimated}: {request.estimatedCost ? formatCurrency(request.estimatedCost) : '-'}</div>
+                        {request.actualCost !== null && (
+                          <div className={getVarianceClass(request)}>
+                            {translations.actual}: {formatCurrency(request.actualCost)}
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell>
                         {request.assignedEmployee ? (
                           <div className="flex flex-col">
@@ -475,7 +513,17 @@ export default function UpgradeRequests() {
                       <TableCell>
                         {request.scheduledDate ? format(new Date(request.scheduledDate), 'MMM dd, yyyy') : '-'}
                       </TableCell>
-                      <TableCell>
+                      <TableCell className="space-y-1">
+                        {canRaisePurchaseOrder(request) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => navigate(`/purchase-orders?upgradeId=${request.id}`)}
+                          >
+                            <ShoppingCart className="w-4 h-4 mr-1" />
+                            {translations.createPurchaseOrder}
+                          </Button>
+                        )}
                         {getRoleLevel(user?.role) >= getRoleLevel(ROLE_IDS.MANAGER) && (
                           <Button
                             size="sm"
@@ -544,7 +592,7 @@ export default function UpgradeRequests() {
 
       {/* Review Dialog */}
       <Dialog open={showReviewDialog} onOpenChange={setShowReviewDialog}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{translations.reviewRequest}</DialogTitle>
           </DialogHeader>
@@ -594,9 +642,22 @@ export default function UpgradeRequests() {
                   <div>
                     <span className="font-medium text-gray-600">{translations.estimatedCost}:</span>
                     <span className="ml-2">
-                      {selectedRequest.estimatedCost ? `$${selectedRequest.estimatedCost}` : '-'}
+                      {selectedRequest.estimatedCost ? formatCurrency(selectedRequest.estimatedCost) : '-'}
                     </span>
                   </div>
+                  <div>
+                    <span className="font-medium text-gray-600">{translations.actualCost}:</span>
+                    <span className={`ml-2 ${getVarianceClass(selectedRequest)}`}>
+                      {selectedRequest.actualCost !== null ? formatCurrency(selectedRequest.actualCost) : '-'}
+                      {selectedRequest.actualCost !== null && selectedRequest.estimatedCost
+                        ? ` (${translations.variance}: ${formatCurrency(selectedRequest.actualCost - selectedRequest.estimatedCost)})`
+                        : ''}
+                    </span>
+                  </div>
+                  <div>
+                    <span className="font-medium text-gray-600">{translations.purchaseOrders}:</span>
+                    <span className="ml-2">{selectedRequest.purchaseOrderCount}</span>
+                  </div>
                   <div>
                     <span className="font-medium text-gray-600">{translations.assignedEmployee}:</span>
                     <span className="ml-2">
@@ -618,6 +679,8 @@ export default function UpgradeRequests() {
                 </div>
               </div>
 
+              <ApprovalTrail requestType="upgrade" subjectId={selectedRequest.id} />
+
               {/* Decision Selection */}
               <div className="space-y-2">
                 <Label htmlFor="decision">{translations.decision} *</Label>
@@ -25,6 +25,7 @@ import { User, Mail, Phone, Building, Briefcase, Calendar, Edit, Save, X, Lock }
 import PortalLayout from '@/components/portal/PortalLayout';
 import { useEmployeeLink } from '@/hooks/use-employee-link';
 import EmployeeLinkRequired from '@/components/portal/EmployeeLinkRequired';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
 
 export default function MyProfile() {
   const { language } = useLanguage();
@@ -148,6 +149,10 @@ export default function MyProfile() {
         confirmPassword: ''
       });
     },
+    onError: (error: Error) => {
+      // Password policy violations explain what the new password is missing
+      alert(error.message || translations.passwordUpdateError);
+    },
   });
 
   // Handler functions
@@ -452,6 +457,7 @@ export default function MyProfile() {
                           onChange={(e) => setPasswordForm({ ...passwordForm, newPassword: e.target.value })}
                           className="mt-1"
                         />
+                        <PasswordStrengthMeter password={passwordForm.newPassword} className="mt-2" />
                       </div>
                       <div>
                         <Label>{translations.confirmPassword}</Label>
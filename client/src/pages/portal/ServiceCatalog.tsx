@@ -0,0 +1,358 @@
+/**
+ * Service Catalog Page - Employee Portal
+ *
+ * Features:
+ * - Browse the services IT offers, each with its own request form
+ * - Submit a request; items needing approval wait for it before a ticket is opened
+ * - Track own requests, cancel those still awaiting approval and open their tickets
+ * - Bilingual support (English/Arabic)
+ *
+ * API Endpoints:
+ * - GET /api/service-catalog/items
+ * - POST /api/service-catalog/items/:id/requests
+ * - GET /api/service-catalog/my-requests
+ * - POST /api/service-catalog/my-requests/:id/cancel
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLanguage } from '@/hooks/use-language';
+import { useLocation } from 'wouter';
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ClipboardList, Search } from 'lucide-react';
+import PortalLayout from '@/components/portal/PortalLayout';
+import { useEmployeeLink } from '@/hooks/use-employee-link';
+import EmployeeLinkRequired from '@/components/portal/EmployeeLinkRequired';
+import {
+  ServiceRequestAnswers, useServiceRequestLabels,
+  type ServiceFormField, type ServiceRequest
+} from '@/components/tickets/ServiceRequestPanel';
+
+interface CatalogItem {
+  id: number;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  formFields: ServiceFormField[];
+  requiresApproval: boolean;
+  categoryName: string | null;
+}
+
+type AnswerValue = string | boolean;
+
+export default function ServiceCatalog() {
+  const { language } = useLanguage();
+  const [, navigate] = useLocation();
+  const queryClient = useQueryClient();
+  const labels = useServiceRequestLabels();
+  const { canAccessPortal, needsEmployeeLink, availableEmployees, isLoading: isEmployeeLoading } = useEmployeeLink();
+
+  const [tab, setTab] = useState('catalog');
+  const [search, setSearch] = useState('');
+  const [selectedItem, setSelectedItem] = useState<CatalogItem | null>(null);
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>({});
+
+  const translations = {
+    serviceCatalog: language === 'English' ? 'Service Catalog' : 'كتالوج الخدمات',
+    subtitle: language === 'English'
+      ? 'Request equipment, access and other IT services'
+      : 'اطلب الأجهزة والصلاحيات وخدمات تقنية المعلومات الأخرى',
+    catalog: language === 'English' ? 'Catalog' : 'الكتالوج',
+    myRequests: language === 'English' ? 'My Requests' : 'طلباتي',
+    search: language === 'English' ? 'Search services...' : 'البحث في الخدمات...',
+    request: language === 'English' ? 'Request' : 'طلب',
+    needsApproval: language === 'English' ? 'Needs approval' : 'يتطلب موافقة',
+    approvalNote: language === 'English'
+      ? 'This request goes to your approvers first; a ticket is opened once it is approved.'
+      : 'يُرسل هذا الطلب إلى المعتمدين أولاً، ويتم فتح تذكرة بعد الموافقة عليه.',
+    submit: language === 'English' ? 'Submit Request' : 'إرسال الطلب',
+    submitting: language === 'English' ? 'Submitting...' : 'جاري الإرسال...',
+    cancel: language === 'English' ? 'Cancel' : 'إلغاء',
+    cancelRequest: language === 'English' ? 'Cancel Request' : 'إلغاء الطلب',
+    confirmCancel: language === 'English' ? 'Cancel this request?' : 'هل تريد إلغاء هذا الطلب؟',
+    viewTicket: language === 'English' ? 'View Ticket' : 'عرض التذكرة',
+    selectOption: language === 'English' ? 'Select an option' : 'اختر خيار',
+    requiredMissing: (label: string) => language === 'English' ? `Please fill in "${label}"` : `الرجاء تعبئة "${label}"`,
+    submitted: language === 'English' ? 'Your request has been submitted' : 'تم إرسال طلبك',
+    submitFailed: language === 'English' ? 'Failed to submit request' : 'فشل إرسال الطلب',
+    cancelFailed: language === 'English' ? 'Failed to cancel request' : 'فشل إلغاء الطلب',
+    loading: language === 'English' ? 'Loading...' : 'جاري التحميل...',
+    noItems: language === 'English' ? 'No services are available right now' : 'لا توجد خدمات متاحة حالياً',
+    noRequests: language === 'English' ? 'You have not requested any services yet' : 'لم تطلب أي خدمات بعد',
+  };
+
+  const { data: items = [], isLoading: itemsLoading } = useQuery<CatalogItem[]>({
+    queryKey: ['/api/service-catalog/items'],
+    queryFn: async () => {
+      const response = await fetch('/api/service-catalog/items', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch service catalog');
+      return response.json();
+    },
+    enabled: canAccessPortal && !isEmployeeLoading,
+  });
+
+  const { data: myRequests = [], isLoading: requestsLoading } = useQuery<ServiceRequest[]>({
+    queryKey: ['/api/service-catalog/my-requests'],
+    queryFn: async () => {
+      const response = await fetch('/api/service-catalog/my-requests', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch service requests');
+      return response.json();
+    },
+    enabled: canAccessPortal && !isEmployeeLoading,
+  });
+
+  const postJson = async (url: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(body ?? {}),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.message || response.statusText);
+    }
+    return response.json();
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: ({ itemId, values }: { itemId: number; values: Record<string, AnswerValue> }) =>
+      postJson(`/api/service-catalog/items/${itemId}/requests`, { answers: values }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/service-catalog/my-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/portal/my-tickets'] });
+      setSelectedItem(null);
+      setTab('requests');
+      alert(translations.submitted);
+    },
+    onError: (error: Error) => {
+      alert(`${translations.submitFailed}: ${error.message}`);
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: number) => postJson(`/api/service-catalog/my-requests/${id}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/service-catalog/my-requests'] });
+    },
+    onError: (error: Error) => {
+      alert(`${translations.cancelFailed}: ${error.message}`);
+    },
+  });
+
+  const openItem = (item: CatalogItem) => {
+    setAnswers(Object.fromEntries(item.formFields.map(field => [field.key, field.type === 'checkbox' ? false : ''])));
+    setSelectedItem(item);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedItem) return;
+    const missing = selectedItem.formFields.find(field =>
+      field.required && (field.type === 'checkbox' ? answers[field.key] !== true : !String(answers[field.key] ?? '').trim())
+    );
+    if (missing) {
+      alert(translations.requiredMissing(missing.label));
+      return;
+    }
+    submitMutation.mutate({ itemId: selectedItem.id, values: answers });
+  };
+
+  const renderField = (field: ServiceFormField) => {
+    const value = answers[field.key];
+    const setValue = (next: AnswerValue) => setAnswers(prev => ({ ...prev, [field.key]: next }));
+
+    switch (field.type) {
+      case 'textarea':
+        return <Textarea id={field.key} rows={3} value={String(value ?? '')} onChange={(e) => setValue(e.target.value)} />;
+      case 'select':
+        return (
+          <Select value={String(value ?? '')} onValueChange={setValue}>
+            <SelectTrigger id={field.key}>
+              <SelectValue placeholder={translations.selectOption} />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options?.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'checkbox':
+        return <Checkbox id={field.key} checked={value === true} onCheckedChange={(checked) => setValue(checked === true)} />;
+      default:
+        return (
+          <Input
+            id={field.key}
+            type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+            value={String(value ?? '')}
+            onChange={(e) => setValue(e.target.value)}
+          />
+        );
+    }
+  };
+
+  const searchLower = search.toLowerCase();
+  const visibleItems = items.filter(item =>
+    !search
+    || item.name.toLowerCase().includes(searchLower)
+    || item.description?.toLowerCase().includes(searchLower)
+  );
+
+  return (
+    <PortalLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">{translations.serviceCatalog}</h1>
+          <p className="text-gray-600 mt-2">{translations.subtitle}</p>
+        </div>
+
+        {needsEmployeeLink && (
+          <EmployeeLinkRequired availableEmployees={availableEmployees} />
+        )}
+
+        {canAccessPortal && (
+          <Tabs value={tab} onValueChange={setTab}>
+            <TabsList>
+              <TabsTrigger value="catalog">{translations.catalog}</TabsTrigger>
+              <TabsTrigger value="requests">{translations.myRequests} ({myRequests.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="catalog" className="space-y-4 mt-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder={translations.search}
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+
+              {itemsLoading ? (
+                <p className="text-center text-gray-500 py-8">{translations.loading}</p>
+              ) : visibleItems.length === 0 ? (
+                <Card>
+                  <CardContent className="py-12 text-center text-gray-500">
+                    <ClipboardList className="h-12 w-12 mx-auto mb-3 text-gray-400" />
+                    {translations.noItems}
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {visibleItems.map(item => (
+                    <Card key={item.id} className="flex flex-col">
+                      <CardHeader className="pb-2">
+                        <CardTitle className="flex items-center gap-2 text-lg">
+                          <span>{item.icon || '🧾'}</span>
+                          {item.name}
+                        </CardTitle>
+                        {item.categoryName && <CardDescription>{item.categoryName}</CardDescription>}
+                      </CardHeader>
+                      <CardContent className="flex-1 flex flex-col gap-3">
+                        <p className="text-sm text-gray-600 flex-1 whitespace-pre-wrap">{item.description}</p>
+                        <div className="flex items-center justify-between">
+                          {item.requiresApproval ? <Badge variant="secondary">{translations.needsApproval}</Badge> : <span />}
+                          <Button size="sm" onClick={() => openItem(item)}>{translations.request}</Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="requests" className="space-y-4 mt-4">
+              {requestsLoading ? (
+                <p className="text-center text-gray-500 py-8">{translations.loading}</p>
+              ) : myRequests.length === 0 ? (
+                <Card>
+                  <CardContent className="py-12 text-center text-gray-500">{translations.noRequests}</CardContent>
+                </Card>
+              ) : (
+                myRequests.map(request => (
+                  <Card key={request.id}>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="flex items-center justify-between gap-2 text-lg flex-wrap">
+                        <span>{request.itemName}</span>
+                        <Badge variant={labels.statusVariants[request.status]}>{labels.statuses[request.status]}</Badge>
+                      </CardTitle>
+                      <CardDescription>{format(new Date(request.createdAt), 'yyyy-MM-dd HH:mm')}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <ServiceRequestAnswers answers={request.answers} />
+                      <div className="flex justify-end gap-2">
+                        {request.status === 'pending_approval' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={cancelMutation.isPending}
+                            onClick={() => window.confirm(translations.confirmCancel) && cancelMutation.mutate(request.id)}
+                          >
+                            {translations.cancelRequest}
+                          </Button>
+                        )}
+                        {request.ticketId && (
+                          <Button size="sm" onClick={() => navigate(`/portal/my-tickets/${request.ticketId}`)}>
+                            {translations.viewTicket}{request.ticketCode ? ` (${request.ticketCode})` : ''}
+                          </Button>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+
+      <Dialog open={!!selectedItem} onOpenChange={(open) => !open && setSelectedItem(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          {selectedItem && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>{selectedItem.icon || '🧾'} {selectedItem.name}</DialogTitle>
+                {selectedItem.description && <DialogDescription>{selectedItem.description}</DialogDescription>}
+              </DialogHeader>
+
+              {selectedItem.formFields.map(field => (
+                <div
+                  key={field.key}
+                  className={field.type === 'checkbox' ? 'flex items-center gap-2' : 'space-y-2'}
+                >
+                  {field.type === 'checkbox' && renderField(field)}
+                  <Label htmlFor={field.key}>{field.label}{field.required && ' *'}</Label>
+                  {field.type !== 'checkbox' && renderField(field)}
+                </div>
+              ))}
+
+              {selectedItem.requiresApproval && (
+                <p className="text-sm text-amber-700 bg-amber-50 rounded-md p-3">{translations.approvalNote}</p>
+              )}
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setSelectedItem(null)} disabled={submitMutation.isPending}>
+                  {translations.cancel}
+                </Button>
+                <Button type="submit" disabled={submitMutation.isPending}>
+                  {submitMutation.isPending ? translations.submitting : translations.submit}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </PortalLayout>
+  );
+}
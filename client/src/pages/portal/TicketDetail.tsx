@@ -8,11 +8,14 @@
  * - Show ticket status and priority
  * - Add comments to ticket
  * - View comment history
+ * - Attach files to the ticket and to comments
  * - Bilingual support (English/Arabic)
  * 
  * API Endpoints: 
  * - GET /api/portal/my-tickets/:id
  * - POST /api/portal/my-tickets/:id/comments
+ * - GET/POST /api/attachments/ticket/:id
+ * - POST /api/attachments/comment/:id
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
@@ -23,8 +26,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
-import { ArrowLeft, Calendar, User, MessageSquare } from 'lucide-react';
+import { ArrowLeft, Calendar, User, MessageSquare, Paperclip } from 'lucide-react';
 import PortalLayout from '@/components/portal/PortalLayout';
+import AttachmentDropzone, { uploadAttachments } from '@/components/attachments/AttachmentDropzone';
+import AttachmentList from '@/components/attachments/AttachmentList';
+import { useAuth } from '@/lib/authContext';
+import type { AttachmentResponse } from '@shared/types';
 import { useEmployeeLink } from '@/hooks/use-employee-link';
 import EmployeeLinkRequired from '@/components/portal/EmployeeLinkRequired';
 
@@ -37,6 +44,8 @@ export default function TicketDetail({ params }: TicketDetailProps) {
   const [, navigate] = useLocation();
   const queryClient = useQueryClient();
   const [comment, setComment] = useState('');
+  const [commentFiles, setCommentFiles] = useState<File[]>([]);
+  const { user } = useAuth();
   const { canAccessPortal, needsEmployeeLink, availableEmployees, isLoading: isEmployeeLoading } = useEmployeeLink();
 
   const ticketId = params.id;
@@ -57,6 +66,8 @@ export default function TicketDetail({ params }: TicketDetailProps) {
     loading: language === 'English' ? 'Loading...' : 'جاري التحميل...',
     error: language === 'English' ? 'Failed to load ticket' : 'فشل تحميل التذكرة',
     noComments: language === 'English' ? 'No comments yet' : 'لا توجد تعليقات بعد',
+    attachments: language === 'English' ? 'Attachments' : 'المرفقات',
+    uploadFailed: language === 'English' ? 'Failed to upload attachments' : 'فشل رفع المرفقات',
   };
 
   // Fetch ticket details
@@ -72,6 +83,23 @@ export default function TicketDetail({ params }: TicketDetailProps) {
     enabled: canAccessPortal && !isEmployeeLoading,
   });
 
+  // Ticket and comment attachments
+  const attachmentsKey = `/api/attachments/ticket/${ticketId}`;
+  const { data: attachments = [] } = useQuery<AttachmentResponse[]>({
+    queryKey: [attachmentsKey],
+    enabled: canAccessPortal && !isEmployeeLoading && !!ticket,
+  });
+
+  const uploadTicketFilesMutation = useMutation({
+    mutationFn: (files: File[]) => uploadAttachments(`/api/attachments/ticket/${ticketId}`, files),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [attachmentsKey] });
+    },
+    onError: (error: Error) => {
+      alert(`${translations.uploadFailed}: ${error.message}`);
+    },
+  });
+
   // Add comment mutation
   const addCommentMutation = useMutation({
     mutationFn: async (content: string) => {
@@ -91,12 +119,18 @@ export default function TicketDetail({ params }: TicketDetailProps) {
         throw new Error(errorData.message || errorData.error || 'Failed to add comment');
       }
       
-      return response.json();
+      const created = await response.json();
+      if (commentFiles.length > 0) {
+        await uploadAttachments(`/api/attachments/comment/${created.id}`, commentFiles);
+      }
+      return created;
     },
     onSuccess: () => {
       console.log('[DEBUG] Comment added successfully');
       setComment('');
+      setCommentFiles([]);
       queryClient.invalidateQueries({ queryKey: [`/api/portal/my-tickets/${ticketId}`] });
+      queryClient.invalidateQueries({ queryKey: [attachmentsKey] });
     },
     onError: (error: Error) => {
       console.error('[ERROR] Failed to add comment:', error);
@@ -204,6 +238,24 @@ export default function TicketDetail({ params }: TicketDetailProps) {
                   <label className="font-medium text-gray-500">{translations.description}</label>
                   <p className="mt-1 whitespace-pre-wrap">{ticket.description}</p>
                 </div>
+
+                <div className="space-y-2">
+                  <label className="font-medium text-gray-500 flex items-center gap-1">
+                    <Paperclip className="h-4 w-4" />
+                    {translations.attachments}
+                  </label>
+                  <AttachmentList
+                    attachments={attachments.filter(a => a.entityType === 'ticket')}
+                    canDelete={(attachment) => attachment.uploadedById === user?.id}
+                    onDeleted={() => queryClient.invalidateQueries({ queryKey: [attachmentsKey] })}
+                  />
+                  <AttachmentDropzone
+                    files={[]}
+                    onFilesChange={(files) => uploadTicketFilesMutation.mutate(files)}
+                    disabled={uploadTicketFilesMutation.isPending}
+                    compact
+                  />
+                </div>
               </CardContent>
             </Card>
 
@@ -228,6 +280,12 @@ export default function TicketDetail({ params }: TicketDetailProps) {
                           <span>{new Date(comment.createdAt).toLocaleString()}</span>
                         </div>
                         <p className="whitespace-pre-wrap">{comment.content}</p>
+                        <AttachmentList
+                          className="mt-2"
+                          attachments={attachments.filter(a => a.entityType === 'ticket_comment' && a.entityId === comment.id)}
+                          canDelete={(attachment) => attachment.uploadedById === user?.id}
+                          onDeleted={() => queryClient.invalidateQueries({ queryKey: [attachmentsKey] })}
+                        />
                       </div>
                     ))}
                   </div>
@@ -247,6 +305,12 @@ export default function TicketDetail({ params }: TicketDetailProps) {
                       className="mt-1"
                     />
                   </div>
+                  <AttachmentDropzone
+                    files={commentFiles}
+                    onFilesChange={setCommentFiles}
+                    disabled={addCommentMutation.isPending}
+                    compact
+                  />
                   <div className="flex justify-end">
                     <Button 
                       type="submit" 
@@ -229,8 +229,8 @@ server {
     listen 80;
     server_name _;
 
-    # Enable large uploads (for CSV imports, etc.)
-    client_max_body_size 10M;
+    # Enable large uploads (CSV imports, ticket and handover attachments - up to 10 files per request)
+    client_max_body_size 100M;
 
     location / {
         proxy_pass http://127.0.0.1:5000;
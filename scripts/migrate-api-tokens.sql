@@ -0,0 +1,26 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Personal API Tokens
+-- ====================================================================
+-- Description: Adds user-scoped API tokens (hashed, with scopes, expiry
+--              and last-used tracking) used by authenticateUser and the
+--              versioned /api/v1 REST API
+-- Run after: npm run db:push (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: API tokens (only the SHA-256 hash of each token is stored)
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  token_prefix VARCHAR(16) NOT NULL,
+  scopes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  expires_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  last_used_ip VARCHAR(45),
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 2: Indexes
+CREATE INDEX IF NOT EXISTS "IDX_api_tokens_user" ON api_tokens (user_id);
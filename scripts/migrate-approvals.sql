@@ -0,0 +1,94 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Approval chains
+-- ====================================================================
+-- Description: Adds configurable multi-step approval chains for upgrade
+--              requests and purchase orders, the per-request approval
+--              trail, approver delegations and the tokens behind the
+--              approve/reject links in approval emails
+-- Run after: migrate-purchase-orders.sql, npm run db:push
+--            (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Chains and their steps (one chain per request type)
+CREATE TABLE IF NOT EXISTS approval_chains (
+  id SERIAL PRIMARY KEY,
+  request_type VARCHAR(30) NOT NULL UNIQUE,
+  name VARCHAR(150) NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS approval_chain_steps (
+  id SERIAL PRIMARY KEY,
+  chain_id INTEGER NOT NULL REFERENCES approval_chains(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  approver_type VARCHAR(20) NOT NULL,
+  approver_role VARCHAR(20),
+  approver_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  min_amount DECIMAL(12, 2)
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_approval_chain_steps_chain" ON approval_chain_steps (chain_id);
+
+-- Step 2: Requests going through a chain and their approval trail
+CREATE TABLE IF NOT EXISTS approval_requests (
+  id SERIAL PRIMARY KEY,
+  chain_id INTEGER REFERENCES approval_chains(id) ON DELETE SET NULL,
+  request_type VARCHAR(30) NOT NULL,
+  subject_id INTEGER NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  amount DECIMAL(12, 2),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  employee_id INTEGER REFERENCES employees(id) ON DELETE SET NULL,
+  requested_by_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_approval_requests_subject" ON approval_requests (request_type, subject_id);
+CREATE INDEX IF NOT EXISTS "IDX_approval_requests_status" ON approval_requests (status);
+
+CREATE TABLE IF NOT EXISTS approval_request_steps (
+  id SERIAL PRIMARY KEY,
+  approval_request_id INTEGER NOT NULL REFERENCES approval_requests(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  approver_type VARCHAR(20) NOT NULL,
+  approver_role VARCHAR(20),
+  approver_user_id INTEGER REFERENCES users(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'waiting',
+  decided_by_id INTEGER REFERENCES users(id),
+  on_behalf_of_id INTEGER REFERENCES users(id),
+  decided_via VARCHAR(20),
+  decided_at TIMESTAMP,
+  comments TEXT
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_approval_request_steps_request" ON approval_request_steps (approval_request_id);
+
+-- Step 3: Delegations while an approver is away
+CREATE TABLE IF NOT EXISTS approval_delegations (
+  id SERIAL PRIMARY KEY,
+  delegator_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  delegate_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP NOT NULL,
+  ends_at TIMESTAMP NOT NULL,
+  reason VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_approval_delegations_delegate" ON approval_delegations (delegate_id);
+
+-- Step 4: Email approve/reject link tokens (sha256 of the token, never the token itself)
+CREATE TABLE IF NOT EXISTS approval_action_tokens (
+  id SERIAL PRIMARY KEY,
+  step_id INTEGER NOT NULL REFERENCES approval_request_steps(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
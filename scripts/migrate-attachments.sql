@@ -0,0 +1,29 @@
+-- ====================================================================
+-- SimpleIT Migration Script: File Attachments
+-- ====================================================================
+-- Description: Adds the attachments table for files stored on local disk
+--              (ATTACHMENTS_DIR, default uploads/attachments) and linked to
+--              tickets, ticket comments and asset transactions
+-- Run after: npm run db:push (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Attachment metadata
+CREATE TABLE IF NOT EXISTS attachments (
+  id SERIAL PRIMARY KEY,
+  entity_type VARCHAR(30) NOT NULL,
+  entity_id INTEGER NOT NULL,
+  ticket_id INTEGER REFERENCES tickets(id) ON DELETE CASCADE,
+  file_name VARCHAR(255) NOT NULL,
+  original_name VARCHAR(255) NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  size INTEGER NOT NULL,
+  uploaded_by_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 2: Indexes
+CREATE INDEX IF NOT EXISTS "IDX_attachments_entity" ON attachments (entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS "IDX_attachments_ticket" ON attachments (ticket_id);
+
+-- Note: ticket_comments.attachments and asset_transactions.attachments hold
+-- the ids of their attachments rows; any legacy values are left untouched
@@ -0,0 +1,56 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Consumables
+-- ====================================================================
+-- Description: Adds quantity-tracked consumables, their stock per location
+--              and the receive / issue / adjust movements
+-- Run after: migrate-locations.sql, npm run db:push (or run standalone -
+--            all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Consumable catalogue
+CREATE TABLE IF NOT EXISTS consumables (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(150) NOT NULL,
+  sku VARCHAR(50) UNIQUE,
+  category VARCHAR(100),
+  unit VARCHAR(20) NOT NULL DEFAULT 'pcs',
+  min_stock INTEGER NOT NULL DEFAULT 0,
+  unit_cost DECIMAL(12, 2),
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  low_stock_alerted_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 2: Stock on hand per location
+CREATE TABLE IF NOT EXISTS consumable_stock (
+  id SERIAL PRIMARY KEY,
+  consumable_id INTEGER NOT NULL REFERENCES consumables(id) ON DELETE CASCADE,
+  location_id INTEGER REFERENCES locations(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_consumable_stock_consumable" ON consumable_stock (consumable_id);
+CREATE INDEX IF NOT EXISTS "IDX_consumable_stock_location" ON consumable_stock (location_id);
+
+-- Step 3: Stock movements (quantity is the signed change)
+CREATE TABLE IF NOT EXISTS consumable_transactions (
+  id SERIAL PRIMARY KEY,
+  consumable_id INTEGER NOT NULL REFERENCES consumables(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL,
+  quantity INTEGER NOT NULL,
+  location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL,
+  employee_id INTEGER REFERENCES employees(id) ON DELETE SET NULL,
+  department VARCHAR(100),
+  unit_cost DECIMAL(12, 2),
+  reference VARCHAR(100),
+  notes TEXT,
+  performed_by_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_consumable_transactions_consumable" ON consumable_transactions (consumable_id);
+CREATE INDEX IF NOT EXISTS "IDX_consumable_transactions_employee" ON consumable_transactions (employee_id);
+CREATE INDEX IF NOT EXISTS "IDX_consumable_transactions_created" ON consumable_transactions (created_at);
@@ -0,0 +1,36 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Custom fields
+-- ====================================================================
+-- Description: Adds admin-defined custom fields (IMEI, cost center,
+--              badge number...) for assets, employees and tickets, and
+--              the column each entity stores its values in
+-- Run after: migrate-service-catalog.sql, npm run db:push
+--            (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Field definitions per entity (asset fields optionally per asset type)
+CREATE TABLE IF NOT EXISTS custom_field_definitions (
+  id SERIAL PRIMARY KEY,
+  entity_type VARCHAR(20) NOT NULL,
+  key VARCHAR(50) NOT NULL,
+  label VARCHAR(150) NOT NULL,
+  field_type VARCHAR(20) NOT NULL,
+  options JSONB NOT NULL DEFAULT '[]'::jsonb,
+  required BOOLEAN NOT NULL DEFAULT FALSE,
+  asset_types JSONB NOT NULL DEFAULT '[]'::jsonb,
+  pattern VARCHAR(255),
+  min_value DECIMAL(14, 4),
+  max_value DECIMAL(14, 4),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_custom_field_definitions_entity_key" ON custom_field_definitions (entity_type, key);
+
+-- Step 2: Values keyed by the definition key
+ALTER TABLE assets ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,32 @@
+-- ====================================================================
+-- SimpleIT Migration Script: LDAP / Active Directory
+-- ====================================================================
+-- Description: Links local accounts to directory entries and marks
+--              employees maintained by the directory sync
+-- Run after: migrate-sessions.sql, npm run db:push
+--            (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: External identities of local accounts (directory sign-in)
+CREATE TABLE IF NOT EXISTS user_identities (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider VARCHAR(20) NOT NULL,
+  external_id VARCHAR(255) NOT NULL,
+  last_login_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_user_identities_provider_external" ON user_identities (provider, external_id);
+CREATE INDEX IF NOT EXISTS "IDX_user_identities_user" ON user_identities (user_id);
+
+-- Step 2: Employees synced from the directory (objectGUID / entryUUID)
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS directory_id VARCHAR(255);
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS directory_synced_at TIMESTAMP;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'employees_directory_id_unique') THEN
+    ALTER TABLE employees ADD CONSTRAINT employees_directory_id_unique UNIQUE (directory_id);
+  END IF;
+END $$;
@@ -0,0 +1,68 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Software licenses
+-- ====================================================================
+-- Description: Adds vendors, software licenses and subscriptions, and the
+--              seats assigned to employees or assets
+-- Run after: npm run db:push (or run standalone - all steps are idempotent)
+-- Note: license keys are encrypted with ENCRYPTION_KEY (falls back to
+--       SESSION_SECRET); keep that secret with the database backups
+-- ====================================================================
+
+-- Step 1: Vendors
+CREATE TABLE IF NOT EXISTS vendors (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(150) NOT NULL UNIQUE,
+  website VARCHAR(255),
+  contact_name VARCHAR(100),
+  contact_email VARCHAR(100),
+  contact_phone VARCHAR(50),
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 2: Licenses and subscriptions
+CREATE TABLE IF NOT EXISTS software_licenses (
+  id SERIAL PRIMARY KEY,
+  product_name VARCHAR(150) NOT NULL,
+  vendor_id INTEGER REFERENCES vendors(id) ON DELETE SET NULL,
+  edition VARCHAR(100),
+  license_type VARCHAR(20) NOT NULL DEFAULT 'subscription',
+  seat_count INTEGER NOT NULL DEFAULT 1,
+  license_key_encrypted TEXT,
+  billing_cycle VARCHAR(20) NOT NULL DEFAULT 'annual',
+  cost DECIMAL(12, 2),
+  purchase_date DATE,
+  renewal_date DATE,
+  auto_renew BOOLEAN NOT NULL DEFAULT FALSE,
+  status VARCHAR(20) NOT NULL DEFAULT 'active',
+  renewal_reminder_days INTEGER NOT NULL DEFAULT 30,
+  last_reminder_level INTEGER NOT NULL DEFAULT 0,
+  last_reminder_at TIMESTAMP,
+  notes TEXT,
+  created_by_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_software_licenses_renewal" ON software_licenses (renewal_date);
+CREATE INDEX IF NOT EXISTS "IDX_software_licenses_vendor" ON software_licenses (vendor_id);
+
+-- Step 3: Seats held by employees or assets (released seats are kept as history)
+CREATE TABLE IF NOT EXISTS license_seats (
+  id SERIAL PRIMARY KEY,
+  license_id INTEGER NOT NULL REFERENCES software_licenses(id) ON DELETE CASCADE,
+  employee_id INTEGER REFERENCES employees(id) ON DELETE CASCADE,
+  asset_id INTEGER REFERENCES assets(id) ON DELETE CASCADE,
+  assigned_by_id INTEGER REFERENCES users(id),
+  assigned_at TIMESTAMP DEFAULT NOW(),
+  released_at TIMESTAMP,
+  released_by_id INTEGER REFERENCES users(id),
+  release_reason VARCHAR(30),
+  notes TEXT
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_license_seats_license" ON license_seats (license_id);
+CREATE INDEX IF NOT EXISTS "IDX_license_seats_employee" ON license_seats (employee_id);
+CREATE INDEX IF NOT EXISTS "IDX_license_seats_asset" ON license_seats (asset_id);
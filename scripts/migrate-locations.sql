@@ -0,0 +1,33 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Asset Locations
+-- ====================================================================
+-- Description: Adds the site > building > floor > room/cabinet location
+--              hierarchy, the location of each asset and the locations an
+--              asset moved between on every transaction
+-- Run after: npm run db:push (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Location hierarchy
+CREATE TABLE IF NOT EXISTS locations (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  parent_id INTEGER,
+  code VARCHAR(50) UNIQUE,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_locations_parent" ON locations (parent_id);
+
+-- Step 2: Where each asset is kept
+ALTER TABLE assets ADD COLUMN IF NOT EXISTS location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL;
+
+-- Step 3: Origin and destination of each asset transaction
+ALTER TABLE asset_transactions ADD COLUMN IF NOT EXISTS from_location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL;
+ALTER TABLE asset_transactions ADD COLUMN IF NOT EXISTS to_location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL;
+
+-- Step 4: Transfer transaction type
+ALTER TYPE asset_transaction_type ADD VALUE IF NOT EXISTS 'Transfer';
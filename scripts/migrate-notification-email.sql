@@ -0,0 +1,44 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Notification Email Channel
+-- ====================================================================
+-- Description: Adds per-category email delivery settings (immediate,
+--              hourly digest, daily digest), the digest holding table and
+--              the persistent outbound email queue with retry/backoff
+-- Run after: npm run db:push (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Email settings on notification preferences (email is off until a user opts in)
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS email_channels JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS daily_digest_time VARCHAR(5) NOT NULL DEFAULT '08:00';
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS email_language VARCHAR(10) NOT NULL DEFAULT 'English';
+
+-- Step 2: Notifications waiting for the next hourly/daily digest
+CREATE TABLE IF NOT EXISTS notification_digest_items (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  frequency VARCHAR(10) NOT NULL,
+  category VARCHAR(50) NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  message TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 3: Outbound email queue
+CREATE TABLE IF NOT EXISTS email_queue (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  to_address VARCHAR(255) NOT NULL,
+  subject VARCHAR(255) NOT NULL,
+  html TEXT,
+  text TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  sent_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 4: Indexes
+CREATE INDEX IF NOT EXISTS "IDX_digest_items_user_frequency" ON notification_digest_items (user_id, frequency);
+CREATE INDEX IF NOT EXISTS "IDX_email_queue_status_next" ON email_queue (status, next_attempt_at);
@@ -0,0 +1,18 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Event Notification Templates
+-- ====================================================================
+-- Description: Links notification templates to the notify* events they
+--              render and to the language of the recipients they serve
+-- Run after: npm run db:push (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Event and language columns
+ALTER TABLE notification_templates ADD COLUMN IF NOT EXISTS event_key VARCHAR(100);
+ALTER TABLE notification_templates ADD COLUMN IF NOT EXISTS language VARCHAR(10) NOT NULL DEFAULT 'English';
+
+-- Step 2: Lookup of the active template for an event and language
+CREATE INDEX IF NOT EXISTS "IDX_notification_templates_event"
+  ON notification_templates (event_key, language, is_active);
+
+-- Step 3: Notifications record the template they were rendered from
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS template_id INTEGER;
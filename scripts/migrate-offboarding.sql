@@ -0,0 +1,45 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Employee Offboarding
+-- ====================================================================
+-- Description: Adds offboarding cases (opened when an employee gets an
+--              exit date or is marked Resigned/Terminated) and their
+--              checklist tasks: asset returns, account disable, ticket
+--              transfer and manager sign-off
+-- Run after: npm run db:push (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Offboarding cases
+CREATE TABLE IF NOT EXISTS offboarding_cases (
+  id SERIAL PRIMARY KEY,
+  employee_id INTEGER NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'open',
+  exit_date DATE,
+  reason VARCHAR(50),
+  manager_signed_off_by_id INTEGER REFERENCES users(id),
+  manager_signed_off_at TIMESTAMP,
+  last_reminder_level INTEGER NOT NULL DEFAULT 0,
+  last_reminder_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  created_by_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 2: Checklist tasks
+CREATE TABLE IF NOT EXISTS offboarding_tasks (
+  id SERIAL PRIMARY KEY,
+  case_id INTEGER NOT NULL REFERENCES offboarding_cases(id) ON DELETE CASCADE,
+  type VARCHAR(30) NOT NULL,
+  asset_id INTEGER REFERENCES assets(id) ON DELETE SET NULL,
+  title VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  notes TEXT,
+  completed_by_id INTEGER REFERENCES users(id),
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 3: Indexes
+CREATE INDEX IF NOT EXISTS "IDX_offboarding_cases_employee" ON offboarding_cases (employee_id);
+CREATE INDEX IF NOT EXISTS "IDX_offboarding_cases_status" ON offboarding_cases (status, exit_date);
+CREATE INDEX IF NOT EXISTS "IDX_offboarding_tasks_case" ON offboarding_tasks (case_id);
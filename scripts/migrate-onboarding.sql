@@ -0,0 +1,49 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Employee Onboarding Templates
+-- ====================================================================
+-- Description: Adds onboarding templates (assets and provisioning work
+--              per department/title) and onboarding plans, which hold
+--              Reserved assets for a new hire until their joining date
+-- Run after: npm run db:push (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Onboarding templates
+CREATE TABLE IF NOT EXISTS onboarding_templates (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  department VARCHAR(100),
+  title VARCHAR(100),
+  asset_requirements JSONB NOT NULL DEFAULT '[]'::jsonb,
+  provisioning_tasks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  send_registration_invite BOOLEAN NOT NULL DEFAULT TRUE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 2: Onboarding plans
+CREATE TABLE IF NOT EXISTS onboarding_plans (
+  id SERIAL PRIMARY KEY,
+  employee_id INTEGER NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  template_id INTEGER REFERENCES onboarding_templates(id) ON DELETE SET NULL,
+  joining_date DATE NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'scheduled',
+  reserved_asset_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  shortfall JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ticket_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  invitation_sent_at TIMESTAMP,
+  checked_out_at TIMESTAMP,
+  created_by_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 3: Indexes
+CREATE INDEX IF NOT EXISTS "IDX_onboarding_plans_status_date" ON onboarding_plans (status, joining_date);
+CREATE INDEX IF NOT EXISTS "IDX_onboarding_plans_employee" ON onboarding_plans (employee_id);
+
+-- Step 4: "Reserved" asset status used while assets wait for a new hire
+INSERT INTO custom_asset_statuses (name, description, color)
+SELECT 'Reserved', 'Asset is held for an upcoming assignment', '#0ea5e9'
+WHERE NOT EXISTS (SELECT 1 FROM custom_asset_statuses WHERE name = 'Reserved');
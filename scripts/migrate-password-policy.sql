@@ -0,0 +1,43 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Password policy and account lockout
+-- ====================================================================
+-- Description: Adds the admin-configured password policy (complexity,
+--              reuse, maximum age, lockout) to system_config, plus the
+--              per-user credential state and password history
+-- Run after: migrate-sso.sql, npm run db:push
+--            (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Password age, forced change and lockout state per user
+CREATE TABLE IF NOT EXISTS user_credentials (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  password_changed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  must_change_password BOOLEAN NOT NULL DEFAULT FALSE,
+  failed_login_count INTEGER NOT NULL DEFAULT 0,
+  last_failed_login_at TIMESTAMP,
+  locked_at TIMESTAMP,
+  locked_until TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 2: Hashes of previous passwords (reuse rule)
+CREATE TABLE IF NOT EXISTS password_history (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS "IDX_password_history_user" ON password_history (user_id);
+
+-- Step 3: Policy settings (0 turns history, expiry and lockout off; a 0 minute lockout lasts until an admin unlocks)
+ALTER TABLE system_config ADD COLUMN IF NOT EXISTS password_min_length INTEGER NOT NULL DEFAULT 8;
+ALTER TABLE system_config ADD COLUMN IF NOT EXISTS password_require_uppercase BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE system_config ADD COLUMN IF NOT EXISTS password_require_lowercase BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE system_config ADD COLUMN IF NOT EXISTS password_require_number BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE system_config ADD COLUMN IF NOT EXISTS password_require_symbol BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE system_config ADD COLUMN IF NOT EXISTS password_history_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE system_config ADD COLUMN IF NOT EXISTS password_max_age_days INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE system_config ADD COLUMN IF NOT EXISTS lockout_threshold INTEGER NOT NULL DEFAULT 5;
+ALTER TABLE system_config ADD COLUMN IF NOT EXISTS lockout_duration_minutes INTEGER NOT NULL DEFAULT 15;
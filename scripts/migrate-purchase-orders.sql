@@ -0,0 +1,77 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Purchase orders
+-- ====================================================================
+-- Description: Adds purchase orders with line items and goods receipts,
+--              linked to vendors and upgrade requests, and the amount
+--              thresholds that decide who approves an order
+-- Run after: migrate-licenses.sql, migrate-locations.sql, npm run db:push
+--            (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Purchase orders
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id SERIAL PRIMARY KEY,
+  po_number VARCHAR(20) UNIQUE,
+  vendor_id INTEGER NOT NULL REFERENCES vendors(id),
+  upgrade_id INTEGER REFERENCES asset_upgrades(id) ON DELETE SET NULL,
+  status VARCHAR(30) NOT NULL DEFAULT 'draft',
+  total_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  approval_level VARCHAR(20),
+  expected_date DATE,
+  notes TEXT,
+  submitted_at TIMESTAMP,
+  decided_by_id INTEGER REFERENCES users(id),
+  decided_at TIMESTAMP,
+  decision_notes TEXT,
+  ordered_at TIMESTAMP,
+  received_at TIMESTAMP,
+  created_by_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- PO numbers come from the id sequence, like asset and ticket numbers
+ALTER TABLE purchase_orders ALTER COLUMN po_number
+  SET DEFAULT concat('PO-', lpad((nextval('purchase_orders_id_seq'::regclass))::text, 5, '0'::text));
+ALTER TABLE purchase_orders ALTER COLUMN po_number SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "IDX_purchase_orders_status" ON purchase_orders (status);
+CREATE INDEX IF NOT EXISTS "IDX_purchase_orders_vendor" ON purchase_orders (vendor_id);
+CREATE INDEX IF NOT EXISTS "IDX_purchase_orders_upgrade" ON purchase_orders (upgrade_id);
+
+-- Step 2: Line items
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id SERIAL PRIMARY KEY,
+  purchase_order_id INTEGER NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  description VARCHAR(255) NOT NULL,
+  creates_assets BOOLEAN NOT NULL DEFAULT FALSE,
+  asset_type VARCHAR(100),
+  asset_brand VARCHAR(100),
+  asset_model_name VARCHAR(100),
+  quantity INTEGER NOT NULL,
+  unit_price DECIMAL(12, 2) NOT NULL,
+  received_quantity INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_purchase_order_lines_order" ON purchase_order_lines (purchase_order_id);
+
+-- Step 3: Goods received (one row per asset created for asset lines)
+CREATE TABLE IF NOT EXISTS purchase_order_receipts (
+  id SERIAL PRIMARY KEY,
+  purchase_order_id INTEGER NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  line_id INTEGER NOT NULL REFERENCES purchase_order_lines(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL,
+  asset_id INTEGER REFERENCES assets(id) ON DELETE SET NULL,
+  serial_number VARCHAR(100),
+  location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL,
+  notes TEXT,
+  received_by_id INTEGER REFERENCES users(id),
+  received_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_purchase_order_receipts_order" ON purchase_order_receipts (purchase_order_id);
+CREATE INDEX IF NOT EXISTS "IDX_purchase_order_receipts_asset" ON purchase_order_receipts (asset_id);
+
+-- Step 4: Approval thresholds
+ALTER TABLE system_config ADD COLUMN IF NOT EXISTS po_auto_approve_limit DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE system_config ADD COLUMN IF NOT EXISTS po_manager_approval_limit DECIMAL(12, 2) NOT NULL DEFAULT 5000;
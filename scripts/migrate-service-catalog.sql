@@ -0,0 +1,60 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Service catalog
+-- ====================================================================
+-- Description: Adds admin-defined service catalog items with their own
+--              request forms, the requests employees submit from the
+--              portal and the fulfillment tasks copied onto each request
+-- Run after: migrate-approvals.sql, npm run db:push
+--            (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Catalog items and their form definitions
+CREATE TABLE IF NOT EXISTS service_catalog_items (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(150) NOT NULL,
+  description TEXT,
+  icon VARCHAR(10),
+  form_fields JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ticket_type ticket_type NOT NULL DEFAULT 'Service Request',
+  category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
+  urgency ticket_urgency NOT NULL DEFAULT 'Medium',
+  impact ticket_impact NOT NULL DEFAULT 'Medium',
+  requires_approval BOOLEAN NOT NULL DEFAULT FALSE,
+  fulfillment_tasks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 2: Submitted requests with the answers as they were filled in
+CREATE TABLE IF NOT EXISTS service_requests (
+  id SERIAL PRIMARY KEY,
+  item_id INTEGER REFERENCES service_catalog_items(id) ON DELETE SET NULL,
+  item_name VARCHAR(150) NOT NULL,
+  answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending_approval',
+  employee_id INTEGER NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  requested_by_id INTEGER NOT NULL REFERENCES users(id),
+  ticket_id INTEGER REFERENCES tickets(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_service_requests_employee" ON service_requests (employee_id);
+CREATE INDEX IF NOT EXISTS "IDX_service_requests_ticket" ON service_requests (ticket_id);
+CREATE INDEX IF NOT EXISTS "IDX_service_requests_status" ON service_requests (status);
+
+-- Step 3: Fulfillment checklist per request
+CREATE TABLE IF NOT EXISTS service_request_tasks (
+  id SERIAL PRIMARY KEY,
+  service_request_id INTEGER NOT NULL REFERENCES service_requests(id) ON DELETE CASCADE,
+  sort_order INTEGER NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  completed_by_id INTEGER REFERENCES users(id),
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_service_request_tasks_request" ON service_request_tasks (service_request_id);
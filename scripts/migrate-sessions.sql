@@ -0,0 +1,18 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Database-backed sessions
+-- ====================================================================
+-- Description: Session store table used by express-session (connect-pg-simple)
+--              so sessions survive restarts and are shared between instances
+-- Run after: migrate-two-factor.sql, npm run db:push
+--            (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Session rows (the session JSON holds the signed-in user and client details)
+CREATE TABLE IF NOT EXISTS sessions (
+  sid VARCHAR PRIMARY KEY,
+  sess JSONB NOT NULL,
+  expire TIMESTAMP NOT NULL
+);
+
+-- Step 2: Expired sessions are pruned by expiry time
+CREATE INDEX IF NOT EXISTS "IDX_session_expire" ON sessions (expire);
@@ -0,0 +1,80 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Business-Hours SLA Engine
+-- ====================================================================
+-- Description: Adds business calendars, holidays and SLA policies, plus
+--              the per-ticket SLA tracking columns used by the scheduler
+-- Run after: npm run db:push (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Business calendars
+CREATE TABLE IF NOT EXISTS business_calendars (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  working_days INTEGER[] NOT NULL DEFAULT ARRAY[1,2,3,4,5],
+  day_start_time VARCHAR(5) NOT NULL DEFAULT '08:00',
+  day_end_time VARCHAR(5) NOT NULL DEFAULT '17:00',
+  is_default BOOLEAN DEFAULT false,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 2: Business holidays
+CREATE TABLE IF NOT EXISTS business_holidays (
+  id SERIAL PRIMARY KEY,
+  calendar_id INTEGER NOT NULL REFERENCES business_calendars(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_business_holidays_calendar_date" ON business_holidays (calendar_id, date);
+
+-- Step 3: SLA policies
+CREATE TABLE IF NOT EXISTS sla_policies (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  priority ticket_priority,
+  type ticket_type,
+  category_id INTEGER REFERENCES categories(id) ON DELETE CASCADE,
+  calendar_id INTEGER REFERENCES business_calendars(id) ON DELETE SET NULL,
+  response_minutes INTEGER NOT NULL,
+  resolution_minutes INTEGER NOT NULL,
+  at_risk_percent INTEGER NOT NULL DEFAULT 80,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 4: Ticket SLA tracking columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tickets' AND column_name = 'sla_policy_id'
+  ) THEN
+    ALTER TABLE tickets ADD COLUMN sla_policy_id INTEGER REFERENCES sla_policies(id) ON DELETE SET NULL;
+    ALTER TABLE tickets ADD COLUMN response_due_at TIMESTAMP;
+    ALTER TABLE tickets ADD COLUMN first_response_at TIMESTAMP;
+    ALTER TABLE tickets ADD COLUMN sla_paused_at TIMESTAMP;
+    ALTER TABLE tickets ADD COLUMN sla_paused_minutes INTEGER DEFAULT 0;
+    ALTER TABLE tickets ADD COLUMN sla_status VARCHAR(20);
+    RAISE NOTICE 'Added ticket SLA tracking columns';
+  ELSE
+    RAISE NOTICE 'Ticket SLA tracking columns already exist';
+  END IF;
+END $$;
+
+-- Step 5: Seed a default Monday-Friday calendar when none exists
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM business_calendars) THEN
+    INSERT INTO business_calendars (name, working_days, day_start_time, day_end_time, is_default)
+    VALUES ('Standard Business Hours', ARRAY[1,2,3,4,5], '08:00', '17:00', true);
+    RAISE NOTICE 'Created default business calendar';
+  ELSE
+    RAISE NOTICE 'Business calendars already configured';
+  END IF;
+END $$;
+
+-- Note: existing open tickets receive SLA targets on the next scheduler run
@@ -0,0 +1,13 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Single sign-on (OpenID Connect)
+-- ====================================================================
+-- Description: Adds the switch that turns off username/password sign-in
+--              while SSO is enabled. SSO accounts are linked in
+--              user_identities (provider 'oidc'), created by
+--              migrate-directory.sql
+-- Run after: migrate-directory.sql, npm run db:push
+--            (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Username/password sign-in (local and LDAP) allowed
+ALTER TABLE system_config ADD COLUMN IF NOT EXISTS password_login_enabled BOOLEAN NOT NULL DEFAULT TRUE;
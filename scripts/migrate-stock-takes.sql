@@ -0,0 +1,59 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Stock-takes
+-- ====================================================================
+-- Description: Adds stock-take campaigns, the assets counted in each one,
+--              the "Audit" asset transaction type and the "Missing" status
+-- Run after: migrate-locations.sql, npm run db:push (or run standalone -
+--            all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Campaigns and their scope
+CREATE TABLE IF NOT EXISTS stock_takes (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(150) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open',
+  department VARCHAR(100),
+  asset_type VARCHAR(100),
+  assigned_employee_id INTEGER REFERENCES employees(id) ON DELETE SET NULL,
+  location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by_id INTEGER REFERENCES users(id),
+  closed_by_id INTEGER REFERENCES users(id),
+  closed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_stock_takes_status" ON stock_takes (status);
+
+-- Step 2: Assets expected (or found) in each campaign and what the auditors counted
+CREATE TABLE IF NOT EXISTS stock_take_items (
+  id SERIAL PRIMARY KEY,
+  stock_take_id INTEGER NOT NULL REFERENCES stock_takes(id) ON DELETE CASCADE,
+  asset_id INTEGER NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  unexpected BOOLEAN NOT NULL DEFAULT FALSE,
+  expected_status VARCHAR(100),
+  expected_employee_id INTEGER REFERENCES employees(id) ON DELETE SET NULL,
+  expected_location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL,
+  result VARCHAR(20),
+  found_location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL,
+  found_employee_id INTEGER REFERENCES employees(id) ON DELETE SET NULL,
+  notes TEXT,
+  counted_by_id INTEGER REFERENCES users(id),
+  counted_at TIMESTAMP,
+  corrected_by_id INTEGER REFERENCES users(id),
+  corrected_at TIMESTAMP,
+  correction_transaction_id INTEGER REFERENCES asset_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_stock_take_items_asset" ON stock_take_items (stock_take_id, asset_id);
+CREATE INDEX IF NOT EXISTS "IDX_stock_take_items_asset_id" ON stock_take_items (asset_id);
+
+-- Step 3: Audit transaction type
+ALTER TYPE asset_transaction_type ADD VALUE IF NOT EXISTS 'Audit';
+
+-- Step 4: Status applied to assets a stock-take could not find
+INSERT INTO custom_asset_statuses (name, description, color)
+SELECT 'Missing', 'Asset was not found during a stock-take', '#f97316'
+WHERE NOT EXISTS (SELECT 1 FROM custom_asset_statuses WHERE name = 'Missing');
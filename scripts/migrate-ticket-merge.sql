@@ -0,0 +1,22 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Ticket Merge
+-- ====================================================================
+-- Description: Adds tickets.merged_into_id so tickets closed by a merge
+--              keep a link back to the primary ticket
+-- Run after: npm run db:push (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Add merged_into_id column
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tickets' AND column_name = 'merged_into_id'
+  ) THEN
+    ALTER TABLE tickets ADD COLUMN merged_into_id INTEGER;
+    RAISE NOTICE 'Added tickets.merged_into_id';
+  ELSE
+    RAISE NOTICE 'tickets.merged_into_id already exists';
+  END IF;
+END $$;
+
@@ -0,0 +1,80 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Ticket Time Entries
+-- ====================================================================
+-- Description: Creates the persistent ticket time-tracking ledger and
+--              backfills it from the legacy tickets.time_spent values
+-- Run after: npm run db:push (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Create ticket_time_entries table
+CREATE TABLE IF NOT EXISTS ticket_time_entries (
+  id SERIAL PRIMARY KEY,
+  ticket_id INTEGER NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  work_date DATE NOT NULL,
+  minutes INTEGER NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_time_entries_ticket" ON ticket_time_entries (ticket_id);
+CREATE INDEX IF NOT EXISTS "IDX_time_entries_user_date" ON ticket_time_entries (user_id, work_date);
+
+-- Step 2: Backfill one opening entry per ticket that has manually entered time
+-- Attributed to the assigned agent (unassigned tickets are handled in Step 3)
+INSERT INTO ticket_time_entries (ticket_id, user_id, work_date, minutes, description)
+SELECT t.id,
+       t.assigned_to_id,
+       COALESCE(t.completion_time, t.updated_at, t.created_at, NOW())::date,
+       t.time_spent,
+       'Imported from legacy time spent value'
+FROM tickets t
+WHERE t.time_spent > 0
+  AND t.assigned_to_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM ticket_time_entries te WHERE te.ticket_id = t.id
+  );
+
+-- Step 3: Backfill unassigned tickets the same way, so the next logged entry
+-- does not drop their legacy minutes from the rollup
+-- Attributed to the submitter's user account, or else the first administrator
+INSERT INTO ticket_time_entries (ticket_id, user_id, work_date, minutes, description)
+SELECT t.id,
+       COALESCE(e.user_id, admin_user.id),
+       COALESCE(t.completion_time, t.updated_at, t.created_at, NOW())::date,
+       t.time_spent,
+       'Imported from legacy time spent value (ticket was unassigned)'
+FROM tickets t
+LEFT JOIN employees e ON e.id = t.submitted_by_id
+LEFT JOIN (
+  SELECT id FROM users
+  WHERE role IN ('super_admin', 'admin')
+  ORDER BY CASE WHEN role = 'super_admin' THEN 0 ELSE 1 END, id
+  LIMIT 1
+) admin_user ON TRUE
+WHERE t.time_spent > 0
+  AND t.assigned_to_id IS NULL
+  AND COALESCE(e.user_id, admin_user.id) IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM ticket_time_entries te WHERE te.ticket_id = t.id
+  );
+
+-- Step 4: Verify rollup matches tickets.time_spent
+DO $$
+DECLARE
+  mismatch_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO mismatch_count
+  FROM tickets t
+  JOIN (
+    SELECT ticket_id, SUM(minutes) AS total FROM ticket_time_entries GROUP BY ticket_id
+  ) te ON te.ticket_id = t.id
+  WHERE COALESCE(t.time_spent, 0) <> te.total;
+
+  IF mismatch_count > 0 THEN
+    RAISE NOTICE '% tickets have time_spent out of sync with their time entries', mismatch_count;
+  ELSE
+    RAISE NOTICE 'Ticket time entries migrated successfully';
+  END IF;
+END $$;
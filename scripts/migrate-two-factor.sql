@@ -0,0 +1,23 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Two-factor authentication (TOTP)
+-- ====================================================================
+-- Description: Adds per-user TOTP enrollment with hashed recovery codes
+--              and the per-role requirement in system_config
+-- Run after: migrate-custom-fields.sql, npm run db:push
+--            (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Enrollment per user (secret encrypted by the application)
+CREATE TABLE IF NOT EXISTS user_two_factor (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL,
+  enabled_at TIMESTAMP,
+  last_used_step INTEGER,
+  recovery_codes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 2: Roles that must use 2FA to sign in
+ALTER TABLE system_config ADD COLUMN IF NOT EXISTS two_factor_required_roles JSONB NOT NULL DEFAULT '[]'::jsonb;
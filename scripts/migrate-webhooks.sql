@@ -0,0 +1,40 @@
+-- ====================================================================
+-- SimpleIT Migration Script: Outbound Webhooks
+-- ====================================================================
+-- Description: Adds admin-managed webhook subscriptions and the delivery
+--              log that doubles as the retry queue for signed deliveries
+-- Run after: npm run db:push (or run standalone - all steps are idempotent)
+-- ====================================================================
+
+-- Step 1: Webhook subscriptions
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  url TEXT NOT NULL,
+  secret VARCHAR(128) NOT NULL,
+  events JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 2: Delivery log / retry queue
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id SERIAL PRIMARY KEY,
+  subscription_id INTEGER NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  response_status INTEGER,
+  response_body TEXT,
+  last_error TEXT,
+  delivered_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Step 3: Indexes
+CREATE INDEX IF NOT EXISTS "IDX_webhook_deliveries_subscription" ON webhook_deliveries (subscription_id, created_at);
+CREATE INDEX IF NOT EXISTS "IDX_webhook_deliveries_status_next" ON webhook_deliveries (status, next_attempt_at);
@@ -15,10 +15,14 @@ export enum AuditAction {
   UNASSIGN = 'UNASSIGN',
   CONFIG_CHANGE = 'CONFIG_CHANGE',
   STATUS_CHANGE = 'STATUS_CHANGE',
+  MERGE = 'MERGE',
+  TRANSFER = 'TRANSFER',
   ERROR = 'ERROR',
   SECURITY_ALERT = 'SECURITY_ALERT',
   PASSWORD_RESET = 'PASSWORD_RESET',
-  SECURITY_QUESTION = 'SECURITY_QUESTION'
+  SECURITY_QUESTION = 'SECURITY_QUESTION',
+  TWO_FACTOR = 'TWO_FACTOR',
+  SYNC = 'SYNC'
 }
 
 export enum EntityType {
@@ -34,7 +38,24 @@ export enum EntityType {
   SOFTWARE_ASSET = 'SOFTWARE_ASSET',
   SERVICE_PROVIDER = 'SERVICE_PROVIDER',
   SYSTEM = 'SYSTEM',
-  SECURITY = 'SECURITY'
+  SECURITY = 'SECURITY',
+  API_TOKEN = 'API_TOKEN',
+  OFFBOARDING_CASE = 'OFFBOARDING_CASE',
+  ONBOARDING_TEMPLATE = 'ONBOARDING_TEMPLATE',
+  ONBOARDING_PLAN = 'ONBOARDING_PLAN',
+  LOCATION = 'LOCATION',
+  STOCK_TAKE = 'STOCK_TAKE',
+  VENDOR = 'VENDOR',
+  LICENSE = 'LICENSE',
+  CONSUMABLE = 'CONSUMABLE',
+  PURCHASE_ORDER = 'PURCHASE_ORDER',
+  APPROVAL_CHAIN = 'APPROVAL_CHAIN',
+  APPROVAL_REQUEST = 'APPROVAL_REQUEST',
+  APPROVAL_DELEGATION = 'APPROVAL_DELEGATION',
+  SERVICE_CATALOG_ITEM = 'SERVICE_CATALOG_ITEM',
+  SERVICE_REQUEST = 'SERVICE_REQUEST',
+  CUSTOM_FIELD = 'CUSTOM_FIELD',
+  DIRECTORY = 'DIRECTORY'
 }
 
 interface AuditLogData {
@@ -7,6 +7,32 @@ interface EmailOptions {
   subject: string;
   text?: string;
   html?: string;
+  headers?: Record<string, string>;
+  inReplyTo?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface DigestEntry {
+  title: string;
+  message: string;
+  createdAt: Date | null;
+}
+
+/**
+ * Notification text is user-supplied (ticket titles, comments); never inject it as markup
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
 }
 
 /**
@@ -105,7 +131,10 @@ export class EmailService {
         to: options.to,
         subject: options.subject,
         text: options.text,
-        html: options.html
+        html: options.html,
+        headers: options.headers,
+        inReplyTo: options.inReplyTo,
+        references: options.inReplyTo
       });
 
       console.log(`[EmailService] Email sent successfully to ${options.to}`);
@@ -254,6 +283,229 @@ export class EmailService {
     }
   }
 
+  /**
+   * Reply to an inbound email whose sender does not match any employee
+   * Marked Auto-Submitted so other mail systems do not answer it and start a loop
+   */
+  async sendUnknownSenderReply(options: {
+    to: string;
+    originalSubject: string;
+    messageId?: string;
+    language?: string;
+  }): Promise<boolean> {
+    try {
+      const { to, originalSubject, messageId, language = 'English' } = options;
+      const portalUrl = `${process.env.APP_URL || 'http://localhost:5000'}/portal`;
+
+      const translations = {
+        subject: language === 'English' ? `Re: ${originalSubject} - not received by IT` : `رد: ${originalSubject} - لم يتم الاستلام`,
+        heading: language === 'English' ? 'We could not create a ticket' : 'تعذر إنشاء تذكرة',
+        message: language === 'English'
+          ? `Your email to the IT helpdesk was not processed because ${to} is not registered as an employee email address.`
+          : `لم تتم معالجة بريدك الإلكتروني إلى الدعم الفني لأن ${to} غير مسجل كبريد إلكتروني لموظف.`,
+        action: language === 'English'
+          ? 'Please send your request from your corporate email address, or submit it through the employee portal:'
+          : 'يرجى إرسال طلبك من بريدك الإلكتروني الرسمي، أو تقديمه عبر بوابة الموظفين:',
+        signature: language === 'English' ? 'Thank you,<br>SimpleIT Team' : 'شكراً لك،<br>فريق SimpleIT'
+      };
+
+      const html = `
+        <div dir="${language === 'English' ? 'ltr' : 'rtl'}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #3b82f6;">${translations.heading}</h2>
+          <div style="padding: 20px; border: 1px solid #e5e7eb; border-radius: 8px; margin: 20px 0;">
+            <p>${translations.message}</p>
+            <p>${translations.action}</p>
+            <p><a href="${portalUrl}">${portalUrl}</a></p>
+          </div>
+          <p>${translations.signature}</p>
+        </div>
+      `;
+
+      const text = `
+        ${translations.heading}
+
+        ${translations.message}
+
+        ${translations.action}
+        ${portalUrl}
+
+        ${translations.signature.replace('<br>', '\n')}
+      `;
+
+      return await this.sendEmail({
+        to,
+        subject: translations.subject,
+        html,
+        text,
+        inReplyTo: messageId,
+        headers: { 'Auto-Submitted': 'auto-replied' }
+      });
+    } catch (error) {
+      console.error('Failed to send unknown sender reply:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Build the email for a single notification (immediate delivery)
+   */
+  renderNotificationEmail(options: { title: string; message: string; language?: string }): RenderedEmail {
+    const { title, message, language = 'English' } = options;
+    const appUrl = process.env.APP_URL || 'http://localhost:5000';
+
+    const translations = {
+      open: language === 'English' ? 'Open SimpleIT' : 'فتح SimpleIT',
+      footer: language === 'English'
+        ? 'You receive this email because of your notification settings. You can change them under Profile > Notifications.'
+        : 'تتلقى هذا البريد بسبب إعدادات الإشعارات الخاصة بك. يمكنك تغييرها من الملف الشخصي > الإشعارات.',
+      signature: language === 'English' ? 'Thank you,<br>SimpleIT Team' : 'شكراً لك،<br>فريق SimpleIT'
+    };
+
+    const html = `
+      <div dir="${language === 'English' ? 'ltr' : 'rtl'}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #3b82f6;">${escapeHtml(title)}</h2>
+        <div style="padding: 20px; border: 1px solid #e5e7eb; border-radius: 8px; margin: 20px 0;">
+          <p style="white-space: pre-line;">${escapeHtml(message)}</p>
+          <p><a href="${appUrl}">${translations.open}</a></p>
+        </div>
+        <p>${translations.signature}</p>
+        <p style="color: #6b7280; font-size: 12px;">${translations.footer}</p>
+      </div>
+    `;
+
+    const text = `
+      ${title}
+
+      ${message}
+
+      ${appUrl}
+
+      ${translations.signature.replace('<br>', '\n')}
+
+      ${translations.footer}
+    `;
+
+    return { subject: `[SimpleIT] ${title}`, html, text };
+  }
+
+  /**
+   * Build the email asking an approver to decide an approval step
+   * The links open a confirmation page rather than acting directly, so link scanners can't decide
+   */
+  renderApprovalEmail(options: { title: string; message: string; link: string; language?: string }): RenderedEmail {
+    const { title, message, link, language = 'English' } = options;
+
+    const translations = {
+      approve: language === 'English' ? 'Approve' : 'موافقة',
+      reject: language === 'English' ? 'Reject' : 'رفض',
+      expiry: language === 'English'
+        ? 'These links work once and expire after 7 days. You can also decide from SimpleIT under Approvals.'
+        : 'تعمل هذه الروابط مرة واحدة وتنتهي صلاحيتها بعد 7 أيام. يمكنك أيضاً اتخاذ القرار من SimpleIT ضمن الموافقات.',
+      signature: language === 'English' ? 'Thank you,<br>SimpleIT Team' : 'شكراً لك،<br>فريق SimpleIT'
+    };
+
+    const html = `
+      <div dir="${language === 'English' ? 'ltr' : 'rtl'}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #3b82f6;">${escapeHtml(title)}</h2>
+        <div style="padding: 20px; border: 1px solid #e5e7eb; border-radius: 8px; margin: 20px 0;">
+          <p style="white-space: pre-line;">${escapeHtml(message)}</p>
+          <p>
+            <a href="${escapeHtml(`${link}&action=approve`)}" style="background-color: #16a34a; color: white; padding: 10px 20px; text-decoration: none; border-radius: 4px;">${translations.approve}</a>
+            &nbsp;
+            <a href="${escapeHtml(`${link}&action=reject`)}" style="background-color: #dc2626; color: white; padding: 10px 20px; text-decoration: none; border-radius: 4px;">${translations.reject}</a>
+          </p>
+        </div>
+        <p style="color: #6b7280; font-size: 12px;">${translations.expiry}</p>
+        <p>${translations.signature}</p>
+      </div>
+    `;
+
+    const text = `
+      ${title}
+
+      ${message}
+
+      ${translations.approve}: ${link}&action=approve
+      ${translations.reject}: ${link}&action=reject
+
+      ${translations.expiry}
+
+      ${translations.signature.replace('<br>', '\n')}
+    `;
+
+    return { subject: `[SimpleIT] ${title}`, html, text };
+  }
+
+  /**
+   * Build an hourly or daily digest of queued notifications
+   */
+  renderDigestEmail(options: { entries: DigestEntry[]; frequency: 'hourly' | 'daily'; language?: string }): RenderedEmail {
+    const { entries, frequency, language = 'English' } = options;
+    const appUrl = process.env.APP_URL || 'http://localhost:5000';
+    const isEnglish = language === 'English';
+    const locale = isEnglish ? 'en-US' : 'ar-SA';
+
+    const translations = {
+      subject: isEnglish
+        ? `[SimpleIT] Your ${frequency} notification digest (${entries.length})`
+        : `[SimpleIT] ملخص الإشعارات ${frequency === 'hourly' ? 'كل ساعة' : 'اليومي'} (${entries.length})`,
+      heading: isEnglish
+        ? (frequency === 'hourly' ? 'Your hourly notification digest' : 'Your daily notification digest')
+        : (frequency === 'hourly' ? 'ملخص الإشعارات كل ساعة' : 'ملخص الإشعارات اليومي'),
+      intro: isEnglish
+        ? `You have ${entries.length} new notification${entries.length === 1 ? '' : 's'}:`
+        : `لديك ${entries.length} إشعار جديد:`,
+      open: isEnglish ? 'Open SimpleIT' : 'فتح SimpleIT',
+      footer: isEnglish
+        ? 'You receive this digest because of your notification settings. You can change them under Profile > Notifications.'
+        : 'تتلقى هذا الملخص بسبب إعدادات الإشعارات الخاصة بك. يمكنك تغييرها من الملف الشخصي > الإشعارات.',
+      signature: isEnglish ? 'Thank you,<br>SimpleIT Team' : 'شكراً لك،<br>فريق SimpleIT'
+    };
+
+    const formatTime = (date: Date | null) => date
+      ? date.toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' })
+      : '';
+
+    const rows = entries.map(entry => `
+          <tr>
+            <td style="padding: 10px 0; border-bottom: 1px solid #e5e7eb;">
+              <strong>${escapeHtml(entry.title)}</strong>
+              <div style="white-space: pre-line;">${escapeHtml(entry.message)}</div>
+              <div style="color: #6b7280; font-size: 12px;">${formatTime(entry.createdAt)}</div>
+            </td>
+          </tr>`).join('');
+
+    const html = `
+      <div dir="${isEnglish ? 'ltr' : 'rtl'}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #3b82f6;">${translations.heading}</h2>
+        <div style="padding: 20px; border: 1px solid #e5e7eb; border-radius: 8px; margin: 20px 0;">
+          <p>${translations.intro}</p>
+          <table style="width: 100%; border-collapse: collapse;">${rows}
+          </table>
+          <p><a href="${appUrl}">${translations.open}</a></p>
+        </div>
+        <p>${translations.signature}</p>
+        <p style="color: #6b7280; font-size: 12px;">${translations.footer}</p>
+      </div>
+    `;
+
+    const text = [
+      translations.heading,
+      '',
+      translations.intro,
+      '',
+      ...entries.map(entry => `- ${entry.title} (${formatTime(entry.createdAt)})\n  ${entry.message}`),
+      '',
+      appUrl,
+      '',
+      translations.signature.replace('<br>', '\n'),
+      '',
+      translations.footer
+    ].join('\n');
+
+    return { subject: translations.subject, html, text };
+  }
+
   /**
    * Send a notification email
    */
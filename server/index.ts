@@ -4,6 +4,15 @@ import { setupVite, serveStatic, log } from "./vite";
 import { BackupService } from './services/backupService';
 import { BackupScheduler } from './services/backupScheduler';
 import { startNotificationCleanupScheduler } from './services/notificationCleanupScheduler';
+import { startSLAScheduler } from './services/slaService';
+import { startInboundEmailScheduler } from './services/inboundEmailService';
+import { startEmailQueueScheduler } from './services/emailQueueService';
+import { startNotificationDigestScheduler } from './services/notificationEmailService';
+import { startWebhookScheduler } from './services/webhookService';
+import { startOffboardingScheduler } from './services/offboardingService';
+import { startOnboardingScheduler } from './services/onboardingService';
+import { startLicenseRenewalScheduler } from './services/licenseService';
+import { startDirectorySyncScheduler } from './services/ldapService';
 import { logger } from "./services/logger";
 import { websocketService } from "./services/websocketService";
 import { performanceMiddleware } from './routes/performanceMonitor';
@@ -101,6 +110,32 @@ app.use((req, res, next) => {
   startNotificationCleanupScheduler();
   console.log('Notification cleanup scheduler started');
 
+  // Start SLA breach scheduler
+  startSLAScheduler();
+  console.log('SLA scheduler started');
+
+  // Start inbound email processor (opt-in via INBOUND_EMAIL_ENABLED)
+  startInboundEmailScheduler();
+
+  // Start outbound email queue and notification digests
+  startEmailQueueScheduler();
+  startNotificationDigestScheduler();
+
+  // Start webhook delivery retries
+  startWebhookScheduler();
+
+  // Start offboarding reminders (also opens cases for upcoming exit dates)
+  startOffboardingScheduler();
+
+  // Start day-one check-out of assets reserved for new hires
+  startOnboardingScheduler();
+
+  // Start renewal reminders and auto-renewal of software licenses
+  startLicenseRenewalScheduler();
+
+  // Start employee sync from LDAP / Active Directory (opt-in via LDAP_SYNC_ENABLED)
+  startDirectorySyncScheduler();
+
   // Global error handler with logging
   app.use((err: any, req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -1,4 +1,4 @@
-import { IStorage, UpsertUser } from "./storage";
+import { IStorage, UpsertUser, TicketMergeError } from "./storage";
 import * as schema from "@shared/schema";
 import { hash } from "bcrypt";
 
@@ -23,6 +23,7 @@ export class MemoryStorage implements IStorage {
   private customAssetStatuses: any[] = [];
   private categories: schema.Category[] = [];
   private ticketComments: any[] = [];
+  private ticketTimeEntries: schema.TicketTimeEntry[] = [];
   
   private idCounters = {
     users: 1,
@@ -40,7 +41,8 @@ export class MemoryStorage implements IStorage {
     customAssetBrands: 1,
     customAssetStatuses: 1,
     categories: 1,
-    ticketComments: 1
+    ticketComments: 1,
+    ticketTimeEntries: 1
   };
 
   constructor() {
@@ -207,6 +209,14 @@ export class MemoryStorage implements IStorage {
         color: "#8b5cf6", // Purple
         createdAt: new Date(),
         updatedAt: new Date()
+      },
+      {
+        id: this.idCounters.customAssetStatuses++,
+        name: "Missing",
+        description: "Asset was not found during a stock-take",
+        color: "#f97316", // Orange
+        createdAt: new Date(),
+        updatedAt: new Date()
       }
     ];
   }
@@ -357,48 +367,43 @@ export class MemoryStorage implements IStorage {
     return this.users;
   }
 
+  async deleteAllUserSessions(userId: number, exceptSessionId?: string): Promise<number> {
+    // Sessions live in the session store, not in memory storage
+    return 0;
+  }
+
   async upsertUser(userData: UpsertUser): Promise<schema.User> {
-    const existingUser = this.users.find(u => u.id === parseInt(userData.id));
-    
-    if (existingUser) {
-      const updatedUser = {
-        ...existingUser,
-        email: userData.email || existingUser.email,
-        firstName: userData.firstName || existingUser.firstName,
-        lastName: userData.lastName || existingUser.lastName,
-        profileImageUrl: userData.profileImageUrl || existingUser.profileImageUrl,
-        role: userData.role || existingUser.role,
-        updatedAt: new Date()
-      };
-      
-      const index = this.users.findIndex(u => u.id === parseInt(userData.id));
-      this.users[index] = updatedUser;
-      return updatedUser;
-    } else {
-      // Check for duplicate usernames or emails before creating
-      const duplicateUsername = this.users.find(u => u.username === (userData.email || `user_${userData.id}`));
-      const duplicateEmail = userData.email ? this.users.find(u => u.email === userData.email) : null;
-      
-      if (duplicateUsername || duplicateEmail) {
-        throw new Error('User with this username or email already exists');
-      }
-      
-      const newUser: schema.User = {
-        id: parseInt(userData.id),
-        username: userData.email || `user_${userData.id}`,
-        password: "", // Will be set later
-        email: userData.email,
-        firstName: userData.firstName,
-        lastName: userData.lastName,
-        profileImageUrl: userData.profileImageUrl,
-        role: userData.role || "employee",
-        isActive: true,
-        createdAt: new Date(),
+    const index = userData.id ? this.users.findIndex(u => u.id === userData.id) : -1;
+
+    if (index !== -1) {
+      this.users[index] = {
+        ...this.users[index],
+        firstName: userData.firstName || this.users[index].firstName,
+        lastName: userData.lastName || this.users[index].lastName,
+        role: userData.role || this.users[index].role,
         updatedAt: new Date()
       };
-      this.users.push(newUser);
-      return newUser;
+      return this.users[index];
     }
+
+    if (this.users.some(u => u.username === userData.username || u.email === userData.email)) {
+      throw new Error('User with this username or email already exists');
+    }
+
+    const newUser: schema.User = {
+      id: this.idCounters.users++,
+      username: userData.username,
+      email: userData.email,
+      firstName: userData.firstName ?? null,
+      lastName: userData.lastName ?? null,
+      password: '', // Signs in through the identity provider only
+      role: userData.role || 'employee',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.users.push(newUser);
+    return newUser;
   }
 
   // Employee operations
@@ -412,6 +417,10 @@ export class MemoryStorage implements IStorage {
     );
   }
 
+  async getEmployeeByUserId(userId: number): Promise<schema.Employee | undefined> {
+    return this.employees.find(e => e.userId === userId);
+  }
+
   async createEmployee(employee: any): Promise<schema.Employee> {
     // Check for duplicate employee IDs or emails
     const duplicateEmployeeId = this.employees.find(e => e.employeeId === employee.employeeId);
@@ -817,10 +826,12 @@ export class MemoryStorage implements IStorage {
     if (index === -1) return undefined;
     
     const oldTicket = { ...this.tickets[index] };
+    // Time spent is rolled up from the time entry ledger only
+    const { timeSpent: _timeSpent, ...updates } = ticketData;
     
     this.tickets[index] = {
       ...this.tickets[index],
-      ...ticketData,
+      ...updates,
       updatedAt: new Date()
     };
     
@@ -1147,6 +1158,11 @@ export class MemoryStorage implements IStorage {
     return true;
   }
 
+  // Enhanced ticket creation with history
+  async createTicketWithHistory(ticket: schema.InsertTicket): Promise<schema.Ticket> {
+    return this.createTicket(ticket);
+  }
+
   // Enhanced Ticket Update with history tracking (Feature 5: Update ticket details)
   async updateTicketWithHistory(id: number, ticketData: Partial<schema.InsertTicket>, userId: number): Promise<schema.Ticket | undefined> {
     const ticket = this.tickets.find(t => t.id === id);
@@ -1177,7 +1193,9 @@ export class MemoryStorage implements IStorage {
     }
     
     // Update ticket
-    Object.assign(ticket, ticketData);
+    // Time spent is rolled up from the time entry ledger only
+    const { timeSpent: _timeSpent, ...updates } = ticketData;
+    Object.assign(ticket, updates);
     ticket.updatedAt = new Date();
     
     // Log activity
@@ -1262,8 +1280,138 @@ export class MemoryStorage implements IStorage {
       updatedAt: new Date()
     };
     this.ticketComments.push(comment);
-    
+
     return comment;
   }
 
+  async mergeTickets(primaryTicketId: number, secondaryTicketIds: number[], userId: number): Promise<any> {
+    const secondaryIds = Array.from(new Set(secondaryTicketIds)).filter(id => id !== primaryTicketId);
+    const primaryTicket = this.tickets.find(t => t.id === primaryTicketId);
+    if (!primaryTicket) {
+      throw new TicketMergeError('Primary ticket not found');
+    }
+
+    const secondaryTickets = this.tickets.filter(t => secondaryIds.includes(t.id));
+    if (secondaryIds.length === 0 || secondaryTickets.length !== secondaryIds.length) {
+      throw new TicketMergeError('One or more tickets to merge were not found');
+    }
+
+    const mergedTickets = secondaryTickets.map(ticket => ({ ...ticket }));
+    const moved = { comments: 0, history: 0, timeEntries: 0 };
+
+    [primaryTicketId, ...secondaryIds].forEach(id => this.openLegacyTimeEntry(id, userId));
+
+    this.ticketComments
+      .filter(comment => secondaryIds.includes(comment.ticketId))
+      .forEach(comment => { comment.ticketId = primaryTicketId; moved.comments++; });
+    this.ticketTimeEntries
+      .filter(entry => secondaryIds.includes(entry.ticketId))
+      .forEach(entry => { entry.ticketId = primaryTicketId; moved.timeEntries++; });
+
+    for (const ticket of secondaryTickets) {
+      ticket.status = 'Closed';
+      ticket.mergedIntoId = primaryTicketId;
+      ticket.resolution = `Merged into ${primaryTicket.ticketId}`;
+      ticket.completionTime = new Date();
+      ticket.timeSpent = 0;
+      ticket.updatedAt = new Date();
+    }
+    this.recalculateTicketTimeSpent(primaryTicketId);
+
+    return { primaryTicket, mergedTickets, moved };
+  }
+
+  // Keep a time spent value entered before any ledger entry as an opening entry
+  private openLegacyTimeEntry(ticketId: number, userId: number): void {
+    const ticket = this.tickets.find(t => t.id === ticketId);
+    if (ticket?.timeSpent && !this.ticketTimeEntries.some(e => e.ticketId === ticketId)) {
+      this.ticketTimeEntries.push({
+        id: this.idCounters.ticketTimeEntries++,
+        ticketId,
+        userId: ticket.assignedToId ?? userId,
+        minutes: ticket.timeSpent,
+        description: 'Imported from legacy time spent value',
+        workDate: (ticket.createdAt ?? new Date()).toISOString().split('T')[0],
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+    }
+  }
+
+  // Ticket time tracking operations
+  async getTimeEntries(ticketId: number): Promise<any[]> {
+    return this.ticketTimeEntries
+      .filter(entry => entry.ticketId === ticketId)
+      .sort((a, b) => b.workDate.localeCompare(a.workDate))
+      .map(entry => {
+        const user = this.users.find(u => u.id === entry.userId);
+        return { ...entry, user: { id: entry.userId, username: user?.username } };
+      });
+  }
+
+  async getTimeEntry(id: number): Promise<schema.TicketTimeEntry | undefined> {
+    return this.ticketTimeEntries.find(entry => entry.id === id);
+  }
+
+  async addTimeEntry(ticketId: number, hours: number, description: string, userId: number, workDate?: string): Promise<schema.TicketTimeEntry> {
+    this.openLegacyTimeEntry(ticketId, userId);
+    const timeEntry: schema.TicketTimeEntry = {
+      id: this.idCounters.ticketTimeEntries++,
+      ticketId,
+      userId,
+      minutes: Math.round(hours * 60),
+      description: description || null,
+      workDate: workDate || new Date().toISOString().split('T')[0],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.ticketTimeEntries.push(timeEntry);
+    this.recalculateTicketTimeSpent(ticketId);
+
+    return timeEntry;
+  }
+
+  async updateTimeEntry(id: number, entry: Partial<schema.InsertTicketTimeEntry>): Promise<schema.TicketTimeEntry | undefined> {
+    const existing = this.ticketTimeEntries.find(e => e.id === id);
+    if (!existing) return undefined;
+
+    Object.assign(existing, entry, { updatedAt: new Date() });
+    this.recalculateTicketTimeSpent(existing.ticketId);
+    return existing;
+  }
+
+  async deleteTimeEntry(id: number): Promise<boolean> {
+    const index = this.ticketTimeEntries.findIndex(e => e.id === id);
+    if (index === -1) return false;
+
+    const [removed] = this.ticketTimeEntries.splice(index, 1);
+    this.recalculateTicketTimeSpent(removed.ticketId);
+    return true;
+  }
+
+  async getTimesheetEntries(userId: number, startDate: string, endDate: string): Promise<any[]> {
+    return this.ticketTimeEntries
+      .filter(entry => entry.userId === userId && entry.workDate >= startDate && entry.workDate <= endDate)
+      .sort((a, b) => a.workDate.localeCompare(b.workDate))
+      .map(entry => {
+        const ticket = this.tickets.find(t => t.id === entry.ticketId);
+        return {
+          ...entry,
+          ticketCode: ticket?.ticketId,
+          ticketTitle: ticket?.title,
+          ticketStatus: ticket?.status
+        };
+      });
+  }
+
+  private recalculateTicketTimeSpent(ticketId: number): void {
+    const ticket = this.tickets.find(t => t.id === ticketId);
+    if (ticket) {
+      ticket.timeSpent = this.ticketTimeEntries
+        .filter(entry => entry.ticketId === ticketId)
+        .reduce((total, entry) => total + entry.minutes, 0);
+      ticket.updatedAt = new Date();
+    }
+  }
+
 }
\ No newline at end of file
@@ -4,6 +4,8 @@ import { compare } from 'bcrypt';
 import { getStorage } from './storage-factory';
 import { logger } from './services/logger';
 import { autoLinkEmployeeToUser } from './services/employeeLinkService';
+import { LDAP_CONFIG, authenticateWithDirectory } from './services/ldapService';
+import { getLockout, getLockoutMessage, recordFailedLogin } from './services/passwordPolicyService';
 
 const storage = getStorage();
 
@@ -45,6 +47,18 @@ passport.use(new LocalStrategy(
         return done(null, false, { message: 'Account is disabled' });
       }
       
+      // Locked accounts are refused before the password is checked
+      const lockout = await getLockout(user.id);
+      if (lockout.locked) {
+        logger.warn('auth', `Login attempt for locked account: ${user.username}`, {
+          userId: user.id,
+          metadata: { username: user.username, reason: 'account_locked' }
+        });
+        // "locked" lets the login page show the message instead of the generic credentials error
+        const lockedInfo = { message: getLockoutMessage(lockout.lockedUntil), locked: true };
+        return done(null, false, lockedInfo);
+      }
+      
       // Verify password
       if (!password || !user.password) {
         console.log(`[AUTH] Missing password data for user: ${user.username}`);
@@ -68,6 +82,11 @@ passport.use(new LocalStrategy(
           userId: user.id,
           metadata: { username: user.username, reason: 'invalid_password' }
         });
+        const failure = await recordFailedLogin(user.id);
+        if (failure.locked) {
+          const lockedInfo = { message: getLockoutMessage(failure.lockedUntil), locked: true };
+          return done(null, false, lockedInfo);
+        }
         return done(null, false, { message: 'Incorrect username/email or password' });
       }
       
@@ -113,6 +132,62 @@ passport.use(new LocalStrategy(
   }
 ));
 
+// Configure LDAP Strategy (LDAP_ENABLED) for directory sign-in
+// POST /api/login tries it before the local strategy, so local accounts (e.g. a break-glass admin) keep working
+if (LDAP_CONFIG.enabled) {
+  passport.use('ldap', new LocalStrategy(
+    {
+      usernameField: 'username',
+      passwordField: 'password'
+    },
+    async (username: string, password: string, done) => {
+      try {
+        const result = await authenticateWithDirectory(username, password);
+
+        if (result.status === 'not_found') {
+          // Not a directory user: no message, so the local strategy's answer is shown
+          return done(null, false);
+        }
+        if (result.status === 'invalid_credentials') {
+          logger.warn('auth', `Failed directory login - invalid password: ${username}`, {
+            metadata: { username, reason: 'invalid_password', source: 'ldap' }
+          });
+          return done(null, false, { message: 'Incorrect username/email or password' });
+        }
+        if (result.status === 'rejected') {
+          logger.warn('auth', `Directory login rejected: ${username}`, {
+            metadata: { username, reason: result.reason, source: 'ldap' }
+          });
+          return done(null, false, { message: result.reason });
+        }
+
+        const user = result.user;
+        logger.info('auth', `Successful directory login: ${user.username}`, {
+          userId: user.id,
+          metadata: { username: user.username, role: result.role, source: 'ldap' }
+        });
+
+        try {
+          const linkResult = await autoLinkEmployeeToUser(user);
+          console.log(`[AUTO-LINK] ${linkResult.message}`);
+        } catch (linkError) {
+          console.error('[AUTO-LINK] Error during auto-linking:', linkError);
+        }
+
+        const { password: _, ...userWithoutPassword } = user;
+        return done(null, userWithoutPassword);
+      } catch (error) {
+        // Directory unreachable: fall through to local accounts instead of failing every login
+        logger.error('auth', `Directory authentication error: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+          metadata: { username, source: 'ldap' },
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+        return done(null, false);
+      }
+    }
+  ));
+}
+
 // Serialize user for session storage
 passport.serializeUser((user: any, done) => {
   console.log(`[AUTH] Serializing user: ${user.id}`);
@@ -1,7 +1,7 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { getStorage } from "./storage-factory";
-import { db } from "./db";
+import { db, pool } from "./db";
 import * as schema from "../shared/schema";
 import { 
   users, employees, assets, tickets, assetUpgrades, assetTransactions,
@@ -18,7 +18,62 @@ import backupRouter from './routes/backup';
 import systemHealthRouter from './routes/systemHealth';
 import systemLogsRouter from './routes/systemLogs';
 import performanceMonitorRouter from './routes/performanceMonitor';
+import ticketTimeRouter from './routes/ticketTime';
+import timesheetsRouter from './routes/timesheets';
+import ticketMergeRouter from './routes/ticketMerge';
+import ticketSlaRouter from './routes/ticketSla';
+import slaRouter from './routes/sla';
+import attachmentsRouter from './routes/attachments';
+import webhooksRouter from './routes/webhooks';
+import apiTokensRouter from './routes/apiTokens';
+import apiV1Router, { buildOpenApiDocument } from './routes/apiV1';
+import offboardingRouter from './routes/offboarding';
+import onboardingRouter from './routes/onboarding';
+import locationsRouter from './routes/locations';
+import assetLabelsRouter from './routes/assetLabels';
+import stockTakesRouter from './routes/stockTakes';
+import vendorsRouter from './routes/vendors';
+import licensesRouter from './routes/licenses';
+import consumablesRouter from './routes/consumables';
+import purchaseOrdersRouter from './routes/purchaseOrders';
+import approvalsRouter, { approvalLinkRouter } from './routes/approvals';
+import serviceCatalogRouter from './routes/serviceCatalog';
+import customFieldsRouter from './routes/customFields';
+import twoFactorRouter from './routes/twoFactor';
+import sessionsRouter from './routes/sessions';
+import directoryRouter from './routes/directory';
+import ssoRouter from './routes/sso';
+import passwordPolicyRouter from './routes/passwordPolicy';
+import { authenticateApiToken, getBearerToken } from './services/apiTokenService';
 import * as notificationService from './services/notificationService';
+import {
+  emitWebhookEvent, emitTicketChangeEvents, toTicketWebhookData, toAssetWebhookData, toEmployeeWebhookData
+} from './services/webhookService';
+import { handleEmployeeOffboardingTrigger } from './services/offboardingService';
+import { handleNewEmployeeOnboarding } from './services/onboardingService';
+import {
+  getAllLocations, getLocationPaths, getDescendantIds, getDestinationLocationError, resolveLocationReference,
+  transferAssets
+} from './services/locationService';
+import { importLicenseRecord } from './services/licenseService';
+import { getConsumptionReport } from './services/consumableService';
+import { hasActiveChain, getPendingApproval, cancelApproval, getLinkedEmployeeId } from './services/approvalService';
+import { startUpgradeApproval } from './services/upgradeApprovalService';
+import { validateCustomFieldValues, extractCustomFieldColumns, CustomFieldError } from './services/customFieldService';
+import {
+  getLoginRequirement, verifyTwoFactorCode, startEnrollment, confirmEnrollment, TwoFactorError,
+  PENDING_LOGIN_TTL_MS, MAX_PENDING_LOGIN_ATTEMPTS
+} from './services/twoFactorService';
+import { trackSessionActivity, recordSessionClient } from './services/sessionService';
+import { LDAP_CONFIG } from './services/ldapService';
+import {
+  OIDC_CONFIG, SsoError, startOidcLogin, completeOidcLogin, isPasswordLoginEnabled, getLoginOptions
+} from './services/oidcService';
+import {
+  PasswordPolicyError, validateNewPassword, changeUserPassword, recordPasswordChange, setMustChangePassword, getPasswordRules,
+  getPasswordChangeRequirement, getLockout, getLockoutMessage, recordFailedLogin, recordSuccessfulLogin,
+  PENDING_PASSWORD_CHANGE_TTL_MS, type PasswordChangeReason
+} from './services/passwordPolicyService';
 import { logger } from './services/logger';
 
 
@@ -55,7 +110,6 @@ import { Strategy as LocalStrategy } from "passport-local";
 import { compare, hash } from "bcrypt";
 import ConnectPgSimple from "connect-pg-simple";
 import multer from "multer";
-import MemoryStore from "memorystore";
 import path from "path";
 import fs from "fs/promises";
 import { errorHandler, asyncHandler } from "./middleware/error-handler";
@@ -66,6 +120,7 @@ import { createHash, randomBytes } from "crypto";
 import { auditLogMiddleware, logActivity, AuditAction, EntityType } from "./auditLogger";
 import { emailService } from "./emailService";
 import { calculatePriority, validatePriority, type UrgencyLevel, type ImpactLevel } from "@shared/priorityUtils";
+import { matchesCustomFieldFilter } from "@shared/customFields";
 import { exportToCSV, importFromCSV, parseCSV, parseDate, cleanEmploymentType } from "@shared/csvUtils";
 import { getValidationRules, getExportColumns } from "@shared/importExportRules";
 
@@ -225,6 +280,11 @@ const authenticateUser = (req: Request, res: Response, next: NextFunction) => {
   //   return next();
   // }
   
+  // Personal API tokens (Authorization: Bearer sit_...) for scripts and integrations
+  if (getBearerToken(req)) {
+    return authenticateApiToken(req, res, next);
+  }
+  
   if (!req.isAuthenticated()) {
     return res.status(401).json({ message: "Not authenticated" });
   }
@@ -248,8 +308,8 @@ const upload = multer({
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Setup session with memory store for reliability
-  const MemStore = MemoryStore(session);
+  // Sessions live in the sessions table so they survive restarts and are shared between instances
+  const PgStore = ConnectPgSimple(session);
   
   // Trust proxy for proper cookie handling
   app.set('trust proxy', 1);
@@ -257,7 +317,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use(
     session({
       secret: process.env.SESSION_SECRET || "SimpleIT-bolt-secret",
-      resave: true, // Save on every request to ensure persistence
+      resave: false, // The store's touch() keeps unmodified sessions alive
       saveUninitialized: false, // Don't create session until something stored
       rolling: true, // Reset expiration on every request
       cookie: { 
@@ -266,11 +326,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days for longer persistence
         sameSite: 'lax'
       },
-      store: new MemStore({
-        checkPeriod: 86400000, // prune expired entries every 24h
-        ttl: 7 * 24 * 60 * 60 * 1000, // Match cookie maxAge - 7 days
-        stale: false, // Don't return stale sessions
-        max: 1000 // Max sessions to store
+      store: new PgStore({
+        pool,
+        tableName: 'sessions', // Defined in shared/schema.ts (scripts/migrate-sessions.sql)
+        createTableIfMissing: false,
+        pruneSessionInterval: 15 * 60 // Remove expired sessions every 15 minutes
       })
     })
   );
@@ -281,6 +341,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize passport
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSessionActivity);
 
   // Debug middleware to track what's happening
   app.use((req, res, next) => {
@@ -369,8 +430,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Username must be at least 3 characters" });
       }
       
-      if (password.length < 6) {
-        return res.status(400).json({ message: "Password must be at least 6 characters" });
+      try {
+        await validateNewPassword(password);
+      } catch (policyError) {
+        if (policyError instanceof PasswordPolicyError) {
+          return res.status(400).json({ message: policyError.message });
+        }
+        throw policyError;
       }
       
       // Hash the password
@@ -383,6 +449,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         email: email || null,
         role: "super_admin", // First user gets super_admin role
       });
+      await recordPasswordChange(adminUser.id, null);
       
       // Get/create system config with defaults if it doesn't exist
       const systemConfig = await storage.getSystemConfig();
@@ -424,8 +491,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Passwords do not match" });
       }
       
-      if (newPassword.length < 6) {
-        return res.status(400).json({ message: "Password must be at least 6 characters" });
+      try {
+        await validateNewPassword(newPassword);
+      } catch (policyError) {
+        if (policyError instanceof PasswordPolicyError) {
+          return res.status(400).json({ message: policyError.message });
+        }
+        throw policyError;
       }
       
       // Try multiple bcrypt implementations for compatibility
@@ -466,6 +538,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (updateResult.length === 0) {
         return res.status(404).json({ message: "Admin user not found" });
       }
+      // Also lifts a lockout of the admin account
+      await recordPasswordChange(updateResult[0].id, null);
+      await storage.deleteAllUserSessions(updateResult[0].id);
       
       res.json({ 
         message: "Admin password reset successfully",
@@ -498,7 +573,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         hasAdmin,
         bcryptWorking,
         environment: process.env.NODE_ENV || 'development',
-        authenticationMethods: ['password'],
+        authenticationMethods: [
+          'password', 'totp', ...(LDAP_CONFIG.enabled ? ['ldap'] : []), ...(OIDC_CONFIG.enabled ? ['oidc'] : [])
+        ],
         authenticationStatus: bcryptWorking ? 'healthy' : 'degraded'
       });
     } catch (error: unknown) {
@@ -507,16 +584,188 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
+  /**
+   * Sign the user in: new session (against fixation), login activity and the response
+   * Shared by the password login, single sign-on and the two-factor step that completes them
+   * With redirectTo the browser is redirected (SSO callback) instead of receiving JSON
+   */
+  const completeLogin = (req: Request, res: Response, user: any, extra: Record<string, unknown> = {}, redirectTo?: string) => {
+    // Regenerate session to prevent fixation
+    req.session.regenerate((regenerateErr) => {
+      if (regenerateErr) {
+        console.error('Session regeneration error:', regenerateErr);
+        return res.status(500).json({ message: 'Session regeneration failed' });
+      }
+      
+      // Log the user in to create session
+      req.logIn(user, (err) => {
+        if (err) {
+          console.error('Session creation error:', err);
+          return res.status(500).json({ message: 'Session creation failed' });
+        }
+        
+        console.log('Login successful for user:', user.username);
+        console.log('Session ID:', req.sessionID);
+        console.log('Session data:', req.session);
+        
+        // Device and IP shown in the user's active-session list
+        recordSessionClient(req);
+        
+        // Log successful login to activity log
+        try {
+          storage.logActivity({
+            userId: user.id,
+            action: 'Login Successful',
+            entityType: 'User',
+            entityId: user.id,
+            details: { 
+              username: user.username,
+              ip: req.ip || req.connection.remoteAddress,
+              ...(extra.twoFactorMethod ? { twoFactorMethod: extra.twoFactorMethod } : {})
+            }
+          }).catch((logError) => {
+            console.warn('Failed to log successful login:', logError);
+          });
+        } catch (logError) {
+          console.warn('Failed to log successful login:', logError);
+        }
+        
+        // Ensure session is saved before responding
+        req.session.save((saveErr) => {
+          if (saveErr) {
+            console.error('Session save error:', saveErr);
+            return res.status(500).json({ message: 'Session save failed' });
+          }
+          
+          console.log('Session saved successfully');
+          if (redirectTo) {
+            return res.redirect(redirectTo);
+          }
+          res.json({ 
+            message: "Login successful", 
+            user: user,
+            ...extra
+          });
+        });
+      });
+    });
+  };
+
+  /**
+   * Password (or SSO) is correct but a second factor is needed: keep only the pending login in a fresh session
+   */
+  const startTwoFactorLogin = (req: Request, res: Response, user: any, enrollmentRequired: boolean, redirectTo?: string) => {
+    req.session.regenerate((regenerateErr) => {
+      if (regenerateErr) {
+        console.error('Session regeneration error:', regenerateErr);
+        return res.status(500).json({ message: 'Session regeneration failed' });
+      }
+
+      req.session.pendingTwoFactor = {
+        userId: user.id,
+        enrollmentRequired,
+        expiresAt: Date.now() + PENDING_LOGIN_TTL_MS,
+        failedAttempts: 0,
+        singleSignOn: !!redirectTo
+      };
+      req.session.save((saveErr) => {
+        if (saveErr) {
+          console.error('Session save error:', saveErr);
+          return res.status(500).json({ message: 'Session save failed' });
+        }
+        if (redirectTo) {
+          return res.redirect(redirectTo);
+        }
+        res.json({
+          message: enrollmentRequired ? 'Two-factor enrollment required' : 'Two-factor authentication required',
+          twoFactorRequired: true,
+          enrollmentRequired
+        });
+      });
+    });
+  };
+
+  /**
+   * Pending login of this session, or null after responding 401 (missing or expired)
+   */
+  const getPendingTwoFactorLogin = (req: Request, res: Response) => {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      res.status(401).json({ message: 'Your login has expired. Please sign in again.' });
+      return null;
+    }
+    return pending;
+  };
+
+  /**
+   * Password (and second factor) are correct but the password expired or was reset by an admin:
+   * keep only the pending change in a fresh session; the login completes at POST /api/login/change-password
+   */
+  const startPasswordChangeLogin = (req: Request, res: Response, user: any, reason: PasswordChangeReason, extra: Record<string, unknown> = {}) => {
+    req.session.regenerate((regenerateErr) => {
+      if (regenerateErr) {
+        console.error('Session regeneration error:', regenerateErr);
+        return res.status(500).json({ message: 'Session regeneration failed' });
+      }
+
+      req.session.pendingPasswordChange = {
+        userId: user.id,
+        reason,
+        expiresAt: Date.now() + PENDING_PASSWORD_CHANGE_TTL_MS,
+        ...(typeof extra.twoFactorMethod === 'string' ? { twoFactorMethod: extra.twoFactorMethod } : {})
+      };
+      req.session.save((saveErr) => {
+        if (saveErr) {
+          console.error('Session save error:', saveErr);
+          return res.status(500).json({ message: 'Session save failed' });
+        }
+        res.json({
+          message: reason === 'expired' ? 'Your password has expired' : 'You must change your password',
+          passwordChangeRequired: true,
+          reason,
+          ...extra
+        });
+      });
+    });
+  };
+
+  /**
+   * Completes a password login, unless the password policy requires a new password first
+   * The failed login count resets only here, once the password and any second factor are correct
+   */
+  const completePasswordLogin = async (req: Request, res: Response, user: any, extra: Record<string, unknown> = {}) => {
+    await recordSuccessfulLogin(user.id);
+    const reason = await getPasswordChangeRequirement(user.id);
+    if (reason) {
+      return startPasswordChangeLogin(req, res, user, reason, extra);
+    }
+    completeLogin(req, res, user, extra);
+  };
+
+  app.post("/api/login", async (req, res, next) => {
     console.log('Login attempt for username/email:', req.body.username);
+
+    // Admins can restrict sign-in to SSO (PUT /api/sso/settings)
+    try {
+      if (!(await isPasswordLoginEnabled())) {
+        return res.status(403).json({ message: `Password sign-in is disabled. Please sign in with ${OIDC_CONFIG.providerName}.` });
+      }
+    } catch (policyError) {
+      console.error('Password login policy check error:', policyError);
+      return res.status(500).json({ message: 'Authentication server error' });
+    }
        
-    // Standard passport authentication
-    passport.authenticate("local", (err: any, user: any, info: any) => {
+    // Standard passport authentication (directory accounts first when LDAP is enabled)
+    passport.authenticate(LDAP_CONFIG.enabled ? ["ldap", "local"] : "local", (err: any, user: any, failure: any) => {
       if (err) {
         console.error('Passport authentication error:', err);
         return res.status(500).json({ message: 'Authentication server error' });
       }
       
+      // With several strategies passport reports one failure per strategy; the first with a message wins
+      const info = Array.isArray(failure) ? failure.find((entry: any) => entry?.message) : failure;
+      
       if (!user) {
         console.log('Authentication failed:', info?.message || 'Invalid credentials');
         
@@ -539,63 +788,337 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.warn('Failed to log failed login attempt:', logError);
         }
         
-        return res.status(401).json({ message: info?.message || 'Incorrect password' });
+        return res.status(401).json({ message: info?.message || 'Incorrect password', ...(info?.locked ? { locked: true } : {}) });
       }
       
-      // Regenerate session to prevent fixation
-      req.session.regenerate((regenerateErr) => {
-        if (regenerateErr) {
-          console.error('Session regeneration error:', regenerateErr);
-          return res.status(500).json({ message: 'Session regeneration failed' });
-        }
-        
-        // Log the user in to create session
-        req.logIn(user, (err) => {
-          if (err) {
-            console.error('Session creation error:', err);
-            return res.status(500).json({ message: 'Session creation failed' });
-          }
-          
-          console.log('Login successful for user:', user.username);
-          console.log('Session ID:', req.sessionID);
-          console.log('Session data:', req.session);
-          
-          // Log successful login to activity log
-          try {
-            storage.logActivity({
-              userId: user.id,
-              action: 'Login Successful',
-              entityType: 'User',
-              entityId: user.id,
-              details: { 
-                username: user.username,
-                ip: req.ip || req.connection.remoteAddress
-              }
-            }).catch((logError) => {
-              console.warn('Failed to log successful login:', logError);
-            });
-          } catch (logError) {
-            console.warn('Failed to log successful login:', logError);
+      // Users with two-factor authentication (or whose role requires it) continue at POST /api/login/2fa
+      getLoginRequirement(user.id, user.role)
+        .then(({ twoFactorRequired, enrollmentRequired }) => {
+          if (twoFactorRequired) {
+            return startTwoFactorLogin(req, res, user, enrollmentRequired);
           }
-          
-          // Ensure session is saved before responding
-          req.session.save((saveErr) => {
-            if (saveErr) {
-              console.error('Session save error:', saveErr);
-              return res.status(500).json({ message: 'Session save failed' });
-            }
-            
-            console.log('Session saved successfully');
-            res.json({ 
-              message: "Login successful", 
-              user: user
-            });
-          });
+          return completePasswordLogin(req, res, user);
+        })
+        .catch((requirementError) => {
+          console.error('Login requirement check error:', requirementError);
+          res.status(500).json({ message: 'Authentication server error' });
         });
-      });
     })(req, res, next);
   });
 
+  /**
+   * POST /api/login/2fa
+   * Second login step: authenticator code or a recovery code
+   */
+  app.post("/api/login/2fa", async (req, res) => {
+    const pending = getPendingTwoFactorLogin(req, res);
+    if (!pending) return;
+
+    try {
+      if (pending.enrollmentRequired) {
+        return res.status(400).json({ message: 'Set up two-factor authentication to continue' });
+      }
+      const code = typeof req.body.code === 'string' ? req.body.code.trim() : '';
+      if (!code) {
+        return res.status(400).json({ message: 'Code is required' });
+      }
+
+      // The account may have been locked since the password step (e.g. by another pending login)
+      const lockout = await getLockout(pending.userId);
+      if (lockout.locked) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: getLockoutMessage(lockout.lockedUntil), locked: true });
+      }
+
+      const method = await verifyTwoFactorCode(pending.userId, code);
+      if (!method) {
+        pending.failedAttempts += 1;
+        const attemptsLeft = MAX_PENDING_LOGIN_ATTEMPTS - pending.failedAttempts;
+        // Wrong codes count towards the account lockout like wrong passwords, across logins
+        const failure = await recordFailedLogin(pending.userId);
+        if (attemptsLeft <= 0 || failure.locked) {
+          delete req.session.pendingTwoFactor;
+        }
+        logger.warn('auth', `Failed two-factor verification for user ${pending.userId}`, {
+          userId: pending.userId,
+          metadata: { failedAttempts: pending.failedAttempts, ip: req.ip }
+        });
+        await logActivity({
+          userId: pending.userId,
+          action: AuditAction.TWO_FACTOR,
+          entityType: EntityType.USER,
+          entityId: pending.userId,
+          details: { event: 'verification_failed', context: 'login', failedAttempts: pending.failedAttempts, ip: req.ip }
+        });
+        if (failure.locked) {
+          return res.status(401).json({ message: getLockoutMessage(failure.lockedUntil), locked: true, attemptsLeft: 0 });
+        }
+        return res.status(401).json({
+          message: attemptsLeft > 0 ? 'Invalid verification code' : 'Too many invalid codes. Please sign in again.',
+          attemptsLeft: Math.max(attemptsLeft, 0)
+        });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.isActive) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: 'Account is disabled' });
+      }
+
+      await logActivity({
+        userId: user.id,
+        action: AuditAction.TWO_FACTOR,
+        entityType: EntityType.USER,
+        entityId: user.id,
+        details: { event: 'verified', method, ip: req.ip }
+      });
+
+      const { password: _, ...userWithoutPassword } = user;
+      if (pending.singleSignOn) {
+        return completeLogin(req, res, userWithoutPassword, { twoFactorMethod: method });
+      }
+      await completePasswordLogin(req, res, userWithoutPassword, { twoFactorMethod: method });
+    } catch (error) {
+      logger.error('auth', 'Two-factor login verification failed', {
+        userId: pending.userId,
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+      res.status(500).json({ message: 'Authentication server error' });
+    }
+  });
+
+  /**
+   * POST /api/login/2fa/setup
+   * Enrollment during login, for users whose role requires 2FA and who have not set it up yet
+   */
+  app.post("/api/login/2fa/setup", async (req, res) => {
+    const pending = getPendingTwoFactorLogin(req, res);
+    if (!pending) return;
+
+    try {
+      if (!pending.enrollmentRequired) {
+        return res.status(400).json({ message: 'Two-factor authentication is already set up' });
+      }
+      const user = await storage.getUser(pending.userId);
+      if (!user) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: 'Your login has expired. Please sign in again.' });
+      }
+
+      const enrollment = await startEnrollment(user.id, user.username);
+      await logActivity({
+        userId: user.id,
+        action: AuditAction.TWO_FACTOR,
+        entityType: EntityType.USER,
+        entityId: user.id,
+        details: { event: 'enrollment_started', context: 'login' }
+      });
+      res.json(enrollment);
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      logger.error('auth', 'Two-factor enrollment during login failed', {
+        userId: pending.userId,
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+      res.status(500).json({ message: 'Failed to start two-factor setup' });
+    }
+  });
+
+  /**
+   * POST /api/login/2fa/enroll
+   * Confirms the enrollment with a code and completes the login; the response carries the recovery codes
+   */
+  app.post("/api/login/2fa/enroll", async (req, res) => {
+    const pending = getPendingTwoFactorLogin(req, res);
+    if (!pending) return;
+
+    try {
+      if (!pending.enrollmentRequired) {
+        return res.status(400).json({ message: 'Two-factor authentication is already set up' });
+      }
+      const code = typeof req.body.code === 'string' ? req.body.code.trim() : '';
+      if (!code) {
+        return res.status(400).json({ message: 'Code is required' });
+      }
+
+      const recoveryCodes = await confirmEnrollment(pending.userId, code);
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.isActive) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: 'Account is disabled' });
+      }
+
+      await logActivity({
+        userId: user.id,
+        action: AuditAction.TWO_FACTOR,
+        entityType: EntityType.USER,
+        entityId: user.id,
+        details: { event: 'enrolled', context: 'login' }
+      });
+
+      const { password: _, ...userWithoutPassword } = user;
+      if (pending.singleSignOn) {
+        return completeLogin(req, res, userWithoutPassword, { twoFactorMethod: 'totp', recoveryCodes });
+      }
+      await completePasswordLogin(req, res, userWithoutPassword, { twoFactorMethod: 'totp', recoveryCodes });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        await logActivity({
+          userId: pending.userId,
+          action: AuditAction.TWO_FACTOR,
+          entityType: EntityType.USER,
+          entityId: pending.userId,
+          details: { event: 'enrollment_failed', context: 'login', reason: error.message }
+        });
+        return res.status(400).json({ message: error.message });
+      }
+      logger.error('auth', 'Two-factor enrollment during login failed', {
+        userId: pending.userId,
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+      res.status(500).json({ message: 'Failed to enable two-factor authentication' });
+    }
+  });
+
+  /**
+   * POST /api/login/change-password
+   * Last login step when the password expired or was reset by an admin: the new password completes the login
+   */
+  app.post("/api/login/change-password", async (req, res) => {
+    const pending = req.session.pendingPasswordChange;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingPasswordChange;
+      return res.status(401).json({ message: 'Your login has expired. Please sign in again.' });
+    }
+
+    try {
+      const { newPassword } = req.body;
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.isActive) {
+        delete req.session.pendingPasswordChange;
+        return res.status(401).json({ message: 'Account is disabled' });
+      }
+
+      await changeUserPassword(user.id, newPassword);
+      // Sessions signed in with the old password end; the login below starts a new one
+      await storage.deleteAllUserSessions(user.id);
+      await logActivity({
+        userId: user.id,
+        action: AuditAction.PASSWORD_RESET,
+        entityType: EntityType.USER,
+        entityId: user.id,
+        details: { event: 'password_changed_at_login', reason: pending.reason }
+      });
+
+      const { twoFactorMethod } = pending;
+      delete req.session.pendingPasswordChange;
+      const { password: _, ...userWithoutPassword } = user;
+      completeLogin(req, res, userWithoutPassword, twoFactorMethod ? { twoFactorMethod } : {});
+    } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      logger.error('auth', 'Password change during login failed', {
+        userId: pending.userId,
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+      res.status(500).json({ message: 'Failed to change password' });
+    }
+  });
+
+  /**
+   * GET /api/auth/options
+   * Sign-in methods shown on the login page (public)
+   */
+  app.get("/api/auth/options", async (req, res) => {
+    try {
+      res.json(await getLoginOptions());
+    } catch (error) {
+      logger.error('auth', 'Failed to load sign-in options', {
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+      res.status(500).json({ message: 'Failed to fetch sign-in options' });
+    }
+  });
+
+  /**
+   * GET /api/auth/password-policy
+   * Password rules for the strength meter on the setup, reset and change-password forms (public)
+   */
+  app.get("/api/auth/password-policy", async (req, res) => {
+    try {
+      res.json(await getPasswordRules());
+    } catch (error) {
+      logger.error('auth', 'Failed to load password rules', {
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+      res.status(500).json({ message: 'Failed to fetch password policy' });
+    }
+  });
+
+  /**
+   * GET /api/auth/oidc/login
+   * Sends the browser to the identity provider (OIDC authorization code flow with PKCE)
+   */
+  app.get("/api/auth/oidc/login", async (req, res) => {
+    try {
+      const authorizationUrl = await startOidcLogin(req);
+      req.session.save((saveErr) => {
+        if (saveErr) {
+          console.error('Session save error:', saveErr);
+          return res.redirect(`/login?sso_error=${encodeURIComponent('Session save failed')}`);
+        }
+        res.redirect(authorizationUrl);
+      });
+    } catch (error) {
+      if (!(error instanceof SsoError)) {
+        logger.error('auth', 'Failed to start SSO login', {
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+      const message = error instanceof SsoError ? error.message : 'Single sign-on failed';
+      res.redirect(`/login?sso_error=${encodeURIComponent(message)}`);
+    }
+  });
+
+  /**
+   * GET /api/auth/oidc/callback
+   * The identity provider redirects back here; errors go back to the login page as ?sso_error=
+   */
+  app.get("/api/auth/oidc/callback", async (req, res) => {
+    try {
+      const user = await completeOidcLogin(req);
+      const { password: _, ...userWithoutPassword } = user;
+
+      // The login page asks for the second factor (or enrollment) when ?sso=2fa / ?sso=2fa-enroll is set
+      const { twoFactorRequired, enrollmentRequired } = await getLoginRequirement(user.id, user.role);
+      if (twoFactorRequired) {
+        return startTwoFactorLogin(req, res, userWithoutPassword, enrollmentRequired, enrollmentRequired ? '/login?sso=2fa-enroll' : '/login?sso=2fa');
+      }
+      completeLogin(req, res, userWithoutPassword, {}, normalizeRoleId(user.role) === ROLE_IDS.EMPLOYEE ? '/portal' : '/');
+    } catch (error) {
+      if (!(error instanceof SsoError)) {
+        logger.error('auth', 'SSO callback failed', {
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+      const message = error instanceof SsoError ? error.message : 'Single sign-on failed';
+
+      storage.logActivity({
+        userId: null,
+        action: 'Login Failed',
+        entityType: 'User',
+        entityId: null,
+        details: { reason: message, source: 'oidc', ip: req.ip || req.connection.remoteAddress }
+      }).catch((logError) => {
+        console.warn('Failed to log failed login attempt:', logError);
+      });
+      res.redirect(`/login?sso_error=${encodeURIComponent(message)}`);
+    }
+  });
+
   app.post("/api/logout", (req, res) => {
     req.logout((err) => {
       if (err) {
@@ -700,11 +1223,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      if (password.length < 8) {
-        return res.status(400).json({ 
-          success: false,
-          message: 'Password must be at least 8 characters long' 
-        });
+      try {
+        await validateNewPassword(password);
+      } catch (policyError) {
+        if (policyError instanceof PasswordPolicyError) {
+          return res.status(400).json({ 
+            success: false,
+            message: policyError.message 
+          });
+        }
+        throw policyError;
       }
 
       const { completeRegistration } = await import('./services/registrationService');
@@ -833,6 +1361,126 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/notifications', authenticateUser, notificationsRouter);
   app.use('/api/notification-templates', authenticateUser, notificationTemplatesRouter);
 
+  // ==========================================
+  // TICKET TIME TRACKING & TIMESHEET ROUTES
+  // ==========================================
+  app.use('/api/tickets', authenticateUser, ticketTimeRouter);
+  app.use('/api/timesheets', authenticateUser, timesheetsRouter);
+
+  // ==========================================
+  // TICKET MERGE ROUTES
+  // ==========================================
+  app.use('/api/tickets', authenticateUser, ticketMergeRouter);
+
+  // ==========================================
+  // SLA ROUTES
+  // ==========================================
+  app.use('/api/tickets', authenticateUser, ticketSlaRouter);
+  app.use('/api/sla', authenticateUser, slaRouter);
+
+  // ==========================================
+  // ATTACHMENT ROUTES
+  // ==========================================
+  app.use('/api/attachments', authenticateUser, attachmentsRouter);
+
+  // ==========================================
+  // WEBHOOK ROUTES (Admin only)
+  // ==========================================
+  app.use('/api/webhooks', authenticateUser, requireRole(ROLES.ADMIN), webhooksRouter);
+
+  // ==========================================
+  // API TOKENS & PUBLIC API v1
+  // ==========================================
+  app.use('/api/api-tokens', authenticateUser, apiTokensRouter);
+  const openApiDocument = buildOpenApiDocument();
+  app.get('/api/v1/openapi.json', (req, res) => {
+    res.json(openApiDocument);
+  });
+  app.use('/api/v1', authenticateUser, apiV1Router);
+
+  // ==========================================
+  // EMPLOYEE ONBOARDING & OFFBOARDING ROUTES
+  // ==========================================
+  app.use('/api/onboarding', authenticateUser, requireRole(ROLES.AGENT), onboardingRouter);
+  app.use('/api/offboarding', authenticateUser, requireRole(ROLES.AGENT), offboardingRouter);
+
+  // ==========================================
+  // ASSET LOCATION ROUTES
+  // ==========================================
+  app.use('/api/locations', authenticateUser, requireRole(ROLES.AGENT), locationsRouter);
+
+  // ==========================================
+  // ASSET LABEL ROUTES
+  // ==========================================
+  app.use('/api/asset-labels', authenticateUser, requireRole(ROLES.AGENT), assetLabelsRouter);
+
+  // ==========================================
+  // STOCK-TAKE ROUTES
+  // ==========================================
+  app.use('/api/stock-takes', authenticateUser, requireRole(ROLES.AGENT), stockTakesRouter);
+
+  // ==========================================
+  // SOFTWARE LICENSE ROUTES
+  // ==========================================
+  app.use('/api/vendors', authenticateUser, requireRole(ROLES.AGENT), vendorsRouter);
+  app.use('/api/licenses', authenticateUser, requireRole(ROLES.AGENT), licensesRouter);
+
+  // ==========================================
+  // CONSUMABLE ROUTES
+  // ==========================================
+  app.use('/api/consumables', authenticateUser, requireRole(ROLES.AGENT), consumablesRouter);
+
+  // ==========================================
+  // PURCHASE ORDER ROUTES
+  // ==========================================
+  app.use('/api/purchase-orders', authenticateUser, requireRole(ROLES.AGENT), purchaseOrdersRouter);
+
+  // ==========================================
+  // APPROVAL ROUTES
+  // ==========================================
+  // Any signed-in user can be an approver (direct managers); email links carry their own token
+  app.use('/api/approvals', authenticateUser, approvalsRouter);
+  app.use('/api/approval-links', approvalLinkRouter);
+
+  // ==========================================
+  // SERVICE CATALOG ROUTES
+  // ==========================================
+  // Employees browse and submit from the portal; per-route role checks cover the rest
+  app.use('/api/service-catalog', authenticateUser, serviceCatalogRouter);
+
+  // ==========================================
+  // CUSTOM FIELD ROUTES
+  // ==========================================
+  // Definitions are read by every form; per-route role checks guard changes
+  app.use('/api/custom-fields', authenticateUser, customFieldsRouter);
+
+  // ==========================================
+  // TWO-FACTOR AUTHENTICATION ROUTES
+  // ==========================================
+  // Own enrollment for every signed-in user; policy and resets check the admin role per route
+  app.use('/api/two-factor', authenticateUser, twoFactorRouter);
+
+  // ==========================================
+  // ACTIVE SESSION ROUTES
+  // ==========================================
+  // Own sessions for every signed-in user; force logout of others checks the admin role per route
+  app.use('/api/sessions', authenticateUser, sessionsRouter);
+
+  // ==========================================
+  // DIRECTORY (LDAP / ACTIVE DIRECTORY) ROUTES
+  // ==========================================
+  app.use('/api/directory', authenticateUser, directoryRouter);
+
+  // ==========================================
+  // SINGLE SIGN-ON (OIDC) SETTINGS ROUTES
+  // ==========================================
+  app.use('/api/sso', authenticateUser, ssoRouter);
+
+  // ==========================================
+  // PASSWORD POLICY AND ACCOUNT LOCKOUT ROUTES
+  // ==========================================
+  app.use('/api/password-policy', authenticateUser, passwordPolicyRouter);
+
   // ==========================================
   // SYSTEM LOGS ROUTES (Super Admin only)
   // ==========================================
@@ -1206,11 +1854,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log('[Password Reset] Token valid for user:', userId);
       
-      // Hash the new password
-      const hashedPassword = await hash(newPassword, 10);
-      
-      // Update the user's password
-      const updated = await storage.updateUser(userId, { password: hashedPassword });
+      // Check the password policy, then store the new password (clears an expiry or lockout)
+      const updated = await changeUserPassword(userId, newPassword);
       
       if (!updated) {
         console.log('[Password Reset] Failed to update user password');
@@ -1225,6 +1870,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Delete the used token
       await storage.invalidatePasswordResetToken(token);
       
+      // Sign out every existing session with the old password
+      await storage.deleteAllUserSessions(userId);
+      
       // Log the activity
       await logActivity({
         userId: userId,
@@ -1241,6 +1889,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: 'Password has been reset successfully'
       });
     } catch (error: unknown) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
       console.error('Error resetting password:', error);
       const errorMessage = error instanceof Error ? error.message : 'Error resetting password';
       res.status(500).json({ 
@@ -1595,12 +2246,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         workMobile: workMobile || null,
         personalEmail: personalEmail || null,
         corporateEmail: corporateEmail || null,
-        userId: userId || null
+        userId: userId || null,
+        customFields: await validateCustomFieldValues('employee', req.body.customFields)
       };
       
       const employee = await storage.createEmployee(employeeData);
       
       console.log("Successfully created employee with auto-generated ID:", employee);
+
+      emitWebhookEvent('employee.created', toEmployeeWebhookData(employee));
       
       // Log to system logs for audit trail
       if (req.user) {
@@ -1636,6 +2290,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
       }
+
+      // Reserve assets, open provisioning tickets and send the invite when a template matches
+      await handleNewEmployeeOnboarding(employee.id, (req.user as schema.User)?.id);
       
       // Skip audit logging for better performance and cleaner logs
       // Activity logging can be re-enabled if needed for compliance
@@ -1703,7 +2360,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         workMobile: workMobile ?? null,
         personalEmail: personalEmail ?? null,
         corporateEmail: corporateEmail ?? null,
-        userId: userId ?? null
+        userId: userId ?? null,
+        customFields: await validateCustomFieldValues('employee', req.body.customFields, {
+          existing: existingEmployee.customFields
+        })
       };
       
       const updatedEmployee = await storage.updateEmployee(id, employeeData);
@@ -1711,21 +2371,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Employee not found" });
       }
       
-      // Notify admins about employee offboarding if status changed to Terminated/Inactive
-      if (existingEmployee.status !== status && 
-          (status === 'Terminated' || status === 'Inactive') && 
-          exitDate) {
-        const lastDay = new Date(exitDate);
-        const dateStr = lastDay.toLocaleDateString();
-        
-        await notificationService.notifyByRole({
-          role: 'admin',
-          title: 'Employee Offboarding',
-          message: `${englishName} leaving on ${dateStr}. Please prepare offboarding checklist and asset recovery.`,
-          type: 'Employee',
-          entityId: updatedEmployee.id,
+      if (existingEmployee.status !== status && (status === 'Resigned' || status === 'Terminated')) {
+        emitWebhookEvent('employee.offboarded', {
+          ...toEmployeeWebhookData(updatedEmployee),
+          previousStatus: existingEmployee.status
         });
       }
+
+      // Exit date set or Resigned/Terminated: open the offboarding case (notifies the manager)
+      await handleEmployeeOffboardingTrigger(existingEmployee, updatedEmployee, (req.user as schema.User)?.id);
       
       // Log activity
       if (req.user) {
@@ -2414,7 +3068,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         assets: {
           required: ['assetId', 'type', 'status'],
           optional: ['brand', 'modelNumber', 'modelName', 'serialNumber', 'specs', 'cpu', 'ram', 'storage', 
-                   'purchaseDate', 'buyPrice', 'warrantyExpiryDate', 'lifeSpan', 'outOfBoxOs', 'assignedEmployeeId'],
+                   'purchaseDate', 'buyPrice', 'warrantyExpiryDate', 'lifeSpan', 'outOfBoxOs', 'assignedEmployeeId', 'location'],
           autoGenerated: ['id', 'createdAt', 'updatedAt'],
           enums: {
             status: ['Available', 'In Use', 'Under Maintenance', 'Retired', 'Lost', 'Stolen']
@@ -2555,6 +3209,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let successful = 0;
       let failed = 0;
       const errors: string[] = [];
+      let importLocations: schema.Location[] | null = null; // Loaded on first row that names a location
 
       
       // Process each record with field mapping
@@ -2582,6 +3237,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         });
 
+        // "customFields.<key>" columns are checked against the custom field definitions below
+        const customFieldValues = extractCustomFieldColumns(mappedRecord);
+
         if (entityType === 'employees') {
   
           // Parse exitDate if present
@@ -2617,8 +3275,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 personalMobile: mappedRecord.personalMobile || null,
                 workMobile: mappedRecord.workMobile || null,
                 personalEmail: mappedRecord.personalEmail || null,
-                corporateEmail: mappedRecord.corporateEmail || `employee${index + 1}@company.com`
-               
+                corporateEmail: mappedRecord.corporateEmail || `employee${index + 1}@company.com`,
+                customFields: await validateCustomFieldValues('employee', customFieldValues)
               });
               break;
 
@@ -2714,8 +3372,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 status: mappedRecord.status || 'Available'
               });
 
+              // Location may be given by code, full path or unique name
+              let locationId: number | null = null;
+              if (mappedRecord.location && String(mappedRecord.location).trim()) {
+                importLocations = importLocations ?? await getAllLocations();
+                const location = resolveLocationReference(importLocations, String(mappedRecord.location));
+                if (!location) {
+                  throw new Error(`Unknown location "${mappedRecord.location}"`);
+                }
+                locationId = location.id;
+              }
+
+              const assetType = await normalizeAssetType(mappedRecord.type);
               await storage.createAsset({
-                type: await normalizeAssetType(mappedRecord.type),
+                type: assetType,
                 brand: mappedRecord.brand || 'Unknown',
                 modelNumber: mappedRecord.modelNumber || null,
                 modelName: mappedRecord.modelName || null,
@@ -2730,7 +3400,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 warrantyExpiryDate: parseDate(mappedRecord.warrantyExpiryDate),
                 lifeSpan: mappedRecord.lifeSpan && !isNaN(parseInt(mappedRecord.lifeSpan)) ? parseInt(mappedRecord.lifeSpan) : null,
                 outOfBoxOs: mappedRecord.outOfBoxOs || null,
-                assignedEmployeeId: mappedRecord.assignedEmployeeId && !isNaN(parseInt(mappedRecord.assignedEmployeeId)) ? parseInt(mappedRecord.assignedEmployeeId) : null
+                assignedEmployeeId: mappedRecord.assignedEmployeeId && !isNaN(parseInt(mappedRecord.assignedEmployeeId)) ? parseInt(mappedRecord.assignedEmployeeId) : null,
+                locationId,
+                customFields: await validateCustomFieldValues('asset', customFieldValues, { assetType })
               });
               break;
 
@@ -2763,10 +3435,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 workaround: mappedRecord.workaround || null,
                 resolution: mappedRecord.resolution || null,
                 resolutionNotes: mappedRecord.resolutionNotes || null,
-                privateNotes: mappedRecord.privateNotes || null
+                privateNotes: mappedRecord.privateNotes || null,
+                customFields: await validateCustomFieldValues('ticket', customFieldValues)
               });
               break;
 
+            case 'licenses':
+              await importLicenseRecord(mappedRecord, (req.user as schema.User).id);
+              break;
+
             default:
               throw new Error(`Unsupported entity type: ${entityType}`);
           }
@@ -2802,6 +3479,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       employees.forEach(emp => {
         employeeMap.set(emp.id, emp.englishName);
       });
+
+      // Locations are exported as full paths so the file can be re-imported
+      const locationPaths = getLocationPaths(await getAllLocations());
       
       // Transform asset data for CSV export
       const csvData = assets.map(asset => {
@@ -2828,6 +3508,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           'Life Span (months)': asset.lifeSpan || '',
           'Factory OS': asset.outOfBoxOs || '',
           'Assigned To': assignedTo,
+          'Location': asset.locationId ? locationPaths.get(asset.locationId) || '' : '',
           'Last Updated': asset.updatedAt ? 
             new Date(asset.updatedAt).toISOString().split('T')[0] : ''
         };
@@ -2879,12 +3560,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           maintenanceDue: req.query.maintenanceDue as string,
           assignedTo: req.query.assignedTo as string,
           model: req.query.model as string,
+          location: req.query.location as string,
+          customField: req.query.customField as string,
+          customFieldValue: req.query.customFieldValue as string,
         };
         
         console.log('Assets API - Filters:', filters, 'Page:', page, 'Limit:', limit);
         
         // Get all assets (we'll filter then paginate)
-        const allAssets = await storage.getAllAssets();
+        const [allAssets, allLocations] = await Promise.all([storage.getAllAssets(), getAllLocations()]);
+        const locationPaths = getLocationPaths(allLocations);
         
         // Apply filters before pagination
         let filteredAssets = allAssets;
@@ -2898,7 +3583,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             asset.brand?.toLowerCase().includes(searchLower) ||
             asset.modelName?.toLowerCase().includes(searchLower) ||
             asset.serialNumber?.toLowerCase().includes(searchLower) ||
-            asset.location?.toLowerCase().includes(searchLower) ||
+            (asset.locationId && locationPaths.get(asset.locationId)?.toLowerCase().includes(searchLower)) ||
             asset.specs?.toLowerCase().includes(searchLower)
           );
         }
@@ -2925,6 +3610,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (filters.model) {
           filteredAssets = filteredAssets.filter(asset => asset.modelName === filters.model);
         }
+
+        // Apply location filter - a location includes everything stored beneath it
+        if (filters.location) {
+          if (filters.location === 'none') {
+            filteredAssets = filteredAssets.filter(asset => !asset.locationId);
+          } else {
+            const locationIds = getDescendantIds(allLocations, parseInt(filters.location));
+            filteredAssets = filteredAssets.filter(asset =>
+              asset.locationId !== null && locationIds.includes(asset.locationId)
+            );
+          }
+        }
+        
+        if (filters.customField) {
+          filteredAssets = filteredAssets.filter(asset =>
+            matchesCustomFieldFilter(asset.customFields, filters.customField, filters.customFieldValue)
+          );
+        }
         
         // Apply assignment filter
         if (filters.assignedTo) {
@@ -3030,6 +3733,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               return {
                 ...asset,
                 assignedEmployee,
+                locationPath: asset.locationId ? locationPaths.get(asset.locationId) || null : null,
                 lastMaintenanceDate: completedMaintenance[0]?.date || null,
                 nextMaintenanceDate: scheduledMaintenance[0]?.date || inProgressMaintenance[0]?.date || null,
                 currentMaintenanceStatus: inProgressMaintenance.length > 0 ? 'inProgress' : 
@@ -3044,6 +3748,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               return {
                 ...asset,
                 assignedEmployee: null,
+                locationPath: asset.locationId ? locationPaths.get(asset.locationId) || null : null,
                 lastMaintenanceDate: null,
                 nextMaintenanceDate: null,
                 currentMaintenanceStatus: 'none',
@@ -3151,6 +3856,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!requestData.brand) requestData.brand = 'Unknown';
       if (!requestData.serialNumber) requestData.serialNumber = `SN-${Date.now()}`;
       if (!requestData.status) requestData.status = 'Available';
+      requestData.customFields = await validateCustomFieldValues('asset', requestData.customFields, {
+        assetType: requestData.type
+      });
       
       console.log('Final asset data before validation:', requestData);
       
@@ -3205,12 +3913,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/assets/:id", authenticateUser, requireRole(ROLES.AGENT), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const assetData = req.body;
+      // Moving the asset goes through a transfer so the move is recorded in its history
+      const { locationId, ...assetData } = req.body;
+
+      const locationError = await getDestinationLocationError(locationId);
+      if (locationError) {
+        return res.status(400).json({ message: locationError });
+      }
       
-      const updatedAsset = await storage.updateAsset(id, assetData);
+      const previous = await storage.getAsset(id);
+      if (previous && assetData.customFields !== undefined) {
+        assetData.customFields = await validateCustomFieldValues('asset', assetData.customFields, {
+          assetType: assetData.type ?? previous.type,
+          existing: previous.customFields
+        });
+      }
+      const updatedAsset = await storage.updateAsset(id, locationId === null ? { ...assetData, locationId: null } : assetData);
       if (!updatedAsset) {
         return res.status(404).json({ message: "Asset not found" });
       }
+      if (locationId && locationId !== previous?.locationId) {
+        await transferAssets([id], locationId, (req.user as schema.User).id);
+        updatedAsset.locationId = locationId;
+      }
       
       // Log activity
       if (req.user) {
@@ -3788,9 +4513,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Asset not found' });
       }
       
-      // Validate approvedById as employees.id only (no userId mapping)
+      // With an active approval chain the request always goes through it; approvedById is ignored
+      const usesApprovalChain = await hasActiveChain('upgrade');
+
+      // Validate approvedById as employees.id only (no userId mapping), and that the employee
+      // has an active manager account: pre-approval is a manager's decision
       let approvedEmployeeId: number | null = null;
-      if (req.body.approvedById !== undefined && req.body.approvedById !== null) {
+      if (!usesApprovalChain && req.body.approvedById !== undefined && req.body.approvedById !== null) {
         const idNum = Number(req.body.approvedById);
         if (Number.isNaN(idNum)) {
           return res.status(400).json({ message: 'approvedById must be a valid employee id' });
@@ -3799,6 +4528,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (!approver) {
           return res.status(400).json({ message: 'Approver employee not found' });
         }
+        const approverUser = approver.userId ? await storage.getUser(approver.userId) : undefined;
+        if (!approverUser?.isActive || getRoleLevel(approverUser.role) < ROLE_LEVELS[ROLE_IDS.MANAGER]) {
+          return res.status(400).json({ message: 'Approver must be an employee with an active manager account' });
+        }
         approvedEmployeeId = approver.id;
       }
 
@@ -3862,6 +4595,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      if (usesApprovalChain) {
+        // The chain notifies its first approver (or approves at once when no step applies)
+        await startUpgradeApproval(upgrade.id);
+        const [started] = await db.select().from(assetUpgrades).where(eq(assetUpgrades.id, upgrade.id));
+        return res.json(started ?? upgrade);
+      }
+
       // Notify managers about upgrade request
       try {
         // Get all managers to notify about the upgrade request
@@ -3993,6 +4733,16 @@ app.put('/api/upgrades/:id', authenticateUser, requireRole(ROLES.AGENT), async (
     if (!['Draft', 'Pending Approval'].includes(existing.status) && !req.body.status) {
       return res.status(400).json({ message: 'Cannot edit upgrade in current status' });
     }
+
+    // Requests going through an approval chain are decided there, not by editing them
+    const pendingApproval = await getPendingApproval('upgrade', upgradeId);
+    const usesApprovalChain = Boolean(pendingApproval) || await hasActiveChain('upgrade');
+    if (usesApprovalChain && ['Approved', 'Rejected'].includes(req.body.status)) {
+      return res.status(400).json({ message: 'This upgrade is decided through its approval chain' });
+    }
+    if (pendingApproval && req.body.status && !['Draft', 'Pending Approval', 'Cancelled'].includes(req.body.status)) {
+      return res.status(400).json({ message: 'This upgrade is still waiting on its approval chain' });
+    }
     
     // Build update query
     const updates: string[] = [];
@@ -4006,6 +4756,9 @@ app.put('/api/upgrades/:id', authenticateUser, requireRole(ROLES.AGENT), async (
     ];
     
     for (const field of allowedFields) {
+      if (usesApprovalChain && (field === 'approvedById' || field === 'approvalDate')) {
+        continue;
+      }
       if (req.body[field] !== undefined) {
         paramCount++;
         updates.push(`${field.replace(/([A-Z])/g, '_$1').toLowerCase()} = $${paramCount}`);
@@ -4034,7 +4787,30 @@ app.put('/api/upgrades/:id', authenticateUser, requireRole(ROLES.AGENT), async (
     `;
     
     const result = await storage.pool.query(updateQuery, values);
-    const updatedUpgrade = result.rows[0];
+    let updatedUpgrade = result.rows[0];
+
+    // (Re)start the chain when the request is submitted or its cost changes while pending,
+    // so amount thresholds apply to the cost being approved
+    if (usesApprovalChain && updatedUpgrade.status === 'Pending Approval') {
+      const costChanged = String(updatedUpgrade.estimated_cost ?? '') !== String(existing.estimated_cost ?? '');
+      if (!pendingApproval || costChanged) {
+        await startUpgradeApproval(upgradeId);
+        // A chain with no applicable step decides straight away
+        const [decided] = await db.select({
+          status: assetUpgrades.status,
+          approvedById: assetUpgrades.approvedById,
+          approvalDate: assetUpgrades.approvalDate,
+        }).from(assetUpgrades).where(eq(assetUpgrades.id, upgradeId));
+        updatedUpgrade = {
+          ...updatedUpgrade,
+          status: decided.status,
+          approved_by_id: decided.approvedById,
+          approval_date: decided.approvalDate,
+        };
+      }
+    } else if (pendingApproval && updatedUpgrade.status !== 'Pending Approval') {
+      await db.transaction(tx => cancelApproval(tx, 'upgrade', upgradeId));
+    }
     
     // Notify about upgrade approval/rejection
     try {
@@ -4042,6 +4818,18 @@ app.put('/api/upgrades/:id', authenticateUser, requireRole(ROLES.AGENT), async (
       const isApprovalDecision = statusChanged && (req.body.status === 'Approved' || req.body.status === 'Rejected');
       
       if (isApprovalDecision) {
+        emitWebhookEvent(req.body.status === 'Approved' ? 'upgrade.approved' : 'upgrade.rejected', {
+          id: updatedUpgrade.id,
+          assetId: updatedUpgrade.asset_id,
+          title: updatedUpgrade.title,
+          category: updatedUpgrade.category,
+          upgradeType: updatedUpgrade.upgrade_type,
+          estimatedCost: updatedUpgrade.estimated_cost,
+          status: updatedUpgrade.status,
+          previousStatus: existing.status,
+          decidedById: user.id
+        });
+
         // Handle snake_case from raw SQL query
         const assetId = existing.asset_id;
         const createdById = existing.created_by_id;
@@ -4142,11 +4930,27 @@ app.post('/api/upgrades/:id/status', authenticateUser, requireRole(ROLES.AGENT),
 
     const upgrade = upgradeRequest[0];
 
+    // With an approval chain, approvals are decided step by step under /api/approvals
+    const pendingApproval = await getPendingApproval('upgrade', upgradeId);
+    const usesApprovalChain = Boolean(pendingApproval) || await hasActiveChain('upgrade');
+    if (usesApprovalChain && status === 'Approved' && upgrade.status !== 'Approved') {
+      return res.status(400).json({ message: 'This upgrade is decided through its approval chain' });
+    }
+    if (pendingApproval && !['Draft', 'Pending Approval', 'Cancelled'].includes(status)) {
+      return res.status(400).json({ message: 'This upgrade is still waiting on its approval chain' });
+    }
+
+    // Record who approved it: the acting user's own employee record, never one picked by the client
+    const approvalFields = status === 'Approved' && upgrade.status !== 'Approved'
+      ? { approvedById: await getLinkedEmployeeId(user.id), approvalDate: new Date().toISOString().split('T')[0] }
+      : {};
+
     // Update the upgrade status
-    const result = await db
+    let result = await db
       .update(assetUpgrades)
       .set({ 
         status: status,
+        ...approvalFields,
         updatedById: user.id,
         updatedAt: new Date()
       })
@@ -4157,6 +4961,28 @@ app.post('/api/upgrades/:id/status', authenticateUser, requireRole(ROLES.AGENT),
       return res.status(404).json({ message: 'Upgrade not found' });
     }
 
+    if (usesApprovalChain && status === 'Pending Approval' && !pendingApproval) {
+      await startUpgradeApproval(upgradeId);
+      result = await db.select().from(assetUpgrades).where(eq(assetUpgrades.id, upgradeId));
+    } else if (pendingApproval && status !== 'Pending Approval') {
+      await db.transaction(tx => cancelApproval(tx, 'upgrade', upgradeId));
+    }
+
+    if (status === 'Approved' && upgrade.status !== 'Approved') {
+      emitWebhookEvent('upgrade.approved', {
+        id: upgrade.id,
+        assetId: upgrade.assetId,
+        title: upgrade.title,
+        category: upgrade.category,
+        upgradeType: upgrade.upgradeType,
+        estimatedCost: upgrade.estimatedCost,
+        status,
+        previousStatus: upgrade.status,
+        decidedById: user.id,
+        notes: notes || null
+      });
+    }
+
     // Create asset transaction record for certain status changes
     const shouldCreateTransaction = ['Approved', 'Completed', 'Cancelled'].includes(status);
     
@@ -4300,7 +5126,7 @@ app.post('/api/upgrades/:id/status', authenticateUser, requireRole(ROLES.AGENT),
   // Bulk Check-Out endpoint
 app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT), async (req, res) => {
   try {
-    const { assetIds, employeeId, reason, notes } = req.body;
+    const { assetIds, employeeId, reason, notes, locationId } = req.body;
     const handledById = req.user.id;
     
     // Validate inputs
@@ -4321,6 +5147,11 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
     if (!employee) {
       return res.status(404).json({ message: "Employee not found" });
     }
+
+    const locationError = await getDestinationLocationError(locationId);
+    if (locationError) {
+      return res.status(400).json({ message: locationError });
+    }
     
     const results = {
       successful: 0,
@@ -4366,11 +5197,22 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
           conditionNotes, 
           'Check-Out', 
           handledById, 
-          deviceSpecs
+          deviceSpecs,
+          locationId
         );
         
         results.successful++;
         results.transactions.push(transaction);
+
+        emitWebhookEvent('asset.checked_out', {
+          transactionId: transaction.id,
+          transactionType: 'Check-Out',
+          asset: { ...toAssetWebhookData(asset), status: 'In Use' },
+          employeeId,
+          employeeName: employee.englishName,
+          handledById,
+          notes: conditionNotes
+        });
         
         // Log activity
         await storage.logActivity({
@@ -4419,10 +5261,10 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
 // Bulk Check-In endpoint
   app.post("/api/assets/bulk/check-in", authenticateUser, requireRole(ROLES.AGENT), async (req, res) => {
     try {
-      const { assetIds, reason, notes } = req.body;
+      const { assetIds, reason, notes, locationId } = req.body;
       const handledById = req.user.id;
       
-      console.log('Bulk check-in request received:', { assetIds, reason, notes });
+      console.log('Bulk check-in request received:', { assetIds, reason, notes, locationId });
       
       // Validate inputs
       if (!assetIds || !Array.isArray(assetIds) || assetIds.length === 0) {
@@ -4432,6 +5274,11 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
       if (!reason) {
         return res.status(400).json({ message: "Reason is required" });
       }
+
+      const locationError = await getDestinationLocationError(locationId);
+      if (locationError) {
+        return res.status(400).json({ message: locationError });
+      }
       
       const results = {
         successful: 0,
@@ -4512,13 +5359,24 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
             conditionNotes,
             'Check-In', 
             handledById,
-            deviceSpecs
+            deviceSpecs,
+            locationId
           );
           
           results.successful++;
           results.transactions.push(transaction);
           
           console.log(`Successfully checked in asset ${asset.assetId}`);
+
+          emitWebhookEvent('asset.checked_in', {
+            transactionId: transaction.id,
+            transactionType: 'Check-In',
+            asset: { ...toAssetWebhookData(asset), status: 'Available' },
+            employeeId: asset.assignedEmployeeId,
+            employeeName: employeeName,
+            handledById,
+            notes: conditionNotes
+          });
           
           // Log activity
           await storage.logActivity({
@@ -4570,11 +5428,16 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
   app.post("/api/assets/:id/check-out", authenticateUser, requireRole(ROLES.AGENT), async (req, res) => {
     try {
       const assetId = parseInt(req.params.id);
-      const { employeeId, notes, type } = req.body;
+      const { employeeId, notes, type, locationId } = req.body;
       
       if (!employeeId) {
         return res.status(400).json({ message: "Employee ID is required" });
       }
+
+      const locationError = await getDestinationLocationError(locationId);
+      if (locationError) {
+        return res.status(400).json({ message: locationError });
+      }
       
       // Check if asset exists
       const asset = await storage.getAsset(assetId);
@@ -4600,7 +5463,7 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
       console.log("Checking out asset with data:", { assetId, employeeId, notes, type, handledById, deviceSpecs });
       
       // Pass the transaction type to the storage method
-      const transaction = await storage.checkOutAsset(assetId, employeeId, notes, type, handledById, deviceSpecs);
+      const transaction = await storage.checkOutAsset(assetId, employeeId, notes, type, handledById, deviceSpecs, locationId);
       
       // Log activity
       if (req.user) {
@@ -4617,6 +5480,16 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
           }
         });
       }
+
+      emitWebhookEvent('asset.checked_out', {
+        transactionId: transaction.id,
+        transactionType: type || 'Check-Out',
+        asset: { ...toAssetWebhookData(asset), status: 'In Use' },
+        employeeId,
+        employeeName: employee.englishName,
+        handledById,
+        notes: notes || null
+      });
       
       // Notify employee about asset check-out
       try {
@@ -4649,13 +5522,18 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
   app.post("/api/assets/:id/check-in", authenticateUser, requireRole(ROLES.AGENT), async (req, res) => {
     try {
       const assetId = parseInt(req.params.id);
-      const { notes, type } = req.body;
+      const { notes, type, locationId } = req.body;
       
       // Check if asset exists
       const asset = await storage.getAsset(assetId);
       if (!asset) {
         return res.status(404).json({ message: "Asset not found" });
       }
+
+      const locationError = await getDestinationLocationError(locationId);
+      if (locationError) {
+        return res.status(400).json({ message: locationError });
+      }
       
        // Build device specs object
       const deviceSpecs = {
@@ -4670,7 +5548,7 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
       console.log("Checking in asset with data:", { assetId, notes, type, handledById, deviceSpecs });
       
       // Pass the transaction type to the storage method
-      const transaction = await storage.checkInAsset(assetId, notes, type, handledById, deviceSpecs);
+      const transaction = await storage.checkInAsset(assetId, notes, type, handledById, deviceSpecs, locationId);
       
       // Log activity
       if (req.user) {
@@ -4686,6 +5564,15 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
           }
         });
       }
+
+      emitWebhookEvent('asset.checked_in', {
+        transactionId: transaction.id,
+        transactionType: type || 'Check-In',
+        asset: { ...toAssetWebhookData(asset), status: 'Available' },
+        employeeId: asset.assignedEmployeeId,
+        handledById,
+        notes: notes || null
+      });
       
       // Notify employee about asset check-in (if it was previously assigned to someone)
       try {
@@ -4931,11 +5818,11 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
           description: req.body.description,
           urgency: (req.body.urgency || 'Medium') as ValueOf<typeof ticketUrgencyEnum>,
           impact: (req.body.impact || 'Medium') as ValueOf<typeof ticketImpactEnum>,
-          timeSpent: req.body.timeSpent ? parseInt(req.body.timeSpent.toString()) : null,
           dueDate: req.body.dueDate ? new Date(req.body.dueDate) : null,
           slaTarget: req.body.slaTarget ? new Date(req.body.slaTarget) : null,
           priority: 'Medium' as ValueOf<typeof ticketPriorityEnum>, // Will be updated based on urgency × impact
-          status: 'Open' as ValueOf<typeof ticketStatusEnum>
+          status: 'Open' as ValueOf<typeof ticketStatusEnum>,
+          customFields: await validateCustomFieldValues('ticket', req.body.customFields)
         };
 
         // Validate employee exists (submittedById validation)
@@ -4960,6 +5847,12 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
 
         // Create the ticket
         const newTicket = await storage.createTicket(ticketData);
+
+        // Time spent entered with the ticket is logged in the time entry ledger, which owns the total
+        const timeSpentMinutes = req.body.timeSpent ? parseInt(req.body.timeSpent.toString()) : 0;
+        if (timeSpentMinutes > 0) {
+          await storage.addTimeEntry(newTicket.id, timeSpentMinutes / 60, 'Time spent entered when the ticket was created', (req.user as AuthUser).id);
+        }
         
         // Log activity
         await storage.logActivity({
@@ -4992,6 +5885,8 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
           }
         });
         
+        emitWebhookEvent('ticket.created', toTicketWebhookData(newTicket));
+
         // Notify assigned user if ticket is assigned during creation
         // Handle both camelCase (assignedToId) and snake_case (assigned_to_id) from database
         const assignedUserId = (newTicket as any).assignedToId || (newTicket as any).assigned_to_id;
@@ -5036,6 +5931,9 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
         console.log("Ticket created successfully:", newTicket);
         res.status(201).json(newTicket);
       } catch (error: unknown) {
+        if (error instanceof CustomFieldError) {
+          return res.status(400).json({ message: error.message });
+        }
         console.error("Create ticket error:", error);
         res.status(500).json(createErrorResponse(error instanceof Error ? error : new Error(String(error))));
       }
@@ -5107,6 +6005,9 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
       if (!currentTicket) {
         return res.status(404).json({ message: "Ticket not found" });
       }
+      ticketData.customFields = await validateCustomFieldValues('ticket', ticketData.customFields, {
+        existing: currentTicket.customFields
+      });
       
       // Validate priority calculation if urgency, impact, or priority is being updated
       if (ticketData.urgency || ticketData.impact || ticketData.priority) {
@@ -5164,6 +6065,8 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
         });
       }
       
+      emitTicketChangeEvents(currentTicket, updatedTicket);
+
       // Notify about status change
       try {
         // Handle both camelCase and snake_case from database
@@ -5299,6 +6202,10 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
         });
       }
       
+      if (updatedTicket) {
+        emitTicketChangeEvents(ticket, updatedTicket);
+      }
+
       // Notify assigned user
       try {
         const priority = ticket.priority || 'Medium';
@@ -5375,6 +6282,10 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
           }
         });
       }
+
+      if (updatedTicket) {
+        emitTicketChangeEvents(ticket, updatedTicket);
+      }
       
       res.json(updatedTicket);
     } catch (error: unknown) {
@@ -5586,7 +6497,14 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
   
   app.put("/api/system-config", authenticateUser, requireRole(ROLES.MANAGER), async (req, res) => {
     try {
-      const configData = req.body;
+      // Admin-only settings have their own endpoints: PUT /api/purchase-orders/approval-limits,
+      // PUT /api/two-factor/policy, PUT /api/sso/settings and PUT /api/password-policy
+      const {
+        poAutoApproveLimit, poManagerApprovalLimit, twoFactorRequiredRoles, passwordLoginEnabled,
+        passwordMinLength, passwordRequireUppercase, passwordRequireLowercase, passwordRequireNumber,
+        passwordRequireSymbol, passwordHistoryCount, passwordMaxAgeDays, lockoutThreshold, lockoutDurationMinutes,
+        ...configData
+      } = req.body;
       const updatedConfig = await storage.updateSystemConfig(configData);
       
       // Log critical operation
@@ -5796,10 +6714,12 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
 
   app.get("/api/export/assets", authenticateUser, requireRole(ROLES.AGENT), async (req, res) => {
     try {
-      const [assetsData, employeesData] = await Promise.all([
+      const [assetsData, employeesData, locationsData] = await Promise.all([
         storage.getAllAssets(),
-        storage.getAllEmployees()
+        storage.getAllEmployees(),
+        getAllLocations()
       ]);
+      const locationPaths = getLocationPaths(locationsData);
       
       // Create a map of employee IDs to names for assignment lookup
       const employeeMap = new Map<string, string>();
@@ -5827,7 +6747,8 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
         lifeSpan: item.lifeSpan || '',
         outOfBoxOs: item.outOfBoxOs || '',
         assignedEmployeeId: item.assignedEmployeeId || '',
-        assignedEmployeeName: item.assignedEmployeeId ? (employeeMap.get(item.assignedEmployeeId) || '') : '' // Fixed: Added employee name
+        assignedEmployeeName: item.assignedEmployeeId ? (employeeMap.get(item.assignedEmployeeId) || '') : '', // Fixed: Added employee name
+        location: item.locationId ? locationPaths.get(item.locationId) || '' : ''
       }));
       
       const csv = [
@@ -5968,12 +6889,16 @@ app.post("/api/assets/bulk/check-out", authenticateUser, requireRole(ROLES.AGENT
             submittedById: item.submittedById ? parseInt(item.submittedById.toString()) : defaultEmployee.id,
             assignedToId: item.assignedToId ? parseInt(item.assignedToId.toString()) : null,
             relatedAssetId: item.relatedAssetId ? parseInt(item.relatedAssetId.toString()) : null,
-            timeSpent: item.timeSpent ? parseInt(item.timeSpent.toString()) : null,    // ✅ Added: new field
             dueDate: item.dueDate || null,
             slaTarget: item.slaTarget || null,
             resolution: item.resolution || null                                        // ✅ Added: new field
             // ✅ Removed deprecated fields: tags, escalationLevel, rootCause, etc.
           });
+          // Imported time spent becomes a time entry (the assignee's, else the importer's); the ledger owns the ticket's total
+          const timeSpentMinutes = item.timeSpent ? parseInt(item.timeSpent.toString()) : 0;
+          if (timeSpentMinutes > 0) {
+            await storage.addTimeEntry(result.id, timeSpentMinutes / 60, 'Imported time spent', result.assignedToId ?? (req.user as AuthUser).id);
+          }
           successful++;
         } catch (error: any) {
           errors.push(`Ticket ${item.title || item.summary || 'Unknown'}: ${error.message}`);
@@ -6599,7 +7524,7 @@ const leavingEmployeesWithAssets = employees.filter(emp => {
 
   app.get("/api/reports/assets", authenticateUser, requireRole(ROLES.AGENT), async (req, res) => {
     try {
-      const assets = await storage.getAllAssets();
+      const [assets, allLocations] = await Promise.all([storage.getAllAssets(), getAllLocations()]);
       
       // Asset Summary by Type
       const assetsByType: Record<string, number> = {};
@@ -6613,6 +7538,28 @@ const leavingEmployeesWithAssets = employees.filter(emp => {
         assetsByStatus[asset.status] = (assetsByStatus[asset.status] || 0) + 1;
       });
       
+      // Asset Summary by Location - count is stored directly in the location,
+      // totalCount includes every location beneath it
+      const directCounts = new Map<number, number>();
+      assets.forEach(asset => {
+        if (asset.locationId) {
+          directCounts.set(asset.locationId, (directCounts.get(asset.locationId) || 0) + 1);
+        }
+      });
+      const locationPaths = getLocationPaths(allLocations);
+      const assetsByLocation = allLocations
+        .map(location => ({
+          locationId: location.id,
+          name: location.name,
+          type: location.type,
+          path: locationPaths.get(location.id) || location.name,
+          count: directCounts.get(location.id) || 0,
+          totalCount: getDescendantIds(allLocations, location.id)
+            .reduce((sum, id) => sum + (directCounts.get(id) || 0), 0)
+        }))
+        .sort((a, b) => a.path.localeCompare(b.path));
+      const assetsWithoutLocation = assets.filter(a => !a.locationId).length;
+      
       // Assigned vs Unassigned Assets
       const assignedAssets = assets.filter(a => a.assignedEmployeeId !== null);
       const unassignedAssets = assets.filter(a => a.assignedEmployeeId === null);
@@ -6659,6 +7606,8 @@ const leavingEmployeesWithAssets = employees.filter(emp => {
       res.json({
         assetsByType,
         assetsByStatus,
+        assetsByLocation,
+        assetsWithoutLocation,
         assignedVsUnassigned: {
           assigned: assignedAssets.length,
           unassigned: unassignedAssets.length
@@ -6672,6 +7621,25 @@ const leavingEmployeesWithAssets = employees.filter(emp => {
     }
   });
 
+  // Consumables issued per department; from/to are YYYY-MM-DD and both inclusive
+  app.get("/api/reports/consumables", authenticateUser, requireRole(ROLES.AGENT), async (req, res) => {
+    try {
+      const parseDay = (value: unknown, endOfDay: boolean) => {
+        if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+        const date = new Date(`${value}T00:00:00`);
+        if (endOfDay) date.setHours(23, 59, 59, 999);
+        return isNaN(date.getTime()) ? undefined : date;
+      };
+
+      res.json(await getConsumptionReport({
+        from: parseDay(req.query.from, false),
+        to: parseDay(req.query.to, true),
+      }));
+    } catch (error: unknown) {
+      res.status(500).json(createErrorResponse(error instanceof Error ? error : new Error(String(error))));
+    }
+  });
+
   app.get("/api/reports/tickets", authenticateUser, requireRole(ROLES.AGENT), async (req, res) => {
     try {
       const tickets = await storage.getAllTickets();
@@ -7081,8 +8049,8 @@ const leavingEmployeesWithAssets = employees.filter(emp => {
         return res.status(400).json({ message: 'Invalid token format' });
       }
 
-      if (!newPassword || typeof newPassword !== 'string' || newPassword.length < 8) {
-        return res.status(400).json({ message: 'New password must be at least 8 characters long' });
+      if (!newPassword || typeof newPassword !== 'string') {
+        return res.status(400).json({ message: 'New password is required' });
       }
 
       // Rate limiting check (3 attempts per IP per hour)
@@ -7140,23 +8108,17 @@ const leavingEmployeesWithAssets = employees.filter(emp => {
         return res.status(404).json({ message: 'User not found' });
       }
       
-      // Enhanced password validation
-      if (!/^(?=.*[A-Za-z])(?=.*\d)[A-Za-z\d@$!%*#?&]{8,}$/.test(newPassword)) {
-        return res.status(400).json({
-          success: false,
-          message: 'Password must contain at least one letter, one number, and be at least 8 characters long'
-        });
+      // Check the password policy, then store the new password (clears an expiry or lockout)
+      let updated;
+      try {
+        updated = await changeUserPassword(userId, newPassword);
+      } catch (policyError) {
+        if (policyError instanceof PasswordPolicyError) {
+          return res.status(400).json({ success: false, message: policyError.message });
+        }
+        throw policyError;
       }
       
-      // Hash the new password with enhanced cost factor
-      const hashedPassword = await hash(newPassword, 12); // Increased from 10 to 12
-      
-      // Update the user's password
-      const updated = await storage.updateUser(userId, { 
-        password: hashedPassword,
-        passwordLastChanged: new Date()
-      });
-      
       if (!updated) {
         return res.status(500).json({ 
           success: false, 
@@ -7261,10 +8223,12 @@ const leavingEmployeesWithAssets = employees.filter(emp => {
 
   app.get("/api/export/assets", authenticateUser, requireRole(ROLES.AGENT), async (req, res) => {
     try {
-      const [assetsData, employeesData] = await Promise.all([
+      const [assetsData, employeesData, locationsData] = await Promise.all([
         storage.getAllAssets(),
-        storage.getAllEmployees()
+        storage.getAllEmployees(),
+        getAllLocations()
       ]);
+      const locationPaths = getLocationPaths(locationsData);
       
       // Create a map of employee IDs to names for assignment lookup
       const employeeMap = new Map<string, string>();
@@ -7285,7 +8249,7 @@ const leavingEmployeesWithAssets = employees.filter(emp => {
         'Purchase Date': formatShortDate(asset.purchaseDate), // Use short date format
         'Purchase Price': asset.buyPrice || '',
         'Warranty Expiry': formatShortDate(asset.warrantyExpiryDate), // Use short date format
-        'Location': asset.location || '',
+        'Location': asset.locationId ? locationPaths.get(asset.locationId) || '' : '',
         'Department': asset.department || '',
         'Specifications': asset.specs || '',
         'Assigned Employee ID': asset.assignedEmployeeId || '',
@@ -7511,10 +8475,6 @@ const leavingEmployeesWithAssets = employees.filter(emp => {
         return res.status(400).json({ message: "Token and new password are required" });
       }
       
-      if (newPassword.length < 6) {
-        return res.status(400).json({ message: "Password must be at least 6 characters long" });
-      }
-      
       // Validate token and get user ID
       const userId = await storage.validatePasswordResetToken(token);
       
@@ -7522,18 +8482,16 @@ const leavingEmployeesWithAssets = employees.filter(emp => {
         return res.status(400).json({ message: "Invalid or expired reset token" });
       }
       
-      // Hash new password
-      const hashedPassword = await hash(newPassword, 10);
-      
-      // Update user password
-      const updatedUser = await storage.updateUser(userId, { password: hashedPassword });
+      // Check the password policy and update the user password
+      const updatedUser = await changeUserPassword(userId, newPassword);
       
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Invalidate the token
+      // Invalidate the token and sign out existing sessions
       await storage.invalidatePasswordResetToken(token);
+      await storage.deleteAllUserSessions(userId);
       
       // Log activity
       await storage.logActivity({
@@ -7546,6 +8504,9 @@ const leavingEmployeesWithAssets = employees.filter(emp => {
       
       res.json({ message: "Password has been successfully reset. You can now log in with your new password." });
     } catch (error: unknown) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Reset password error:', error);
       res.status(500).json({ message: "Internal server error" });
     }
@@ -7556,12 +8517,14 @@ const leavingEmployeesWithAssets = employees.filter(emp => {
     const users = await storage.getAllUsers();
     if (users.length === 0) {
       const hashedPassword = await hash("admin123", 10);
-      await storage.createUser({
+      const adminUser = await storage.createUser({
         username: "admin",
         password: hashedPassword,
         email: "admin@simpleit.com",
         role: "admin"
       });
+      // The well-known default password has to be changed at the first login
+      await recordPasswordChange(adminUser.id, null, { mustChangePassword: true });
       console.log("Admin user created");
     }
   } catch (error: any) {
@@ -7635,6 +8598,9 @@ app.get("/api/tickets/:id/history", authenticateUser, async (req, res) => {
       if (!oldTicket) {
         return res.status(404).json({ message: "Ticket not found" });
       }
+      updateData.customFields = await validateCustomFieldValues('ticket', updateData.customFields, {
+        existing: oldTicket.customFields
+      });
 
       // Use updateTicketWithHistory to ensure proper tracking
       const updatedTicket = await storage.updateTicketWithHistory(ticketId, updateData, userId);
@@ -7651,6 +8617,8 @@ app.get("/api/tickets/:id/history", authenticateUser, async (req, res) => {
         details: updateData
       });
 
+      emitTicketChangeEvents(oldTicket, updatedTicket);
+
       // NOTIFICATION LOGIC - Handle assignment changes and status changes
       try {
         const ticketIdString = (updatedTicket as any).ticketId || (updatedTicket as any).ticket_id || `#${updatedTicket.id}`;
@@ -7732,34 +8700,14 @@ app.get("/api/tickets/:id/history", authenticateUser, async (req, res) => {
       
       res.json(updatedTicket);
     } catch (error: unknown) {
+      if (error instanceof CustomFieldError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Update ticket error:", error);
       res.status(500).json(createErrorResponse(error instanceof Error ? error : new Error(String(error))));
     }
   });
 
-  app.post("/api/tickets/:id/time", authenticateUser, async (req, res) => {
-    try {
-      const ticketId = parseInt(req.params.id);
-      if (isNaN(ticketId)) {
-        return res.status(400).json({ message: "Invalid ticket ID" });
-      }
-      
-      const { hours, description } = req.body;
-      
-      if (!hours || hours <= 0) {
-        return res.status(400).json({ message: "Valid hours value is required" });
-      }
-      
-      const userId = req.user.id;
-      
-      const timeEntry = await storage.addTimeEntry(ticketId, hours, description || '', userId);
-      
-      res.status(201).json(timeEntry);
-    } catch (error: unknown) {
-      console.error("Add time entry error:", error);
-      res.status(500).json(createErrorResponse(error instanceof Error ? error : new Error(String(error))));
-    }
-  });
   // Assign ticket to user
   app.post("/api/tickets/:id/assign", authenticateUser, async (req, res) => {
     try {
@@ -7994,7 +8942,7 @@ app.get("/api/tickets/:id/history", authenticateUser, async (req, res) => {
     try {
       const currentUser = req.user as any;
       const currentUserLevel = getRoleLevel(currentUser.role);
-      const userData = req.body;
+      const { mustChangePassword, ...userData } = req.body;
       
       // Prevent role escalation: cannot create users with higher role level
       if (userData.role) {
@@ -8006,12 +8954,15 @@ app.get("/api/tickets/:id/history", authenticateUser, async (req, res) => {
         }
       }
       
-      // Hash password if provided
+      // Check the password policy and hash the password if provided
       if (userData.password) {
+        await validateNewPassword(userData.password);
         userData.password = await hash(userData.password, 10);
       }
       
       const newUser = await storage.createUser(userData);
+      // Without a password the account gets the built-in default, which has to be changed at the first login
+      await recordPasswordChange(newUser.id, null, { mustChangePassword: mustChangePassword === true || !userData.password });
       
       // Log critical operation
       if (req.user) {
@@ -8028,6 +8979,9 @@ app.get("/api/tickets/:id/history", authenticateUser, async (req, res) => {
       
       res.status(201).json(newUser);
     } catch (error: unknown) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("User creation error:", error);
       res.status(500).json(createErrorResponse(error instanceof Error ? error : new Error(String(error))));
     }
@@ -8038,7 +8992,7 @@ app.get("/api/tickets/:id/history", authenticateUser, async (req, res) => {
       const requestingUser = req.user as any;
       const requestingUserLevel = getRoleLevel(requestingUser.role);
       const id = parseInt(req.params.id);
-      const userData = req.body;
+      const { mustChangePassword, ...userData } = req.body;
       
       // Get current user data for validation and activity logging
       const currentUser = await storage.getUser(id);
@@ -8064,8 +9018,9 @@ app.get("/api/tickets/:id/history", authenticateUser, async (req, res) => {
         }
       }
       
-      // Hash password if provided
+      // Check the password policy (including reuse) and hash the password if provided
       if (userData.password) {
+        await validateNewPassword(userData.password, id);
         userData.password = await hash(userData.password, 10);
       }
       
@@ -8074,6 +9029,17 @@ app.get("/api/tickets/:id/history", authenticateUser, async (req, res) => {
         return res.status(404).json({ message: "User not found" });
       }
       
+      if (userData.password) {
+        await recordPasswordChange(id, currentUser.password || null, { mustChangePassword: mustChangePassword === true });
+      } else if (typeof mustChangePassword === 'boolean') {
+        await setMustChangePassword(id, mustChangePassword);
+      }
+      
+      // Deactivation or a new password signs the user out everywhere (but not the admin making the change)
+      if (userData.password || (userData.isActive === false && currentUser.isActive)) {
+        await storage.deleteAllUserSessions(id, id === requestingUser.id ? req.sessionID : undefined);
+      }
+      
       // Log critical operation - role changes
       if (req.user && userData.role && userData.role !== currentUser.role) {
         logger.warn('users', `User role changed: ${currentUser.username} (${currentUser.role} → ${userData.role})`, {
@@ -8115,6 +9081,9 @@ app.get("/api/tickets/:id/history", authenticateUser, async (req, res) => {
       
       res.json(updatedUser);
     } catch (error: unknown) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("User update error:", error);
       res.status(500).json(createErrorResponse(error instanceof Error ? error : new Error(String(error))));
     }
@@ -8198,31 +9167,29 @@ app.get("/api/tickets/:id/history", authenticateUser, async (req, res) => {
   app.put("/api/users/:id/change-password", authenticateUser, requireRole(ROLES.MANAGER), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { password } = req.body;
+      const { password, mustChangePassword } = req.body;
       
       if (!password) {
         return res.status(400).json({ message: "Password is required" });
       }
       
-      if (password.length < 6) {
-        return res.status(400).json({ message: "Password must be at least 6 characters" });
-      }
-      
       // Get current user for activity logging
       const currentUser = await storage.getUser(id);
       if (!currentUser) {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Hash the new password
-      const hashedPassword = await hash(password, 10);
-      
-      // Update only the password
-      const updatedUser = await storage.updateUser(id, { password: hashedPassword });
+      // Check the password policy and update only the password
+      // An admin-set password can require a new one at the user's next login (never for their own account)
+      const isOwnAccount = id === (req.user as schema.User).id;
+      const updatedUser = await changeUserPassword(id, password, { mustChangePassword: mustChangePassword === true && !isOwnAccount });
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
       }
       
+      // Sign out existing sessions (keeping the current one when users change their own password)
+      await storage.deleteAllUserSessions(id, isOwnAccount ? req.sessionID : undefined);
+      
       // Log activity
       if (req.user) {
         await storage.logActivity({
@@ -8232,18 +9199,67 @@ app.get("/api/tickets/:id/history", authenticateUser, async (req, res) => {
           entityId: id,
           details: { 
             username: currentUser.username,
-            changedByUser: (req.user as schema.User).username
+            changedByUser: (req.user as schema.User).username,
+            mustChangePassword: mustChangePassword === true && !isOwnAccount
           }
         });
       }
       
       res.json({ message: "Password changed successfully" });
     } catch (error: unknown) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Password change error:", error);
       res.status(500).json(createErrorResponse(error instanceof Error ? error : new Error(String(error))));
     }
   });
 
+  /**
+   * POST /api/user/change-password
+   * Self-service password change from the profile page; requires the current password
+   */
+  app.post("/api/user/change-password", authenticateUser, async (req, res) => {
+    const sessionUser = req.user as schema.User;
+    try {
+      const { currentPassword, newPassword } = req.body;
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ message: "Current and new password are required" });
+      }
+
+      const user = await storage.getUser(sessionUser.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!user.password || !(await compare(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await changeUserPassword(user.id, newPassword);
+      // Other devices signed in with the old password are signed out; this session stays
+      await storage.deleteAllUserSessions(user.id, req.sessionID);
+
+      await logActivity({
+        userId: user.id,
+        action: AuditAction.UPDATE,
+        entityType: EntityType.USER,
+        entityId: user.id,
+        details: { message: 'Password changed from profile' }
+      });
+
+      res.json({ message: "Password changed successfully" });
+    } catch (error: unknown) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      logger.error('auth', 'Self-service password change failed', {
+        userId: sessionUser.id,
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
   // Bulk Asset Operations
   // Sell multiple assets
   app.post("/api/assets/sell", authenticateUser, requireRole(ROLES.MANAGER), async (req, res) => {
@@ -0,0 +1,153 @@
+/**
+ * API Token Routes
+ * Self-service personal access tokens for the signed-in user
+ * Session only: API tokens cannot list or mint other tokens
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { db } from '../db';
+import { apiTokens } from '@shared/schema';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { fromZodError } from 'zod-validation-error';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { generateApiToken, getGrantableScopes, toApiTokenResponse } from '../services/apiTokenService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const MAX_EXPIRY_DAYS = 365;
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.string()).min(1, 'Select at least one scope'),
+  // Days until the token expires; null for a token that never expires
+  expiresInDays: z.number().int().min(1).max(MAX_EXPIRY_DAYS).nullable(),
+});
+
+/**
+ * GET /api/api-tokens/scopes
+ * Scopes the current user may grant (the permissions of their role)
+ */
+router.get('/scopes', (req, res) => {
+  const user = req.user as AuthUser;
+  res.json(getGrantableScopes(user.role));
+});
+
+/**
+ * GET /api/api-tokens
+ * The current user's tokens, newest first, including revoked ones
+ */
+router.get('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const tokens = await db.select().from(apiTokens)
+      .where(eq(apiTokens.userId, user.id))
+      .orderBy(desc(apiTokens.createdAt));
+    res.json(tokens.map(toApiTokenResponse));
+  } catch (error) {
+    logger.error('api-tokens', 'Failed to list API tokens', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch API tokens' });
+  }
+});
+
+/**
+ * POST /api/api-tokens
+ * Create a token; the plain token is only returned in this response
+ */
+router.post('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = createTokenSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const grantable = getGrantableScopes(user.role);
+    const notAllowed = parsed.data.scopes.filter(scope => !grantable.includes(scope));
+    if (notAllowed.length > 0) {
+      return res.status(403).json({ message: `Your role cannot grant: ${notAllowed.join(', ')}` });
+    }
+
+    const { token, tokenHash, tokenPrefix } = generateApiToken();
+    const expiresAt = parsed.data.expiresInDays
+      ? new Date(Date.now() + parsed.data.expiresInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const [created] = await db.insert(apiTokens).values({
+      userId: user.id,
+      name: parsed.data.name,
+      tokenHash,
+      tokenPrefix,
+      scopes: Array.from(new Set(parsed.data.scopes)),
+      expiresAt,
+    }).returning();
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.API_TOKEN,
+      entityId: created.id,
+      details: { name: created.name, tokenPrefix, scopes: created.scopes, expiresAt }
+    });
+
+    res.status(201).json({ ...toApiTokenResponse(created), token });
+  } catch (error) {
+    logger.error('api-tokens', 'Failed to create API token', {
+      userId: user.id,
+      metadata: { name: req.body?.name },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to create API token' });
+  }
+});
+
+/**
+ * DELETE /api/api-tokens/:id
+ * Revoke one of the current user's tokens; the row is kept so its last use stays visible
+ */
+router.delete('/:id', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid token ID' });
+    }
+
+    const [revoked] = await db.update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, user.id), isNull(apiTokens.revokedAt)))
+      .returning();
+    if (!revoked) {
+      return res.status(404).json({ message: 'API token not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.DELETE,
+      entityType: EntityType.API_TOKEN,
+      entityId: id,
+      details: { name: revoked.name, tokenPrefix: revoked.tokenPrefix }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('api-tokens', 'Failed to revoke API token', {
+      userId: user.id,
+      metadata: { tokenId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to revoke API token' });
+  }
+});
+
+export default router;
@@ -0,0 +1,945 @@
+/**
+ * Public REST API v1
+ * Stable, documented surface for scripts and integrations: assets, employees, tickets and maintenance
+ * Accepts the session cookie or a personal API token (Authorization: Bearer sit_...)
+ * Every list returns { data, pagination: { page, limit, totalCount, totalPages, hasMore } }
+ * The OpenAPI document is built from the same zod schemas the handlers validate with
+ */
+
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import { createSelectSchema } from 'drizzle-zod';
+import { db } from '../db';
+import {
+  assets, employees, tickets, assetMaintenance,
+  insertAssetSchema, insertEmployeeSchema, insertTicketSchema, insertAssetMaintenanceSchema
+} from '@shared/schema';
+import { and, asc, count, eq, ilike, inArray, or, sql, type SQL } from 'drizzle-orm';
+import { fromZodError } from 'zod-validation-error';
+import { PERMISSIONS, hasPermission, type Permission } from '@shared/roles.config';
+import { getUserRoleLevel } from '../rbac';
+import { storage } from '../storage';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import {
+  emitWebhookEvent, emitTicketChangeEvents, toTicketWebhookData, toEmployeeWebhookData
+} from '../services/webhookService';
+import { API_TOKEN_PREFIX, API_TOKEN_SCOPES, type ApiTokenRequest } from '../services/apiTokenService';
+import {
+  zodToJsonSchema, paginatedSchema, PAGINATION_SCHEMA, ERROR_SCHEMA, type JsonSchema
+} from '../services/openApiService';
+import { handleEmployeeOffboardingTrigger } from '../services/offboardingService';
+import { handleNewEmployeeOnboarding } from '../services/onboardingService';
+import { getAllLocations, getDescendantIds } from '../services/locationService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// ==========================================
+// REQUEST SCHEMAS
+// ==========================================
+
+const assetBodySchema = insertAssetSchema;
+const employeeBodySchema = insertEmployeeSchema;
+const maintenanceBodySchema = insertAssetMaintenanceSchema;
+
+// Tickets: workflow fields (SLA, merge, priority) are managed by the server
+const ticketCreateSchema = insertTicketSchema.pick({
+  submittedById: true,
+  assignedToId: true,
+  relatedAssetId: true,
+  type: true,
+  urgency: true,
+  impact: true,
+  title: true,
+  description: true,
+}).extend({
+  categoryId: z.number().int(),
+  dueDate: z.coerce.date().nullable().optional(),
+});
+
+const ticketUpdateSchema = insertTicketSchema.pick({
+  assignedToId: true,
+  relatedAssetId: true,
+  type: true,
+  categoryId: true,
+  urgency: true,
+  impact: true,
+  title: true,
+  description: true,
+  resolution: true,
+  status: true,
+}).extend({
+  dueDate: z.coerce.date().nullable().optional(),
+}).partial();
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+function requireScope(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user as AuthUser;
+    if (!hasPermission(user.role, permission)) {
+      return res.status(403).json({ message: `Requires the "${permission}" permission` });
+    }
+    next();
+  };
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+function parsePagination(req: Request) {
+  const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  return { page, limit, offset: (page - 1) * limit };
+}
+
+function paginated<T>(data: T[], totalCount: number, page: number, limit: number) {
+  const totalPages = Math.ceil(totalCount / limit);
+  return { data, pagination: { page, limit, totalCount, totalPages, hasMore: page < totalPages } };
+}
+
+/**
+ * Comma-separated query value as a list, e.g. ?status=Open,In%20Progress
+ */
+function queryList(value: unknown): string[] {
+  return typeof value === 'string' && value ? value.split(',').map(v => v.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Employee-level users only see their own assets, tickets and maintenance, as in the session API
+ * Returns undefined when the user is not restricted, null when they have no employee record
+ */
+async function getRestrictedEmployeeId(user: AuthUser): Promise<number | null | undefined> {
+  if (getUserRoleLevel(user) > 1) return undefined;
+  const [employee] = await db.select({ id: employees.id }).from(employees).where(eq(employees.userId, user.id));
+  return employee?.id ?? null;
+}
+
+function ownAssetsCondition(employeeId: number | null): SQL {
+  return employeeId === null ? sql`false` : eq(assets.assignedEmployeeId, employeeId);
+}
+
+function ownTicketsCondition(user: AuthUser, employeeId: number | null): SQL {
+  return employeeId === null
+    ? eq(tickets.assignedToId, user.id)
+    : or(eq(tickets.assignedToId, user.id), eq(tickets.submittedById, employeeId))!;
+}
+
+function ownMaintenanceCondition(employeeId: number | null): SQL {
+  return employeeId === null
+    ? sql`false`
+    : inArray(assetMaintenance.assetId, db.select({ id: assets.id }).from(assets).where(eq(assets.assignedEmployeeId, employeeId)));
+}
+
+function logFailure(message: string, user: AuthUser | undefined, metadata: Record<string, unknown>, error: unknown) {
+  logger.error('api-v1', message, {
+    userId: user?.id,
+    metadata,
+    error: error instanceof Error ? error : new Error(String(error))
+  });
+}
+
+// ==========================================
+// ME
+// ==========================================
+
+/**
+ * GET /api/v1/me
+ * The authenticated user and, for token requests, the token's scopes
+ */
+router.get('/me', (req, res) => {
+  const user = req.user as AuthUser & Record<string, unknown>;
+  const apiToken = (req as ApiTokenRequest).apiToken;
+  res.json({
+    id: user.id,
+    username: user.username,
+    email: user.email ?? null,
+    role: user.role,
+    tokenScopes: apiToken ? apiToken.scopes : null,
+  });
+});
+
+// ==========================================
+// ASSETS
+// ==========================================
+
+/**
+ * GET /api/v1/assets
+ * Query params: page, limit, search, status, type, assignedEmployeeId, locationId
+ */
+router.get('/assets', requireScope(PERMISSIONS.VIEW_ASSETS), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const { page, limit, offset } = parsePagination(req);
+    const conditions: SQL[] = [];
+
+    const restrictedTo = await getRestrictedEmployeeId(user);
+    if (restrictedTo !== undefined) conditions.push(ownAssetsCondition(restrictedTo));
+
+    const statuses = queryList(req.query.status);
+    if (statuses.length > 0) conditions.push(inArray(assets.status, statuses));
+    const types = queryList(req.query.type);
+    if (types.length > 0) conditions.push(inArray(assets.type, types));
+    const assignedEmployeeId = parseId(req.query.assignedEmployeeId as string);
+    if (assignedEmployeeId) conditions.push(eq(assets.assignedEmployeeId, assignedEmployeeId));
+    const locationId = parseId(req.query.locationId as string);
+    if (locationId) conditions.push(inArray(assets.locationId, getDescendantIds(await getAllLocations(), locationId)));
+    if (typeof req.query.search === 'string' && req.query.search) {
+      const pattern = `%${req.query.search}%`;
+      conditions.push(or(
+        ilike(assets.assetId, pattern),
+        ilike(assets.brand, pattern),
+        ilike(assets.modelName, pattern),
+        ilike(assets.serialNumber, pattern)
+      )!);
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const [{ total }] = await db.select({ total: count() }).from(assets).where(where);
+    const rows = await db.select().from(assets).where(where).orderBy(asc(assets.id)).limit(limit).offset(offset);
+
+    res.json(paginated(rows, total, page, limit));
+  } catch (error) {
+    logFailure('Failed to list assets', user, { query: req.query }, error);
+    res.status(500).json({ message: 'Failed to fetch assets' });
+  }
+});
+
+/**
+ * GET /api/v1/assets/:id
+ */
+router.get('/assets/:id', requireScope(PERMISSIONS.VIEW_ASSETS), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid asset ID' });
+    }
+
+    const conditions: SQL[] = [eq(assets.id, id)];
+    const restrictedTo = await getRestrictedEmployeeId(user);
+    if (restrictedTo !== undefined) conditions.push(ownAssetsCondition(restrictedTo));
+
+    const [asset] = await db.select().from(assets).where(and(...conditions));
+    if (!asset) {
+      return res.status(404).json({ message: 'Asset not found' });
+    }
+
+    res.json(asset);
+  } catch (error) {
+    logFailure('Failed to fetch asset', user, { assetId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to fetch asset' });
+  }
+});
+
+/**
+ * POST /api/v1/assets
+ */
+router.post('/assets', requireScope(PERMISSIONS.MANAGE_ASSETS), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = assetBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const created = await storage.createAsset(parsed.data);
+    const asset = await storage.getAsset(created.id);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.ASSET,
+      entityId: created.id,
+      details: { source: 'api-v1', assetId: asset?.assetId }
+    });
+
+    res.status(201).json(asset);
+  } catch (error) {
+    logFailure('Failed to create asset', user, {}, error);
+    res.status(500).json({ message: 'Failed to create asset' });
+  }
+});
+
+/**
+ * PATCH /api/v1/assets/:id
+ */
+router.patch('/assets/:id', requireScope(PERMISSIONS.MANAGE_ASSETS), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid asset ID' });
+    }
+
+    const parsed = assetBodySchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const asset = await storage.updateAsset(id, parsed.data);
+    if (!asset) {
+      return res.status(404).json({ message: 'Asset not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.ASSET,
+      entityId: id,
+      details: { source: 'api-v1', changes: parsed.data }
+    });
+
+    res.json(asset);
+  } catch (error) {
+    logFailure('Failed to update asset', user, { assetId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to update asset' });
+  }
+});
+
+// ==========================================
+// EMPLOYEES
+// ==========================================
+
+/**
+ * GET /api/v1/employees
+ * Query params: page, limit, search, status, department
+ */
+router.get('/employees', requireScope(PERMISSIONS.VIEW_EMPLOYEES), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const { page, limit, offset } = parsePagination(req);
+    const conditions: SQL[] = [];
+
+    const statuses = queryList(req.query.status);
+    if (statuses.length > 0) conditions.push(inArray(employees.status, statuses as typeof employees.status.enumValues));
+    const departments = queryList(req.query.department);
+    if (departments.length > 0) conditions.push(inArray(employees.department, departments));
+    if (typeof req.query.search === 'string' && req.query.search) {
+      const pattern = `%${req.query.search}%`;
+      conditions.push(or(
+        ilike(employees.empId, pattern),
+        ilike(employees.englishName, pattern),
+        ilike(employees.arabicName, pattern),
+        ilike(employees.corporateEmail, pattern)
+      )!);
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const [{ total }] = await db.select({ total: count() }).from(employees).where(where);
+    const rows = await db.select().from(employees).where(where).orderBy(asc(employees.id)).limit(limit).offset(offset);
+
+    res.json(paginated(rows, total, page, limit));
+  } catch (error) {
+    logFailure('Failed to list employees', user, { query: req.query }, error);
+    res.status(500).json({ message: 'Failed to fetch employees' });
+  }
+});
+
+/**
+ * GET /api/v1/employees/:id
+ */
+router.get('/employees/:id', requireScope(PERMISSIONS.VIEW_EMPLOYEES), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid employee ID' });
+    }
+
+    const [employee] = await db.select().from(employees).where(eq(employees.id, id));
+    if (!employee) {
+      return res.status(404).json({ message: 'Employee not found' });
+    }
+
+    res.json(employee);
+  } catch (error) {
+    logFailure('Failed to fetch employee', user, { employeeId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to fetch employee' });
+  }
+});
+
+/**
+ * POST /api/v1/employees
+ */
+router.post('/employees', requireScope(PERMISSIONS.MANAGE_EMPLOYEES), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = employeeBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const created = await storage.createEmployee(parsed.data);
+    const employee = await storage.getEmployee(created.id);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.EMPLOYEE,
+      entityId: created.id,
+      details: { source: 'api-v1', empId: employee?.empId }
+    });
+
+    emitWebhookEvent('employee.created', toEmployeeWebhookData(employee ?? created));
+    await handleNewEmployeeOnboarding(created.id, user.id);
+
+    res.status(201).json(employee);
+  } catch (error) {
+    logFailure('Failed to create employee', user, {}, error);
+    res.status(500).json({ message: 'Failed to create employee' });
+  }
+});
+
+/**
+ * PATCH /api/v1/employees/:id
+ */
+router.patch('/employees/:id', requireScope(PERMISSIONS.MANAGE_EMPLOYEES), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid employee ID' });
+    }
+
+    const parsed = employeeBodySchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const existing = await storage.getEmployee(id);
+    if (!existing) {
+      return res.status(404).json({ message: 'Employee not found' });
+    }
+
+    const employee = await storage.updateEmployee(id, parsed.data);
+    if (!employee) {
+      return res.status(404).json({ message: 'Employee not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.EMPLOYEE,
+      entityId: id,
+      details: { source: 'api-v1', changes: parsed.data }
+    });
+
+    const status = parsed.data.status;
+    if (status && existing.status !== status && (status === 'Resigned' || status === 'Terminated')) {
+      emitWebhookEvent('employee.offboarded', {
+        ...toEmployeeWebhookData(employee),
+        previousStatus: existing.status
+      });
+    }
+    await handleEmployeeOffboardingTrigger(existing, employee, user.id);
+
+    res.json(employee);
+  } catch (error) {
+    logFailure('Failed to update employee', user, { employeeId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to update employee' });
+  }
+});
+
+// ==========================================
+// TICKETS
+// ==========================================
+
+/**
+ * GET /api/v1/tickets
+ * Query params: page, limit, search, status, priority, assignedToId, submittedById
+ */
+router.get('/tickets', requireScope(PERMISSIONS.VIEW_TICKETS), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const { page, limit, offset } = parsePagination(req);
+    const conditions: SQL[] = [];
+
+    const restrictedTo = await getRestrictedEmployeeId(user);
+    if (restrictedTo !== undefined) conditions.push(ownTicketsCondition(user, restrictedTo));
+
+    const statuses = queryList(req.query.status);
+    if (statuses.length > 0) conditions.push(inArray(tickets.status, statuses as typeof tickets.status.enumValues));
+    const priorities = queryList(req.query.priority);
+    if (priorities.length > 0) conditions.push(inArray(tickets.priority, priorities as typeof tickets.priority.enumValues));
+    const assignedToId = parseId(req.query.assignedToId as string);
+    if (assignedToId) conditions.push(eq(tickets.assignedToId, assignedToId));
+    const submittedById = parseId(req.query.submittedById as string);
+    if (submittedById) conditions.push(eq(tickets.submittedById, submittedById));
+    if (typeof req.query.search === 'string' && req.query.search) {
+      const pattern = `%${req.query.search}%`;
+      conditions.push(or(ilike(tickets.ticketId, pattern), ilike(tickets.title, pattern))!);
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const [{ total }] = await db.select({ total: count() }).from(tickets).where(where);
+    const rows = await db.select().from(tickets).where(where).orderBy(asc(tickets.id)).limit(limit).offset(offset);
+
+    res.json(paginated(rows, total, page, limit));
+  } catch (error) {
+    logFailure('Failed to list tickets', user, { query: req.query }, error);
+    res.status(500).json({ message: 'Failed to fetch tickets' });
+  }
+});
+
+/**
+ * GET /api/v1/tickets/:id
+ */
+router.get('/tickets/:id', requireScope(PERMISSIONS.VIEW_TICKETS), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid ticket ID' });
+    }
+
+    const conditions: SQL[] = [eq(tickets.id, id)];
+    const restrictedTo = await getRestrictedEmployeeId(user);
+    if (restrictedTo !== undefined) conditions.push(ownTicketsCondition(user, restrictedTo));
+
+    const [ticket] = await db.select().from(tickets).where(and(...conditions));
+    if (!ticket) {
+      return res.status(404).json({ message: 'Ticket not found' });
+    }
+
+    res.json(ticket);
+  } catch (error) {
+    logFailure('Failed to fetch ticket', user, { ticketId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to fetch ticket' });
+  }
+});
+
+/**
+ * POST /api/v1/tickets
+ * Priority is calculated from urgency × impact and the SLA policy is applied, as for tickets created in the UI
+ */
+router.post('/tickets', requireScope(PERMISSIONS.MANAGE_TICKETS), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = ticketCreateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const submitter = await storage.getEmployee(parsed.data.submittedById);
+    if (!submitter) {
+      return res.status(400).json({ message: `No employee found with ID ${parsed.data.submittedById}` });
+    }
+
+    const created = await storage.createTicket(parsed.data);
+    const ticket = await storage.getTicket(created.id);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.TICKET,
+      entityId: created.id,
+      details: { source: 'api-v1', ticketId: ticket?.ticketId, title: parsed.data.title }
+    });
+
+    emitWebhookEvent('ticket.created', toTicketWebhookData(ticket ?? created));
+
+    res.status(201).json(ticket);
+  } catch (error) {
+    logFailure('Failed to create ticket', user, {}, error);
+    res.status(500).json({ message: 'Failed to create ticket' });
+  }
+});
+
+/**
+ * PATCH /api/v1/tickets/:id
+ * Changes are recorded in the ticket history
+ */
+router.patch('/tickets/:id', requireScope(PERMISSIONS.MANAGE_TICKETS), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid ticket ID' });
+    }
+
+    const parsed = ticketUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const existing = await storage.getTicket(id);
+    if (!existing) {
+      return res.status(404).json({ message: 'Ticket not found' });
+    }
+
+    const ticket = await storage.updateTicketWithHistory(id, parsed.data, user.id);
+    if (!ticket) {
+      return res.status(404).json({ message: 'Ticket not found' });
+    }
+
+    emitTicketChangeEvents(existing, ticket);
+
+    res.json(ticket);
+  } catch (error) {
+    logFailure('Failed to update ticket', user, { ticketId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to update ticket' });
+  }
+});
+
+// ==========================================
+// MAINTENANCE
+// ==========================================
+
+/**
+ * GET /api/v1/maintenance
+ * Query params: page, limit, assetId, status, type
+ */
+router.get('/maintenance', requireScope(PERMISSIONS.VIEW_MAINTENANCE), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const { page, limit, offset } = parsePagination(req);
+    const conditions: SQL[] = [];
+
+    const restrictedTo = await getRestrictedEmployeeId(user);
+    if (restrictedTo !== undefined) conditions.push(ownMaintenanceCondition(restrictedTo));
+
+    const assetId = parseId(req.query.assetId as string);
+    if (assetId) conditions.push(eq(assetMaintenance.assetId, assetId));
+    const statuses = queryList(req.query.status);
+    if (statuses.length > 0) conditions.push(inArray(assetMaintenance.status, statuses));
+    const types = queryList(req.query.type);
+    if (types.length > 0) conditions.push(inArray(assetMaintenance.type, types as typeof assetMaintenance.type.enumValues));
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const [{ total }] = await db.select({ total: count() }).from(assetMaintenance).where(where);
+    const rows = await db.select().from(assetMaintenance).where(where).orderBy(asc(assetMaintenance.id)).limit(limit).offset(offset);
+
+    res.json(paginated(rows, total, page, limit));
+  } catch (error) {
+    logFailure('Failed to list maintenance records', user, { query: req.query }, error);
+    res.status(500).json({ message: 'Failed to fetch maintenance records' });
+  }
+});
+
+/**
+ * GET /api/v1/maintenance/:id
+ */
+router.get('/maintenance/:id', requireScope(PERMISSIONS.VIEW_MAINTENANCE), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid maintenance ID' });
+    }
+
+    const conditions: SQL[] = [eq(assetMaintenance.id, id)];
+    const restrictedTo = await getRestrictedEmployeeId(user);
+    if (restrictedTo !== undefined) conditions.push(ownMaintenanceCondition(restrictedTo));
+
+    const [record] = await db.select().from(assetMaintenance).where(and(...conditions));
+    if (!record) {
+      return res.status(404).json({ message: 'Maintenance record not found' });
+    }
+
+    res.json(record);
+  } catch (error) {
+    logFailure('Failed to fetch maintenance record', user, { maintenanceId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to fetch maintenance record' });
+  }
+});
+
+/**
+ * POST /api/v1/maintenance
+ */
+router.post('/maintenance', requireScope(PERMISSIONS.SCHEDULE_MAINTENANCE), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = maintenanceBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const asset = await storage.getAsset(parsed.data.assetId);
+    if (!asset) {
+      return res.status(400).json({ message: `No asset found with ID ${parsed.data.assetId}` });
+    }
+
+    const record = await storage.createAssetMaintenance(parsed.data);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.ASSET_MAINTENANCE,
+      entityId: record.id,
+      details: { source: 'api-v1', assetId: asset.assetId, type: record.type, date: record.date }
+    });
+
+    res.status(201).json(record);
+  } catch (error) {
+    logFailure('Failed to create maintenance record', user, {}, error);
+    res.status(500).json({ message: 'Failed to create maintenance record' });
+  }
+});
+
+/**
+ * PATCH /api/v1/maintenance/:id
+ */
+router.patch('/maintenance/:id', requireScope(PERMISSIONS.SCHEDULE_MAINTENANCE), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid maintenance ID' });
+    }
+
+    const parsed = maintenanceBodySchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const record = await storage.updateAssetMaintenance(id, parsed.data);
+    if (!record) {
+      return res.status(404).json({ message: 'Maintenance record not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.ASSET_MAINTENANCE,
+      entityId: id,
+      details: { source: 'api-v1', changes: parsed.data }
+    });
+
+    res.json(record);
+  } catch (error) {
+    logFailure('Failed to update maintenance record', user, { maintenanceId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to update maintenance record' });
+  }
+});
+
+// Unknown /api/v1 paths get a JSON 404 instead of falling through to the client app
+router.use((req, res) => {
+  res.status(404).json({ message: `No such endpoint: ${req.method} /api/v1${req.path}` });
+});
+
+// ==========================================
+// OPENAPI DOCUMENT
+// ==========================================
+
+interface ResourceDoc {
+  path: string;
+  tag: string;
+  schema: string;
+  label: string;
+  readScope: Permission;
+  writeScope: Permission;
+  filters: { name: string; description: string }[];
+  createSchema: string;
+  updateSchema: string;
+}
+
+const RESOURCE_DOCS: ResourceDoc[] = [
+  {
+    path: '/assets', tag: 'Assets', schema: 'Asset', label: 'asset',
+    readScope: PERMISSIONS.VIEW_ASSETS, writeScope: PERMISSIONS.MANAGE_ASSETS,
+    filters: [
+      { name: 'search', description: 'Matches asset ID, brand, model name or serial number' },
+      { name: 'status', description: 'Comma-separated statuses' },
+      { name: 'type', description: 'Comma-separated asset types' },
+      { name: 'assignedEmployeeId', description: 'Employee the asset is assigned to' },
+      { name: 'locationId', description: 'Location the asset is kept in, including locations beneath it' },
+    ],
+    createSchema: 'AssetInput', updateSchema: 'AssetUpdate',
+  },
+  {
+    path: '/employees', tag: 'Employees', schema: 'Employee', label: 'employee',
+    readScope: PERMISSIONS.VIEW_EMPLOYEES, writeScope: PERMISSIONS.MANAGE_EMPLOYEES,
+    filters: [
+      { name: 'search', description: 'Matches employee ID, English/Arabic name or corporate email' },
+      { name: 'status', description: 'Comma-separated statuses' },
+      { name: 'department', description: 'Comma-separated departments' },
+    ],
+    createSchema: 'EmployeeInput', updateSchema: 'EmployeeUpdate',
+  },
+  {
+    path: '/tickets', tag: 'Tickets', schema: 'Ticket', label: 'ticket',
+    readScope: PERMISSIONS.VIEW_TICKETS, writeScope: PERMISSIONS.MANAGE_TICKETS,
+    filters: [
+      { name: 'search', description: 'Matches ticket ID or title' },
+      { name: 'status', description: 'Comma-separated statuses' },
+      { name: 'priority', description: 'Comma-separated priorities' },
+      { name: 'assignedToId', description: 'User the ticket is assigned to' },
+      { name: 'submittedById', description: 'Employee who submitted the ticket' },
+    ],
+    createSchema: 'TicketInput', updateSchema: 'TicketUpdate',
+  },
+  {
+    path: '/maintenance', tag: 'Maintenance', schema: 'Maintenance', label: 'maintenance record',
+    readScope: PERMISSIONS.VIEW_MAINTENANCE, writeScope: PERMISSIONS.SCHEDULE_MAINTENANCE,
+    filters: [
+      { name: 'assetId', description: 'Asset the maintenance belongs to' },
+      { name: 'status', description: 'Comma-separated statuses' },
+      { name: 'type', description: 'Comma-separated maintenance types' },
+    ],
+    createSchema: 'MaintenanceInput', updateSchema: 'MaintenanceUpdate',
+  },
+];
+
+function jsonContent(schema: JsonSchema) {
+  return { 'application/json': { schema } };
+}
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+const ERROR_RESPONSES = {
+  '401': { description: 'Missing, invalid or expired credentials', content: jsonContent(ref('Error')) },
+  '403': { description: 'Missing permission or token scope', content: jsonContent(ref('Error')) },
+};
+
+function resourcePaths(doc: ResourceDoc): Record<string, unknown> {
+  const idParam = { name: 'id', in: 'path', required: true, schema: { type: 'integer' } };
+  const notFound = { description: `No ${doc.label} with this ID`, content: jsonContent(ref('Error')) };
+  const invalid = { description: 'Validation failed', content: jsonContent(ref('Error')) };
+
+  return {
+    [doc.path]: {
+      get: {
+        tags: [doc.tag],
+        summary: `List ${doc.label}s`,
+        description: `Requires scope \`${doc.readScope}\`.`,
+        parameters: [
+          { $ref: '#/components/parameters/Page' },
+          { $ref: '#/components/parameters/Limit' },
+          ...doc.filters.map(filter => ({ name: filter.name, in: 'query', description: filter.description, schema: { type: 'string' } })),
+        ],
+        responses: {
+          '200': { description: `A page of ${doc.label}s`, content: jsonContent(paginatedSchema(`#/components/schemas/${doc.schema}`)) },
+          ...ERROR_RESPONSES,
+        },
+      },
+      post: {
+        tags: [doc.tag],
+        summary: `Create a ${doc.label}`,
+        description: `Requires scope \`${doc.writeScope}\`.`,
+        requestBody: { required: true, content: jsonContent(ref(doc.createSchema)) },
+        responses: {
+          '201': { description: `The created ${doc.label}`, content: jsonContent(ref(doc.schema)) },
+          '400': invalid,
+          ...ERROR_RESPONSES,
+        },
+      },
+    },
+    [`${doc.path}/{id}`]: {
+      get: {
+        tags: [doc.tag],
+        summary: `Get a ${doc.label}`,
+        description: `Requires scope \`${doc.readScope}\`.`,
+        parameters: [idParam],
+        responses: {
+          '200': { description: `The ${doc.label}`, content: jsonContent(ref(doc.schema)) },
+          '404': notFound,
+          ...ERROR_RESPONSES,
+        },
+      },
+      patch: {
+        tags: [doc.tag],
+        summary: `Update a ${doc.label}`,
+        description: `Requires scope \`${doc.writeScope}\`. Only the fields sent are changed.`,
+        parameters: [idParam],
+        requestBody: { required: true, content: jsonContent(ref(doc.updateSchema)) },
+        responses: {
+          '200': { description: `The updated ${doc.label}`, content: jsonContent(ref(doc.schema)) },
+          '400': invalid,
+          '404': notFound,
+          ...ERROR_RESPONSES,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * OpenAPI 3.0 document for /api/v1
+ * Request bodies come from the insert schemas in shared/schema.ts, responses from the table definitions
+ */
+export function buildOpenApiDocument() {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'SimpleIT API',
+      version: '1.0.0',
+      description: [
+        'Versioned REST API for assets, employees, tickets and maintenance.',
+        `Authenticate with a personal API token from your profile page: \`Authorization: Bearer ${API_TOKEN_PREFIX}...\`.`,
+        'A token can only use the scopes it was created with, and never more than its owner\'s role allows.',
+        `Lists are paginated with \`page\` and \`limit\` (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE}).`,
+      ].join('\n\n'),
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ bearerAuth: [] }, { sessionCookie: [] }],
+    tags: RESOURCE_DOCS.map(doc => ({ name: doc.tag })),
+    paths: {
+      '/me': {
+        get: {
+          summary: 'Current user and token scopes',
+          responses: {
+            '200': {
+              description: 'The authenticated user',
+              content: jsonContent({
+                type: 'object',
+                properties: {
+                  id: { type: 'integer' },
+                  username: { type: 'string' },
+                  email: { type: 'string', nullable: true },
+                  role: { type: 'string' },
+                  tokenScopes: { type: 'array', items: { type: 'string', enum: API_TOKEN_SCOPES }, nullable: true },
+                },
+              }),
+            },
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      ...Object.assign({}, ...RESOURCE_DOCS.map(resourcePaths)),
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Personal API token' },
+        sessionCookie: { type: 'apiKey', in: 'cookie', name: 'connect.sid' },
+      },
+      parameters: {
+        Page: { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1, default: 1 } },
+        Limit: { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE } },
+      },
+      schemas: {
+        Pagination: PAGINATION_SCHEMA,
+        Error: ERROR_SCHEMA,
+        Asset: zodToJsonSchema(createSelectSchema(assets)),
+        AssetInput: zodToJsonSchema(assetBodySchema),
+        AssetUpdate: zodToJsonSchema(assetBodySchema.partial()),
+        Employee: zodToJsonSchema(createSelectSchema(employees)),
+        EmployeeInput: zodToJsonSchema(employeeBodySchema),
+        EmployeeUpdate: zodToJsonSchema(employeeBodySchema.partial()),
+        Ticket: zodToJsonSchema(createSelectSchema(tickets)),
+        TicketInput: zodToJsonSchema(ticketCreateSchema),
+        TicketUpdate: zodToJsonSchema(ticketUpdateSchema),
+        Maintenance: zodToJsonSchema(createSelectSchema(assetMaintenance)),
+        MaintenanceInput: zodToJsonSchema(maintenanceBodySchema),
+        MaintenanceUpdate: zodToJsonSchema(maintenanceBodySchema.partial()),
+      },
+    },
+  };
+}
+
+export default router;
@@ -0,0 +1,571 @@
+/**
+ * Approval Routes
+ * Multi-step approval chains for upgrade requests, purchase orders and service requests
+ * Inbox, decisions and own delegations: any authenticated user (approvers can be employees
+ * deciding as direct managers; the service checks who may decide each step)
+ * Approval trails: Agent and above; all requests and everyone's delegations: Manager and above
+ * Chains and delegating for someone else: Admin and above
+ * Email links (approvalLinkRouter): no session, the single-use token identifies the approver
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { db } from '../db';
+import { users } from '@shared/schema';
+import { asc, eq } from 'drizzle-orm';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { getRoleLevel, ROLE_IDS } from '@shared/roles.config';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import {
+  ApprovalError, APPROVAL_REQUEST_TYPES, APPROVER_TYPES, APPROVER_ROLES, isApprovalRequestType,
+  getApprovalChains, createApprovalChain, updateApprovalChain, deleteApprovalChain,
+  getApprovalInbox, getApprovalRequests, getApprovalRequest, getSubjectApprovals, decideApproval,
+  getDelegations, getDelegation, createDelegation, deleteDelegation, getLinkRequest, decideByLink
+} from '../services/approvalService';
+// Registers the upgrade, purchase order and service request approval handlers
+import '../services/upgradeApprovalService';
+import '../services/purchaseOrderService';
+import '../services/serviceCatalogService';
+import { logger } from '../services/logger';
+
+const router = Router();
+export const approvalLinkRouter = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullable().optional().transform(value => value || null);
+
+const chainSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: optionalText(1000),
+  isActive: z.boolean().default(true),
+  steps: z.array(z.object({
+    name: z.string().trim().min(1, 'Step name is required').max(100),
+    approverType: z.enum(APPROVER_TYPES),
+    approverRole: z.enum(APPROVER_ROLES).nullable().optional().transform(value => value ?? null),
+    approverUserId: z.number().int().positive().nullable().optional().transform(value => value ?? null),
+    minAmount: z.union([z.string(), z.number()]).nullable().optional()
+      .transform(value => value === null || value === undefined || value === '' ? null : Number(value))
+      .refine(value => value === null || (!isNaN(value) && value >= 0), 'Minimum amount must be zero or more')
+      .transform(value => value === null ? null : value.toFixed(2)),
+  })).min(1, 'Add at least one step').max(10),
+});
+
+const createChainSchema = chainSchema.extend({
+  requestType: z.enum(APPROVAL_REQUEST_TYPES),
+});
+
+const decisionSchema = z.object({
+  comments: optionalText(2000),
+  // Where the approver decided from, for the trail
+  via: z.enum(['app', 'notification']).default('app'),
+});
+
+const linkDecisionSchema = z.object({
+  approved: z.boolean(),
+  comments: optionalText(2000),
+});
+
+const delegationSchema = z.object({
+  delegateId: z.number().int().positive(),
+  // Admins can set up a delegation for someone who is already away
+  delegatorId: z.number().int().positive().optional(),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  reason: optionalText(255),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505';
+}
+
+function isManagerOrAbove(user: AuthUser): boolean {
+  return getRoleLevel(user.role) >= getRoleLevel(ROLE_IDS.MANAGER);
+}
+
+function isAdminOrAbove(user: AuthUser): boolean {
+  return getRoleLevel(user.role) >= getRoleLevel(ROLE_IDS.ADMIN);
+}
+
+/**
+ * GET /api/approvals/inbox
+ * Requests whose current step the user can decide, directly or as a delegate
+ */
+router.get('/inbox', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    res.json(await getApprovalInbox(user.id));
+  } catch (error) {
+    logger.error('approvals', 'Failed to load approval inbox', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch approvals' });
+  }
+});
+
+/**
+ * GET /api/approvals/users
+ * Active users to pick as delegates or chain approvers
+ */
+router.get('/users', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const rows = await db.select({ id: users.id, username: users.username, role: users.role })
+      .from(users)
+      .where(eq(users.isActive, true))
+      .orderBy(asc(users.username));
+    res.json(rows);
+  } catch (error) {
+    logger.error('approvals', 'Failed to list approver users', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch users' });
+  }
+});
+
+/**
+ * GET /api/approvals/chains
+ */
+router.get('/chains', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    res.json(await getApprovalChains());
+  } catch (error) {
+    logger.error('approvals', 'Failed to list approval chains', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch approval chains' });
+  }
+});
+
+/**
+ * POST /api/approvals/chains
+ * Body: { requestType, name, description?, isActive?, steps: [{ name, approverType, approverRole?, approverUserId?, minAmount? }] }
+ */
+router.post('/chains', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = createChainSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const chain = await createApprovalChain(parsed.data);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.APPROVAL_CHAIN,
+      entityId: chain.id,
+      details: { requestType: chain.requestType, name: chain.name, steps: parsed.data.steps.length }
+    });
+
+    res.status(201).json(chain);
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'This request type already has an approval chain' });
+    }
+    logger.error('approvals', 'Failed to create approval chain', {
+      userId: user.id,
+      metadata: { requestType: req.body?.requestType },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to create approval chain' });
+  }
+});
+
+/**
+ * PUT /api/approvals/chains/:id
+ * Replaces the chain's steps; requests already in progress keep theirs
+ */
+router.put('/chains/:id', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid approval chain ID' });
+    }
+    const parsed = chainSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const chain = await updateApprovalChain(id, parsed.data);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.APPROVAL_CHAIN,
+      entityId: id,
+      details: { name: chain.name, isActive: chain.isActive, steps: parsed.data.steps.length }
+    });
+
+    res.json(chain);
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('approvals', 'Failed to update approval chain', {
+      userId: user.id,
+      metadata: { chainId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update approval chain' });
+  }
+});
+
+/**
+ * DELETE /api/approvals/chains/:id
+ * Chains with requests still in progress can only be deactivated
+ */
+router.delete('/chains/:id', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid approval chain ID' });
+    }
+
+    const deleted = await deleteApprovalChain(id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Approval chain not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.DELETE,
+      entityType: EntityType.APPROVAL_CHAIN,
+      entityId: id,
+      details: { requestType: deleted.requestType, name: deleted.name }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('approvals', 'Failed to delete approval chain', {
+      userId: user.id,
+      metadata: { chainId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to delete approval chain' });
+  }
+});
+
+/**
+ * GET /api/approvals/delegations
+ * The user's own delegations (given and received); ?all=true lists everyone's for managers
+ */
+router.get('/delegations', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const showAll = req.query.all === 'true' && isManagerOrAbove(user);
+    res.json(await getDelegations(showAll ? undefined : user.id));
+  } catch (error) {
+    logger.error('approvals', 'Failed to list delegations', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch delegations' });
+  }
+});
+
+/**
+ * POST /api/approvals/delegations
+ * Body: { delegateId, startsAt, endsAt, reason?, delegatorId? (admins only) }
+ */
+router.post('/delegations', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = delegationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    const { delegatorId = user.id, ...input } = parsed.data;
+    if (delegatorId !== user.id && !isAdminOrAbove(user)) {
+      return res.status(403).json({ message: 'Only admins can delegate for someone else' });
+    }
+
+    const delegation = await createDelegation(delegatorId, input);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.APPROVAL_DELEGATION,
+      entityId: delegation.id,
+      details: {
+        delegatorId: delegation.delegatorId,
+        delegateId: delegation.delegateId,
+        startsAt: delegation.startsAt,
+        endsAt: delegation.endsAt
+      }
+    });
+
+    res.status(201).json(delegation);
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('approvals', 'Failed to create delegation', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to create delegation' });
+  }
+});
+
+/**
+ * DELETE /api/approvals/delegations/:id
+ * Ends a delegation; the delegator or an admin can remove it
+ */
+router.delete('/delegations/:id', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid delegation ID' });
+    }
+
+    const delegation = await getDelegation(id);
+    if (!delegation) {
+      return res.status(404).json({ message: 'Delegation not found' });
+    }
+    if (delegation.delegatorId !== user.id && !isAdminOrAbove(user)) {
+      return res.status(403).json({ message: 'Only the delegator or an admin can remove a delegation' });
+    }
+
+    await deleteDelegation(id);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.DELETE,
+      entityType: EntityType.APPROVAL_DELEGATION,
+      entityId: id,
+      details: { delegatorId: delegation.delegatorId, delegateId: delegation.delegateId }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('approvals', 'Failed to delete delegation', {
+      userId: user.id,
+      metadata: { delegationId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to delete delegation' });
+  }
+});
+
+/**
+ * GET /api/approvals/subject/:requestType/:subjectId
+ * Approval trail of one upgrade request or purchase order, newest run first
+ */
+router.get('/subject/:requestType/:subjectId', requireRole(ROLES.AGENT), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const subjectId = parseId(req.params.subjectId);
+    if (!isApprovalRequestType(req.params.requestType) || subjectId === null) {
+      return res.status(400).json({ message: 'Invalid approval subject' });
+    }
+    res.json(await getSubjectApprovals(req.params.requestType, subjectId, user.id));
+  } catch (error) {
+    logger.error('approvals', 'Failed to load approval trail', {
+      userId: user.id,
+      metadata: { requestType: req.params.requestType, subjectId: req.params.subjectId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch approval trail' });
+  }
+});
+
+/**
+ * GET /api/approvals
+ * All approval requests, newest first; filters: status, requestType
+ */
+router.get('/', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    res.json(await getApprovalRequests({
+      status: typeof req.query.status === 'string' ? req.query.status : undefined,
+      requestType: typeof req.query.requestType === 'string' ? req.query.requestType : undefined,
+    }, user.id));
+  } catch (error) {
+    logger.error('approvals', 'Failed to list approval requests', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch approval requests' });
+  }
+});
+
+/**
+ * GET /api/approvals/:id
+ * Viewable by managers, the requester and whoever can decide the current step
+ */
+router.get('/:id', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid approval request ID' });
+    }
+
+    const request = await getApprovalRequest(id, user.id);
+    if (!request) {
+      return res.status(404).json({ message: 'Approval request not found' });
+    }
+    if (!isManagerOrAbove(user) && !request.canAct && request.requestedById !== user.id) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    res.json(request);
+  } catch (error) {
+    logger.error('approvals', 'Failed to load approval request', {
+      userId: user.id,
+      metadata: { approvalRequestId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch approval request' });
+  }
+});
+
+/**
+ * POST /api/approvals/:id/approve | /api/approvals/:id/reject
+ * Body: { comments? (required to reject), via? }
+ */
+for (const action of ['approve', 'reject'] as const) {
+  router.post(`/:id/${action}`, async (req, res) => {
+    const user = req.user as AuthUser;
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: 'Invalid approval request ID' });
+      }
+      const parsed = decisionSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const request = await decideApproval(id, user, {
+        approved: action === 'approve',
+        comments: parsed.data.comments,
+        via: parsed.data.via,
+      });
+
+      await logActivity({
+        userId: user.id,
+        action: AuditAction.STATUS_CHANGE,
+        entityType: EntityType.APPROVAL_REQUEST,
+        entityId: id,
+        details: {
+          requestType: request.requestType,
+          subjectId: request.subjectId,
+          action,
+          status: request.status,
+          via: parsed.data.via,
+          comments: parsed.data.comments
+        }
+      });
+
+      res.json(request);
+    } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(400).json({ message: error.message });
+      }
+      logger.error('approvals', `Failed to ${action} approval request`, {
+        userId: user.id,
+        metadata: { approvalRequestId: req.params.id },
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+      res.status(500).json({ message: `Failed to ${action} approval request` });
+    }
+  });
+}
+
+/**
+ * GET /api/approval-links/:token
+ * What the email link is for, so the approver can confirm before deciding
+ */
+approvalLinkRouter.get('/:token', async (req, res) => {
+  try {
+    const { request, user } = await getLinkRequest(req.params.token);
+    const current = request.steps.find(step => step.status === 'pending');
+    res.json({
+      approver: user.username,
+      actingForName: request.actingForName,
+      requestType: request.requestType,
+      title: request.title,
+      amount: request.amount,
+      requestedByName: request.requestedByName,
+      createdAt: request.createdAt,
+      stepName: current?.name ?? null,
+    });
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('approvals', 'Failed to load approval link', {
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to load approval link' });
+  }
+});
+
+/**
+ * POST /api/approval-links/:token
+ * Body: { approved, comments? (required to reject) }
+ */
+approvalLinkRouter.post('/:token', async (req, res) => {
+  try {
+    const parsed = linkDecisionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const { request, user } = await decideByLink(req.params.token, parsed.data.approved, parsed.data.comments);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.STATUS_CHANGE,
+      entityType: EntityType.APPROVAL_REQUEST,
+      entityId: request.id,
+      details: {
+        requestType: request.requestType,
+        subjectId: request.subjectId,
+        action: parsed.data.approved ? 'approve' : 'reject',
+        status: request.status,
+        via: 'email',
+        comments: parsed.data.comments
+      }
+    });
+
+    res.json({ status: request.status });
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('approvals', 'Failed to decide by approval link', {
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to record the decision' });
+  }
+});
+
+export default router;
@@ -0,0 +1,139 @@
+/**
+ * Asset Label Routes
+ * Printable QR label sheets and lookup of scanned label codes
+ * Access: Agent and above (enforced where the router is mounted)
+ */
+
+import { Router } from 'express';
+import { db } from '../db';
+import { assets, employees } from '@shared/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { storage } from '../storage';
+import {
+  LABEL_LAYOUTS, DEFAULT_LABEL_LAYOUT, getLabelLayout, isLabelFormat, renderLabelSheetPdf, renderLabelSheetSvg,
+  findAssetByScannedCode
+} from '../services/labelService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const MAX_LABELS = 500;
+
+/**
+ * GET /api/asset-labels/layouts
+ */
+router.get('/layouts', (_req, res) => {
+  res.json(LABEL_LAYOUTS);
+});
+
+/**
+ * GET /api/asset-labels
+ * Label sheet for the given assets, in the order requested
+ * Query params:
+ *   - ids: comma-separated asset ids (required)
+ *   - format: pdf (default) | svg
+ *   - layout: label stock id from /layouts
+ *   - skip: label positions already used on the first sheet
+ *   - download: true to save instead of opening in the browser
+ */
+router.get('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const ids = String(req.query.ids || '')
+      .split(',')
+      .map(value => parseInt(value))
+      .filter(id => !isNaN(id));
+    if (ids.length === 0) {
+      return res.status(400).json({ message: 'At least one asset id is required' });
+    }
+    if (ids.length > MAX_LABELS) {
+      return res.status(400).json({ message: `At most ${MAX_LABELS} labels can be printed at once` });
+    }
+
+    const format = req.query.format ?? 'pdf';
+    if (!isLabelFormat(format)) {
+      return res.status(400).json({ message: 'Format must be pdf or svg' });
+    }
+    const layout = req.query.layout ? getLabelLayout(req.query.layout) : DEFAULT_LABEL_LAYOUT;
+    if (!layout) {
+      return res.status(400).json({ message: 'Unknown label layout' });
+    }
+
+    const rows = await db.select().from(assets).where(inArray(assets.id, ids));
+    const byId = new Map(rows.map(asset => [asset.id, asset]));
+    const labels = ids.flatMap(id => byId.get(id) ?? []);
+    if (labels.length === 0) {
+      return res.status(404).json({ message: 'No matching assets found' });
+    }
+
+    const config = await storage.getSystemConfig();
+    const options = {
+      layout,
+      skip: parseInt(String(req.query.skip || '0')) || 0,
+      footer: config?.companyName ? `Property of ${config.companyName}` : null,
+    };
+
+    const disposition = req.query.download === 'true' ? 'attachment' : 'inline';
+    const filename = `asset-labels-${new Date().toISOString().split('T')[0]}.${format}`;
+    res.setHeader('Content-Disposition', `${disposition}; filename="${filename}"`);
+
+    if (format === 'svg') {
+      res.setHeader('Content-Type', 'image/svg+xml');
+      return res.send(renderLabelSheetSvg(labels, options));
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.send(renderLabelSheetPdf(labels, options));
+  } catch (error) {
+    logger.error('assets', 'Failed to render asset labels', {
+      userId: user.id,
+      metadata: { ids: req.query.ids, format: req.query.format, layout: req.query.layout },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to generate labels' });
+  }
+});
+
+/**
+ * GET /api/asset-labels/scan?code=
+ * Asset for a scanned code, with the name of the employee it is assigned to
+ */
+router.get('/scan', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const code = typeof req.query.code === 'string' ? req.query.code : '';
+    if (!code.trim()) {
+      return res.status(400).json({ message: 'Scanned code is required' });
+    }
+
+    const match = await findAssetByScannedCode(code);
+    if (!match) {
+      return res.status(404).json({ message: `No asset found for "${code.trim()}"` });
+    }
+
+    let assignedEmployeeName: string | null = null;
+    if (match.asset.assignedEmployeeId) {
+      const [employee] = await db.select({ englishName: employees.englishName })
+        .from(employees)
+        .where(eq(employees.id, match.asset.assignedEmployeeId));
+      assignedEmployeeName = employee?.englishName ?? null;
+    }
+
+    res.json({ ...match.asset, matchedBy: match.matchedBy, assignedEmployeeName });
+  } catch (error) {
+    logger.error('assets', 'Failed to resolve scanned code', {
+      userId: user.id,
+      metadata: { code: req.query.code },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to look up scanned code' });
+  }
+});
+
+export default router;
@@ -0,0 +1,348 @@
+/**
+ * Attachment Routes
+ * Upload, list, download and delete files on tickets, ticket comments and asset transactions
+ * Ticket files follow ticket visibility (employees see their own tickets); private comment files are Agent+ only
+ * Asset transaction files: Agent and above
+ */
+
+import { Router, type Request, type Response } from 'express';
+import fs from 'fs';
+import { db } from '../db';
+import { tickets, ticketComments, assetTransactions, type Attachment, type Ticket } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { storage } from '../storage';
+import { getUserRoleLevel } from '../rbac';
+import { ROLE_LEVELS, ROLE_IDS } from '@shared/roles.config';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import {
+  receiveUploads, saveAttachments, getAttachment, getAttachmentPath,
+  getTicketAttachments, getEntityAttachments, deleteAttachment, type AttachmentTarget
+} from '../services/attachmentService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const AGENT_LEVEL = ROLE_LEVELS[ROLE_IDS.AGENT];
+
+function isAgent(user: AuthUser): boolean {
+  return getUserRoleLevel(user) >= AGENT_LEVEL;
+}
+
+/**
+ * Same rule as GET /api/tickets/:id: agents see every ticket,
+ * employees only tickets they submitted or are assigned to
+ */
+async function canAccessTicket(user: AuthUser, ticket: Ticket): Promise<boolean> {
+  if (isAgent(user)) return true;
+  if (ticket.assignedToId === user.id) return true;
+
+  const employee = await storage.getEmployeeByUserId(user.id);
+  return !!employee && ticket.submittedById === employee.id;
+}
+
+/**
+ * Whether the user may read an existing attachment
+ */
+async function canViewAttachment(user: AuthUser, attachment: Attachment): Promise<boolean> {
+  if (attachment.entityType === 'asset_transaction') {
+    return isAgent(user);
+  }
+
+  if (!attachment.ticketId) return false;
+  const [ticket] = await db.select().from(tickets).where(eq(tickets.id, attachment.ticketId));
+  if (!ticket || !(await canAccessTicket(user, ticket))) return false;
+
+  if (attachment.entityType === 'ticket_comment' && !isAgent(user)) {
+    const [comment] = await db.select().from(ticketComments).where(eq(ticketComments.id, attachment.entityId));
+    if (!comment || comment.isPrivate) return false;
+  }
+
+  return true;
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+function logFailure(message: string, user: AuthUser | undefined, metadata: Record<string, unknown>, error: unknown) {
+  logger.error('attachments', message, {
+    userId: user?.id,
+    metadata,
+    error: error instanceof Error ? error : new Error(String(error))
+  });
+}
+
+/**
+ * Receive the files, then record them; rejects with 400 on limit/MIME errors
+ */
+async function handleUpload(
+  req: Request,
+  res: Response,
+  target: AttachmentTarget & { uploadedById: number },
+  audit: { entityType: EntityType; entityId: number }
+) {
+  let files: Express.Multer.File[];
+  try {
+    files = await receiveUploads(req, res);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Upload failed' });
+  }
+
+  if (files.length === 0) {
+    return res.status(400).json({ message: 'No files uploaded' });
+  }
+
+  const saved = await saveAttachments(files, target);
+
+  await logActivity({
+    userId: target.uploadedById,
+    action: AuditAction.CREATE,
+    entityType: audit.entityType,
+    entityId: audit.entityId,
+    details: {
+      attachments: saved.map(a => ({ id: a.id, name: a.originalName, size: a.size })),
+      attachedTo: target.entityType
+    }
+  });
+
+  res.status(201).json(saved);
+}
+
+// ==========================================
+// UPLOADS
+// ==========================================
+
+/**
+ * POST /api/attachments/ticket/:ticketId
+ * Attach files to a ticket (multipart field "files")
+ */
+router.post('/ticket/:ticketId', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const ticketId = parseId(req.params.ticketId);
+    if (!ticketId) {
+      return res.status(400).json({ message: 'Invalid ticket ID' });
+    }
+
+    const [ticket] = await db.select().from(tickets).where(eq(tickets.id, ticketId));
+    if (!ticket) {
+      return res.status(404).json({ message: 'Ticket not found' });
+    }
+    if (!(await canAccessTicket(user, ticket))) {
+      return res.status(403).json({ message: "You don't have permission to attach files to this ticket" });
+    }
+
+    await handleUpload(req, res,
+      { entityType: 'ticket', entityId: ticketId, ticketId, uploadedById: user.id },
+      { entityType: EntityType.TICKET, entityId: ticketId });
+  } catch (error) {
+    logFailure('Failed to upload ticket attachments', user, { ticketId: req.params.ticketId }, error);
+    res.status(500).json({ message: 'Failed to upload attachments' });
+  }
+});
+
+/**
+ * POST /api/attachments/comment/:commentId
+ * Attach files to a comment; only its author or an agent may add files
+ */
+router.post('/comment/:commentId', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const commentId = parseId(req.params.commentId);
+    if (!commentId) {
+      return res.status(400).json({ message: 'Invalid comment ID' });
+    }
+
+    const [comment] = await db.select().from(ticketComments).where(eq(ticketComments.id, commentId));
+    if (!comment) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+
+    const [ticket] = await db.select().from(tickets).where(eq(tickets.id, comment.ticketId));
+    if (!ticket || !(await canAccessTicket(user, ticket)) || (comment.userId !== user.id && !isAgent(user))) {
+      return res.status(403).json({ message: "You don't have permission to attach files to this comment" });
+    }
+
+    await handleUpload(req, res,
+      { entityType: 'ticket_comment', entityId: commentId, ticketId: comment.ticketId, uploadedById: user.id },
+      { entityType: EntityType.TICKET, entityId: comment.ticketId });
+  } catch (error) {
+    logFailure('Failed to upload comment attachments', user, { commentId: req.params.commentId }, error);
+    res.status(500).json({ message: 'Failed to upload attachments' });
+  }
+});
+
+/**
+ * POST /api/attachments/asset-transaction/:transactionId
+ * Attach signed handover forms or photos to a check-out/check-in (Agent and above)
+ */
+router.post('/asset-transaction/:transactionId', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    if (!isAgent(user)) {
+      return res.status(403).json({ message: 'Insufficient permissions' });
+    }
+
+    const transactionId = parseId(req.params.transactionId);
+    if (!transactionId) {
+      return res.status(400).json({ message: 'Invalid transaction ID' });
+    }
+
+    const [transaction] = await db.select().from(assetTransactions).where(eq(assetTransactions.id, transactionId));
+    if (!transaction) {
+      return res.status(404).json({ message: 'Asset transaction not found' });
+    }
+
+    await handleUpload(req, res,
+      { entityType: 'asset_transaction', entityId: transactionId, uploadedById: user.id },
+      { entityType: EntityType.ASSET, entityId: transaction.assetId });
+  } catch (error) {
+    logFailure('Failed to upload asset transaction attachments', user, { transactionId: req.params.transactionId }, error);
+    res.status(500).json({ message: 'Failed to upload attachments' });
+  }
+});
+
+// ==========================================
+// LISTING
+// ==========================================
+
+/**
+ * GET /api/attachments/ticket/:ticketId
+ * Files on the ticket and its comments (private comment files for agents only)
+ */
+router.get('/ticket/:ticketId', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const ticketId = parseId(req.params.ticketId);
+    if (!ticketId) {
+      return res.status(400).json({ message: 'Invalid ticket ID' });
+    }
+
+    const [ticket] = await db.select().from(tickets).where(eq(tickets.id, ticketId));
+    if (!ticket) {
+      return res.status(404).json({ message: 'Ticket not found' });
+    }
+    if (!(await canAccessTicket(user, ticket))) {
+      return res.status(403).json({ message: "You don't have permission to view this ticket" });
+    }
+
+    res.json(await getTicketAttachments(ticketId, isAgent(user)));
+  } catch (error) {
+    logFailure('Failed to list ticket attachments', user, { ticketId: req.params.ticketId }, error);
+    res.status(500).json({ message: 'Failed to fetch attachments' });
+  }
+});
+
+/**
+ * GET /api/attachments/asset-transaction/:transactionId
+ */
+router.get('/asset-transaction/:transactionId', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    if (!isAgent(user)) {
+      return res.status(403).json({ message: 'Insufficient permissions' });
+    }
+
+    const transactionId = parseId(req.params.transactionId);
+    if (!transactionId) {
+      return res.status(400).json({ message: 'Invalid transaction ID' });
+    }
+
+    res.json(await getEntityAttachments('asset_transaction', transactionId));
+  } catch (error) {
+    logFailure('Failed to list asset transaction attachments', user, { transactionId: req.params.transactionId }, error);
+    res.status(500).json({ message: 'Failed to fetch attachments' });
+  }
+});
+
+// ==========================================
+// DOWNLOAD & DELETE
+// ==========================================
+
+/**
+ * GET /api/attachments/:id/download
+ * Stream the file; ?inline=true shows images in the browser instead of downloading
+ */
+router.get('/:id/download', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid attachment ID' });
+    }
+
+    const attachment = await getAttachment(id);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+    if (!(await canViewAttachment(user, attachment))) {
+      return res.status(403).json({ message: "You don't have permission to view this attachment" });
+    }
+
+    const filePath = getAttachmentPath(attachment);
+    if (!fs.existsSync(filePath)) {
+      return res.status(404).json({ message: 'Attachment file not found on disk' });
+    }
+
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    if (req.query.inline === 'true' && attachment.mimeType.startsWith('image/')) {
+      res.type(attachment.mimeType);
+      return res.sendFile(filePath);
+    }
+    res.download(filePath, attachment.originalName);
+  } catch (error) {
+    logFailure('Failed to download attachment', user, { attachmentId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to download attachment' });
+  }
+});
+
+/**
+ * DELETE /api/attachments/:id
+ * The uploader or an agent may remove a file
+ */
+router.delete('/:id', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid attachment ID' });
+    }
+
+    const attachment = await getAttachment(id);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+    if (!(await canViewAttachment(user, attachment)) || (attachment.uploadedById !== user.id && !isAgent(user))) {
+      return res.status(403).json({ message: "You don't have permission to delete this attachment" });
+    }
+
+    await deleteAttachment(attachment);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.DELETE,
+      entityType: attachment.entityType === 'asset_transaction' ? EntityType.ASSET : EntityType.TICKET,
+      entityId: attachment.ticketId ?? undefined,
+      details: {
+        attachmentId: attachment.id,
+        name: attachment.originalName,
+        attachedTo: attachment.entityType,
+        attachedToId: attachment.entityId
+      }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    logFailure('Failed to delete attachment', user, { attachmentId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to delete attachment' });
+  }
+});
+
+export default router;
@@ -0,0 +1,384 @@
+/**
+ * Consumable Routes
+ * Quantity-tracked stock per location: receiving, issuing to employees and stock corrections
+ * Read, receive and issue: Agent and above (enforced where the router is mounted)
+ * Catalogue changes and stock adjustments: Manager and above
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { db } from '../db';
+import { consumables, consumableTransactions, employees } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import {
+  ConsumableStockError, getConsumable, getConsumableSummaries, getConsumableTransactions,
+  recordMovement, checkLowStock, type ConsumableMovement
+} from '../services/consumableService';
+import { getLocation } from '../services/locationService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullable().optional().transform(value => value || null);
+
+const money = z.number().nonnegative().nullable().optional()
+  .transform(value => value === null || value === undefined ? null : value.toFixed(2));
+
+const consumableSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(150),
+  sku: optionalText(50),
+  category: optionalText(100),
+  unit: z.string().trim().min(1).max(20).optional().default('pcs'),
+  minStock: z.number().int().min(0).max(1000000).optional().default(0),
+  unitCost: money,
+  notes: optionalText(2000),
+  isActive: z.boolean().optional(),
+});
+
+const locationId = z.number().int().positive().nullable().optional().transform(value => value ?? null);
+
+const receiveSchema = z.object({
+  quantity: z.number().int().min(1, 'Quantity must be at least 1').max(1000000),
+  locationId,
+  unitCost: money,
+  reference: optionalText(100),
+  notes: optionalText(1000),
+});
+
+const issueSchema = z.object({
+  quantity: z.number().int().min(1, 'Quantity must be at least 1').max(1000000),
+  locationId,
+  employeeId: z.number().int().positive(),
+  notes: optionalText(1000),
+});
+
+const adjustSchema = z.object({
+  quantity: z.number().int().min(0, 'Counted quantity cannot be negative').max(1000000),
+  locationId,
+  notes: optionalText(1000),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505';
+}
+
+/**
+ * GET /api/consumables
+ * Query params:
+ *   - search: name, SKU or category
+ *   - category
+ *   - locationId: only consumables stocked at this location
+ *   - lowStock=true: only consumables at or below their reorder threshold
+ *   - includeInactive=true
+ */
+router.get('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const summaries = await getConsumableSummaries({
+      search: typeof req.query.search === 'string' && req.query.search.trim() ? req.query.search.trim() : undefined,
+      category: typeof req.query.category === 'string' && req.query.category !== 'all' ? req.query.category : undefined,
+      locationId: req.query.locationId ? parseId(String(req.query.locationId)) ?? undefined : undefined,
+      lowStock: req.query.lowStock === 'true',
+      includeInactive: req.query.includeInactive === 'true',
+    });
+    res.json(summaries);
+  } catch (error) {
+    logger.error('consumables', 'Failed to list consumables', {
+      userId: user.id,
+      metadata: { query: req.query },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch consumables' });
+  }
+});
+
+/**
+ * GET /api/consumables/transactions
+ * Query params:
+ *   - employeeId: items issued to this employee
+ *   - limit (default 100, max 500)
+ */
+router.get('/transactions', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const limit = Math.min(parseId(String(req.query.limit ?? '')) ?? 100, 500);
+    const transactions = await getConsumableTransactions({
+      employeeId: req.query.employeeId ? parseId(String(req.query.employeeId)) ?? undefined : undefined,
+      limit,
+    });
+    res.json(transactions);
+  } catch (error) {
+    logger.error('consumables', 'Failed to list consumable transactions', {
+      userId: user.id,
+      metadata: { query: req.query },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch transactions' });
+  }
+});
+
+/**
+ * GET /api/consumables/:id
+ * Consumable with stock per location and its latest movements
+ */
+router.get('/:id', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid consumable ID' });
+    }
+
+    const [summary] = (await getConsumableSummaries({ includeInactive: true })).filter(row => row.id === id);
+    if (!summary) {
+      return res.status(404).json({ message: 'Consumable not found' });
+    }
+
+    const transactions = await getConsumableTransactions({ consumableId: id });
+    res.json({ ...summary, transactions });
+  } catch (error) {
+    logger.error('consumables', 'Failed to fetch consumable', {
+      userId: user.id,
+      metadata: { consumableId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch consumable' });
+  }
+});
+
+/**
+ * POST /api/consumables
+ */
+router.post('/', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = consumableSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [consumable] = await db.insert(consumables).values(parsed.data).returning();
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.CONSUMABLE,
+      entityId: consumable.id,
+      details: { name: consumable.name, sku: consumable.sku, minStock: consumable.minStock }
+    });
+
+    res.status(201).json(consumable);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'A consumable with this SKU already exists' });
+    }
+    logger.error('consumables', 'Failed to create consumable', {
+      userId: user.id,
+      metadata: { name: req.body?.name },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to create consumable' });
+  }
+});
+
+/**
+ * PUT /api/consumables/:id
+ * A changed reorder threshold is checked against the current stock right away
+ */
+router.put('/:id', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid consumable ID' });
+    }
+    const parsed = consumableSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [consumable] = await db.update(consumables)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(consumables.id, id))
+      .returning();
+    if (!consumable) {
+      return res.status(404).json({ message: 'Consumable not found' });
+    }
+
+    await checkLowStock(id);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.CONSUMABLE,
+      entityId: id,
+      details: { name: consumable.name, minStock: consumable.minStock, isActive: consumable.isActive }
+    });
+
+    res.json(consumable);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'A consumable with this SKU already exists' });
+    }
+    logger.error('consumables', 'Failed to update consumable', {
+      userId: user.id,
+      metadata: { consumableId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update consumable' });
+  }
+});
+
+/**
+ * DELETE /api/consumables/:id
+ * Consumables with stock movements can only be deactivated, so consumption history is kept
+ */
+router.delete('/:id', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid consumable ID' });
+    }
+
+    const [movement] = await db.select({ id: consumableTransactions.id })
+      .from(consumableTransactions)
+      .where(eq(consumableTransactions.consumableId, id))
+      .limit(1);
+    if (movement) {
+      return res.status(400).json({ message: 'Consumable has stock movements; deactivate it instead' });
+    }
+
+    const [deleted] = await db.delete(consumables).where(eq(consumables.id, id)).returning();
+    if (!deleted) {
+      return res.status(404).json({ message: 'Consumable not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.DELETE,
+      entityType: EntityType.CONSUMABLE,
+      entityId: id,
+      details: { name: deleted.name }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('consumables', 'Failed to delete consumable', {
+      userId: user.id,
+      metadata: { consumableId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to delete consumable' });
+  }
+});
+
+/**
+ * Shared handler for receive / issue / adjust
+ */
+async function handleMovement(
+  req: Request,
+  res: Response,
+  type: ConsumableMovement['type'],
+  schema: typeof receiveSchema | typeof issueSchema | typeof adjustSchema
+) {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid consumable ID' });
+    }
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    // Stock can only be received into active locations; issues and counts use wherever it is
+    if (type === 'receive' && parsed.data.locationId) {
+      const location = await getLocation(parsed.data.locationId);
+      if (!location) {
+        return res.status(400).json({ message: 'Location not found' });
+      }
+      if (!location.isActive) {
+        return res.status(400).json({ message: 'Stock cannot be received at an inactive location' });
+      }
+    }
+
+    const consumable = await getConsumable(id);
+    if (!consumable) {
+      return res.status(404).json({ message: 'Consumable not found' });
+    }
+
+    const transaction = await recordMovement(id, { type, ...parsed.data }, user.id);
+
+    let employeeName: string | null = null;
+    if (transaction.employeeId) {
+      const [employee] = await db.select({ englishName: employees.englishName })
+        .from(employees)
+        .where(eq(employees.id, transaction.employeeId));
+      employeeName = employee?.englishName ?? null;
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: type === 'issue' ? AuditAction.ASSIGN : AuditAction.UPDATE,
+      entityType: EntityType.CONSUMABLE,
+      entityId: id,
+      details: {
+        name: consumable.name,
+        movement: type,
+        quantity: transaction.quantity,
+        locationId: transaction.locationId,
+        ...(transaction.employeeId ? { employeeId: transaction.employeeId, employeeName } : {}),
+        ...(transaction.reference ? { reference: transaction.reference } : {}),
+      }
+    });
+
+    res.status(201).json(transaction);
+  } catch (error) {
+    if (error instanceof ConsumableStockError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('consumables', `Failed to ${type} consumable stock`, {
+      userId: user.id,
+      metadata: { consumableId: req.params.id, body: req.body },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to record stock movement' });
+  }
+}
+
+/**
+ * POST /api/consumables/:id/receive
+ * Body: { quantity, locationId?, unitCost?, reference?, notes? }
+ */
+router.post('/:id/receive', (req, res) => handleMovement(req, res, 'receive', receiveSchema));
+
+/**
+ * POST /api/consumables/:id/issue
+ * Body: { quantity, employeeId, locationId?, notes? }
+ */
+router.post('/:id/issue', (req, res) => handleMovement(req, res, 'issue', issueSchema));
+
+/**
+ * POST /api/consumables/:id/adjust
+ * Body: { quantity (counted on hand), locationId?, notes? }
+ */
+router.post('/:id/adjust', requireRole(ROLES.MANAGER), (req, res) => handleMovement(req, res, 'adjust', adjustSchema));
+
+export default router;
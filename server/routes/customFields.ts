@@ -0,0 +1,195 @@
+/**
+ * Custom Field Routes
+ * Admin-defined extra attributes of assets, employees and tickets
+ * Reading definitions (forms, table filters): any authenticated user
+ * Inactive definitions and definition changes: Admin and above
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { getRoleLevel, ROLE_IDS } from '@shared/roles.config';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import {
+  CustomFieldError, CUSTOM_FIELD_ENTITY_TYPES, CUSTOM_FIELD_TYPES,
+  getCustomFieldDefinitions, createCustomFieldDefinition, updateCustomFieldDefinition, deleteCustomFieldDefinition
+} from '../services/customFieldService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullable().optional().transform(value => value || null);
+
+const optionalNumber = z.number().finite().nullable().optional().transform(value => value ?? null);
+
+const definitionSchema = z.object({
+  label: z.string().trim().min(1, 'Label is required').max(150),
+  options: z.array(z.string().trim().min(1).max(100)).max(100).optional().default([]),
+  required: z.boolean().optional().default(false),
+  assetTypes: z.array(z.string().trim().min(1).max(100)).max(50).optional().default([]),
+  pattern: optionalText(255),
+  minValue: optionalNumber,
+  maxValue: optionalNumber,
+  sortOrder: z.number().int().min(0).max(10000).optional().default(0),
+  isActive: z.boolean().optional().default(true),
+});
+
+const newDefinitionSchema = definitionSchema.extend({
+  entityType: z.enum(CUSTOM_FIELD_ENTITY_TYPES),
+  key: z.string().trim().min(1).max(50).regex(/^[a-z][a-z0-9_]*$/, 'Field keys use lowercase letters, digits and underscores'),
+  fieldType: z.enum(CUSTOM_FIELD_TYPES),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505';
+}
+
+/**
+ * GET /api/custom-fields
+ * Query params:
+ *   - entityType=asset|employee|ticket (required)
+ *   - includeInactive=true (Admin and above)
+ */
+router.get('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const entityType = z.enum(CUSTOM_FIELD_ENTITY_TYPES).safeParse(req.query.entityType);
+    if (!entityType.success) {
+      return res.status(400).json({ message: `entityType must be one of: ${CUSTOM_FIELD_ENTITY_TYPES.join(', ')}` });
+    }
+    res.json(await getCustomFieldDefinitions(entityType.data, {
+      includeInactive: req.query.includeInactive === 'true' && getRoleLevel(user.role) >= getRoleLevel(ROLE_IDS.ADMIN),
+    }));
+  } catch (error) {
+    logger.error('custom-fields', 'Failed to list custom fields', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch custom fields' });
+  }
+});
+
+/**
+ * POST /api/custom-fields
+ */
+router.post('/', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = newDefinitionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    const definition = await createCustomFieldDefinition(parsed.data, user.id);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.CUSTOM_FIELD,
+      entityId: definition.id,
+      details: { entityType: definition.entityType, key: definition.key, fieldType: definition.fieldType }
+    });
+    res.status(201).json(definition);
+  } catch (error) {
+    if (error instanceof CustomFieldError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'A custom field with this key already exists' });
+    }
+    logger.error('custom-fields', 'Failed to create custom field', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to create custom field' });
+  }
+});
+
+/**
+ * PUT /api/custom-fields/:id
+ * Key, entity and field type cannot be changed
+ */
+router.put('/:id', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid custom field ID' });
+    }
+    const parsed = definitionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    const definition = await updateCustomFieldDefinition(id, parsed.data);
+    if (!definition) {
+      return res.status(404).json({ message: 'Custom field not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.CUSTOM_FIELD,
+      entityId: id,
+      details: { entityType: definition.entityType, key: definition.key, isActive: definition.isActive }
+    });
+    res.json(definition);
+  } catch (error) {
+    if (error instanceof CustomFieldError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('custom-fields', 'Failed to update custom field', {
+      userId: user.id,
+      metadata: { definitionId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update custom field' });
+  }
+});
+
+/**
+ * DELETE /api/custom-fields/:id
+ * Also removes the values stored under the field key
+ */
+router.delete('/:id', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid custom field ID' });
+    }
+    const definition = await deleteCustomFieldDefinition(id);
+    if (!definition) {
+      return res.status(404).json({ message: 'Custom field not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.DELETE,
+      entityType: EntityType.CUSTOM_FIELD,
+      entityId: id,
+      details: { entityType: definition.entityType, key: definition.key, label: definition.label }
+    });
+    res.json({ message: 'Custom field deleted' });
+  } catch (error) {
+    logger.error('custom-fields', 'Failed to delete custom field', {
+      userId: user.id,
+      metadata: { definitionId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to delete custom field' });
+  }
+});
+
+export default router;
@@ -0,0 +1,108 @@
+/**
+ * Directory Routes
+ * LDAP / Active Directory status, connection test and employee sync (preview and apply)
+ * Sign-in itself goes through POST /api/login (passport "ldap" strategy)
+ * All routes: Admin and above
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { DirectoryError, getDirectoryStatus, testDirectoryConnection, syncDirectory } from '../services/ldapService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const testSchema = z.object({
+  username: z.string().trim().max(255).optional(),
+});
+
+/**
+ * GET /api/directory/status
+ * Configuration summary (no secrets) and the last applied sync
+ */
+router.get('/status', requireRole(ROLES.ADMIN), async (req, res) => {
+  res.json(getDirectoryStatus());
+});
+
+/**
+ * POST /api/directory/test
+ * Binds with the service account; with a username also looks the user up and resolves their role
+ */
+router.post('/test', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = testSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    res.json(await testDirectoryConnection(parsed.data.username));
+  } catch (error) {
+    if (error instanceof DirectoryError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('ldap', 'Directory connection test failed', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to test the directory connection' });
+  }
+});
+
+/**
+ * POST /api/directory/sync/preview
+ * Dry run: what the sync would create, update and deactivate
+ */
+router.post('/sync/preview', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    res.json(await syncDirectory({ dryRun: true, userId: user.id }));
+  } catch (error) {
+    if (error instanceof DirectoryError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('ldap', 'Directory sync preview failed', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to preview the directory sync' });
+  }
+});
+
+/**
+ * POST /api/directory/sync
+ * Runs the sync now (the scheduler runs the same sync every LDAP_SYNC_INTERVAL_MINUTES)
+ */
+router.post('/sync', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const result = await syncDirectory({ dryRun: false, userId: user.id });
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.SYNC,
+      entityType: EntityType.DIRECTORY,
+      details: { event: 'manual_sync', startedBy: user.username }
+    });
+    res.json(result);
+  } catch (error) {
+    if (error instanceof DirectoryError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('ldap', 'Directory sync failed', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to sync the directory' });
+  }
+});
+
+export default router;
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { getImportSchemaFields, IMPORT_ENTITY_TYPES } from '../services/customFieldService';
 
 const router = Router();
 
@@ -302,6 +303,15 @@ const getEntitySchema = (entityType: string) => {
           required: false,
           autoGenerated: false,
           example: '123'
+        },
+        {
+          name: 'location',
+          displayName: 'Location',
+          description: 'Location code, full path or unique location name',
+          dataType: 'text',
+          required: false,
+          autoGenerated: false,
+          example: 'Cairo Office / Building A / Storeroom'
         }
       ]
     },
@@ -467,14 +477,139 @@ const getEntitySchema = (entityType: string) => {
           example: 'Replaced faulty power adapter'
         }
       ]
+    },
+    licenses: {
+      fields: [
+        {
+          name: 'productName',
+          displayName: 'Product Name',
+          description: 'Licensed software or subscription',
+          dataType: 'text',
+          required: true,
+          autoGenerated: false,
+          example: 'Microsoft 365'
+        },
+        {
+          name: 'vendor',
+          displayName: 'Vendor',
+          description: 'Vendor name; created when it does not exist yet',
+          dataType: 'text',
+          required: false,
+          autoGenerated: false,
+          example: 'Microsoft'
+        },
+        {
+          name: 'edition',
+          displayName: 'Edition',
+          description: 'Edition or plan',
+          dataType: 'text',
+          required: false,
+          autoGenerated: false,
+          example: 'Business Premium'
+        },
+        {
+          name: 'licenseType',
+          displayName: 'License Type',
+          description: 'Recurring subscription or one-off perpetual license',
+          dataType: 'enum',
+          required: false,
+          autoGenerated: false,
+          enumValues: ['subscription', 'perpetual'],
+          example: 'subscription'
+        },
+        {
+          name: 'seatCount',
+          displayName: 'Seat Count',
+          description: 'Number of purchased seats',
+          dataType: 'number',
+          required: false,
+          autoGenerated: false,
+          example: '25'
+        },
+        {
+          name: 'licenseKey',
+          displayName: 'License Key',
+          description: 'License or activation key; stored encrypted and never exported',
+          dataType: 'text',
+          required: false,
+          autoGenerated: false,
+          example: 'XXXXX-XXXXX-XXXXX'
+        },
+        {
+          name: 'billingCycle',
+          displayName: 'Billing Cycle',
+          description: 'How often the cost is billed',
+          dataType: 'enum',
+          required: false,
+          autoGenerated: false,
+          enumValues: ['monthly', 'quarterly', 'annual', 'one_time'],
+          example: 'annual'
+        },
+        {
+          name: 'cost',
+          displayName: 'Cost',
+          description: 'Cost per billing cycle',
+          dataType: 'number',
+          required: false,
+          autoGenerated: false,
+          example: '5500.00'
+        },
+        {
+          name: 'purchaseDate',
+          displayName: 'Purchase Date',
+          description: 'Date the license was bought',
+          dataType: 'date',
+          required: false,
+          autoGenerated: false,
+          example: '2026-01-15'
+        },
+        {
+          name: 'renewalDate',
+          displayName: 'Renewal Date',
+          description: 'Next renewal or expiry date',
+          dataType: 'date',
+          required: false,
+          autoGenerated: false,
+          example: '2027-01-15'
+        },
+        {
+          name: 'autoRenew',
+          displayName: 'Auto Renew',
+          description: 'Whether the subscription renews automatically',
+          dataType: 'enum',
+          required: false,
+          autoGenerated: false,
+          enumValues: ['Yes', 'No'],
+          example: 'No'
+        },
+        {
+          name: 'status',
+          displayName: 'Status',
+          description: 'License status',
+          dataType: 'enum',
+          required: false,
+          autoGenerated: false,
+          enumValues: ['active', 'expired', 'cancelled'],
+          example: 'active'
+        },
+        {
+          name: 'notes',
+          displayName: 'Notes',
+          description: 'Additional notes',
+          dataType: 'text',
+          required: false,
+          autoGenerated: false,
+          example: 'Renewed through reseller'
+        }
+      ]
     }
   };
   
   return schemas[entityType as keyof typeof schemas] || null;
 };
 
-// Get database schema for entity type
-router.get('/schema/:entityType', (req, res) => {
+// Get database schema for entity type, followed by the admin-defined custom fields
+router.get('/schema/:entityType', async (req, res) => {
   try {
     const { entityType } = req.params;
     const schema = getEntitySchema(entityType);
@@ -483,6 +618,11 @@ router.get('/schema/:entityType', (req, res) => {
       return res.status(400).json({ error: 'Invalid entity type' });
     }
     
+    const customFieldEntity = IMPORT_ENTITY_TYPES[entityType];
+    if (customFieldEntity) {
+      schema.fields = [...schema.fields, ...await getImportSchemaFields(customFieldEntity)];
+    }
+    
     res.json(schema);
   } catch (error) {
     console.error('Schema fetch error:', error);
@@ -0,0 +1,532 @@
+/**
+ * License Routes
+ * Software licenses and subscriptions, seat assignment, compliance and CSV export
+ * Read and seat assignment: Agent and above (enforced where the router is mounted)
+ * License changes and revealing license keys: Manager and above
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { stringify } from 'csv-stringify/sync';
+import { db } from '../db';
+import { softwareLicenses, licenseSeats, vendors, employees, assets } from '@shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import {
+  LICENSE_TYPES, BILLING_CYCLES, LICENSE_STATUSES, LicenseSeatError, getLicense, getLicenseSummaries,
+  getLicenseDetails, getComplianceReport, assignSeat, releaseSeat, encryptLicenseKey
+} from '../services/licenseService';
+import { decryptSecret, DecryptionError } from '../services/encryptionService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const licenseSchema = z.object({
+  productName: z.string().trim().min(1, 'Product name is required').max(150),
+  vendorId: z.number().int().positive().nullable().optional().transform(value => value ?? null),
+  edition: z.string().trim().max(100).nullable().optional().transform(value => value || null),
+  licenseType: z.enum(LICENSE_TYPES),
+  seatCount: z.number().int().min(1, 'At least one seat is required').max(1000000),
+  // Omitted: keep the stored key; null or empty: remove it
+  licenseKey: z.string().max(5000).nullable().optional(),
+  billingCycle: z.enum(BILLING_CYCLES),
+  cost: z.number().nonnegative().nullable().optional().transform(value => value === null || value === undefined ? null : value.toFixed(2)),
+  purchaseDate: isoDate.nullable().optional().transform(value => value || null),
+  renewalDate: isoDate.nullable().optional().transform(value => value || null),
+  autoRenew: z.boolean().optional().default(false),
+  status: z.enum(LICENSE_STATUSES).optional().default('active'),
+  renewalReminderDays: z.number().int().min(1).max(365).optional().default(30),
+  notes: z.string().trim().max(5000).nullable().optional().transform(value => value || null),
+});
+
+const seatSchema = z.object({
+  employeeId: z.number().int().positive().nullable().optional(),
+  assetId: z.number().int().positive().nullable().optional(),
+  notes: z.string().trim().max(1000).optional(),
+}).refine(data => Boolean(data.employeeId) !== Boolean(data.assetId), {
+  message: 'Assign the seat to either an employee or an asset',
+});
+
+const releaseSchema = z.object({
+  notes: z.string().trim().max(1000).optional(),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+async function getVendorError(vendorId: number | null): Promise<string | null> {
+  if (!vendorId) return null;
+  const [vendor] = await db.select({ id: vendors.id }).from(vendors).where(eq(vendors.id, vendorId));
+  return vendor ? null : 'Vendor not found';
+}
+
+/**
+ * GET /api/licenses
+ * Query params:
+ *   - status: active | expired | cancelled
+ *   - vendorId
+ *   - search: product, edition or vendor name
+ *   - employeeId / assetId: only licenses with a seat held by this employee or asset
+ */
+router.get('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const licenses = await getLicenseSummaries({
+      status: typeof req.query.status === 'string' && req.query.status !== 'all' ? req.query.status : undefined,
+      vendorId: req.query.vendorId ? parseId(String(req.query.vendorId)) ?? undefined : undefined,
+      search: typeof req.query.search === 'string' && req.query.search.trim() ? req.query.search.trim() : undefined,
+      employeeId: req.query.employeeId ? parseId(String(req.query.employeeId)) ?? undefined : undefined,
+      assetId: req.query.assetId ? parseId(String(req.query.assetId)) ?? undefined : undefined,
+    });
+    res.json(licenses);
+  } catch (error) {
+    logger.error('licenses', 'Failed to list licenses', {
+      userId: user.id,
+      metadata: { query: req.query },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch licenses' });
+  }
+});
+
+/**
+ * GET /api/licenses/compliance
+ * Over- and under-allocation per license with the yearly cost of unused seats
+ * Query params:
+ *   - format: json (default) | csv
+ */
+router.get('/compliance', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const report = await getComplianceReport();
+
+    if (req.query.format === 'csv') {
+      const csv = stringify(report.licenses.map(row => ({
+        'Product Name': row.productName,
+        'Edition': row.edition || '',
+        'Vendor': row.vendorName || '',
+        'Status': row.status,
+        'Seat Count': row.seatCount,
+        'Seats Used': row.usedSeats,
+        'Over-allocated Seats': row.overAllocatedSeats,
+        'Unused Seats': row.unusedSeats,
+        'Annual Cost': row.annualCost ?? '',
+        'Unused Annual Cost': row.unusedAnnualCost ?? '',
+        'Renewal Date': row.renewalDate || '',
+        'Compliance': row.complianceStatus,
+      })), { header: true });
+
+      const filename = `license-compliance-${new Date().toISOString().split('T')[0]}.csv`;
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      return res.send(csv);
+    }
+
+    res.json(report);
+  } catch (error) {
+    logger.error('licenses', 'Failed to build license compliance report', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to build compliance report' });
+  }
+});
+
+/**
+ * GET /api/licenses/export
+ * CSV in the import format (see /api/import/schema/licenses); license keys are never exported
+ */
+router.get('/export', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const licenses = await getLicenseSummaries();
+    const csv = stringify(licenses.map(license => ({
+      'Product Name': license.productName,
+      'Vendor': license.vendorName || '',
+      'Edition': license.edition || '',
+      'License Type': license.licenseType,
+      'Seat Count': license.seatCount,
+      'Seats Used': license.usedSeats,
+      'Billing Cycle': license.billingCycle,
+      'Cost': license.cost ?? '',
+      'Annual Cost': license.annualCost ?? '',
+      'Purchase Date': license.purchaseDate || '',
+      'Renewal Date': license.renewalDate || '',
+      'Auto Renew': license.autoRenew ? 'Yes' : 'No',
+      'Status': license.status,
+      'Notes': license.notes || '',
+    })), {
+      header: true,
+      columns: ['Product Name', 'Vendor', 'Edition', 'License Type', 'Seat Count', 'Seats Used', 'Billing Cycle',
+        'Cost', 'Annual Cost', 'Purchase Date', 'Renewal Date', 'Auto Renew', 'Status', 'Notes'],
+    });
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.EXPORT,
+      entityType: EntityType.LICENSE,
+      details: { count: licenses.length }
+    });
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', 'attachment; filename=licenses_export.csv');
+    res.send(csv);
+  } catch (error) {
+    logger.error('licenses', 'Failed to export licenses', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to export licenses' });
+  }
+});
+
+/**
+ * GET /api/licenses/template
+ * Import template with one sample row
+ */
+router.get('/template', (_req, res) => {
+  const csv = stringify([{
+    'Product Name': 'Microsoft 365',
+    'Vendor': 'Microsoft',
+    'Edition': 'Business Premium',
+    'License Type': 'subscription (subscription, perpetual)',
+    'Seat Count': '25',
+    'License Key': '(Optional: stored encrypted)',
+    'Billing Cycle': 'annual (monthly, quarterly, annual, one_time)',
+    'Cost': '5500.00 (Per billing cycle)',
+    'Purchase Date': '2026-01-15 (Format YYYY-MM-DD or MM/DD/YYYY)',
+    'Renewal Date': '2027-01-15 (Format YYYY-MM-DD or MM/DD/YYYY)',
+    'Auto Renew': 'No (Yes, No)',
+    'Status': 'active (active, expired, cancelled)',
+    'Notes': '',
+  }], { header: true });
+
+  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Disposition', 'attachment; filename="licenses-template.csv"');
+  res.send(csv);
+});
+
+/**
+ * GET /api/licenses/:id
+ * License with its current and released seats
+ */
+router.get('/:id', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid license ID' });
+    }
+
+    const details = await getLicenseDetails(id);
+    if (!details) {
+      return res.status(404).json({ message: 'License not found' });
+    }
+
+    res.json(details);
+  } catch (error) {
+    logger.error('licenses', 'Failed to fetch license', {
+      userId: user.id,
+      metadata: { licenseId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch license' });
+  }
+});
+
+/**
+ * GET /api/licenses/:id/key
+ * Decrypted license key; every reveal is written to the audit log
+ */
+router.get('/:id/key', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid license ID' });
+    }
+
+    const license = await getLicense(id);
+    if (!license) {
+      return res.status(404).json({ message: 'License not found' });
+    }
+    if (!license.licenseKeyEncrypted) {
+      return res.status(404).json({ message: 'No license key stored' });
+    }
+
+    const licenseKey = decryptSecret(license.licenseKeyEncrypted);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.READ,
+      entityType: EntityType.LICENSE,
+      entityId: id,
+      details: { productName: license.productName, field: 'licenseKey' }
+    });
+
+    res.json({ licenseKey });
+  } catch (error) {
+    if (error instanceof DecryptionError) {
+      return res.status(500).json({ message: error.message });
+    }
+    logger.error('licenses', 'Failed to reveal license key', {
+      userId: user.id,
+      metadata: { licenseId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to reveal license key' });
+  }
+});
+
+/**
+ * POST /api/licenses
+ */
+router.post('/', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = licenseSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    const vendorError = await getVendorError(parsed.data.vendorId);
+    if (vendorError) {
+      return res.status(400).json({ message: vendorError });
+    }
+
+    const { licenseKey, ...values } = parsed.data;
+    const [license] = await db.insert(softwareLicenses).values({
+      ...values,
+      licenseKeyEncrypted: encryptLicenseKey(licenseKey ?? null),
+      createdById: user.id,
+    }).returning();
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.LICENSE,
+      entityId: license.id,
+      details: { productName: license.productName, seatCount: license.seatCount, billingCycle: license.billingCycle }
+    });
+
+    res.status(201).json(await getLicenseDetails(license.id));
+  } catch (error) {
+    logger.error('licenses', 'Failed to create license', {
+      userId: user.id,
+      metadata: { productName: req.body?.productName },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to create license' });
+  }
+});
+
+/**
+ * PUT /api/licenses/:id
+ * A new renewal date restarts the renewal reminders
+ */
+router.put('/:id', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid license ID' });
+    }
+    const parsed = licenseSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const existing = await getLicense(id);
+    if (!existing) {
+      return res.status(404).json({ message: 'License not found' });
+    }
+    const vendorError = await getVendorError(parsed.data.vendorId);
+    if (vendorError) {
+      return res.status(400).json({ message: vendorError });
+    }
+
+    const { licenseKey, ...values } = parsed.data;
+    const renewalChanged = values.renewalDate !== existing.renewalDate;
+    await db.update(softwareLicenses)
+      .set({
+        ...values,
+        ...(licenseKey !== undefined ? { licenseKeyEncrypted: encryptLicenseKey(licenseKey) } : {}),
+        ...(renewalChanged ? { lastReminderLevel: 0, lastReminderAt: null } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(softwareLicenses.id, id));
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.LICENSE,
+      entityId: id,
+      details: {
+        productName: values.productName,
+        seatCount: values.seatCount,
+        status: values.status,
+        renewalDate: values.renewalDate,
+        licenseKeyChanged: licenseKey !== undefined,
+      }
+    });
+
+    res.json(await getLicenseDetails(id));
+  } catch (error) {
+    logger.error('licenses', 'Failed to update license', {
+      userId: user.id,
+      metadata: { licenseId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update license' });
+  }
+});
+
+/**
+ * DELETE /api/licenses/:id
+ * Removes the license with its seat history
+ */
+router.delete('/:id', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid license ID' });
+    }
+
+    const [deleted] = await db.delete(softwareLicenses).where(eq(softwareLicenses.id, id)).returning();
+    if (!deleted) {
+      return res.status(404).json({ message: 'License not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.DELETE,
+      entityType: EntityType.LICENSE,
+      entityId: id,
+      details: { productName: deleted.productName }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('licenses', 'Failed to delete license', {
+      userId: user.id,
+      metadata: { licenseId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to delete license' });
+  }
+});
+
+/**
+ * POST /api/licenses/:id/seats
+ * Body: { employeeId } or { assetId }, notes?
+ */
+router.post('/:id/seats', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid license ID' });
+    }
+    const parsed = seatSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const { employeeId, assetId, notes } = parsed.data;
+    if (employeeId) {
+      const [employee] = await db.select({ id: employees.id }).from(employees).where(eq(employees.id, employeeId));
+      if (!employee) {
+        return res.status(400).json({ message: 'Employee not found' });
+      }
+    }
+    if (assetId) {
+      const [asset] = await db.select({ id: assets.id }).from(assets).where(eq(assets.id, assetId));
+      if (!asset) {
+        return res.status(400).json({ message: 'Asset not found' });
+      }
+    }
+
+    const seat = await assignSeat(id, { employeeId, assetId }, user.id, notes);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.ASSIGN,
+      entityType: EntityType.LICENSE,
+      entityId: id,
+      details: { seatId: seat.id, employeeId: seat.employeeId, assetId: seat.assetId }
+    });
+
+    res.status(201).json(seat);
+  } catch (error) {
+    if (error instanceof LicenseSeatError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('licenses', 'Failed to assign license seat', {
+      userId: user.id,
+      metadata: { licenseId: req.params.id, employeeId: req.body?.employeeId, assetId: req.body?.assetId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to assign seat' });
+  }
+});
+
+/**
+ * POST /api/licenses/:id/seats/:seatId/release
+ * Body: { notes? }
+ */
+router.post('/:id/seats/:seatId/release', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    const seatId = parseId(req.params.seatId);
+    if (id === null || seatId === null) {
+      return res.status(400).json({ message: 'Invalid license or seat ID' });
+    }
+    const parsed = releaseSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [seat] = await db.select().from(licenseSeats)
+      .where(and(eq(licenseSeats.id, seatId), eq(licenseSeats.licenseId, id)));
+    if (!seat) {
+      return res.status(404).json({ message: 'Seat not found' });
+    }
+    if (seat.releasedAt) {
+      return res.status(400).json({ message: 'Seat was already released' });
+    }
+
+    const released = await releaseSeat(seatId, user.id, 'manual', parsed.data.notes);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UNASSIGN,
+      entityType: EntityType.LICENSE,
+      entityId: id,
+      details: { seatId, employeeId: seat.employeeId, assetId: seat.assetId }
+    });
+
+    res.json(released);
+  } catch (error) {
+    logger.error('licenses', 'Failed to release license seat', {
+      userId: user.id,
+      metadata: { licenseId: req.params.id, seatId: req.params.seatId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to release seat' });
+  }
+});
+
+export default router;
@@ -0,0 +1,340 @@
+/**
+ * Location Routes
+ * Site > building > floor > room/cabinet hierarchy and asset transfers between locations
+ * Read and transfer: Agent and above (enforced where the router is mounted)
+ * Location changes: Manager and above
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { db } from '../db';
+import { locations, assets, consumableStock } from '@shared/schema';
+import { and, eq, inArray, ne } from 'drizzle-orm';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import {
+  LOCATION_TYPES, LOCATION_PATH_SEPARATOR, getAllLocations, getLocationPaths, buildLocationTree, getDescendantIds,
+  validateLocationParent, transferAssets, countAssetsByLocation
+} from '../services/locationService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const locationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  type: z.enum(LOCATION_TYPES),
+  parentId: z.number().int().positive().nullable().optional().transform(value => value ?? null),
+  code: z.string().trim().max(50).nullable().optional().transform(value => value || null),
+  description: z.string().trim().max(1000).nullable().optional().transform(value => value || null),
+  isActive: z.boolean().optional(),
+});
+
+const transferSchema = z.object({
+  assetIds: z.array(z.number().int().positive()).min(1, 'Select at least one asset').max(500),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505';
+}
+
+/**
+ * GET /api/locations
+ * Flat list ordered by path, with the number of assets stored directly in each location
+ * and in the location including everything beneath it
+ * Query params:
+ *   - view: list (default) | tree
+ */
+router.get('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const [rows, counts] = await Promise.all([getAllLocations(), countAssetsByLocation()]);
+
+    if (req.query.view === 'tree') {
+      return res.json(buildLocationTree(rows));
+    }
+
+    const paths = getLocationPaths(rows);
+    const list = rows.map(row => {
+      const path = paths.get(row.id) || row.name;
+      const descendantIds = getDescendantIds(rows, row.id);
+      return {
+        ...row,
+        path,
+        depth: path.split(LOCATION_PATH_SEPARATOR).length - 1,
+        assetCount: counts.get(row.id) || 0,
+        totalAssetCount: descendantIds.reduce((sum, id) => sum + (counts.get(id) || 0), 0),
+      };
+    });
+    list.sort((a, b) => a.path.localeCompare(b.path));
+
+    res.json(list);
+  } catch (error) {
+    logger.error('locations', 'Failed to list locations', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch locations' });
+  }
+});
+
+/**
+ * GET /api/locations/:id/assets
+ * Assets kept in the location and in every location beneath it
+ * Query params:
+ *   - includeChildren: false to only list assets stored directly in the location
+ */
+router.get('/:id/assets', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid location ID' });
+    }
+
+    const rows = await getAllLocations();
+    if (!rows.some(row => row.id === id)) {
+      return res.status(404).json({ message: 'Location not found' });
+    }
+
+    const locationIds = req.query.includeChildren === 'false' ? [id] : getDescendantIds(rows, id);
+    const paths = getLocationPaths(rows);
+    const stored = await db.select().from(assets).where(inArray(assets.locationId, locationIds));
+
+    res.json(stored.map(asset => ({
+      ...asset,
+      locationPath: asset.locationId ? paths.get(asset.locationId) || null : null,
+    })));
+  } catch (error) {
+    logger.error('locations', 'Failed to list location assets', {
+      userId: user.id,
+      metadata: { locationId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch location assets' });
+  }
+});
+
+/**
+ * POST /api/locations
+ */
+router.post('/', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = locationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const rows = await getAllLocations();
+    const problem = validateLocationParent(rows, null, parsed.data.type, parsed.data.parentId);
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const [location] = await db.insert(locations).values(parsed.data).returning();
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.LOCATION,
+      entityId: location.id,
+      details: { name: location.name, type: location.type, parentId: location.parentId }
+    });
+
+    res.status(201).json(location);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'Another location already uses this code' });
+    }
+    logger.error('locations', 'Failed to create location', {
+      userId: user.id,
+      metadata: { name: req.body?.name },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to create location' });
+  }
+});
+
+/**
+ * PUT /api/locations/:id
+ * Changing the parent moves the whole subtree with its assets
+ */
+router.put('/:id', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid location ID' });
+    }
+    const parsed = locationSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const rows = await getAllLocations();
+    const existing = rows.find(row => row.id === id);
+    if (!existing) {
+      return res.status(404).json({ message: 'Location not found' });
+    }
+
+    const updates = Object.fromEntries(
+      Object.entries(parsed.data).filter(([key]) => key in req.body)
+    ) as Partial<typeof parsed.data>;
+
+    const problem = validateLocationParent(
+      rows,
+      id,
+      updates.type ?? existing.type,
+      updates.parentId !== undefined ? updates.parentId : existing.parentId
+    );
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const [location] = await db.update(locations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(locations.id, id))
+      .returning();
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.LOCATION,
+      entityId: id,
+      details: { name: location.name, changes: Object.keys(updates) }
+    });
+
+    res.json(location);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'Another location already uses this code' });
+    }
+    logger.error('locations', 'Failed to update location', {
+      userId: user.id,
+      metadata: { locationId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update location' });
+  }
+});
+
+/**
+ * DELETE /api/locations/:id
+ * Only empty locations can be deleted: move child locations and assets elsewhere first
+ */
+router.delete('/:id', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid location ID' });
+    }
+
+    const [child] = await db.select({ id: locations.id }).from(locations).where(eq(locations.parentId, id)).limit(1);
+    if (child) {
+      return res.status(400).json({ message: 'Location has child locations' });
+    }
+    const [stored] = await db.select({ id: assets.id }).from(assets).where(eq(assets.locationId, id)).limit(1);
+    if (stored) {
+      return res.status(400).json({ message: 'Location still holds assets; transfer them first' });
+    }
+    const [stocked] = await db.select({ id: consumableStock.id })
+      .from(consumableStock)
+      .where(and(eq(consumableStock.locationId, id), ne(consumableStock.quantity, 0)))
+      .limit(1);
+    if (stocked) {
+      return res.status(400).json({ message: 'Location still holds consumable stock; issue or adjust it first' });
+    }
+
+    const [deleted] = await db.delete(locations).where(eq(locations.id, id)).returning();
+    if (!deleted) {
+      return res.status(404).json({ message: 'Location not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.DELETE,
+      entityType: EntityType.LOCATION,
+      entityId: id,
+      details: { name: deleted.name, type: deleted.type }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('locations', 'Failed to delete location', {
+      userId: user.id,
+      metadata: { locationId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to delete location' });
+  }
+});
+
+/**
+ * POST /api/locations/:id/transfer
+ * Move assets into this location, recording a Transfer transaction per asset
+ * Body: { assetIds, notes? }
+ */
+router.post('/:id/transfer', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid location ID' });
+    }
+    const parsed = transferSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [destination] = await db.select().from(locations).where(eq(locations.id, id));
+    if (!destination) {
+      return res.status(404).json({ message: 'Location not found' });
+    }
+    if (!destination.isActive) {
+      return res.status(400).json({ message: 'Assets cannot be transferred to an inactive location' });
+    }
+
+    const result = await transferAssets(parsed.data.assetIds, id, user.id, parsed.data.notes);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.TRANSFER,
+      entityType: EntityType.LOCATION,
+      entityId: id,
+      details: {
+        location: destination.name,
+        assetIds: result.transferred.map(transaction => transaction.assetId),
+        skipped: result.skipped,
+      }
+    });
+
+    res.json({
+      transferred: result.transferred.length,
+      skipped: result.skipped.length,
+      transactions: result.transferred,
+    });
+  } catch (error) {
+    logger.error('locations', 'Failed to transfer assets', {
+      userId: user.id,
+      metadata: { locationId: req.params.id, assetIds: req.body?.assetIds },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to transfer assets' });
+  }
+});
+
+export default router;
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { db } from '../db';
 import { notificationPreferences } from '@shared/schema';
 import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { NOTIFICATION_PREFERENCE_KEYS, EMAIL_FREQUENCIES } from '../services/notificationEmailService';
 
 const router = Router();
 
@@ -45,22 +47,40 @@ router.get('/preferences', async (req, res) => {
   }
 });
 
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+
+const preferencesUpdateSchema = z.object({
+  ticketAssignments: z.boolean(),
+  ticketStatusChanges: z.boolean(),
+  assetAssignments: z.boolean(),
+  maintenanceAlerts: z.boolean(),
+  upgradeRequests: z.boolean(),
+  systemAnnouncements: z.boolean(),
+  employeeChanges: z.boolean(),
+  soundEnabled: z.boolean(),
+  dndEnabled: z.boolean(),
+  dndStartTime: timeSchema.nullable(),
+  dndEndTime: timeSchema.nullable(),
+  dndDays: z.array(z.number().int().min(0).max(6)),
+  emailChannels: z.record(z.enum(NOTIFICATION_PREFERENCE_KEYS), z.enum(EMAIL_FREQUENCIES)),
+  dailyDigestTime: timeSchema,
+  emailLanguage: z.enum(['English', 'Arabic']),
+}).partial();
+
 /**
  * PUT /api/notifications/preferences
  * Update notification preferences for the current user
+ * Only the fields present in the body are changed
  */
 router.put('/preferences', async (req, res) => {
   try {
     const user = req.user as AuthUser;
-    const {
-      ticketAssignments,
-      ticketStatusChanges,
-      assetAssignments,
-      maintenanceAlerts,
-      upgradeRequests,
-      systemAnnouncements,
-      employeeChanges,
-    } = req.body;
+
+    const parsed = preferencesUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid notification preferences' });
+    }
+    const updates = parsed.data;
 
     // Check if preferences exist
     const existing = await db.query.notificationPreferences.findFirst({
@@ -71,13 +91,7 @@ router.put('/preferences', async (req, res) => {
       // Update existing preferences
       const [updated] = await db.update(notificationPreferences)
         .set({
-          ticketAssignments,
-          ticketStatusChanges,
-          assetAssignments,
-          maintenanceAlerts,
-          upgradeRequests,
-          systemAnnouncements,
-          employeeChanges,
+          ...updates,
           updatedAt: new Date(),
         })
         .where(eq(notificationPreferences.userId, user.id))
@@ -88,13 +102,7 @@ router.put('/preferences', async (req, res) => {
       // Create new preferences
       const [newPrefs] = await db.insert(notificationPreferences).values({
         userId: user.id,
-        ticketAssignments,
-        ticketStatusChanges,
-        assetAssignments,
-        maintenanceAlerts,
-        upgradeRequests,
-        systemAnnouncements,
-        employeeChanges,
+        ...updates,
       }).returning();
       
       res.json(newPrefs);
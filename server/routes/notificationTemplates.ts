@@ -1,14 +1,24 @@
 /**
  * Notification Templates Routes
  * Admin-only CRUD operations for notification templates
+ * Templates with an event key replace the built-in title/message of that notify* event
+ * for recipients reading notifications in the template's language
  */
 
 import { Router } from 'express';
 import { db } from '../db';
-import { notificationTemplates } from '@shared/schema';
-import { eq, desc } from 'drizzle-orm';
+import { notificationTemplates, type NotificationTemplate } from '@shared/schema';
+import { eq, desc, and, ne } from 'drizzle-orm';
 import { requireRole, ROLES } from '../rbac';
 import { logger } from '../services/logger';
+import {
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_LANGUAGES,
+  getSampleVariables,
+  isNotificationEvent,
+  renderTemplate,
+  validateNotificationTemplate,
+} from '../services/notificationTemplateService';
 
 const router = Router();
 
@@ -19,6 +29,91 @@ interface AuthUser {
   role: string;
 }
 
+/**
+ * Check the event, language and template text of a template being saved
+ * Returns the problems found; empty when the template can be saved
+ */
+function getTemplateProblems(template: {
+  eventKey?: string | null;
+  language?: string;
+  titleTemplate: string;
+  messageTemplate: string;
+  variables?: unknown;
+}): string[] {
+  if (template.language && !(NOTIFICATION_LANGUAGES as readonly string[]).includes(template.language)) {
+    return [`Language must be one of: ${NOTIFICATION_LANGUAGES.join(', ')}`];
+  }
+  return validateNotificationTemplate({
+    eventKey: template.eventKey,
+    titleTemplate: template.titleTemplate,
+    messageTemplate: template.messageTemplate,
+    variables: Array.isArray(template.variables) ? template.variables : [],
+  });
+}
+
+/**
+ * Only one template renders an event per language: deactivate the others when this one is active
+ */
+async function deactivateOtherEventTemplates(template: NotificationTemplate) {
+  if (!template.eventKey || !template.isActive) return;
+
+  await db.update(notificationTemplates)
+    .set({ isActive: false, updatedAt: new Date() })
+    .where(and(
+      eq(notificationTemplates.eventKey, template.eventKey),
+      eq(notificationTemplates.language, template.language),
+      eq(notificationTemplates.isActive, true),
+      ne(notificationTemplates.id, template.id)
+    ));
+}
+
+/**
+ * GET /api/notification-templates/events
+ * Events that can be rendered from a template, with their variables and built-in defaults (Admin only)
+ */
+router.get('/events', requireRole(ROLES.ADMIN), (req, res) => {
+  res.json(Object.entries(NOTIFICATION_EVENTS).map(([key, definition]) => ({
+    key,
+    description: definition.description,
+    type: definition.type,
+    category: definition.category,
+    variables: Object.entries(definition.variables).map(([name, spec]) => ({
+      name,
+      description: spec.description,
+      list: 'list' in spec && spec.list === true,
+    })),
+    defaults: definition.defaults,
+  })));
+});
+
+/**
+ * POST /api/notification-templates/preview
+ * Validate and render unsaved template text with sample values (Admin only)
+ * Body: { eventKey?, titleTemplate, messageTemplate, variables? }
+ */
+router.post('/preview', requireRole(ROLES.ADMIN), (req, res) => {
+  const { eventKey, titleTemplate, messageTemplate, variables } = req.body;
+
+  if (typeof titleTemplate !== 'string' || typeof messageTemplate !== 'string') {
+    return res.status(400).json({ error: 'Required fields: titleTemplate, messageTemplate' });
+  }
+
+  const problems = getTemplateProblems({ eventKey, titleTemplate, messageTemplate, variables });
+  if (problems.length > 0) {
+    return res.json({ valid: false, problems, preview: null });
+  }
+
+  const sample = isNotificationEvent(eventKey) ? getSampleVariables(eventKey) : {};
+  res.json({
+    valid: true,
+    problems: [],
+    preview: {
+      title: renderTemplate(titleTemplate, sample),
+      message: renderTemplate(messageTemplate, sample),
+    },
+  });
+});
+
 /**
  * GET /api/notification-templates
  * Get all notification templates (Admin only)
@@ -108,35 +203,51 @@ router.post('/', requireRole(ROLES.ADMIN), async (req, res) => {
       titleTemplate,
       messageTemplate,
       variables,
+      eventKey,
+      language,
       isActive
     } = req.body;
 
+    // Event templates take their category and type from the event
+    const event = isNotificationEvent(eventKey) ? NOTIFICATION_EVENTS[eventKey] : null;
+
     // Validation
-    if (!name || !category || !type || !titleTemplate || !messageTemplate) {
+    if (!name || !(category || event) || !(type || event) || !titleTemplate || !messageTemplate) {
       return res.status(400).json({ 
         error: 'Required fields: name, category, type, titleTemplate, messageTemplate' 
       });
     }
 
-    // Ensure variables is an array
-    const variablesArray = Array.isArray(variables) ? variables : [];
+    const problems = getTemplateProblems({ eventKey, language, titleTemplate, messageTemplate, variables });
+    if (problems.length > 0) {
+      return res.status(400).json({ error: 'Template is not valid', problems });
+    }
+
+    // Event templates can use exactly the variables the event supplies
+    const variablesArray = event
+      ? Object.keys(event.variables)
+      : Array.isArray(variables) ? variables : [];
 
     // Create template
     const [template] = await db.insert(notificationTemplates)
       .values({
         name,
         description: description || null,
-        category,
-        type,
+        category: event ? event.category : category,
+        type: event ? event.type : type,
         priority: priority || 'medium',
         titleTemplate,
         messageTemplate,
         variables: variablesArray,
+        eventKey: eventKey || null,
+        language: language || 'English',
         isActive: isActive !== undefined ? isActive : true,
         createdBy: user.id,
       })
       .returning();
 
+    await deactivateOtherEventTemplates(template);
+
     logger.info('notification-templates', `Created notification template: ${name}`, {
       userId: user.id,
       metadata: { templateId: template.id, name, category, type }
@@ -180,6 +291,8 @@ router.put('/:id', requireRole(ROLES.ADMIN), async (req, res) => {
       titleTemplate,
       messageTemplate,
       variables,
+      eventKey,
+      language,
       isActive
     } = req.body;
 
@@ -192,6 +305,19 @@ router.put('/:id', requireRole(ROLES.ADMIN), async (req, res) => {
       return res.status(404).json({ error: 'Template not found' });
     }
 
+    // Validate the template as it will be after the update
+    const nextEventKey = eventKey !== undefined ? eventKey || null : existing.eventKey;
+    const problems = getTemplateProblems({
+      eventKey: nextEventKey,
+      language: language ?? existing.language,
+      titleTemplate: titleTemplate ?? existing.titleTemplate,
+      messageTemplate: messageTemplate ?? existing.messageTemplate,
+      variables: variables ?? existing.variables,
+    });
+    if (problems.length > 0) {
+      return res.status(400).json({ error: 'Template is not valid', problems });
+    }
+
     // Prepare update data
     const updateData: any = {
       updatedAt: new Date(),
@@ -205,14 +331,26 @@ router.put('/:id', requireRole(ROLES.ADMIN), async (req, res) => {
     if (titleTemplate !== undefined) updateData.titleTemplate = titleTemplate;
     if (messageTemplate !== undefined) updateData.messageTemplate = messageTemplate;
     if (variables !== undefined) updateData.variables = Array.isArray(variables) ? variables : [];
+    if (eventKey !== undefined) updateData.eventKey = nextEventKey;
+    if (language !== undefined) updateData.language = language;
     if (isActive !== undefined) updateData.isActive = isActive;
 
+    // Event templates take their category, type and variables from the event
+    if (isNotificationEvent(nextEventKey)) {
+      const event = NOTIFICATION_EVENTS[nextEventKey];
+      updateData.category = event.category;
+      updateData.type = event.type;
+      updateData.variables = Object.keys(event.variables);
+    }
+
     // Update template
     const [updated] = await db.update(notificationTemplates)
       .set(updateData)
       .where(eq(notificationTemplates.id, templateId))
       .returning();
 
+    await deactivateOtherEventTemplates(updated);
+
     logger.info('notification-templates', `Updated notification template: ${updated.name}`, {
       userId: user.id,
       metadata: { templateId, name: updated.name }
@@ -300,6 +438,8 @@ router.post('/:id/activate', requireRole(ROLES.ADMIN), async (req, res) => {
       return res.status(404).json({ error: 'Template not found' });
     }
 
+    await deactivateOtherEventTemplates(updated);
+
     logger.info('notification-templates', `Activated notification template: ${updated.name}`, {
       userId: user.id,
       metadata: { templateId, name: updated.name }
@@ -337,18 +477,20 @@ router.post('/:id/test', requireRole(ROLES.ADMIN), async (req, res) => {
       return res.status(404).json({ error: 'Template not found' });
     }
 
-    // Replace variables in template
-    let testTitle = template.titleTemplate;
-    let testMessage = template.messageTemplate;
+    // Render with the supplied values, filling the rest from the event's samples
+    const sample = isNotificationEvent(template.eventKey) ? getSampleVariables(template.eventKey) : {};
+    const values = testVariables && typeof testVariables === 'object'
+      ? { ...sample, ...testVariables }
+      : sample;
 
-    if (testVariables && typeof testVariables === 'object') {
-      for (const [key, value] of Object.entries(testVariables)) {
-        const placeholder = `{{${key}}}`;
-        testTitle = testTitle.replace(new RegExp(placeholder, 'g'), String(value));
-        testMessage = testMessage.replace(new RegExp(placeholder, 'g'), String(value));
-      }
+    const problems = getTemplateProblems(template);
+    if (problems.length > 0) {
+      return res.status(400).json({ error: 'Template is not valid', problems });
     }
 
+    const testTitle = renderTemplate(template.titleTemplate, values);
+    const testMessage = renderTemplate(template.messageTemplate, values);
+
     res.json({
       template: {
         id: template.id,
@@ -356,6 +498,8 @@ router.post('/:id/test', requireRole(ROLES.ADMIN), async (req, res) => {
         category: template.category,
         type: template.type,
         priority: template.priority,
+        eventKey: template.eventKey,
+        language: template.language,
       },
       preview: {
         title: testTitle,
@@ -6,6 +6,7 @@ import { requireRole, ROLES } from '../rbac';
 import * as notificationService from '../services/notificationService';
 import notificationPreferencesRouter from './notificationPreferences';
 import { logger } from '../services/logger';
+import { getDndEndTime, getNotificationPreferenceKey, queueNotificationEmail, type NotificationPreferenceKey } from '../services/notificationEmailService';
 
 const router = Router();
 
@@ -240,6 +241,9 @@ export async function createNotification(params: {
   entityId?: number;
   priority?: 'info' | 'low' | 'medium' | 'high' | 'critical';
   category?: 'assignments' | 'status_changes' | 'maintenance' | 'approvals' | 'announcements' | 'reminders' | 'alerts';
+  preferenceKey?: NotificationPreferenceKey | null;  // Skips inferring the preference category from the wording
+  templateId?: number;  // Notification template the title/message were rendered from
+  skipEmail?: boolean;  // The caller emails the recipient itself (e.g. approval links)
 }) {
   try {
     // Check user's notification preferences
@@ -247,71 +251,38 @@ export async function createNotification(params: {
       where: eq(schema.notificationPreferences.userId, params.userId)
     });
 
-    // Check Do Not Disturb mode
-    if (prefs && prefs.dndEnabled && prefs.dndStartTime && prefs.dndEndTime) {
-      const now = new Date();
-      const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
-      const currentDay = now.getDay(); // 0 = Sunday, 6 = Saturday
-
-      // Check if current day is in DND days (if specified)
-      const dndDays = (prefs.dndDays as number[]) || [];
-      const isDndDay = dndDays.length === 0 || dndDays.includes(currentDay);
-
-      if (isDndDay) {
-        const start = prefs.dndStartTime;
-        const end = prefs.dndEndTime;
-
-        // Handle DND time range (supports overnight ranges like 22:00-08:00)
-        let isInDndPeriod = false;
-        if (start <= end) {
-          // Same day range (e.g., 09:00-17:00)
-          isInDndPeriod = currentTime >= start && currentTime <= end;
-        } else {
-          // Overnight range (e.g., 22:00-08:00)
-          isInDndPeriod = currentTime >= start || currentTime <= end;
-        }
+    // Email channel is configured separately from the in-app toggle, so route it first
+    if (prefs && !params.skipEmail) {
+      try {
+        await queueNotificationEmail(params, prefs);
+      } catch (error) {
+        logger.error('notifications', `Failed to queue notification email: ${params.title}`, {
+          userId: params.userId,
+          metadata: { type: params.type, title: params.title },
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
 
-        if (isInDndPeriod && params.priority !== 'critical') {
-          logger.debug('notifications', `Notification blocked by DND: User ${params.userId}`, {
-            userId: params.userId,
-            metadata: { 
-              type: params.type,
-              title: params.title,
-              currentTime,
-              dndStart: start,
-              dndEnd: end,
-              reason: 'Do Not Disturb active'
-            }
-          });
-          return null; // Block notification during DND (except critical)
+    // Check Do Not Disturb mode
+    const dndEndTime = prefs ? getDndEndTime(prefs) : null;
+    if (dndEndTime && params.priority !== 'critical') {
+      logger.debug('notifications', `Notification blocked by DND: User ${params.userId}`, {
+        userId: params.userId,
+        metadata: { 
+          type: params.type,
+          title: params.title,
+          dndStart: prefs?.dndStartTime,
+          dndEnd: prefs?.dndEndTime,
+          reason: 'Do Not Disturb active'
         }
-      }
+      });
+      return null; // Block notification during DND (except critical)
     }
 
     // Determine if this notification type is enabled
-    let isEnabled = true; // Default to enabled if no preferences set
-    
-    if (prefs) {
-      // Map notification type to preference field
-      const message = params.message.toLowerCase();
-      const title = params.title.toLowerCase();
-      
-      if (params.type === 'Ticket' && (message.includes('assigned') || title.includes('assigned'))) {
-        isEnabled = prefs.ticketAssignments;
-      } else if (params.type === 'Ticket' && (message.includes('status') || title.includes('status'))) {
-        isEnabled = prefs.ticketStatusChanges;
-      } else if (params.type === 'Asset' && (message.includes('assigned') || message.includes('checked') || title.includes('assigned'))) {
-        isEnabled = prefs.assetAssignments;
-      } else if (params.type === 'Asset' && (message.includes('maintenance') || title.includes('maintenance'))) {
-        isEnabled = prefs.maintenanceAlerts;
-      } else if (message.includes('upgrade') || title.includes('upgrade')) {
-        isEnabled = prefs.upgradeRequests;
-      } else if (params.type === 'System') {
-        isEnabled = prefs.systemAnnouncements;
-      } else if (params.type === 'Employee') {
-        isEnabled = prefs.employeeChanges;
-      }
-    }
+    const preferenceKey = getNotificationPreferenceKey(params);
+    const isEnabled = prefs && preferenceKey ? prefs[preferenceKey] : true; // Default to enabled if no preferences set
 
     // Only create notification if user has it enabled
     if (!isEnabled) {
@@ -337,6 +308,7 @@ export async function createNotification(params: {
         entityId: params.entityId,
         priority: params.priority || 'medium',
         category: params.category || 'alerts',
+        templateId: params.templateId,
         isRead: false,
       })
       .returning();
@@ -0,0 +1,561 @@
+/**
+ * Offboarding Routes
+ * Offboarding cases for leaving employees: checklist, ticket transfer, account disable,
+ * manager sign-off and the clearance certificate
+ * Read/open/sign-off: Agent and above (enforced where the router is mounted)
+ * Account disable, ticket transfer, waive and cancel: Manager and above
+ * Asset returns go through the existing POST /api/assets/:id/check-in
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { db } from '../db';
+import { offboardingCases, offboardingTasks, employees, assets, users, tickets } from '@shared/schema';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { fromZodError } from 'zod-validation-error';
+import { storage } from '../storage';
+import { requireRole, ROLES, hasMinimumRoleLevel } from '../rbac';
+import { ROLE_LEVELS, getRoleLevel } from '@shared/roles.config';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import {
+  OPEN_TICKET_STATUSES, openOffboardingCase, syncOffboardingCase, completeOffboardingTask,
+  buildClearanceCertificate, daysUntil, type OffboardingCaseDetails
+} from '../services/offboardingService';
+import { emitTicketChangeEvents } from '../services/webhookService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const notesSchema = z.object({
+  notes: z.string().trim().max(1000).optional(),
+});
+
+const waiveSchema = z.object({
+  notes: z.string().trim().min(1, 'A reason is required to waive an item').max(1000),
+});
+
+const transferSchema = z.object({
+  assignToId: z.number().int().positive(),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+/**
+ * Case with the context the checklist screen needs: asset details, linked account,
+ * direct manager and the tickets still to transfer
+ */
+async function toCaseResponse(details: OffboardingCaseDetails) {
+  const { offboardingCase, tasks, employee } = details;
+
+  const assetIds = tasks.map(task => task.assetId).filter((id): id is number => id !== null);
+  const taskAssets = assetIds.length > 0
+    ? await db.select({
+        id: assets.id, assetId: assets.assetId, type: assets.type, brand: assets.brand,
+        modelName: assets.modelName, serialNumber: assets.serialNumber, assignedEmployeeId: assets.assignedEmployeeId
+      }).from(assets).where(inArray(assets.id, assetIds))
+    : [];
+
+  const [account] = employee.userId
+    ? await db.select({ id: users.id, username: users.username, isActive: users.isActive })
+        .from(users).where(eq(users.id, employee.userId))
+    : [];
+
+  const [manager] = employee.directManager
+    ? await db.select({ id: employees.id, englishName: employees.englishName, userId: employees.userId })
+        .from(employees).where(eq(employees.id, employee.directManager))
+    : [];
+
+  const openTickets = employee.userId
+    ? await db.select({ id: tickets.id, ticketId: tickets.ticketId, title: tickets.title, status: tickets.status })
+        .from(tickets)
+        .where(and(eq(tickets.assignedToId, employee.userId), inArray(tickets.status, [...OPEN_TICKET_STATUSES])))
+    : [];
+
+  return {
+    ...offboardingCase,
+    daysLeft: offboardingCase.exitDate ? daysUntil(offboardingCase.exitDate) : null,
+    employee: {
+      id: employee.id, empId: employee.empId, englishName: employee.englishName, arabicName: employee.arabicName,
+      department: employee.department, title: employee.title, status: employee.status, exitDate: employee.exitDate
+    },
+    manager: manager ?? null,
+    account: account ?? null,
+    openTickets,
+    tasks: tasks.map(task => ({
+      ...task,
+      asset: taskAssets.find(asset => asset.id === task.assetId) ?? null,
+    })),
+  };
+}
+
+/**
+ * Direct manager (through their linked account) or Admin+
+ */
+function canSignOff(user: AuthUser, managerUserId: number | null | undefined): boolean {
+  return (managerUserId != null && managerUserId === user.id) || hasMinimumRoleLevel(user, ROLE_LEVELS.admin);
+}
+
+/**
+ * GET /api/offboarding
+ * Cases with checklist progress, newest first
+ * Query params:
+ *   - status: open | completed | cancelled | all (default open)
+ */
+router.get('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const status = (req.query.status as string) || 'open';
+    if (!['open', 'completed', 'cancelled', 'all'].includes(status)) {
+      return res.status(400).json({ message: 'Invalid status filter' });
+    }
+
+    let cases = await db.select().from(offboardingCases)
+      .where(status === 'all' ? undefined : eq(offboardingCases.status, status))
+      .orderBy(desc(offboardingCases.createdAt));
+
+    // Open cases are synced so progress reflects check-ins made since the last scheduler run
+    const synced = await Promise.all(cases.map(c => (c.status === 'open' ? syncOffboardingCase(c.id) : null)));
+    cases = cases.map((c, i) => synced[i]?.offboardingCase ?? c);
+
+    const caseIds = cases.map(c => c.id);
+    const employeeIds = Array.from(new Set(cases.map(c => c.employeeId)));
+    const allTasks = caseIds.length > 0
+      ? await db.select({ caseId: offboardingTasks.caseId, status: offboardingTasks.status })
+          .from(offboardingTasks).where(inArray(offboardingTasks.caseId, caseIds))
+      : [];
+    const caseEmployees = employeeIds.length > 0
+      ? await db.select({
+          id: employees.id, empId: employees.empId, englishName: employees.englishName,
+          arabicName: employees.arabicName, department: employees.department, status: employees.status
+        }).from(employees).where(inArray(employees.id, employeeIds))
+      : [];
+
+    res.json(cases.map(c => {
+      const caseTasks = allTasks.filter(task => task.caseId === c.id);
+      return {
+        ...c,
+        daysLeft: c.exitDate ? daysUntil(c.exitDate) : null,
+        employee: caseEmployees.find(e => e.id === c.employeeId) ?? null,
+        progress: {
+          total: caseTasks.length,
+          completed: caseTasks.filter(task => task.status !== 'pending').length,
+        },
+      };
+    }));
+  } catch (error) {
+    logger.error('offboarding', 'Failed to list offboarding cases', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch offboarding cases' });
+  }
+});
+
+/**
+ * GET /api/offboarding/:id
+ * One case with its checklist
+ */
+router.get('/:id', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid case ID' });
+    }
+
+    const details = await syncOffboardingCase(id);
+    if (!details) {
+      return res.status(404).json({ message: 'Offboarding case not found' });
+    }
+
+    res.json(await toCaseResponse(details));
+  } catch (error) {
+    logger.error('offboarding', 'Failed to fetch offboarding case', {
+      userId: user.id,
+      metadata: { caseId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch offboarding case' });
+  }
+});
+
+/**
+ * POST /api/offboarding
+ * Open a case by hand (e.g. before HR has entered an exit date)
+ * Body: { employeeId }
+ */
+router.post('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = z.object({ employeeId: z.number().int().positive() }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const employee = await storage.getEmployee(parsed.data.employeeId);
+    if (!employee) {
+      return res.status(404).json({ message: 'Employee not found' });
+    }
+
+    const offboardingCase = await openOffboardingCase(employee, { reason: 'manual', createdById: user.id });
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.OFFBOARDING_CASE,
+      entityId: offboardingCase.id,
+      details: { employeeId: employee.id, employeeName: employee.englishName }
+    });
+
+    const details = await syncOffboardingCase(offboardingCase.id);
+    res.status(201).json(await toCaseResponse(details!));
+  } catch (error) {
+    logger.error('offboarding', 'Failed to open offboarding case', {
+      userId: user.id,
+      metadata: { employeeId: req.body?.employeeId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to open offboarding case' });
+  }
+});
+
+/**
+ * POST /api/offboarding/:id/disable-account
+ * Deactivate the employee's linked user account
+ */
+router.post('/:id/disable-account', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid case ID' });
+    }
+
+    const details = await syncOffboardingCase(id);
+    if (!details) {
+      return res.status(404).json({ message: 'Offboarding case not found' });
+    }
+    if (details.offboardingCase.status !== 'open') {
+      return res.status(400).json({ message: 'Offboarding case is not open' });
+    }
+    if (!details.employee.userId) {
+      return res.status(400).json({ message: 'Employee has no linked user account' });
+    }
+
+    const account = await storage.getUser(details.employee.userId);
+    if (!account) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (getRoleLevel(account.role) > getRoleLevel(user.role)) {
+      return res.status(403).json({ message: 'Cannot modify users with higher role level than your own' });
+    }
+
+    if (account.isActive) {
+      await db.update(users).set({ isActive: false, updatedAt: new Date() }).where(eq(users.id, account.id));
+      await storage.deleteAllUserSessions(account.id);
+
+      await logActivity({
+        userId: user.id,
+        action: AuditAction.STATUS_CHANGE,
+        entityType: EntityType.USER,
+        entityId: account.id,
+        details: { username: account.username, statusChange: 'Active → Inactive', offboardingCaseId: id }
+      });
+    }
+
+    res.json(await toCaseResponse((await syncOffboardingCase(id))!));
+  } catch (error) {
+    logger.error('offboarding', 'Failed to disable account for offboarding', {
+      userId: user.id,
+      metadata: { caseId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to disable account' });
+  }
+});
+
+/**
+ * POST /api/offboarding/:id/transfer-tickets
+ * Reassign every open ticket of the leaving employee's account to another agent
+ * Body: { assignToId }
+ */
+router.post('/:id/transfer-tickets', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid case ID' });
+    }
+    const parsed = transferSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const details = await syncOffboardingCase(id);
+    if (!details) {
+      return res.status(404).json({ message: 'Offboarding case not found' });
+    }
+    if (details.offboardingCase.status !== 'open') {
+      return res.status(400).json({ message: 'Offboarding case is not open' });
+    }
+    const fromUserId = details.employee.userId;
+    if (!fromUserId) {
+      return res.status(400).json({ message: 'Employee has no linked user account' });
+    }
+
+    const assignee = await storage.getUser(parsed.data.assignToId);
+    if (!assignee || !assignee.isActive || getRoleLevel(assignee.role) < ROLE_LEVELS.agent) {
+      return res.status(400).json({ message: 'Tickets can only be transferred to an active agent' });
+    }
+    if (assignee.id === fromUserId) {
+      return res.status(400).json({ message: 'Choose a different assignee' });
+    }
+
+    const openTickets = await db.select().from(tickets)
+      .where(and(eq(tickets.assignedToId, fromUserId), inArray(tickets.status, [...OPEN_TICKET_STATUSES])));
+
+    for (const ticket of openTickets) {
+      const updated = await storage.updateTicketWithHistory(ticket.id, { assignedToId: assignee.id }, user.id);
+      if (updated) emitTicketChangeEvents(ticket, updated);
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.ASSIGN,
+      entityType: EntityType.OFFBOARDING_CASE,
+      entityId: id,
+      details: {
+        action: 'transfer_tickets',
+        fromUserId,
+        toUserId: assignee.id,
+        ticketIds: openTickets.map(ticket => ticket.ticketId)
+      }
+    });
+
+    res.json(await toCaseResponse((await syncOffboardingCase(id))!));
+  } catch (error) {
+    logger.error('offboarding', 'Failed to transfer tickets for offboarding', {
+      userId: user.id,
+      metadata: { caseId: req.params.id, assignToId: req.body?.assignToId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to transfer tickets' });
+  }
+});
+
+/**
+ * POST /api/offboarding/:id/tasks/:taskId/waive
+ * Close a checklist item that cannot be completed (e.g. a lost asset)
+ * Body: { notes } - reason, required
+ */
+router.post('/:id/tasks/:taskId/waive', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    const taskId = parseId(req.params.taskId);
+    if (id === null || taskId === null) {
+      return res.status(400).json({ message: 'Invalid case or task ID' });
+    }
+    const parsed = waiveSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [task] = await db.select().from(offboardingTasks)
+      .where(and(eq(offboardingTasks.id, taskId), eq(offboardingTasks.caseId, id)));
+    if (!task) {
+      return res.status(404).json({ message: 'Checklist item not found' });
+    }
+    if (task.type === 'manager_signoff') {
+      return res.status(400).json({ message: 'Manager sign-off cannot be waived' });
+    }
+    if (task.status !== 'pending') {
+      return res.status(400).json({ message: 'Checklist item is already closed' });
+    }
+
+    const details = await completeOffboardingTask(task, 'waived', user.id, parsed.data.notes);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.OFFBOARDING_CASE,
+      entityId: id,
+      details: { action: 'waive', taskId, title: task.title, reason: parsed.data.notes }
+    });
+
+    res.json(await toCaseResponse(details!));
+  } catch (error) {
+    logger.error('offboarding', 'Failed to waive offboarding item', {
+      userId: user.id,
+      metadata: { caseId: req.params.id, taskId: req.params.taskId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to waive checklist item' });
+  }
+});
+
+/**
+ * POST /api/offboarding/:id/sign-off
+ * Manager sign-off; only once every other item is done or waived
+ * Body: { notes? }
+ */
+router.post('/:id/sign-off', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid case ID' });
+    }
+    const parsed = notesSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const details = await syncOffboardingCase(id);
+    if (!details) {
+      return res.status(404).json({ message: 'Offboarding case not found' });
+    }
+    if (details.offboardingCase.status !== 'open') {
+      return res.status(400).json({ message: 'Offboarding case is not open' });
+    }
+
+    const [manager] = details.employee.directManager
+      ? await db.select({ userId: employees.userId }).from(employees).where(eq(employees.id, details.employee.directManager))
+      : [];
+    if (!canSignOff(user, manager?.userId)) {
+      return res.status(403).json({ message: "Only the employee's direct manager or an admin can sign off" });
+    }
+
+    const signOffTask = details.tasks.find(task => task.type === 'manager_signoff' && task.status === 'pending');
+    if (!signOffTask) {
+      return res.status(400).json({ message: 'Case is already signed off' });
+    }
+    const outstanding = details.tasks.filter(task => task.id !== signOffTask.id && task.status === 'pending');
+    if (outstanding.length > 0) {
+      return res.status(400).json({
+        message: `Complete the remaining items first: ${outstanding.map(task => task.title).join(', ')}`
+      });
+    }
+
+    await db.update(offboardingCases)
+      .set({ managerSignedOffById: user.id, managerSignedOffAt: new Date(), updatedAt: new Date() })
+      .where(eq(offboardingCases.id, id));
+    const updated = await completeOffboardingTask(signOffTask, 'done', user.id, parsed.data.notes || null);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.STATUS_CHANGE,
+      entityType: EntityType.OFFBOARDING_CASE,
+      entityId: id,
+      details: { action: 'sign_off', employeeId: details.employee.id, status: updated!.offboardingCase.status }
+    });
+
+    res.json(await toCaseResponse(updated!));
+  } catch (error) {
+    logger.error('offboarding', 'Failed to sign off offboarding case', {
+      userId: user.id,
+      metadata: { caseId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to sign off offboarding case' });
+  }
+});
+
+/**
+ * POST /api/offboarding/:id/cancel
+ * Cancel a case (e.g. the resignation was withdrawn)
+ */
+router.post('/:id/cancel', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid case ID' });
+    }
+
+    const [cancelled] = await db.update(offboardingCases)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(offboardingCases.id, id), eq(offboardingCases.status, 'open')))
+      .returning();
+    if (!cancelled) {
+      return res.status(404).json({ message: 'Open offboarding case not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.STATUS_CHANGE,
+      entityType: EntityType.OFFBOARDING_CASE,
+      entityId: id,
+      details: { action: 'cancel', employeeId: cancelled.employeeId }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('offboarding', 'Failed to cancel offboarding case', {
+      userId: user.id,
+      metadata: { caseId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to cancel offboarding case' });
+  }
+});
+
+/**
+ * GET /api/offboarding/:id/certificate
+ * Clearance certificate (printable HTML) for a completed case
+ */
+router.get('/:id/certificate', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid case ID' });
+    }
+
+    const details = await syncOffboardingCase(id);
+    if (!details) {
+      return res.status(404).json({ message: 'Offboarding case not found' });
+    }
+    if (details.offboardingCase.status !== 'completed') {
+      return res.status(400).json({ message: 'The clearance certificate is available once every item is complete' });
+    }
+
+    const signer = details.offboardingCase.managerSignedOffById
+      ? await storage.getUser(details.offboardingCase.managerSignedOffById)
+      : undefined;
+    const html = buildClearanceCertificate(details, {
+      signedOffBy: signer?.username ?? null,
+      generatedBy: user.username,
+    });
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.EXPORT,
+      entityType: EntityType.OFFBOARDING_CASE,
+      entityId: id,
+      details: { document: 'clearance_certificate', employeeId: details.employee.id }
+    });
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="clearance-${details.employee.empId}.html"`);
+    res.send(html);
+  } catch (error) {
+    logger.error('offboarding', 'Failed to generate clearance certificate', {
+      userId: user.id,
+      metadata: { caseId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to generate clearance certificate' });
+  }
+});
+
+export default router;
@@ -0,0 +1,370 @@
+/**
+ * Onboarding Routes
+ * Onboarding templates and the plans prepared from them for new hires
+ * Read, prepare and check-out: Agent and above (enforced where the router is mounted)
+ * Template changes and plan cancellation: Manager and above
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { db } from '../db';
+import { onboardingTemplates, onboardingPlans, employees, assets, tickets } from '@shared/schema';
+import { asc, desc, eq, inArray } from 'drizzle-orm';
+import { fromZodError } from 'zod-validation-error';
+import { storage } from '../storage';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import {
+  prepareOnboarding, completeOnboarding, cancelOnboardingPlan
+} from '../services/onboardingService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  department: z.string().trim().max(100).nullable().optional().transform(value => value || null),
+  title: z.string().trim().max(100).nullable().optional().transform(value => value || null),
+  assetRequirements: z.array(z.object({
+    type: z.string().trim().min(1, 'Asset type is required').max(100),
+    quantity: z.number().int().min(1).max(20),
+  })).max(20),
+  provisioningTasks: z.array(z.string().trim().min(1).max(200)).max(20),
+  sendRegistrationInvite: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const preparePlanSchema = z.object({
+  employeeId: z.number().int().positive(),
+  templateId: z.number().int().positive().optional(),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+// ==========================================
+// TEMPLATES
+// ==========================================
+
+/**
+ * GET /api/onboarding/templates
+ */
+router.get('/templates', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const templates = await db.select().from(onboardingTemplates).orderBy(asc(onboardingTemplates.name));
+    res.json(templates);
+  } catch (error) {
+    logger.error('onboarding', 'Failed to list onboarding templates', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch onboarding templates' });
+  }
+});
+
+/**
+ * POST /api/onboarding/templates
+ */
+router.post('/templates', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = templateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [template] = await db.insert(onboardingTemplates)
+      .values({ ...parsed.data, createdById: user.id })
+      .returning();
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.ONBOARDING_TEMPLATE,
+      entityId: template.id,
+      details: { name: template.name, department: template.department, title: template.title }
+    });
+
+    res.status(201).json(template);
+  } catch (error) {
+    logger.error('onboarding', 'Failed to create onboarding template', {
+      userId: user.id,
+      metadata: { name: req.body?.name },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to create onboarding template' });
+  }
+});
+
+/**
+ * PUT /api/onboarding/templates/:id
+ */
+router.put('/templates/:id', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid template ID' });
+    }
+    const parsed = templateSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [template] = await db.update(onboardingTemplates)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(onboardingTemplates.id, id))
+      .returning();
+    if (!template) {
+      return res.status(404).json({ message: 'Onboarding template not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.ONBOARDING_TEMPLATE,
+      entityId: id,
+      details: { name: template.name, changes: Object.keys(parsed.data) }
+    });
+
+    res.json(template);
+  } catch (error) {
+    logger.error('onboarding', 'Failed to update onboarding template', {
+      userId: user.id,
+      metadata: { templateId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update onboarding template' });
+  }
+});
+
+/**
+ * DELETE /api/onboarding/templates/:id
+ * Plans prepared from the template keep their reservations
+ */
+router.delete('/templates/:id', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid template ID' });
+    }
+
+    const [deleted] = await db.delete(onboardingTemplates).where(eq(onboardingTemplates.id, id)).returning();
+    if (!deleted) {
+      return res.status(404).json({ message: 'Onboarding template not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.DELETE,
+      entityType: EntityType.ONBOARDING_TEMPLATE,
+      entityId: id,
+      details: { name: deleted.name }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('onboarding', 'Failed to delete onboarding template', {
+      userId: user.id,
+      metadata: { templateId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to delete onboarding template' });
+  }
+});
+
+// ==========================================
+// PLANS
+// ==========================================
+
+/**
+ * GET /api/onboarding/plans
+ * Plans with their employee, template, reserved assets and provisioning tickets
+ * Query params:
+ *   - status: scheduled | completed | cancelled | all (default scheduled)
+ */
+router.get('/plans', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const status = (req.query.status as string) || 'scheduled';
+    if (!['scheduled', 'completed', 'cancelled', 'all'].includes(status)) {
+      return res.status(400).json({ message: 'Invalid status filter' });
+    }
+
+    const plans = await db.select().from(onboardingPlans)
+      .where(status === 'all' ? undefined : eq(onboardingPlans.status, status))
+      .orderBy(status === 'scheduled' ? asc(onboardingPlans.joiningDate) : desc(onboardingPlans.createdAt));
+
+    const employeeIds = Array.from(new Set(plans.map(p => p.employeeId)));
+    const assetIds = Array.from(new Set(plans.flatMap(p => (p.reservedAssetIds as number[]) || [])));
+    const ticketIds = Array.from(new Set(plans.flatMap(p => (p.ticketIds as number[]) || [])));
+
+    const [planEmployees, planAssets, planTickets, templates] = await Promise.all([
+      employeeIds.length > 0
+        ? db.select({
+            id: employees.id, empId: employees.empId, englishName: employees.englishName,
+            arabicName: employees.arabicName, department: employees.department, title: employees.title
+          }).from(employees).where(inArray(employees.id, employeeIds))
+        : [],
+      assetIds.length > 0
+        ? db.select({
+            id: assets.id, assetId: assets.assetId, type: assets.type, brand: assets.brand,
+            status: assets.status, assignedEmployeeId: assets.assignedEmployeeId
+          }).from(assets).where(inArray(assets.id, assetIds))
+        : [],
+      ticketIds.length > 0
+        ? db.select({ id: tickets.id, ticketId: tickets.ticketId, title: tickets.title, status: tickets.status })
+            .from(tickets).where(inArray(tickets.id, ticketIds))
+        : [],
+      db.select({ id: onboardingTemplates.id, name: onboardingTemplates.name }).from(onboardingTemplates),
+    ]);
+
+    res.json(plans.map(plan => ({
+      ...plan,
+      employee: planEmployees.find(e => e.id === plan.employeeId) ?? null,
+      template: templates.find(t => t.id === plan.templateId) ?? null,
+      assets: planAssets.filter(a => ((plan.reservedAssetIds as number[]) || []).includes(a.id)),
+      tickets: planTickets.filter(t => ((plan.ticketIds as number[]) || []).includes(t.id)),
+    })));
+  } catch (error) {
+    logger.error('onboarding', 'Failed to list onboarding plans', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch onboarding plans' });
+  }
+});
+
+/**
+ * POST /api/onboarding/plans
+ * Prepare onboarding for an existing employee (e.g. created before a template existed)
+ * Body: { employeeId, templateId? } - the best matching template is used when omitted
+ */
+router.post('/plans', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = preparePlanSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const employee = await storage.getEmployee(parsed.data.employeeId);
+    if (!employee) {
+      return res.status(404).json({ message: 'Employee not found' });
+    }
+    if (!employee.joiningDate || employee.joiningDate < new Date().toISOString().split('T')[0]) {
+      return res.status(400).json({ message: 'Onboarding can only be prepared for an upcoming joining date' });
+    }
+
+    const plan = await prepareOnboarding(employee, { templateId: parsed.data.templateId, createdById: user.id });
+    if (!plan) {
+      return res.status(400).json({ message: 'No onboarding template matches this employee' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.ONBOARDING_PLAN,
+      entityId: plan.id,
+      details: { employeeId: employee.id, employeeName: employee.englishName, templateId: plan.templateId }
+    });
+
+    res.status(201).json(plan);
+  } catch (error) {
+    logger.error('onboarding', 'Failed to prepare onboarding plan', {
+      userId: user.id,
+      metadata: { employeeId: req.body?.employeeId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to prepare onboarding' });
+  }
+});
+
+/**
+ * POST /api/onboarding/plans/:id/check-out
+ * Check out the reserved assets now instead of waiting for the joining date job
+ */
+router.post('/plans/:id/check-out', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid plan ID' });
+    }
+
+    const [plan] = await db.select().from(onboardingPlans).where(eq(onboardingPlans.id, id));
+    if (!plan) {
+      return res.status(404).json({ message: 'Onboarding plan not found' });
+    }
+    if (plan.status !== 'scheduled') {
+      return res.status(400).json({ message: 'Onboarding plan is not scheduled' });
+    }
+
+    const completed = await completeOnboarding(id, user.id);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.ASSIGN,
+      entityType: EntityType.ONBOARDING_PLAN,
+      entityId: id,
+      details: { employeeId: plan.employeeId, assetIds: plan.reservedAssetIds }
+    });
+
+    res.json(completed);
+  } catch (error) {
+    logger.error('onboarding', 'Failed to check out onboarding assets', {
+      userId: user.id,
+      metadata: { planId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to check out onboarding assets' });
+  }
+});
+
+/**
+ * POST /api/onboarding/plans/:id/cancel
+ * Cancel a scheduled plan and release its reserved assets; provisioning tickets stay open
+ */
+router.post('/plans/:id/cancel', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid plan ID' });
+    }
+
+    const plan = await cancelOnboardingPlan(id);
+    if (!plan) {
+      return res.status(404).json({ message: 'Scheduled onboarding plan not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.STATUS_CHANGE,
+      entityType: EntityType.ONBOARDING_PLAN,
+      entityId: id,
+      details: { action: 'cancel', employeeId: plan.employeeId, releasedAssetIds: plan.reservedAssetIds }
+    });
+
+    res.json(plan);
+  } catch (error) {
+    logger.error('onboarding', 'Failed to cancel onboarding plan', {
+      userId: user.id,
+      metadata: { planId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to cancel onboarding plan' });
+  }
+});
+
+export default router;
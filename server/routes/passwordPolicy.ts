@@ -0,0 +1,152 @@
+/**
+ * Password Policy Routes
+ * Complexity, reuse, expiry and lockout settings for local passwords, plus unlocking locked accounts
+ * The rules alone are public at GET /api/auth/password-policy (strength meter)
+ * All routes: Admin and above
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { storage } from '../storage';
+import {
+  MAX_PASSWORD_HISTORY, getPasswordPolicy, updatePasswordPolicy, getLockedUsers, unlockUser
+} from '../services/passwordPolicyService';
+import { PASSWORD_MIN_LENGTH_FLOOR, PASSWORD_MIN_LENGTH_CEILING } from '@shared/passwordPolicy';
+import { getRoleLevel } from '@shared/roles.config';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const policySchema = z.object({
+  minLength: z.number().int().min(PASSWORD_MIN_LENGTH_FLOOR).max(PASSWORD_MIN_LENGTH_CEILING),
+  requireUppercase: z.boolean(),
+  requireLowercase: z.boolean(),
+  requireNumber: z.boolean(),
+  requireSymbol: z.boolean(),
+  historyCount: z.number().int().min(0).max(MAX_PASSWORD_HISTORY),
+  maxAgeDays: z.number().int().min(0).max(3650),
+  lockoutThreshold: z.number().int().min(0).max(100),
+  lockoutDurationMinutes: z.number().int().min(0).max(10080),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+/**
+ * GET /api/password-policy
+ */
+router.get('/', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    res.json(await getPasswordPolicy());
+  } catch (error) {
+    logger.error('auth', 'Failed to load password policy', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch password policy' });
+  }
+});
+
+/**
+ * PUT /api/password-policy
+ * New rules apply to the next password set; maximum age applies to existing passwords at their next login
+ */
+router.put('/', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = policySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const policy = await updatePasswordPolicy(parsed.data);
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CONFIG_CHANGE,
+      entityType: EntityType.SYSTEM_CONFIG,
+      details: { passwordPolicy: parsed.data }
+    });
+    res.json(policy);
+  } catch (error) {
+    logger.error('auth', 'Failed to update password policy', {
+      userId: user.id,
+      metadata: { body: req.body },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update password policy' });
+  }
+});
+
+/**
+ * GET /api/password-policy/locked-users
+ * Accounts locked after too many failed sign-ins
+ */
+router.get('/locked-users', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    res.json(await getLockedUsers());
+  } catch (error) {
+    logger.error('auth', 'Failed to list locked accounts', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch locked accounts' });
+  }
+});
+
+/**
+ * POST /api/password-policy/users/:id/unlock
+ */
+router.post('/users/:id/unlock', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const targetId = parseId(req.params.id);
+    if (targetId === null) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+    const target = await storage.getUser(targetId);
+    if (!target) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (getRoleLevel(target.role) > getRoleLevel(user.role)) {
+      return res.status(403).json({ message: 'Cannot modify users with higher role level than your own' });
+    }
+    if (!(await unlockUser(targetId))) {
+      return res.status(404).json({ message: 'This account is not locked' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.USER,
+      entityId: targetId,
+      details: { event: 'account_unlocked', username: target.username, unlockedBy: user.username }
+    });
+    logger.info('auth', `Account unlocked: ${target.username}`, {
+      userId: user.id,
+      metadata: { targetUserId: targetId, unlockedBy: user.username }
+    });
+    res.json({ message: 'Account unlocked' });
+  } catch (error) {
+    logger.error('auth', 'Failed to unlock account', {
+      userId: user.id,
+      metadata: { targetUserId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to unlock account' });
+  }
+});
+
+export default router;
@@ -13,6 +13,9 @@
 import { getStorage } from '../storage-factory';
 import { ROLES } from '../rbac';
 import { autoLinkEmployeeToUser } from '../services/employeeLinkService';
+import { resumeTicketSLA } from '../services/slaService';
+import { emitWebhookEvent, toTicketWebhookData } from '../services/webhookService';
+import { changeUserPassword, PasswordPolicyError } from '../services/passwordPolicyService';
 
 const storage = getStorage();
 
@@ -180,8 +183,8 @@ export function setupPortalRoutes(app: any, authenticateUser: any, requireRole:
           });
         }
 
-        // Fetch comments for this ticket
-        const comments = await storage.getTicketComments(ticketId);
+        // Fetch comments for this ticket - internal (private) notes are never shown to the requester
+        const comments = (await storage.getTicketComments(ticketId)).filter(comment => !comment.isPrivate);
         
         console.log('[DEBUG] Fetching ticket with comments - Ticket ID:', ticketId, 'Comments count:', comments?.length || 0);
 
@@ -272,6 +275,7 @@ export function setupPortalRoutes(app: any, authenticateUser: any, requireRole:
         };
 
         const newTicket = await storage.createTicket(ticketData);
+        emitWebhookEvent('ticket.created', toTicketWebhookData(newTicket));
         res.status(201).json(newTicket);
       } catch (error: any) {
         console.error('Error creating employee ticket:', error);
@@ -357,6 +361,13 @@ export function setupPortalRoutes(app: any, authenticateUser: any, requireRole:
         // Note: Using addTicketComment method from storage layer
         const comment = await storage.addTicketComment(commentData);
         console.log('[DEBUG add comment] Comment created successfully:', comment);
+
+        // The requester replied - restart the SLA clock if it was waiting on them
+        try {
+          await resumeTicketSLA(ticketId, userId, 'Requester replied via portal');
+        } catch (slaError) {
+          console.error('[SLA] Failed to resume SLA after requester reply:', slaError);
+        }
         
         res.status(201).json(comment);
       } catch (error: any) {
@@ -470,22 +481,19 @@ export function setupPortalRoutes(app: any, authenticateUser: any, requireRole:
           });
         }
 
-        // Hash new password
-        const hashedNewPassword = await bcrypt.hash(newPassword, 10);
-
-        // Update user password
-        const updatedUser = {
-          ...user,
-          password: hashedNewPassword,
-          updatedAt: new Date().toISOString()
-        };
-
-        await storage.updateUser(userId, updatedUser);
+        // Check the password policy (complexity and reuse) and update the password
+        await changeUserPassword(userId, newPassword);
+        
+        // Sign out the user's other sessions; this one stays signed in
+        await storage.deleteAllUserSessions(userId, req.sessionID);
         
         res.json({ 
           message: 'Password updated successfully' 
         });
       } catch (error) {
+        if (error instanceof PasswordPolicyError) {
+          return res.status(400).json({ message: error.message });
+        }
         console.error('Error changing password:', error);
         res.status(500).json({ 
           message: 'Failed to change password' 
@@ -0,0 +1,460 @@
+/**
+ * Purchase Order Routes
+ * Procurement from vendors with amount-based approval and receiving into assets
+ * Read, drafting, submitting, ordering and receiving: Agent and above (enforced where the router is mounted)
+ * Approval: Manager and above, and Admin above the manager limit (checked by the service);
+ * with an approval chain these routes decide its current step (see routes/approvals.ts)
+ * Cancelling: Manager and above; approval thresholds: Admin and above
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { db } from '../db';
+import { purchaseOrders, type PurchaseOrder } from '@shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { storage } from '../storage';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import {
+  PurchaseOrderError, getPurchaseOrders, getPurchaseOrder, createPurchaseOrder, updatePurchaseOrder,
+  submitPurchaseOrder, decidePurchaseOrder, markOrdered, cancelPurchaseOrder, receiveGoods,
+  getApprovalLimits, isPurchaseOrderStatus
+} from '../services/purchaseOrderService';
+import { ApprovalError } from '../services/approvalService';
+import { getDestinationLocationError } from '../services/locationService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullable().optional().transform(value => value || null);
+
+const lineSchema = z.object({
+  description: z.string().trim().min(1, 'Line description is required').max(255),
+  createsAssets: z.boolean().optional().default(false),
+  assetType: optionalText(100),
+  assetBrand: optionalText(100),
+  assetModelName: optionalText(100),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1').max(10000),
+  unitPrice: z.number().nonnegative().max(10000000).transform(value => value.toFixed(2)),
+});
+
+const purchaseOrderSchema = z.object({
+  vendorId: z.number().int().positive('Vendor is required'),
+  upgradeId: z.number().int().positive().nullable().optional().transform(value => value ?? null),
+  expectedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid expected date').nullable().optional()
+    .or(z.literal('')).transform(value => value || null),
+  notes: optionalText(2000),
+  lines: z.array(lineSchema).min(1, 'A purchase order needs at least one line').max(100),
+});
+
+const decisionSchema = z.object({
+  notes: optionalText(1000),
+});
+
+const receiveSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.number().int().positive(),
+    quantity: z.number().int().min(0).max(10000).optional(),
+    serialNumbers: z.array(z.string().trim().min(1, 'Serial numbers cannot be blank').max(100)).max(10000).optional(),
+  })).min(1),
+  locationId: z.number().int().positive().nullable().optional().transform(value => value ?? null),
+  notes: optionalText(1000),
+});
+
+const money = z.number().nonnegative().max(1000000000).transform(value => value.toFixed(2));
+
+const approvalLimitsSchema = z.object({
+  autoApproveLimit: money,
+  managerApprovalLimit: money,
+}).refine(limits => Number(limits.managerApprovalLimit) >= Number(limits.autoApproveLimit), {
+  message: 'The manager limit cannot be below the auto-approval limit',
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+/**
+ * GET /api/purchase-orders
+ * Query: status, vendorId, upgradeId, search
+ */
+router.get('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const { status, vendorId, upgradeId, search } = req.query;
+    if (status !== undefined && !isPurchaseOrderStatus(status)) {
+      return res.status(400).json({ message: 'Invalid status' });
+    }
+
+    const orders = await getPurchaseOrders({
+      status: status as string | undefined,
+      vendorId: vendorId ? parseId(String(vendorId)) ?? undefined : undefined,
+      upgradeId: upgradeId ? parseId(String(upgradeId)) ?? undefined : undefined,
+      search: typeof search === 'string' && search.trim() ? search.trim() : undefined,
+    });
+    res.json(orders);
+  } catch (error) {
+    logger.error('purchase-orders', 'Failed to list purchase orders', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch purchase orders' });
+  }
+});
+
+/**
+ * GET /api/purchase-orders/approval-limits
+ */
+router.get('/approval-limits', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    res.json(await getApprovalLimits());
+  } catch (error) {
+    logger.error('purchase-orders', 'Failed to load approval limits', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch approval limits' });
+  }
+});
+
+/**
+ * PUT /api/purchase-orders/approval-limits
+ * Changing who may approve what is reserved for admins, so it isn't part of /api/system-config
+ */
+router.put('/approval-limits', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = approvalLimitsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    await storage.updateSystemConfig({
+      poAutoApproveLimit: parsed.data.autoApproveLimit,
+      poManagerApprovalLimit: parsed.data.managerApprovalLimit,
+    });
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CONFIG_CHANGE,
+      entityType: EntityType.SYSTEM_CONFIG,
+      details: { purchaseOrderApprovalLimits: parsed.data }
+    });
+
+    res.json(await getApprovalLimits());
+  } catch (error) {
+    logger.error('purchase-orders', 'Failed to update approval limits', {
+      userId: user.id,
+      metadata: { body: req.body },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update approval limits' });
+  }
+});
+
+/**
+ * GET /api/purchase-orders/:id
+ * Order with its lines and receipts
+ */
+router.get('/:id', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid purchase order ID' });
+    }
+
+    const order = await getPurchaseOrder(id);
+    if (!order) {
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+    res.json(order);
+  } catch (error) {
+    logger.error('purchase-orders', 'Failed to fetch purchase order', {
+      userId: user.id,
+      metadata: { purchaseOrderId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch purchase order' });
+  }
+});
+
+/**
+ * POST /api/purchase-orders
+ * Creates a draft
+ */
+router.post('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = purchaseOrderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const order = await createPurchaseOrder(parsed.data, user.id);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.PURCHASE_ORDER,
+      entityId: order.id,
+      details: { poNumber: order.poNumber, vendorId: order.vendorId, upgradeId: order.upgradeId, totalAmount: order.totalAmount }
+    });
+
+    res.status(201).json(order);
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('purchase-orders', 'Failed to create purchase order', {
+      userId: user.id,
+      metadata: { body: req.body },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to create purchase order' });
+  }
+});
+
+/**
+ * PUT /api/purchase-orders/:id
+ * Replaces a draft or rejected order's details and lines
+ */
+router.put('/:id', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid purchase order ID' });
+    }
+    const parsed = purchaseOrderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const order = await updatePurchaseOrder(id, parsed.data);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.PURCHASE_ORDER,
+      entityId: id,
+      details: { poNumber: order.poNumber, vendorId: order.vendorId, upgradeId: order.upgradeId, totalAmount: order.totalAmount }
+    });
+
+    res.json(order);
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('purchase-orders', 'Failed to update purchase order', {
+      userId: user.id,
+      metadata: { purchaseOrderId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update purchase order' });
+  }
+});
+
+/**
+ * DELETE /api/purchase-orders/:id
+ * Only drafts can be deleted; submitted orders are cancelled instead
+ */
+router.delete('/:id', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid purchase order ID' });
+    }
+
+    const [deleted] = await db.delete(purchaseOrders)
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.status, 'draft')))
+      .returning();
+    if (!deleted) {
+      const [existing] = await db.select({ id: purchaseOrders.id }).from(purchaseOrders).where(eq(purchaseOrders.id, id));
+      return existing
+        ? res.status(400).json({ message: 'Only draft purchase orders can be deleted; cancel it instead' })
+        : res.status(404).json({ message: 'Purchase order not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.DELETE,
+      entityType: EntityType.PURCHASE_ORDER,
+      entityId: id,
+      details: { poNumber: deleted.poNumber }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('purchase-orders', 'Failed to delete purchase order', {
+      userId: user.id,
+      metadata: { purchaseOrderId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to delete purchase order' });
+  }
+});
+
+/**
+ * Shared handler for the status transitions; `action` names the transition in logs and errors
+ */
+async function handleTransition(
+  req: Request,
+  res: Response,
+  action: string,
+  transition: (id: number, user: AuthUser) => Promise<PurchaseOrder>
+) {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid purchase order ID' });
+    }
+
+    const order = await transition(id, user);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.STATUS_CHANGE,
+      entityType: EntityType.PURCHASE_ORDER,
+      entityId: id,
+      details: {
+        poNumber: order.poNumber,
+        action,
+        status: order.status,
+        approvalLevel: order.approvalLevel,
+        notes: order.decisionNotes
+      }
+    });
+
+    res.json(order);
+  } catch (error) {
+    if (error instanceof PurchaseOrderError || error instanceof ApprovalError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('purchase-orders', `Failed to ${action} purchase order`, {
+      userId: user.id,
+      metadata: { purchaseOrderId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: `Failed to ${action} purchase order` });
+  }
+}
+
+/**
+ * POST /api/purchase-orders/:id/submit
+ * Orders within the auto-approval limit are approved straight away
+ */
+router.post('/:id/submit', (req, res) =>
+  handleTransition(req, res, 'submit', (id, user) => submitPurchaseOrder(id, user))
+);
+
+/**
+ * POST /api/purchase-orders/:id/approve
+ * Body: { notes? }
+ */
+router.post('/:id/approve', requireRole(ROLES.MANAGER), (req, res) => {
+  const parsed = decisionSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ message: fromZodError(parsed.error).message });
+  }
+  return handleTransition(req, res, 'approve', (id, user) => decidePurchaseOrder(id, user, true, parsed.data.notes));
+});
+
+/**
+ * POST /api/purchase-orders/:id/reject
+ * Body: { notes } - the reason is required
+ */
+router.post('/:id/reject', requireRole(ROLES.MANAGER), (req, res) => {
+  const parsed = decisionSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ message: fromZodError(parsed.error).message });
+  }
+  if (!parsed.data.notes) {
+    return res.status(400).json({ message: 'A reason is required to reject a purchase order' });
+  }
+  return handleTransition(req, res, 'reject', (id, user) => decidePurchaseOrder(id, user, false, parsed.data.notes));
+});
+
+/**
+ * POST /api/purchase-orders/:id/order
+ * Marks an approved order as sent to the vendor
+ */
+router.post('/:id/order', (req, res) =>
+  handleTransition(req, res, 'order', (id) => markOrdered(id))
+);
+
+/**
+ * POST /api/purchase-orders/:id/cancel
+ */
+router.post('/:id/cancel', requireRole(ROLES.MANAGER), (req, res) =>
+  handleTransition(req, res, 'cancel', (id) => cancelPurchaseOrder(id))
+);
+
+/**
+ * POST /api/purchase-orders/:id/receive
+ * Body: { lines: [{ lineId, quantity?, serialNumbers? }], locationId?, notes? }
+ * Asset lines take one serial number per unit and create the assets
+ */
+router.post('/:id/receive', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid purchase order ID' });
+    }
+    const parsed = receiveSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    const locationError = await getDestinationLocationError(parsed.data.locationId);
+    if (locationError) {
+      return res.status(400).json({ message: locationError });
+    }
+
+    const { order, assetIds } = await receiveGoods(id, parsed.data, user.id);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.PURCHASE_ORDER,
+      entityId: id,
+      details: { poNumber: order.poNumber, action: 'receive', status: order.status, assetIds, locationId: parsed.data.locationId }
+    });
+
+    for (const assetId of assetIds) {
+      await logActivity({
+        userId: user.id,
+        action: AuditAction.CREATE,
+        entityType: EntityType.ASSET,
+        entityId: assetId,
+        details: { source: 'purchase_order', poNumber: order.poNumber }
+      });
+    }
+
+    res.json({ order, assetIds });
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('purchase-orders', 'Failed to receive purchase order goods', {
+      userId: user.id,
+      metadata: { purchaseOrderId: req.params.id, body: req.body },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to receive goods' });
+  }
+});
+
+export default router;
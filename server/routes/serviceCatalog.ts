@@ -0,0 +1,417 @@
+/**
+ * Service Catalog Routes
+ * Requestable items with their own forms, submitted from the employee portal
+ * Browsing, submitting and own requests: any authenticated user linked to an employee record
+ * Request list, answers on tickets and fulfillment tasks: Agent and above
+ * Catalog item changes: Admin and above
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { getRoleLevel, ROLE_IDS } from '@shared/roles.config';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import {
+  ServiceCatalogError, FORM_FIELD_TYPES, SERVICE_REQUEST_STATUSES,
+  getCatalogItems, getCatalogItem, createCatalogItem, updateCatalogItem, deleteCatalogItem,
+  submitServiceRequest, cancelServiceRequest, getServiceRequests, getServiceRequest,
+  getServiceRequestForTicket, setTaskDone, type ServiceRequestStatus
+} from '../services/serviceCatalogService';
+import { getLinkedEmployeeId } from '../services/approvalService';
+import { autoLinkEmployeeToUser } from '../services/employeeLinkService';
+import { logger } from '../services/logger';
+import type { User } from '@shared/schema';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullable().optional().transform(value => value || null);
+
+const priorityLevel = z.enum(['Low', 'Medium', 'High', 'Critical']);
+
+const formFieldSchema = z.object({
+  key: z.string().trim().min(1).max(50).regex(/^[a-z][a-z0-9_]*$/, 'Field keys use lowercase letters, digits and underscores'),
+  label: z.string().trim().min(1, 'Field label is required').max(150),
+  type: z.enum(FORM_FIELD_TYPES),
+  required: z.boolean().optional().default(false),
+  options: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+});
+
+const itemSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(150),
+  description: optionalText(2000),
+  icon: optionalText(10),
+  formFields: z.array(formFieldSchema).max(30).optional().default([]),
+  ticketType: z.enum(['Incident', 'Service Request', 'Problem', 'Change']).optional().default('Service Request'),
+  categoryId: z.number().int().positive().nullable().optional().transform(value => value ?? null),
+  urgency: priorityLevel.optional().default('Medium'),
+  impact: priorityLevel.optional().default('Medium'),
+  requiresApproval: z.boolean().optional().default(false),
+  fulfillmentTasks: z.array(z.string().trim().min(1).max(255)).max(30).optional().default([]),
+  sortOrder: z.number().int().min(0).max(10000).optional().default(0),
+  isActive: z.boolean().optional().default(true),
+});
+
+const submitSchema = z.object({
+  answers: z.record(z.union([z.string().max(5000), z.number(), z.boolean(), z.null()])).optional().default({}),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+function isAgentOrAbove(user: AuthUser): boolean {
+  return getRoleLevel(user.role) >= getRoleLevel(ROLE_IDS.AGENT);
+}
+
+/**
+ * GET /api/service-catalog/items
+ * Query params:
+ *   - includeInactive=true (Agent and above)
+ */
+router.get('/items', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    res.json(await getCatalogItems({
+      includeInactive: req.query.includeInactive === 'true' && isAgentOrAbove(user),
+    }));
+  } catch (error) {
+    logger.error('service-catalog', 'Failed to list catalog items', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch service catalog' });
+  }
+});
+
+/**
+ * POST /api/service-catalog/items
+ */
+router.post('/items', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = itemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    const item = await createCatalogItem(parsed.data, user.id);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.SERVICE_CATALOG_ITEM,
+      entityId: item.id,
+      details: { name: item.name, requiresApproval: item.requiresApproval }
+    });
+    res.status(201).json(item);
+  } catch (error) {
+    if (error instanceof ServiceCatalogError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('service-catalog', 'Failed to create catalog item', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to create catalog item' });
+  }
+});
+
+/**
+ * PUT /api/service-catalog/items/:id
+ */
+router.put('/items/:id', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid catalog item ID' });
+    }
+    const parsed = itemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    const item = await updateCatalogItem(id, parsed.data);
+    if (!item) {
+      return res.status(404).json({ message: 'Catalog item not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.SERVICE_CATALOG_ITEM,
+      entityId: id,
+      details: { name: item.name, isActive: item.isActive, requiresApproval: item.requiresApproval }
+    });
+    res.json(item);
+  } catch (error) {
+    if (error instanceof ServiceCatalogError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('service-catalog', 'Failed to update catalog item', {
+      userId: user.id,
+      metadata: { itemId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update catalog item' });
+  }
+});
+
+/**
+ * DELETE /api/service-catalog/items/:id
+ */
+router.delete('/items/:id', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid catalog item ID' });
+    }
+    const item = await getCatalogItem(id);
+    if (!item || !await deleteCatalogItem(id)) {
+      return res.status(404).json({ message: 'Catalog item not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.DELETE,
+      entityType: EntityType.SERVICE_CATALOG_ITEM,
+      entityId: id,
+      details: { name: item.name }
+    });
+    res.json({ message: 'Catalog item deleted' });
+  } catch (error) {
+    if (error instanceof ServiceCatalogError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('service-catalog', 'Failed to delete catalog item', {
+      userId: user.id,
+      metadata: { itemId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to delete catalog item' });
+  }
+});
+
+/**
+ * POST /api/service-catalog/items/:id/requests
+ * Body: { answers: { [fieldKey]: string | number | boolean | null } }
+ */
+router.post('/items/:id/requests', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const itemId = parseId(req.params.id);
+    if (itemId === null) {
+      return res.status(400).json({ message: 'Invalid catalog item ID' });
+    }
+    const parsed = submitSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    await autoLinkEmployeeToUser(req.user as User);
+    const employeeId = await getLinkedEmployeeId(user.id);
+    if (!employeeId) {
+      return res.status(400).json({ message: 'Your account is not linked to an employee record' });
+    }
+
+    const request = await submitServiceRequest(itemId, parsed.data.answers, {
+      userId: user.id,
+      username: user.username,
+      employeeId,
+    });
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.SERVICE_REQUEST,
+      entityId: request.id,
+      details: { item: request.itemName, status: request.status, ticketId: request.ticketId }
+    });
+    res.status(201).json(request);
+  } catch (error) {
+    if (error instanceof ServiceCatalogError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('service-catalog', 'Failed to submit service request', {
+      userId: user.id,
+      metadata: { itemId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to submit service request' });
+  }
+});
+
+/**
+ * GET /api/service-catalog/my-requests
+ */
+router.get('/my-requests', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const employeeId = await getLinkedEmployeeId(user.id);
+    res.json(employeeId ? await getServiceRequests({ employeeId }) : []);
+  } catch (error) {
+    logger.error('service-catalog', 'Failed to list own service requests', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch service requests' });
+  }
+});
+
+/**
+ * POST /api/service-catalog/my-requests/:id/cancel
+ */
+router.post('/my-requests/:id/cancel', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid service request ID' });
+    }
+    const employeeId = await getLinkedEmployeeId(user.id);
+    if (!employeeId) {
+      return res.status(404).json({ message: 'Service request not found' });
+    }
+    const request = await cancelServiceRequest(id, employeeId);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.STATUS_CHANGE,
+      entityType: EntityType.SERVICE_REQUEST,
+      entityId: id,
+      details: { item: request.itemName, status: 'cancelled' }
+    });
+    res.json(request);
+  } catch (error) {
+    if (error instanceof ServiceCatalogError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('service-catalog', 'Failed to cancel service request', {
+      userId: user.id,
+      metadata: { serviceRequestId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to cancel service request' });
+  }
+});
+
+/**
+ * GET /api/service-catalog/requests
+ * Query params:
+ *   - status: pending_approval | submitted | rejected | cancelled
+ */
+router.get('/requests', requireRole(ROLES.AGENT), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const status = typeof req.query.status === 'string'
+      && (SERVICE_REQUEST_STATUSES as readonly string[]).includes(req.query.status)
+      ? req.query.status as ServiceRequestStatus
+      : undefined;
+    res.json(await getServiceRequests({ status }));
+  } catch (error) {
+    logger.error('service-catalog', 'Failed to list service requests', {
+      userId: user.id,
+      metadata: { query: req.query },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch service requests' });
+  }
+});
+
+/**
+ * GET /api/service-catalog/requests/:id
+ */
+router.get('/requests/:id', requireRole(ROLES.AGENT), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid service request ID' });
+    }
+    const request = await getServiceRequest(id);
+    if (!request) {
+      return res.status(404).json({ message: 'Service request not found' });
+    }
+    res.json(request);
+  } catch (error) {
+    logger.error('service-catalog', 'Failed to fetch service request', {
+      userId: user.id,
+      metadata: { serviceRequestId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch service request' });
+  }
+});
+
+/**
+ * GET /api/service-catalog/tickets/:ticketId
+ * The catalog request behind a ticket; null for ordinary tickets
+ * Agents and above, or the employee who made the request
+ */
+router.get('/tickets/:ticketId', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const ticketId = parseId(req.params.ticketId);
+    if (ticketId === null) {
+      return res.status(400).json({ message: 'Invalid ticket ID' });
+    }
+    const request = await getServiceRequestForTicket(ticketId);
+    if (request && !isAgentOrAbove(user) && request.employeeId !== await getLinkedEmployeeId(user.id)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+    res.json(request ?? null);
+  } catch (error) {
+    logger.error('service-catalog', 'Failed to fetch service request for ticket', {
+      userId: user.id,
+      metadata: { ticketId: req.params.ticketId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch service request' });
+  }
+});
+
+/**
+ * PATCH /api/service-catalog/tasks/:id
+ * Body: { done: boolean }
+ */
+router.patch('/tasks/:id', requireRole(ROLES.AGENT), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid task ID' });
+    }
+    if (typeof req.body?.done !== 'boolean') {
+      return res.status(400).json({ message: 'done must be true or false' });
+    }
+    const task = await setTaskDone(id, req.body.done, user.id);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.SERVICE_REQUEST,
+      entityId: task.serviceRequestId,
+      details: { task: task.title, status: task.status }
+    });
+    res.json(task);
+  } catch (error) {
+    logger.error('service-catalog', 'Failed to update fulfillment task', {
+      userId: user.id,
+      metadata: { taskId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update task' });
+  }
+});
+
+export default router;
@@ -0,0 +1,174 @@
+/**
+ * Active Session Routes
+ * Signed-in sessions (device, IP, last activity) of the current user, with revocation,
+ * plus forced logout of any user for admins
+ * Own sessions: any authenticated user
+ * Another user's sessions and force logout: Admin and above
+ */
+
+import { Router } from 'express';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { storage } from '../storage';
+import { getRoleLevel } from '@shared/roles.config';
+import { listUserSessions, findUserSessionId, revokeUserSession } from '../services/sessionService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+/**
+ * GET /api/sessions
+ */
+router.get('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    res.json(await listUserSessions(user.id, req.sessionID));
+  } catch (error) {
+    logger.error('sessions', 'Failed to list sessions', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch sessions' });
+  }
+});
+
+/**
+ * POST /api/sessions/revoke-others
+ * Signs out every session of the current user except this one
+ */
+router.post('/revoke-others', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const revoked = await storage.deleteAllUserSessions(user.id, req.sessionID);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.LOGOUT,
+      entityType: EntityType.SESSION,
+      entityId: user.id,
+      details: { event: 'other_sessions_revoked', revoked }
+    });
+    res.json({ revoked });
+  } catch (error) {
+    logger.error('sessions', 'Failed to revoke other sessions', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to sign out other sessions' });
+  }
+});
+
+/**
+ * DELETE /api/sessions/:sessionId
+ * The current session ends through POST /api/logout instead
+ */
+router.delete('/:sessionId', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const sid = await findUserSessionId(user.id, req.params.sessionId);
+    if (!sid) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+    if (sid === req.sessionID) {
+      return res.status(400).json({ message: 'Use logout to end the current session' });
+    }
+
+    await revokeUserSession(user.id, req.params.sessionId);
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.LOGOUT,
+      entityType: EntityType.SESSION,
+      entityId: user.id,
+      details: { event: 'session_revoked' }
+    });
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    logger.error('sessions', 'Failed to revoke session', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to revoke session' });
+  }
+});
+
+/**
+ * GET /api/sessions/users/:id
+ */
+router.get('/users/:id', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const targetId = parseId(req.params.id);
+    if (targetId === null) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+    const target = await storage.getUser(targetId);
+    if (!target) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (getRoleLevel(target.role) > getRoleLevel(user.role)) {
+      return res.status(403).json({ message: 'Cannot access users with higher role level than your own' });
+    }
+    res.json(await listUserSessions(targetId, req.sessionID));
+  } catch (error) {
+    logger.error('sessions', 'Failed to list user sessions', {
+      userId: user.id,
+      metadata: { targetUserId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch sessions' });
+  }
+});
+
+/**
+ * POST /api/sessions/users/:id/revoke
+ * Force logout: signs the user out everywhere (the admin's own current session is kept)
+ */
+router.post('/users/:id/revoke', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const targetId = parseId(req.params.id);
+    if (targetId === null) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+    const target = await storage.getUser(targetId);
+    if (!target) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (getRoleLevel(target.role) > getRoleLevel(user.role)) {
+      return res.status(403).json({ message: 'Cannot modify users with higher role level than your own' });
+    }
+
+    const revoked = await storage.deleteAllUserSessions(
+      targetId,
+      targetId === user.id ? req.sessionID : undefined
+    );
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.LOGOUT,
+      entityType: EntityType.SESSION,
+      entityId: targetId,
+      details: { event: 'forced_logout', username: target.username, revoked, revokedBy: user.username }
+    });
+    res.json({ revoked });
+  } catch (error) {
+    logger.error('sessions', 'Failed to force logout', {
+      userId: user.id,
+      metadata: { targetUserId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to sign out user' });
+  }
+});
+
+export default router;
@@ -0,0 +1,398 @@
+/**
+ * SLA Configuration Routes
+ * SLA policies, business calendars and holidays
+ * Read: Manager and above | Write: Admin and above
+ */
+
+import { Router } from 'express';
+import { db } from '../db';
+import {
+  slaPolicies, businessCalendars, businessHolidays,
+  insertSlaPolicySchema, insertBusinessCalendarSchema, insertBusinessHolidaySchema
+} from '@shared/schema';
+import { asc, eq, ne } from 'drizzle-orm';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { recalculateOpenTickets } from '../services/slaService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+/**
+ * Re-target open tickets in the background after configuration changes
+ */
+function recalculateInBackground(userId: number) {
+  recalculateOpenTickets().catch(error => {
+    logger.error('sla', 'Failed to recalculate open tickets after SLA configuration change', {
+      userId,
+      metadata: {},
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  });
+}
+
+async function logConfigChange(userId: number, details: Record<string, unknown>) {
+  await logActivity({
+    userId,
+    action: AuditAction.CONFIG_CHANGE,
+    entityType: EntityType.SYSTEM_CONFIG,
+    details: { section: 'sla', ...details }
+  });
+}
+
+// ==========================================
+// SLA POLICIES
+// ==========================================
+
+/**
+ * GET /api/sla/policies
+ * List all SLA policies
+ */
+router.get('/policies', requireRole(ROLES.MANAGER), async (req, res) => {
+  try {
+    const policies = await db.select().from(slaPolicies).orderBy(asc(slaPolicies.name));
+    res.json(policies);
+  } catch (error) {
+    console.error('Error fetching SLA policies:', error);
+    res.status(500).json({ message: 'Failed to fetch SLA policies' });
+  }
+});
+
+/**
+ * POST /api/sla/policies
+ * Create an SLA policy (Admin only)
+ */
+router.post('/policies', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = insertSlaPolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    if (parsed.data.resolutionMinutes < parsed.data.responseMinutes) {
+      return res.status(400).json({ message: 'Resolution target cannot be shorter than the response target' });
+    }
+
+    const [policy] = await db.insert(slaPolicies).values(parsed.data).returning();
+
+    await logConfigChange(user.id, { action: 'policy_created', policyId: policy.id, name: policy.name });
+    recalculateInBackground(user.id);
+
+    res.status(201).json(policy);
+  } catch (error) {
+    logger.error('sla', 'Failed to create SLA policy', {
+      userId: user.id,
+      metadata: { name: req.body?.name },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to create SLA policy' });
+  }
+});
+
+/**
+ * PUT /api/sla/policies/:id
+ * Update an SLA policy (Admin only)
+ */
+router.put('/policies/:id', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid policy ID' });
+    }
+
+    const parsed = insertSlaPolicySchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [existing] = await db.select().from(slaPolicies).where(eq(slaPolicies.id, id));
+    if (!existing) {
+      return res.status(404).json({ message: 'SLA policy not found' });
+    }
+
+    const responseMinutes = parsed.data.responseMinutes ?? existing.responseMinutes;
+    const resolutionMinutes = parsed.data.resolutionMinutes ?? existing.resolutionMinutes;
+    if (resolutionMinutes < responseMinutes) {
+      return res.status(400).json({ message: 'Resolution target cannot be shorter than the response target' });
+    }
+
+    const [policy] = await db.update(slaPolicies)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(slaPolicies.id, id))
+      .returning();
+
+    await logConfigChange(user.id, { action: 'policy_updated', policyId: id, changes: parsed.data });
+    recalculateInBackground(user.id);
+
+    res.json(policy);
+  } catch (error) {
+    logger.error('sla', 'Failed to update SLA policy', {
+      userId: user.id,
+      metadata: { policyId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update SLA policy' });
+  }
+});
+
+/**
+ * DELETE /api/sla/policies/:id
+ * Delete an SLA policy (Admin only)
+ */
+router.delete('/policies/:id', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid policy ID' });
+    }
+
+    const [deleted] = await db.delete(slaPolicies).where(eq(slaPolicies.id, id)).returning();
+    if (!deleted) {
+      return res.status(404).json({ message: 'SLA policy not found' });
+    }
+
+    await logConfigChange(user.id, { action: 'policy_deleted', policyId: id, name: deleted.name });
+    recalculateInBackground(user.id);
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('sla', 'Failed to delete SLA policy', {
+      userId: user.id,
+      metadata: { policyId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to delete SLA policy' });
+  }
+});
+
+// ==========================================
+// BUSINESS CALENDARS & HOLIDAYS
+// ==========================================
+
+/**
+ * GET /api/sla/calendars
+ * List business calendars with their holidays
+ */
+router.get('/calendars', requireRole(ROLES.MANAGER), async (req, res) => {
+  try {
+    const calendars = await db.select().from(businessCalendars).orderBy(asc(businessCalendars.name));
+    const holidays = await db.select().from(businessHolidays).orderBy(asc(businessHolidays.date));
+
+    res.json(calendars.map(calendar => ({
+      ...calendar,
+      holidays: holidays.filter(holiday => holiday.calendarId === calendar.id),
+    })));
+  } catch (error) {
+    console.error('Error fetching business calendars:', error);
+    res.status(500).json({ message: 'Failed to fetch business calendars' });
+  }
+});
+
+/**
+ * POST /api/sla/calendars
+ * Create a business calendar (Admin only)
+ */
+router.post('/calendars', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = insertBusinessCalendarSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [calendar] = await db.insert(businessCalendars).values(parsed.data).returning();
+
+    // Only one calendar can be the default
+    if (calendar.isDefault) {
+      await db.update(businessCalendars).set({ isDefault: false }).where(ne(businessCalendars.id, calendar.id));
+    }
+
+    await logConfigChange(user.id, { action: 'calendar_created', calendarId: calendar.id, name: calendar.name });
+    recalculateInBackground(user.id);
+
+    res.status(201).json({ ...calendar, holidays: [] });
+  } catch (error) {
+    logger.error('sla', 'Failed to create business calendar', {
+      userId: user.id,
+      metadata: { name: req.body?.name },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to create business calendar' });
+  }
+});
+
+/**
+ * PUT /api/sla/calendars/:id
+ * Update a business calendar (Admin only)
+ */
+router.put('/calendars/:id', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid calendar ID' });
+    }
+
+    const parsed = insertBusinessCalendarSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [calendar] = await db.update(businessCalendars)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(businessCalendars.id, id))
+      .returning();
+    if (!calendar) {
+      return res.status(404).json({ message: 'Business calendar not found' });
+    }
+
+    if (calendar.isDefault) {
+      await db.update(businessCalendars).set({ isDefault: false }).where(ne(businessCalendars.id, id));
+    }
+
+    await logConfigChange(user.id, { action: 'calendar_updated', calendarId: id, changes: parsed.data });
+    recalculateInBackground(user.id);
+
+    res.json(calendar);
+  } catch (error) {
+    logger.error('sla', 'Failed to update business calendar', {
+      userId: user.id,
+      metadata: { calendarId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update business calendar' });
+  }
+});
+
+/**
+ * DELETE /api/sla/calendars/:id
+ * Delete a business calendar and its holidays (Admin only)
+ * Policies using it fall back to the default calendar
+ */
+router.delete('/calendars/:id', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid calendar ID' });
+    }
+
+    const [deleted] = await db.delete(businessCalendars).where(eq(businessCalendars.id, id)).returning();
+    if (!deleted) {
+      return res.status(404).json({ message: 'Business calendar not found' });
+    }
+
+    await logConfigChange(user.id, { action: 'calendar_deleted', calendarId: id, name: deleted.name });
+    recalculateInBackground(user.id);
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('sla', 'Failed to delete business calendar', {
+      userId: user.id,
+      metadata: { calendarId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to delete business calendar' });
+  }
+});
+
+/**
+ * POST /api/sla/calendars/:id/holidays
+ * Add a holiday to a calendar (Admin only)
+ * Body: { date: 'YYYY-MM-DD', name: string }
+ */
+router.post('/calendars/:id/holidays', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const calendarId = parseInt(req.params.id);
+    if (isNaN(calendarId)) {
+      return res.status(400).json({ message: 'Invalid calendar ID' });
+    }
+
+    const parsed = insertBusinessHolidaySchema.safeParse({ ...req.body, calendarId });
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [calendar] = await db.select().from(businessCalendars).where(eq(businessCalendars.id, calendarId));
+    if (!calendar) {
+      return res.status(404).json({ message: 'Business calendar not found' });
+    }
+
+    const [holiday] = await db.insert(businessHolidays).values(parsed.data).returning();
+
+    await logConfigChange(user.id, { action: 'holiday_added', calendarId, date: holiday.date, name: holiday.name });
+    recalculateInBackground(user.id);
+
+    res.status(201).json(holiday);
+  } catch (error) {
+    logger.error('sla', 'Failed to add holiday', {
+      userId: user.id,
+      metadata: { calendarId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to add holiday' });
+  }
+});
+
+/**
+ * DELETE /api/sla/holidays/:id
+ * Remove a holiday (Admin only)
+ */
+router.delete('/holidays/:id', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid holiday ID' });
+    }
+
+    const [deleted] = await db.delete(businessHolidays).where(eq(businessHolidays.id, id)).returning();
+    if (!deleted) {
+      return res.status(404).json({ message: 'Holiday not found' });
+    }
+
+    await logConfigChange(user.id, { action: 'holiday_removed', calendarId: deleted.calendarId, date: deleted.date });
+    recalculateInBackground(user.id);
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('sla', 'Failed to remove holiday', {
+      userId: user.id,
+      metadata: { holidayId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to remove holiday' });
+  }
+});
+
+/**
+ * POST /api/sla/recalculate
+ * Recalculate SLA targets for every open ticket (Admin only)
+ */
+router.post('/recalculate', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const count = await recalculateOpenTickets();
+    await logConfigChange(user.id, { action: 'recalculated', ticketCount: count });
+    res.json({ success: true, ticketCount: count });
+  } catch (error) {
+    logger.error('sla', 'Failed to recalculate SLA targets', {
+      userId: user.id,
+      metadata: {},
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to recalculate SLA targets' });
+  }
+});
+
+export default router;
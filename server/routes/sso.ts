@@ -0,0 +1,89 @@
+/**
+ * Single Sign-On Routes
+ * OIDC configuration summary and the switch for username/password sign-in
+ * The sign-in itself lives next to POST /api/login (GET /api/auth/oidc/login, /api/auth/oidc/callback)
+ * All routes: Admin and above
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { storage } from '../storage';
+import { OIDC_CONFIG, getSsoSettings, hasOidcIdentity } from '../services/oidcService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const settingsSchema = z.object({
+  passwordLoginEnabled: z.boolean(),
+});
+
+/**
+ * GET /api/sso/settings
+ */
+router.get('/settings', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    res.json(await getSsoSettings());
+  } catch (error) {
+    logger.error('oidc', 'Failed to load SSO settings', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch single sign-on settings' });
+  }
+});
+
+/**
+ * PUT /api/sso/settings
+ * Password sign-in can only be turned off while SSO is enabled, and only by an admin who has used SSO
+ */
+router.put('/settings', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = settingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const { passwordLoginEnabled } = parsed.data;
+    if (!passwordLoginEnabled) {
+      if (!OIDC_CONFIG.enabled) {
+        return res.status(400).json({ message: 'Enable single sign-on before turning off password sign-in' });
+      }
+      if (!(await hasOidcIdentity(user.id))) {
+        return res.status(400).json({ message: 'Sign in with single sign-on once before turning off password sign-in, so you cannot lock yourself out' });
+      }
+    }
+
+    await storage.updateSystemConfig({ passwordLoginEnabled });
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CONFIG_CHANGE,
+      entityType: EntityType.SYSTEM_CONFIG,
+      details: { passwordLoginEnabled }
+    });
+    logger.warn('oidc', `Password sign-in ${passwordLoginEnabled ? 'enabled' : 'disabled'} by ${user.username}`, {
+      userId: user.id,
+      metadata: { passwordLoginEnabled }
+    });
+    res.json(await getSsoSettings());
+  } catch (error) {
+    logger.error('oidc', 'Failed to update SSO settings', {
+      userId: user.id,
+      metadata: { body: req.body },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update single sign-on settings' });
+  }
+});
+
+export default router;
@@ -0,0 +1,496 @@
+/**
+ * Stock-take Routes
+ * Physical inventory campaigns: counting assets, the variance report and corrections
+ * Read and count: Agent and above (enforced where the router is mounted)
+ * Open, correct, close and cancel: Manager and above
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { stringify } from 'csv-stringify/sync';
+import { db } from '../db';
+import { stockTakes, stockTakeItems, assets, locations, employees } from '@shared/schema';
+import { count, desc, eq, isNotNull, and } from 'drizzle-orm';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import {
+  STOCK_TAKE_RESULTS, STOCK_TAKE_RESULT_LABELS, withScopeNames, findAssetsInScope, openStockTake, recordCount,
+  classifyScannedLocation, getStockTakeDetails, getVarianceLines, applyCorrections, closeStockTake
+} from '../services/stockTakeService';
+import { getAllLocations } from '../services/locationService';
+import { findAssetByScannedCode } from '../services/labelService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const createSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(150),
+  notes: z.string().trim().max(1000).optional(),
+  department: z.string().trim().max(100).nullable().optional().transform(value => value || null),
+  assetType: z.string().trim().max(100).nullable().optional().transform(value => value || null),
+  assignedEmployeeId: z.number().int().positive().nullable().optional(),
+  locationId: z.number().int().positive().nullable().optional(),
+});
+
+const countSchema = z.object({
+  result: z.enum(STOCK_TAKE_RESULTS),
+  foundLocationId: z.number().int().positive().nullable().optional(),
+  foundEmployeeId: z.number().int().positive().nullable().optional(),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+const scanSchema = z.object({
+  code: z.string().trim().min(1, 'Scanned code is required').max(200),
+  // Where the auditor is scanning; assets expected elsewhere are counted as misplaced
+  locationId: z.number().int().positive().nullable().optional(),
+});
+
+const correctionsSchema = z.object({
+  itemIds: z.array(z.number().int().positive()).optional(),
+});
+
+const closeSchema = z.object({
+  markUncountedMissing: z.boolean().optional(),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+async function getStockTake(id: number) {
+  const [stockTake] = await db.select().from(stockTakes).where(eq(stockTakes.id, id));
+  return stockTake;
+}
+
+/**
+ * GET /api/stock-takes
+ * Campaigns, newest first, with their progress
+ */
+router.get('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const [rows, totals, counted] = await Promise.all([
+      db.select().from(stockTakes).orderBy(desc(stockTakes.createdAt)),
+      db.select({ stockTakeId: stockTakeItems.stockTakeId, count: count() })
+        .from(stockTakeItems)
+        .groupBy(stockTakeItems.stockTakeId),
+      db.select({ stockTakeId: stockTakeItems.stockTakeId, count: count() })
+        .from(stockTakeItems)
+        .where(isNotNull(stockTakeItems.result))
+        .groupBy(stockTakeItems.stockTakeId),
+    ]);
+
+    const totalById = new Map(totals.map(row => [row.stockTakeId, row.count]));
+    const countedById = new Map(counted.map(row => [row.stockTakeId, row.count]));
+
+    res.json((await withScopeNames(rows)).map(row => ({
+      ...row,
+      itemCount: totalById.get(row.id) || 0,
+      countedCount: countedById.get(row.id) || 0,
+    })));
+  } catch (error) {
+    logger.error('stock-take', 'Failed to list stock-takes', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch stock-takes' });
+  }
+});
+
+/**
+ * GET /api/stock-takes/:id
+ * Campaign with its summary and every item
+ */
+router.get('/:id', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid stock-take ID' });
+    }
+
+    const details = await getStockTakeDetails(id);
+    if (!details) {
+      return res.status(404).json({ message: 'Stock-take not found' });
+    }
+
+    const [stockTake] = await withScopeNames([details.stockTake]);
+    res.json({ ...details, stockTake });
+  } catch (error) {
+    logger.error('stock-take', 'Failed to fetch stock-take', {
+      userId: user.id,
+      metadata: { stockTakeId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch stock-take' });
+  }
+});
+
+/**
+ * GET /api/stock-takes/:id/variance
+ * Discrepancies between the register and the count
+ * Query params:
+ *   - format: json (default) | csv
+ */
+router.get('/:id/variance', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid stock-take ID' });
+    }
+
+    const details = await getStockTakeDetails(id);
+    if (!details) {
+      return res.status(404).json({ message: 'Stock-take not found' });
+    }
+    const lines = getVarianceLines(details);
+
+    if (req.query.format === 'csv') {
+      const csv = stringify(lines.map(line => ({
+        'Asset ID': line.asset.assetId,
+        'Type': line.asset.type,
+        'Brand': line.asset.brand,
+        'Model': line.asset.modelName || '',
+        'Serial Number': line.asset.serialNumber,
+        'Result': line.result ? STOCK_TAKE_RESULT_LABELS[line.result as keyof typeof STOCK_TAKE_RESULT_LABELS] : 'Not counted',
+        'Unexpected': line.unexpected ? 'Yes' : 'No',
+        'Expected Status': line.expectedStatus || '',
+        'Expected Assignee': line.expectedEmployeeName || '',
+        'Found With': line.foundEmployeeName || '',
+        'Expected Location': line.expectedLocationPath || '',
+        'Found At': line.foundLocationPath || '',
+        'Notes': line.notes || '',
+        'Corrected': line.correctedAt ? new Date(line.correctedAt).toISOString() : '',
+      })), { header: true });
+
+      const filename = `stock-take-${id}-variance-${new Date().toISOString().split('T')[0]}.csv`;
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      return res.send(csv);
+    }
+
+    res.json({ stockTake: details.stockTake, summary: details.summary, items: lines });
+  } catch (error) {
+    logger.error('stock-take', 'Failed to build variance report', {
+      userId: user.id,
+      metadata: { stockTakeId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to build variance report' });
+  }
+});
+
+/**
+ * POST /api/stock-takes
+ * Open a campaign over every asset matching the scope
+ */
+router.post('/', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = createSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const scopedAssets = await findAssetsInScope(parsed.data);
+    if (scopedAssets.length === 0) {
+      return res.status(400).json({ message: 'No assets match this scope' });
+    }
+
+    const stockTake = await openStockTake(parsed.data, scopedAssets, user.id);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.STOCK_TAKE,
+      entityId: stockTake.id,
+      details: {
+        name: stockTake.name,
+        scope: {
+          department: stockTake.department,
+          assetType: stockTake.assetType,
+          assignedEmployeeId: stockTake.assignedEmployeeId,
+          locationId: stockTake.locationId,
+        },
+        assetCount: scopedAssets.length
+      }
+    });
+
+    res.status(201).json({ ...stockTake, itemCount: scopedAssets.length, countedCount: 0 });
+  } catch (error) {
+    logger.error('stock-take', 'Failed to open stock-take', {
+      userId: user.id,
+      metadata: { name: req.body?.name },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to open stock-take' });
+  }
+});
+
+/**
+ * POST /api/stock-takes/:id/assets/:assetId/count
+ * Record what the auditor found for an asset
+ * Body: { result, foundLocationId?, foundEmployeeId?, notes? }
+ */
+router.post('/:id/assets/:assetId/count', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    const assetId = parseId(req.params.assetId);
+    if (id === null || assetId === null) {
+      return res.status(400).json({ message: 'Invalid stock-take or asset ID' });
+    }
+    const parsed = countSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const stockTake = await getStockTake(id);
+    if (!stockTake) {
+      return res.status(404).json({ message: 'Stock-take not found' });
+    }
+    if (stockTake.status !== 'open') {
+      return res.status(400).json({ message: 'Stock-take is no longer open' });
+    }
+
+    const [asset] = await db.select().from(assets).where(eq(assets.id, assetId));
+    if (!asset) {
+      return res.status(404).json({ message: 'Asset not found' });
+    }
+    if (parsed.data.foundLocationId) {
+      const [location] = await db.select({ id: locations.id }).from(locations).where(eq(locations.id, parsed.data.foundLocationId));
+      if (!location) {
+        return res.status(400).json({ message: 'Location not found' });
+      }
+    }
+    if (parsed.data.foundEmployeeId) {
+      const [employee] = await db.select({ id: employees.id }).from(employees).where(eq(employees.id, parsed.data.foundEmployeeId));
+      if (!employee) {
+        return res.status(400).json({ message: 'Employee not found' });
+      }
+    }
+
+    const item = await recordCount(id, asset, parsed.data, user.id);
+    res.json(item);
+  } catch (error) {
+    logger.error('stock-take', 'Failed to record count', {
+      userId: user.id,
+      metadata: { stockTakeId: req.params.id, assetId: req.params.assetId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to record count' });
+  }
+});
+
+/**
+ * POST /api/stock-takes/:id/scan
+ * Count a scanned label as found (or misplaced when scanned away from its expected location)
+ * Body: { code, locationId? }
+ */
+router.post('/:id/scan', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid stock-take ID' });
+    }
+    const parsed = scanSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const stockTake = await getStockTake(id);
+    if (!stockTake) {
+      return res.status(404).json({ message: 'Stock-take not found' });
+    }
+    if (stockTake.status !== 'open') {
+      return res.status(400).json({ message: 'Stock-take is no longer open' });
+    }
+
+    const match = await findAssetByScannedCode(parsed.data.code);
+    if (!match) {
+      return res.status(404).json({ message: `No asset found for "${parsed.data.code}"` });
+    }
+
+    const [existing] = await db.select().from(stockTakeItems)
+      .where(and(eq(stockTakeItems.stockTakeId, id), eq(stockTakeItems.assetId, match.asset.id)));
+    const expectedLocationId = existing ? existing.expectedLocationId : match.asset.locationId;
+    const scannedAt = parsed.data.locationId ?? null;
+    const result = classifyScannedLocation(await getAllLocations(), expectedLocationId, scannedAt);
+
+    const item = await recordCount(id, match.asset, {
+      result,
+      foundLocationId: result === 'misplaced' ? scannedAt : null,
+    }, user.id);
+
+    res.json({
+      item,
+      asset: match.asset,
+      // Whether the asset was expected in this stock-take before the scan
+      expected: Boolean(existing && !existing.unexpected),
+    });
+  } catch (error) {
+    logger.error('stock-take', 'Failed to record scan', {
+      userId: user.id,
+      metadata: { stockTakeId: req.params.id, code: req.body?.code },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to record scan' });
+  }
+});
+
+/**
+ * POST /api/stock-takes/:id/corrections
+ * Bring assets in line with the count; every pending correction unless itemIds is given
+ * Body: { itemIds? }
+ */
+router.post('/:id/corrections', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid stock-take ID' });
+    }
+    const parsed = correctionsSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const stockTake = await getStockTake(id);
+    if (!stockTake) {
+      return res.status(404).json({ message: 'Stock-take not found' });
+    }
+    if (stockTake.status === 'cancelled') {
+      return res.status(400).json({ message: 'Stock-take was cancelled' });
+    }
+
+    const result = await applyCorrections(stockTake, parsed.data.itemIds, user.id);
+
+    if (result.corrected.length > 0) {
+      await logActivity({
+        userId: user.id,
+        action: AuditAction.STATUS_CHANGE,
+        entityType: EntityType.STOCK_TAKE,
+        entityId: id,
+        details: {
+          name: stockTake.name,
+          correctedAssetIds: result.corrected.map(transaction => transaction.assetId),
+        }
+      });
+    }
+
+    res.json({
+      corrected: result.corrected.length,
+      skipped: result.skipped.length,
+      transactions: result.corrected,
+    });
+  } catch (error) {
+    logger.error('stock-take', 'Failed to apply corrections', {
+      userId: user.id,
+      metadata: { stockTakeId: req.params.id, itemIds: req.body?.itemIds },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to apply corrections' });
+  }
+});
+
+/**
+ * POST /api/stock-takes/:id/close
+ * Body: { markUncountedMissing? } - report assets nobody counted as missing (default true)
+ */
+router.post('/:id/close', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid stock-take ID' });
+    }
+    const parsed = closeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const stockTake = await getStockTake(id);
+    if (!stockTake) {
+      return res.status(404).json({ message: 'Stock-take not found' });
+    }
+    if (stockTake.status !== 'open') {
+      return res.status(400).json({ message: 'Stock-take is no longer open' });
+    }
+
+    const markUncountedMissing = parsed.data.markUncountedMissing ?? true;
+    const closed = await closeStockTake(stockTake, markUncountedMissing, user.id);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.STATUS_CHANGE,
+      entityType: EntityType.STOCK_TAKE,
+      entityId: id,
+      details: { name: stockTake.name, status: 'closed', markUncountedMissing }
+    });
+
+    res.json(closed);
+  } catch (error) {
+    logger.error('stock-take', 'Failed to close stock-take', {
+      userId: user.id,
+      metadata: { stockTakeId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to close stock-take' });
+  }
+});
+
+/**
+ * POST /api/stock-takes/:id/cancel
+ * Abandon a campaign; nothing is written to the asset history
+ */
+router.post('/:id/cancel', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid stock-take ID' });
+    }
+
+    const stockTake = await getStockTake(id);
+    if (!stockTake) {
+      return res.status(404).json({ message: 'Stock-take not found' });
+    }
+    if (stockTake.status !== 'open') {
+      return res.status(400).json({ message: 'Stock-take is no longer open' });
+    }
+
+    const [cancelled] = await db.update(stockTakes)
+      .set({ status: 'cancelled', closedById: user.id, closedAt: new Date(), updatedAt: new Date() })
+      .where(eq(stockTakes.id, id))
+      .returning();
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.STATUS_CHANGE,
+      entityType: EntityType.STOCK_TAKE,
+      entityId: id,
+      details: { name: stockTake.name, status: 'cancelled' }
+    });
+
+    res.json(cancelled);
+  } catch (error) {
+    logger.error('stock-take', 'Failed to cancel stock-take', {
+      userId: user.id,
+      metadata: { stockTakeId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to cancel stock-take' });
+  }
+});
+
+export default router;
@@ -0,0 +1,104 @@
+/**
+ * Ticket Merge Routes
+ * Merge duplicate tickets into a primary ticket (Agent and above)
+ */
+
+import { Router } from 'express';
+import { storage, TicketMergeError } from '../storage';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import * as notificationService from '../services/notificationService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+/**
+ * POST /api/tickets/:id/merge
+ * Merge one or more tickets into the ticket identified by :id
+ * Body: { ticketIds: number[] } - database IDs of the duplicate tickets to close
+ */
+router.post('/:id/merge', requireRole(ROLES.AGENT), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const primaryTicketId = parseInt(req.params.id);
+    if (isNaN(primaryTicketId)) {
+      return res.status(400).json({ message: 'Invalid ticket ID' });
+    }
+
+    const { ticketIds } = req.body;
+    if (!Array.isArray(ticketIds) || ticketIds.length === 0) {
+      return res.status(400).json({ message: 'ticketIds must be a non-empty array of ticket IDs' });
+    }
+
+    const secondaryTicketIds = ticketIds.map((id: unknown) => Number(id));
+    if (secondaryTicketIds.some(id => !Number.isInteger(id) || id <= 0)) {
+      return res.status(400).json({ message: 'ticketIds must contain valid ticket IDs' });
+    }
+    if (secondaryTicketIds.includes(primaryTicketId)) {
+      return res.status(400).json({ message: 'A ticket cannot be merged into itself' });
+    }
+
+    let result;
+    try {
+      result = await storage.mergeTickets(primaryTicketId, secondaryTicketIds, user.id);
+    } catch (mergeError) {
+      // Missing or already merged tickets; anything else is a server error
+      if (mergeError instanceof TicketMergeError) {
+        return res.status(400).json({ message: mergeError.message });
+      }
+      throw mergeError;
+    }
+
+    const { primaryTicket, mergedTickets, moved } = result;
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.MERGE,
+      entityType: EntityType.TICKET,
+      entityId: primaryTicketId,
+      details: {
+        primaryTicket: primaryTicket?.ticketId,
+        mergedTickets: mergedTickets.map((ticket: any) => ticket.ticketId),
+        moved,
+      }
+    });
+
+    // Let each submitter know where their request now lives
+    try {
+      const notifiedUserIds = new Set<number>();
+      for (const ticket of mergedTickets) {
+        const submitter = await storage.getEmployee(ticket.submittedById);
+        if (!submitter?.userId || submitter.userId === user.id || notifiedUserIds.has(submitter.userId)) {
+          continue;
+        }
+        notifiedUserIds.add(submitter.userId);
+        await notificationService.notifyTicketMerged({
+          userId: submitter.userId,
+          mergedTicketId: ticket.ticketId,
+          primaryTicketId: primaryTicket?.ticketId || String(primaryTicketId),
+          ticketTitle: ticket.title,
+          entityId: primaryTicketId,
+        });
+      }
+    } catch (notifError) {
+      console.error('[Notification] Failed to send ticket merge notifications:', notifError);
+    }
+
+    res.json(result);
+  } catch (error) {
+    logger.error('tickets', 'Failed to merge tickets', {
+      userId: user.id,
+      metadata: { primaryTicketId: req.params.id, ticketIds: req.body?.ticketIds },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to merge tickets' });
+  }
+});
+
+export default router;
@@ -0,0 +1,94 @@
+/**
+ * Ticket SLA Routes
+ * Pause and resume a ticket's SLA clock while it waits on the requester (Agent and above)
+ */
+
+import { Router } from 'express';
+import { storage } from '../storage';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { pauseTicketSLA, resumeTicketSLA } from '../services/slaService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+/**
+ * POST /api/tickets/:id/sla/pause
+ * Stop the SLA clock while waiting on the requester
+ * Body: { reason?: string }
+ */
+router.post('/:id/sla/pause', requireRole(ROLES.AGENT), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const ticketId = parseInt(req.params.id);
+    if (isNaN(ticketId)) {
+      return res.status(400).json({ message: 'Invalid ticket ID' });
+    }
+
+    const paused = await pauseTicketSLA(ticketId, user.id, req.body?.reason);
+    if (!paused) {
+      return res.status(400).json({ message: 'SLA can only be paused on open tickets that are not already paused' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.STATUS_CHANGE,
+      entityType: EntityType.TICKET,
+      entityId: ticketId,
+      details: { sla: 'paused', reason: req.body?.reason || null }
+    });
+
+    res.json(await storage.getTicket(ticketId));
+  } catch (error) {
+    logger.error('sla', 'Failed to pause ticket SLA', {
+      userId: user.id,
+      metadata: { ticketId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to pause SLA' });
+  }
+});
+
+/**
+ * POST /api/tickets/:id/sla/resume
+ * Restart the SLA clock; paused business time extends the resolution target
+ */
+router.post('/:id/sla/resume', requireRole(ROLES.AGENT), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const ticketId = parseInt(req.params.id);
+    if (isNaN(ticketId)) {
+      return res.status(400).json({ message: 'Invalid ticket ID' });
+    }
+
+    const resumed = await resumeTicketSLA(ticketId, user.id);
+    if (!resumed) {
+      return res.status(400).json({ message: 'SLA is not paused for this ticket' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.STATUS_CHANGE,
+      entityType: EntityType.TICKET,
+      entityId: ticketId,
+      details: { sla: 'resumed' }
+    });
+
+    res.json(await storage.getTicket(ticketId));
+  } catch (error) {
+    logger.error('sla', 'Failed to resume ticket SLA', {
+      userId: user.id,
+      metadata: { ticketId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to resume SLA' });
+  }
+});
+
+export default router;
@@ -0,0 +1,200 @@
+/**
+ * Ticket Time Entry Routes
+ * Persistent time-tracking ledger per ticket (Agent and above)
+ */
+
+import { Router } from 'express';
+import { storage } from '../storage';
+import { requireRole, ROLES, hasMinimumRoleLevel } from '../rbac';
+import { ROLE_LEVELS } from '@shared/roles.config';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Only the agent who logged the entry, or a manager and above, may change it
+ */
+function canModifyEntry(user: AuthUser, entryUserId: number): boolean {
+  return entryUserId === user.id || hasMinimumRoleLevel(user, ROLE_LEVELS.manager);
+}
+
+/**
+ * GET /api/tickets/:id/time
+ * List time entries logged against a ticket
+ */
+router.get('/:id/time', requireRole(ROLES.AGENT), async (req, res) => {
+  try {
+    const ticketId = parseInt(req.params.id);
+    if (isNaN(ticketId)) {
+      return res.status(400).json({ message: 'Invalid ticket ID' });
+    }
+
+    const entries = await storage.getTimeEntries(ticketId);
+    res.json(entries);
+  } catch (error) {
+    console.error('Error fetching time entries:', error);
+    res.status(500).json({ message: 'Failed to fetch time entries' });
+  }
+});
+
+/**
+ * POST /api/tickets/:id/time
+ * Log time against a ticket
+ * Body: { hours: number, description?: string, workDate?: 'YYYY-MM-DD' }
+ */
+router.post('/:id/time', requireRole(ROLES.AGENT), async (req, res) => {
+  try {
+    const user = req.user as AuthUser;
+    const ticketId = parseInt(req.params.id);
+    if (isNaN(ticketId)) {
+      return res.status(400).json({ message: 'Invalid ticket ID' });
+    }
+
+    const { description, workDate } = req.body;
+    const hours = Number(req.body.hours);
+
+    if (!hours || hours <= 0 || hours > 24) {
+      return res.status(400).json({ message: 'Valid hours value is required (0-24)' });
+    }
+    if (workDate && !DATE_PATTERN.test(workDate)) {
+      return res.status(400).json({ message: 'workDate must be in YYYY-MM-DD format' });
+    }
+
+    const ticket = await storage.getTicket(ticketId);
+    if (!ticket) {
+      return res.status(404).json({ message: 'Ticket not found' });
+    }
+
+    const timeEntry = await storage.addTimeEntry(ticketId, hours, description || '', user.id, workDate);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.TICKET,
+      entityId: ticketId,
+      details: { timeEntryId: timeEntry.id, minutes: timeEntry.minutes, workDate: timeEntry.workDate }
+    });
+
+    res.status(201).json(timeEntry);
+  } catch (error) {
+    logger.error('tickets', 'Failed to add time entry', {
+      userId: (req.user as AuthUser).id,
+      metadata: { ticketId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to add time entry' });
+  }
+});
+
+/**
+ * PUT /api/tickets/:id/time/:entryId
+ * Edit a time entry (owner or manager+)
+ */
+router.put('/:id/time/:entryId', requireRole(ROLES.AGENT), async (req, res) => {
+  try {
+    const user = req.user as AuthUser;
+    const ticketId = parseInt(req.params.id);
+    const entryId = parseInt(req.params.entryId);
+    if (isNaN(ticketId) || isNaN(entryId)) {
+      return res.status(400).json({ message: 'Invalid ticket or time entry ID' });
+    }
+
+    const existing = await storage.getTimeEntry(entryId);
+    if (!existing || existing.ticketId !== ticketId) {
+      return res.status(404).json({ message: 'Time entry not found' });
+    }
+    if (!canModifyEntry(user, existing.userId)) {
+      return res.status(403).json({ message: 'You can only edit your own time entries' });
+    }
+
+    const updates: { minutes?: number; description?: string | null; workDate?: string } = {};
+    if (req.body.hours !== undefined) {
+      const hours = Number(req.body.hours);
+      if (!hours || hours <= 0 || hours > 24) {
+        return res.status(400).json({ message: 'Valid hours value is required (0-24)' });
+      }
+      updates.minutes = Math.round(hours * 60);
+    }
+    if (req.body.workDate !== undefined) {
+      if (!DATE_PATTERN.test(req.body.workDate)) {
+        return res.status(400).json({ message: 'workDate must be in YYYY-MM-DD format' });
+      }
+      updates.workDate = req.body.workDate;
+    }
+    if (req.body.description !== undefined) {
+      updates.description = req.body.description || null;
+    }
+
+    const updated = await storage.updateTimeEntry(entryId, updates);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.TICKET,
+      entityId: ticketId,
+      details: { timeEntryId: entryId, before: { minutes: existing.minutes, workDate: existing.workDate }, after: updates }
+    });
+
+    res.json(updated);
+  } catch (error) {
+    logger.error('tickets', 'Failed to update time entry', {
+      userId: (req.user as AuthUser).id,
+      metadata: { ticketId: req.params.id, entryId: req.params.entryId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update time entry' });
+  }
+});
+
+/**
+ * DELETE /api/tickets/:id/time/:entryId
+ * Delete a time entry (owner or manager+)
+ */
+router.delete('/:id/time/:entryId', requireRole(ROLES.AGENT), async (req, res) => {
+  try {
+    const user = req.user as AuthUser;
+    const ticketId = parseInt(req.params.id);
+    const entryId = parseInt(req.params.entryId);
+    if (isNaN(ticketId) || isNaN(entryId)) {
+      return res.status(400).json({ message: 'Invalid ticket or time entry ID' });
+    }
+
+    const existing = await storage.getTimeEntry(entryId);
+    if (!existing || existing.ticketId !== ticketId) {
+      return res.status(404).json({ message: 'Time entry not found' });
+    }
+    if (!canModifyEntry(user, existing.userId)) {
+      return res.status(403).json({ message: 'You can only delete your own time entries' });
+    }
+
+    await storage.deleteTimeEntry(entryId);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.DELETE,
+      entityType: EntityType.TICKET,
+      entityId: ticketId,
+      details: { timeEntryId: entryId, minutes: existing.minutes, workDate: existing.workDate }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('tickets', 'Failed to delete time entry', {
+      userId: (req.user as AuthUser).id,
+      metadata: { ticketId: req.params.id, entryId: req.params.entryId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to delete time entry' });
+  }
+});
+
+export default router;
@@ -0,0 +1,99 @@
+/**
+ * Timesheet Routes
+ * Weekly per-agent timesheets built from ticket time entries
+ */
+
+import { Router } from 'express';
+import { storage } from '../storage';
+import { requireRole, ROLES, hasMinimumRoleLevel } from '../rbac';
+import { ROLE_LEVELS, getRoleLevel } from '@shared/roles.config';
+import { exportToCSV } from '@shared/csvUtils';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { getWeeklyTimesheet, getWeekBounds, timesheetToCSVRows } from '../services/timeTrackingService';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+/**
+ * GET /api/timesheets
+ * Weekly timesheet for an agent
+ * Query params:
+ *   - userId: number - Agent to view (defaults to current user; other agents require Manager+)
+ *   - week: YYYY-MM-DD - Any date inside the requested week (defaults to current week)
+ */
+router.get('/', requireRole(ROLES.AGENT), async (req, res) => {
+  try {
+    const user = req.user as AuthUser;
+    const userId = req.query.userId ? parseInt(req.query.userId as string) : user.id;
+
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+    if (userId !== user.id && !hasMinimumRoleLevel(user, ROLE_LEVELS.manager)) {
+      return res.status(403).json({ message: 'You can only view your own timesheet' });
+    }
+
+    const timesheet = await getWeeklyTimesheet(userId, req.query.week as string | undefined);
+    res.json(timesheet);
+  } catch (error) {
+    console.error('Error building timesheet:', error);
+    res.status(500).json({ message: 'Failed to load timesheet' });
+  }
+});
+
+/**
+ * GET /api/timesheets/export
+ * Export weekly timesheets as CSV (Manager+)
+ * Query params:
+ *   - userId: number - Single agent to export (omit to export every agent)
+ *   - week: YYYY-MM-DD - Any date inside the requested week
+ */
+router.get('/export', requireRole(ROLES.MANAGER), async (req, res) => {
+  try {
+    const user = req.user as AuthUser;
+    const week = req.query.week as string | undefined;
+
+    let agents;
+    if (req.query.userId) {
+      const agent = await storage.getUser(parseInt(req.query.userId as string));
+      if (!agent) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      agents = [agent];
+    } else {
+      const allUsers = await storage.getAllUsers();
+      agents = allUsers.filter(u => getRoleLevel(u.role) >= ROLE_LEVELS.agent);
+    }
+
+    const csvRows = [];
+    for (const agent of agents) {
+      const timesheet = await getWeeklyTimesheet(agent.id, week);
+      if (timesheet.rows.length > 0 || agents.length === 1) {
+        csvRows.push(...timesheetToCSVRows(timesheet, agent.username));
+      }
+    }
+
+    const { weekStart } = getWeekBounds(week);
+    const { content, headers } = await exportToCSV(csvRows, `timesheet_${weekStart}`);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.EXPORT,
+      entityType: EntityType.REPORT,
+      details: { report: 'timesheet', weekStart, agentCount: agents.length }
+    });
+
+    res.set(headers);
+    res.send(content);
+  } catch (error) {
+    console.error('Error exporting timesheet:', error);
+    res.status(500).json({ message: 'Failed to export timesheet' });
+  }
+});
+
+export default router;
@@ -0,0 +1,320 @@
+/**
+ * Two-Factor Authentication Routes
+ * Enrollment and recovery codes of the signed-in user, plus the admin side (per-role policy, reset)
+ * The second login step itself lives next to POST /api/login (POST /api/login/2fa...)
+ * Own 2FA: any authenticated user
+ * Policy, enrolled-user list and resetting another user's 2FA: Admin and above
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { storage } from '../storage';
+import { getRoleLevel } from '@shared/roles.config';
+import {
+  TwoFactorError, TWO_FACTOR_ROLES,
+  getTwoFactorStatus, startEnrollment, confirmEnrollment, verifyTwoFactorCode, regenerateRecoveryCodes,
+  removeTwoFactor, getEnrolledUsers, getRequiredRoles, isTwoFactorRequiredForRole
+} from '../services/twoFactorService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const codeSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(20),
+});
+
+const policySchema = z.object({
+  requiredRoles: z.array(z.enum(TWO_FACTOR_ROLES as [string, ...string[]])),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+/**
+ * GET /api/two-factor/status
+ */
+router.get('/status', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    res.json(await getTwoFactorStatus(user.id, user.role));
+  } catch (error) {
+    logger.error('two-factor', 'Failed to load two-factor status', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch two-factor status' });
+  }
+});
+
+/**
+ * POST /api/two-factor/setup
+ * New secret and QR code; 2FA stays off until POST /enable confirms a code
+ */
+router.post('/setup', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const enrollment = await startEnrollment(user.id, user.username);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.TWO_FACTOR,
+      entityType: EntityType.USER,
+      entityId: user.id,
+      details: { event: 'enrollment_started' }
+    });
+    res.json(enrollment);
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('two-factor', 'Failed to start two-factor enrollment', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to start two-factor setup' });
+  }
+});
+
+/**
+ * POST /api/two-factor/enable
+ * Returns the recovery codes; they are not retrievable later
+ */
+router.post('/enable', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = codeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    const recoveryCodes = await confirmEnrollment(user.id, parsed.data.code);
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.TWO_FACTOR,
+      entityType: EntityType.USER,
+      entityId: user.id,
+      details: { event: 'enrolled' }
+    });
+    res.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      await logActivity({
+        userId: user.id,
+        action: AuditAction.TWO_FACTOR,
+        entityType: EntityType.USER,
+        entityId: user.id,
+        details: { event: 'enrollment_failed', reason: error.message }
+      });
+      return res.status(400).json({ message: error.message });
+    }
+    logger.error('two-factor', 'Failed to enable two-factor authentication', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to enable two-factor authentication' });
+  }
+});
+
+/**
+ * POST /api/two-factor/disable
+ * Needs a current code; not allowed when the user's role requires 2FA
+ */
+router.post('/disable', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = codeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      return res.status(400).json({ message: 'Two-factor authentication is required for your role' });
+    }
+
+    const method = await verifyTwoFactorCode(user.id, parsed.data.code);
+    if (!method) {
+      await logActivity({
+        userId: user.id,
+        action: AuditAction.TWO_FACTOR,
+        entityType: EntityType.USER,
+        entityId: user.id,
+        details: { event: 'verification_failed', context: 'disable' }
+      });
+      return res.status(400).json({ message: 'Invalid verification code' });
+    }
+
+    await removeTwoFactor(user.id);
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.TWO_FACTOR,
+      entityType: EntityType.USER,
+      entityId: user.id,
+      details: { event: 'disabled', method }
+    });
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    logger.error('two-factor', 'Failed to disable two-factor authentication', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to disable two-factor authentication' });
+  }
+});
+
+/**
+ * POST /api/two-factor/recovery-codes
+ * Replaces all recovery codes; needs a current code
+ */
+router.post('/recovery-codes', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = codeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const method = await verifyTwoFactorCode(user.id, parsed.data.code);
+    if (!method) {
+      await logActivity({
+        userId: user.id,
+        action: AuditAction.TWO_FACTOR,
+        entityType: EntityType.USER,
+        entityId: user.id,
+        details: { event: 'verification_failed', context: 'recovery_codes' }
+      });
+      return res.status(400).json({ message: 'Invalid verification code' });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.TWO_FACTOR,
+      entityType: EntityType.USER,
+      entityId: user.id,
+      details: { event: 'recovery_codes_regenerated', method }
+    });
+    res.json({ recoveryCodes });
+  } catch (error) {
+    logger.error('two-factor', 'Failed to regenerate recovery codes', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to regenerate recovery codes' });
+  }
+});
+
+/**
+ * GET /api/two-factor/policy
+ */
+router.get('/policy', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    res.json({ requiredRoles: await getRequiredRoles() });
+  } catch (error) {
+    logger.error('two-factor', 'Failed to load two-factor policy', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch two-factor policy' });
+  }
+});
+
+/**
+ * PUT /api/two-factor/policy
+ * Users of a required role without 2FA are asked to enroll at their next login
+ */
+router.put('/policy', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = policySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    await storage.updateSystemConfig({ twoFactorRequiredRoles: parsed.data.requiredRoles });
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CONFIG_CHANGE,
+      entityType: EntityType.SYSTEM_CONFIG,
+      details: { twoFactorRequiredRoles: parsed.data.requiredRoles }
+    });
+    res.json({ requiredRoles: await getRequiredRoles() });
+  } catch (error) {
+    logger.error('two-factor', 'Failed to update two-factor policy', {
+      userId: user.id,
+      metadata: { body: req.body },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update two-factor policy' });
+  }
+});
+
+/**
+ * GET /api/two-factor/users
+ * Users with 2FA enabled
+ */
+router.get('/users', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    res.json(await getEnrolledUsers());
+  } catch (error) {
+    logger.error('two-factor', 'Failed to list two-factor users', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch two-factor users' });
+  }
+});
+
+/**
+ * DELETE /api/two-factor/users/:id
+ * Reset a user's 2FA (lost phone and recovery codes); they enroll again from their profile or at login
+ */
+router.delete('/users/:id', requireRole(ROLES.ADMIN), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const targetId = parseId(req.params.id);
+    if (targetId === null) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+    const target = await storage.getUser(targetId);
+    if (!target) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (getRoleLevel(target.role) > getRoleLevel(user.role)) {
+      return res.status(403).json({ message: 'Cannot modify users with higher role level than your own' });
+    }
+    const removed = await removeTwoFactor(targetId);
+    if (!removed) {
+      return res.status(404).json({ message: 'Two-factor authentication is not set up for this user' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.TWO_FACTOR,
+      entityType: EntityType.USER,
+      entityId: targetId,
+      details: { event: 'reset', resetBy: user.username }
+    });
+    res.json({ message: 'Two-factor authentication reset' });
+  } catch (error) {
+    logger.error('two-factor', 'Failed to reset two-factor authentication', {
+      userId: user.id,
+      metadata: { targetUserId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to reset two-factor authentication' });
+  }
+});
+
+export default router;
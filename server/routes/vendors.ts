@@ -0,0 +1,213 @@
+/**
+ * Vendor Routes
+ * Suppliers referenced by software licenses and purchase orders
+ * Read: Agent and above (enforced where the router is mounted)
+ * Changes: Manager and above
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { db } from '../db';
+import { vendors, softwareLicenses, purchaseOrders } from '@shared/schema';
+import { asc, count, eq } from 'drizzle-orm';
+import { fromZodError } from 'zod-validation-error';
+import { requireRole, ROLES } from '../rbac';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullable().optional().transform(value => value || null);
+
+const vendorSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(150),
+  website: optionalText(255),
+  contactName: optionalText(100),
+  contactEmail: z.string().trim().email('Invalid contact email').max(100).nullable().optional()
+    .or(z.literal('')).transform(value => value || null),
+  contactPhone: optionalText(50),
+  notes: optionalText(2000),
+  isActive: z.boolean().optional(),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505';
+}
+
+/**
+ * GET /api/vendors
+ * Vendors by name with the number of licenses and purchase orders for each
+ */
+router.get('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const [rows, licenseCounts, orderCounts] = await Promise.all([
+      db.select().from(vendors).orderBy(asc(vendors.name)),
+      db.select({ vendorId: softwareLicenses.vendorId, count: count() })
+        .from(softwareLicenses)
+        .groupBy(softwareLicenses.vendorId),
+      db.select({ vendorId: purchaseOrders.vendorId, count: count() })
+        .from(purchaseOrders)
+        .groupBy(purchaseOrders.vendorId),
+    ]);
+
+    const licensesByVendor = new Map(licenseCounts.map(row => [row.vendorId, row.count]));
+    const ordersByVendor = new Map(orderCounts.map(row => [row.vendorId, row.count]));
+    res.json(rows.map(row => ({
+      ...row,
+      licenseCount: licensesByVendor.get(row.id) || 0,
+      purchaseOrderCount: ordersByVendor.get(row.id) || 0,
+    })));
+  } catch (error) {
+    logger.error('vendors', 'Failed to list vendors', {
+      userId: user.id,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to fetch vendors' });
+  }
+});
+
+/**
+ * POST /api/vendors
+ */
+router.post('/', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = vendorSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [vendor] = await db.insert(vendors).values(parsed.data).returning();
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.CREATE,
+      entityType: EntityType.VENDOR,
+      entityId: vendor.id,
+      details: { name: vendor.name }
+    });
+
+    res.status(201).json(vendor);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'A vendor with this name already exists' });
+    }
+    logger.error('vendors', 'Failed to create vendor', {
+      userId: user.id,
+      metadata: { name: req.body?.name },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to create vendor' });
+  }
+});
+
+/**
+ * PUT /api/vendors/:id
+ */
+router.put('/:id', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid vendor ID' });
+    }
+    const parsed = vendorSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [vendor] = await db.update(vendors)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(vendors.id, id))
+      .returning();
+    if (!vendor) {
+      return res.status(404).json({ message: 'Vendor not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      entityType: EntityType.VENDOR,
+      entityId: id,
+      details: { name: vendor.name, isActive: vendor.isActive }
+    });
+
+    res.json(vendor);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'A vendor with this name already exists' });
+    }
+    logger.error('vendors', 'Failed to update vendor', {
+      userId: user.id,
+      metadata: { vendorId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to update vendor' });
+  }
+});
+
+/**
+ * DELETE /api/vendors/:id
+ * Vendors with licenses or purchase orders can only be deactivated
+ */
+router.delete('/:id', requireRole(ROLES.MANAGER), async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid vendor ID' });
+    }
+
+    const [license] = await db.select({ id: softwareLicenses.id })
+      .from(softwareLicenses)
+      .where(eq(softwareLicenses.vendorId, id))
+      .limit(1);
+    if (license) {
+      return res.status(400).json({ message: 'Vendor has licenses; deactivate it instead' });
+    }
+    const [order] = await db.select({ id: purchaseOrders.id })
+      .from(purchaseOrders)
+      .where(eq(purchaseOrders.vendorId, id))
+      .limit(1);
+    if (order) {
+      return res.status(400).json({ message: 'Vendor has purchase orders; deactivate it instead' });
+    }
+
+    const [deleted] = await db.delete(vendors).where(eq(vendors.id, id)).returning();
+    if (!deleted) {
+      return res.status(404).json({ message: 'Vendor not found' });
+    }
+
+    await logActivity({
+      userId: user.id,
+      action: AuditAction.DELETE,
+      entityType: EntityType.VENDOR,
+      entityId: id,
+      details: { name: deleted.name }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('vendors', 'Failed to delete vendor', {
+      userId: user.id,
+      metadata: { vendorId: req.params.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Failed to delete vendor' });
+  }
+});
+
+export default router;
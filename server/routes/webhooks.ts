@@ -0,0 +1,270 @@
+/**
+ * Webhook Routes
+ * Manage outbound webhook subscriptions, browse the delivery log, test-fire and replay
+ * Admin only (enforced where the router is mounted)
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { db } from '../db';
+import { webhookSubscriptions, webhookDeliveries } from '@shared/schema';
+import { and, asc, desc, eq, type SQL } from 'drizzle-orm';
+import { fromZodError } from 'zod-validation-error';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import {
+  WEBHOOK_EVENTS, generateWebhookSecret, sendTestWebhook, replayWebhookDelivery
+} from '../services/webhookService';
+import { logger } from '../services/logger';
+
+const router = Router();
+
+interface AuthUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+const subscriptionSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  url: z.string().url('URL must be a valid address').refine(
+    url => url.startsWith('https://') || url.startsWith('http://'),
+    'URL must use http or https'
+  ),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Select at least one event'),
+  isActive: z.boolean().optional(),
+});
+
+const subscriptionUpdateSchema = subscriptionSchema.partial().extend({
+  regenerateSecret: z.boolean().optional(),
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+async function logConfigChange(userId: number, details: Record<string, unknown>) {
+  await logActivity({
+    userId,
+    action: AuditAction.CONFIG_CHANGE,
+    entityType: EntityType.SYSTEM_CONFIG,
+    details: { section: 'webhooks', ...details }
+  });
+}
+
+function logFailure(message: string, user: AuthUser | undefined, metadata: Record<string, unknown>, error: unknown) {
+  logger.error('webhooks', message, {
+    userId: user?.id,
+    metadata,
+    error: error instanceof Error ? error : new Error(String(error))
+  });
+}
+
+// ==========================================
+// SUBSCRIPTIONS
+// ==========================================
+
+/**
+ * GET /api/webhooks/events
+ * Event types a subscription can listen to
+ */
+router.get('/events', (req, res) => {
+  res.json(WEBHOOK_EVENTS);
+});
+
+/**
+ * GET /api/webhooks
+ * List all subscriptions
+ */
+router.get('/', async (req, res) => {
+  try {
+    const subscriptions = await db.select().from(webhookSubscriptions).orderBy(asc(webhookSubscriptions.name));
+    res.json(subscriptions);
+  } catch (error) {
+    logFailure('Failed to list webhook subscriptions', req.user as AuthUser, {}, error);
+    res.status(500).json({ message: 'Failed to fetch webhooks' });
+  }
+});
+
+/**
+ * POST /api/webhooks
+ * Create a subscription; the signing secret is generated by the server
+ */
+router.post('/', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const parsed = subscriptionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const [subscription] = await db.insert(webhookSubscriptions).values({
+      ...parsed.data,
+      secret: generateWebhookSecret(),
+      createdById: user.id,
+    }).returning();
+
+    await logConfigChange(user.id, { action: 'webhook_created', webhookId: subscription.id, name: subscription.name, events: subscription.events });
+
+    res.status(201).json(subscription);
+  } catch (error) {
+    logFailure('Failed to create webhook subscription', user, { name: req.body?.name }, error);
+    res.status(500).json({ message: 'Failed to create webhook' });
+  }
+});
+
+/**
+ * PUT /api/webhooks/:id
+ * Update a subscription; { regenerateSecret: true } issues a new signing secret
+ */
+router.put('/:id', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid webhook ID' });
+    }
+
+    const parsed = subscriptionUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    const { regenerateSecret, ...changes } = parsed.data;
+
+    const [subscription] = await db.update(webhookSubscriptions)
+      .set({
+        ...changes,
+        ...(regenerateSecret ? { secret: generateWebhookSecret() } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+
+    if (!subscription) {
+      return res.status(404).json({ message: 'Webhook not found' });
+    }
+
+    await logConfigChange(user.id, { action: 'webhook_updated', webhookId: id, changes, secretRegenerated: !!regenerateSecret });
+
+    res.json(subscription);
+  } catch (error) {
+    logFailure('Failed to update webhook subscription', user, { webhookId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to update webhook' });
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ * Remove a subscription and its delivery log
+ */
+router.delete('/:id', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid webhook ID' });
+    }
+
+    const [deleted] = await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id)).returning();
+    if (!deleted) {
+      return res.status(404).json({ message: 'Webhook not found' });
+    }
+
+    await logConfigChange(user.id, { action: 'webhook_deleted', webhookId: id, name: deleted.name });
+
+    res.json({ success: true });
+  } catch (error) {
+    logFailure('Failed to delete webhook subscription', user, { webhookId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to delete webhook' });
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/test
+ * Send a webhook.test payload and return the delivery result
+ */
+router.post('/:id/test', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid webhook ID' });
+    }
+
+    const [subscription] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    if (!subscription) {
+      return res.status(404).json({ message: 'Webhook not found' });
+    }
+
+    res.json(await sendTestWebhook(subscription, user.username));
+  } catch (error) {
+    logFailure('Failed to send test webhook', user, { webhookId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to send test webhook' });
+  }
+});
+
+// ==========================================
+// DELIVERY LOG
+// ==========================================
+
+/**
+ * GET /api/webhooks/deliveries
+ * Most recent deliveries
+ * Query params: subscriptionId, status (pending | success | failed), limit (default 50, max 200)
+ */
+router.get('/deliveries', async (req, res) => {
+  try {
+    const conditions: SQL[] = [];
+    const subscriptionId = parseId(req.query.subscriptionId as string);
+    if (subscriptionId) {
+      conditions.push(eq(webhookDeliveries.subscriptionId, subscriptionId));
+    }
+    if (typeof req.query.status === 'string' && req.query.status) {
+      conditions.push(eq(webhookDeliveries.status, req.query.status));
+    }
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const deliveries = await db.select().from(webhookDeliveries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+
+    res.json(deliveries);
+  } catch (error) {
+    logFailure('Failed to list webhook deliveries', req.user as AuthUser, {}, error);
+    res.status(500).json({ message: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+/**
+ * POST /api/webhooks/deliveries/:id/replay
+ * Send a logged payload again as a new delivery
+ */
+router.post('/deliveries/:id/replay', async (req, res) => {
+  const user = req.user as AuthUser;
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid delivery ID' });
+    }
+
+    const [row] = await db.select({ delivery: webhookDeliveries, subscription: webhookSubscriptions })
+      .from(webhookDeliveries)
+      .innerJoin(webhookSubscriptions, eq(webhookDeliveries.subscriptionId, webhookSubscriptions.id))
+      .where(eq(webhookDeliveries.id, id));
+    if (!row) {
+      return res.status(404).json({ message: 'Delivery not found' });
+    }
+
+    const replay = await replayWebhookDelivery(row.delivery, row.subscription);
+
+    await logConfigChange(user.id, { action: 'webhook_replayed', webhookId: row.subscription.id, deliveryId: id, replayId: replay.id });
+
+    res.json(replay);
+  } catch (error) {
+    logFailure('Failed to replay webhook delivery', user, { deliveryId: req.params.id }, error);
+    res.status(500).json({ message: 'Failed to replay delivery' });
+  }
+});
+
+export default router;
@@ -0,0 +1,172 @@
+/**
+ * API Token Service
+ * Personal access tokens so scripts and integrations can call the API without a session cookie
+ * - Sent as "Authorization: Bearer sit_..." and accepted by authenticateUser
+ * - Only the SHA-256 hash is stored; the plain token is shown once when it is created
+ * - Scopes are PERMISSIONS from shared/roles.config.ts; a token never grants more than its owner's role
+ */
+
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { db } from '../db';
+import { apiTokens, type ApiToken } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { PERMISSIONS, getRolePermissions, type Permission } from '@shared/roles.config';
+import { storage } from '../storage';
+import { logger } from './logger';
+
+export const API_TOKEN_PREFIX = 'sit_';
+
+export const API_TOKEN_SCOPES = Object.values(PERMISSIONS);
+
+// last_used_at is only written when older than this, to keep busy scripts from writing on every call
+const LAST_USED_UPDATE_INTERVAL = 60 * 1000;
+
+export interface ApiTokenContext {
+  id: number;
+  scopes: string[];
+}
+
+export interface ApiTokenRequest extends Request {
+  apiToken?: ApiTokenContext;
+}
+
+/**
+ * Token-facing fields; the hash is never sent to the client
+ */
+export function toApiTokenResponse(token: ApiToken) {
+  const { tokenHash: _, ...rest } = token;
+  return rest;
+}
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * New random token with the values to store for it
+ */
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, 12),
+  };
+}
+
+/**
+ * Scopes a user may put on a token: the permissions of their role
+ */
+export function getGrantableScopes(role: string): string[] {
+  return [...getRolePermissions(role)];
+}
+
+/**
+ * Bearer token from the Authorization header, if it looks like an API token
+ */
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  const token = header.slice('Bearer '.length).trim();
+  return token.startsWith(API_TOKEN_PREFIX) ? token : null;
+}
+
+// Resources reachable with a token, by the first path segment after /api (or /api/v1)
+// read applies to GET/HEAD, write to everything else; null means any valid token
+const SCOPE_RULES: Record<string, { read: Permission | null; write: Permission | null }> = {
+  'me': { read: null, write: null },
+  'assets': { read: PERMISSIONS.VIEW_ASSETS, write: PERMISSIONS.MANAGE_ASSETS },
+  'asset-transactions': { read: PERMISSIONS.VIEW_ASSETS, write: PERMISSIONS.ASSIGN_ASSETS },
+  'employees': { read: PERMISSIONS.VIEW_EMPLOYEES, write: PERMISSIONS.MANAGE_EMPLOYEES },
+  'tickets': { read: PERMISSIONS.VIEW_TICKETS, write: PERMISSIONS.MANAGE_TICKETS },
+  'categories': { read: PERMISSIONS.VIEW_TICKETS, write: PERMISSIONS.SYSTEM_CONFIG },
+  'maintenance': { read: PERMISSIONS.VIEW_MAINTENANCE, write: PERMISSIONS.SCHEDULE_MAINTENANCE },
+  'users': { read: PERMISSIONS.VIEW_USERS, write: PERMISSIONS.MANAGE_USERS },
+  'reports': { read: PERMISSIONS.VIEW_REPORTS, write: PERMISSIONS.VIEW_REPORTS },
+  'export': { read: PERMISSIONS.EXPORT_DATA, write: PERMISSIONS.EXPORT_DATA },
+  'audit-logs': { read: PERMISSIONS.VIEW_AUDIT_LOGS, write: PERMISSIONS.VIEW_AUDIT_LOGS },
+};
+
+/**
+ * Scope a token needs for a request
+ * Returns undefined for endpoints tokens cannot use (token management, admin, auth flows)
+ */
+export function getRequiredScope(method: string, path: string): Permission | null | undefined {
+  const segments = path.split('/').filter(Boolean);
+  if (segments[0] !== 'api') return undefined;
+  const resource = segments[1] === 'v1' ? segments[2] : segments[1];
+  const rule = resource ? SCOPE_RULES[resource] : undefined;
+  if (!rule) return undefined;
+
+  // Check-out/check-in and ticket assignment have their own permissions
+  if (resource === 'assets' && segments.some(s => s === 'check-out' || s === 'check-in')) {
+    return PERMISSIONS.ASSIGN_ASSETS;
+  }
+  if (resource === 'tickets' && segments[segments.length - 1] === 'assign') {
+    return PERMISSIONS.ASSIGN_TICKETS;
+  }
+
+  return method === 'GET' || method === 'HEAD' ? rule.read : rule.write;
+}
+
+/**
+ * Look up an active, unexpired token and its owner
+ * Returns null when the token is unknown, revoked, expired or the owner is inactive
+ */
+export async function resolveApiToken(token: string, ipAddress?: string) {
+  const [apiToken] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, hashApiToken(token)));
+  if (!apiToken || apiToken.revokedAt) return null;
+  if (apiToken.expiresAt && apiToken.expiresAt <= new Date()) return null;
+
+  const user = await storage.getUser(apiToken.userId);
+  if (!user || !user.isActive) return null;
+
+  if (!apiToken.lastUsedAt || Date.now() - apiToken.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL) {
+    await db.update(apiTokens)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ipAddress?.slice(0, 45) ?? null })
+      .where(eq(apiTokens.id, apiToken.id));
+  }
+
+  const { password: _, ...userWithoutPassword } = user;
+  return { apiToken, user: userWithoutPassword };
+}
+
+/**
+ * Authenticate a request carrying a bearer API token and enforce its scopes
+ * Used by authenticateUser; the token's user becomes req.user for the rest of the request
+ */
+export async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const tokenRequest = req as ApiTokenRequest;
+
+  // Already resolved by an earlier authenticateUser in the same chain
+  if (tokenRequest.apiToken) return next();
+
+  try {
+    const resolved = await resolveApiToken(getBearerToken(req)!, req.ip);
+    if (!resolved) {
+      return res.status(401).json({ message: 'Invalid or expired API token' });
+    }
+
+    const path = req.originalUrl.split('?')[0];
+    const requiredScope = getRequiredScope(req.method, path);
+    if (requiredScope === undefined) {
+      return res.status(403).json({ message: 'This endpoint is not available to API tokens' });
+    }
+
+    const scopes = (resolved.apiToken.scopes as string[]) || [];
+    if (requiredScope && (!scopes.includes(requiredScope) || !getRolePermissions(resolved.user.role).includes(requiredScope))) {
+      return res.status(403).json({ message: `API token is missing the "${requiredScope}" scope` });
+    }
+
+    req.user = resolved.user;
+    tokenRequest.apiToken = { id: resolved.apiToken.id, scopes };
+    next();
+  } catch (error) {
+    logger.error('api-tokens', 'API token authentication failed', {
+      metadata: { path: req.originalUrl },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    res.status(500).json({ message: 'Authentication failed' });
+  }
+}
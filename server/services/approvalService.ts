@@ -0,0 +1,830 @@
+/**
+ * Approval Service
+ * Configurable multi-step approval chains for upgrade requests, purchase orders and service requests
+ * - One chain per request type; with no active chain the request type keeps its built-in approval
+ *   (service requests fall back to a single direct manager step)
+ * - Each step is decided by the direct manager (employees.directManager), anyone holding a role
+ *   or a higher one, or a named user; steps with a minimum amount only apply from that amount up
+ * - Approvers can delegate to someone else for a period; the delegate decides on their behalf
+ * - Approvers are notified in-app and by email with a single-use link to approve or reject
+ * - Subjects register a handler (registerApprovalSubject) that applies the final outcome
+ */
+
+import crypto from 'crypto';
+import { db } from '../db';
+import {
+  approvalChains, approvalChainSteps, approvalRequests, approvalRequestSteps, approvalDelegations,
+  approvalActionTokens, employees, users,
+  type ApprovalChain, type ApprovalChainStep, type ApprovalRequest, type ApprovalRequestStep, type ApprovalDelegation
+} from '@shared/schema';
+import { and, asc, desc, eq, gt, gte, inArray, isNull, lte, ne, type SQL } from 'drizzle-orm';
+import { getRoleLevel } from '@shared/roles.config';
+import { emailService } from '../emailService';
+import { enqueueEmail } from './emailQueueService';
+import * as notificationService from './notificationService';
+import { getRecipientLanguage, renderNotification, type NotificationLanguage } from './notificationTemplateService';
+import { logger } from './logger';
+
+export const APPROVAL_REQUEST_TYPES = ['upgrade', 'purchase_order', 'service_request'] as const;
+export type ApprovalRequestType = typeof APPROVAL_REQUEST_TYPES[number];
+
+export const APPROVER_TYPES = ['direct_manager', 'role', 'user'] as const;
+export type ApproverType = typeof APPROVER_TYPES[number];
+
+// Roles a role step can name; holders of any higher role can decide too
+export const APPROVER_ROLES = ['agent', 'manager', 'admin', 'super_admin'] as const;
+
+export const APPROVAL_CHANNELS = ['app', 'notification', 'email'] as const;
+export type ApprovalChannel = typeof APPROVAL_CHANNELS[number];
+
+// Decides a direct manager step when the manager can't be found or raised the request themselves
+const DIRECT_MANAGER_FALLBACK_ROLE = 'manager';
+// Decides a user step whose user was removed or deactivated
+const USER_FALLBACK_ROLE = 'admin';
+const LINK_TOKEN_TTL_DAYS = 7;
+
+const REQUEST_TYPE_LABELS: Record<ApprovalRequestType, Record<NotificationLanguage, string>> = {
+  upgrade: { English: 'Upgrade request', Arabic: 'طلب ترقية' },
+  purchase_order: { English: 'Purchase order', Arabic: 'أمر شراء' },
+  service_request: { English: 'Service request', Arabic: 'طلب خدمة' },
+};
+
+// Client pages where the subject of a request is shown
+const SUBJECT_PATHS: Record<ApprovalRequestType, string> = {
+  upgrade: '/admin-console/upgrade-requests',
+  purchase_order: '/purchase-orders',
+  service_request: '/service-catalog',
+};
+
+export class ApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface ApprovalOutcome {
+  approved: boolean;
+  decidedBy: { id: number; username: string };
+  notes: string | null;
+}
+
+export interface ApprovalSubjectHandler {
+  // Applies the final outcome to the subject inside the deciding transaction
+  complete: (tx: Transaction, subjectId: number, outcome: ApprovalOutcome) => Promise<void>;
+  // Notifications and webhooks once the outcome is committed
+  afterComplete?: (subjectId: number, outcome: ApprovalOutcome) => Promise<void>;
+}
+
+const subjectHandlers = new Map<ApprovalRequestType, ApprovalSubjectHandler>();
+
+/**
+ * Called by the upgrade, purchase order and service catalog services when they load
+ */
+export function registerApprovalSubject(type: ApprovalRequestType, handler: ApprovalSubjectHandler): void {
+  subjectHandlers.set(type, handler);
+}
+
+function getSubjectHandler(type: string): ApprovalSubjectHandler {
+  const handler = subjectHandlers.get(type as ApprovalRequestType);
+  if (!handler) {
+    throw new Error(`No approval handler registered for ${type}`);
+  }
+  return handler;
+}
+
+export function isApprovalRequestType(value: unknown): value is ApprovalRequestType {
+  return typeof value === 'string' && (APPROVAL_REQUEST_TYPES as readonly string[]).includes(value);
+}
+
+export interface ApprovalChainStepInput {
+  name: string;
+  approverType: ApproverType;
+  approverRole: string | null;
+  approverUserId: number | null;
+  minAmount: string | null;
+}
+
+export interface ApprovalChainInput {
+  requestType: ApprovalRequestType;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  steps: ApprovalChainStepInput[];
+}
+
+export interface ApprovalChainDetails extends ApprovalChain {
+  steps: Array<ApprovalChainStep & { approverUserName: string | null }>;
+}
+
+export interface StartApprovalInput {
+  requestType: ApprovalRequestType;
+  subjectId: number;
+  title: string;
+  amount: string | null;
+  requestedById: number;
+  // Whose direct manager decides direct manager steps
+  employeeId: number | null;
+  // Steps to run when the request type has no active chain; without them no approval is needed
+  defaultSteps?: ApprovalChainStepInput[];
+}
+
+export interface ApprovalStepDetails extends ApprovalRequestStep {
+  approverUserName: string | null;
+  decidedByName: string | null;
+  onBehalfOfName: string | null;
+}
+
+export interface ApprovalRequestDetails extends ApprovalRequest {
+  requestedByName: string | null;
+  path: string;
+  steps: ApprovalStepDetails[];
+  // Whether the viewer can decide the current step, and for whom when delegated
+  canAct: boolean;
+  actingForName: string | null;
+}
+
+export interface ApprovalDelegationDetails extends ApprovalDelegation {
+  delegatorName: string | null;
+  delegateName: string | null;
+}
+
+interface ActiveUser {
+  id: number;
+  username: string;
+  role: string;
+}
+
+type Executor = typeof db | Transaction;
+
+async function getUserNames(ids: Array<number | null>): Promise<Map<number, string>> {
+  const unique = Array.from(new Set(ids.filter((id): id is number => id !== null)));
+  if (unique.length === 0) return new Map();
+  const rows = await db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, unique));
+  return new Map(rows.map(row => [row.id, row.username]));
+}
+
+async function getActiveUsers(executor: Executor = db): Promise<ActiveUser[]> {
+  return executor.select({ id: users.id, username: users.username, role: users.role })
+    .from(users)
+    .where(eq(users.isActive, true));
+}
+
+/**
+ * Users who can decide a step themselves (delegates come on top of these)
+ */
+function getEligibleApprovers(step: Pick<ApprovalRequestStep, 'approverUserId' | 'approverRole'>, activeUsers: ActiveUser[]): number[] {
+  if (step.approverUserId) {
+    return activeUsers.some(user => user.id === step.approverUserId) ? [step.approverUserId] : [];
+  }
+  if (!step.approverRole) return [];
+  const required = getRoleLevel(step.approverRole);
+  return activeUsers.filter(user => getRoleLevel(user.role) >= required).map(user => user.id);
+}
+
+/**
+ * Delegations in effect right now, optionally only those handed to one user
+ */
+async function getActiveDelegations(executor: Executor = db, delegateId?: number): Promise<ApprovalDelegation[]> {
+  const now = new Date();
+  const conditions: SQL[] = [lte(approvalDelegations.startsAt, now), gte(approvalDelegations.endsAt, now)];
+  if (delegateId !== undefined) conditions.push(eq(approvalDelegations.delegateId, delegateId));
+  return executor.select().from(approvalDelegations).where(and(...conditions));
+}
+
+/**
+ * Whether a user can decide a step: directly (onBehalfOfId null) or as a delegate; null if not at all
+ */
+function getActingCapacity(
+  step: Pick<ApprovalRequestStep, 'approverUserId' | 'approverRole'>,
+  userId: number,
+  activeUsers: ActiveUser[],
+  delegations: ApprovalDelegation[]
+): { onBehalfOfId: number | null } | null {
+  const eligible = getEligibleApprovers(step, activeUsers);
+  if (eligible.includes(userId)) return { onBehalfOfId: null };
+  const delegation = delegations.find(entry => entry.delegateId === userId && eligible.includes(entry.delegatorId));
+  return delegation ? { onBehalfOfId: delegation.delegatorId } : null;
+}
+
+// ============================================================================
+// Chains
+// ============================================================================
+
+/**
+ * All chains with their steps in order
+ */
+export async function getApprovalChains(): Promise<ApprovalChainDetails[]> {
+  const chains = await db.select().from(approvalChains).orderBy(asc(approvalChains.requestType));
+  if (chains.length === 0) return [];
+
+  const steps = await db.select().from(approvalChainSteps)
+    .where(inArray(approvalChainSteps.chainId, chains.map(chain => chain.id)))
+    .orderBy(asc(approvalChainSteps.stepOrder));
+  const names = await getUserNames(steps.map(step => step.approverUserId));
+
+  return chains.map(chain => ({
+    ...chain,
+    steps: steps
+      .filter(step => step.chainId === chain.id)
+      .map(step => ({ ...step, approverUserName: step.approverUserId ? names.get(step.approverUserId) ?? null : null })),
+  }));
+}
+
+async function validateChainInput(input: ApprovalChainInput): Promise<void> {
+  if (input.steps.length === 0) {
+    throw new ApprovalError('An approval chain needs at least one step');
+  }
+  for (const step of input.steps) {
+    if (step.approverType === 'role' && !(APPROVER_ROLES as readonly string[]).includes(step.approverRole ?? '')) {
+      throw new ApprovalError(`Choose the role that decides "${step.name}"`);
+    }
+    if (step.approverType === 'user') {
+      if (!step.approverUserId) {
+        throw new ApprovalError(`Choose the user who decides "${step.name}"`);
+      }
+      const [user] = await db.select({ isActive: users.isActive }).from(users).where(eq(users.id, step.approverUserId));
+      if (!user?.isActive) {
+        throw new ApprovalError(`The approver for "${step.name}" is not an active user`);
+      }
+    }
+  }
+}
+
+function toChainStepValues(chainId: number, steps: ApprovalChainStepInput[]) {
+  return steps.map((step, index) => ({
+    chainId,
+    stepOrder: index + 1,
+    name: step.name,
+    approverType: step.approverType,
+    approverRole: step.approverType === 'role' ? step.approverRole : null,
+    approverUserId: step.approverType === 'user' ? step.approverUserId : null,
+    minAmount: step.minAmount,
+  }));
+}
+
+export async function createApprovalChain(input: ApprovalChainInput): Promise<ApprovalChain> {
+  await validateChainInput(input);
+  const [existing] = await db.select({ id: approvalChains.id })
+    .from(approvalChains)
+    .where(eq(approvalChains.requestType, input.requestType));
+  if (existing) {
+    throw new ApprovalError('This request type already has an approval chain');
+  }
+
+  return db.transaction(async (tx) => {
+    const [chain] = await tx.insert(approvalChains).values({
+      requestType: input.requestType,
+      name: input.name,
+      description: input.description,
+      isActive: input.isActive,
+    }).returning();
+    await tx.insert(approvalChainSteps).values(toChainStepValues(chain.id, input.steps));
+    return chain;
+  });
+}
+
+/**
+ * Replace a chain's details and steps; requests already started keep the steps they were given
+ */
+export async function updateApprovalChain(id: number, input: Omit<ApprovalChainInput, 'requestType'>): Promise<ApprovalChain> {
+  const [existing] = await db.select().from(approvalChains).where(eq(approvalChains.id, id));
+  if (!existing) {
+    throw new ApprovalError('Approval chain not found');
+  }
+  await validateChainInput({ ...input, requestType: existing.requestType as ApprovalRequestType });
+
+  return db.transaction(async (tx) => {
+    await tx.delete(approvalChainSteps).where(eq(approvalChainSteps.chainId, id));
+    await tx.insert(approvalChainSteps).values(toChainStepValues(id, input.steps));
+    const [chain] = await tx.update(approvalChains)
+      .set({ name: input.name, description: input.description, isActive: input.isActive, updatedAt: new Date() })
+      .where(eq(approvalChains.id, id))
+      .returning();
+    return chain;
+  });
+}
+
+export async function deleteApprovalChain(id: number): Promise<ApprovalChain | undefined> {
+  const [pending] = await db.select({ id: approvalRequests.id })
+    .from(approvalRequests)
+    .where(and(eq(approvalRequests.chainId, id), eq(approvalRequests.status, 'pending')))
+    .limit(1);
+  if (pending) {
+    throw new ApprovalError('Requests are still going through this chain; deactivate it instead');
+  }
+  const [deleted] = await db.delete(approvalChains).where(eq(approvalChains.id, id)).returning();
+  return deleted;
+}
+
+/**
+ * Whether requests of this type currently go through a chain
+ */
+export async function hasActiveChain(requestType: ApprovalRequestType, executor: Executor = db): Promise<boolean> {
+  const [chain] = await executor.select({ id: approvalChains.id })
+    .from(approvalChains)
+    .where(and(eq(approvalChains.requestType, requestType), eq(approvalChains.isActive, true)));
+  return Boolean(chain);
+}
+
+// ============================================================================
+// Running a chain
+// ============================================================================
+
+/**
+ * Employee record linked to a user account (upgrade approvers and direct managers are employees)
+ */
+export async function getLinkedEmployeeId(userId: number, executor: Executor = db): Promise<number | null> {
+  const [employee] = await executor.select({ id: employees.id }).from(employees).where(eq(employees.userId, userId));
+  return employee?.id ?? null;
+}
+
+/**
+ * User account of an employee's direct manager, if there is an active one
+ */
+async function resolveDirectManager(executor: Executor, employeeId: number | null): Promise<number | null> {
+  if (!employeeId) return null;
+  const [employee] = await executor.select({ directManager: employees.directManager })
+    .from(employees)
+    .where(eq(employees.id, employeeId));
+  if (!employee?.directManager) return null;
+
+  const [manager] = await executor.select({ userId: users.id })
+    .from(employees)
+    .innerJoin(users, eq(users.id, employees.userId))
+    .where(and(eq(employees.id, employee.directManager), eq(users.isActive, true)));
+  return manager?.userId ?? null;
+}
+
+/**
+ * Start the active chain for a request inside the caller's transaction
+ * Returns null when the request type has no active chain and no default steps were given; the request comes back already
+ * approved when none of the steps apply (e.g. every step is above the amount)
+ * Call notifyCurrentStep once the transaction commits
+ */
+export async function startApproval(tx: Transaction, input: StartApprovalInput): Promise<ApprovalRequest | null> {
+  const [chain] = await tx.select().from(approvalChains)
+    .where(and(eq(approvalChains.requestType, input.requestType), eq(approvalChains.isActive, true)));
+  if (!chain && !input.defaultSteps?.length) return null;
+
+  await cancelApproval(tx, input.requestType, input.subjectId);
+
+  const chainSteps = chain
+    ? await tx.select().from(approvalChainSteps)
+      .where(eq(approvalChainSteps.chainId, chain.id))
+      .orderBy(asc(approvalChainSteps.stepOrder))
+    : (input.defaultSteps ?? []).map((step, index) => ({ ...step, stepOrder: index + 1 }));
+  const activeUsers = await getActiveUsers(tx);
+  const amount = input.amount !== null ? Number(input.amount) : null;
+
+  const steps = [];
+  for (const step of chainSteps) {
+    const applies = step.minAmount === null || (amount !== null && amount >= Number(step.minAmount));
+    let approverUserId: number | null = null;
+    let approverRole: string | null = step.approverRole;
+
+    if (step.approverType === 'direct_manager') {
+      approverUserId = await resolveDirectManager(tx, input.employeeId);
+      if (!approverUserId || approverUserId === input.requestedById) {
+        approverUserId = null;
+        approverRole = DIRECT_MANAGER_FALLBACK_ROLE;
+      }
+    } else if (step.approverType === 'user') {
+      approverUserId = step.approverUserId && activeUsers.some(user => user.id === step.approverUserId)
+        ? step.approverUserId
+        : null;
+      if (!approverUserId) approverRole = USER_FALLBACK_ROLE;
+    }
+
+    steps.push({
+      stepOrder: step.stepOrder,
+      name: step.name,
+      approverType: step.approverType,
+      approverRole: approverUserId ? null : approverRole,
+      approverUserId,
+      status: applies ? 'waiting' : 'skipped',
+    });
+  }
+
+  const first = steps.find(step => step.status === 'waiting');
+  if (first) first.status = 'pending';
+
+  const [request] = await tx.insert(approvalRequests).values({
+    chainId: chain?.id ?? null,
+    requestType: input.requestType,
+    subjectId: input.subjectId,
+    title: input.title.slice(0, 255),
+    amount: input.amount,
+    status: first ? 'pending' : 'approved',
+    employeeId: input.employeeId,
+    requestedById: input.requestedById,
+    completedAt: first ? null : new Date(),
+  }).returning();
+
+  if (steps.length > 0) {
+    await tx.insert(approvalRequestSteps).values(steps.map(step => ({ ...step, approvalRequestId: request.id })));
+  }
+  return request;
+}
+
+/**
+ * Withdraw the pending request for a subject (cancelled, edited or approved outside the chain)
+ */
+export async function cancelApproval(tx: Transaction, requestType: ApprovalRequestType, subjectId: number): Promise<void> {
+  const pending = await tx.select({ id: approvalRequests.id })
+    .from(approvalRequests)
+    .where(and(
+      eq(approvalRequests.requestType, requestType),
+      eq(approvalRequests.subjectId, subjectId),
+      eq(approvalRequests.status, 'pending')
+    ));
+  if (pending.length === 0) return;
+
+  const ids = pending.map(request => request.id);
+  await tx.update(approvalRequestSteps)
+    .set({ status: 'cancelled' })
+    .where(and(inArray(approvalRequestSteps.approvalRequestId, ids), inArray(approvalRequestSteps.status, ['pending', 'waiting'])));
+  await tx.update(approvalRequests)
+    .set({ status: 'cancelled', completedAt: new Date() })
+    .where(inArray(approvalRequests.id, ids));
+}
+
+/**
+ * The request a subject is currently waiting on, if any
+ */
+export async function getPendingApproval(
+  requestType: ApprovalRequestType,
+  subjectId: number,
+  executor: Executor = db
+): Promise<ApprovalRequest | undefined> {
+  const [request] = await executor.select().from(approvalRequests)
+    .where(and(
+      eq(approvalRequests.requestType, requestType),
+      eq(approvalRequests.subjectId, subjectId),
+      eq(approvalRequests.status, 'pending')
+    ));
+  return request;
+}
+
+function hashLinkToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Notify whoever can decide the request's current step, and their delegates, in-app and by email
+ * Failures are logged; the request itself is already stored
+ */
+export async function notifyCurrentStep(approvalRequestId: number): Promise<void> {
+  try {
+    const [request] = await db.select().from(approvalRequests).where(eq(approvalRequests.id, approvalRequestId));
+    if (!request || request.status !== 'pending') return;
+    const [step] = await db.select().from(approvalRequestSteps)
+      .where(and(eq(approvalRequestSteps.approvalRequestId, request.id), eq(approvalRequestSteps.status, 'pending')));
+    if (!step) return;
+
+    const activeUsers = await getActiveUsers();
+    const approvers = getEligibleApprovers(step, activeUsers);
+    const delegations = await getActiveDelegations();
+    const names = new Map(activeUsers.map(user => [user.id, user.username]));
+
+    // Recipient -> approver they stand in for (null when deciding for themselves)
+    const recipients = new Map<number, number | null>(approvers.map(id => [id, null]));
+    for (const delegation of delegations) {
+      if (approvers.includes(delegation.delegatorId) && !recipients.has(delegation.delegateId)
+        && names.has(delegation.delegateId)) {
+        recipients.set(delegation.delegateId, delegation.delegatorId);
+      }
+    }
+    recipients.delete(request.requestedById ?? 0);
+
+    const appUrl = process.env.APP_URL || 'http://localhost:5000';
+    const expiresAt = new Date(Date.now() + LINK_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    for (const [userId, onBehalfOfId] of Array.from(recipients.entries())) {
+      const language = await getRecipientLanguage(userId);
+      const variables = {
+        requestType: REQUEST_TYPE_LABELS[request.requestType as ApprovalRequestType]?.[language] ?? request.requestType,
+        title: request.title,
+        stepName: step.name,
+        requestedBy: names.get(request.requestedById ?? 0) ?? '',
+        amount: request.amount ?? '',
+        onBehalfOf: onBehalfOfId ? names.get(onBehalfOfId) ?? '' : '',
+      };
+
+      // The approval email below carries the approve/reject links, so no notification email on top
+      await notificationService.notifyApprovalStep({ userId, approvalRequestId: request.id, variables, skipEmail: true });
+
+      const [recipient] = await db.select({ email: users.email }).from(users).where(eq(users.id, userId));
+      if (!recipient) continue;
+
+      const token = crypto.randomBytes(32).toString('hex');
+      await db.insert(approvalActionTokens).values({
+        stepId: step.id,
+        userId,
+        tokenHash: hashLinkToken(token),
+        expiresAt,
+      });
+      const { title, message } = await renderNotification('approval.step_required', userId, variables);
+      const email = emailService.renderApprovalEmail({
+        title,
+        message,
+        link: `${appUrl}/approval-response?token=${token}`,
+        language,
+      });
+      await enqueueEmail({ userId, to: recipient.email, ...email });
+    }
+  } catch (error) {
+    logger.error('approvals', 'Failed to notify approvers', {
+      metadata: { approvalRequestId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  }
+}
+
+/**
+ * Approve or reject the current step of a request
+ * A rejection ends the request; approving the last applicable step approves it
+ */
+export async function decideApproval(
+  approvalRequestId: number,
+  actor: { id: number; username: string },
+  decision: { approved: boolean; comments: string | null; via: ApprovalChannel }
+): Promise<ApprovalRequest> {
+  if (!decision.approved && !decision.comments) {
+    throw new ApprovalError('A reason is required to reject a request');
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const [request] = await tx.select().from(approvalRequests)
+      .where(eq(approvalRequests.id, approvalRequestId))
+      .for('update');
+    if (!request) {
+      throw new ApprovalError('Approval request not found');
+    }
+    if (request.status !== 'pending') {
+      throw new ApprovalError('This request has already been decided');
+    }
+    if (request.requestedById === actor.id) {
+      throw new ApprovalError('You cannot decide your own request');
+    }
+
+    const steps = await tx.select().from(approvalRequestSteps)
+      .where(eq(approvalRequestSteps.approvalRequestId, request.id))
+      .orderBy(asc(approvalRequestSteps.stepOrder));
+    const current = steps.find(step => step.status === 'pending');
+    if (!current) {
+      throw new ApprovalError('This request has no step waiting for a decision');
+    }
+
+    const capacity = getActingCapacity(current, actor.id, await getActiveUsers(tx), await getActiveDelegations(tx, actor.id));
+    if (!capacity) {
+      throw new ApprovalError('You are not an approver for this step');
+    }
+
+    const now = new Date();
+    await tx.update(approvalRequestSteps)
+      .set({
+        status: decision.approved ? 'approved' : 'rejected',
+        decidedById: actor.id,
+        onBehalfOfId: capacity.onBehalfOfId,
+        decidedVia: decision.via,
+        decidedAt: now,
+        comments: decision.comments,
+      })
+      .where(eq(approvalRequestSteps.id, current.id));
+    await tx.update(approvalActionTokens)
+      .set({ usedAt: now })
+      .where(and(eq(approvalActionTokens.stepId, current.id), isNull(approvalActionTokens.usedAt)));
+
+    const next = decision.approved
+      ? steps.find(step => step.stepOrder > current.stepOrder && step.status === 'waiting')
+      : undefined;
+    if (next) {
+      await tx.update(approvalRequestSteps).set({ status: 'pending' }).where(eq(approvalRequestSteps.id, next.id));
+      return { request, finished: false };
+    }
+
+    if (!decision.approved) {
+      await tx.update(approvalRequestSteps)
+        .set({ status: 'cancelled' })
+        .where(and(eq(approvalRequestSteps.approvalRequestId, request.id), eq(approvalRequestSteps.status, 'waiting')));
+    }
+    const [updated] = await tx.update(approvalRequests)
+      .set({ status: decision.approved ? 'approved' : 'rejected', completedAt: now })
+      .where(eq(approvalRequests.id, request.id))
+      .returning();
+
+    await getSubjectHandler(request.requestType).complete(tx, request.subjectId, {
+      approved: decision.approved,
+      decidedBy: actor,
+      notes: decision.comments,
+    });
+    return { request: updated, finished: true };
+  });
+
+  if (result.finished) {
+    const handler = getSubjectHandler(result.request.requestType);
+    try {
+      await handler.afterComplete?.(result.request.subjectId, {
+        approved: result.request.status === 'approved',
+        decidedBy: actor,
+        notes: decision.comments,
+      });
+    } catch (error) {
+      logger.error('approvals', 'Failed to run approval follow-ups', {
+        userId: actor.id,
+        metadata: { approvalRequestId },
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+    }
+  } else {
+    await notifyCurrentStep(result.request.id);
+  }
+
+  return result.request;
+}
+
+// ============================================================================
+// Inbox and trail
+// ============================================================================
+
+async function getRequestDetails(conditions: SQL[], viewerId: number, limit = 200): Promise<ApprovalRequestDetails[]> {
+  const requests = await db.select().from(approvalRequests)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(approvalRequests.createdAt))
+    .limit(limit);
+  if (requests.length === 0) return [];
+
+  const steps = await db.select().from(approvalRequestSteps)
+    .where(inArray(approvalRequestSteps.approvalRequestId, requests.map(request => request.id)))
+    .orderBy(asc(approvalRequestSteps.stepOrder));
+  const names = await getUserNames([
+    ...requests.map(request => request.requestedById),
+    ...steps.flatMap(step => [step.approverUserId, step.decidedById, step.onBehalfOfId]),
+  ]);
+  const activeUsers = await getActiveUsers();
+  const delegations = await getActiveDelegations(db, viewerId);
+  const nameOf = (id: number | null) => id ? names.get(id) ?? null : null;
+
+  return requests.map(request => {
+    const requestSteps = steps.filter(step => step.approvalRequestId === request.id);
+    const current = request.status === 'pending' ? requestSteps.find(step => step.status === 'pending') : undefined;
+    const capacity = current && request.requestedById !== viewerId
+      ? getActingCapacity(current, viewerId, activeUsers, delegations)
+      : null;
+
+    return {
+      ...request,
+      requestedByName: nameOf(request.requestedById),
+      path: SUBJECT_PATHS[request.requestType as ApprovalRequestType] ?? '/',
+      steps: requestSteps.map(step => ({
+        ...step,
+        approverUserName: nameOf(step.approverUserId),
+        decidedByName: nameOf(step.decidedById),
+        onBehalfOfName: nameOf(step.onBehalfOfId),
+      })),
+      canAct: capacity !== null,
+      actingForName: capacity ? nameOf(capacity.onBehalfOfId) : null,
+    };
+  });
+}
+
+/**
+ * Pending requests whose current step the user can decide, directly or as a delegate
+ */
+export async function getApprovalInbox(userId: number): Promise<ApprovalRequestDetails[]> {
+  const pending = await getRequestDetails([eq(approvalRequests.status, 'pending'), ne(approvalRequests.requestedById, userId)], userId, 500);
+  return pending.filter(request => request.canAct);
+}
+
+export async function getApprovalRequests(
+  filters: { status?: string; requestType?: string },
+  viewerId: number
+): Promise<ApprovalRequestDetails[]> {
+  const conditions: SQL[] = [];
+  if (filters.status) conditions.push(eq(approvalRequests.status, filters.status));
+  if (filters.requestType) conditions.push(eq(approvalRequests.requestType, filters.requestType));
+  return getRequestDetails(conditions, viewerId);
+}
+
+/**
+ * Every approval run for one upgrade or purchase order, newest first
+ */
+export async function getSubjectApprovals(
+  requestType: ApprovalRequestType,
+  subjectId: number,
+  viewerId: number
+): Promise<ApprovalRequestDetails[]> {
+  return getRequestDetails([eq(approvalRequests.requestType, requestType), eq(approvalRequests.subjectId, subjectId)], viewerId);
+}
+
+export async function getApprovalRequest(id: number, viewerId: number): Promise<ApprovalRequestDetails | undefined> {
+  const [request] = await getRequestDetails([eq(approvalRequests.id, id)], viewerId, 1);
+  return request;
+}
+
+// ============================================================================
+// Delegation
+// ============================================================================
+
+/**
+ * Delegations given or received by a user, or all of them; ended ones are left out
+ */
+export async function getDelegations(userId?: number): Promise<ApprovalDelegationDetails[]> {
+  const rows = await db.select().from(approvalDelegations)
+    .where(gt(approvalDelegations.endsAt, new Date()))
+    .orderBy(asc(approvalDelegations.startsAt));
+  const visible = userId === undefined
+    ? rows
+    : rows.filter(row => row.delegatorId === userId || row.delegateId === userId);
+  const names = await getUserNames(visible.flatMap(row => [row.delegatorId, row.delegateId]));
+
+  return visible.map(row => ({
+    ...row,
+    delegatorName: names.get(row.delegatorId) ?? null,
+    delegateName: names.get(row.delegateId) ?? null,
+  }));
+}
+
+export async function createDelegation(
+  delegatorId: number,
+  input: { delegateId: number; startsAt: Date; endsAt: Date; reason: string | null }
+): Promise<ApprovalDelegation> {
+  if (input.delegateId === delegatorId) {
+    throw new ApprovalError('You cannot delegate to yourself');
+  }
+  if (input.endsAt <= input.startsAt) {
+    throw new ApprovalError('The delegation must end after it starts');
+  }
+  const [delegate] = await db.select({ isActive: users.isActive }).from(users).where(eq(users.id, input.delegateId));
+  if (!delegate?.isActive) {
+    throw new ApprovalError('The delegate must be an active user');
+  }
+
+  const [delegation] = await db.insert(approvalDelegations).values({ delegatorId, ...input }).returning();
+  return delegation;
+}
+
+export async function deleteDelegation(id: number): Promise<ApprovalDelegation | undefined> {
+  const [deleted] = await db.delete(approvalDelegations).where(eq(approvalDelegations.id, id)).returning();
+  return deleted;
+}
+
+export async function getDelegation(id: number): Promise<ApprovalDelegation | undefined> {
+  const [delegation] = await db.select().from(approvalDelegations).where(eq(approvalDelegations.id, id));
+  return delegation;
+}
+
+// ============================================================================
+// Email links
+// ============================================================================
+
+/**
+ * The request behind an email link, for the page that asks to approve or reject
+ * Throws when the link is unknown, expired or its step was already decided
+ */
+export async function getLinkRequest(token: string): Promise<{
+  request: ApprovalRequestDetails;
+  user: { id: number; username: string };
+}> {
+  const [link] = await db.select({
+    stepId: approvalActionTokens.stepId,
+    userId: approvalActionTokens.userId,
+    username: users.username,
+    expiresAt: approvalActionTokens.expiresAt,
+    usedAt: approvalActionTokens.usedAt,
+    approvalRequestId: approvalRequestSteps.approvalRequestId,
+    stepStatus: approvalRequestSteps.status,
+  })
+    .from(approvalActionTokens)
+    .innerJoin(approvalRequestSteps, eq(approvalRequestSteps.id, approvalActionTokens.stepId))
+    .innerJoin(users, eq(users.id, approvalActionTokens.userId))
+    .where(eq(approvalActionTokens.tokenHash, hashLinkToken(token)));
+
+  if (!link || link.expiresAt < new Date()) {
+    throw new ApprovalError('This approval link is invalid or has expired');
+  }
+  if (link.usedAt || link.stepStatus !== 'pending') {
+    throw new ApprovalError('This step has already been decided');
+  }
+
+  const request = await getApprovalRequest(link.approvalRequestId, link.userId);
+  if (!request) {
+    throw new ApprovalError('Approval request not found');
+  }
+  return { request, user: { id: link.userId, username: link.username } };
+}
+
+/**
+ * Decide the step an email link was sent for, as the user it was sent to
+ */
+export async function decideByLink(token: string, approved: boolean, comments: string | null): Promise<{
+  request: ApprovalRequest;
+  user: { id: number; username: string };
+}> {
+  const { request, user } = await getLinkRequest(token);
+  const decided = await decideApproval(request.id, user, { approved, comments, via: 'email' });
+  return { request: decided, user };
+}
@@ -0,0 +1,273 @@
+/**
+ * Attachment Service
+ * Local-disk file store for ticket, comment and asset transaction attachments
+ * Files live under ATTACHMENTS_DIR with generated names; metadata lives in the attachments table
+ */
+
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
+import type { Request, Response } from 'express';
+import { db } from '../db';
+import { attachments, ticketComments, assetTransactions, type Attachment } from '@shared/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { logger } from './logger';
+
+export type AttachmentEntityType = 'ticket' | 'ticket_comment' | 'asset_transaction';
+
+export interface AttachmentTarget {
+  entityType: AttachmentEntityType;
+  entityId: number;
+  ticketId?: number | null;
+  uploadedById: number | null;
+}
+
+/**
+ * Storage location (included in backups)
+ */
+export const ATTACHMENTS_DIR = process.env.ATTACHMENTS_DIR || path.join(process.cwd(), 'uploads', 'attachments');
+
+/**
+ * Upload limits
+ */
+export const ATTACHMENT_CONFIG = {
+  // Maximum size per file (default: 10 MB)
+  maxFileSize: parseInt(process.env.ATTACHMENT_MAX_SIZE_MB || '10') * 1024 * 1024,
+
+  // Maximum files per upload request
+  maxFiles: 10,
+
+  // Documents, images and archives commonly attached to helpdesk tickets and handover forms
+  allowedMimeTypes: [
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+    'image/heic',
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/zip',
+    'application/x-zip-compressed',
+    'message/rfc822',
+  ],
+};
+
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      fs.mkdir(ATTACHMENTS_DIR, { recursive: true }).then(() => {
+        cb(null, ATTACHMENTS_DIR);
+      }).catch(error => cb(error, ATTACHMENTS_DIR));
+    },
+    filename: (req, file, cb) => {
+      // Never trust the client file name on disk
+      const extension = path.extname(file.originalname).toLowerCase().replace(/[^a-z0-9.]/g, '');
+      cb(null, `${randomUUID()}${extension}`);
+    }
+  }),
+  limits: {
+    fileSize: ATTACHMENT_CONFIG.maxFileSize,
+    files: ATTACHMENT_CONFIG.maxFiles,
+  },
+  fileFilter: (req, file, cb) => {
+    if (ATTACHMENT_CONFIG.allowedMimeTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`File type ${file.mimetype || 'unknown'} is not allowed`));
+    }
+  }
+});
+
+/**
+ * Parse the multipart "files" field and write the files to disk
+ * Multer errors are rethrown with user-facing messages
+ */
+export function receiveUploads(req: Request, res: Response): Promise<Express.Multer.File[]> {
+  return new Promise((resolve, reject) => {
+    upload.array('files', ATTACHMENT_CONFIG.maxFiles)(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        if (err.code === 'LIMIT_FILE_SIZE') {
+          return reject(new Error(`Files must be smaller than ${Math.round(ATTACHMENT_CONFIG.maxFileSize / 1024 / 1024)} MB`));
+        }
+        if (err.code === 'LIMIT_FILE_COUNT' || err.code === 'LIMIT_UNEXPECTED_FILE') {
+          return reject(new Error(`A maximum of ${ATTACHMENT_CONFIG.maxFiles} files can be uploaded at once`));
+        }
+        return reject(new Error(err.message));
+      }
+      if (err) {
+        return reject(err instanceof Error ? err : new Error(String(err)));
+      }
+      resolve((req.files as Express.Multer.File[]) || []);
+    });
+  });
+}
+
+/**
+ * Absolute path of an attachment on disk
+ */
+export function getAttachmentPath(attachment: Attachment): string {
+  return path.join(ATTACHMENTS_DIR, path.basename(attachment.fileName));
+}
+
+/**
+ * Record uploaded files against an entity
+ * Comment and asset transaction ids are also appended to the record's attachments column
+ */
+export async function saveAttachments(
+  files: Express.Multer.File[],
+  target: AttachmentTarget
+): Promise<Attachment[]> {
+  if (files.length === 0) return [];
+
+  try {
+    const saved = await db.insert(attachments).values(files.map(file => ({
+      entityType: target.entityType,
+      entityId: target.entityId,
+      ticketId: target.ticketId ?? null,
+      fileName: file.filename,
+      originalName: file.originalname,
+      mimeType: file.mimetype,
+      size: file.size,
+      uploadedById: target.uploadedById,
+    }))).returning();
+
+    for (const attachment of saved) {
+      await syncAttachmentColumn(attachment, 'add');
+    }
+
+    return saved;
+  } catch (error) {
+    await discardUploads(files);
+    throw error;
+  }
+}
+
+/**
+ * Store in-memory files (e.g. email attachments) under the same limits as uploads
+ * Files over the size limit or with a disallowed MIME type are skipped and reported
+ */
+export async function saveBufferAttachments(
+  files: { content: Buffer; originalName: string; mimeType: string }[],
+  target: AttachmentTarget
+): Promise<{ saved: Attachment[]; skipped: string[] }> {
+  const skipped: string[] = [];
+  const written: Express.Multer.File[] = [];
+
+  await fs.mkdir(ATTACHMENTS_DIR, { recursive: true });
+
+  for (const file of files.slice(0, ATTACHMENT_CONFIG.maxFiles)) {
+    if (!ATTACHMENT_CONFIG.allowedMimeTypes.includes(file.mimeType) || file.content.length > ATTACHMENT_CONFIG.maxFileSize) {
+      skipped.push(file.originalName);
+      continue;
+    }
+
+    const extension = path.extname(file.originalName).toLowerCase().replace(/[^a-z0-9.]/g, '');
+    const filename = `${randomUUID()}${extension}`;
+    const filePath = path.join(ATTACHMENTS_DIR, filename);
+    await fs.writeFile(filePath, file.content);
+
+    written.push({
+      filename,
+      path: filePath,
+      originalname: file.originalName,
+      mimetype: file.mimeType,
+      size: file.content.length,
+    } as Express.Multer.File);
+  }
+  skipped.push(...files.slice(ATTACHMENT_CONFIG.maxFiles).map(file => file.originalName));
+
+  return { saved: await saveAttachments(written, target), skipped };
+}
+
+/**
+ * Remove files written by multer when the request is rejected
+ */
+export async function discardUploads(files: Express.Multer.File[]): Promise<void> {
+  for (const file of files) {
+    try {
+      await fs.unlink(file.path);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+export async function getAttachment(id: number): Promise<Attachment | undefined> {
+  const [attachment] = await db.select().from(attachments).where(eq(attachments.id, id));
+  return attachment;
+}
+
+/**
+ * All files on a ticket, including comment files
+ * Files on private comments are left out unless includePrivate is set
+ */
+export async function getTicketAttachments(ticketId: number, includePrivate: boolean): Promise<Attachment[]> {
+  const rows = await db.select({ attachment: attachments, isPrivate: ticketComments.isPrivate })
+    .from(attachments)
+    .leftJoin(ticketComments, and(
+      eq(attachments.entityType, 'ticket_comment'),
+      eq(ticketComments.id, attachments.entityId)
+    ))
+    .where(eq(attachments.ticketId, ticketId))
+    .orderBy(desc(attachments.createdAt));
+
+  return rows
+    .filter(row => includePrivate || !row.isPrivate)
+    .map(row => row.attachment);
+}
+
+export async function getEntityAttachments(entityType: AttachmentEntityType, entityId: number): Promise<Attachment[]> {
+  return db.select().from(attachments)
+    .where(and(eq(attachments.entityType, entityType), eq(attachments.entityId, entityId)))
+    .orderBy(desc(attachments.createdAt));
+}
+
+/**
+ * Delete the record and the file on disk
+ */
+export async function deleteAttachment(attachment: Attachment): Promise<void> {
+  await db.delete(attachments).where(eq(attachments.id, attachment.id));
+  await syncAttachmentColumn(attachment, 'remove');
+
+  try {
+    await fs.unlink(getAttachmentPath(attachment));
+  } catch {
+    // The record is gone either way; a missing file only needs a trace
+    logger.warn('attachments', 'Attachment file missing on delete', {
+      metadata: { attachmentId: attachment.id, fileName: attachment.fileName }
+    });
+  }
+}
+
+/**
+ * Keep ticket_comments.attachments / asset_transactions.attachments in step with the attachments table
+ */
+async function syncAttachmentColumn(attachment: Attachment, action: 'add' | 'remove'): Promise<void> {
+  const value = String(attachment.id);
+
+  if (attachment.entityType === 'ticket_comment') {
+    await db.update(ticketComments)
+      .set({
+        attachments: action === 'add'
+          ? sql`array_append(coalesce(${ticketComments.attachments}, '{}'::text[]), ${value})`
+          : sql`array_remove(${ticketComments.attachments}, ${value})`
+      })
+      .where(eq(ticketComments.id, attachment.entityId));
+  } else if (attachment.entityType === 'asset_transaction') {
+    await db.update(assetTransactions)
+      .set({
+        attachments: action === 'add'
+          ? sql`array_append(coalesce(${assetTransactions.attachments}, '{}'::text[]), ${value})`
+          : sql`array_remove(${assetTransactions.attachments}, ${value})`
+      })
+      .where(eq(assetTransactions.id, attachment.entityId));
+  }
+}
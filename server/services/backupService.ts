@@ -4,6 +4,7 @@ import path from 'path';
 import { db } from '../db';
 import { backupFiles, backupJobs, systemHealth, restoreHistory, assets, employees, tickets, activityLog, users } from '../../shared/schema';
 import { eq, desc, sql } from 'drizzle-orm';
+import { ATTACHMENTS_DIR } from './attachmentService';
 
 export class BackupService {
   private backupDir = path.join(process.cwd(), 'backups');
@@ -21,6 +22,47 @@ export class BackupService {
     }
   }
 
+  /**
+   * Attachment files are archived next to each SQL dump as <name>_attachments.tar.gz
+   */
+  private getAttachmentsArchivePath(sqlFilepath: string): string {
+    return sqlFilepath.replace(/\.sql$/, '_attachments.tar.gz');
+  }
+
+  private async archiveAttachments(sqlFilepath: string): Promise<void> {
+    try {
+      const files = await fs.readdir(ATTACHMENTS_DIR);
+      if (files.length === 0) return;
+    } catch {
+      // No attachments uploaded yet
+      return;
+    }
+
+    execSync(`tar -czf "${this.getAttachmentsArchivePath(sqlFilepath)}" -C "${ATTACHMENTS_DIR}" .`, { stdio: 'pipe' });
+  }
+
+  private async restoreAttachments(sqlFilepath: string): Promise<boolean> {
+    const archivePath = this.getAttachmentsArchivePath(sqlFilepath);
+    try {
+      await fs.access(archivePath);
+    } catch {
+      // Backup predates attachments or had none
+      return false;
+    }
+
+    await fs.mkdir(ATTACHMENTS_DIR, { recursive: true });
+    execSync(`tar -xzf "${archivePath}" -C "${ATTACHMENTS_DIR}"`, { stdio: 'pipe' });
+    return true;
+  }
+
+  private async deleteAttachmentsArchive(sqlFilepath: string): Promise<void> {
+    try {
+      await fs.unlink(this.getAttachmentsArchivePath(sqlFilepath));
+    } catch {
+      // No archive for this backup
+    }
+  }
+
   async createManualBackup(userId: number, description?: string): Promise<{ success: boolean; backupId?: number; error?: string }> {
     try {
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
@@ -36,6 +78,7 @@ export class BackupService {
       // Create backup using pg_dump (excluding backup management tables to avoid circular references)
       const command = `pg_dump "${dbUrl}" --no-owner --no-privileges --clean --if-exists --exclude-table=backup_files --exclude-table=backup_jobs --exclude-table=system_health --exclude-table=restore_history > "${filepath}"`;
       execSync(command, { stdio: 'pipe' });
+      await this.archiveAttachments(filepath);
 
       // Get file size
       const stats = await fs.stat(filepath);
@@ -116,6 +159,11 @@ export class BackupService {
       const restoreBackupTablesCommand = `psql "${dbUrl}" < "${backupTablesFile}"`;
       execSync(restoreBackupTablesCommand, { stdio: 'pipe' });
 
+      // Restore attachment files archived with this backup
+      if (await this.restoreAttachments(backupFile.filepath)) {
+        console.log('Restored attachment files');
+      }
+
       // Clean up temporary backup file
       try {
         await fs.unlink(backupTablesFile);
@@ -196,6 +244,7 @@ export class BackupService {
       // Delete file from disk
       try {
         await fs.unlink(backup[0].filepath);
+        await this.deleteAttachmentsArchive(backup[0].filepath);
         console.log(`Deleted backup file: ${backup[0].filepath}`);
       } catch (error) {
         console.warn('Could not delete backup file from disk:', error);
@@ -825,6 +874,7 @@ export class BackupService {
       // Create backup using pg_dump
       const command = `pg_dump "${dbUrl}" --no-owner --no-privileges --clean --if-exists --exclude-table=backup_files --exclude-table=backup_jobs --exclude-table=system_health --exclude-table=restore_history > "${filepath}"`;
       execSync(command, { stdio: 'pipe' });
+      await this.archiveAttachments(filepath);
 
       // Get file size
       const stats = await fs.stat(filepath);
@@ -903,6 +953,7 @@ export class BackupService {
         try {
           // Delete file from disk
           await fs.unlink(backup.filepath);
+          await this.deleteAttachmentsArchive(backup.filepath);
           
           // Delete from database
           await db.delete(backupFiles).where(eq(backupFiles.id, backup.id));
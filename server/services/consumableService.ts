@@ -0,0 +1,389 @@
+/**
+ * Consumable Service
+ * Quantity-tracked stock (cables, mice, toner, headsets) kept per location
+ * - Stock only changes through transactions: receive adds, issue hands items to an employee,
+ *   adjust corrects a location to a counted quantity
+ * - The consumable row is locked while stock changes so concurrent issues can't overdraw a location
+ * - A low-stock alert goes to managers once the total drops to the reorder threshold and is
+ *   re-armed when stock is received above it again
+ * - Issues record the employee's department so consumption can be reported per department
+ */
+
+import { db } from '../db';
+import {
+  consumables, consumableStock, consumableTransactions, employees, users,
+  type Consumable, type ConsumableTransaction
+} from '@shared/schema';
+import { and, asc, desc, eq, gte, ilike, inArray, isNull, lte, or, sum, type SQL } from 'drizzle-orm';
+import { getAllLocations, getLocationPaths } from './locationService';
+import * as notificationService from './notificationService';
+import { ROLE_IDS, getRoleLevel } from '@shared/roles.config';
+import { logger } from './logger';
+
+export const CONSUMABLE_TRANSACTION_TYPES = ['receive', 'issue', 'adjust'] as const;
+export type ConsumableTransactionType = typeof CONSUMABLE_TRANSACTION_TYPES[number];
+
+export interface ConsumableStockLevel {
+  locationId: number | null;
+  locationPath: string | null;
+  quantity: number;
+}
+
+export interface ConsumableSummary extends Consumable {
+  totalQuantity: number;
+  lowStock: boolean;
+  stock: ConsumableStockLevel[];
+}
+
+export interface ConsumableTransactionDetails extends ConsumableTransaction {
+  locationPath: string | null;
+  employeeName: string | null;
+  performedByName: string | null;
+}
+
+export interface ConsumableFilters {
+  search?: string;
+  category?: string;
+  locationId?: number;
+  lowStock?: boolean;
+  includeInactive?: boolean;
+}
+
+export interface ConsumableMovement {
+  type: ConsumableTransactionType;
+  // receive / issue: the amount moved; adjust: the quantity counted at the location
+  quantity: number;
+  locationId: number | null;
+  employeeId?: number | null;
+  unitCost?: string | null;
+  reference?: string | null;
+  notes?: string | null;
+}
+
+export class ConsumableStockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConsumableStockError';
+  }
+}
+
+export function isConsumableTransactionType(value: unknown): value is ConsumableTransactionType {
+  return typeof value === 'string' && (CONSUMABLE_TRANSACTION_TYPES as readonly string[]).includes(value);
+}
+
+export function isLowStock(consumable: Pick<Consumable, 'minStock'>, totalQuantity: number): boolean {
+  return consumable.minStock > 0 && totalQuantity <= consumable.minStock;
+}
+
+async function getStockRows(consumableIds: number[]) {
+  if (consumableIds.length === 0) return [];
+  return db.select().from(consumableStock)
+    .where(inArray(consumableStock.consumableId, consumableIds))
+    .orderBy(asc(consumableStock.id));
+}
+
+/**
+ * Consumables with their stock per location; locations holding nothing are left out
+ */
+export async function getConsumableSummaries(filters: ConsumableFilters = {}): Promise<ConsumableSummary[]> {
+  const conditions: SQL[] = [];
+  if (!filters.includeInactive) conditions.push(eq(consumables.isActive, true));
+  if (filters.category) conditions.push(eq(consumables.category, filters.category));
+  if (filters.search) {
+    const pattern = `%${filters.search}%`;
+    conditions.push(or(
+      ilike(consumables.name, pattern),
+      ilike(consumables.sku, pattern),
+      ilike(consumables.category, pattern)
+    )!);
+  }
+
+  const rows = await db.select().from(consumables)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(consumables.name));
+
+  const [stockRows, allLocations] = await Promise.all([getStockRows(rows.map(row => row.id)), getAllLocations()]);
+  const locationPaths = getLocationPaths(allLocations);
+
+  const summaries = rows.map(row => {
+    const stock = stockRows
+      .filter(level => level.consumableId === row.id && level.quantity !== 0)
+      .map(level => ({
+        locationId: level.locationId,
+        locationPath: level.locationId ? locationPaths.get(level.locationId) || null : null,
+        quantity: level.quantity,
+      }))
+      .sort((a, b) => (a.locationPath || '').localeCompare(b.locationPath || ''));
+    const totalQuantity = stock.reduce((total, level) => total + level.quantity, 0);
+    return { ...row, totalQuantity, lowStock: isLowStock(row, totalQuantity), stock };
+  });
+
+  return summaries.filter(summary =>
+    (!filters.lowStock || summary.lowStock) &&
+    (!filters.locationId || summary.stock.some(level => level.locationId === filters.locationId))
+  );
+}
+
+export async function getConsumable(id: number): Promise<Consumable | undefined> {
+  const [consumable] = await db.select().from(consumables).where(eq(consumables.id, id));
+  return consumable;
+}
+
+/**
+ * Recent stock movements, newest first
+ */
+export async function getConsumableTransactions(filters: {
+  consumableId?: number;
+  employeeId?: number;
+  limit?: number;
+}): Promise<ConsumableTransactionDetails[]> {
+  const conditions: SQL[] = [];
+  if (filters.consumableId) conditions.push(eq(consumableTransactions.consumableId, filters.consumableId));
+  if (filters.employeeId) conditions.push(eq(consumableTransactions.employeeId, filters.employeeId));
+
+  const [rows, allLocations] = await Promise.all([
+    db.select({
+      transaction: consumableTransactions,
+      employeeName: employees.englishName,
+      performedByName: users.username,
+    })
+      .from(consumableTransactions)
+      .leftJoin(employees, eq(consumableTransactions.employeeId, employees.id))
+      .leftJoin(users, eq(consumableTransactions.performedById, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(consumableTransactions.createdAt), desc(consumableTransactions.id))
+      .limit(filters.limit ?? 100),
+    getAllLocations(),
+  ]);
+  const locationPaths = getLocationPaths(allLocations);
+
+  return rows.map(({ transaction, employeeName, performedByName }) => ({
+    ...transaction,
+    locationPath: transaction.locationId ? locationPaths.get(transaction.locationId) || null : null,
+    employeeName,
+    performedByName,
+  }));
+}
+
+/**
+ * Apply a stock movement and record it; returns the transaction row
+ * Throws ConsumableStockError when the movement isn't possible
+ */
+export async function recordMovement(
+  consumableId: number,
+  movement: ConsumableMovement,
+  performedById: number
+): Promise<ConsumableTransaction> {
+  const transaction = await db.transaction(async (tx) => {
+    const [consumable] = await tx.select().from(consumables)
+      .where(eq(consumables.id, consumableId))
+      .for('update');
+    if (!consumable) {
+      throw new ConsumableStockError('Consumable not found');
+    }
+    if (!consumable.isActive && movement.type !== 'adjust') {
+      throw new ConsumableStockError('Consumable is inactive');
+    }
+
+    const locationCondition = movement.locationId
+      ? eq(consumableStock.locationId, movement.locationId)
+      : isNull(consumableStock.locationId);
+    const [level] = await tx.select().from(consumableStock)
+      .where(and(eq(consumableStock.consumableId, consumableId), locationCondition));
+    const onHand = level?.quantity ?? 0;
+
+    let change: number;
+    let department: string | null = null;
+    let unitCost = consumable.unitCost;
+    switch (movement.type) {
+      case 'receive':
+        change = movement.quantity;
+        unitCost = movement.unitCost ?? consumable.unitCost;
+        break;
+      case 'issue': {
+        if (movement.quantity > onHand) {
+          throw new ConsumableStockError(`Only ${onHand} ${consumable.unit} in stock at this location`);
+        }
+        const [employee] = movement.employeeId
+          ? await tx.select({ department: employees.department }).from(employees).where(eq(employees.id, movement.employeeId))
+          : [];
+        if (!employee) {
+          throw new ConsumableStockError('Employee not found');
+        }
+        change = -movement.quantity;
+        department = employee.department;
+        break;
+      }
+      case 'adjust':
+        change = movement.quantity - onHand;
+        if (change === 0) {
+          throw new ConsumableStockError('The counted quantity matches the stock on hand');
+        }
+        break;
+    }
+
+    if (level) {
+      await tx.update(consumableStock)
+        .set({ quantity: onHand + change, updatedAt: new Date() })
+        .where(eq(consumableStock.id, level.id));
+    } else {
+      await tx.insert(consumableStock).values({ consumableId, locationId: movement.locationId, quantity: change });
+    }
+
+    // The latest purchase price becomes the cost charged for later issues
+    if (movement.type === 'receive' && movement.unitCost && movement.unitCost !== consumable.unitCost) {
+      await tx.update(consumables)
+        .set({ unitCost: movement.unitCost, updatedAt: new Date() })
+        .where(eq(consumables.id, consumableId));
+    }
+
+    const [created] = await tx.insert(consumableTransactions).values({
+      consumableId,
+      type: movement.type,
+      quantity: change,
+      locationId: movement.locationId,
+      employeeId: movement.type === 'issue' ? movement.employeeId ?? null : null,
+      department,
+      unitCost,
+      reference: movement.reference ?? null,
+      notes: movement.notes ?? null,
+      performedById,
+    }).returning();
+    return created;
+  });
+
+  try {
+    await checkLowStock(consumableId);
+  } catch (error) {
+    logger.error('consumables', 'Failed to check consumable stock level', {
+      userId: performedById,
+      metadata: { consumableId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  }
+
+  return transaction;
+}
+
+/**
+ * Users who receive low-stock alerts: active users at manager level and above
+ */
+async function getStockAlertRecipients(): Promise<number[]> {
+  const activeUsers = await db.select({ id: users.id, role: users.role })
+    .from(users)
+    .where(eq(users.isActive, true));
+  const required = getRoleLevel(ROLE_IDS.MANAGER);
+  return activeUsers.filter(user => getRoleLevel(user.role) >= required).map(user => user.id);
+}
+
+/**
+ * Send the low-stock alert when the total first reaches the threshold; re-arm it after a restock
+ */
+export async function checkLowStock(consumableId: number): Promise<void> {
+  const consumable = await getConsumable(consumableId);
+  if (!consumable) return;
+
+  const [{ total }] = await db.select({ total: sum(consumableStock.quantity) })
+    .from(consumableStock)
+    .where(eq(consumableStock.consumableId, consumableId));
+  const quantity = Number(total ?? 0);
+
+  if (!isLowStock(consumable, quantity)) {
+    if (consumable.lowStockAlertedAt) {
+      await db.update(consumables).set({ lowStockAlertedAt: null }).where(eq(consumables.id, consumableId));
+    }
+    return;
+  }
+  if (consumable.lowStockAlertedAt || !consumable.isActive) return;
+
+  for (const userId of await getStockAlertRecipients()) {
+    await notificationService.notifyConsumableLowStock({
+      userId,
+      consumableId,
+      name: consumable.name,
+      sku: consumable.sku,
+      quantity,
+      minStock: consumable.minStock,
+      unit: consumable.unit,
+    });
+  }
+  await db.update(consumables).set({ lowStockAlertedAt: new Date() }).where(eq(consumables.id, consumableId));
+
+  logger.info('consumables', `Low-stock alert sent for ${consumable.name}`, {
+    userId: 0,
+    metadata: { consumableId, quantity, minStock: consumable.minStock }
+  });
+}
+
+/**
+ * Items issued per department between two dates (inclusive), valued at the cost recorded on each issue
+ */
+export async function getConsumptionReport(range: { from?: Date; to?: Date } = {}) {
+  const conditions: SQL[] = [eq(consumableTransactions.type, 'issue')];
+  if (range.from) conditions.push(gte(consumableTransactions.createdAt, range.from));
+  if (range.to) conditions.push(lte(consumableTransactions.createdAt, range.to));
+
+  const rows = await db.select({
+    consumableId: consumableTransactions.consumableId,
+    quantity: consumableTransactions.quantity,
+    unitCost: consumableTransactions.unitCost,
+    department: consumableTransactions.department,
+    name: consumables.name,
+    unit: consumables.unit,
+  })
+    .from(consumableTransactions)
+    .innerJoin(consumables, eq(consumableTransactions.consumableId, consumables.id))
+    .where(and(...conditions));
+
+  type ItemTotals = { consumableId: number; name: string; unit: string; quantity: number; cost: number };
+  const departments = new Map<string, { department: string; quantity: number; cost: number; items: Map<number, ItemTotals> }>();
+  const items = new Map<number, ItemTotals>();
+  const addTo = (totals: Map<number, ItemTotals>, row: typeof rows[number], quantity: number, cost: number) => {
+    const item = totals.get(row.consumableId) ?? { consumableId: row.consumableId, name: row.name, unit: row.unit, quantity: 0, cost: 0 };
+    item.quantity += quantity;
+    item.cost += cost;
+    totals.set(row.consumableId, item);
+  };
+
+  for (const row of rows) {
+    const quantity = -row.quantity;
+    const cost = row.unitCost ? parseFloat(row.unitCost) * quantity : 0;
+    const name = row.department || 'Unassigned';
+    const department = departments.get(name) ?? { department: name, quantity: 0, cost: 0, items: new Map() };
+    department.quantity += quantity;
+    department.cost += cost;
+    addTo(department.items, row, quantity, cost);
+    departments.set(name, department);
+    addTo(items, row, quantity, cost);
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const byQuantity = (a: ItemTotals, b: ItemTotals) => b.quantity - a.quantity || a.name.localeCompare(b.name);
+  const lowStock = (await getConsumableSummaries({ lowStock: true })).map(summary => ({
+    id: summary.id,
+    name: summary.name,
+    sku: summary.sku,
+    unit: summary.unit,
+    totalQuantity: summary.totalQuantity,
+    minStock: summary.minStock,
+  }));
+
+  return {
+    from: range.from?.toISOString() ?? null,
+    to: range.to?.toISOString() ?? null,
+    totals: {
+      quantity: rows.reduce((total, row) => total - row.quantity, 0),
+      cost: round(Array.from(departments.values()).reduce((total, department) => total + department.cost, 0)),
+    },
+    byDepartment: Array.from(departments.values())
+      .map(department => ({
+        department: department.department,
+        quantity: department.quantity,
+        cost: round(department.cost),
+        items: Array.from(department.items.values()).map(item => ({ ...item, cost: round(item.cost) })).sort(byQuantity),
+      }))
+      .sort((a, b) => b.cost - a.cost || b.quantity - a.quantity),
+    byConsumable: Array.from(items.values()).map(item => ({ ...item, cost: round(item.cost) })).sort(byQuantity),
+    lowStock,
+  };
+}
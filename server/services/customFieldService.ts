@@ -0,0 +1,320 @@
+/**
+ * Custom Field Service
+ * Admin-defined extra attributes of assets, employees and tickets (IMEI, cost center, badge number...)
+ * - Definitions carry the field type (text/number/date/select/boolean) and its validation
+ * - Asset fields can be limited to some asset types
+ * - Values are stored in the custom_fields column of each entity, keyed by the definition key
+ * - The same definitions feed the forms, the table filters and the CSV import schema
+ */
+
+import { db } from '../db';
+import { customFieldDefinitions, assets, employees, tickets, type CustomFieldDefinition } from '@shared/schema';
+import { and, asc, eq, sql } from 'drizzle-orm';
+
+export const CUSTOM_FIELD_ENTITY_TYPES = ['asset', 'employee', 'ticket'] as const;
+export type CustomFieldEntityType = typeof CUSTOM_FIELD_ENTITY_TYPES[number];
+
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'select', 'boolean'] as const;
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+
+export type CustomFieldValue = string | number | boolean | null;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// Entity names used by the import/export endpoints
+export const IMPORT_ENTITY_TYPES: Record<string, CustomFieldEntityType> = {
+  assets: 'asset',
+  employees: 'employee',
+  tickets: 'ticket',
+};
+
+// Import columns of custom fields are named "customFields.<key>"
+export const CUSTOM_FIELD_COLUMN_PREFIX = 'customFields.';
+
+const MAX_TEXT_LENGTH = 1000;
+const TRUE_VALUES = ['true', 'yes', '1', 'y'];
+const FALSE_VALUES = ['false', 'no', '0', 'n'];
+
+const ENTITY_TABLES = {
+  asset: assets,
+  employee: employees,
+  ticket: tickets,
+} as const;
+
+export class CustomFieldError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CustomFieldError';
+  }
+}
+
+export interface CustomFieldDefinitionInput {
+  label: string;
+  options: string[];
+  required: boolean;
+  assetTypes: string[];
+  pattern: string | null;
+  minValue: number | null;
+  maxValue: number | null;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+export interface NewCustomFieldDefinitionInput extends CustomFieldDefinitionInput {
+  entityType: CustomFieldEntityType;
+  key: string;
+  fieldType: CustomFieldType;
+}
+
+// ============================================================================
+// Definitions
+// ============================================================================
+
+export async function getCustomFieldDefinitions(
+  entityType: CustomFieldEntityType,
+  options: { includeInactive?: boolean } = {}
+): Promise<CustomFieldDefinition[]> {
+  return db.select().from(customFieldDefinitions)
+    .where(options.includeInactive
+      ? eq(customFieldDefinitions.entityType, entityType)
+      : and(eq(customFieldDefinitions.entityType, entityType), eq(customFieldDefinitions.isActive, true)))
+    .orderBy(asc(customFieldDefinitions.sortOrder), asc(customFieldDefinitions.id));
+}
+
+export async function getCustomFieldDefinition(id: number): Promise<CustomFieldDefinition | undefined> {
+  const [definition] = await db.select().from(customFieldDefinitions).where(eq(customFieldDefinitions.id, id));
+  return definition;
+}
+
+/**
+ * Check the validation settings against the field type and keep only the ones that apply to it
+ */
+function toDefinitionValues(fieldType: CustomFieldType, entityType: CustomFieldEntityType, input: CustomFieldDefinitionInput) {
+  const options = Array.from(new Set(input.options.map(option => option.trim()).filter(Boolean)));
+  if (fieldType === 'select' && options.length === 0) {
+    throw new CustomFieldError('Select fields need at least one option');
+  }
+  if (fieldType === 'text' && input.pattern) {
+    try {
+      new RegExp(input.pattern);
+    } catch {
+      throw new CustomFieldError('The validation pattern is not a valid regular expression');
+    }
+  }
+  if (fieldType === 'number' && input.minValue !== null && input.maxValue !== null && input.minValue > input.maxValue) {
+    throw new CustomFieldError('The minimum value cannot be greater than the maximum value');
+  }
+
+  return {
+    label: input.label,
+    options: fieldType === 'select' ? options : [],
+    // A checkbox always has a value, so "required" has no meaning for it
+    required: fieldType === 'boolean' ? false : input.required,
+    assetTypes: entityType === 'asset' ? Array.from(new Set(input.assetTypes.filter(Boolean))) : [],
+    pattern: fieldType === 'text' ? input.pattern || null : null,
+    minValue: fieldType === 'number' && input.minValue !== null ? String(input.minValue) : null,
+    maxValue: fieldType === 'number' && input.maxValue !== null ? String(input.maxValue) : null,
+    sortOrder: input.sortOrder,
+    isActive: input.isActive,
+  };
+}
+
+export async function createCustomFieldDefinition(
+  input: NewCustomFieldDefinitionInput,
+  createdById: number
+): Promise<CustomFieldDefinition> {
+  const [definition] = await db.insert(customFieldDefinitions).values({
+    entityType: input.entityType,
+    key: input.key,
+    fieldType: input.fieldType,
+    ...toDefinitionValues(input.fieldType, input.entityType, input),
+    createdById,
+  }).returning();
+  return definition;
+}
+
+/**
+ * Key, entity and type are fixed once created so the stored values keep their meaning
+ */
+export async function updateCustomFieldDefinition(
+  id: number,
+  input: CustomFieldDefinitionInput
+): Promise<CustomFieldDefinition | undefined> {
+  const current = await getCustomFieldDefinition(id);
+  if (!current) return undefined;
+
+  const [definition] = await db.update(customFieldDefinitions)
+    .set({
+      ...toDefinitionValues(current.fieldType as CustomFieldType, current.entityType as CustomFieldEntityType, input),
+      updatedAt: new Date(),
+    })
+    .where(eq(customFieldDefinitions.id, id))
+    .returning();
+  return definition;
+}
+
+/**
+ * Delete a definition and the values stored under its key
+ */
+export async function deleteCustomFieldDefinition(id: number): Promise<CustomFieldDefinition | undefined> {
+  return db.transaction(async (tx) => {
+    const [definition] = await tx.delete(customFieldDefinitions)
+      .where(eq(customFieldDefinitions.id, id))
+      .returning();
+    if (!definition) return undefined;
+
+    const table = ENTITY_TABLES[definition.entityType as CustomFieldEntityType];
+    await tx.update(table)
+      .set({ customFields: sql`${table.customFields} - ${definition.key}` })
+      .where(sql`${table.customFields} ? ${definition.key}`);
+    return definition;
+  });
+}
+
+// ============================================================================
+// Values
+// ============================================================================
+
+function appliesTo(definition: CustomFieldDefinition, assetType?: string | null): boolean {
+  const assetTypes = definition.assetTypes as string[];
+  return assetTypes.length === 0 || (!!assetType && assetTypes.includes(assetType));
+}
+
+/**
+ * Turn a submitted or imported value into the stored value, or explain why it is invalid
+ */
+function normalizeValue(definition: CustomFieldDefinition, raw: unknown): CustomFieldValue {
+  if (raw === null || raw === undefined || (typeof raw === 'string' && raw.trim() === '')) {
+    return null;
+  }
+  const label = definition.label;
+
+  switch (definition.fieldType as CustomFieldType) {
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      if (!Number.isFinite(value)) {
+        throw new CustomFieldError(`"${label}" must be a number`);
+      }
+      if (definition.minValue !== null && value < Number(definition.minValue)) {
+        throw new CustomFieldError(`"${label}" must be at least ${Number(definition.minValue)}`);
+      }
+      if (definition.maxValue !== null && value > Number(definition.maxValue)) {
+        throw new CustomFieldError(`"${label}" must be at most ${Number(definition.maxValue)}`);
+      }
+      return value;
+    }
+    case 'date': {
+      const text = String(raw).trim().slice(0, 10);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || isNaN(new Date(`${text}T00:00:00Z`).getTime())) {
+        throw new CustomFieldError(`"${label}" must be a date (YYYY-MM-DD)`);
+      }
+      return text;
+    }
+    case 'select': {
+      const text = String(raw).trim();
+      // Imports often differ only in letter case; store the option as defined
+      const option = (definition.options as string[]).find(candidate => candidate.toLowerCase() === text.toLowerCase());
+      if (!option) {
+        throw new CustomFieldError(`"${label}" must be one of: ${(definition.options as string[]).join(', ')}`);
+      }
+      return option;
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return raw;
+      const text = String(raw).trim().toLowerCase();
+      if (TRUE_VALUES.includes(text)) return true;
+      if (FALSE_VALUES.includes(text)) return false;
+      throw new CustomFieldError(`"${label}" must be Yes or No`);
+    }
+    default: {
+      const text = String(raw).trim();
+      if (text.length > MAX_TEXT_LENGTH) {
+        throw new CustomFieldError(`"${label}" is longer than ${MAX_TEXT_LENGTH} characters`);
+      }
+      if (definition.pattern && !new RegExp(`^(?:${definition.pattern})$`).test(text)) {
+        throw new CustomFieldError(`"${label}" is not in the expected format`);
+      }
+      return text;
+    }
+  }
+}
+
+/**
+ * Validate submitted custom field values against the active definitions of the entity
+ * - Only fields that apply (per asset type for assets) are taken; other keys are ignored
+ * - Values that did not change from `existing` are kept as they are, even if a definition
+ *   has since been tightened (e.g. a select option was removed)
+ * - Returns the full set of values to store, or undefined when nothing was submitted
+ */
+export async function validateCustomFieldValues(
+  entityType: CustomFieldEntityType,
+  submitted: unknown,
+  options: { assetType?: string | null; existing?: unknown } = {}
+): Promise<CustomFieldValues | undefined> {
+  if (submitted === undefined) return undefined;
+  if (submitted !== null && (typeof submitted !== 'object' || Array.isArray(submitted))) {
+    throw new CustomFieldError('Custom fields must be an object of field values');
+  }
+  const values = (submitted ?? {}) as Record<string, unknown>;
+  const existing = (options.existing && typeof options.existing === 'object' ? options.existing : {}) as CustomFieldValues;
+
+  const definitions = (await getCustomFieldDefinitions(entityType))
+    .filter(definition => entityType !== 'asset' || appliesTo(definition, options.assetType));
+
+  const result: CustomFieldValues = { ...existing };
+  for (const definition of definitions) {
+    if (Object.prototype.hasOwnProperty.call(values, definition.key) && values[definition.key] !== existing[definition.key]) {
+      result[definition.key] = normalizeValue(definition, values[definition.key]);
+    }
+    if (definition.required && (result[definition.key] === null || result[definition.key] === undefined)) {
+      throw new CustomFieldError(`"${definition.label}" is required`);
+    }
+  }
+  return result;
+}
+
+/**
+ * Collect the "customFields.<key>" columns of a mapped import row into a values object
+ * Returns undefined when the row has no custom field columns
+ */
+export function extractCustomFieldColumns(record: Record<string, unknown>): Record<string, unknown> | undefined {
+  let values: Record<string, unknown> | undefined;
+  for (const [column, value] of Object.entries(record)) {
+    if (column.startsWith(CUSTOM_FIELD_COLUMN_PREFIX)) {
+      values = values ?? {};
+      values[column.slice(CUSTOM_FIELD_COLUMN_PREFIX.length)] = value;
+      delete record[column];
+    }
+  }
+  return values;
+}
+
+/**
+ * Import schema entries for the active custom fields of an entity
+ */
+export async function getImportSchemaFields(entityType: CustomFieldEntityType) {
+  const definitions = await getCustomFieldDefinitions(entityType);
+  return definitions.map(definition => {
+    const assetTypes = definition.assetTypes as string[];
+    const options = definition.options as string[];
+    const fieldType = definition.fieldType as CustomFieldType;
+    return {
+      name: `${CUSTOM_FIELD_COLUMN_PREFIX}${definition.key}`,
+      displayName: definition.label,
+      description: assetTypes.length > 0
+        ? `Custom field (${assetTypes.join(', ')} only)`
+        : 'Custom field',
+      dataType: fieldType === 'select' || fieldType === 'boolean' ? 'enum' : fieldType,
+      // A field limited to some asset types cannot be required for every imported row
+      required: definition.required && assetTypes.length === 0,
+      autoGenerated: false,
+      ...(fieldType === 'select' ? { enumValues: options } : {}),
+      ...(fieldType === 'boolean' ? { enumValues: ['Yes', 'No'] } : {}),
+      example: fieldType === 'select' ? options[0]
+        : fieldType === 'boolean' ? 'Yes'
+          : fieldType === 'number' ? '1'
+            : fieldType === 'date' ? '2026-01-15'
+              : '',
+      customField: true,
+    };
+  });
+}
@@ -0,0 +1,202 @@
+/**
+ * Email Queue Service
+ * Persistent outbound queue so notification emails survive SMTP outages and restarts
+ * Failed sends are retried with exponential backoff until maxAttempts, then marked failed
+ * Uses native Node.js setInterval instead of node-cron
+ */
+
+import { db } from '../db';
+import { emailQueue, type EmailQueueItem } from '@shared/schema';
+import { and, asc, eq, lt, lte, sql } from 'drizzle-orm';
+import { emailService } from '../emailService';
+import { logger } from './logger';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Configuration for the email queue worker
+ */
+export const EMAIL_QUEUE_CONFIG = {
+  // Whether the worker runs (can be disabled via env var)
+  enabled: process.env.EMAIL_QUEUE_ENABLED !== 'false',
+
+  // How often due messages are sent (default: every minute)
+  processInterval: parseInt(process.env.EMAIL_QUEUE_INTERVAL_MINUTES || '1') * MS_PER_MINUTE,
+
+  // Messages sent per run
+  batchSize: 50,
+
+  // Attempts before a message is marked failed (default: 8, roughly a day of retries)
+  maxAttempts: parseInt(process.env.EMAIL_QUEUE_MAX_ATTEMPTS || '8'),
+
+  // First retry delay; doubles on every further attempt
+  retryBaseDelay: 2 * MS_PER_MINUTE,
+
+  // Sent and failed messages are kept this long for troubleshooting
+  retentionDays: 30,
+};
+
+let isProcessing = false;
+
+/**
+ * Add a message to the queue
+ * sendAfter holds the message back (e.g. until a Do Not Disturb window ends)
+ */
+export async function enqueueEmail(message: {
+  userId?: number | null;
+  to: string;
+  subject: string;
+  html?: string;
+  text?: string;
+  sendAfter?: Date | null;
+}): Promise<EmailQueueItem> {
+  const [queued] = await db.insert(emailQueue).values({
+    userId: message.userId ?? null,
+    toAddress: message.to,
+    subject: message.subject.slice(0, 255),
+    html: message.html,
+    text: message.text,
+    nextAttemptAt: message.sendAfter ?? new Date(),
+  }).returning();
+
+  return queued;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failures
+ */
+function getRetryDelay(attempts: number): number {
+  return EMAIL_QUEUE_CONFIG.retryBaseDelay * Math.pow(2, Math.max(attempts - 1, 0));
+}
+
+/**
+ * Send every pending message that is due
+ * Runs are never overlapped; a slow SMTP server simply delays the next batch
+ */
+export async function processEmailQueue(): Promise<{ sent: number; retried: number; failed: number }> {
+  const result = { sent: 0, retried: 0, failed: 0 };
+  if (isProcessing) return result;
+  isProcessing = true;
+
+  try {
+    const due = await db.select().from(emailQueue)
+      .where(and(eq(emailQueue.status, 'pending'), lte(emailQueue.nextAttemptAt, new Date())))
+      .orderBy(asc(emailQueue.nextAttemptAt))
+      .limit(EMAIL_QUEUE_CONFIG.batchSize);
+
+    for (const message of due) {
+      let error: string | null = null;
+      try {
+        const sent = await emailService.sendEmail({
+          to: message.toAddress,
+          subject: message.subject,
+          html: message.html ?? undefined,
+          text: message.text ?? undefined,
+        });
+        if (!sent) error = 'SMTP delivery failed or email is not configured';
+      } catch (sendError) {
+        error = sendError instanceof Error ? sendError.message : String(sendError);
+      }
+
+      const attempts = message.attempts + 1;
+
+      if (!error) {
+        await db.update(emailQueue)
+          .set({ status: 'sent', attempts, sentAt: new Date(), lastError: null })
+          .where(eq(emailQueue.id, message.id));
+        result.sent++;
+      } else if (attempts >= EMAIL_QUEUE_CONFIG.maxAttempts) {
+        await db.update(emailQueue)
+          .set({ status: 'failed', attempts, lastError: error })
+          .where(eq(emailQueue.id, message.id));
+        result.failed++;
+
+        logger.warn('email-queue', `Email to ${message.toAddress} failed after ${attempts} attempts`, {
+          userId: message.userId ?? 0,
+          metadata: { queueId: message.id, subject: message.subject, lastError: error }
+        });
+      } else {
+        await db.update(emailQueue)
+          .set({ attempts, lastError: error, nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)) })
+          .where(eq(emailQueue.id, message.id));
+        result.retried++;
+      }
+    }
+
+    if (due.length > 0) {
+      logger.info('email-queue', `Email queue run: ${result.sent} sent, ${result.retried} retrying, ${result.failed} failed`, {
+        userId: 0,
+        metadata: result
+      });
+    }
+  } catch (error) {
+    logger.error('email-queue', 'Email queue processing failed', {
+      userId: 0,
+      metadata: {},
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  } finally {
+    isProcessing = false;
+  }
+
+  return result;
+}
+
+/**
+ * Drop sent and failed messages older than the retention period
+ */
+export async function cleanupEmailQueue(): Promise<number> {
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - EMAIL_QUEUE_CONFIG.retentionDays);
+
+  const deleted = await db.delete(emailQueue)
+    .where(and(
+      sql`${emailQueue.status} IN ('sent', 'failed')`,
+      lt(emailQueue.createdAt, cutoffDate)
+    ));
+
+  return deleted.rowCount || 0;
+}
+
+/**
+ * Start the email queue worker
+ */
+export function startEmailQueueScheduler() {
+  if (!EMAIL_QUEUE_CONFIG.enabled) {
+    logger.info('email-queue', 'Email queue worker disabled', {
+      userId: 0,
+      metadata: { reason: 'EMAIL_QUEUE_ENABLED=false' }
+    });
+    return null;
+  }
+
+  let lastCleanupDate: string | null = null;
+
+  const queueTask = setInterval(async () => {
+    await processEmailQueue();
+
+    const today = new Date().toISOString().split('T')[0];
+    if (lastCleanupDate !== today) {
+      lastCleanupDate = today;
+      try {
+        await cleanupEmailQueue();
+      } catch (error) {
+        logger.error('email-queue', 'Email queue cleanup failed', {
+          userId: 0,
+          metadata: {},
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+  }, EMAIL_QUEUE_CONFIG.processInterval);
+
+  logger.info('email-queue', 'Email queue worker started successfully', {
+    userId: 0,
+    metadata: {
+      processInterval: `${EMAIL_QUEUE_CONFIG.processInterval / MS_PER_MINUTE} minutes`,
+      maxAttempts: EMAIL_QUEUE_CONFIG.maxAttempts
+    }
+  });
+
+  return queueTask;
+}
@@ -0,0 +1,66 @@
+/**
+ * Encryption Service
+ * Reversible encryption for secrets that have to be shown again later (e.g. software license keys)
+ * - AES-256-GCM with a random IV per value; stored as "v1:<iv>:<tag>:<ciphertext>" (base64)
+ * - The key is derived from ENCRYPTION_KEY, falling back to SESSION_SECRET
+ * - Changing the secret makes existing values unreadable, so it must be kept with the database backups
+ */
+
+import crypto from 'crypto';
+import { logger } from './logger';
+
+const FORMAT_VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+// Fixed salt: the derived key only has to be stable for the same secret
+const KEY_SALT = 'simpleit-encryption-v1';
+
+let cachedKey: Buffer | null = null;
+
+function getKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  const secret = process.env.ENCRYPTION_KEY || process.env.SESSION_SECRET;
+  if (!process.env.ENCRYPTION_KEY) {
+    logger.warn('security', 'ENCRYPTION_KEY is not set; deriving the encryption key from SESSION_SECRET', {
+      userId: 0,
+      metadata: { usingDefault: !secret }
+    });
+  }
+
+  cachedKey = crypto.scryptSync(secret || 'SimpleIT-bolt-secret', KEY_SALT, 32);
+  return cachedKey;
+}
+
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+export function encryptSecret(plain: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [FORMAT_VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Throws DecryptionError when the value is malformed or was encrypted with another key
+ */
+export function decryptSecret(stored: string): string {
+  const [version, iv, tag, ciphertext] = stored.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new DecryptionError('Unsupported encrypted value');
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new DecryptionError('Value could not be decrypted; was ENCRYPTION_KEY changed?');
+  }
+}
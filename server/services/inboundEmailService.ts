@@ -0,0 +1,377 @@
+/**
+ * Inbound Email Service
+ * Turns emails sent to the IT mailbox into tickets and ticket comments
+ * - New messages from a known employee (employees.corporateEmail) create a ticket
+ * - Replies carrying a TKT- id in the subject are threaded as comments on that ticket
+ *   (from the ticket's submitter or assignee only)
+ * - Unknown senders receive a templated reply from emailService
+ * Reads from IMAP or from a local drop folder of .eml files (maildir "new/" is also scanned)
+ * Uses native Node.js setInterval instead of node-cron
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { ImapFlow } from 'imapflow';
+import { simpleParser, type ParsedMail } from 'mailparser';
+import { db } from '../db';
+import { employees, users, tickets, type Employee, type InsertTicket, type Ticket, type User } from '@shared/schema';
+import { eq, sql } from 'drizzle-orm';
+import { storage } from '../storage';
+import { emailService } from '../emailService';
+import { saveBufferAttachments } from './attachmentService';
+import { resumeTicketSLA } from './slaService';
+import { emitWebhookEvent, toTicketWebhookData } from './webhookService';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { logger } from './logger';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Configuration for the inbound mail processor
+ */
+export const INBOUND_EMAIL_CONFIG = {
+  // Opt-in: nothing is polled unless enabled
+  enabled: process.env.INBOUND_EMAIL_ENABLED === 'true',
+
+  // 'imap' or 'dropfolder'
+  source: (process.env.INBOUND_EMAIL_SOURCE || 'dropfolder') as 'imap' | 'dropfolder',
+
+  // How often the mailbox is read (default: every 2 minutes)
+  pollInterval: parseInt(process.env.INBOUND_EMAIL_POLL_MINUTES || '2') * MS_PER_MINUTE,
+
+  // Local folder of .eml files; processed files move to processed/ or failed/
+  dropFolder: process.env.INBOUND_EMAIL_DROP_DIR || path.join(process.cwd(), 'mail', 'inbox'),
+
+  imap: {
+    host: process.env.INBOUND_IMAP_HOST || '',
+    port: parseInt(process.env.INBOUND_IMAP_PORT || '993'),
+    secure: process.env.INBOUND_IMAP_SECURE !== 'false',
+    user: process.env.INBOUND_IMAP_USER || '',
+    password: process.env.INBOUND_IMAP_PASSWORD || '',
+    mailbox: process.env.INBOUND_IMAP_MAILBOX || 'INBOX',
+  },
+};
+
+export type InboundResult =
+  | { action: 'created'; ticketId: string }
+  | { action: 'commented'; ticketId: string }
+  | { action: 'bounced'; reason: string }
+  | { action: 'ignored'; reason: string };
+
+// Ticket ids are generated as TKT-000123
+const TICKET_REF_PATTERN = /\bTKT-\d+\b/i;
+
+let isPolling = false;
+
+/**
+ * Automated mail (out-of-office, bounces, lists) must never create tickets or get a reply
+ */
+function isAutomatedMessage(mail: ParsedMail, sender: string): boolean {
+  const autoSubmitted = String(mail.headers.get('auto-submitted') || '').toLowerCase();
+  if (autoSubmitted && autoSubmitted !== 'no') return true;
+
+  const precedence = String(mail.headers.get('precedence') || '').toLowerCase();
+  if (['bulk', 'junk', 'list', 'auto_reply'].includes(precedence)) return true;
+
+  return /^(mailer-daemon|postmaster|no-?reply)@/i.test(sender);
+}
+
+/**
+ * Keep only the new part of a reply, dropping the quoted history below it
+ */
+function stripQuotedReply(text: string): string {
+  const markers = [
+    /^On .+ wrote:$/m,
+    /^-{2,}\s*Original Message\s*-{2,}/im,
+    /^From: .+$/m,
+    /^>.*$/m,
+  ];
+
+  let cutAt = text.length;
+  for (const marker of markers) {
+    const match = marker.exec(text);
+    if (match && match.index < cutAt) cutAt = match.index;
+  }
+
+  const stripped = text.slice(0, cutAt).trim();
+  return stripped || text.trim();
+}
+
+function getBody(mail: ParsedMail): string {
+  if (mail.text) return mail.text;
+  if (typeof mail.html === 'string') {
+    return mail.html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').trim();
+  }
+  return '';
+}
+
+async function findEmployeeByEmail(address: string): Promise<Employee | undefined> {
+  const [employee] = await db.select().from(employees)
+    .where(sql`lower(${employees.corporateEmail}) = ${address.toLowerCase()}`);
+  return employee;
+}
+
+async function findUserByEmail(address: string): Promise<User | undefined> {
+  const [user] = await db.select().from(users)
+    .where(sql`lower(${users.email}) = ${address.toLowerCase()}`);
+  return user;
+}
+
+/**
+ * Only the ticket's submitter or assignee can reply by email: the sender comes from the
+ * From header, which is not authenticated, so agent rights are never granted by email
+ */
+function canReplyToTicket(ticket: Ticket, user: User, employee?: Employee): boolean {
+  if (ticket.assignedToId === user.id) return true;
+  return !!employee && ticket.submittedById === employee.id;
+}
+
+function getMailAttachments(mail: ParsedMail) {
+  return mail.attachments
+    // Inline images referenced by the HTML body (signatures, logos) are not real attachments
+    .filter(attachment => !attachment.related)
+    .map(attachment => ({
+      content: attachment.content,
+      originalName: attachment.filename || 'attachment',
+      mimeType: attachment.contentType,
+    }));
+}
+
+/**
+ * Process a single raw RFC 822 message
+ */
+export async function processInboundMessage(raw: Buffer): Promise<InboundResult> {
+  const mail = await simpleParser(raw);
+  const sender = mail.from?.value[0]?.address?.trim();
+  const subject = (mail.subject || '').trim();
+
+  if (!sender) {
+    return { action: 'ignored', reason: 'No sender address' };
+  }
+  if (isAutomatedMessage(mail, sender)) {
+    return { action: 'ignored', reason: 'Automated message' };
+  }
+
+  const employee = await findEmployeeByEmail(sender);
+  const user = employee?.userId
+    ? await storage.getUser(employee.userId)
+    : await findUserByEmail(sender);
+
+  // Reply to an existing ticket
+  const ticketRef = subject.match(TICKET_REF_PATTERN)?.[0].toUpperCase();
+  if (ticketRef && user) {
+    const [ticket] = await db.select().from(tickets).where(eq(tickets.ticketId, ticketRef));
+    if (ticket && canReplyToTicket(ticket, user, employee)) {
+      const comment = await storage.addTicketComment({
+        ticketId: ticket.id,
+        userId: user.id,
+        content: stripQuotedReply(getBody(mail)) || subject,
+      });
+
+      const { skipped } = await saveBufferAttachments(getMailAttachments(mail), {
+        entityType: 'ticket_comment',
+        entityId: comment.id,
+        ticketId: ticket.id,
+        uploadedById: user.id,
+      });
+
+      // A requester reply restarts an SLA clock that was waiting on them
+      if (employee && ticket.submittedById === employee.id) {
+        await resumeTicketSLA(ticket.id, user.id, 'Requester replied via email');
+      }
+
+      logger.info('inbound-email', `Email reply added to ${ticket.ticketId}`, {
+        userId: user.id,
+        metadata: { ticketId: ticket.ticketId, commentId: comment.id, from: sender, skippedAttachments: skipped }
+      });
+      return { action: 'commented', ticketId: ticket.ticketId };
+    }
+  }
+
+  // New ticket - only employees can raise tickets
+  if (!employee) {
+    await emailService.sendUnknownSenderReply({
+      to: sender,
+      originalSubject: subject || '(no subject)',
+      messageId: mail.messageId,
+    });
+    logger.warn('inbound-email', 'Email from unknown sender bounced', {
+      metadata: { from: sender, subject }
+    });
+    return { action: 'bounced', reason: 'Unknown sender' };
+  }
+
+  const ticketData: InsertTicket = {
+    submittedById: employee.id,
+    type: 'Incident',
+    urgency: 'Medium',
+    impact: 'Medium',
+    status: 'Open',
+    title: subject || '(no subject)',
+    description: getBody(mail) || subject || '(no content)',
+  };
+  const created = await storage.createTicketWithHistory(ticketData);
+  const [ticket] = await db.select().from(tickets).where(eq(tickets.id, created.id));
+  emitWebhookEvent('ticket.created', toTicketWebhookData(ticket));
+
+  const { skipped } = await saveBufferAttachments(getMailAttachments(mail), {
+    entityType: 'ticket',
+    entityId: ticket.id,
+    ticketId: ticket.id,
+    uploadedById: user?.id ?? null,
+  });
+
+  await logActivity({
+    userId: user?.id,
+    action: AuditAction.CREATE,
+    entityType: EntityType.TICKET,
+    entityId: ticket.id,
+    details: { ticketId: ticket.ticketId, title: ticket.title, source: 'email', from: sender }
+  });
+
+  logger.info('inbound-email', `Ticket created from email: ${ticket.ticketId}`, {
+    userId: user?.id,
+    metadata: { ticketId: ticket.ticketId, employeeId: employee.id, from: sender, skippedAttachments: skipped }
+  });
+  return { action: 'created', ticketId: ticket.ticketId };
+}
+
+/**
+ * Read unseen messages from the IMAP mailbox and flag each one as seen once handled
+ */
+async function pollImap(): Promise<InboundResult[]> {
+  const { host, port, secure, user, password, mailbox } = INBOUND_EMAIL_CONFIG.imap;
+  if (!host || !user || !password) {
+    throw new Error('IMAP source selected but INBOUND_IMAP_HOST, INBOUND_IMAP_USER or INBOUND_IMAP_PASSWORD is missing');
+  }
+
+  const client = new ImapFlow({ host, port, secure, auth: { user, pass: password }, logger: false });
+  const results: InboundResult[] = [];
+
+  await client.connect();
+  const lock = await client.getMailboxLock(mailbox);
+  try {
+    // Collect first - no other IMAP command may run while a fetch is streaming
+    const messages: { uid: number; source: Buffer }[] = [];
+    for await (const message of client.fetch({ seen: false }, { uid: true, source: true })) {
+      if (message.source) messages.push({ uid: message.uid, source: message.source });
+    }
+
+    for (const message of messages) {
+      try {
+        results.push(await processInboundMessage(message.source));
+      } catch (error) {
+        logger.error('inbound-email', 'Failed to process IMAP message', {
+          metadata: { uid: message.uid },
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+      // Seen either way so a broken message is not retried on every poll
+      await client.messageFlagsAdd({ uid: String(message.uid) }, ['\\Seen'], { uid: true });
+    }
+  } finally {
+    lock.release();
+    await client.logout();
+  }
+
+  return results;
+}
+
+/**
+ * Process .eml files in the drop folder (and a maildir-style new/ subfolder)
+ */
+async function pollDropFolder(): Promise<InboundResult[]> {
+  const root = INBOUND_EMAIL_CONFIG.dropFolder;
+  const processedDir = path.join(root, 'processed');
+  const failedDir = path.join(root, 'failed');
+  await fs.mkdir(processedDir, { recursive: true });
+  await fs.mkdir(failedDir, { recursive: true });
+
+  const files: string[] = [];
+  for (const dir of [root, path.join(root, 'new')]) {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      files.push(...entries
+        .filter(entry => entry.isFile() && (dir !== root || entry.name.toLowerCase().endsWith('.eml')))
+        .map(entry => path.join(dir, entry.name)));
+    } catch {
+      // new/ only exists for maildir layouts
+    }
+  }
+
+  const results: InboundResult[] = [];
+  for (const file of files) {
+    let target = processedDir;
+    try {
+      results.push(await processInboundMessage(await fs.readFile(file)));
+    } catch (error) {
+      target = failedDir;
+      logger.error('inbound-email', 'Failed to process dropped email', {
+        metadata: { file: path.basename(file) },
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+    }
+    await fs.rename(file, path.join(target, path.basename(file)));
+  }
+
+  return results;
+}
+
+/**
+ * Run one poll of the configured source
+ */
+export async function pollInboundEmail(): Promise<InboundResult[]> {
+  if (isPolling) return [];
+  isPolling = true;
+
+  try {
+    const results = INBOUND_EMAIL_CONFIG.source === 'imap' ? await pollImap() : await pollDropFolder();
+
+    if (results.length > 0) {
+      logger.info('inbound-email', `Processed ${results.length} inbound email(s)`, {
+        metadata: {
+          created: results.filter(r => r.action === 'created').length,
+          commented: results.filter(r => r.action === 'commented').length,
+          bounced: results.filter(r => r.action === 'bounced').length,
+          ignored: results.filter(r => r.action === 'ignored').length,
+        }
+      });
+    }
+    return results;
+  } catch (error) {
+    logger.error('inbound-email', 'Inbound email poll failed', {
+      metadata: { source: INBOUND_EMAIL_CONFIG.source },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    return [];
+  } finally {
+    isPolling = false;
+  }
+}
+
+/**
+ * Start the inbound email poller
+ */
+export function startInboundEmailScheduler() {
+  if (!INBOUND_EMAIL_CONFIG.enabled) {
+    logger.info('inbound-email', 'Inbound email processing disabled', {
+      userId: 0,
+      metadata: { reason: 'INBOUND_EMAIL_ENABLED is not true' }
+    });
+    return null;
+  }
+
+  const inboundTask = setInterval(() => {
+    pollInboundEmail();
+  }, INBOUND_EMAIL_CONFIG.pollInterval);
+
+  logger.info('inbound-email', 'Inbound email scheduler started successfully', {
+    userId: 0,
+    metadata: {
+      source: INBOUND_EMAIL_CONFIG.source,
+      pollInterval: `${INBOUND_EMAIL_CONFIG.pollInterval / MS_PER_MINUTE} minutes`
+    }
+  });
+
+  return inboundTask;
+}
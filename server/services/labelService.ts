@@ -0,0 +1,295 @@
+/**
+ * Label Service
+ * Printable asset label sheets with a QR code encoding the asset ID (assets.assetId)
+ * - Layouts match common A4 label stock; positions are in millimetres from the top-left corner
+ * - A sheet is laid out once and rendered to SVG (preview) or PDF (printing)
+ * - Scanned codes are resolved back to assets by asset ID, then by serial number
+ */
+
+import QRCode from 'qrcode';
+import { db } from '../db';
+import { assets, type Asset } from '@shared/schema';
+import { eq, sql } from 'drizzle-orm';
+
+export const LABEL_FORMATS = ['pdf', 'svg'] as const;
+export type LabelFormat = typeof LABEL_FORMATS[number];
+
+export interface LabelLayout {
+  id: string;
+  name: string;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+}
+
+export interface LabelAsset {
+  assetId: string;
+  type: string;
+  brand: string;
+  modelName: string | null;
+  serialNumber: string;
+}
+
+export interface LabelOptions {
+  layout: LabelLayout;
+  // Positions already used on a partly printed sheet
+  skip?: number;
+  // Printed under the details, e.g. "Property of ACME"
+  footer?: string | null;
+}
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const PT_PER_MM = 72 / 25.4;
+// Average Helvetica glyph width relative to the font size, used to shorten text that would overflow
+const CHAR_WIDTH = { regular: 0.55, bold: 0.6 };
+// Labels shorter than this only carry the QR code and the asset ID
+const DETAIL_MIN_HEIGHT = 25;
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  { id: 'a4-24', name: 'A4, 24 per sheet (63.5 x 33.9 mm)', columns: 3, rows: 8, labelWidth: 63.5, labelHeight: 33.9, marginTop: 12.9, marginLeft: 7.2, gapX: 2.5, gapY: 0 },
+  { id: 'a4-14', name: 'A4, 14 per sheet (99.1 x 38.1 mm)', columns: 2, rows: 7, labelWidth: 99.1, labelHeight: 38.1, marginTop: 15.15, marginLeft: 4.65, gapX: 2.5, gapY: 0 },
+  { id: 'a4-65', name: 'A4, 65 per sheet (38.1 x 21.2 mm)', columns: 5, rows: 13, labelWidth: 38.1, labelHeight: 21.2, marginTop: 10.7, marginLeft: 4.65, gapX: 2.5, gapY: 0 },
+];
+
+export const DEFAULT_LABEL_LAYOUT = LABEL_LAYOUTS[0];
+
+type DrawOp =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number }
+  | { kind: 'text'; x: number; y: number; size: number; bold: boolean; text: string };
+
+export function getLabelLayout(id: unknown): LabelLayout | undefined {
+  return LABEL_LAYOUTS.find(layout => layout.id === id);
+}
+
+export function isLabelFormat(value: unknown): value is LabelFormat {
+  return typeof value === 'string' && (LABEL_FORMATS as readonly string[]).includes(value);
+}
+
+function fitText(text: string, widthMm: number, sizePt: number, bold: boolean): string {
+  const charWidth = (sizePt / PT_PER_MM) * (bold ? CHAR_WIDTH.bold : CHAR_WIDTH.regular);
+  const maxChars = Math.max(1, Math.floor(widthMm / charWidth));
+  return text.length > maxChars ? text.slice(0, maxChars - 1) + '…' : text;
+}
+
+/**
+ * QR code as filled rectangles, one per horizontal run of dark modules
+ */
+function drawQrCode(value: string, x: number, y: number, size: number): DrawOp[] {
+  const { modules } = QRCode.create(value, { errorCorrectionLevel: 'M' });
+  // One module of quiet zone inside the box; the label padding provides the rest
+  const moduleSize = size / (modules.size + 2);
+  const originX = x + moduleSize;
+  const originY = y + moduleSize;
+  const ops: DrawOp[] = [];
+
+  for (let row = 0; row < modules.size; row++) {
+    let runStart = -1;
+    for (let col = 0; col <= modules.size; col++) {
+      const dark = col < modules.size && modules.get(row, col) === 1;
+      if (dark && runStart < 0) {
+        runStart = col;
+      } else if (!dark && runStart >= 0) {
+        ops.push({
+          kind: 'rect',
+          x: originX + runStart * moduleSize,
+          y: originY + row * moduleSize,
+          width: (col - runStart) * moduleSize,
+          height: moduleSize,
+        });
+        runStart = -1;
+      }
+    }
+  }
+
+  return ops;
+}
+
+function drawLabel(asset: LabelAsset, x: number, y: number, layout: LabelLayout, footer?: string | null): DrawOp[] {
+  const padding = layout.labelHeight < DETAIL_MIN_HEIGHT ? 1.5 : 2;
+  const qrSize = layout.labelHeight - padding * 2;
+  const textX = x + padding + qrSize + 1.5;
+  const textWidth = x + layout.labelWidth - padding - textX;
+  const titleSize = Math.min(11, Math.round(layout.labelHeight * 0.3));
+  const detailSize = titleSize * 0.75;
+
+  const ops = drawQrCode(asset.assetId, x + padding, y + padding, qrSize);
+
+  let baseline = y + padding + titleSize / PT_PER_MM;
+  ops.push({ kind: 'text', x: textX, y: baseline, size: titleSize, bold: true, text: fitText(asset.assetId, textWidth, titleSize, true) });
+
+  if (layout.labelHeight >= DETAIL_MIN_HEIGHT) {
+    const details = [
+      [asset.brand, asset.modelName].filter(Boolean).join(' '),
+      asset.type,
+      `S/N ${asset.serialNumber}`,
+      footer || '',
+    ].filter(Boolean);
+
+    baseline += 1;
+    for (const line of details) {
+      baseline += (detailSize * 1.3) / PT_PER_MM;
+      if (baseline > y + layout.labelHeight - padding) break;
+      ops.push({ kind: 'text', x: textX, y: baseline, size: detailSize, bold: false, text: fitText(line, textWidth, detailSize, false) });
+    }
+  }
+
+  return ops;
+}
+
+/**
+ * Drawing operations per page, filling the sheet row by row
+ */
+function layoutSheets(labels: LabelAsset[], options: LabelOptions): DrawOp[][] {
+  const { layout } = options;
+  const perPage = layout.columns * layout.rows;
+  const skip = Math.min(Math.max(0, Math.floor(options.skip || 0)), perPage - 1);
+  const pages: DrawOp[][] = [];
+
+  labels.forEach((asset, index) => {
+    const position = index + skip;
+    const pageIndex = Math.floor(position / perPage);
+    const slot = position % perPage;
+    const x = layout.marginLeft + (slot % layout.columns) * (layout.labelWidth + layout.gapX);
+    const y = layout.marginTop + Math.floor(slot / layout.columns) * (layout.labelHeight + layout.gapY);
+
+    if (!pages[pageIndex]) pages[pageIndex] = [];
+    pages[pageIndex].push(...drawLabel(asset, x, y, layout, options.footer));
+  });
+
+  return pages;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function mm(value: number): string {
+  return value.toFixed(2);
+}
+
+/**
+ * Single SVG document with the pages stacked vertically, sized in millimetres
+ */
+export function renderLabelSheetSvg(labels: LabelAsset[], options: LabelOptions): string {
+  const pages = layoutSheets(labels, options);
+  const height = PAGE_HEIGHT * Math.max(1, pages.length);
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}mm" height="${height}mm" viewBox="0 0 ${PAGE_WIDTH} ${height}">`,
+    `<rect width="${PAGE_WIDTH}" height="${height}" fill="#fff"/>`,
+  ];
+
+  pages.forEach((ops, pageIndex) => {
+    const offset = pageIndex * PAGE_HEIGHT;
+    const path: string[] = [];
+    parts.push(`<g transform="translate(0 ${offset})" font-family="Helvetica, Arial, sans-serif">`);
+    for (const op of ops) {
+      if (op.kind === 'rect') {
+        path.push(`M${mm(op.x)} ${mm(op.y)}h${mm(op.width)}v${mm(op.height)}h-${mm(op.width)}z`);
+      } else {
+        parts.push(`<text x="${mm(op.x)}" y="${mm(op.y)}" font-size="${mm(op.size / PT_PER_MM)}"${op.bold ? ' font-weight="bold"' : ''}>${escapeXml(op.text)}</text>`);
+      }
+    }
+    parts.push(`<path d="${path.join('')}" fill="#000"/>`, '</g>');
+  });
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+/**
+ * PDF string literal using the standard fonts' WinAnsi encoding; characters outside it print as "?"
+ */
+function pdfString(value: string): string {
+  let encoded = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === '…') {
+      encoded += '\\205';
+    } else if (char === '(' || char === ')' || char === '\\') {
+      encoded += '\\' + char;
+    } else if (code >= 32 && code <= 126) {
+      encoded += char;
+    } else {
+      encoded += '?';
+    }
+  }
+  return `(${encoded})`;
+}
+
+function pt(valueMm: number): string {
+  return (valueMm * PT_PER_MM).toFixed(2);
+}
+
+/**
+ * Minimal PDF 1.4 document: one A4 page per sheet, vector QR codes and the built-in Helvetica fonts
+ */
+export function renderLabelSheetPdf(labels: LabelAsset[], options: LabelOptions): Buffer {
+  const pages = layoutSheets(labels, options);
+  if (pages.length === 0) pages.push([]);
+
+  // Objects 1-4 are fixed; each page then takes a page object and a content stream
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pages.forEach((ops, index) => {
+    const content: string[] = ['0 g'];
+    for (const op of ops) {
+      if (op.kind === 'rect') {
+        content.push(`${pt(op.x)} ${pt(PAGE_HEIGHT - op.y - op.height)} ${pt(op.width)} ${pt(op.height)} re f`);
+      } else {
+        content.push(`BT /${op.bold ? 'F2' : 'F1'} ${op.size.toFixed(2)} Tf ${pt(op.x)} ${pt(PAGE_HEIGHT - op.y)} Td ${pdfString(op.text)} Tj ET`);
+      }
+    }
+    const stream = content.join('\n');
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pt(PAGE_WIDTH)} ${pt(PAGE_HEIGHT)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
+
+/**
+ * Asset for a scanned label or manufacturer barcode: asset ID first, then serial number (both case-insensitive)
+ */
+export async function findAssetByScannedCode(code: string): Promise<{ asset: Asset; matchedBy: 'assetId' | 'serialNumber' } | undefined> {
+  const value = code.trim();
+  if (!value) return undefined;
+
+  const [byAssetId] = await db.select().from(assets)
+    .where(eq(sql`lower(${assets.assetId})`, value.toLowerCase()))
+    .limit(1);
+  if (byAssetId) return { asset: byAssetId, matchedBy: 'assetId' };
+
+  const [bySerial] = await db.select().from(assets)
+    .where(eq(sql`lower(${assets.serialNumber})`, value.toLowerCase()))
+    .limit(1);
+  if (bySerial) return { asset: bySerial, matchedBy: 'serialNumber' };
+
+  return undefined;
+}
@@ -0,0 +1,898 @@
+/**
+ * LDAP / Active Directory Service
+ * Optional directory sign-in next to local passwords, plus a scheduled employee sync
+ * - Sign-in looks the user up with the service account, then binds as them with their own password;
+ *   the first sign-in creates a local account, linked to the directory entry in user_identities
+ *   (local accounts with a password and admin accounts are never linked by matching username or email)
+ * - Directory groups map onto ROLE_IDS (LDAP_GROUP_ROLES); the highest mapped role wins
+ * - The sync creates or updates employees (name, department, title, manager, corporate email) and
+ *   marks employees whose entry was removed or disabled as Resigned, deactivating their account
+ * - A dry run computes the same plan without writing anything
+ * Works with Active Directory and OpenLDAP; attribute names can be overridden per deployment
+ * Uses native Node.js setInterval instead of node-cron
+ */
+
+import crypto from 'crypto';
+import { Client, Filter, InvalidCredentialsError, type Entry } from 'ldapts';
+import { db } from '../db';
+import { employees, userIdentities, type Employee, type User } from '@shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { storage } from '../storage';
+import { ROLE_IDS, getRoleLevel, normalizeRoleId } from '@shared/roles.config';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { emitWebhookEvent, toEmployeeWebhookData } from './webhookService';
+import { handleEmployeeOffboardingTrigger } from './offboardingService';
+import { logger } from './logger';
+
+const MS_PER_MINUTE = 60 * 1000;
+const IDENTITY_PROVIDER = 'ldap';
+
+// Required employee columns the directory may not provide
+const FALLBACK_DEPARTMENT = 'Unassigned';
+const FALLBACK_TITLE = 'Unassigned';
+
+// AD userAccountControl flag for disabled accounts
+const ACCOUNT_DISABLED_FLAG = 0x2;
+
+function parseAttributeList(value: string | undefined, fallback: string): string[] {
+  return (value || fallback).split(',').map(name => name.trim()).filter(Boolean);
+}
+
+/**
+ * LDAP_GROUP_ROLES is a JSON object of group → role, e.g.
+ * {"CN=IT Admins,OU=Groups,DC=corp,DC=local": "admin", "helpdesk": "agent"}
+ * Keys are full group DNs or plain group names (the CN)
+ */
+function parseGroupRoles(value: string | undefined): Record<string, string> {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value) as Record<string, unknown>;
+    const validRoles: string[] = Object.values(ROLE_IDS);
+    const mapping: Record<string, string> = {};
+    for (const [group, role] of Object.entries(parsed)) {
+      const roleId = normalizeRoleId(String(role));
+      if (validRoles.includes(roleId)) {
+        mapping[group.trim().toLowerCase()] = roleId;
+      } else {
+        console.warn(`[LDAP] Ignoring unknown role "${role}" for group "${group}" in LDAP_GROUP_ROLES`);
+      }
+    }
+    return mapping;
+  } catch {
+    console.warn('[LDAP] LDAP_GROUP_ROLES is not valid JSON; no group roles are mapped');
+    return {};
+  }
+}
+
+/**
+ * Configuration for directory sign-in and sync
+ */
+export const LDAP_CONFIG = {
+  // Opt-in: local accounts only unless enabled
+  enabled: process.env.LDAP_ENABLED === 'true',
+
+  // ldap://host:389 or ldaps://host:636
+  url: process.env.LDAP_URL || 'ldap://localhost:389',
+  startTls: process.env.LDAP_STARTTLS === 'true',
+  tlsRejectUnauthorized: process.env.LDAP_TLS_REJECT_UNAUTHORIZED !== 'false',
+  timeout: parseInt(process.env.LDAP_TIMEOUT_MS || '10000'),
+
+  // Service account used for lookups and the sync (empty = anonymous bind)
+  bindDn: process.env.LDAP_BIND_DN || '',
+  bindPassword: process.env.LDAP_BIND_PASSWORD || '',
+
+  // {{username}} is replaced by the escaped login name
+  userSearchBase: process.env.LDAP_USER_SEARCH_BASE || '',
+  userFilter: process.env.LDAP_USER_FILTER
+    || '(|(sAMAccountName={{username}})(userPrincipalName={{username}})(uid={{username}})(mail={{username}}))',
+
+  // Optional group search, for servers without memberOf on user entries (OpenLDAP without the overlay)
+  groupSearchBase: process.env.LDAP_GROUP_SEARCH_BASE || '',
+  groupFilter: process.env.LDAP_GROUP_FILTER || '(|(member={{dn}})(uniqueMember={{dn}})(memberUid={{username}}))',
+
+  groupRoles: parseGroupRoles(process.env.LDAP_GROUP_ROLES),
+  defaultRole: normalizeRoleId(process.env.LDAP_DEFAULT_ROLE || ROLE_IDS.EMPLOYEE),
+
+  // First attribute with a value wins (defaults cover AD and inetOrgPerson)
+  attributes: {
+    username: parseAttributeList(process.env.LDAP_ATTR_USERNAME, 'sAMAccountName,uid'),
+    email: parseAttributeList(process.env.LDAP_ATTR_EMAIL, 'mail,userPrincipalName'),
+    firstName: parseAttributeList(process.env.LDAP_ATTR_FIRST_NAME, 'givenName'),
+    lastName: parseAttributeList(process.env.LDAP_ATTR_LAST_NAME, 'sn'),
+    displayName: parseAttributeList(process.env.LDAP_ATTR_DISPLAY_NAME, 'displayName,cn'),
+    department: parseAttributeList(process.env.LDAP_ATTR_DEPARTMENT, 'department,departmentNumber,ou'),
+    title: parseAttributeList(process.env.LDAP_ATTR_TITLE, 'title'),
+    manager: parseAttributeList(process.env.LDAP_ATTR_MANAGER, 'manager'),
+    employeeId: parseAttributeList(process.env.LDAP_ATTR_EMPLOYEE_ID, 'employeeID,employeeNumber'),
+    mobile: parseAttributeList(process.env.LDAP_ATTR_MOBILE, 'mobile'),
+  },
+
+  sync: {
+    enabled: process.env.LDAP_SYNC_ENABLED === 'true',
+    // How often employees are synced (default: every hour)
+    interval: parseInt(process.env.LDAP_SYNC_INTERVAL_MINUTES || '60') * MS_PER_MINUTE,
+    searchBase: process.env.LDAP_SYNC_SEARCH_BASE || '',
+    filter: process.env.LDAP_SYNC_FILTER
+      || '(|(&(objectCategory=person)(objectClass=user))(objectClass=inetOrgPerson))',
+    deactivateLeavers: process.env.LDAP_SYNC_DEACTIVATE_LEAVERS !== 'false',
+    // A misconfigured search base looks like everybody left; above this share of
+    // synced employees, leavers are reported but not deactivated
+    maxLeaverPercent: parseInt(process.env.LDAP_SYNC_MAX_LEAVER_PERCENT || '20'),
+  },
+};
+
+/**
+ * Configuration or directory problems shown to the admin (routes answer 400)
+ */
+export class DirectoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DirectoryError';
+  }
+}
+
+/**
+ * A user entry read from the directory
+ */
+export interface DirectoryProfile {
+  directoryId: string;
+  dn: string;
+  username: string | null;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  displayName: string | null;
+  department: string | null;
+  title: string | null;
+  managerDn: string | null;
+  employeeNumber: string | null;
+  mobile: string | null;
+  createdDate: string | null; // YYYY-MM-DD
+  disabled: boolean;
+  groups: string[];
+}
+
+export type DirectoryAuthResult =
+  | { status: 'success'; user: User; role: string }
+  | { status: 'not_found' } // No directory entry: local accounts are tried next
+  | { status: 'invalid_credentials' }
+  | { status: 'rejected'; reason: string };
+
+type SyncFieldValue = string | number | null;
+
+// Employee columns maintained from the directory
+interface DirectoryEmployeeFields {
+  englishName: string;
+  department: string;
+  title: string;
+  corporateEmail: string | null;
+  workMobile: string | null;
+}
+
+interface SyncPlan {
+  toCreate: { profile: DirectoryProfile; fields: DirectoryEmployeeFields }[];
+  toUpdate: { employee: Employee; profile: DirectoryProfile; fields: DirectoryEmployeeFields }[];
+  toDeactivate: { employee: Employee; profile: DirectoryProfile | null; reason: 'removed' | 'disabled' }[];
+  matches: Map<string, Employee | null>;
+  profileByDn: Map<string, DirectoryProfile>;
+}
+
+export interface DirectorySyncChange {
+  directoryId: string;
+  dn: string;
+  name: string;
+  employeeId?: number;
+  empId?: string;
+  changes: Record<string, { from: SyncFieldValue; to: SyncFieldValue }>;
+}
+
+export interface DirectorySyncResult {
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  scanned: number;
+  created: DirectorySyncChange[];
+  updated: DirectorySyncChange[];
+  deactivated: (DirectorySyncChange & { reason: 'removed' | 'disabled' })[];
+  unchanged: number;
+  skipped: { dn: string; reason: string }[];
+  warnings: string[];
+}
+
+const BINARY_ATTRIBUTES = ['objectGUID'];
+
+function getSearchAttributes(): string[] {
+  const { attributes } = LDAP_CONFIG;
+  return Array.from(new Set([
+    ...attributes.username, ...attributes.email, ...attributes.firstName, ...attributes.lastName,
+    ...attributes.displayName, ...attributes.department, ...attributes.title, ...attributes.manager,
+    ...attributes.employeeId, ...attributes.mobile,
+    'objectGUID', 'entryUUID', 'memberOf', 'userAccountControl', 'whenCreated', 'createTimestamp'
+  ]));
+}
+
+function fillFilter(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_match, key: string) => Filter.escape(values[key] ?? ''));
+}
+
+// Attribute names are case-insensitive in LDAP but not in the returned entry
+function getValues(entry: Entry, name: string): (string | Buffer)[] {
+  const key = Object.keys(entry).find(candidate => candidate.toLowerCase() === name.toLowerCase());
+  if (!key || key === 'dn') return [];
+  const value = entry[key];
+  return Array.isArray(value) ? value : [value];
+}
+
+function getFirstValue(entry: Entry, names: string[]): string | null {
+  for (const name of names) {
+    const value = getValues(entry, name).find(candidate => typeof candidate === 'string' && candidate.trim());
+    if (typeof value === 'string') return value.trim();
+  }
+  return null;
+}
+
+// AD objectGUID bytes → the usual {xxxxxxxx-xxxx-...} text form (first three groups are little-endian)
+function formatObjectGuid(value: Buffer): string {
+  const hex = value.toString('hex');
+  const swap = (part: string) => part.match(/../g)!.reverse().join('');
+  return [
+    swap(hex.slice(0, 8)), swap(hex.slice(8, 12)), swap(hex.slice(12, 16)), hex.slice(16, 20), hex.slice(20)
+  ].join('-');
+}
+
+// Generalized time (20240131093000.0Z) → 2024-01-31
+function parseGeneralizedDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function toDirectoryProfile(entry: Entry): DirectoryProfile {
+  const { attributes } = LDAP_CONFIG;
+  const objectGuid = getValues(entry, 'objectGUID').find((value): value is Buffer => Buffer.isBuffer(value));
+  const entryUuid = getFirstValue(entry, ['entryUUID']);
+  const userAccountControl = parseInt(getFirstValue(entry, ['userAccountControl']) || '0');
+
+  return {
+    directoryId: objectGuid?.length === 16 ? formatObjectGuid(objectGuid) : entryUuid || entry.dn.toLowerCase(),
+    dn: entry.dn,
+    username: getFirstValue(entry, attributes.username),
+    email: getFirstValue(entry, attributes.email)?.toLowerCase() ?? null,
+    firstName: getFirstValue(entry, attributes.firstName),
+    lastName: getFirstValue(entry, attributes.lastName),
+    displayName: getFirstValue(entry, attributes.displayName),
+    department: getFirstValue(entry, attributes.department),
+    title: getFirstValue(entry, attributes.title),
+    managerDn: getFirstValue(entry, attributes.manager),
+    employeeNumber: getFirstValue(entry, attributes.employeeId),
+    mobile: getFirstValue(entry, attributes.mobile),
+    createdDate: parseGeneralizedDate(getFirstValue(entry, ['whenCreated', 'createTimestamp'])),
+    disabled: (userAccountControl & ACCOUNT_DISABLED_FLAG) !== 0,
+    groups: getValues(entry, 'memberOf').filter((value): value is string => typeof value === 'string'),
+  };
+}
+
+function getDisplayName(profile: DirectoryProfile): string | null {
+  const fullName = [profile.firstName, profile.lastName].filter(Boolean).join(' ');
+  return profile.displayName || fullName || null;
+}
+
+function createClient(): Client {
+  return new Client({
+    url: LDAP_CONFIG.url,
+    timeout: LDAP_CONFIG.timeout,
+    connectTimeout: LDAP_CONFIG.timeout,
+    tlsOptions: { rejectUnauthorized: LDAP_CONFIG.tlsRejectUnauthorized },
+  });
+}
+
+async function openConnection(client: Client) {
+  if (LDAP_CONFIG.startTls) {
+    await client.startTLS({ rejectUnauthorized: LDAP_CONFIG.tlsRejectUnauthorized });
+  }
+}
+
+/**
+ * Run against the directory bound as the service account
+ */
+async function withDirectory<T>(action: (client: Client) => Promise<T>): Promise<T> {
+  if (!LDAP_CONFIG.enabled) {
+    throw new DirectoryError('Directory integration is disabled (LDAP_ENABLED)');
+  }
+  if (!LDAP_CONFIG.userSearchBase) {
+    throw new DirectoryError('LDAP_USER_SEARCH_BASE is not configured');
+  }
+
+  const client = createClient();
+  try {
+    await openConnection(client);
+    if (LDAP_CONFIG.bindDn) {
+      await client.bind(LDAP_CONFIG.bindDn, LDAP_CONFIG.bindPassword);
+    }
+    return await action(client);
+  } catch (error) {
+    if (error instanceof DirectoryError) throw error;
+    throw new DirectoryError(`Directory request failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await client.unbind().catch(() => undefined);
+  }
+}
+
+async function findUserEntry(client: Client, username: string): Promise<Entry | null> {
+  const { searchEntries } = await client.search(LDAP_CONFIG.userSearchBase, {
+    scope: 'sub',
+    filter: fillFilter(LDAP_CONFIG.userFilter, { username }),
+    attributes: getSearchAttributes(),
+    explicitBufferAttributes: BINARY_ATTRIBUTES,
+  });
+  // Unknown or ambiguous login names never sign in
+  return searchEntries.length === 1 ? searchEntries[0] : null;
+}
+
+async function getGroupDns(client: Client, profile: DirectoryProfile): Promise<string[]> {
+  const groups = new Set(profile.groups);
+  if (LDAP_CONFIG.groupSearchBase) {
+    const { searchEntries } = await client.search(LDAP_CONFIG.groupSearchBase, {
+      scope: 'sub',
+      filter: fillFilter(LDAP_CONFIG.groupFilter, { dn: profile.dn, username: profile.username ?? '' }),
+      attributes: ['cn'],
+    });
+    searchEntries.forEach(group => groups.add(group.dn));
+  }
+  return Array.from(groups);
+}
+
+/**
+ * Highest role mapped from the user's groups, or null when none of them is mapped
+ */
+export function getRoleForGroups(groupDns: string[]): string | null {
+  let bestRole: string | null = null;
+  for (const groupDn of groupDns) {
+    const dn = groupDn.toLowerCase();
+    const name = dn.match(/^[^=]+=((?:\\,|[^,])+)/)?.[1] ?? dn;
+    const role = LDAP_CONFIG.groupRoles[dn] ?? LDAP_CONFIG.groupRoles[name];
+    if (role && (!bestRole || getRoleLevel(role) > getRoleLevel(bestRole))) {
+      bestRole = role;
+    }
+  }
+  return bestRole;
+}
+
+/**
+ * Whether a directory login may link an existing account it matched by username or email
+ */
+async function canLinkExistingAccount(user: User): Promise<boolean> {
+  if (getRoleLevel(user.role) >= getRoleLevel(ROLE_IDS.ADMIN)) {
+    return false;
+  }
+  const [directoryIdentity] = await db.select({ id: userIdentities.id }).from(userIdentities)
+    .where(and(eq(userIdentities.userId, user.id), eq(userIdentities.provider, IDENTITY_PROVIDER)))
+    .limit(1);
+  return !!directoryIdentity || !user.password;
+}
+
+/**
+ * Local account for a directory user: linked identity, else an existing account with the same
+ * username or email (linked from now on), else a new one. Directory users sign in with their
+ * directory password only, so the local password is random.
+ * Existing accounts are only linked when they are directory accounts already or have no local
+ * password, and never when they are admins: a directory entry must not take over a local
+ * (e.g. break-glass) account. Such a login is left to the local strategy.
+ */
+async function provisionDirectoryUser(
+  profile: DirectoryProfile,
+  role: string
+): Promise<User | { rejected: string } | { conflict: User }> {
+  const [identity] = await db.select().from(userIdentities)
+    .where(and(eq(userIdentities.provider, IDENTITY_PROVIDER), eq(userIdentities.externalId, profile.directoryId)));
+
+  let user = identity ? await storage.getUser(identity.userId) : undefined;
+  if (!user) {
+    const match = (profile.username ? await storage.getUserByUsername(profile.username) : undefined)
+      ?? (profile.email ? await storage.getUserByEmail(profile.email) : undefined);
+    if (match) {
+      if (!(await canLinkExistingAccount(match))) {
+        return { conflict: match };
+      }
+      user = match;
+    }
+  }
+
+  if (!user) {
+    if (!profile.username || !profile.email) {
+      return { rejected: 'Your directory account has no username or email address' };
+    }
+    user = await storage.createUser({
+      username: profile.username,
+      email: profile.email,
+      firstName: profile.firstName,
+      lastName: profile.lastName,
+      password: crypto.randomBytes(32).toString('hex'), // Hashed by createUser
+      role: role as User['role'],
+      isActive: true
+    });
+    logger.info('ldap', `Created account for directory user: ${user.username}`, {
+      userId: user.id,
+      metadata: { dn: profile.dn, role }
+    });
+  } else {
+    // Accounts deactivated in SimpleIT stay deactivated
+    if (!user.isActive) {
+      return { rejected: 'Account is disabled' };
+    }
+    const updates: Partial<User> = {};
+    if (user.role !== role) updates.role = role as User['role'];
+    if (profile.firstName && user.firstName !== profile.firstName) updates.firstName = profile.firstName;
+    if (profile.lastName && user.lastName !== profile.lastName) updates.lastName = profile.lastName;
+    if (Object.keys(updates).length > 0) {
+      user = (await storage.updateUser(user.id, updates)) ?? user;
+      if (updates.role) {
+        logger.warn('ldap', `Role of ${user.username} changed by directory groups to ${role}`, {
+          userId: user.id,
+          metadata: { dn: profile.dn, role }
+        });
+      }
+    }
+  }
+
+  await db.insert(userIdentities)
+    .values({ userId: user.id, provider: IDENTITY_PROVIDER, externalId: profile.directoryId, lastLoginAt: new Date() })
+    .onConflictDoUpdate({
+      target: [userIdentities.provider, userIdentities.externalId],
+      set: { userId: user.id, lastLoginAt: new Date() }
+    });
+
+  return user;
+}
+
+/**
+ * Check a login against the directory and return the matching local account
+ */
+export async function authenticateWithDirectory(username: string, password: string): Promise<DirectoryAuthResult> {
+  const loginName = username.trim();
+  // An empty password is an anonymous bind, which most servers accept
+  if (!loginName || !password) {
+    return { status: 'not_found' };
+  }
+
+  const lookup = await withDirectory(async client => {
+    const entry = await findUserEntry(client, loginName);
+    if (!entry) return null;
+    const profile = toDirectoryProfile(entry);
+    return { profile, groups: await getGroupDns(client, profile) };
+  });
+  if (!lookup) {
+    return { status: 'not_found' };
+  }
+  if (lookup.profile.disabled) {
+    return { status: 'rejected', reason: 'Account is disabled' };
+  }
+
+  const userClient = createClient();
+  try {
+    await openConnection(userClient);
+    await userClient.bind(lookup.profile.dn, password);
+  } catch (error) {
+    if (error instanceof InvalidCredentialsError) {
+      return { status: 'invalid_credentials' };
+    }
+    throw error;
+  } finally {
+    await userClient.unbind().catch(() => undefined);
+  }
+
+  const role = getRoleForGroups(lookup.groups) ?? LDAP_CONFIG.defaultRole;
+  const user = await provisionDirectoryUser(lookup.profile, role);
+  if ('rejected' in user) {
+    return { status: 'rejected', reason: user.rejected };
+  }
+  if ('conflict' in user) {
+    logger.warn('ldap', `Directory user ${loginName} matches local account ${user.conflict.username}; not linked`, {
+      userId: user.conflict.id,
+      metadata: { dn: lookup.profile.dn, reason: 'local_account_conflict' }
+    });
+    // Not treated as a directory user: the local strategy checks the local password
+    return { status: 'not_found' };
+  }
+  return { status: 'success', user, role };
+}
+
+/**
+ * Connection check for admins; with a username also shows the entry, its groups and the resulting role
+ */
+export async function testDirectoryConnection(username?: string) {
+  return withDirectory(async client => {
+    const result: {
+      connected: true;
+      user?: (DirectoryProfile & { role: string; mappedRole: string | null }) | null;
+    } = { connected: true };
+
+    if (username?.trim()) {
+      const entry = await findUserEntry(client, username.trim());
+      if (entry) {
+        const profile = toDirectoryProfile(entry);
+        const groups = await getGroupDns(client, profile);
+        const mappedRole = getRoleForGroups(groups);
+        result.user = { ...profile, groups, mappedRole, role: mappedRole ?? LDAP_CONFIG.defaultRole };
+      } else {
+        result.user = null;
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * Configuration summary for the admin screen (no secrets)
+ */
+export function getDirectoryStatus() {
+  return {
+    enabled: LDAP_CONFIG.enabled,
+    url: LDAP_CONFIG.url,
+    startTls: LDAP_CONFIG.startTls,
+    serviceAccount: LDAP_CONFIG.bindDn || null,
+    userSearchBase: LDAP_CONFIG.userSearchBase,
+    groupRoles: LDAP_CONFIG.groupRoles,
+    defaultRole: LDAP_CONFIG.defaultRole,
+    sync: {
+      enabled: LDAP_CONFIG.sync.enabled,
+      intervalMinutes: LDAP_CONFIG.sync.interval / MS_PER_MINUTE,
+      searchBase: LDAP_CONFIG.sync.searchBase || LDAP_CONFIG.userSearchBase,
+      deactivateLeavers: LDAP_CONFIG.sync.deactivateLeavers,
+    },
+    lastSync,
+  };
+}
+
+// ==========================================
+// EMPLOYEE SYNC
+// ==========================================
+
+let lastSync: DirectorySyncResult | null = null;
+let isSyncing = false;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+async function readDirectoryProfiles(): Promise<DirectoryProfile[]> {
+  const entries = await withDirectory(async client => {
+    const { searchEntries } = await client.search(LDAP_CONFIG.sync.searchBase || LDAP_CONFIG.userSearchBase, {
+      scope: 'sub',
+      filter: LDAP_CONFIG.sync.filter,
+      attributes: getSearchAttributes(),
+      explicitBufferAttributes: BINARY_ATTRIBUTES,
+      paged: { pageSize: 500 },
+    });
+    return searchEntries;
+  });
+  return entries.map(toDirectoryProfile);
+}
+
+/**
+ * Compare the directory with the employee list and, unless dryRun, apply the differences
+ */
+export async function syncDirectory(options: { dryRun: boolean; userId?: number }): Promise<DirectorySyncResult> {
+  if (isSyncing) {
+    throw new DirectoryError('A directory sync is already running');
+  }
+  isSyncing = true;
+
+  const result: DirectorySyncResult = {
+    dryRun: options.dryRun,
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    scanned: 0,
+    created: [],
+    updated: [],
+    deactivated: [],
+    unchanged: 0,
+    skipped: [],
+    warnings: [],
+  };
+
+  try {
+    const profiles = await readDirectoryProfiles();
+    result.scanned = profiles.length;
+    if (profiles.length === 0) {
+      throw new DirectoryError('The directory search returned no entries; check LDAP_SYNC_SEARCH_BASE and LDAP_SYNC_FILTER');
+    }
+
+    const allEmployees = await db.select().from(employees);
+    const byDirectoryId = new Map<string, Employee>();
+    const byEmail = new Map<string, Employee>();
+    for (const employee of allEmployees) {
+      if (employee.directoryId) byDirectoryId.set(employee.directoryId, employee);
+      if (employee.corporateEmail) byEmail.set(employee.corporateEmail.toLowerCase(), employee);
+    }
+    const profileByDn = new Map(profiles.map(profile => [profile.dn.toLowerCase(), profile]));
+
+    // matches: which employee each directory entry is (or becomes), for manager lookups
+    const plan: SyncPlan = { toCreate: [], toUpdate: [], toDeactivate: [], matches: new Map(), profileByDn };
+    const { matches, toDeactivate } = plan;
+    const seenDirectoryIds = new Set<string>();
+    const pendingProfiles: { employee: Employee | null; profile: DirectoryProfile }[] = [];
+
+    for (const profile of profiles) {
+      const name = getDisplayName(profile);
+      if (!name) {
+        result.skipped.push({ dn: profile.dn, reason: 'No display name' });
+        continue;
+      }
+      if (seenDirectoryIds.has(profile.directoryId)) {
+        result.skipped.push({ dn: profile.dn, reason: 'Duplicate directory entry' });
+        continue;
+      }
+      seenDirectoryIds.add(profile.directoryId);
+
+      let employee = byDirectoryId.get(profile.directoryId) ?? null;
+      if (!employee && profile.email) {
+        const emailMatch = byEmail.get(profile.email);
+        // An employee already synced from another entry is not taken over
+        if (emailMatch?.directoryId) {
+          result.skipped.push({ dn: profile.dn, reason: `Email already used by ${emailMatch.empId}` });
+          continue;
+        }
+        employee = emailMatch ?? null;
+      }
+      matches.set(profile.directoryId, employee);
+
+      if (profile.disabled) {
+        if (employee && employee.status === 'Active') {
+          toDeactivate.push({ employee, profile, reason: 'disabled' });
+        }
+        continue;
+      }
+
+      pendingProfiles.push({ employee, profile });
+    }
+
+    for (const employee of allEmployees) {
+      if (employee.directoryId && !seenDirectoryIds.has(employee.directoryId) && employee.status === 'Active') {
+        toDeactivate.push({ employee, profile: null, reason: 'removed' });
+      }
+    }
+
+    const managerNameFor = (profile: DirectoryProfile): string | null => {
+      if (!profile.managerDn) return null;
+      const managerProfile = profileByDn.get(profile.managerDn.toLowerCase());
+      return managerProfile ? getDisplayName(managerProfile) : null;
+    };
+    const employeeNames = new Map(allEmployees.map(employee => [employee.id, employee.englishName]));
+
+    // Field values the directory wants for an employee; emails held by another employee are kept as they are
+    const desiredFields = (profile: DirectoryProfile, employee: Employee | null): DirectoryEmployeeFields => {
+      const emailOwner = profile.email ? byEmail.get(profile.email) : undefined;
+      const emailAvailable = !emailOwner || emailOwner.id === employee?.id;
+      if (profile.email && !emailAvailable) {
+        result.warnings.push(`${getDisplayName(profile)}: email ${profile.email} already belongs to ${emailOwner!.empId}`);
+      }
+      return {
+        englishName: getDisplayName(profile)!,
+        department: profile.department || employee?.department || FALLBACK_DEPARTMENT,
+        title: profile.title || employee?.title || FALLBACK_TITLE,
+        corporateEmail: (emailAvailable ? profile.email : null) || employee?.corporateEmail || null,
+        workMobile: profile.mobile || employee?.workMobile || null,
+      };
+    };
+
+    for (const { employee, profile } of pendingProfiles) {
+      if (employee) {
+        plan.toUpdate.push({ employee, profile, fields: desiredFields(profile, employee) });
+      } else {
+        plan.toCreate.push({ profile, fields: desiredFields(profile, null) });
+      }
+    }
+
+    for (const { profile, fields } of plan.toCreate) {
+      result.created.push({
+        directoryId: profile.directoryId,
+        dn: profile.dn,
+        name: fields.englishName,
+        changes: Object.fromEntries([
+          ...Object.entries(fields).map(([field, value]) => [field, { from: null, to: value }]),
+          ['directManager', { from: null, to: managerNameFor(profile) }]
+        ])
+      });
+    }
+
+    for (const { employee, profile, fields } of plan.toUpdate) {
+      const changes: DirectorySyncChange['changes'] = {};
+      for (const [field, value] of Object.entries(fields)) {
+        const current = employee[field as keyof typeof fields] ?? null;
+        if (current !== value) changes[field] = { from: current, to: value };
+      }
+      const managerProfile = profile.managerDn ? profileByDn.get(profile.managerDn.toLowerCase()) : undefined;
+      const managerEmployee = managerProfile ? matches.get(managerProfile.directoryId) : undefined;
+      // Managers outside the sync scope are left alone; managers created by this run always count as a change
+      if (managerProfile && matches.has(managerProfile.directoryId) && managerEmployee?.id !== employee.directManager) {
+        changes.directManager = {
+          from: employee.directManager ? employeeNames.get(employee.directManager) ?? null : null,
+          to: getDisplayName(managerProfile)
+        };
+      }
+      if (!employee.directoryId && Object.keys(changes).length === 0) {
+        changes.directoryId = { from: null, to: profile.directoryId };
+      }
+
+      if (Object.keys(changes).length === 0) {
+        result.unchanged++;
+      } else {
+        result.updated.push({
+          directoryId: profile.directoryId,
+          dn: profile.dn,
+          name: fields.englishName,
+          employeeId: employee.id,
+          empId: employee.empId,
+          changes
+        });
+      }
+    }
+
+    const linkedActive = allEmployees.filter(employee => employee.directoryId && employee.status === 'Active').length;
+    const leaverLimit = Math.max(5, Math.ceil(linkedActive * LDAP_CONFIG.sync.maxLeaverPercent / 100));
+    let applyDeactivations = LDAP_CONFIG.sync.deactivateLeavers;
+    if (!LDAP_CONFIG.sync.deactivateLeavers && toDeactivate.length > 0) {
+      result.warnings.push(`${toDeactivate.length} leaver(s) found; deactivation is turned off (LDAP_SYNC_DEACTIVATE_LEAVERS)`);
+    } else if (toDeactivate.length > leaverLimit) {
+      applyDeactivations = false;
+      result.warnings.push(
+        `${toDeactivate.length} leavers exceed the safety limit of ${leaverLimit}; nobody was deactivated. ` +
+        'Check the sync search base, or raise LDAP_SYNC_MAX_LEAVER_PERCENT if this is expected.'
+      );
+    }
+    for (const { employee, profile, reason } of toDeactivate) {
+      result.deactivated.push({
+        directoryId: employee.directoryId ?? profile?.directoryId ?? '',
+        dn: profile?.dn ?? '',
+        name: employee.englishName,
+        employeeId: employee.id,
+        empId: employee.empId,
+        reason,
+        changes: {
+          status: { from: employee.status, to: 'Resigned' },
+          exitDate: { from: employee.exitDate, to: employee.exitDate || today() }
+        }
+      });
+    }
+
+    if (!options.dryRun) {
+      if (!applyDeactivations) {
+        plan.toDeactivate = [];
+        result.deactivated = [];
+      }
+      await applySyncPlan(plan, options.userId);
+    }
+
+    result.finishedAt = new Date().toISOString();
+    if (!options.dryRun) {
+      lastSync = result;
+      await logActivity({
+        userId: options.userId,
+        action: AuditAction.SYNC,
+        entityType: EntityType.DIRECTORY,
+        details: {
+          scanned: result.scanned,
+          created: result.created.length,
+          updated: result.updated.length,
+          deactivated: result.deactivated.length,
+          skipped: result.skipped.length,
+          warnings: result.warnings
+        }
+      });
+    }
+    return result;
+  } finally {
+    isSyncing = false;
+  }
+}
+
+async function applySyncPlan(plan: SyncPlan, actorId?: number) {
+  const now = new Date();
+
+  for (const { profile, fields } of plan.toCreate) {
+    const [employee] = await db.insert(employees).values({
+      ...fields,
+      idNumber: profile.employeeNumber || profile.username || profile.directoryId.slice(0, 50),
+      employmentType: 'Full-time',
+      joiningDate: profile.createdDate || today(),
+      status: 'Active',
+      directoryId: profile.directoryId,
+      directorySyncedAt: now,
+    }).returning();
+    plan.matches.set(profile.directoryId, employee);
+    emitWebhookEvent('employee.created', toEmployeeWebhookData(employee));
+  }
+
+  for (const { employee, profile, fields } of plan.toUpdate) {
+    const [updated] = await db.update(employees)
+      .set({ ...fields, directoryId: profile.directoryId, directorySyncedAt: now, updatedAt: now })
+      .where(eq(employees.id, employee.id))
+      .returning();
+    plan.matches.set(profile.directoryId, updated);
+  }
+
+  // Managers last, once every employee of this run exists
+  for (const { profile } of [...plan.toCreate, ...plan.toUpdate]) {
+    const employee = plan.matches.get(profile.directoryId);
+    const managerProfile = profile.managerDn ? plan.profileByDn.get(profile.managerDn.toLowerCase()) : undefined;
+    const manager = managerProfile ? plan.matches.get(managerProfile.directoryId) : null;
+    if (employee && manager && employee.id !== manager.id && employee.directManager !== manager.id) {
+      await db.update(employees).set({ directManager: manager.id }).where(eq(employees.id, employee.id));
+    }
+  }
+
+  for (const { employee, reason } of plan.toDeactivate) {
+    const [updated] = await db.update(employees)
+      .set({ status: 'Resigned', exitDate: employee.exitDate || today(), directorySyncedAt: now, updatedAt: now })
+      .where(eq(employees.id, employee.id))
+      .returning();
+
+    emitWebhookEvent('employee.offboarded', { ...toEmployeeWebhookData(updated), previousStatus: employee.status });
+    await handleEmployeeOffboardingTrigger(employee, updated, actorId);
+
+    if (employee.userId) {
+      await storage.updateUser(employee.userId, { isActive: false });
+      await storage.deleteAllUserSessions(employee.userId);
+    }
+
+    await logActivity({
+      userId: actorId,
+      action: AuditAction.STATUS_CHANGE,
+      entityType: EntityType.EMPLOYEE,
+      entityId: employee.id,
+      details: { source: 'directory_sync', reason, previousStatus: employee.status, newStatus: 'Resigned' }
+    });
+  }
+}
+
+/**
+ * Last applied sync (kept in memory until the next restart)
+ */
+export function getLastSyncResult(): DirectorySyncResult | null {
+  return lastSync;
+}
+
+async function runScheduledSync() {
+  try {
+    const result = await syncDirectory({ dryRun: false });
+    logger.info('ldap', 'Directory sync completed', {
+      userId: 0,
+      metadata: {
+        scanned: result.scanned,
+        created: result.created.length,
+        updated: result.updated.length,
+        deactivated: result.deactivated.length,
+        warnings: result.warnings
+      }
+    });
+  } catch (error) {
+    logger.error('ldap', 'Scheduled directory sync failed', {
+      userId: 0,
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  }
+}
+
+/**
+ * Start the scheduled employee sync
+ */
+export function startDirectorySyncScheduler() {
+  if (!LDAP_CONFIG.enabled || !LDAP_CONFIG.sync.enabled) {
+    logger.info('ldap', 'Directory sync disabled', {
+      userId: 0,
+      metadata: { reason: 'LDAP_ENABLED or LDAP_SYNC_ENABLED is not true' }
+    });
+    return null;
+  }
+
+  const syncTask = setInterval(() => {
+    runScheduledSync();
+  }, LDAP_CONFIG.sync.interval);
+
+  logger.info('ldap', 'Directory sync scheduler started successfully', {
+    userId: 0,
+    metadata: { interval: `${LDAP_CONFIG.sync.interval / MS_PER_MINUTE} minutes` }
+  });
+
+  return syncTask;
+}
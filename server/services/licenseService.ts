@@ -0,0 +1,611 @@
+/**
+ * License Service
+ * Software licenses and subscriptions with seats assigned to employees or assets
+ * - License keys are encrypted at rest and only decrypted on request (see encryptionService)
+ * - Compliance compares seats in use with seats bought: over-allocation is a licensing risk,
+ *   under-allocation is money spent on unused seats
+ * - Renewal reminders escalate as the renewal date approaches; auto-renewing subscriptions
+ *   roll over to the next billing period, others expire
+ * - Seats held by an employee are released when their offboarding case completes
+ * Uses native Node.js setInterval instead of node-cron
+ */
+
+import { db } from '../db';
+import {
+  softwareLicenses, licenseSeats, vendors, employees, assets, users,
+  type SoftwareLicense, type LicenseSeat
+} from '@shared/schema';
+import { and, asc, count, desc, eq, ilike, inArray, isNull, or, type SQL } from 'drizzle-orm';
+import { encryptSecret } from './encryptionService';
+import { daysUntil } from './offboardingService';
+import * as notificationService from './notificationService';
+import { logger } from './logger';
+
+export const LICENSE_TYPES = ['subscription', 'perpetual'] as const;
+export type LicenseType = typeof LICENSE_TYPES[number];
+
+export const BILLING_CYCLES = ['monthly', 'quarterly', 'annual', 'one_time'] as const;
+export type BillingCycle = typeof BILLING_CYCLES[number];
+
+export const LICENSE_STATUSES = ['active', 'expired', 'cancelled'] as const;
+export type LicenseStatus = typeof LICENSE_STATUSES[number];
+
+export const SEAT_RELEASE_REASONS = ['manual', 'offboarding'] as const;
+export type SeatReleaseReason = typeof SEAT_RELEASE_REASONS[number];
+
+// Billing periods per year; one-time purchases have no recurring cost
+const CYCLES_PER_YEAR: Record<BillingCycle, number> = {
+  monthly: 12,
+  quarterly: 4,
+  annual: 1,
+  one_time: 0,
+};
+
+const CYCLE_MONTHS: Record<BillingCycle, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12,
+  one_time: 0,
+};
+
+/**
+ * Configuration for renewal reminders
+ */
+export const LICENSE_CONFIG = {
+  // Whether the renewal job runs (can be disabled via env var)
+  enabled: process.env.LICENSE_REMINDERS_ENABLED !== 'false',
+
+  // How often renewals are checked (every hour)
+  checkInterval: 60 * 60 * 1000,
+};
+
+let isProcessing = false;
+
+export type ComplianceStatus = 'over_allocated' | 'under_allocated' | 'compliant' | 'expired_in_use';
+
+export interface LicenseSummary extends Omit<SoftwareLicense, 'licenseKeyEncrypted'> {
+  vendorName: string | null;
+  hasLicenseKey: boolean;
+  usedSeats: number;
+  availableSeats: number;
+  annualCost: number | null;
+  daysUntilRenewal: number | null;
+}
+
+export interface LicenseSeatDetails extends LicenseSeat {
+  employee: { id: number; empId: string; englishName: string; department: string; status: string } | null;
+  asset: { id: number; assetId: string; type: string; brand: string; serialNumber: string } | null;
+}
+
+export interface LicenseFilters {
+  status?: string;
+  vendorId?: number;
+  search?: string;
+  employeeId?: number;
+  assetId?: number;
+}
+
+export class LicenseSeatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LicenseSeatError';
+  }
+}
+
+export function isLicenseType(value: unknown): value is LicenseType {
+  return typeof value === 'string' && (LICENSE_TYPES as readonly string[]).includes(value);
+}
+
+export function isBillingCycle(value: unknown): value is BillingCycle {
+  return typeof value === 'string' && (BILLING_CYCLES as readonly string[]).includes(value);
+}
+
+export function isLicenseStatus(value: unknown): value is LicenseStatus {
+  return typeof value === 'string' && (LICENSE_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Recurring cost per year, or null when the license has no cost recorded
+ */
+export function getAnnualCost(license: Pick<SoftwareLicense, 'cost' | 'billingCycle'>): number | null {
+  if (license.cost === null || license.cost === undefined) return null;
+  const cycles = isBillingCycle(license.billingCycle) ? CYCLES_PER_YEAR[license.billingCycle] : 1;
+  return Math.round(parseFloat(license.cost) * cycles * 100) / 100;
+}
+
+/**
+ * The YYYY-MM-DD date one billing period after the given one (day clamped to the month's length)
+ */
+export function addBillingCycle(date: string, cycle: BillingCycle): string {
+  const months = CYCLE_MONTHS[cycle];
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split('T')[0];
+}
+
+/**
+ * Stored value for a license key entered by a user: encrypted, or null to clear it
+ */
+export function encryptLicenseKey(licenseKey: string | null): string | null {
+  const trimmed = licenseKey?.trim();
+  return trimmed ? encryptSecret(trimmed) : null;
+}
+
+async function getUsedSeatCounts(licenseIds?: number[]): Promise<Map<number, number>> {
+  const conditions: SQL[] = [isNull(licenseSeats.releasedAt)];
+  if (licenseIds) {
+    if (licenseIds.length === 0) return new Map();
+    conditions.push(inArray(licenseSeats.licenseId, licenseIds));
+  }
+
+  const rows = await db.select({ licenseId: licenseSeats.licenseId, count: count() })
+    .from(licenseSeats)
+    .where(and(...conditions))
+    .groupBy(licenseSeats.licenseId);
+  return new Map(rows.map(row => [row.licenseId, row.count]));
+}
+
+function toLicenseSummary(
+  license: SoftwareLicense,
+  vendorName: string | null,
+  usedSeats: number
+): LicenseSummary {
+  const { licenseKeyEncrypted, ...rest } = license;
+  return {
+    ...rest,
+    vendorName,
+    hasLicenseKey: Boolean(licenseKeyEncrypted),
+    usedSeats,
+    availableSeats: Math.max(license.seatCount - usedSeats, 0),
+    annualCost: getAnnualCost(license),
+    daysUntilRenewal: license.renewalDate ? daysUntil(license.renewalDate) : null,
+  };
+}
+
+/**
+ * Licenses with their vendor, seat usage and renewal countdown; keys are never included
+ */
+export async function getLicenseSummaries(filters: LicenseFilters = {}): Promise<LicenseSummary[]> {
+  const conditions: SQL[] = [];
+  if (filters.status) conditions.push(eq(softwareLicenses.status, filters.status));
+  if (filters.vendorId) conditions.push(eq(softwareLicenses.vendorId, filters.vendorId));
+  if (filters.search) {
+    const pattern = `%${filters.search}%`;
+    conditions.push(or(
+      ilike(softwareLicenses.productName, pattern),
+      ilike(softwareLicenses.edition, pattern),
+      ilike(vendors.name, pattern)
+    )!);
+  }
+  if (filters.employeeId || filters.assetId) {
+    const seatHolder = filters.employeeId
+      ? eq(licenseSeats.employeeId, filters.employeeId)
+      : eq(licenseSeats.assetId, filters.assetId!);
+    conditions.push(inArray(
+      softwareLicenses.id,
+      db.select({ id: licenseSeats.licenseId }).from(licenseSeats).where(and(seatHolder, isNull(licenseSeats.releasedAt)))
+    ));
+  }
+
+  const rows = await db.select({ license: softwareLicenses, vendorName: vendors.name })
+    .from(softwareLicenses)
+    .leftJoin(vendors, eq(softwareLicenses.vendorId, vendors.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(softwareLicenses.productName));
+
+  const usedSeats = await getUsedSeatCounts(rows.map(row => row.license.id));
+  return rows.map(row => toLicenseSummary(row.license, row.vendorName, usedSeats.get(row.license.id) || 0));
+}
+
+export async function getLicense(id: number): Promise<SoftwareLicense | undefined> {
+  const [license] = await db.select().from(softwareLicenses).where(eq(softwareLicenses.id, id));
+  return license;
+}
+
+/**
+ * License summary with every seat, current ones first
+ */
+export async function getLicenseDetails(id: number): Promise<(LicenseSummary & { seats: LicenseSeatDetails[] }) | null> {
+  const [row] = await db.select({ license: softwareLicenses, vendorName: vendors.name })
+    .from(softwareLicenses)
+    .leftJoin(vendors, eq(softwareLicenses.vendorId, vendors.id))
+    .where(eq(softwareLicenses.id, id));
+  if (!row) return null;
+
+  const seats = await db.select({
+    seat: licenseSeats,
+    employee: {
+      id: employees.id,
+      empId: employees.empId,
+      englishName: employees.englishName,
+      department: employees.department,
+      status: employees.status,
+    },
+    asset: {
+      id: assets.id,
+      assetId: assets.assetId,
+      type: assets.type,
+      brand: assets.brand,
+      serialNumber: assets.serialNumber,
+    },
+  })
+    .from(licenseSeats)
+    .leftJoin(employees, eq(licenseSeats.employeeId, employees.id))
+    .leftJoin(assets, eq(licenseSeats.assetId, assets.id))
+    .where(eq(licenseSeats.licenseId, id))
+    .orderBy(desc(licenseSeats.assignedAt));
+
+  const seatDetails: LicenseSeatDetails[] = seats
+    .map(({ seat, employee, asset }) => ({
+      ...seat,
+      employee: seat.employeeId ? employee : null,
+      asset: seat.assetId ? asset : null,
+    }))
+    .sort((a, b) => Number(Boolean(a.releasedAt)) - Number(Boolean(b.releasedAt)));
+  const usedSeats = seatDetails.filter(seat => !seat.releasedAt).length;
+
+  return { ...toLicenseSummary(row.license, row.vendorName, usedSeats), seats: seatDetails };
+}
+
+/**
+ * Assign a seat to an employee or an asset; the license row is locked so two assignments
+ * can't both take the last free seat
+ */
+export async function assignSeat(
+  licenseId: number,
+  holder: { employeeId?: number | null; assetId?: number | null },
+  assignedById: number,
+  notes?: string | null
+): Promise<LicenseSeat> {
+  return db.transaction(async (tx) => {
+    const [license] = await tx.select().from(softwareLicenses)
+      .where(eq(softwareLicenses.id, licenseId))
+      .for('update');
+    if (!license) {
+      throw new LicenseSeatError('License not found');
+    }
+    if (license.status !== 'active') {
+      throw new LicenseSeatError(`Seats can't be assigned on a ${license.status} license`);
+    }
+
+    const active = await tx.select().from(licenseSeats)
+      .where(and(eq(licenseSeats.licenseId, licenseId), isNull(licenseSeats.releasedAt)));
+    const duplicate = active.find(seat =>
+      (holder.employeeId && seat.employeeId === holder.employeeId) || (holder.assetId && seat.assetId === holder.assetId)
+    );
+    if (duplicate) {
+      throw new LicenseSeatError(holder.employeeId ? 'Employee already has a seat' : 'Asset already has a seat');
+    }
+    if (active.length >= license.seatCount) {
+      throw new LicenseSeatError(`All ${license.seatCount} seats are in use; increase the seat count first`);
+    }
+
+    const [seat] = await tx.insert(licenseSeats).values({
+      licenseId,
+      employeeId: holder.employeeId ?? null,
+      assetId: holder.assetId ?? null,
+      assignedById,
+      notes: notes ?? null,
+    }).returning();
+    return seat;
+  });
+}
+
+export async function releaseSeat(
+  seatId: number,
+  releasedById: number | null,
+  reason: SeatReleaseReason,
+  notes?: string | null
+): Promise<LicenseSeat | undefined> {
+  const [seat] = await db.update(licenseSeats)
+    .set({ releasedAt: new Date(), releasedById, releaseReason: reason, ...(notes ? { notes } : {}) })
+    .where(and(eq(licenseSeats.id, seatId), isNull(licenseSeats.releasedAt)))
+    .returning();
+  return seat;
+}
+
+/**
+ * Release every seat an employee holds (asset seats stay with the asset); returns the released seats
+ */
+export async function releaseEmployeeSeats(
+  employeeId: number,
+  reason: SeatReleaseReason,
+  releasedById: number | null
+): Promise<LicenseSeat[]> {
+  const released = await db.update(licenseSeats)
+    .set({ releasedAt: new Date(), releasedById, releaseReason: reason })
+    .where(and(eq(licenseSeats.employeeId, employeeId), isNull(licenseSeats.releasedAt)))
+    .returning();
+
+  if (released.length > 0) {
+    logger.info('licenses', `Released ${released.length} license seat(s) of employee ${employeeId}`, {
+      userId: releasedById ?? 0,
+      metadata: { employeeId, reason, licenseIds: released.map(seat => seat.licenseId) }
+    });
+  }
+  return released;
+}
+
+export function getComplianceStatus(license: Pick<LicenseSummary, 'status' | 'seatCount' | 'usedSeats'>): ComplianceStatus {
+  if (license.status !== 'active' && license.usedSeats > 0) return 'expired_in_use';
+  if (license.usedSeats > license.seatCount) return 'over_allocated';
+  if (license.status === 'active' && license.usedSeats < license.seatCount) return 'under_allocated';
+  return 'compliant';
+}
+
+/**
+ * Seat allocation per license with the yearly cost of unused seats
+ * Cancelled licenses without seats in use are left out
+ */
+export async function getComplianceReport() {
+  const licenses = await getLicenseSummaries();
+
+  const rows = licenses
+    .filter(license => license.status !== 'cancelled' || license.usedSeats > 0)
+    .map(license => {
+      const complianceStatus = getComplianceStatus(license);
+      const unusedSeats = license.status === 'active' ? Math.max(license.seatCount - license.usedSeats, 0) : 0;
+      const unusedAnnualCost = license.annualCost !== null && license.seatCount > 0
+        ? Math.round((license.annualCost / license.seatCount) * unusedSeats * 100) / 100
+        : null;
+      return {
+        id: license.id,
+        productName: license.productName,
+        edition: license.edition,
+        vendorName: license.vendorName,
+        status: license.status,
+        seatCount: license.seatCount,
+        usedSeats: license.usedSeats,
+        overAllocatedSeats: Math.max(license.usedSeats - license.seatCount, 0),
+        unusedSeats,
+        annualCost: license.annualCost,
+        unusedAnnualCost,
+        renewalDate: license.renewalDate,
+        complianceStatus,
+      };
+    });
+
+  return {
+    summary: {
+      licenses: rows.length,
+      overAllocated: rows.filter(row => row.complianceStatus === 'over_allocated').length,
+      underAllocated: rows.filter(row => row.complianceStatus === 'under_allocated').length,
+      expiredInUse: rows.filter(row => row.complianceStatus === 'expired_in_use').length,
+      compliant: rows.filter(row => row.complianceStatus === 'compliant').length,
+      annualCost: Math.round(rows.reduce((sum, row) => sum + (row.annualCost || 0), 0) * 100) / 100,
+      unusedAnnualCost: Math.round(rows.reduce((sum, row) => sum + (row.unusedAnnualCost || 0), 0) * 100) / 100,
+    },
+    licenses: rows,
+  };
+}
+
+/**
+ * Find a vendor by name (case-insensitive) or create it; used by the import
+ */
+export async function findOrCreateVendor(name: string): Promise<number> {
+  const trimmed = name.trim();
+  const [existing] = await db.select({ id: vendors.id }).from(vendors).where(ilike(vendors.name, trimmed));
+  if (existing) return existing.id;
+
+  const [created] = await db.insert(vendors).values({ name: trimmed }).returning({ id: vendors.id });
+  return created.id;
+}
+
+function parseImportDate(value: unknown, field: string): string | null {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) return null;
+
+  let date: Date | null = null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    date = new Date(`${text}T00:00:00Z`);
+  } else {
+    const match = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+    if (match) date = new Date(Date.UTC(Number(match[3]), Number(match[1]) - 1, Number(match[2])));
+  }
+  if (!date || isNaN(date.getTime())) {
+    throw new Error(`Invalid ${field} "${text}"`);
+  }
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Create a license from a mapped import row (see /api/import/schema/licenses)
+ * Throws with a row-level message when a value cannot be used
+ */
+export async function importLicenseRecord(record: Record<string, unknown>, createdById: number | null): Promise<SoftwareLicense> {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : value == null ? '' : String(value).trim());
+
+  const productName = text(record.productName);
+  if (!productName) {
+    throw new Error('Product name is required');
+  }
+
+  const licenseType = text(record.licenseType).toLowerCase() || 'subscription';
+  if (!isLicenseType(licenseType)) {
+    throw new Error(`Invalid license type "${record.licenseType}"`);
+  }
+
+  const billingCycle = text(record.billingCycle).toLowerCase().replace(/[\s-]+/g, '_') || 'annual';
+  if (!isBillingCycle(billingCycle)) {
+    throw new Error(`Invalid billing cycle "${record.billingCycle}"`);
+  }
+
+  const status = text(record.status).toLowerCase() || 'active';
+  if (!isLicenseStatus(status)) {
+    throw new Error(`Invalid status "${record.status}"`);
+  }
+
+  const seatText = text(record.seatCount);
+  const seatCount = seatText ? parseInt(seatText) : 1;
+  if (isNaN(seatCount) || seatCount < 1) {
+    throw new Error(`Invalid seat count "${record.seatCount}"`);
+  }
+
+  const costText = text(record.cost).replace(/[^\d.-]/g, '');
+  const cost = costText ? parseFloat(costText) : null;
+  if (cost !== null && (isNaN(cost) || cost < 0)) {
+    throw new Error(`Invalid cost "${record.cost}"`);
+  }
+
+  const vendorName = text(record.vendor);
+  const [license] = await db.insert(softwareLicenses).values({
+    productName,
+    vendorId: vendorName ? await findOrCreateVendor(vendorName) : null,
+    edition: text(record.edition) || null,
+    licenseType,
+    seatCount,
+    licenseKeyEncrypted: encryptLicenseKey(text(record.licenseKey) || null),
+    billingCycle,
+    cost: cost !== null ? cost.toFixed(2) : null,
+    purchaseDate: parseImportDate(record.purchaseDate, 'purchase date'),
+    renewalDate: parseImportDate(record.renewalDate, 'renewal date'),
+    autoRenew: ['yes', 'true', '1', 'y'].includes(text(record.autoRenew).toLowerCase()),
+    status,
+    notes: text(record.notes) || null,
+    createdById,
+  }).returning();
+  return license;
+}
+
+// ============================================================================
+// Renewal reminders
+// ============================================================================
+
+/**
+ * Reminder ladder by days left until renewal; each level is sent once per renewal date
+ * Level 1 uses the license's own lead time
+ */
+function getReminderLevels(license: Pick<SoftwareLicense, 'renewalReminderDays'>) {
+  return [
+    { level: 1, daysLeft: Math.max(license.renewalReminderDays, 7) },
+    { level: 2, daysLeft: 7 },
+    { level: 3, daysLeft: 1 },
+  ];
+}
+
+/**
+ * Users who receive renewal reminders: active managers and admins
+ */
+async function getRenewalRecipients(): Promise<number[]> {
+  const recipients = await db.select({ id: users.id })
+    .from(users)
+    .where(and(inArray(users.role, ['manager', 'admin']), eq(users.isActive, true)));
+  return recipients.map(user => user.id);
+}
+
+async function sendRenewalReminder(license: SoftwareLicense, vendorName: string | null, daysLeft: number) {
+  const reached = getReminderLevels(license).filter(step => daysLeft <= step.daysLeft).pop();
+  if (!reached || reached.level <= license.lastReminderLevel) return;
+
+  const usedSeats = (await getUsedSeatCounts([license.id])).get(license.id) || 0;
+  for (const userId of await getRenewalRecipients()) {
+    await notificationService.notifyLicenseRenewal({
+      userId,
+      licenseId: license.id,
+      productName: license.productName,
+      vendorName,
+      renewalDate: new Date(license.renewalDate!),
+      daysLeft,
+      autoRenew: license.autoRenew,
+      cost: license.cost,
+      seatCount: license.seatCount,
+      usedSeats,
+    });
+  }
+
+  await db.update(softwareLicenses)
+    .set({ lastReminderLevel: reached.level, lastReminderAt: new Date() })
+    .where(eq(softwareLicenses.id, license.id));
+
+  logger.info('licenses', `Renewal reminder level ${reached.level} sent for ${license.productName}`, {
+    userId: 0,
+    metadata: { licenseId: license.id, daysLeft }
+  });
+}
+
+/**
+ * Roll over or expire licenses whose renewal date has passed, then send due reminders
+ */
+export async function processLicenseRenewals(): Promise<void> {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    const rows = await db.select({ license: softwareLicenses, vendorName: vendors.name })
+      .from(softwareLicenses)
+      .leftJoin(vendors, eq(softwareLicenses.vendorId, vendors.id))
+      .where(eq(softwareLicenses.status, 'active'));
+
+    for (const { license, vendorName } of rows) {
+      if (!license.renewalDate) continue;
+      try {
+        const daysLeft = daysUntil(license.renewalDate);
+
+        if (daysLeft < 0) {
+          if (license.autoRenew && isBillingCycle(license.billingCycle) && license.billingCycle !== 'one_time') {
+            let renewalDate = license.renewalDate;
+            while (daysUntil(renewalDate) < 0) {
+              renewalDate = addBillingCycle(renewalDate, license.billingCycle);
+            }
+            await db.update(softwareLicenses)
+              .set({ renewalDate, lastReminderLevel: 0, lastReminderAt: null, updatedAt: new Date() })
+              .where(eq(softwareLicenses.id, license.id));
+            logger.info('licenses', `${license.productName} auto-renewed until ${renewalDate}`, {
+              userId: 0,
+              metadata: { licenseId: license.id, previousRenewalDate: license.renewalDate }
+            });
+          } else {
+            await db.update(softwareLicenses)
+              .set({ status: 'expired', updatedAt: new Date() })
+              .where(eq(softwareLicenses.id, license.id));
+            logger.info('licenses', `${license.productName} expired on ${license.renewalDate}`, {
+              userId: 0,
+              metadata: { licenseId: license.id }
+            });
+          }
+          continue;
+        }
+
+        await sendRenewalReminder(license, vendorName, daysLeft);
+      } catch (error) {
+        logger.error('licenses', 'Failed to process license renewal', {
+          userId: 0,
+          metadata: { licenseId: license.id },
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+  } catch (error) {
+    logger.error('licenses', 'License renewal check failed', {
+      userId: 0,
+      metadata: {},
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Start the license renewal job
+ */
+export function startLicenseRenewalScheduler() {
+  if (!LICENSE_CONFIG.enabled) {
+    logger.info('licenses', 'License renewal reminders disabled', {
+      userId: 0,
+      metadata: { reason: 'LICENSE_REMINDERS_ENABLED=false' }
+    });
+    return null;
+  }
+
+  const renewalTask = setInterval(processLicenseRenewals, LICENSE_CONFIG.checkInterval);
+
+  logger.info('licenses', 'License renewal job started successfully', {
+    userId: 0,
+    metadata: { checkInterval: `${LICENSE_CONFIG.checkInterval / (60 * 1000)} minutes` }
+  });
+
+  return renewalTask;
+}
@@ -0,0 +1,248 @@
+/**
+ * Location Service
+ * Hierarchy of places where assets are kept (site > building > floor > room/cabinet)
+ * - Levels may be skipped (a small branch can hold rooms directly) but never reversed
+ * - Queries on a location include everything stored in the locations beneath it
+ * - Transfers move assets between locations and record a "Transfer" asset transaction
+ */
+
+import { db } from '../db';
+import { locations, assets, assetTransactions, type Location, type AssetTransaction } from '@shared/schema';
+import { asc, eq, inArray, isNotNull, sql } from 'drizzle-orm';
+
+export const LOCATION_TYPES = ['Site', 'Building', 'Floor', 'Room', 'Cabinet'] as const;
+export type LocationType = typeof LOCATION_TYPES[number];
+
+export const LOCATION_PATH_SEPARATOR = ' / ';
+
+export interface LocationNode extends Location {
+  path: string;
+  depth: number;
+  children: LocationNode[];
+}
+
+export interface TransferResult {
+  transferred: AssetTransaction[];
+  skipped: number[]; // Asset ids already at the destination
+}
+
+export function isLocationType(value: string): value is LocationType {
+  return (LOCATION_TYPES as readonly string[]).includes(value);
+}
+
+function typeRank(type: string): number {
+  return LOCATION_TYPES.indexOf(type as LocationType);
+}
+
+export async function getAllLocations(): Promise<Location[]> {
+  return db.select().from(locations).orderBy(asc(locations.name));
+}
+
+/**
+ * Full display path of every location, e.g. "Cairo Office / Building A / Floor 2 / Storeroom"
+ */
+export function getLocationPaths(rows: Location[]): Map<number, string> {
+  const byId = new Map(rows.map(row => [row.id, row]));
+  const paths = new Map<number, string>();
+
+  const resolve = (location: Location, seen: Set<number>): string => {
+    const cached = paths.get(location.id);
+    if (cached !== undefined) return cached;
+
+    const parent = location.parentId ? byId.get(location.parentId) : undefined;
+    // A broken or cyclic parent link ends the path instead of looping
+    const path = parent && !seen.has(parent.id)
+      ? resolve(parent, new Set(seen).add(location.id)) + LOCATION_PATH_SEPARATOR + location.name
+      : location.name;
+    paths.set(location.id, path);
+    return path;
+  };
+
+  rows.forEach(row => resolve(row, new Set()));
+  return paths;
+}
+
+/**
+ * Nested tree of locations, sites first, children sorted by name
+ */
+export function buildLocationTree(rows: Location[]): LocationNode[] {
+  const paths = getLocationPaths(rows);
+  const nodes = new Map<number, LocationNode>(rows.map(row => [row.id, {
+    ...row,
+    path: paths.get(row.id) || row.name,
+    depth: 0,
+    children: []
+  }]));
+
+  const roots: LocationNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const sortAndDepth = (list: LocationNode[], depth: number) => {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+    list.forEach(node => {
+      node.depth = depth;
+      sortAndDepth(node.children, depth + 1);
+    });
+  };
+  sortAndDepth(roots, 0);
+  return roots;
+}
+
+/**
+ * The location itself and every location beneath it
+ */
+export function getDescendantIds(rows: Location[], locationId: number): number[] {
+  const childrenOf = new Map<number, number[]>();
+  rows.forEach(row => {
+    if (row.parentId) {
+      childrenOf.set(row.parentId, [...(childrenOf.get(row.parentId) || []), row.id]);
+    }
+  });
+
+  const result = new Set<number>([locationId]);
+  const queue = [locationId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    (childrenOf.get(current) || []).forEach(childId => {
+      if (!result.has(childId)) {
+        result.add(childId);
+        queue.push(childId);
+      }
+    });
+  }
+  return Array.from(result);
+}
+
+/**
+ * Why a location cannot sit under the given parent, or null when it can
+ * @param locationId - null when the location is being created
+ */
+export function validateLocationParent(
+  rows: Location[],
+  locationId: number | null,
+  type: string,
+  parentId: number | null
+): string | null {
+  if (!isLocationType(type)) {
+    return `Location type must be one of: ${LOCATION_TYPES.join(', ')}`;
+  }
+  if (parentId === null) {
+    return type === 'Site' ? null : 'Only sites can be top-level locations';
+  }
+
+  const parent = rows.find(row => row.id === parentId);
+  if (!parent) {
+    return 'Parent location not found';
+  }
+  if (locationId !== null && getDescendantIds(rows, locationId).includes(parentId)) {
+    return 'A location cannot be moved under itself or one of its children';
+  }
+  if (typeRank(type) <= typeRank(parent.type)) {
+    return `A ${type} cannot be placed inside a ${parent.type}`;
+  }
+  if (locationId !== null) {
+    const deepestChild = rows
+      .filter(row => row.parentId === locationId)
+      .reduce((max, row) => Math.max(max, typeRank(row.type)), -1);
+    if (deepestChild !== -1 && deepestChild <= typeRank(type)) {
+      return `A ${type} cannot contain its existing child locations`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find a location from an import value: its code, its full path or a unique name (case-insensitive)
+ */
+export function resolveLocationReference(rows: Location[], value: string): Location | undefined {
+  const needle = value.trim().toLowerCase();
+  if (!needle) return undefined;
+
+  const byCode = rows.find(row => row.code?.toLowerCase() === needle);
+  if (byCode) return byCode;
+
+  const paths = getLocationPaths(rows);
+  const normalizedPath = needle.split('/').map(part => part.trim()).join(LOCATION_PATH_SEPARATOR);
+  const byPath = rows.find(row => paths.get(row.id)?.toLowerCase() === normalizedPath);
+  if (byPath) return byPath;
+
+  const byName = rows.filter(row => row.name.toLowerCase() === needle);
+  return byName.length === 1 ? byName[0] : undefined;
+}
+
+/**
+ * Why assets cannot be checked in or out to the given location, or null when they can
+ * An absent location leaves the assets where they are
+ */
+export async function getDestinationLocationError(locationId: unknown): Promise<string | null> {
+  if (locationId === undefined || locationId === null) return null;
+  if (typeof locationId !== 'number' || !Number.isInteger(locationId) || locationId <= 0) {
+    return 'Invalid location ID';
+  }
+  const location = await getLocation(locationId);
+  if (!location) return 'Location not found';
+  if (!location.isActive) return 'Assets cannot be moved to an inactive location';
+  return null;
+}
+
+/**
+ * Move assets to another location in one database transaction
+ * Assets keep their assignment and status; only where they are kept changes
+ */
+export async function transferAssets(
+  assetIds: number[],
+  toLocationId: number,
+  handledById: number,
+  notes?: string | null
+): Promise<TransferResult> {
+  return db.transaction(async (tx) => {
+    const rows = await tx.select().from(assets).where(inArray(assets.id, assetIds)).for('update');
+    const toMove = rows.filter(asset => asset.locationId !== toLocationId);
+    const skipped = rows.filter(asset => asset.locationId === toLocationId).map(asset => asset.id);
+
+    if (toMove.length === 0) {
+      return { transferred: [], skipped };
+    }
+
+    const now = new Date();
+    await tx.update(assets)
+      .set({ locationId: toLocationId, updatedAt: now })
+      .where(inArray(assets.id, toMove.map(asset => asset.id)));
+
+    const transferred = await tx.insert(assetTransactions).values(toMove.map(asset => ({
+      assetId: asset.id,
+      type: 'Transfer' as const,
+      employeeId: asset.assignedEmployeeId,
+      handledById,
+      transactionDate: now,
+      conditionNotes: notes || null,
+      fromLocationId: asset.locationId,
+      toLocationId,
+    }))).returning();
+
+    return { transferred, skipped };
+  });
+}
+
+/**
+ * Number of assets stored directly in each location
+ */
+export async function countAssetsByLocation(): Promise<Map<number, number>> {
+  const rows = await db.select({ locationId: assets.locationId, count: sql<number>`count(*)::int` })
+    .from(assets)
+    .where(isNotNull(assets.locationId))
+    .groupBy(assets.locationId);
+  return new Map(rows.map(row => [row.locationId!, row.count]));
+}
+
+export async function getLocation(id: number): Promise<Location | undefined> {
+  const [location] = await db.select().from(locations).where(eq(locations.id, id));
+  return location;
+}
@@ -0,0 +1,309 @@
+/**
+ * Notification Email Service
+ * Email channel for in-app notifications, configured per category in notification_preferences.email_channels
+ * - immediate: queued right away, held until the user's Do Not Disturb window ends
+ * - hourly / daily: collected in notification_digest_items and sent as one bilingual digest
+ * All mail goes through the persistent email queue (emailQueueService)
+ * Uses native Node.js setInterval instead of node-cron
+ */
+
+import { db } from '../db';
+import { notificationDigestItems, notificationPreferences, users, type NotificationPreferences } from '@shared/schema';
+import { and, asc, eq, inArray, lt } from 'drizzle-orm';
+import { emailService } from '../emailService';
+import { enqueueEmail } from './emailQueueService';
+import { logger } from './logger';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Preference categories; each one has an in-app toggle and an email channel
+ */
+export const NOTIFICATION_PREFERENCE_KEYS = [
+  'ticketAssignments',
+  'ticketStatusChanges',
+  'assetAssignments',
+  'maintenanceAlerts',
+  'upgradeRequests',
+  'systemAnnouncements',
+  'employeeChanges',
+] as const;
+
+export type NotificationPreferenceKey = typeof NOTIFICATION_PREFERENCE_KEYS[number];
+
+export const EMAIL_FREQUENCIES = ['off', 'immediate', 'hourly', 'daily'] as const;
+
+export type EmailFrequency = typeof EMAIL_FREQUENCIES[number];
+
+export interface NotificationEmailParams {
+  userId: number;
+  title: string;
+  message: string;
+  type: 'Asset' | 'Ticket' | 'System' | 'Employee';
+  priority?: 'info' | 'low' | 'medium' | 'high' | 'critical';
+  preferenceKey?: NotificationPreferenceKey | null;
+}
+
+/**
+ * Configuration for the digest sender
+ */
+const DIGEST_CONFIG = {
+  // Whether digests are sent (can be disabled via env var)
+  enabled: process.env.NOTIFICATION_DIGEST_ENABLED !== 'false',
+
+  // How often due digests are checked (every 5 minutes)
+  checkInterval: 5 * MS_PER_MINUTE,
+};
+
+// Category used for email when the title/message does not identify a more specific one
+const TYPE_FALLBACK_KEYS: Record<NotificationEmailParams['type'], NotificationPreferenceKey> = {
+  Ticket: 'ticketStatusChanges',
+  Asset: 'assetAssignments',
+  System: 'systemAnnouncements',
+  Employee: 'employeeChanges',
+};
+
+/**
+ * Map a notification to its preference category from its type and wording
+ * An explicit preferenceKey (set for template-rendered notifications) wins over the wording
+ * Returns null when no category applies (the notification is always shown in-app)
+ */
+export function getNotificationPreferenceKey(params: {
+  type: string;
+  title: string;
+  message: string;
+  preferenceKey?: NotificationPreferenceKey | null;
+}): NotificationPreferenceKey | null {
+  if (params.preferenceKey !== undefined) return params.preferenceKey;
+
+  const message = params.message.toLowerCase();
+  const title = params.title.toLowerCase();
+
+  if (params.type === 'Ticket' && (message.includes('assigned') || title.includes('assigned'))) {
+    return 'ticketAssignments';
+  } else if (params.type === 'Ticket' && (message.includes('status') || title.includes('status'))) {
+    return 'ticketStatusChanges';
+  } else if (params.type === 'Asset' && (message.includes('assigned') || message.includes('checked') || title.includes('assigned'))) {
+    return 'assetAssignments';
+  } else if (params.type === 'Asset' && (message.includes('maintenance') || title.includes('maintenance'))) {
+    return 'maintenanceAlerts';
+  } else if (message.includes('upgrade') || title.includes('upgrade')) {
+    return 'upgradeRequests';
+  } else if (params.type === 'System') {
+    return 'systemAnnouncements';
+  } else if (params.type === 'Employee') {
+    return 'employeeChanges';
+  }
+  return null;
+}
+
+function formatClock(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Date at the given "HH:MM" on the same calendar day as `base`, plus dayOffset days
+ */
+function atClockTime(base: Date, time: string, dayOffset = 0): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(base);
+  date.setDate(date.getDate() + dayOffset);
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date;
+}
+
+/**
+ * When the user's Do Not Disturb window ends, or null if DND is not active at `now`
+ * Same rules as the in-app check: end minute inclusive, overnight ranges like 22:00-08:00,
+ * dndDays empty means every day
+ */
+export function getDndEndTime(prefs: NotificationPreferences, now: Date = new Date()): Date | null {
+  if (!prefs.dndEnabled || !prefs.dndStartTime || !prefs.dndEndTime) return null;
+
+  const dndDays = (prefs.dndDays as number[]) || [];
+  if (dndDays.length > 0 && !dndDays.includes(now.getDay())) return null;
+
+  const start = prefs.dndStartTime;
+  const end = prefs.dndEndTime;
+  const currentTime = formatClock(now);
+
+  if (start <= end) {
+    // Same day range (e.g., 09:00-17:00)
+    if (currentTime < start || currentTime > end) return null;
+    return new Date(atClockTime(now, end).getTime() + MS_PER_MINUTE);
+  }
+
+  // Overnight range (e.g., 22:00-08:00)
+  if (currentTime >= start) {
+    return new Date(atClockTime(now, end, 1).getTime() + MS_PER_MINUTE);
+  }
+  if (currentTime <= end) {
+    return new Date(atClockTime(now, end).getTime() + MS_PER_MINUTE);
+  }
+  return null;
+}
+
+/**
+ * Configured email frequency for a category; email is opt-in, so unset categories are off
+ */
+export function getEmailFrequency(prefs: NotificationPreferences, key: NotificationPreferenceKey): EmailFrequency {
+  const channels = (prefs.emailChannels as Partial<Record<NotificationPreferenceKey, EmailFrequency>>) || {};
+  const frequency = channels[key];
+  return frequency && EMAIL_FREQUENCIES.includes(frequency) ? frequency : 'off';
+}
+
+/**
+ * Route a notification to the user's email channel
+ * The email channel is independent of the in-app toggle for the same category
+ * Critical notifications are never held back by Do Not Disturb
+ */
+export async function queueNotificationEmail(
+  params: NotificationEmailParams,
+  prefs: NotificationPreferences
+): Promise<'queued' | 'digest' | 'skipped'> {
+  const key = getNotificationPreferenceKey(params) ?? TYPE_FALLBACK_KEYS[params.type];
+  const frequency = getEmailFrequency(prefs, key);
+  if (frequency === 'off') return 'skipped';
+
+  if (frequency === 'hourly' || frequency === 'daily') {
+    await db.insert(notificationDigestItems).values({
+      userId: params.userId,
+      frequency,
+      category: key,
+      title: params.title.slice(0, 255),
+      message: params.message,
+    });
+    return 'digest';
+  }
+
+  const [user] = await db.select({ email: users.email, isActive: users.isActive })
+    .from(users)
+    .where(eq(users.id, params.userId));
+  if (!user?.email || user.isActive === false) return 'skipped';
+
+  const email = emailService.renderNotificationEmail({
+    title: params.title,
+    message: params.message,
+    language: prefs.emailLanguage,
+  });
+
+  await enqueueEmail({
+    userId: params.userId,
+    to: user.email,
+    ...email,
+    sendAfter: params.priority === 'critical' ? null : getDndEndTime(prefs),
+  });
+  return 'queued';
+}
+
+/**
+ * Most recent daily send time at or before `now`
+ */
+function getDailyCutoff(dailyDigestTime: string, now: Date): Date {
+  const today = atClockTime(now, dailyDigestTime);
+  return today <= now ? today : atClockTime(now, dailyDigestTime, -1);
+}
+
+/**
+ * Queue digests whose period has ended
+ * - hourly: items created before the top of the current hour
+ * - daily: items created before the user's most recent dailyDigestTime
+ * Users inside their DND window are picked up on a later run once it ends
+ */
+export async function sendDueDigests(): Promise<{ digests: number; items: number }> {
+  const result = { digests: 0, items: 0 };
+  const now = new Date();
+
+  try {
+    const pending = await db.query.notificationDigestItems.findMany({
+      orderBy: [asc(notificationDigestItems.createdAt)]
+    });
+    if (pending.length === 0) return result;
+
+    const userIds = Array.from(new Set(pending.map(item => item.userId)));
+    const [prefsRows, userRows] = await Promise.all([
+      db.query.notificationPreferences.findMany({
+        where: inArray(notificationPreferences.userId, userIds)
+      }),
+      db.select({ id: users.id, email: users.email, isActive: users.isActive })
+        .from(users)
+        .where(inArray(users.id, userIds)),
+    ]);
+
+    const hourCutoff = new Date(now);
+    hourCutoff.setMinutes(0, 0, 0);
+
+    for (const userId of userIds) {
+      const prefs = prefsRows.find(row => row.userId === userId);
+      const user = userRows.find(row => row.id === userId);
+      if (!prefs || getDndEndTime(prefs, now)) continue;
+
+      for (const frequency of ['hourly', 'daily'] as const) {
+        const cutoff = frequency === 'hourly' ? hourCutoff : getDailyCutoff(prefs.dailyDigestTime, now);
+        const due = pending.filter(item =>
+          item.userId === userId &&
+          item.frequency === frequency &&
+          item.createdAt !== null &&
+          item.createdAt < cutoff
+        );
+        if (due.length === 0) continue;
+
+        if (user?.email && user.isActive !== false) {
+          const email = emailService.renderDigestEmail({
+            entries: due.map(item => ({ title: item.title, message: item.message, createdAt: item.createdAt })),
+            frequency,
+            language: prefs.emailLanguage,
+          });
+          await enqueueEmail({ userId, to: user.email, ...email });
+          result.digests++;
+        }
+
+        await db.delete(notificationDigestItems).where(and(
+          eq(notificationDigestItems.userId, userId),
+          eq(notificationDigestItems.frequency, frequency),
+          lt(notificationDigestItems.createdAt, cutoff)
+        ));
+        result.items += due.length;
+      }
+    }
+
+    if (result.digests > 0) {
+      logger.info('notifications', `Queued ${result.digests} notification digests (${result.items} items)`, {
+        userId: 0,
+        metadata: result
+      });
+    }
+  } catch (error) {
+    logger.error('notifications', 'Failed to send notification digests', {
+      userId: 0,
+      metadata: {},
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Start the digest scheduler
+ */
+export function startNotificationDigestScheduler() {
+  if (!DIGEST_CONFIG.enabled) {
+    logger.info('notifications', 'Notification digest scheduler disabled', {
+      userId: 0,
+      metadata: { reason: 'NOTIFICATION_DIGEST_ENABLED=false' }
+    });
+    return null;
+  }
+
+  const digestTask = setInterval(() => {
+    sendDueDigests();
+  }, DIGEST_CONFIG.checkInterval);
+
+  logger.info('notifications', 'Notification digest scheduler started successfully', {
+    userId: 0,
+    metadata: { checkInterval: `${DIGEST_CONFIG.checkInterval / MS_PER_MINUTE} minutes` }
+  });
+
+  return digestTask;
+}
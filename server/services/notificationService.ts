@@ -8,6 +8,7 @@ import { db } from '../db';
 import * as schema from '@shared/schema';
 import { createNotification } from '../routes/notifications';
 import { eq, and, gte, sql } from 'drizzle-orm';
+import { NOTIFICATION_EVENTS, renderNotification, type NotificationEvent, type TemplateVariables } from './notificationTemplateService';
 
 export interface NotificationTemplate {
   userId: number;
@@ -17,6 +18,34 @@ export interface NotificationTemplate {
   entityId?: number;
 }
 
+/**
+ * Render an event notification from its template in the recipient's language and store it
+ * Type, category and preference routing come from the event definition
+ */
+async function notifyEvent(event: NotificationEvent, params: {
+  userId: number;
+  variables: TemplateVariables;
+  entityId?: number;
+  priority: 'info' | 'low' | 'medium' | 'high' | 'critical';
+  skipEmail?: boolean;
+}) {
+  const definition = NOTIFICATION_EVENTS[event];
+  const { title, message, templateId } = await renderNotification(event, params.userId, params.variables);
+
+  return createNotification({
+    userId: params.userId,
+    title,
+    message,
+    type: definition.type,
+    entityId: params.entityId,
+    priority: params.priority,
+    category: definition.category,
+    preferenceKey: definition.preferenceKey,
+    templateId,
+    skipEmail: params.skipEmail,
+  });
+}
+
 /**
  * Create a notification for ticket assignment
  */
@@ -28,19 +57,12 @@ export async function notifyTicketAssignment(params: {
   entityId?: number;  // Optional: database ID for linking
 }) {
   const { ticketId, assignedToUserId, ticketTitle, assignedByUsername, entityId } = params;
-  
-  const message = assignedByUsername 
-    ? `${assignedByUsername} assigned you ticket ${ticketId}: ${ticketTitle}`
-    : `You have been assigned ticket ${ticketId}: ${ticketTitle}`;
 
-  return createNotification({
+  return notifyEvent('ticket.assigned', {
     userId: assignedToUserId,
-    title: `Ticket ${ticketId} Assigned to You`,
-    message,
-    type: 'Ticket',
+    variables: { ticketId, ticketTitle, assignedBy: assignedByUsername },
     entityId: entityId || (typeof ticketId === 'number' ? ticketId : undefined),
     priority: 'medium',
-    category: 'assignments',
   });
 }
 
@@ -57,14 +79,59 @@ export async function notifyTicketStatusChange(params: {
 }) {
   const { ticketId, userId, oldStatus, newStatus, ticketTitle, entityId } = params;
 
-  return createNotification({
+  return notifyEvent('ticket.status_changed', {
     userId,
-    title: `Ticket ${ticketId} Status Updated`,
-    message: `Ticket "${ticketTitle}" status changed from ${oldStatus} to ${newStatus}`,
-    type: 'Ticket',
+    variables: { ticketId, ticketTitle, oldStatus, newStatus },
     entityId: entityId || (typeof ticketId === 'number' ? ticketId : undefined),
     priority: 'low',
-    category: 'status_changes',
+  });
+}
+
+/**
+ * Create a notification when a submitter's ticket is merged into another ticket
+ */
+export async function notifyTicketMerged(params: {
+  userId: number;
+  mergedTicketId: string;     // Ticket ID string of the closed duplicate (TKT-000008)
+  primaryTicketId: string;    // Ticket ID string of the ticket it was merged into
+  ticketTitle: string;
+  entityId: number;           // Database ID of the primary ticket for linking
+}) {
+  const { userId, mergedTicketId, primaryTicketId, ticketTitle, entityId } = params;
+
+  return notifyEvent('ticket.merged', {
+    userId,
+    variables: { mergedTicketId, primaryTicketId, ticketTitle },
+    entityId,
+    priority: 'low',
+  });
+}
+
+/**
+ * Create a notification when a ticket's SLA is at risk or breached
+ */
+export async function notifySLAStatus(params: {
+  userId: number;
+  ticketId: string;           // Ticket ID string (TKT-000008)
+  ticketTitle: string;
+  slaStatus: 'at_risk' | 'breached';
+  dueAt?: Date | null;
+  escalated?: boolean;        // True when sent to a manager as an escalation
+  entityId: number;           // Database ID for linking
+}) {
+  const { userId, ticketId, ticketTitle, slaStatus, dueAt, escalated, entityId } = params;
+
+  return notifyEvent('ticket.sla', {
+    userId,
+    variables: {
+      ticketId,
+      ticketTitle,
+      breached: slaStatus === 'breached',
+      escalated: !!escalated,
+      dueAt: dueAt ? dueAt.toLocaleString() : '',
+    },
+    entityId,
+    priority: slaStatus === 'breached' ? 'high' : 'medium',
   });
 }
 
@@ -80,14 +147,11 @@ export async function notifyUrgentTicket(params: {
 }) {
   const { ticketId, assignedToUserId, ticketTitle, priority, entityId } = params;
 
-  return createNotification({
+  return notifyEvent('ticket.urgent', {
     userId: assignedToUserId,
-    title: `🚨 Urgent: Ticket ${ticketId} Assigned`,
-    message: `HIGH PRIORITY (${priority}): ${ticketTitle} - Please address immediately`,
-    type: 'Ticket',
+    variables: { ticketId, ticketTitle, priority },
     entityId: entityId || (typeof ticketId === 'number' ? ticketId : undefined),
     priority: 'high',
-    category: 'assignments',
   });
 }
 
@@ -103,16 +167,11 @@ export async function notifyAssetAssignment(params: {
 }) {
   const { assetId, userId, assetName, assetTag } = params;
 
-  const displayName = assetTag ? `${assetName} (${assetTag})` : assetName;
-
-  return createNotification({
+  return notifyEvent('asset.assigned', {
     userId,
-    title: 'New Asset Assigned to You',
-    message: `Asset "${displayName}" has been assigned to you`,
-    type: 'Asset',
+    variables: { assetName, assetTag },
     entityId: assetId,
     priority: 'medium',
-    category: 'assignments',
   });
 }
 
@@ -128,19 +187,11 @@ export async function notifyAssetUnassignment(params: {
 }) {
   const { assetId, userId, assetName, assetTag, unassignedBy } = params;
 
-  const displayName = assetTag ? `${assetName} (${assetTag})` : assetName;
-  const message = unassignedBy
-    ? `Asset "${displayName}" has been unassigned by ${unassignedBy}`
-    : `Asset "${displayName}" has been unassigned`;
-
-  return createNotification({
+  return notifyEvent('asset.unassigned', {
     userId,
-    title: 'Asset Unassigned',
-    message,
-    type: 'Asset',
+    variables: { assetName, assetTag, unassignedBy },
     entityId: assetId,
     priority: 'low',
-    category: 'assignments',
   });
 }
 
@@ -155,16 +206,11 @@ export async function notifyAssetTransaction(params: {
 }) {
   const { assetId, userId, assetName, transactionType } = params;
 
-  const action = transactionType === 'Check-Out' ? 'checked out to you' : 'returned';
-
-  return createNotification({
+  return notifyEvent('asset.transaction', {
     userId,
-    title: `Asset ${transactionType}`,
-    message: `Asset "${assetName}" has been ${action}`,
-    type: 'Asset',
+    variables: { assetName, transactionType, checkedOut: transactionType === 'Check-Out' },
     entityId: assetId,
     priority: 'low',
-    category: 'status_changes',
   });
 }
 
@@ -180,16 +226,11 @@ export async function notifyMaintenanceScheduled(params: {
 }) {
   const { assetId, userId, assetName, maintenanceDate, maintenanceType } = params;
 
-  const dateStr = maintenanceDate.toLocaleDateString();
-
-  return createNotification({
+  return notifyEvent('maintenance.scheduled', {
     userId,
-    title: 'Maintenance Scheduled on Your Asset',
-    message: `${maintenanceType} maintenance scheduled for "${assetName}" on ${dateStr}`,
-    type: 'Asset',
+    variables: { assetName, maintenanceType, maintenanceDate: maintenanceDate.toLocaleDateString() },
     entityId: assetId,
     priority: 'medium',
-    category: 'maintenance',
   });
 }
 
@@ -204,14 +245,11 @@ export async function notifyMaintenanceCompleted(params: {
 }) {
   const { assetId, userId, assetName, maintenanceType } = params;
 
-  return createNotification({
+  return notifyEvent('maintenance.completed', {
     userId,
-    title: 'Maintenance Completed',
-    message: `${maintenanceType} maintenance completed for your asset "${assetName}"`,
-    type: 'Asset',
+    variables: { assetName, maintenanceType },
     entityId: assetId,
     priority: 'low',
-    category: 'maintenance',
   });
 }
 
@@ -227,16 +265,11 @@ export async function notifyUpgradeRequest(params: {
 }) {
   const { upgradeId, managerId, assetName, requestedBy, upgradeCost } = params;
 
-  const costStr = upgradeCost ? ` (Est. Cost: $${upgradeCost.toFixed(2)})` : '';
-
-  return createNotification({
+  return notifyEvent('upgrade.requested', {
     userId: managerId,
-    title: 'Asset Upgrade Request Pending Approval',
-    message: `${requestedBy} requested an upgrade for "${assetName}"${costStr}`,
-    type: 'Asset',
+    variables: { assetName, requestedBy, upgradeCost: upgradeCost ? upgradeCost.toFixed(2) : '' },
     entityId: upgradeId,
     priority: 'medium',
-    category: 'approvals',
   });
 }
 
@@ -252,17 +285,11 @@ export async function notifyUpgradeDecision(params: {
 }) {
   const { upgradeId, requesterId, assetName, approved, approvedBy } = params;
 
-  const decision = approved ? 'approved' : 'rejected';
-  const emoji = approved ? '✅' : '❌';
-
-  return createNotification({
+  return notifyEvent('upgrade.decided', {
     userId: requesterId,
-    title: `${emoji} Upgrade Request ${approved ? 'Approved' : 'Rejected'}`,
-    message: `Your upgrade request for "${assetName}" was ${decision} by ${approvedBy}`,
-    type: 'Asset',
+    variables: { assetName, approved, approvedBy },
     entityId: upgradeId,
     priority: approved ? 'high' : 'medium',
-    category: 'approvals',
   });
 }
 
@@ -278,16 +305,11 @@ export async function notifyEmployeeOnboarding(params: {
 }) {
   const { employeeId, userId, employeeName, department, startDate } = params;
 
-  const dateStr = startDate.toLocaleDateString();
-
-  return createNotification({
+  return notifyEvent('employee.onboarding', {
     userId,
-    title: 'New Employee Onboarding',
-    message: `${employeeName} joining ${department} on ${dateStr}. Please prepare onboarding checklist.`,
-    type: 'Employee',
+    variables: { employeeName, department, startDate: startDate.toLocaleDateString() },
     entityId: employeeId,
     priority: 'medium',
-    category: 'reminders',
   });
 }
 
@@ -302,16 +324,193 @@ export async function notifyEmployeeOffboarding(params: {
 }) {
   const { employeeId, userId, employeeName, lastDay } = params;
 
-  const dateStr = lastDay.toLocaleDateString();
-
-  return createNotification({
+  return notifyEvent('employee.offboarding', {
     userId,
-    title: 'Employee Offboarding Required',
-    message: `${employeeName} leaving on ${dateStr}. Please initiate asset recovery and offboarding process.`,
-    type: 'Employee',
+    variables: { employeeName, lastDay: lastDay.toLocaleDateString() },
     entityId: employeeId,
     priority: 'high',
-    category: 'reminders',
+  });
+}
+
+/**
+ * Remind about an offboarding case that still has open checklist items
+ */
+export async function notifyOffboardingReminder(params: {
+  userId: number;
+  employeeId: number;
+  employeeName: string;
+  lastDay: Date;
+  daysLeft: number;
+  pendingTasks: number;
+  pendingItems?: string[];    // Titles of the open checklist items
+  escalated?: boolean;        // True when sent to managers/admins as an escalation
+}) {
+  const { userId, employeeId, employeeName, lastDay, daysLeft, pendingTasks, pendingItems, escalated } = params;
+
+  return notifyEvent('offboarding.reminder', {
+    userId,
+    variables: {
+      employeeName,
+      lastDay: lastDay.toLocaleDateString(),
+      daysLeft,
+      leavesToday: daysLeft === 0,
+      overdue: daysLeft < 0,
+      pendingTasks,
+      pendingItems: pendingItems || [],
+      escalated: !!escalated,
+    },
+    entityId: employeeId,
+    priority: daysLeft <= 1 ? 'critical' : 'high',
+  });
+}
+
+/**
+ * Create a notification for an upcoming license or subscription renewal
+ */
+export async function notifyLicenseRenewal(params: {
+  userId: number;
+  licenseId: number;
+  productName: string;
+  vendorName: string | null;
+  renewalDate: Date;
+  daysLeft: number;
+  autoRenew: boolean;
+  cost: string | null;        // Per billing cycle
+  seatCount: number;
+  usedSeats: number;
+}) {
+  const { userId, licenseId, productName, vendorName, renewalDate, daysLeft, autoRenew, cost, seatCount, usedSeats } = params;
+
+  return notifyEvent('license.renewal', {
+    userId,
+    variables: {
+      productName,
+      vendorName: vendorName || '',
+      renewalDate: renewalDate.toLocaleDateString(),
+      daysLeft,
+      renewsToday: daysLeft === 0,
+      autoRenew,
+      cost: cost ? parseFloat(cost).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '',
+      seatCount,
+      usedSeats,
+    },
+    entityId: licenseId,
+    priority: daysLeft <= 1 && !autoRenew ? 'high' : 'medium',
+  });
+}
+
+/**
+ * Create a notification for a consumable that dropped to its reorder threshold
+ */
+export async function notifyConsumableLowStock(params: {
+  userId: number;
+  consumableId: number;
+  name: string;
+  sku: string | null;
+  quantity: number;
+  minStock: number;
+  unit: string;
+}) {
+  const { userId, consumableId, name, sku, quantity, minStock, unit } = params;
+
+  return notifyEvent('consumable.low_stock', {
+    userId,
+    variables: {
+      name,
+      sku: sku || '',
+      quantity,
+      minStock,
+      unit,
+      outOfStock: quantity <= 0,
+    },
+    entityId: consumableId,
+    priority: quantity <= 0 ? 'high' : 'medium',
+  });
+}
+
+/**
+ * Ask an approver to review a submitted purchase order
+ */
+export async function notifyPurchaseOrderApproval(params: {
+  userId: number;
+  purchaseOrderId: number;
+  poNumber: string;
+  vendorName: string;
+  totalAmount: string;
+  requestedBy: string;
+}) {
+  const { userId, purchaseOrderId, poNumber, vendorName, totalAmount, requestedBy } = params;
+
+  return notifyEvent('purchase_order.approval_required', {
+    userId,
+    variables: { poNumber, vendorName, totalAmount, requestedBy },
+    entityId: purchaseOrderId,
+    priority: 'medium',
+  });
+}
+
+/**
+ * Tell the purchase order's creator it was approved or rejected
+ */
+export async function notifyPurchaseOrderDecision(params: {
+  userId: number;
+  purchaseOrderId: number;
+  poNumber: string;
+  vendorName: string;
+  approved: boolean;
+  decidedBy: string;
+  notes?: string | null;
+}) {
+  const { userId, purchaseOrderId, poNumber, vendorName, approved, decidedBy, notes } = params;
+
+  return notifyEvent('purchase_order.decided', {
+    userId,
+    variables: { poNumber, vendorName, approved, decidedBy, notes: notes || '' },
+    entityId: purchaseOrderId,
+    priority: approved ? 'medium' : 'high',
+  });
+}
+
+/**
+ * Tell the requester their service catalog request was approved (with its new ticket) or rejected
+ */
+export async function notifyServiceRequestDecision(params: {
+  userId: number;
+  serviceRequestId: number;
+  itemName: string;
+  approved: boolean;
+  decidedBy: string;
+  notes?: string | null;
+  ticketId?: string | null;
+}) {
+  const { userId, serviceRequestId, itemName, approved, decidedBy, notes, ticketId } = params;
+
+  return notifyEvent('service_request.decided', {
+    userId,
+    variables: { itemName, approved, decidedBy, notes: notes || '', ticketId: ticketId || '' },
+    entityId: serviceRequestId,
+    priority: approved ? 'medium' : 'high',
+  });
+}
+
+/**
+ * Ask an approver, or their delegate, to decide the current step of an approval chain
+ * skipEmail is set when the approver gets the email with approve/reject links instead
+ */
+export async function notifyApprovalStep(params: {
+  userId: number;
+  approvalRequestId: number;
+  variables: TemplateVariables;
+  skipEmail?: boolean;
+}) {
+  const { userId, approvalRequestId, variables, skipEmail } = params;
+
+  return notifyEvent('approval.step_required', {
+    userId,
+    variables,
+    entityId: approvalRequestId,
+    priority: 'medium',
+    skipEmail,
   });
 }
 
@@ -0,0 +1,766 @@
+/**
+ * Notification Template Service
+ * Renders notification titles/messages from admin-managed notification_templates
+ * - Each notify* event has a variable list and built-in English/Arabic defaults
+ * - The active template for the event and the recipient's language wins; otherwise the default is used
+ * - Template syntax: {{name}}, {{#if name}}...{{else}}...{{/if}}, {{#unless name}}...{{/unless}},
+ *   {{#each list}}...{{this}}...{{/each}}
+ */
+
+import { db } from '../db';
+import { notificationPreferences, notificationTemplates } from '@shared/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { logger } from './logger';
+import type { NotificationPreferenceKey } from './notificationEmailService';
+
+export const NOTIFICATION_LANGUAGES = ['English', 'Arabic'] as const;
+
+export type NotificationLanguage = typeof NOTIFICATION_LANGUAGES[number];
+
+export type TemplateVariables = Record<string, unknown>;
+
+interface VariableSpec {
+  description: string;
+  sample: unknown;
+  list?: boolean;              // Usable with {{#each}}; items are referenced as {{this}}
+}
+
+interface TemplateText {
+  title: string;
+  message: string;
+}
+
+interface NotificationEventDefinition {
+  description: string;
+  type: 'Asset' | 'Ticket' | 'System' | 'Employee';
+  category: 'assignments' | 'status_changes' | 'maintenance' | 'approvals' | 'announcements' | 'reminders' | 'alerts';
+  preferenceKey: NotificationPreferenceKey | null;
+  variables: Record<string, VariableSpec>;
+  defaults: Record<NotificationLanguage, TemplateText>;
+}
+
+const ticketVariables = {
+  ticketId: { description: 'Ticket number, e.g. TKT-000008', sample: 'TKT-000042' },
+  ticketTitle: { description: 'Ticket title', sample: 'Laptop does not boot' },
+};
+
+const assetVariables = {
+  assetName: { description: 'Asset type and brand', sample: 'Laptop Dell' },
+};
+
+/**
+ * Events rendered through templates, keyed by notification_templates.event_key
+ */
+export const NOTIFICATION_EVENTS = {
+  'ticket.assigned': {
+    description: 'A ticket is assigned to the recipient',
+    type: 'Ticket',
+    category: 'assignments',
+    preferenceKey: 'ticketAssignments',
+    variables: {
+      ...ticketVariables,
+      assignedBy: { description: 'Username of who assigned it (empty for automatic assignment)', sample: 'jsmith' },
+    },
+    defaults: {
+      English: {
+        title: 'Ticket {{ticketId}} Assigned to You',
+        message: '{{#if assignedBy}}{{assignedBy}} assigned you ticket {{ticketId}}: {{ticketTitle}}{{else}}You have been assigned ticket {{ticketId}}: {{ticketTitle}}{{/if}}',
+      },
+      Arabic: {
+        title: 'تم إسناد التذكرة {{ticketId}} إليك',
+        message: '{{#if assignedBy}}أسند إليك {{assignedBy}} التذكرة {{ticketId}}: {{ticketTitle}}{{else}}تم إسناد التذكرة {{ticketId}} إليك: {{ticketTitle}}{{/if}}',
+      },
+    },
+  },
+  'ticket.status_changed': {
+    description: 'A ticket the recipient follows changes status',
+    type: 'Ticket',
+    category: 'status_changes',
+    preferenceKey: 'ticketStatusChanges',
+    variables: {
+      ...ticketVariables,
+      oldStatus: { description: 'Previous status', sample: 'Open' },
+      newStatus: { description: 'New status', sample: 'In Progress' },
+    },
+    defaults: {
+      English: {
+        title: 'Ticket {{ticketId}} Status Updated',
+        message: 'Ticket "{{ticketTitle}}" status changed from {{oldStatus}} to {{newStatus}}',
+      },
+      Arabic: {
+        title: 'تم تحديث حالة التذكرة {{ticketId}}',
+        message: 'تغيرت حالة التذكرة "{{ticketTitle}}" من {{oldStatus}} إلى {{newStatus}}',
+      },
+    },
+  },
+  'ticket.merged': {
+    description: "The recipient's ticket is merged into another ticket",
+    type: 'Ticket',
+    category: 'status_changes',
+    preferenceKey: null,
+    variables: {
+      mergedTicketId: { description: 'Number of the closed duplicate', sample: 'TKT-000043' },
+      primaryTicketId: { description: 'Number of the ticket it was merged into', sample: 'TKT-000042' },
+      ticketTitle: ticketVariables.ticketTitle,
+    },
+    defaults: {
+      English: {
+        title: 'Ticket {{mergedTicketId}} Merged',
+        message: 'Your ticket "{{ticketTitle}}" was merged into {{primaryTicketId}}. Updates will continue on {{primaryTicketId}}.',
+      },
+      Arabic: {
+        title: 'تم دمج التذكرة {{mergedTicketId}}',
+        message: 'تم دمج تذكرتك "{{ticketTitle}}" في {{primaryTicketId}}. ستستمر التحديثات على {{primaryTicketId}}.',
+      },
+    },
+  },
+  'ticket.sla': {
+    description: 'A ticket is at risk of missing, or has missed, its SLA target',
+    type: 'Ticket',
+    category: 'alerts',
+    preferenceKey: null,
+    variables: {
+      ...ticketVariables,
+      breached: { description: 'True when the target was missed, false when at risk', sample: true },
+      escalated: { description: 'True when sent to a manager as an escalation', sample: false },
+      dueAt: { description: 'SLA due date and time (may be empty)', sample: '10/19/2026, 5:00:00 PM' },
+    },
+    defaults: {
+      English: {
+        title: '{{#if breached}}{{#if escalated}}Escalation: {{/if}}SLA Breached on Ticket {{ticketId}}{{else}}SLA At Risk on Ticket {{ticketId}}{{/if}}',
+        message: 'Ticket "{{ticketTitle}}" {{#if breached}}has missed{{else}}is approaching{{/if}} its SLA target{{#if dueAt}} (due {{dueAt}}){{/if}}',
+      },
+      Arabic: {
+        title: '{{#if breached}}{{#if escalated}}تصعيد: {{/if}}تجاوز اتفاقية مستوى الخدمة للتذكرة {{ticketId}}{{else}}اتفاقية مستوى الخدمة معرضة للتجاوز للتذكرة {{ticketId}}{{/if}}',
+        message: 'التذكرة "{{ticketTitle}}" {{#if breached}}تجاوزت{{else}}تقترب من{{/if}} هدف اتفاقية مستوى الخدمة{{#if dueAt}} (الموعد {{dueAt}}){{/if}}',
+      },
+    },
+  },
+  'ticket.urgent': {
+    description: 'A high or critical priority ticket is assigned to the recipient',
+    type: 'Ticket',
+    category: 'assignments',
+    preferenceKey: 'ticketAssignments',
+    variables: {
+      ...ticketVariables,
+      priority: { description: 'Ticket priority', sample: 'Critical' },
+    },
+    defaults: {
+      English: {
+        title: '🚨 Urgent: Ticket {{ticketId}} Assigned',
+        message: 'HIGH PRIORITY ({{priority}}): {{ticketTitle}} - Please address immediately',
+      },
+      Arabic: {
+        title: '🚨 عاجل: تم إسناد التذكرة {{ticketId}}',
+        message: 'أولوية عالية ({{priority}}): {{ticketTitle}} - يرجى المعالجة فوراً',
+      },
+    },
+  },
+  'asset.assigned': {
+    description: 'An asset is assigned to the recipient',
+    type: 'Asset',
+    category: 'assignments',
+    preferenceKey: 'assetAssignments',
+    variables: {
+      ...assetVariables,
+      assetTag: { description: 'Asset number (may be empty)', sample: 'SIT-00017' },
+    },
+    defaults: {
+      English: {
+        title: 'New Asset Assigned to You',
+        message: 'Asset "{{assetName}}{{#if assetTag}} ({{assetTag}}){{/if}}" has been assigned to you',
+      },
+      Arabic: {
+        title: 'تم إسناد أصل جديد إليك',
+        message: 'تم إسناد الأصل "{{assetName}}{{#if assetTag}} ({{assetTag}}){{/if}}" إليك',
+      },
+    },
+  },
+  'asset.unassigned': {
+    description: 'An asset is taken back from the recipient',
+    type: 'Asset',
+    category: 'assignments',
+    preferenceKey: 'assetAssignments',
+    variables: {
+      ...assetVariables,
+      assetTag: { description: 'Asset number (may be empty)', sample: 'SIT-00017' },
+      unassignedBy: { description: 'Who unassigned it (may be empty)', sample: 'jsmith' },
+    },
+    defaults: {
+      English: {
+        title: 'Asset Unassigned',
+        message: 'Asset "{{assetName}}{{#if assetTag}} ({{assetTag}}){{/if}}" has been unassigned{{#if unassignedBy}} by {{unassignedBy}}{{/if}}',
+      },
+      Arabic: {
+        title: 'تم إلغاء إسناد أصل',
+        message: 'تم إلغاء إسناد الأصل "{{assetName}}{{#if assetTag}} ({{assetTag}}){{/if}}"{{#if unassignedBy}} بواسطة {{unassignedBy}}{{/if}}',
+      },
+    },
+  },
+  'asset.transaction': {
+    description: 'An asset is checked out to or returned by the recipient',
+    type: 'Asset',
+    category: 'status_changes',
+    preferenceKey: 'assetAssignments',
+    variables: {
+      ...assetVariables,
+      transactionType: { description: 'Check-Out or Check-In', sample: 'Check-Out' },
+      checkedOut: { description: 'True for a check-out, false for a return', sample: true },
+    },
+    defaults: {
+      English: {
+        title: 'Asset {{transactionType}}',
+        message: 'Asset "{{assetName}}" has been {{#if checkedOut}}checked out to you{{else}}returned{{/if}}',
+      },
+      Arabic: {
+        title: '{{#if checkedOut}}تسليم أصل{{else}}إرجاع أصل{{/if}}',
+        message: '{{#if checkedOut}}تم تسليم الأصل "{{assetName}}" إليك{{else}}تم إرجاع الأصل "{{assetName}}"{{/if}}',
+      },
+    },
+  },
+  'maintenance.scheduled': {
+    description: "Maintenance is scheduled on the recipient's asset",
+    type: 'Asset',
+    category: 'maintenance',
+    preferenceKey: 'maintenanceAlerts',
+    variables: {
+      ...assetVariables,
+      maintenanceType: { description: 'Maintenance type', sample: 'Preventive' },
+      maintenanceDate: { description: 'Scheduled date', sample: '10/26/2026' },
+    },
+    defaults: {
+      English: {
+        title: 'Maintenance Scheduled on Your Asset',
+        message: '{{maintenanceType}} maintenance scheduled for "{{assetName}}" on {{maintenanceDate}}',
+      },
+      Arabic: {
+        title: 'تمت جدولة صيانة لأصلك',
+        message: 'تمت جدولة صيانة ({{maintenanceType}}) للأصل "{{assetName}}" بتاريخ {{maintenanceDate}}',
+      },
+    },
+  },
+  'maintenance.completed': {
+    description: "Maintenance on the recipient's asset is completed",
+    type: 'Asset',
+    category: 'maintenance',
+    preferenceKey: 'maintenanceAlerts',
+    variables: {
+      ...assetVariables,
+      maintenanceType: { description: 'Maintenance type', sample: 'Preventive' },
+    },
+    defaults: {
+      English: {
+        title: 'Maintenance Completed',
+        message: '{{maintenanceType}} maintenance completed for your asset "{{assetName}}"',
+      },
+      Arabic: {
+        title: 'اكتملت الصيانة',
+        message: 'اكتملت صيانة ({{maintenanceType}}) لأصلك "{{assetName}}"',
+      },
+    },
+  },
+  'upgrade.requested': {
+    description: 'An asset upgrade request waits for the recipient\'s approval',
+    type: 'Asset',
+    category: 'approvals',
+    preferenceKey: 'upgradeRequests',
+    variables: {
+      ...assetVariables,
+      requestedBy: { description: 'Who requested the upgrade', sample: 'jsmith' },
+      upgradeCost: { description: 'Estimated cost with two decimals (may be empty)', sample: '249.00' },
+    },
+    defaults: {
+      English: {
+        title: 'Asset Upgrade Request Pending Approval',
+        message: '{{requestedBy}} requested an upgrade for "{{assetName}}"{{#if upgradeCost}} (Est. Cost: ${{upgradeCost}}){{/if}}',
+      },
+      Arabic: {
+        title: 'طلب ترقية أصل بانتظار الموافقة',
+        message: 'طلب {{requestedBy}} ترقية للأصل "{{assetName}}"{{#if upgradeCost}} (التكلفة التقديرية: ${{upgradeCost}}){{/if}}',
+      },
+    },
+  },
+  'upgrade.decided': {
+    description: "The recipient's upgrade request is approved or rejected",
+    type: 'Asset',
+    category: 'approvals',
+    preferenceKey: 'upgradeRequests',
+    variables: {
+      ...assetVariables,
+      approved: { description: 'True when approved, false when rejected', sample: true },
+      approvedBy: { description: 'Who decided', sample: 'admin' },
+    },
+    defaults: {
+      English: {
+        title: '{{#if approved}}✅ Upgrade Request Approved{{else}}❌ Upgrade Request Rejected{{/if}}',
+        message: 'Your upgrade request for "{{assetName}}" was {{#if approved}}approved{{else}}rejected{{/if}} by {{approvedBy}}',
+      },
+      Arabic: {
+        title: '{{#if approved}}✅ تمت الموافقة على طلب الترقية{{else}}❌ تم رفض طلب الترقية{{/if}}',
+        message: '{{#if approved}}وافق{{else}}رفض{{/if}} {{approvedBy}} طلب الترقية الخاص بك للأصل "{{assetName}}"',
+      },
+    },
+  },
+  'employee.onboarding': {
+    description: 'A new employee is about to join',
+    type: 'Employee',
+    category: 'reminders',
+    preferenceKey: 'employeeChanges',
+    variables: {
+      employeeName: { description: 'Employee name', sample: 'Sara Ahmed' },
+      department: { description: 'Department', sample: 'Engineering' },
+      startDate: { description: 'Joining date', sample: '11/01/2026' },
+    },
+    defaults: {
+      English: {
+        title: 'New Employee Onboarding',
+        message: '{{employeeName}} joining {{department}} on {{startDate}}. Please prepare onboarding checklist.',
+      },
+      Arabic: {
+        title: 'تهيئة موظف جديد',
+        message: 'ينضم {{employeeName}} إلى قسم {{department}} بتاريخ {{startDate}}. يرجى تجهيز قائمة التهيئة.',
+      },
+    },
+  },
+  'employee.offboarding': {
+    description: 'An employee is leaving',
+    type: 'Employee',
+    category: 'reminders',
+    preferenceKey: 'employeeChanges',
+    variables: {
+      employeeName: { description: 'Employee name', sample: 'Sara Ahmed' },
+      lastDay: { description: 'Last working day', sample: '11/30/2026' },
+    },
+    defaults: {
+      English: {
+        title: 'Employee Offboarding Required',
+        message: '{{employeeName}} leaving on {{lastDay}}. Please initiate asset recovery and offboarding process.',
+      },
+      Arabic: {
+        title: 'مطلوب إنهاء خدمة موظف',
+        message: 'يغادر {{employeeName}} بتاريخ {{lastDay}}. يرجى بدء استرداد الأصول وإجراءات إنهاء الخدمة.',
+      },
+    },
+  },
+  'offboarding.reminder': {
+    description: 'An offboarding case still has open checklist items',
+    type: 'Employee',
+    category: 'reminders',
+    preferenceKey: 'employeeChanges',
+    variables: {
+      employeeName: { description: 'Employee name', sample: 'Sara Ahmed' },
+      lastDay: { description: 'Last working day', sample: '11/30/2026' },
+      daysLeft: { description: 'Days until the last day (negative when past)', sample: 3 },
+      leavesToday: { description: 'True when the last day is today', sample: false },
+      overdue: { description: 'True when the last day has passed', sample: false },
+      pendingTasks: { description: 'Number of open checklist items', sample: 2 },
+      pendingItems: { description: 'Titles of the open checklist items', sample: ['Return Laptop Dell (SIT-00017)', 'Manager sign-off'], list: true },
+      escalated: { description: 'True when sent to managers/admins as an escalation', sample: false },
+    },
+    defaults: {
+      English: {
+        title: '{{#if escalated}}Escalation: {{/if}}Offboarding Incomplete for {{employeeName}}',
+        message: '{{employeeName}} {{#if overdue}}left on {{lastDay}}{{else}}{{#if leavesToday}}leaves today{{else}}leaves on {{lastDay}} ({{daysLeft}} days left){{/if}}{{/if}}. Open offboarding items ({{pendingTasks}}): {{pendingItems}}',
+      },
+      Arabic: {
+        title: '{{#if escalated}}تصعيد: {{/if}}إنهاء خدمة {{employeeName}} غير مكتمل',
+        message: '{{#if overdue}}غادر {{employeeName}} بتاريخ {{lastDay}}{{else}}{{#if leavesToday}}يغادر {{employeeName}} اليوم{{else}}يغادر {{employeeName}} بتاريخ {{lastDay}} (متبقٍ {{daysLeft}} أيام){{/if}}{{/if}}. بنود إنهاء الخدمة المفتوحة ({{pendingTasks}}): {{pendingItems}}',
+      },
+    },
+  },
+  'license.renewal': {
+    description: 'A software license or subscription is due for renewal',
+    type: 'System',
+    category: 'reminders',
+    preferenceKey: 'maintenanceAlerts',
+    variables: {
+      productName: { description: 'Product name and edition', sample: 'Microsoft 365 Business Premium' },
+      vendorName: { description: 'Vendor name (empty when none is set)', sample: 'Microsoft' },
+      renewalDate: { description: 'Renewal date', sample: '12/01/2026' },
+      daysLeft: { description: 'Days until the renewal date', sample: 7 },
+      renewsToday: { description: 'True when the renewal date is today', sample: false },
+      autoRenew: { description: 'True when the subscription renews automatically', sample: false },
+      cost: { description: 'Cost per billing cycle (empty when not recorded)', sample: '1,250.00' },
+      seatCount: { description: 'Seats purchased', sample: 25 },
+      usedSeats: { description: 'Seats in use', sample: 21 },
+    },
+    defaults: {
+      English: {
+        title: '{{productName}} {{#if autoRenew}}Renews{{else}}Expires{{/if}} {{#if renewsToday}}Today{{else}}in {{daysLeft}} Days{{/if}}',
+        message: '{{productName}}{{#if vendorName}} ({{vendorName}}){{/if}} {{#if autoRenew}}renews automatically{{else}}must be renewed{{/if}} on {{renewalDate}}{{#if cost}} at {{cost}}{{/if}}. Seats in use: {{usedSeats}} of {{seatCount}}.',
+      },
+      Arabic: {
+        title: '{{#if autoRenew}}يتجدد{{else}}ينتهي{{/if}} {{productName}} {{#if renewsToday}}اليوم{{else}}خلال {{daysLeft}} أيام{{/if}}',
+        message: '{{#if autoRenew}}يتجدد{{else}}يجب تجديد{{/if}} {{productName}}{{#if vendorName}} ({{vendorName}}){{/if}} {{#if autoRenew}}تلقائياً {{/if}}بتاريخ {{renewalDate}}{{#if cost}} بتكلفة {{cost}}{{/if}}. المقاعد المستخدمة: {{usedSeats}} من {{seatCount}}.',
+      },
+    },
+  },
+  'consumable.low_stock': {
+    description: 'A consumable has dropped to its reorder threshold',
+    type: 'System',
+    category: 'alerts',
+    preferenceKey: 'maintenanceAlerts',
+    variables: {
+      name: { description: 'Consumable name', sample: 'USB-C Charger 65W' },
+      sku: { description: 'Stock code (empty when none is set)', sample: 'CHG-65W' },
+      quantity: { description: 'Total quantity on hand across locations', sample: 3 },
+      minStock: { description: 'Reorder threshold', sample: 5 },
+      unit: { description: 'Unit of measure', sample: 'pcs' },
+      outOfStock: { description: 'True when nothing is left', sample: false },
+    },
+    defaults: {
+      English: {
+        title: '{{#if outOfStock}}Out of Stock{{else}}Low Stock{{/if}}: {{name}}',
+        message: '{{name}}{{#if sku}} ({{sku}}){{/if}} is down to {{quantity}} {{unit}}; the reorder threshold is {{minStock}}.',
+      },
+      Arabic: {
+        title: '{{#if outOfStock}}نفاد المخزون{{else}}انخفاض المخزون{{/if}}: {{name}}',
+        message: 'انخفض مخزون {{name}}{{#if sku}} ({{sku}}){{/if}} إلى {{quantity}} {{unit}}؛ حد إعادة الطلب هو {{minStock}}.',
+      },
+    },
+  },
+  'purchase_order.approval_required': {
+    description: 'A submitted purchase order is above the auto-approval limit and waits for the recipient\'s approval',
+    type: 'System',
+    category: 'approvals',
+    preferenceKey: 'upgradeRequests',
+    variables: {
+      poNumber: { description: 'Purchase order number', sample: 'PO-00012' },
+      vendorName: { description: 'Vendor name', sample: 'Dell Technologies' },
+      totalAmount: { description: 'Order total with two decimals', sample: '4380.00' },
+      requestedBy: { description: 'Who submitted the order', sample: 'jsmith' },
+    },
+    defaults: {
+      English: {
+        title: 'Purchase Order {{poNumber}} Pending Approval',
+        message: '{{requestedBy}} submitted {{poNumber}} to {{vendorName}} for {{totalAmount}}',
+      },
+      Arabic: {
+        title: 'أمر الشراء {{poNumber}} بانتظار الموافقة',
+        message: 'قدم {{requestedBy}} أمر الشراء {{poNumber}} إلى {{vendorName}} بمبلغ {{totalAmount}}',
+      },
+    },
+  },
+  'purchase_order.decided': {
+    description: "The recipient's purchase order is approved or rejected",
+    type: 'System',
+    category: 'approvals',
+    preferenceKey: 'upgradeRequests',
+    variables: {
+      poNumber: { description: 'Purchase order number', sample: 'PO-00012' },
+      vendorName: { description: 'Vendor name', sample: 'Dell Technologies' },
+      approved: { description: 'True when approved, false when rejected', sample: true },
+      decidedBy: { description: 'Who decided', sample: 'admin' },
+      notes: { description: 'Approver\'s comment (may be empty)', sample: 'Go with the 3-year warranty' },
+    },
+    defaults: {
+      English: {
+        title: '{{#if approved}}✅ Purchase Order Approved{{else}}❌ Purchase Order Rejected{{/if}}: {{poNumber}}',
+        message: '{{poNumber}} to {{vendorName}} was {{#if approved}}approved{{else}}rejected{{/if}} by {{decidedBy}}{{#if notes}}: {{notes}}{{/if}}',
+      },
+      Arabic: {
+        title: '{{#if approved}}✅ تمت الموافقة على أمر الشراء{{else}}❌ تم رفض أمر الشراء{{/if}}: {{poNumber}}',
+        message: '{{#if approved}}وافق{{else}}رفض{{/if}} {{decidedBy}} أمر الشراء {{poNumber}} إلى {{vendorName}}{{#if notes}}: {{notes}}{{/if}}',
+      },
+    },
+  },
+  'service_request.decided': {
+    description: "The recipient's service catalog request is approved (its ticket is opened) or rejected",
+    type: 'Ticket',
+    category: 'status_changes',
+    preferenceKey: 'ticketStatusChanges',
+    variables: {
+      itemName: { description: 'Catalog item requested', sample: 'New laptop' },
+      approved: { description: 'True when approved, false when rejected', sample: true },
+      decidedBy: { description: 'Who decided', sample: 'jsmith' },
+      notes: { description: 'Approver\'s comment (may be empty)', sample: 'Approved for the new project' },
+      ticketId: { description: 'Ticket opened for the request (empty when rejected)', sample: 'TKT-000042' },
+    },
+    defaults: {
+      English: {
+        title: '{{#if approved}}✅ Request Approved{{else}}❌ Request Rejected{{/if}}: {{itemName}}',
+        message: 'Your {{itemName}} request was {{#if approved}}approved{{else}}rejected{{/if}} by {{decidedBy}}{{#if notes}}: {{notes}}{{/if}}{{#if ticketId}}. Track it as {{ticketId}}{{/if}}',
+      },
+      Arabic: {
+        title: '{{#if approved}}✅ تمت الموافقة على الطلب{{else}}❌ تم رفض الطلب{{/if}}: {{itemName}}',
+        message: '{{#if approved}}وافق{{else}}رفض{{/if}} {{decidedBy}} طلبك {{itemName}}{{#if notes}}: {{notes}}{{/if}}{{#if ticketId}}. تابعه برقم {{ticketId}}{{/if}}',
+      },
+    },
+  },
+  'approval.step_required': {
+    description: 'A request reached an approval chain step the recipient (or the approver they stand in for) decides',
+    type: 'System',
+    category: 'approvals',
+    preferenceKey: 'upgradeRequests',
+    variables: {
+      requestType: { description: 'Kind of request, e.g. Upgrade request or Purchase order', sample: 'Purchase order' },
+      title: { description: 'What is being approved', sample: 'PO-00012 - Dell Technologies' },
+      stepName: { description: 'Name of the chain step', sample: 'Finance' },
+      requestedBy: { description: 'Who raised the request', sample: 'jsmith' },
+      amount: { description: 'Amount with two decimals (may be empty)', sample: '4380.00' },
+      onBehalfOf: { description: 'Approver the recipient is delegated for (empty when approving directly)', sample: '' },
+    },
+    defaults: {
+      English: {
+        title: 'Approval Needed: {{title}}',
+        message: '{{requestType}} from {{requestedBy}}{{#if amount}} for {{amount}}{{/if}} is waiting at the {{stepName}} step{{#if onBehalfOf}} (on behalf of {{onBehalfOf}}){{/if}}',
+      },
+      Arabic: {
+        title: 'مطلوب موافقة: {{title}}',
+        message: '{{requestType}} من {{requestedBy}}{{#if amount}} بمبلغ {{amount}}{{/if}} بانتظار خطوة {{stepName}}{{#if onBehalfOf}} (نيابة عن {{onBehalfOf}}){{/if}}',
+      },
+    },
+  },
+} satisfies Record<string, NotificationEventDefinition>;
+
+export type NotificationEvent = keyof typeof NOTIFICATION_EVENTS;
+
+export function isNotificationEvent(value: unknown): value is NotificationEvent {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(NOTIFICATION_EVENTS, value);
+}
+
+// ============================================================================
+// Template engine
+// ============================================================================
+
+type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'var'; name: string }
+  | { kind: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { kind: 'each'; name: string; body: TemplateNode[] };
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([^{}]*?)\s*\}\}/g;
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Parse template source into nodes; throws TemplateSyntaxError on malformed tags or unbalanced blocks
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const open: { helper: string; node: TemplateNode; parent: TemplateNode[]; inElse: boolean }[] = [];
+  let current = root;
+  let last = 0;
+
+  for (const match of Array.from(source.matchAll(TAG_PATTERN))) {
+    const index = match.index ?? 0;
+    if (index > last) current.push({ kind: 'text', value: source.slice(last, index) });
+    last = index + match[0].length;
+
+    const [, marker, body] = match;
+
+    if (marker === '#') {
+      const [helper, name, ...rest] = body.split(/\s+/);
+      if (helper !== 'if' && helper !== 'unless' && helper !== 'each') {
+        throw new TemplateSyntaxError(`Unknown block "{{#${helper}}}" - use #if, #unless or #each`);
+      }
+      if (!name || rest.length > 0 || !NAME_PATTERN.test(name)) {
+        throw new TemplateSyntaxError(`"{{#${helper}}}" needs exactly one variable name`);
+      }
+      const node: TemplateNode = helper === 'each'
+        ? { kind: 'each', name, body: [] }
+        : { kind: 'if', name, negate: helper === 'unless', then: [], otherwise: [] };
+      current.push(node);
+      open.push({ helper, node, parent: current, inElse: false });
+      current = node.kind === 'each' ? node.body : (node as Extract<TemplateNode, { kind: 'if' }>).then;
+    } else if (marker === '/') {
+      const block = open.pop();
+      if (!block) throw new TemplateSyntaxError(`"{{/${body}}}" has no matching opening block`);
+      if (block.helper !== body) {
+        throw new TemplateSyntaxError(`"{{#${block.helper}}}" is closed by "{{/${body}}}"`);
+      }
+      current = block.parent;
+    } else if (body === 'else') {
+      const block = open[open.length - 1];
+      if (!block || block.node.kind !== 'if' || block.inElse) {
+        throw new TemplateSyntaxError('"{{else}}" must be inside an #if or #unless block');
+      }
+      block.inElse = true;
+      current = block.node.otherwise;
+    } else {
+      if (body !== 'this' && !NAME_PATTERN.test(body)) {
+        throw new TemplateSyntaxError(`"{{${body}}}" is not a valid variable name`);
+      }
+      current.push({ kind: 'var', name: body });
+    }
+  }
+
+  if (last < source.length) current.push({ kind: 'text', value: source.slice(last) });
+  if (open.length > 0) {
+    throw new TemplateSyntaxError(`"{{#${open[open.length - 1].helper}}}" is never closed`);
+  }
+
+  return root;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], variables: TemplateVariables, items: unknown[]): string {
+  return nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.value;
+      case 'var':
+        return stringify(node.name === 'this' ? items[items.length - 1] : variables[node.name]);
+      case 'if':
+        return isTruthy(variables[node.name]) !== node.negate
+          ? renderNodes(node.then, variables, items)
+          : renderNodes(node.otherwise, variables, items);
+      case 'each': {
+        const list = variables[node.name];
+        if (!Array.isArray(list)) return '';
+        return list.map(item => renderNodes(node.body, variables, [...items, item])).join('');
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Render template source with the given variables
+ * Missing variables render as empty text; arrays outside #each are joined with ", "
+ */
+export function renderTemplate(source: string, variables: TemplateVariables): string {
+  return renderNodes(parseTemplate(source), variables, []);
+}
+
+function collectProblems(
+  nodes: TemplateNode[],
+  allowed: Record<string, { list?: boolean }>,
+  insideEach: boolean,
+  problems: Set<string>
+) {
+  for (const node of nodes) {
+    if (node.kind === 'var') {
+      if (node.name === 'this') {
+        if (!insideEach) problems.add('"{{this}}" can only be used inside an #each block');
+      } else if (!allowed[node.name]) {
+        problems.add(`Unknown variable "${node.name}"`);
+      }
+    } else if (node.kind === 'if') {
+      if (!allowed[node.name]) problems.add(`Unknown variable "${node.name}"`);
+      collectProblems(node.then, allowed, insideEach, problems);
+      collectProblems(node.otherwise, allowed, insideEach, problems);
+    } else if (node.kind === 'each') {
+      if (!allowed[node.name]) {
+        problems.add(`Unknown variable "${node.name}"`);
+      } else if (!allowed[node.name].list) {
+        problems.add(`"${node.name}" is not a list and cannot be used with #each`);
+      }
+      collectProblems(node.body, allowed, true, problems);
+    }
+  }
+}
+
+/**
+ * Check title and message templates for syntax errors and variables the event does not supply
+ * Templates without an event are checked against their own declared variable names
+ * Returns a list of problems; empty when the template is valid
+ */
+export function validateNotificationTemplate(params: {
+  eventKey?: string | null;
+  titleTemplate: string;
+  messageTemplate: string;
+  variables?: string[];
+}): string[] {
+  let allowed: Record<string, { list?: boolean }>;
+  if (params.eventKey) {
+    if (!isNotificationEvent(params.eventKey)) return [`Unknown event "${params.eventKey}"`];
+    const definition: NotificationEventDefinition = NOTIFICATION_EVENTS[params.eventKey];
+    allowed = definition.variables;
+  } else {
+    allowed = Object.fromEntries((params.variables || []).map(name => [name, { list: true }]));
+  }
+
+  const problems: string[] = [];
+  for (const [label, source] of [['Title', params.titleTemplate], ['Message', params.messageTemplate]] as const) {
+    try {
+      const found = new Set<string>();
+      collectProblems(parseTemplate(source), allowed, false, found);
+      found.forEach(problem => problems.push(`${label}: ${problem}`));
+    } catch (error) {
+      problems.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Sample variable values for previewing a template of the given event
+ */
+export function getSampleVariables(eventKey: NotificationEvent): TemplateVariables {
+  const variables: Record<string, VariableSpec> = NOTIFICATION_EVENTS[eventKey].variables;
+  return Object.fromEntries(Object.entries(variables).map(([name, spec]) => [name, spec.sample]));
+}
+
+// ============================================================================
+// Rendering for delivery
+// ============================================================================
+
+/**
+ * Language the recipient reads notifications in (from notification preferences)
+ */
+export async function getRecipientLanguage(userId: number): Promise<NotificationLanguage> {
+  const [prefs] = await db.select({ emailLanguage: notificationPreferences.emailLanguage })
+    .from(notificationPreferences)
+    .where(eq(notificationPreferences.userId, userId));
+  return prefs?.emailLanguage === 'Arabic' ? 'Arabic' : 'English';
+}
+
+/**
+ * Render the title and message of an event notification for one recipient
+ * Uses the active template for the event and language, falling back to the built-in default
+ * templateId is set only when an admin template was used
+ */
+export async function renderNotification(
+  event: NotificationEvent,
+  userId: number,
+  variables: TemplateVariables
+): Promise<{ title: string; message: string; templateId?: number }> {
+  const language = await getRecipientLanguage(userId);
+
+  try {
+    const [template] = await db.select()
+      .from(notificationTemplates)
+      .where(and(
+        eq(notificationTemplates.eventKey, event),
+        eq(notificationTemplates.language, language),
+        eq(notificationTemplates.isActive, true)
+      ))
+      .orderBy(desc(notificationTemplates.updatedAt))
+      .limit(1);
+
+    if (template) {
+      return {
+        title: renderTemplate(template.titleTemplate, variables).slice(0, 255),
+        message: renderTemplate(template.messageTemplate, variables),
+        templateId: template.id,
+      };
+    }
+  } catch (error) {
+    logger.warn('notification-templates', `Falling back to the built-in ${event} notification`, {
+      userId,
+      metadata: { event, language },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  }
+
+  const fallback: TemplateText = NOTIFICATION_EVENTS[event].defaults[language];
+  return {
+    title: renderTemplate(fallback.title, variables).slice(0, 255),
+    message: renderTemplate(fallback.message, variables),
+  };
+}
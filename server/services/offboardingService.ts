@@ -0,0 +1,508 @@
+/**
+ * Offboarding Service
+ * Opens an offboarding case with a checklist when an employee gets an exit date
+ * or moves to Resigned/Terminated
+ * - Checklist: return each assigned asset (through check-in), disable the linked user
+ *   account, transfer open tickets, manager sign-off
+ * - Asset, account and ticket items complete themselves once the underlying change is made
+ * - Reminders escalate as the exit date approaches; a clearance certificate is available
+ *   once every item is done
+ * - Completing a case releases the employee's software license seats
+ * Uses native Node.js setInterval instead of node-cron
+ */
+
+import { db } from '../db';
+import {
+  offboardingCases, offboardingTasks, employees, assets, users, tickets,
+  type Employee, type OffboardingCase, type OffboardingTask
+} from '@shared/schema';
+import { and, asc, eq, gte, inArray, isNotNull, notExists } from 'drizzle-orm';
+import * as notificationService from './notificationService';
+import { releaseEmployeeSeats } from './licenseService';
+import { logger } from './logger';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const OFFBOARDING_TASK_TYPES = ['return_asset', 'disable_account', 'transfer_tickets', 'manager_signoff'] as const;
+export type OffboardingTaskType = typeof OFFBOARDING_TASK_TYPES[number];
+
+// Ticket statuses that still need an owner after the employee leaves
+export const OPEN_TICKET_STATUSES = ['Open', 'In Progress'] as const;
+
+/**
+ * Configuration for offboarding reminders
+ */
+export const OFFBOARDING_CONFIG = {
+  // Whether the reminder job runs (can be disabled via env var)
+  enabled: process.env.OFFBOARDING_REMINDERS_ENABLED !== 'false',
+
+  // How often cases are checked (every hour)
+  checkInterval: 60 * 60 * 1000,
+
+  // Employees with an exit date this many days ahead get a case even if no update opened one
+  // (e.g. imported records)
+  lookaheadDays: parseInt(process.env.OFFBOARDING_LOOKAHEAD_DAYS || '30'),
+};
+
+// Escalation ladder by days left until the exit date; each level is sent once per case
+// Level 1 goes to the direct manager, later levels also to managers/admins
+const REMINDER_LEVELS = [
+  { level: 1, daysLeft: 7 },
+  { level: 2, daysLeft: 3 },
+  { level: 3, daysLeft: 1 },
+  { level: 4, daysLeft: -1 }, // Exit date has passed
+];
+
+let isProcessing = false;
+
+export interface OffboardingCaseDetails {
+  offboardingCase: OffboardingCase;
+  tasks: OffboardingTask[];
+  employee: Employee;
+}
+
+/**
+ * Why an employee update should open an offboarding case, or null when it should not
+ */
+export function getOffboardingTrigger(
+  before: Pick<Employee, 'status' | 'exitDate'> | undefined,
+  after: Pick<Employee, 'status' | 'exitDate'>
+): string | null {
+  if ((after.status === 'Resigned' || after.status === 'Terminated') && before?.status !== after.status) {
+    return after.status;
+  }
+  if (after.exitDate && after.exitDate !== before?.exitDate) {
+    return 'exit_date';
+  }
+  return null;
+}
+
+/**
+ * Whole days from today until a YYYY-MM-DD date (negative once it has passed)
+ */
+export function daysUntil(date: string): number {
+  const today = new Date();
+  const todayUtc = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.round((Date.UTC(year, month - 1, day) - todayUtc) / MS_PER_DAY);
+}
+
+/**
+ * Users who receive escalations: active managers and admins
+ */
+async function getEscalationManagers(): Promise<number[]> {
+  const managers = await db.select({ id: users.id })
+    .from(users)
+    .where(and(inArray(users.role, ['manager', 'admin']), eq(users.isActive, true)));
+  return managers.map(m => m.id);
+}
+
+/**
+ * The linked user account of the employee's direct manager, if any
+ */
+async function getDirectManagerUserId(employee: Employee): Promise<number | null> {
+  if (!employee.directManager) return null;
+  const [manager] = await db.select({ userId: employees.userId })
+    .from(employees)
+    .where(eq(employees.id, employee.directManager));
+  return manager?.userId ?? null;
+}
+
+async function getOpenTicketCount(userId: number): Promise<number> {
+  const open = await db.select({ id: tickets.id })
+    .from(tickets)
+    .where(and(eq(tickets.assignedToId, userId), inArray(tickets.status, [...OPEN_TICKET_STATUSES])));
+  return open.length;
+}
+
+/**
+ * Add checklist items the case does not have yet
+ * Runs on open and on every sync so assets assigned after the case was opened are picked up
+ */
+async function ensureCaseTasks(caseId: number, employee: Employee, existing: OffboardingTask[]) {
+  const newTasks: (typeof offboardingTasks.$inferInsert)[] = [];
+  const hasTask = (type: OffboardingTaskType) => existing.some(task => task.type === type);
+
+  const trackedAssetIds = new Set(existing.filter(task => task.assetId).map(task => task.assetId));
+  const assignedAssets = await db.select().from(assets)
+    .where(eq(assets.assignedEmployeeId, employee.id))
+    .orderBy(asc(assets.assetId));
+  for (const asset of assignedAssets.filter(a => !trackedAssetIds.has(a.id))) {
+    const label = [asset.type, asset.brand, asset.modelName].filter(Boolean).join(' ');
+    newTasks.push({
+      caseId,
+      type: 'return_asset',
+      assetId: asset.id,
+      title: `Return ${asset.assetId}${label ? ` (${label})` : ''}`,
+    });
+  }
+
+  if (employee.userId && !hasTask('disable_account')) {
+    newTasks.push({ caseId, type: 'disable_account', title: 'Disable user account' });
+  }
+  if (employee.userId && !hasTask('transfer_tickets')) {
+    newTasks.push({ caseId, type: 'transfer_tickets', title: 'Transfer open tickets' });
+  }
+  if (!hasTask('manager_signoff')) {
+    newTasks.push({ caseId, type: 'manager_signoff', title: 'Manager sign-off' });
+  }
+
+  if (newTasks.length === 0) return existing;
+  const created = await db.insert(offboardingTasks).values(newTasks).returning();
+  return [...existing, ...created];
+}
+
+/**
+ * Open (or refresh) the offboarding case for an employee
+ * An employee has at most one open case; a changed exit date restarts its reminders
+ */
+export async function openOffboardingCase(
+  employee: Employee,
+  options: { reason: string; createdById?: number | null }
+): Promise<OffboardingCase> {
+  const [existing] = await db.select().from(offboardingCases)
+    .where(and(eq(offboardingCases.employeeId, employee.id), eq(offboardingCases.status, 'open')));
+
+  if (existing) {
+    if (employee.exitDate !== existing.exitDate) {
+      await db.update(offboardingCases)
+        .set({ exitDate: employee.exitDate, lastReminderLevel: 0, lastReminderAt: null, updatedAt: new Date() })
+        .where(eq(offboardingCases.id, existing.id));
+    }
+    const details = await syncOffboardingCase(existing.id);
+    return details!.offboardingCase;
+  }
+
+  const [created] = await db.insert(offboardingCases).values({
+    employeeId: employee.id,
+    exitDate: employee.exitDate,
+    reason: options.reason,
+    createdById: options.createdById ?? null,
+  }).returning();
+
+  await ensureCaseTasks(created.id, employee, []);
+
+  logger.info('offboarding', `Offboarding case opened for ${employee.englishName}`, {
+    userId: options.createdById ?? 0,
+    metadata: { caseId: created.id, employeeId: employee.id, reason: options.reason }
+  });
+
+  try {
+    const managerUserId = await getDirectManagerUserId(employee);
+    const recipients = managerUserId ? [managerUserId] : await getEscalationManagers();
+    for (const userId of recipients) {
+      await notificationService.notifyEmployeeOffboarding({
+        employeeId: employee.id,
+        userId,
+        employeeName: employee.englishName,
+        lastDay: employee.exitDate ? new Date(employee.exitDate) : new Date(),
+      });
+    }
+  } catch (error) {
+    logger.error('offboarding', 'Failed to notify about new offboarding case', {
+      userId: 0,
+      metadata: { caseId: created.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  }
+
+  return created;
+}
+
+/**
+ * Open a case for an employee update when it warrants one; failures are logged, never thrown,
+ * so the employee update itself always succeeds
+ */
+export async function handleEmployeeOffboardingTrigger(
+  before: Pick<Employee, 'status' | 'exitDate'> | undefined,
+  after: Employee,
+  createdById?: number
+): Promise<void> {
+  const reason = getOffboardingTrigger(before, after);
+  if (!reason) return;
+
+  try {
+    await openOffboardingCase(after, { reason, createdById });
+  } catch (error) {
+    logger.error('offboarding', 'Failed to open offboarding case', {
+      userId: createdById ?? 0,
+      metadata: { employeeId: after.id, reason },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  }
+}
+
+/**
+ * Bring a case up to date with the employee's current assets, account and tickets
+ * Completes the case once every item is done or waived
+ */
+export async function syncOffboardingCase(caseId: number): Promise<OffboardingCaseDetails | null> {
+  let [offboardingCase] = await db.select().from(offboardingCases).where(eq(offboardingCases.id, caseId));
+  if (!offboardingCase) return null;
+
+  const [employee] = await db.select().from(employees).where(eq(employees.id, offboardingCase.employeeId));
+  let tasks = await db.select().from(offboardingTasks)
+    .where(eq(offboardingTasks.caseId, caseId))
+    .orderBy(asc(offboardingTasks.id));
+
+  if (offboardingCase.status !== 'open') {
+    return { offboardingCase, tasks, employee };
+  }
+
+  tasks = await ensureCaseTasks(caseId, employee, tasks);
+
+  const now = new Date();
+  for (const task of tasks.filter(t => t.status === 'pending')) {
+    let done = false;
+    let notes: string | null = null;
+
+    if (task.type === 'return_asset') {
+      const [asset] = task.assetId
+        ? await db.select({ assignedEmployeeId: assets.assignedEmployeeId }).from(assets).where(eq(assets.id, task.assetId))
+        : [];
+      done = !asset || asset.assignedEmployeeId !== employee.id;
+      notes = asset ? 'Asset checked in' : 'Asset no longer exists';
+    } else if (task.type === 'disable_account') {
+      const [user] = employee.userId
+        ? await db.select({ isActive: users.isActive }).from(users).where(eq(users.id, employee.userId))
+        : [];
+      done = !user || !user.isActive;
+      notes = 'Account disabled';
+    } else if (task.type === 'transfer_tickets') {
+      done = !employee.userId || (await getOpenTicketCount(employee.userId)) === 0;
+      notes = 'No open tickets remain';
+    }
+
+    if (done) {
+      const [updated] = await db.update(offboardingTasks)
+        .set({ status: 'done', completedAt: now, notes: task.notes ?? notes })
+        .where(eq(offboardingTasks.id, task.id))
+        .returning();
+      tasks = tasks.map(t => (t.id === updated.id ? updated : t));
+    }
+  }
+
+  if (tasks.every(t => t.status !== 'pending')) {
+    [offboardingCase] = await db.update(offboardingCases)
+      .set({ status: 'completed', completedAt: now, updatedAt: now })
+      .where(eq(offboardingCases.id, caseId))
+      .returning();
+
+    logger.info('offboarding', `Offboarding case completed for ${employee.englishName}`, {
+      userId: 0,
+      metadata: { caseId, employeeId: employee.id }
+    });
+
+    // Software seats go back to the pool once the employee is cleared
+    try {
+      await releaseEmployeeSeats(employee.id, 'offboarding', null);
+    } catch (error) {
+      logger.error('offboarding', 'Failed to release license seats', {
+        userId: 0,
+        metadata: { caseId, employeeId: employee.id },
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+    }
+  }
+
+  return { offboardingCase, tasks, employee };
+}
+
+/**
+ * Mark a checklist item done or waived by a user, then re-sync the case
+ */
+export async function completeOffboardingTask(
+  task: OffboardingTask,
+  status: 'done' | 'waived',
+  completedById: number,
+  notes?: string | null
+): Promise<OffboardingCaseDetails | null> {
+  await db.update(offboardingTasks)
+    .set({ status, completedById, completedAt: new Date(), notes: notes ?? task.notes })
+    .where(eq(offboardingTasks.id, task.id));
+  return syncOffboardingCase(task.caseId);
+}
+
+/**
+ * Send the next escalation reminder for a case if it has reached a new level
+ */
+async function sendCaseReminder(details: OffboardingCaseDetails) {
+  const { offboardingCase, tasks, employee } = details;
+  if (offboardingCase.status !== 'open' || !offboardingCase.exitDate) return;
+
+  const daysLeft = daysUntil(offboardingCase.exitDate);
+  const reached = REMINDER_LEVELS.filter(step => daysLeft <= step.daysLeft).pop();
+  if (!reached || reached.level <= offboardingCase.lastReminderLevel) return;
+
+  const pendingItems = tasks.filter(t => t.status === 'pending').map(t => t.title);
+  const managerUserId = await getDirectManagerUserId(employee);
+  const escalateTo = reached.level > 1 || !managerUserId ? await getEscalationManagers() : [];
+  const recipients = Array.from(new Set([...(managerUserId ? [managerUserId] : []), ...escalateTo]));
+
+  for (const userId of recipients) {
+    await notificationService.notifyOffboardingReminder({
+      userId,
+      employeeId: employee.id,
+      employeeName: employee.englishName,
+      lastDay: new Date(offboardingCase.exitDate),
+      daysLeft,
+      pendingTasks: pendingItems.length,
+      pendingItems,
+      escalated: userId !== managerUserId,
+    });
+  }
+
+  await db.update(offboardingCases)
+    .set({ lastReminderLevel: reached.level, lastReminderAt: new Date() })
+    .where(eq(offboardingCases.id, offboardingCase.id));
+
+  logger.info('offboarding', `Offboarding reminder level ${reached.level} sent for ${employee.englishName}`, {
+    userId: 0,
+    metadata: { caseId: offboardingCase.id, daysLeft, pendingTasks: pendingItems.length, recipients: recipients.length }
+  });
+}
+
+/**
+ * Open cases for upcoming exits nobody has started, sync open cases and send due reminders
+ */
+export async function processOffboardingCases(): Promise<void> {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    const today = new Date().toISOString().split('T')[0];
+    const horizon = new Date(Date.now() + OFFBOARDING_CONFIG.lookaheadDays * MS_PER_DAY).toISOString().split('T')[0];
+
+    const uncovered = await db.select().from(employees)
+      .where(and(
+        isNotNull(employees.exitDate),
+        gte(employees.exitDate, today),
+        notExists(db.select({ id: offboardingCases.id }).from(offboardingCases)
+          .where(eq(offboardingCases.employeeId, employees.id)))
+      ));
+    for (const employee of uncovered.filter(e => e.exitDate! <= horizon)) {
+      await openOffboardingCase(employee, { reason: 'exit_date' });
+    }
+
+    const openCases = await db.select({ id: offboardingCases.id }).from(offboardingCases)
+      .where(eq(offboardingCases.status, 'open'));
+    for (const { id } of openCases) {
+      try {
+        const details = await syncOffboardingCase(id);
+        if (details) await sendCaseReminder(details);
+      } catch (error) {
+        logger.error('offboarding', 'Failed to process offboarding case', {
+          userId: 0,
+          metadata: { caseId: id },
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+  } catch (error) {
+    logger.error('offboarding', 'Offboarding check failed', {
+      userId: 0,
+      metadata: {},
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  } finally {
+    isProcessing = false;
+  }
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Printable clearance certificate for a completed case
+ */
+export function buildClearanceCertificate(
+  details: OffboardingCaseDetails,
+  extra: { signedOffBy: string | null; generatedBy: string }
+): string {
+  const { offboardingCase, tasks, employee } = details;
+  const formatDate = (value: Date | string | null) => (value ? new Date(value).toLocaleDateString() : '-');
+
+  const rows = tasks.map(task => `
+        <tr>
+          <td>${escapeHtml(task.title)}</td>
+          <td>${task.status === 'waived' ? 'Waived' : 'Completed'}</td>
+          <td>${formatDate(task.completedAt)}</td>
+          <td>${escapeHtml(task.notes)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Clearance Certificate - ${escapeHtml(employee.empId)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; margin: 40px; color: #111; }
+    h1 { text-align: center; margin-bottom: 4px; }
+    .subtitle { text-align: center; color: #555; margin-bottom: 32px; }
+    dl { display: grid; grid-template-columns: 180px 1fr; gap: 6px 12px; }
+    dt { font-weight: bold; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; font-size: 14px; }
+    th { background: #f3f4f6; }
+    .statement { margin-top: 24px; }
+    .footer { margin-top: 48px; font-size: 12px; color: #555; }
+    @media print { body { margin: 16px; } }
+  </style>
+</head>
+<body>
+  <h1>Clearance Certificate</h1>
+  <div class="subtitle">IT Asset and Access Clearance</div>
+  <dl>
+    <dt>Employee</dt><dd>${escapeHtml(employee.englishName)}${employee.arabicName ? ` / ${escapeHtml(employee.arabicName)}` : ''}</dd>
+    <dt>Employee ID</dt><dd>${escapeHtml(employee.empId)}</dd>
+    <dt>Department</dt><dd>${escapeHtml(employee.department)}</dd>
+    <dt>Title</dt><dd>${escapeHtml(employee.title)}</dd>
+    <dt>Exit Date</dt><dd>${formatDate(offboardingCase.exitDate)}</dd>
+    <dt>Cleared On</dt><dd>${formatDate(offboardingCase.completedAt)}</dd>
+    <dt>Manager Sign-off</dt><dd>${escapeHtml(extra.signedOffBy ?? '-')} (${formatDate(offboardingCase.managerSignedOffAt)})</dd>
+  </dl>
+  <p class="statement">
+    This certifies that all IT assets assigned to the employee above have been returned,
+    their system access has been disabled and their open work has been handed over.
+  </p>
+  <table>
+    <thead>
+      <tr><th>Item</th><th>Status</th><th>Date</th><th>Notes</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <div class="footer">Case #${offboardingCase.id} - generated ${escapeHtml(new Date().toLocaleString())} by ${escapeHtml(extra.generatedBy)}</div>
+</body>
+</html>`;
+}
+
+/**
+ * Start the offboarding reminder job
+ */
+export function startOffboardingScheduler() {
+  if (!OFFBOARDING_CONFIG.enabled) {
+    logger.info('offboarding', 'Offboarding reminders disabled', {
+      userId: 0,
+      metadata: { reason: 'OFFBOARDING_REMINDERS_ENABLED=false' }
+    });
+    return null;
+  }
+
+  const offboardingTask = setInterval(processOffboardingCases, OFFBOARDING_CONFIG.checkInterval);
+
+  logger.info('offboarding', 'Offboarding reminder job started successfully', {
+    userId: 0,
+    metadata: {
+      checkInterval: `${OFFBOARDING_CONFIG.checkInterval / (60 * 1000)} minutes`,
+      lookaheadDays: OFFBOARDING_CONFIG.lookaheadDays
+    }
+  });
+
+  return offboardingTask;
+}
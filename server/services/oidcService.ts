@@ -0,0 +1,395 @@
+/**
+ * OpenID Connect Single Sign-On Service
+ * Generic OIDC sign-in (authorization code flow with PKCE) next to local and LDAP passwords
+ * - The provider is found through discovery (OIDC_ISSUER_URL/.well-known/openid-configuration)
+ * - The first sign-in provisions the account just in time (storage.upsertUser), linked in user_identities;
+ *   an existing account with the same verified email address is linked instead of creating a second one
+ * - A claim (OIDC_ROLE_CLAIM, default "groups") maps onto ROLE_IDS (OIDC_ROLE_MAP); the highest mapped role wins
+ * - While SSO is enabled, admins can turn off username/password sign-in
+ */
+
+import type { Request } from 'express';
+import * as oidc from 'openid-client';
+import { db } from '../db';
+import { systemConfig, userIdentities, type User } from '@shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { storage } from '../storage';
+import { ROLE_IDS, getRoleLevel, normalizeRoleId } from '@shared/roles.config';
+import { autoLinkEmployeeToUser } from './employeeLinkService';
+import { logger } from './logger';
+
+const IDENTITY_PROVIDER = 'oidc';
+const USERNAME_MAX_LENGTH = 50;
+
+// Time allowed between leaving for the identity provider and coming back
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * OIDC_ROLE_MAP is a JSON object of claim value → role, e.g.
+ * {"simpleit-admins": "admin", "helpdesk": "agent"}
+ */
+function parseRoleMap(value: string | undefined): Record<string, string> {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value) as Record<string, unknown>;
+    const validRoles: string[] = Object.values(ROLE_IDS);
+    const mapping: Record<string, string> = {};
+    for (const [claimValue, role] of Object.entries(parsed)) {
+      const roleId = normalizeRoleId(String(role));
+      if (validRoles.includes(roleId)) {
+        mapping[claimValue.trim().toLowerCase()] = roleId;
+      } else {
+        console.warn(`[OIDC] Ignoring unknown role "${role}" for "${claimValue}" in OIDC_ROLE_MAP`);
+      }
+    }
+    return mapping;
+  } catch {
+    console.warn('[OIDC] OIDC_ROLE_MAP is not valid JSON; no claim values are mapped');
+    return {};
+  }
+}
+
+/**
+ * Configuration for single sign-on
+ */
+export const OIDC_CONFIG = {
+  // Opt-in: no SSO button unless enabled
+  enabled: process.env.OIDC_ENABLED === 'true',
+
+  // Shown on the login page as "Sign in with …"
+  providerName: process.env.OIDC_PROVIDER_NAME || 'SSO',
+
+  issuerUrl: process.env.OIDC_ISSUER_URL || '',
+  clientId: process.env.OIDC_CLIENT_ID || '',
+  // Empty for a public client (PKCE only)
+  clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+  // Must match the redirect URI registered with the provider
+  redirectUri: process.env.OIDC_REDIRECT_URI
+    || `${process.env.APP_URL || 'http://localhost:5000'}/api/auth/oidc/callback`,
+  scopes: process.env.OIDC_SCOPES || 'openid profile email',
+  // Plain-http issuer, for a local mock identity provider only
+  allowInsecure: process.env.OIDC_ALLOW_INSECURE === 'true',
+  timeout: parseInt(process.env.OIDC_TIMEOUT_SECONDS || '10'),
+
+  usernameClaim: process.env.OIDC_USERNAME_CLAIM || 'preferred_username',
+  // Dotted paths reach nested claims, e.g. realm_access.roles (Keycloak)
+  roleClaim: process.env.OIDC_ROLE_CLAIM || 'groups',
+  roleMap: parseRoleMap(process.env.OIDC_ROLE_MAP),
+  defaultRole: normalizeRoleId(process.env.OIDC_DEFAULT_ROLE || ROLE_IDS.EMPLOYEE),
+
+  // Create accounts on first sign-in; when off, only existing accounts (matched by email) can use SSO
+  autoProvision: process.env.OIDC_AUTO_PROVISION !== 'false',
+  // Link existing accounts by email even when the provider does not send email_verified (e.g. Entra ID);
+  // only for providers that verify every address themselves
+  linkUnverifiedEmail: process.env.OIDC_LINK_UNVERIFIED_EMAIL === 'true',
+};
+
+/**
+ * Sign-in problems shown to the user on the login page
+ */
+export class SsoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SsoError';
+  }
+}
+
+// Between GET /api/auth/oidc/login and the provider redirecting back
+export interface PendingOidcLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    oidcLogin?: PendingOidcLogin;
+  }
+}
+
+type Claims = Record<string, unknown>;
+
+let configurationPromise: Promise<oidc.Configuration> | null = null;
+
+/**
+ * Provider metadata from discovery, fetched once and reused (retried after a failure)
+ */
+function getConfiguration(): Promise<oidc.Configuration> {
+  if (!OIDC_CONFIG.enabled) {
+    return Promise.reject(new SsoError('Single sign-on is not enabled'));
+  }
+  if (!OIDC_CONFIG.issuerUrl || !OIDC_CONFIG.clientId) {
+    return Promise.reject(new SsoError('Single sign-on is not configured (OIDC_ISSUER_URL, OIDC_CLIENT_ID)'));
+  }
+
+  if (!configurationPromise) {
+    configurationPromise = oidc.discovery(
+      new URL(OIDC_CONFIG.issuerUrl),
+      OIDC_CONFIG.clientId,
+      OIDC_CONFIG.clientSecret || undefined,
+      OIDC_CONFIG.clientSecret ? undefined : oidc.None(),
+      {
+        timeout: OIDC_CONFIG.timeout,
+        ...(OIDC_CONFIG.allowInsecure ? { execute: [oidc.allowInsecureRequests] } : {})
+      }
+    ).catch(error => {
+      configurationPromise = null;
+      logger.error('oidc', `OIDC discovery failed for ${OIDC_CONFIG.issuerUrl}`, {
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+      throw new SsoError('The identity provider could not be reached. Please try again later.');
+    });
+  }
+  return configurationPromise;
+}
+
+function getClaim(claims: Claims, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => value && typeof value === 'object' ? (value as Claims)[key] : undefined,
+    claims
+  );
+}
+
+function getStringClaim(claims: Claims, path: string): string | null {
+  const value = getClaim(claims, path);
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Role for the values of the role claim, or null when none is mapped
+ */
+export function getRoleForClaims(claims: Claims): string | null {
+  const value = getClaim(claims, OIDC_CONFIG.roleClaim);
+  const values = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+
+  let bestRole: string | null = null;
+  for (const entry of values) {
+    const role = OIDC_CONFIG.roleMap[String(entry).trim().toLowerCase()];
+    if (role && (!bestRole || getRoleLevel(role) > getRoleLevel(bestRole))) {
+      bestRole = role;
+    }
+  }
+  return bestRole;
+}
+
+/**
+ * Free username based on the provider's (usernames are unique, the provider's need not be)
+ */
+async function getAvailableUsername(claims: Claims, email: string): Promise<string> {
+  const preferred = getStringClaim(claims, OIDC_CONFIG.usernameClaim) || email.split('@')[0];
+  const base = preferred.replace(/\s+/g, '.').slice(0, USERNAME_MAX_LENGTH);
+
+  let candidate = base;
+  for (let suffix = 2; await storage.getUserByUsername(candidate); suffix++) {
+    candidate = `${base.slice(0, USERNAME_MAX_LENGTH - String(suffix).length - 1)}.${suffix}`;
+  }
+  return candidate;
+}
+
+/**
+ * Local account for the signed-in provider user, created or updated just in time
+ */
+async function provisionOidcUser(claims: Claims): Promise<User> {
+  const issuer = getStringClaim(claims, 'iss') || OIDC_CONFIG.issuerUrl;
+  const externalId = `${issuer}|${claims.sub}`;
+  const email = getStringClaim(claims, 'email');
+
+  const [identity] = await db.select().from(userIdentities)
+    .where(and(eq(userIdentities.provider, IDENTITY_PROVIDER), eq(userIdentities.externalId, externalId)));
+
+  let existing = identity ? await storage.getUser(identity.userId) : undefined;
+  if (!existing) {
+    if (!email) {
+      throw new SsoError('Your identity provider did not share an email address (check the "email" scope)');
+    }
+    // An unverified address could be anyone's, so it must not take over an existing account
+    if (claims.email_verified === false) {
+      throw new SsoError('Your email address is not verified with the identity provider');
+    }
+    existing = await storage.getUserByEmail(email);
+    if (existing && claims.email_verified !== true && !OIDC_CONFIG.linkUnverifiedEmail) {
+      throw new SsoError('Your identity provider did not confirm your email address, so it cannot be linked to your SimpleIT account. Please contact your administrator.');
+    }
+  }
+
+  // Accounts deactivated in SimpleIT stay deactivated
+  if (existing && !existing.isActive) {
+    throw new SsoError('Account is disabled');
+  }
+  if (!existing && !OIDC_CONFIG.autoProvision) {
+    throw new SsoError('There is no SimpleIT account for your email address. Please contact your administrator.');
+  }
+
+  // With a role map the provider decides roles; without one they are managed in SimpleIT
+  const hasRoleMap = Object.keys(OIDC_CONFIG.roleMap).length > 0;
+  const mappedRole = hasRoleMap ? getRoleForClaims(claims) ?? OIDC_CONFIG.defaultRole : null;
+  const role = mappedRole ?? (existing ? undefined : OIDC_CONFIG.defaultRole);
+
+  const user = await storage.upsertUser({
+    id: existing?.id,
+    username: existing?.username ?? await getAvailableUsername(claims, email!),
+    email: existing?.email ?? email!,
+    firstName: getStringClaim(claims, 'given_name'),
+    lastName: getStringClaim(claims, 'family_name'),
+    role: role as User['role'] | undefined,
+  });
+
+  if (!existing) {
+    logger.info('oidc', `Created account for SSO user: ${user.username}`, {
+      userId: user.id,
+      metadata: { issuer, role: user.role }
+    });
+  } else if (existing.role !== user.role) {
+    logger.warn('oidc', `Role of ${user.username} changed by the identity provider to ${user.role}`, {
+      userId: user.id,
+      metadata: { issuer, previousRole: existing.role, role: user.role }
+    });
+  }
+
+  await db.insert(userIdentities)
+    .values({ userId: user.id, provider: IDENTITY_PROVIDER, externalId, lastLoginAt: new Date() })
+    .onConflictDoUpdate({
+      target: [userIdentities.provider, userIdentities.externalId],
+      set: { userId: user.id, lastLoginAt: new Date() }
+    });
+
+  return user;
+}
+
+/**
+ * Authorization URL to send the browser to; the checks for the callback are kept in the session
+ */
+export async function startOidcLogin(req: Request): Promise<string> {
+  const configuration = await getConfiguration();
+  const codeVerifier = oidc.randomPKCECodeVerifier();
+  const pending: PendingOidcLogin = {
+    state: oidc.randomState(),
+    nonce: oidc.randomNonce(),
+    codeVerifier,
+    expiresAt: Date.now() + LOGIN_STATE_TTL_MS,
+  };
+  req.session.oidcLogin = pending;
+
+  const url = oidc.buildAuthorizationUrl(configuration, {
+    redirect_uri: OIDC_CONFIG.redirectUri,
+    scope: OIDC_CONFIG.scopes,
+    code_challenge: await oidc.calculatePKCECodeChallenge(codeVerifier),
+    code_challenge_method: 'S256',
+    state: pending.state,
+    nonce: pending.nonce,
+  });
+  return url.href;
+}
+
+/**
+ * Finish the provider's redirect back: exchange the code, validate the ID token and provision the account
+ */
+export async function completeOidcLogin(req: Request): Promise<User> {
+  const pending = req.session.oidcLogin;
+  delete req.session.oidcLogin;
+  if (!pending || pending.expiresAt < Date.now()) {
+    throw new SsoError('Your sign-in has expired. Please try again.');
+  }
+
+  const configuration = await getConfiguration();
+
+  // Rebuilt from the registered redirect URI so a reverse proxy's host or protocol does not matter
+  const currentUrl = new URL(OIDC_CONFIG.redirectUri);
+  currentUrl.search = new URL(req.originalUrl, currentUrl).search;
+
+  let claims: Claims;
+  try {
+    const tokens = await oidc.authorizationCodeGrant(configuration, currentUrl, {
+      pkceCodeVerifier: pending.codeVerifier,
+      expectedState: pending.state,
+      expectedNonce: pending.nonce,
+      idTokenExpected: true,
+    });
+    claims = { ...tokens.claims() };
+
+    // Providers often keep email, names or groups out of the ID token
+    if (configuration.serverMetadata().userinfo_endpoint) {
+      try {
+        const userInfo = await oidc.fetchUserInfo(configuration, tokens.access_token, String(claims.sub));
+        claims = { ...userInfo, ...claims };
+      } catch (error) {
+        logger.warn('oidc', 'Failed to fetch OIDC userinfo; using ID token claims only', {
+          metadata: { error: error instanceof Error ? error.message : String(error) }
+        });
+      }
+    }
+  } catch (error) {
+    logger.warn('oidc', `OIDC sign-in failed: ${error instanceof Error ? error.message : String(error)}`, {
+      metadata: { ip: req.ip },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    throw new SsoError('Sign-in with your identity provider failed. Please try again.');
+  }
+
+  const user = await provisionOidcUser(claims);
+  logger.info('auth', `Successful SSO login: ${user.username}`, {
+    userId: user.id,
+    metadata: { username: user.username, role: user.role, source: 'oidc' }
+  });
+
+  try {
+    const linkResult = await autoLinkEmployeeToUser(user);
+    console.log(`[AUTO-LINK] ${linkResult.message}`);
+  } catch (linkError) {
+    console.error('[AUTO-LINK] Error during auto-linking:', linkError);
+  }
+  return user;
+}
+
+/**
+ * Whether username/password sign-in is allowed; always on while SSO is disabled,
+ * so turning SSO off (or misconfiguring it) cannot lock everyone out
+ */
+export async function isPasswordLoginEnabled(): Promise<boolean> {
+  if (!OIDC_CONFIG.enabled) return true;
+  const [config] = await db.select({ enabled: systemConfig.passwordLoginEnabled }).from(systemConfig).limit(1);
+  return config?.enabled ?? true;
+}
+
+/**
+ * Whether the user has signed in through SSO at least once
+ */
+export async function hasOidcIdentity(userId: number): Promise<boolean> {
+  const [identity] = await db.select({ id: userIdentities.id }).from(userIdentities)
+    .where(and(eq(userIdentities.provider, IDENTITY_PROVIDER), eq(userIdentities.userId, userId)))
+    .limit(1);
+  return !!identity;
+}
+
+/**
+ * Sign-in methods for the login page (public, no configuration details)
+ */
+export async function getLoginOptions() {
+  return {
+    passwordLogin: await isPasswordLoginEnabled(),
+    sso: OIDC_CONFIG.enabled
+      ? { providerName: OIDC_CONFIG.providerName, loginUrl: '/api/auth/oidc/login' }
+      : null,
+  };
+}
+
+/**
+ * Configuration summary for the admin screen (no secrets)
+ */
+export async function getSsoSettings() {
+  return {
+    enabled: OIDC_CONFIG.enabled,
+    providerName: OIDC_CONFIG.providerName,
+    issuerUrl: OIDC_CONFIG.issuerUrl,
+    clientId: OIDC_CONFIG.clientId,
+    redirectUri: OIDC_CONFIG.redirectUri,
+    scopes: OIDC_CONFIG.scopes,
+    roleClaim: OIDC_CONFIG.roleClaim,
+    roleMap: OIDC_CONFIG.roleMap,
+    defaultRole: OIDC_CONFIG.defaultRole,
+    autoProvision: OIDC_CONFIG.autoProvision,
+    linkUnverifiedEmail: OIDC_CONFIG.linkUnverifiedEmail,
+    passwordLoginEnabled: await isPasswordLoginEnabled(),
+  };
+}
@@ -0,0 +1,430 @@
+/**
+ * Onboarding Service
+ * Prepares new hires from onboarding templates matched by department/title
+ * - When an employee is created with a future joining date: matching Available assets are
+ *   reserved (status "Reserved"), provisioning tickets are opened for IT and the
+ *   registration invite is sent
+ * - On the joining date every reserved asset is checked out to the employee in one
+ *   database transaction
+ * Uses native Node.js setInterval instead of node-cron
+ */
+
+import { db } from '../db';
+import {
+  onboardingTemplates, onboardingPlans, assets, assetTransactions, employees, tickets,
+  type Employee, type InsertTicket, type OnboardingTemplate, type OnboardingPlan
+} from '@shared/schema';
+import { and, asc, eq, inArray, isNull, lte, sql } from 'drizzle-orm';
+import { storage } from '../storage';
+import { initiateRegistration } from './registrationService';
+import * as notificationService from './notificationService';
+import { emitWebhookEvent, toAssetWebhookData, toTicketWebhookData } from './webhookService';
+import { logger } from './logger';
+
+export const RESERVED_ASSET_STATUS = 'Reserved';
+
+export interface AssetRequirement {
+  type: string;
+  quantity: number;
+}
+
+export interface AssetShortfall {
+  type: string;
+  missing: number;
+}
+
+/**
+ * Configuration for the day-one check-out job
+ */
+export const ONBOARDING_CONFIG = {
+  // Whether the check-out job runs (can be disabled via env var)
+  enabled: process.env.ONBOARDING_AUTO_CHECKOUT_ENABLED !== 'false',
+
+  // How often due plans are checked (every hour)
+  checkInterval: 60 * 60 * 1000,
+};
+
+let isProcessing = false;
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Best active template for an employee
+ * A template with a department/title only matches that department/title (case-insensitive);
+ * department matches outrank title matches, which outrank catch-all templates
+ */
+export function matchOnboardingTemplate(
+  templates: OnboardingTemplate[],
+  employee: Pick<Employee, 'department' | 'title'>
+): OnboardingTemplate | null {
+  const same = (a: string | null, b: string | null) => (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+
+  let best: { template: OnboardingTemplate; score: number } | null = null;
+  for (const template of templates.filter(t => t.isActive)) {
+    if (template.department && !same(template.department, employee.department)) continue;
+    if (template.title && !same(template.title, employee.title)) continue;
+
+    const score = (template.department ? 2 : 0) + (template.title ? 1 : 0);
+    if (!best || score > best.score || (score === best.score && template.id < best.template.id)) {
+      best = { template, score };
+    }
+  }
+  return best?.template ?? null;
+}
+
+/**
+ * Reserve Available assets for each requirement inside one transaction
+ * Rows are locked with SKIP LOCKED so two concurrent plans never reserve the same asset
+ */
+async function reserveAssets(requirements: AssetRequirement[]) {
+  return db.transaction(async (tx) => {
+    const reservedIds: number[] = [];
+    const shortfall: AssetShortfall[] = [];
+
+    for (const requirement of requirements) {
+      const available = await tx.select({ id: assets.id })
+        .from(assets)
+        .where(and(
+          sql`lower(${assets.type}) = lower(${requirement.type})`,
+          eq(assets.status, 'Available'),
+          isNull(assets.assignedEmployeeId)
+        ))
+        .orderBy(asc(assets.assetId))
+        .limit(requirement.quantity)
+        .for('update', { skipLocked: true });
+
+      const ids = available.map(a => a.id);
+      if (ids.length > 0) {
+        await tx.update(assets)
+          .set({ status: RESERVED_ASSET_STATUS, updatedAt: new Date() })
+          .where(inArray(assets.id, ids));
+        reservedIds.push(...ids);
+      }
+      if (ids.length < requirement.quantity) {
+        shortfall.push({ type: requirement.type, missing: requirement.quantity - ids.length });
+      }
+    }
+
+    return { reservedIds, shortfall };
+  });
+}
+
+/**
+ * Open one provisioning ticket per template task, raised on behalf of the new hire
+ */
+async function openProvisioningTickets(
+  template: OnboardingTemplate,
+  employee: Employee,
+  reservedIds: number[],
+  shortfall: AssetShortfall[]
+): Promise<number[]> {
+  const reserved = reservedIds.length > 0
+    ? await db.select({ assetId: assets.assetId, type: assets.type, brand: assets.brand })
+        .from(assets).where(inArray(assets.id, reservedIds))
+    : [];
+
+  const lines = [
+    `New hire: ${employee.englishName} (${employee.empId})`,
+    `Department: ${employee.department}`,
+    `Title: ${employee.title}`,
+    `Joining date: ${employee.joiningDate}`,
+    `Onboarding template: ${template.name}`,
+  ];
+  if (reserved.length > 0) {
+    lines.push('', 'Reserved assets:', ...reserved.map(a => `- ${a.assetId} (${a.type} ${a.brand})`));
+  }
+  if (shortfall.length > 0) {
+    lines.push('', 'Not enough assets available:', ...shortfall.map(s => `- ${s.type}: ${s.missing} missing`));
+  }
+
+  const ticketIds: number[] = [];
+  for (const task of (template.provisioningTasks as string[]) || []) {
+    const ticketData: InsertTicket = {
+      submittedById: employee.id,
+      type: 'Service Request',
+      urgency: 'Medium',
+      impact: 'Low',
+      status: 'Open',
+      title: `${task} - ${employee.englishName}`,
+      description: lines.join('\n'),
+    };
+    const created = await storage.createTicketWithHistory(ticketData);
+    const [ticket] = await db.select().from(tickets).where(eq(tickets.id, created.id));
+    emitWebhookEvent('ticket.created', toTicketWebhookData(ticket));
+    ticketIds.push(ticket.id);
+  }
+  return ticketIds;
+}
+
+/**
+ * Reserve assets, open provisioning tickets and send the registration invite for a new hire
+ * Returns the existing plan when one is already scheduled, or null when no template applies
+ */
+export async function prepareOnboarding(
+  employee: Employee,
+  options: { templateId?: number; createdById?: number | null } = {}
+): Promise<OnboardingPlan | null> {
+  const [existing] = await db.select().from(onboardingPlans)
+    .where(and(eq(onboardingPlans.employeeId, employee.id), eq(onboardingPlans.status, 'scheduled')));
+  if (existing) return existing;
+
+  let template: OnboardingTemplate | null | undefined;
+  if (options.templateId) {
+    [template] = await db.select().from(onboardingTemplates).where(eq(onboardingTemplates.id, options.templateId));
+  } else {
+    template = matchOnboardingTemplate(await db.select().from(onboardingTemplates), employee);
+  }
+  if (!template) return null;
+
+  const { reservedIds, shortfall } = await reserveAssets((template.assetRequirements as AssetRequirement[]) || []);
+
+  let [plan] = await db.insert(onboardingPlans).values({
+    employeeId: employee.id,
+    templateId: template.id,
+    joiningDate: employee.joiningDate,
+    reservedAssetIds: reservedIds,
+    shortfall,
+    createdById: options.createdById ?? null,
+  }).returning();
+
+  const ticketIds = await openProvisioningTickets(template, employee, reservedIds, shortfall);
+
+  let invitationSentAt: Date | null = null;
+  const email = employee.corporateEmail || employee.personalEmail;
+  if (template.sendRegistrationInvite && !employee.userId && email) {
+    const result = await initiateRegistration({ email });
+    if (result.success) {
+      invitationSentAt = new Date();
+    } else {
+      logger.warn('onboarding', `Registration invite not sent for ${employee.englishName}`, {
+        userId: options.createdById ?? 0,
+        metadata: { planId: plan.id, reason: result.message }
+      });
+    }
+  }
+
+  [plan] = await db.update(onboardingPlans)
+    .set({ ticketIds, invitationSentAt, updatedAt: new Date() })
+    .where(eq(onboardingPlans.id, plan.id))
+    .returning();
+
+  logger.info('onboarding', `Onboarding prepared for ${employee.englishName}`, {
+    userId: options.createdById ?? 0,
+    metadata: {
+      planId: plan.id,
+      templateId: template.id,
+      reservedAssets: reservedIds.length,
+      shortfall,
+      tickets: ticketIds.length,
+      invitationSent: !!invitationSentAt
+    }
+  });
+
+  return plan;
+}
+
+/**
+ * Prepare onboarding for a newly created employee when they join in the future and a template
+ * matches; failures are logged, never thrown, so employee creation always succeeds
+ */
+export async function handleNewEmployeeOnboarding(employeeId: number, createdById?: number): Promise<void> {
+  try {
+    const employee = await storage.getEmployee(employeeId);
+    if (!employee?.joiningDate || employee.joiningDate <= today()) return;
+    await prepareOnboarding(employee, { createdById });
+  } catch (error) {
+    logger.error('onboarding', 'Failed to prepare onboarding for new employee', {
+      userId: createdById ?? 0,
+      metadata: { employeeId },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  }
+}
+
+/**
+ * Check out every still-reserved asset of a plan to its employee in one transaction
+ * Assets that were released or reassigned in the meantime are skipped
+ */
+export async function completeOnboarding(planId: number, handledById: number | null): Promise<OnboardingPlan> {
+  const [plan] = await db.select().from(onboardingPlans).where(eq(onboardingPlans.id, planId));
+  if (!plan || plan.status !== 'scheduled') {
+    throw new Error('Onboarding plan is not scheduled');
+  }
+
+  const [employee] = await db.select().from(employees).where(eq(employees.id, plan.employeeId));
+  const [template] = plan.templateId
+    ? await db.select().from(onboardingTemplates).where(eq(onboardingTemplates.id, plan.templateId))
+    : [];
+  const notes = `Onboarding${template ? `: ${template.name}` : ''}`;
+  const reservedIds = (plan.reservedAssetIds as number[]) || [];
+
+  const { checkedOut, completed } = await db.transaction(async (tx) => {
+    const toCheckOut = reservedIds.length > 0
+      ? await tx.select().from(assets)
+          .where(and(inArray(assets.id, reservedIds), eq(assets.status, RESERVED_ASSET_STATUS)))
+          .for('update')
+      : [];
+
+    const now = new Date();
+    let transactions: (typeof assetTransactions.$inferSelect)[] = [];
+    if (toCheckOut.length > 0) {
+      await tx.update(assets)
+        .set({ assignedEmployeeId: employee.id, status: 'In Use', updatedAt: now })
+        .where(inArray(assets.id, toCheckOut.map(a => a.id)));
+
+      transactions = await tx.insert(assetTransactions).values(toCheckOut.map(asset => ({
+        assetId: asset.id,
+        type: 'Check-Out' as const,
+        employeeId: employee.id,
+        handledById,
+        transactionDate: now,
+        conditionNotes: notes,
+        deviceSpecs: { cpu: asset.cpu, ram: asset.ram, storage: asset.storage, specs: asset.specs },
+        fromLocationId: asset.locationId,
+        toLocationId: asset.locationId,
+      }))).returning();
+    }
+
+    const [completed] = await tx.update(onboardingPlans)
+      .set({ status: 'completed', checkedOutAt: now, updatedAt: now })
+      .where(eq(onboardingPlans.id, planId))
+      .returning();
+
+    return { checkedOut: toCheckOut.map((asset, i) => ({ asset, transaction: transactions[i] })), completed };
+  });
+
+  for (const { asset, transaction } of checkedOut) {
+    emitWebhookEvent('asset.checked_out', {
+      transactionId: transaction.id,
+      transactionType: 'Check-Out',
+      asset: { ...toAssetWebhookData(asset), status: 'In Use' },
+      employeeId: employee.id,
+      employeeName: employee.englishName,
+      handledById,
+      notes
+    });
+
+    // Shows up in the bulk operations history next to manual bulk check-outs
+    await storage.logActivity({
+      userId: handledById,
+      action: 'BULK_CHECK_OUT',
+      entityType: 'ASSET',
+      entityId: asset.id,
+      details: {
+        assetId: asset.assetId,
+        employeeId: employee.id,
+        employeeName: employee.englishName,
+        reason: notes,
+        transactionId: transaction.id,
+        onboardingPlanId: planId
+      }
+    });
+
+    if (employee.userId) {
+      try {
+        await notificationService.notifyAssetAssignment({
+          assetId: asset.id,
+          employeeId: employee.id,
+          userId: employee.userId,
+          assetName: `${asset.type} ${asset.brand}`,
+          assetTag: asset.assetId,
+        });
+      } catch (error) {
+        logger.error('onboarding', 'Failed to notify employee about onboarding asset', {
+          userId: handledById ?? 0,
+          metadata: { planId, assetId: asset.id },
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+  }
+
+  logger.info('onboarding', `Onboarding assets checked out to ${employee.englishName}`, {
+    userId: handledById ?? 0,
+    metadata: { planId, checkedOut: checkedOut.length, reserved: reservedIds.length }
+  });
+
+  return completed;
+}
+
+/**
+ * Cancel a scheduled plan and make its reserved assets Available again
+ */
+export async function cancelOnboardingPlan(planId: number): Promise<OnboardingPlan | null> {
+  return db.transaction(async (tx) => {
+    const [plan] = await tx.update(onboardingPlans)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(onboardingPlans.id, planId), eq(onboardingPlans.status, 'scheduled')))
+      .returning();
+    if (!plan) return null;
+
+    const reservedIds = (plan.reservedAssetIds as number[]) || [];
+    if (reservedIds.length > 0) {
+      await tx.update(assets)
+        .set({ status: 'Available', updatedAt: new Date() })
+        .where(and(
+          inArray(assets.id, reservedIds),
+          eq(assets.status, RESERVED_ASSET_STATUS),
+          isNull(assets.assignedEmployeeId)
+        ));
+    }
+    return plan;
+  });
+}
+
+/**
+ * Check out the assets of every plan whose joining date has arrived
+ */
+export async function processDueOnboardingPlans(): Promise<void> {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    const due = await db.select({ id: onboardingPlans.id }).from(onboardingPlans)
+      .where(and(eq(onboardingPlans.status, 'scheduled'), lte(onboardingPlans.joiningDate, today())));
+
+    for (const { id } of due) {
+      try {
+        await completeOnboarding(id, null);
+      } catch (error) {
+        logger.error('onboarding', 'Failed to check out onboarding assets', {
+          userId: 0,
+          metadata: { planId: id },
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+  } catch (error) {
+    logger.error('onboarding', 'Onboarding check-out run failed', {
+      userId: 0,
+      metadata: {},
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Start the day-one check-out job
+ */
+export function startOnboardingScheduler() {
+  if (!ONBOARDING_CONFIG.enabled) {
+    logger.info('onboarding', 'Onboarding auto check-out disabled', {
+      userId: 0,
+      metadata: { reason: 'ONBOARDING_AUTO_CHECKOUT_ENABLED=false' }
+    });
+    return null;
+  }
+
+  const onboardingTask = setInterval(processDueOnboardingPlans, ONBOARDING_CONFIG.checkInterval);
+
+  logger.info('onboarding', 'Onboarding check-out job started successfully', {
+    userId: 0,
+    metadata: { checkInterval: `${ONBOARDING_CONFIG.checkInterval / (60 * 1000)} minutes` }
+  });
+
+  return onboardingTask;
+}
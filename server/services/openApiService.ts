@@ -0,0 +1,112 @@
+/**
+ * OpenAPI Service
+ * Builds OpenAPI 3.0 documents from the zod schemas the API already validates with
+ * Covers the zod types drizzle-zod produces plus the common wrappers (optional, nullable, default, effects)
+ */
+
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Convert a zod schema to an OpenAPI 3.0 schema object
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: 'string' };
+      for (const check of (def as z.ZodStringDef).checks) {
+        if (check.kind === 'min') result.minLength = check.value;
+        else if (check.kind === 'max') result.maxLength = check.value;
+        else if (check.kind === 'email') result.format = 'email';
+        else if (check.kind === 'url') result.format = 'uri';
+        else if (check.kind === 'uuid') result.format = 'uuid';
+        else if (check.kind === 'datetime') result.format = 'date-time';
+        else if (check.kind === 'regex') result.pattern = check.regex.source;
+      }
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: 'number' };
+      for (const check of (def as z.ZodNumberDef).checks) {
+        if (check.kind === 'int') result.type = 'integer';
+        else if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        else if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer', format: 'int64' };
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...(def as z.ZodEnumDef).values] };
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values((def as z.ZodNativeEnumDef).values) };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { enum: [(def as z.ZodLiteralDef).value] };
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return { type: 'array', items: zodToJsonSchema((def as z.ZodArrayDef).type) };
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToJsonSchema((def as z.ZodRecordDef).valueType) };
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape) as [string, z.ZodTypeAny][]) {
+        properties[key] = zodToJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      return required.length > 0 ? { type: 'object', properties, required } : { type: 'object', properties };
+    }
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { oneOf: (def as z.ZodUnionDef).options.map((option: z.ZodTypeAny) => zodToJsonSchema(option)) };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema((def as z.ZodOptionalDef).innerType);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { ...zodToJsonSchema((def as z.ZodNullableDef).innerType), nullable: true };
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema((def as z.ZodDefaultDef).innerType), default: (def as z.ZodDefaultDef).defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema((def as z.ZodEffectsDef).schema);
+    default:
+      // ZodAny, ZodUnknown (e.g. jsonb columns) and anything not listed above
+      return {};
+  }
+}
+
+/**
+ * Envelope used by every paginated list: { data, pagination }
+ */
+export function paginatedSchema(itemRef: string): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      data: { type: 'array', items: { $ref: itemRef } },
+      pagination: { $ref: '#/components/schemas/Pagination' },
+    },
+    required: ['data', 'pagination'],
+  };
+}
+
+export const PAGINATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    page: { type: 'integer' },
+    limit: { type: 'integer' },
+    totalCount: { type: 'integer' },
+    totalPages: { type: 'integer' },
+    hasMore: { type: 'boolean' },
+  },
+  required: ['page', 'limit', 'totalCount', 'totalPages', 'hasMore'],
+};
+
+export const ERROR_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { message: { type: 'string' } },
+  required: ['message'],
+};
@@ -0,0 +1,338 @@
+/**
+ * Password Policy Service
+ * Admin-configured password rules for local accounts (system_config) and the credential state around them
+ * - Complexity rules are shared with the client's strength meter (shared/passwordPolicy.ts)
+ * - History: the last N passwords, the current one included, cannot be reused
+ * - Expired passwords and admin resets force a change at the next login (POST /api/login/change-password)
+ * - Consecutive failed logins lock the account for a while, or until an admin unlocks it
+ * Directory (LDAP) accounts are exempt from forced changes: their passwords are managed by the directory
+ */
+
+import { compare, hash } from 'bcrypt';
+import { db } from '../db';
+import { systemConfig, userCredentials, passwordHistory, userIdentities, users, type User } from '@shared/schema';
+import { and, desc, eq, inArray, isNotNull } from 'drizzle-orm';
+import { storage } from '../storage';
+import {
+  DEFAULT_PASSWORD_RULES, getPasswordRuleFailures, formatPasswordRuleFailures, type PasswordRules
+} from '@shared/passwordPolicy';
+import { logActivity, AuditAction, EntityType } from '../auditLogger';
+import { logger } from './logger';
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+// Highest history count admins can choose; older hashes are deleted
+export const MAX_PASSWORD_HISTORY = 24;
+
+// Between a correct (but expired or reset) password and choosing a new one at login
+export const PENDING_PASSWORD_CHANGE_TTL_MS = 10 * 60 * 1000;
+
+export type PasswordChangeReason = 'expired' | 'reset';
+
+export interface PendingPasswordChange {
+  userId: number;
+  reason: PasswordChangeReason;
+  twoFactorMethod?: string; // Second factor already passed, for the login activity
+  expiresAt: number;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    pendingPasswordChange?: PendingPasswordChange;
+  }
+}
+
+export interface PasswordPolicy extends PasswordRules {
+  historyCount: number;
+  maxAgeDays: number;
+  lockoutThreshold: number;
+  lockoutDurationMinutes: number;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  ...DEFAULT_PASSWORD_RULES,
+  historyCount: 0,
+  maxAgeDays: 0,
+  lockoutThreshold: 5,
+  lockoutDurationMinutes: 15,
+};
+
+/**
+ * A password the policy rejects (routes answer 400 with the message)
+ */
+export class PasswordPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PasswordPolicyError';
+  }
+}
+
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  const [config] = await db.select({
+    minLength: systemConfig.passwordMinLength,
+    requireUppercase: systemConfig.passwordRequireUppercase,
+    requireLowercase: systemConfig.passwordRequireLowercase,
+    requireNumber: systemConfig.passwordRequireNumber,
+    requireSymbol: systemConfig.passwordRequireSymbol,
+    historyCount: systemConfig.passwordHistoryCount,
+    maxAgeDays: systemConfig.passwordMaxAgeDays,
+    lockoutThreshold: systemConfig.lockoutThreshold,
+    lockoutDurationMinutes: systemConfig.lockoutDurationMinutes,
+  }).from(systemConfig).limit(1);
+  return config ?? DEFAULT_PASSWORD_POLICY;
+}
+
+export async function updatePasswordPolicy(policy: PasswordPolicy): Promise<PasswordPolicy> {
+  await storage.updateSystemConfig({
+    passwordMinLength: policy.minLength,
+    passwordRequireUppercase: policy.requireUppercase,
+    passwordRequireLowercase: policy.requireLowercase,
+    passwordRequireNumber: policy.requireNumber,
+    passwordRequireSymbol: policy.requireSymbol,
+    passwordHistoryCount: policy.historyCount,
+    passwordMaxAgeDays: policy.maxAgeDays,
+    lockoutThreshold: policy.lockoutThreshold,
+    lockoutDurationMinutes: policy.lockoutDurationMinutes,
+  });
+  return getPasswordPolicy();
+}
+
+/**
+ * Complexity rules only, for the login and reset pages (no lockout details)
+ */
+export async function getPasswordRules(): Promise<PasswordRules> {
+  const { minLength, requireUppercase, requireLowercase, requireNumber, requireSymbol } = await getPasswordPolicy();
+  return { minLength, requireUppercase, requireLowercase, requireNumber, requireSymbol };
+}
+
+/**
+ * Throws PasswordPolicyError when the password breaks a rule, or (with a user) was used recently
+ */
+export async function validateNewPassword(password: string, userId?: number): Promise<void> {
+  if (typeof password !== 'string' || !password) {
+    throw new PasswordPolicyError('Password is required');
+  }
+
+  const policy = await getPasswordPolicy();
+  const failures = getPasswordRuleFailures(password, policy);
+  if (failures.length > 0) {
+    throw new PasswordPolicyError(formatPasswordRuleFailures(failures, policy));
+  }
+
+  if (userId && policy.historyCount > 0) {
+    const user = await storage.getUser(userId);
+    const previous = await db.select({ passwordHash: passwordHistory.passwordHash })
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt))
+      .limit(policy.historyCount - 1);
+
+    const hashes = [user?.password, ...previous.map(entry => entry.passwordHash)].filter(Boolean) as string[];
+    for (const passwordHash of hashes) {
+      if (await compare(password, passwordHash)) {
+        throw new PasswordPolicyError(
+          policy.historyCount === 1
+            ? 'The new password must be different from the current one'
+            : `Password was used recently; choose one that is not among your last ${policy.historyCount} passwords`
+        );
+      }
+    }
+  }
+}
+
+async function getCredentials(userId: number) {
+  const [credentials] = await db.select().from(userCredentials).where(eq(userCredentials.userId, userId));
+  return credentials;
+}
+
+/**
+ * After a password was set: keep the old hash for the reuse rule, restart the password age and clear any lockout
+ */
+export async function recordPasswordChange(
+  userId: number,
+  previousHash: string | null,
+  options: { mustChangePassword?: boolean } = {}
+): Promise<void> {
+  if (previousHash) {
+    await db.insert(passwordHistory).values({ userId, passwordHash: previousHash });
+    const expired = await db.select({ id: passwordHistory.id })
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt))
+      .offset(MAX_PASSWORD_HISTORY);
+    if (expired.length > 0) {
+      await db.delete(passwordHistory).where(inArray(passwordHistory.id, expired.map(entry => entry.id)));
+    }
+  }
+
+  const state = {
+    passwordChangedAt: new Date(),
+    mustChangePassword: options.mustChangePassword ?? false,
+    failedLoginCount: 0,
+    lockedAt: null,
+    lockedUntil: null,
+    updatedAt: new Date(),
+  };
+  await db.insert(userCredentials)
+    .values({ userId, ...state })
+    .onConflictDoUpdate({ target: userCredentials.userId, set: state });
+}
+
+/**
+ * Require (or stop requiring) a new password at the user's next login
+ */
+export async function setMustChangePassword(userId: number, mustChangePassword: boolean): Promise<void> {
+  await db.insert(userCredentials)
+    .values({ userId, mustChangePassword })
+    .onConflictDoUpdate({ target: userCredentials.userId, set: { mustChangePassword, updatedAt: new Date() } });
+}
+
+/**
+ * Validate, hash and store a new password (change-password and reset flows)
+ */
+export async function changeUserPassword(
+  userId: number,
+  newPassword: string,
+  options: { mustChangePassword?: boolean } = {}
+): Promise<User | undefined> {
+  await validateNewPassword(newPassword, userId);
+
+  const user = await storage.getUser(userId);
+  if (!user) return undefined;
+
+  const updated = await storage.updateUser(userId, { password: await hash(newPassword, 10) });
+  if (updated) {
+    await recordPasswordChange(userId, user.password || null, options);
+  }
+  return updated;
+}
+
+/**
+ * Why the user has to choose a new password before signing in, or null
+ */
+export async function getPasswordChangeRequirement(userId: number): Promise<PasswordChangeReason | null> {
+  const credentials = await getCredentials(userId);
+  if (!credentials) {
+    // Accounts from before the policy: their password age starts now
+    await db.insert(userCredentials).values({ userId }).onConflictDoNothing();
+    return null;
+  }
+  const { maxAgeDays } = await getPasswordPolicy();
+  const reason: PasswordChangeReason | null = credentials.mustChangePassword
+    ? 'reset'
+    : maxAgeDays > 0 && credentials.passwordChangedAt.getTime() + maxAgeDays * MS_PER_DAY < Date.now()
+      ? 'expired'
+      : null;
+  if (!reason) return null;
+
+  const [directoryIdentity] = await db.select({ id: userIdentities.id }).from(userIdentities)
+    .where(and(eq(userIdentities.userId, userId), eq(userIdentities.provider, 'ldap')))
+    .limit(1);
+  return directoryIdentity ? null : reason;
+}
+
+function isLocked(credentials: { lockedAt: Date | null; lockedUntil: Date | null } | undefined): boolean {
+  return !!credentials?.lockedAt && (!credentials.lockedUntil || credentials.lockedUntil.getTime() > Date.now());
+}
+
+/**
+ * Current lockout of the account; lockedUntil is null when only an admin can unlock it
+ */
+export async function getLockout(userId: number): Promise<{ locked: boolean; lockedUntil: Date | null }> {
+  const credentials = await getCredentials(userId);
+  return isLocked(credentials)
+    ? { locked: true, lockedUntil: credentials!.lockedUntil }
+    : { locked: false, lockedUntil: null };
+}
+
+/**
+ * Count a wrong password or two-factor code; locks the account when the policy's threshold is reached
+ */
+export async function recordFailedLogin(userId: number): Promise<{ locked: boolean; lockedUntil: Date | null }> {
+  const policy = await getPasswordPolicy();
+  if (policy.lockoutThreshold <= 0) {
+    return { locked: false, lockedUntil: null };
+  }
+
+  const credentials = await getCredentials(userId);
+  // A timed lock that ran out starts a fresh count
+  const previousCount = credentials?.lockedAt && !isLocked(credentials) ? 0 : credentials?.failedLoginCount ?? 0;
+  const failedLoginCount = previousCount + 1;
+  const now = new Date();
+  const lock = failedLoginCount >= policy.lockoutThreshold;
+  const lockedUntil = lock && policy.lockoutDurationMinutes > 0
+    ? new Date(now.getTime() + policy.lockoutDurationMinutes * MS_PER_MINUTE)
+    : null;
+
+  const state = {
+    failedLoginCount,
+    lastFailedLoginAt: now,
+    lockedAt: lock ? now : null,
+    lockedUntil,
+    updatedAt: now,
+  };
+  await db.insert(userCredentials)
+    .values({ userId, ...state })
+    .onConflictDoUpdate({ target: userCredentials.userId, set: state });
+
+  if (lock) {
+    logger.warn('auth', `Account locked after ${failedLoginCount} failed logins`, {
+      userId,
+      metadata: { failedLoginCount, lockedUntil: lockedUntil?.toISOString() ?? 'until unlocked by an admin' }
+    });
+    await logActivity({
+      userId,
+      action: AuditAction.SECURITY_ALERT,
+      entityType: EntityType.USER,
+      entityId: userId,
+      details: { event: 'account_locked', failedLoginCount, lockedUntil }
+    });
+  }
+  return { locked: lock, lockedUntil };
+}
+
+export async function recordSuccessfulLogin(userId: number): Promise<void> {
+  await db.update(userCredentials)
+    .set({ failedLoginCount: 0, lockedAt: null, lockedUntil: null, updatedAt: new Date() })
+    .where(eq(userCredentials.userId, userId));
+}
+
+/**
+ * Lift a lockout; false when the account was not locked
+ */
+export async function unlockUser(userId: number): Promise<boolean> {
+  if (!isLocked(await getCredentials(userId))) return false;
+  await recordSuccessfulLogin(userId);
+  return true;
+}
+
+/**
+ * Accounts locked right now, for the admin screen
+ */
+export async function getLockedUsers() {
+  const rows = await db.select({
+    userId: userCredentials.userId,
+    username: users.username,
+    email: users.email,
+    failedLoginCount: userCredentials.failedLoginCount,
+    lockedAt: userCredentials.lockedAt,
+    lockedUntil: userCredentials.lockedUntil,
+  })
+    .from(userCredentials)
+    .innerJoin(users, eq(users.id, userCredentials.userId))
+    .where(isNotNull(userCredentials.lockedAt))
+    .orderBy(desc(userCredentials.lockedAt));
+  return rows.filter(isLocked);
+}
+
+/**
+ * Login failure message for a locked account
+ */
+export function getLockoutMessage(lockedUntil: Date | null): string {
+  if (!lockedUntil) {
+    return 'Account is locked after too many failed sign-ins. Please contact your administrator.';
+  }
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / MS_PER_MINUTE));
+  return `Account is locked after too many failed sign-ins. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
@@ -0,0 +1,656 @@
+/**
+ * Purchase Order Service
+ * Procurement from vendors, optionally tied back to an approved upgrade request
+ * - Lifecycle: draft -> pending_approval -> approved -> ordered -> partially_received -> received;
+ *   a rejected order goes back to draft when edited, anything not yet received can be cancelled
+ * - The approval level is fixed on submission from the order total and the thresholds in
+ *   system config: auto-approved, manager, or admin; with an active 'purchase_order' approval
+ *   chain the level is 'chain' and the chain decides instead (see approvalService)
+ * - Receiving an asset line creates one asset per unit with the serial number captured at receipt
+ * - Orders linked to an upgrade make up its actual cost (see ACTUAL_COST_STATUSES)
+ */
+
+import { db } from '../db';
+import {
+  purchaseOrders, purchaseOrderLines, purchaseOrderReceipts, vendors, assetUpgrades, assets, users, systemConfig,
+  type PurchaseOrder, type PurchaseOrderLine, type PurchaseOrderReceipt
+} from '@shared/schema';
+import { and, asc, desc, eq, ilike, inArray, or, type SQL } from 'drizzle-orm';
+import { getRoleLevel, ROLE_IDS } from '@shared/roles.config';
+import { getAllLocations, getLocationPaths } from './locationService';
+import {
+  registerApprovalSubject, startApproval, notifyCurrentStep, getPendingApproval, cancelApproval, decideApproval,
+  getLinkedEmployeeId, type ApprovalOutcome
+} from './approvalService';
+import * as notificationService from './notificationService';
+import { logger } from './logger';
+
+export const PURCHASE_ORDER_STATUSES = [
+  'draft', 'pending_approval', 'approved', 'rejected', 'ordered', 'partially_received', 'received', 'cancelled'
+] as const;
+export type PurchaseOrderStatus = typeof PURCHASE_ORDER_STATUSES[number];
+
+export const APPROVAL_LEVELS = ['auto', 'manager', 'admin', 'chain'] as const;
+export type ApprovalLevel = typeof APPROVAL_LEVELS[number];
+
+// Orders counted as money spent (or committed) against an upgrade request
+export const ACTUAL_COST_STATUSES: PurchaseOrderStatus[] = ['approved', 'ordered', 'partially_received', 'received'];
+
+const EDITABLE_STATUSES: PurchaseOrderStatus[] = ['draft', 'rejected'];
+const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = ['approved', 'ordered', 'partially_received'];
+
+// Upgrade requests a purchase order can be raised for
+const PURCHASABLE_UPGRADE_STATUSES = ['Approved', 'In Progress'];
+
+export interface ApprovalLimits {
+  autoApproveLimit: number;
+  managerApprovalLimit: number;
+}
+
+export interface PurchaseOrderLineInput {
+  description: string;
+  createsAssets: boolean;
+  assetType: string | null;
+  assetBrand: string | null;
+  assetModelName: string | null;
+  quantity: number;
+  unitPrice: string;
+}
+
+export interface PurchaseOrderInput {
+  vendorId: number;
+  upgradeId: number | null;
+  expectedDate: string | null;
+  notes: string | null;
+  lines: PurchaseOrderLineInput[];
+}
+
+export interface ReceiveGoodsInput {
+  // Asset lines: one serial number per unit received; other lines: the quantity received
+  lines: Array<{ lineId: number; quantity?: number; serialNumbers?: string[] }>;
+  locationId: number | null;
+  notes: string | null;
+}
+
+export interface PurchaseOrderFilters {
+  status?: string;
+  vendorId?: number;
+  upgradeId?: number;
+  search?: string;
+}
+
+export interface PurchaseOrderSummary extends PurchaseOrder {
+  vendorName: string;
+  upgradeTitle: string | null;
+  createdByName: string | null;
+  decidedByName: string | null;
+  lineCount: number;
+  receivedAmount: number;
+}
+
+export interface PurchaseOrderReceiptDetails extends PurchaseOrderReceipt {
+  assetTag: string | null;
+  locationPath: string | null;
+  receivedByName: string | null;
+}
+
+export interface PurchaseOrderDetails extends PurchaseOrderSummary {
+  lines: PurchaseOrderLine[];
+  receipts: PurchaseOrderReceiptDetails[];
+}
+
+export class PurchaseOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PurchaseOrderError';
+  }
+}
+
+export function isPurchaseOrderStatus(value: unknown): value is PurchaseOrderStatus {
+  return typeof value === 'string' && (PURCHASE_ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export async function getApprovalLimits(): Promise<ApprovalLimits> {
+  const [config] = await db.select({
+    autoApproveLimit: systemConfig.poAutoApproveLimit,
+    managerApprovalLimit: systemConfig.poManagerApprovalLimit,
+  }).from(systemConfig).limit(1);
+
+  return {
+    autoApproveLimit: Number(config?.autoApproveLimit ?? 0),
+    managerApprovalLimit: Number(config?.managerApprovalLimit ?? 5000),
+  };
+}
+
+export function getApprovalLevel(totalAmount: number, limits: ApprovalLimits): ApprovalLevel {
+  if (totalAmount <= limits.autoApproveLimit) return 'auto';
+  if (totalAmount <= limits.managerApprovalLimit) return 'manager';
+  return 'admin';
+}
+
+/**
+ * Whether a user with this role may approve an order at the given level
+ */
+export function canApprove(role: string, level: ApprovalLevel | null): boolean {
+  const required = level === 'admin' ? ROLE_IDS.ADMIN : ROLE_IDS.MANAGER;
+  return getRoleLevel(role) >= getRoleLevel(required);
+}
+
+function calculateTotal(lines: Array<Pick<PurchaseOrderLine, 'quantity' | 'unitPrice'>>): string {
+  return lines.reduce((total, line) => total + line.quantity * Number(line.unitPrice), 0).toFixed(2);
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Lock an order row for a status change
+ */
+async function getOrderForUpdate(tx: Transaction, id: number) {
+  const [order] = await tx.select().from(purchaseOrders)
+    .where(eq(purchaseOrders.id, id))
+    .for('update');
+  if (!order) {
+    throw new PurchaseOrderError('Purchase order not found');
+  }
+  return order;
+}
+
+async function validateInput(input: PurchaseOrderInput, existing?: PurchaseOrder): Promise<void> {
+  const [vendor] = await db.select().from(vendors).where(eq(vendors.id, input.vendorId));
+  if (!vendor) {
+    throw new PurchaseOrderError('Vendor not found');
+  }
+  if (!vendor.isActive && existing?.vendorId !== vendor.id) {
+    throw new PurchaseOrderError('Vendor is inactive');
+  }
+
+  if (input.upgradeId && input.upgradeId !== existing?.upgradeId) {
+    const [upgrade] = await db.select({ status: assetUpgrades.status })
+      .from(assetUpgrades)
+      .where(eq(assetUpgrades.id, input.upgradeId));
+    if (!upgrade) {
+      throw new PurchaseOrderError('Upgrade request not found');
+    }
+    if (!PURCHASABLE_UPGRADE_STATUSES.includes(upgrade.status)) {
+      throw new PurchaseOrderError('Purchase orders can only be raised for approved upgrade requests');
+    }
+  }
+
+  if (input.lines.length === 0) {
+    throw new PurchaseOrderError('A purchase order needs at least one line');
+  }
+  for (const line of input.lines) {
+    if (line.createsAssets && (!line.assetType || !line.assetBrand)) {
+      throw new PurchaseOrderError(`Asset type and brand are required for "${line.description}"`);
+    }
+  }
+}
+
+function toLineValues(purchaseOrderId: number, lines: PurchaseOrderLineInput[]) {
+  return lines.map(line => ({
+    purchaseOrderId,
+    description: line.description,
+    createsAssets: line.createsAssets,
+    assetType: line.createsAssets ? line.assetType : null,
+    assetBrand: line.createsAssets ? line.assetBrand : null,
+    assetModelName: line.createsAssets ? line.assetModelName : null,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+  }));
+}
+
+/**
+ * Purchase orders, newest first, with vendor, upgrade and the value received so far
+ */
+export async function getPurchaseOrders(filters: PurchaseOrderFilters = {}): Promise<PurchaseOrderSummary[]> {
+  const conditions: SQL[] = [];
+  if (filters.status) conditions.push(eq(purchaseOrders.status, filters.status));
+  if (filters.vendorId) conditions.push(eq(purchaseOrders.vendorId, filters.vendorId));
+  if (filters.upgradeId) conditions.push(eq(purchaseOrders.upgradeId, filters.upgradeId));
+  if (filters.search) {
+    const pattern = `%${filters.search}%`;
+    conditions.push(or(
+      ilike(purchaseOrders.poNumber, pattern),
+      ilike(vendors.name, pattern),
+      ilike(purchaseOrders.notes, pattern)
+    )!);
+  }
+
+  return getSummaries(conditions);
+}
+
+async function getSummaries(conditions: SQL[]): Promise<PurchaseOrderSummary[]> {
+  const rows = await db.select({
+    order: purchaseOrders,
+    vendorName: vendors.name,
+    upgradeTitle: assetUpgrades.title,
+    createdByName: users.username,
+  })
+    .from(purchaseOrders)
+    .innerJoin(vendors, eq(purchaseOrders.vendorId, vendors.id))
+    .leftJoin(assetUpgrades, eq(purchaseOrders.upgradeId, assetUpgrades.id))
+    .leftJoin(users, eq(purchaseOrders.createdById, users.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(purchaseOrders.createdAt), desc(purchaseOrders.id));
+
+  const orderIds = rows.map(row => row.order.id);
+  const deciderIds = Array.from(new Set(rows.map(row => row.order.decidedById).filter((id): id is number => id !== null)));
+  const [lines, deciders] = await Promise.all([
+    orderIds.length > 0
+      ? db.select().from(purchaseOrderLines).where(inArray(purchaseOrderLines.purchaseOrderId, orderIds))
+      : Promise.resolve([]),
+    deciderIds.length > 0
+      ? db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, deciderIds))
+      : Promise.resolve([]),
+  ]);
+
+  const deciderNames = new Map(deciders.map(user => [user.id, user.username]));
+  return rows.map(({ order, vendorName, upgradeTitle, createdByName }) => {
+    const orderLines = lines.filter(line => line.purchaseOrderId === order.id);
+    return {
+      ...order,
+      vendorName,
+      upgradeTitle,
+      createdByName,
+      decidedByName: order.decidedById ? deciderNames.get(order.decidedById) || null : null,
+      lineCount: orderLines.length,
+      receivedAmount: orderLines.reduce((total, line) => total + line.receivedQuantity * Number(line.unitPrice), 0),
+    };
+  });
+}
+
+export async function getPurchaseOrder(id: number): Promise<PurchaseOrderDetails | undefined> {
+  const [summary] = await getSummaries([eq(purchaseOrders.id, id)]);
+  if (!summary) return undefined;
+
+  const [lines, receiptRows, allLocations] = await Promise.all([
+    db.select().from(purchaseOrderLines)
+      .where(eq(purchaseOrderLines.purchaseOrderId, id))
+      .orderBy(asc(purchaseOrderLines.id)),
+    db.select({ receipt: purchaseOrderReceipts, assetTag: assets.assetId, receivedByName: users.username })
+      .from(purchaseOrderReceipts)
+      .leftJoin(assets, eq(purchaseOrderReceipts.assetId, assets.id))
+      .leftJoin(users, eq(purchaseOrderReceipts.receivedById, users.id))
+      .where(eq(purchaseOrderReceipts.purchaseOrderId, id))
+      .orderBy(desc(purchaseOrderReceipts.receivedAt), asc(purchaseOrderReceipts.id)),
+    getAllLocations(),
+  ]);
+  const locationPaths = getLocationPaths(allLocations);
+
+  return {
+    ...summary,
+    lines,
+    receipts: receiptRows.map(({ receipt, assetTag, receivedByName }) => ({
+      ...receipt,
+      assetTag,
+      locationPath: receipt.locationId ? locationPaths.get(receipt.locationId) || null : null,
+      receivedByName,
+    })),
+  };
+}
+
+export async function createPurchaseOrder(input: PurchaseOrderInput, createdById: number): Promise<PurchaseOrder> {
+  await validateInput(input);
+
+  return db.transaction(async (tx) => {
+    const [order] = await tx.insert(purchaseOrders).values({
+      vendorId: input.vendorId,
+      upgradeId: input.upgradeId,
+      expectedDate: input.expectedDate,
+      notes: input.notes,
+      totalAmount: calculateTotal(input.lines),
+      createdById,
+    }).returning();
+    await tx.insert(purchaseOrderLines).values(toLineValues(order.id, input.lines));
+    return order;
+  });
+}
+
+/**
+ * Replace an editable order's header and lines; a rejected order returns to draft
+ */
+export async function updatePurchaseOrder(id: number, input: PurchaseOrderInput): Promise<PurchaseOrder> {
+  const [existing] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+  if (!existing) {
+    throw new PurchaseOrderError('Purchase order not found');
+  }
+  await validateInput(input, existing);
+
+  return db.transaction(async (tx) => {
+    const order = await getOrderForUpdate(tx, id);
+    if (!EDITABLE_STATUSES.includes(order.status as PurchaseOrderStatus)) {
+      throw new PurchaseOrderError('Only draft or rejected purchase orders can be edited');
+    }
+
+    await tx.delete(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id));
+    await tx.insert(purchaseOrderLines).values(toLineValues(id, input.lines));
+
+    const [updated] = await tx.update(purchaseOrders)
+      .set({
+        vendorId: input.vendorId,
+        upgradeId: input.upgradeId,
+        expectedDate: input.expectedDate,
+        notes: input.notes,
+        totalAmount: calculateTotal(input.lines),
+        status: 'draft',
+        approvalLevel: null,
+        decidedById: null,
+        decidedAt: null,
+        decisionNotes: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    return updated;
+  });
+}
+
+/**
+ * Users who may approve at a level: managers and admins for the manager level, admins above it
+ */
+async function getApprovers(level: ApprovalLevel): Promise<number[]> {
+  const approvers = await db.select({ id: users.id })
+    .from(users)
+    .where(and(
+      inArray(users.role, level === 'admin' ? ['admin'] : ['manager', 'admin']),
+      eq(users.isActive, true)
+    ));
+  return approvers.map(user => user.id);
+}
+
+/**
+ * Submit a draft for approval; orders within the auto-approval limit are approved straight away
+ * With an active approval chain the chain decides, approving straight away when no step applies
+ */
+export async function submitPurchaseOrder(id: number, submittedBy: { id: number; username: string }): Promise<PurchaseOrder> {
+  const limits = await getApprovalLimits();
+
+  const { order, approvalRequestId } = await db.transaction(async (tx) => {
+    const current = await getOrderForUpdate(tx, id);
+    if (current.status !== 'draft') {
+      throw new PurchaseOrderError('Only draft purchase orders can be submitted');
+    }
+
+    const [vendor] = await tx.select({ name: vendors.name }).from(vendors).where(eq(vendors.id, current.vendorId));
+    const approval = await startApproval(tx, {
+      requestType: 'purchase_order',
+      subjectId: current.id,
+      title: `${current.poNumber} (${vendor?.name || ''})`,
+      amount: current.totalAmount,
+      requestedById: submittedBy.id,
+      employeeId: await getLinkedEmployeeId(submittedBy.id, tx),
+    });
+
+    const level: ApprovalLevel = approval ? 'chain' : getApprovalLevel(Number(current.totalAmount), limits);
+    const approvedNow = approval ? approval.status === 'approved' : level === 'auto';
+    const now = new Date();
+    const [updated] = await tx.update(purchaseOrders)
+      .set({
+        status: approvedNow ? 'approved' : 'pending_approval',
+        approvalLevel: level,
+        submittedAt: now,
+        decidedAt: approvedNow ? now : null,
+        updatedAt: now,
+      })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    return { order: updated, approvalRequestId: approval?.status === 'pending' ? approval.id : null };
+  });
+
+  if (approvalRequestId) {
+    await notifyCurrentStep(approvalRequestId);
+  } else if (order.status === 'pending_approval') {
+    try {
+      const [vendor] = await db.select({ name: vendors.name }).from(vendors).where(eq(vendors.id, order.vendorId));
+      for (const userId of await getApprovers(order.approvalLevel as ApprovalLevel)) {
+        if (userId === submittedBy.id) continue;
+        await notificationService.notifyPurchaseOrderApproval({
+          userId,
+          purchaseOrderId: order.id,
+          poNumber: order.poNumber,
+          vendorName: vendor?.name || '',
+          totalAmount: order.totalAmount,
+          requestedBy: submittedBy.username,
+        });
+      }
+    } catch (error) {
+      logger.error('purchase-orders', 'Failed to notify purchase order approvers', {
+        userId: submittedBy.id,
+        metadata: { purchaseOrderId: id },
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+    }
+  }
+
+  return order;
+}
+
+async function notifyDecision(order: PurchaseOrder, decidedBy: { id: number; username: string }, approved: boolean, notes: string | null) {
+  if (!order.createdById || order.createdById === decidedBy.id) return;
+  try {
+    const [vendor] = await db.select({ name: vendors.name }).from(vendors).where(eq(vendors.id, order.vendorId));
+    await notificationService.notifyPurchaseOrderDecision({
+      userId: order.createdById,
+      purchaseOrderId: order.id,
+      poNumber: order.poNumber,
+      vendorName: vendor?.name || '',
+      approved,
+      decidedBy: decidedBy.username,
+      notes,
+    });
+  } catch (error) {
+    logger.error('purchase-orders', 'Failed to notify purchase order decision', {
+      userId: decidedBy.id,
+      metadata: { purchaseOrderId: order.id },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  }
+}
+
+/**
+ * Approve or reject an order waiting for approval
+ * Orders going through an approval chain only decide the chain's current step
+ */
+export async function decidePurchaseOrder(
+  id: number,
+  decidedBy: { id: number; username: string; role: string },
+  approved: boolean,
+  notes: string | null
+): Promise<PurchaseOrder> {
+  const pending = await getPendingApproval('purchase_order', id);
+  if (pending) {
+    await decideApproval(pending.id, decidedBy, { approved, comments: notes, via: 'app' });
+    const [order] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    return order;
+  }
+
+  const order = await db.transaction(async (tx) => {
+    const current = await getOrderForUpdate(tx, id);
+    if (current.status !== 'pending_approval') {
+      throw new PurchaseOrderError('Purchase order is not waiting for approval');
+    }
+    if (current.approvalLevel === 'chain') {
+      throw new PurchaseOrderError('This purchase order has no approval chain step waiting');
+    }
+    if (!canApprove(decidedBy.role, current.approvalLevel as ApprovalLevel | null)) {
+      throw new PurchaseOrderError('This purchase order needs an admin\'s approval');
+    }
+
+    const [updated] = await tx.update(purchaseOrders)
+      .set({
+        status: approved ? 'approved' : 'rejected',
+        decidedById: decidedBy.id,
+        decidedAt: new Date(),
+        decisionNotes: notes,
+        updatedAt: new Date(),
+      })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    return updated;
+  });
+
+  await notifyDecision(order, decidedBy, approved, notes);
+  return order;
+}
+
+registerApprovalSubject('purchase_order', {
+  async complete(tx, subjectId, outcome: ApprovalOutcome) {
+    await tx.update(purchaseOrders)
+      .set({
+        status: outcome.approved ? 'approved' : 'rejected',
+        decidedById: outcome.decidedBy.id,
+        decidedAt: new Date(),
+        decisionNotes: outcome.notes,
+        updatedAt: new Date(),
+      })
+      .where(eq(purchaseOrders.id, subjectId));
+  },
+
+  async afterComplete(subjectId, outcome) {
+    const [order] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, subjectId));
+    if (order) {
+      await notifyDecision(order, outcome.decidedBy, outcome.approved, outcome.notes);
+    }
+  },
+});
+
+/**
+ * Record that an approved order was sent to the vendor
+ */
+export async function markOrdered(id: number): Promise<PurchaseOrder> {
+  return db.transaction(async (tx) => {
+    const current = await getOrderForUpdate(tx, id);
+    if (current.status !== 'approved') {
+      throw new PurchaseOrderError('Only approved purchase orders can be marked as ordered');
+    }
+    const [updated] = await tx.update(purchaseOrders)
+      .set({ status: 'ordered', orderedAt: new Date(), updatedAt: new Date() })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    return updated;
+  });
+}
+
+/**
+ * Cancel an order nothing has been received against
+ */
+export async function cancelPurchaseOrder(id: number): Promise<PurchaseOrder> {
+  return db.transaction(async (tx) => {
+    const current = await getOrderForUpdate(tx, id);
+    if (['partially_received', 'received', 'cancelled'].includes(current.status)) {
+      throw new PurchaseOrderError('Purchase orders with received goods cannot be cancelled');
+    }
+    await cancelApproval(tx, 'purchase_order', id);
+    const [updated] = await tx.update(purchaseOrders)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    return updated;
+  });
+}
+
+/**
+ * Receive goods against an order; asset lines create one asset per serial number
+ * Returns the updated order and the assets created
+ */
+export async function receiveGoods(
+  id: number,
+  input: ReceiveGoodsInput,
+  receivedById: number
+): Promise<{ order: PurchaseOrder; assetIds: number[] }> {
+  return db.transaction(async (tx) => {
+    const order = await getOrderForUpdate(tx, id);
+    if (!RECEIVABLE_STATUSES.includes(order.status as PurchaseOrderStatus)) {
+      throw new PurchaseOrderError('Goods can only be received against approved or ordered purchase orders');
+    }
+
+    const lines = await tx.select().from(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id));
+    const linesById = new Map(lines.map(line => [line.id, line]));
+
+    const serialNumbers = input.lines.flatMap(line => line.serialNumbers ?? []);
+    if (new Set(serialNumbers.map(serial => serial.toLowerCase())).size !== serialNumbers.length) {
+      throw new PurchaseOrderError('Each serial number can only be received once');
+    }
+    if (serialNumbers.length > 0) {
+      const existing = await tx.select({ serialNumber: assets.serialNumber })
+        .from(assets)
+        .where(inArray(assets.serialNumber, serialNumbers));
+      if (existing.length > 0) {
+        throw new PurchaseOrderError(`An asset with serial number ${existing[0].serialNumber} already exists`);
+      }
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const assetIds: number[] = [];
+    let receivedUnits = 0;
+    for (const received of input.lines) {
+      const line = linesById.get(received.lineId);
+      if (!line) {
+        throw new PurchaseOrderError('Line does not belong to this purchase order');
+      }
+      const quantity = line.createsAssets ? received.serialNumbers?.length ?? 0 : received.quantity ?? 0;
+      if (quantity <= 0) continue;
+      if (line.receivedQuantity + quantity > line.quantity) {
+        throw new PurchaseOrderError(`Only ${line.quantity - line.receivedQuantity} more of "${line.description}" can be received`);
+      }
+
+      if (line.createsAssets) {
+        for (const serialNumber of received.serialNumbers!) {
+          const [asset] = await tx.insert(assets).values({
+            type: line.assetType!,
+            brand: line.assetBrand!,
+            modelName: line.assetModelName,
+            serialNumber,
+            status: 'Available',
+            purchaseDate: today,
+            buyPrice: line.unitPrice,
+            locationId: input.locationId,
+          }).returning({ id: assets.id });
+          assetIds.push(asset.id);
+
+          await tx.insert(purchaseOrderReceipts).values({
+            purchaseOrderId: id,
+            lineId: line.id,
+            quantity: 1,
+            assetId: asset.id,
+            serialNumber,
+            locationId: input.locationId,
+            notes: input.notes,
+            receivedById,
+          });
+        }
+      } else {
+        await tx.insert(purchaseOrderReceipts).values({
+          purchaseOrderId: id,
+          lineId: line.id,
+          quantity,
+          locationId: input.locationId,
+          notes: input.notes,
+          receivedById,
+        });
+      }
+
+      line.receivedQuantity += quantity;
+      receivedUnits += quantity;
+      await tx.update(purchaseOrderLines)
+        .set({ receivedQuantity: line.receivedQuantity })
+        .where(eq(purchaseOrderLines.id, line.id));
+    }
+
+    if (receivedUnits === 0) {
+      throw new PurchaseOrderError('Nothing to receive');
+    }
+
+    const complete = lines.every(line => line.receivedQuantity >= line.quantity);
+    const [updated] = await tx.update(purchaseOrders)
+      .set({
+        status: complete ? 'received' : 'partially_received',
+        receivedAt: complete ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+
+    return { order: updated, assetIds };
+  });
+}
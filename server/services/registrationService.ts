@@ -11,6 +11,7 @@ import { registrationTokens, type RegistrationToken, type InsertRegistrationToke
 import { db } from '../db';
 import { eq, and, gt } from 'drizzle-orm';
 import { emailService } from '../emailService';
+import { recordPasswordChange } from './passwordPolicyService';
 
 const TOKEN_EXPIRY_HOURS = 24;
 
@@ -269,6 +270,9 @@ export async function completeRegistration(verification: RegistrationVerificatio
       isActive: true
     });
 
+    // Starts the password age for the password policy
+    await recordPasswordChange(newUser.id, null);
+
     // Link user to employee
     await storage.updateEmployee(employee.id, { userId: newUser.id });
 
@@ -0,0 +1,473 @@
+/**
+ * Service Catalog Service
+ * Admin-defined requestable items ("New laptop", "VPN access") with their own request form
+ * - Each item carries the ticket defaults (type, category, urgency/impact) and a fulfillment task list
+ * - Submitted answers are validated against the item's form and kept as a snapshot on the request
+ * - Items that need approval go through the 'service_request' approval chain, or the requester's
+ *   direct manager when no chain is active; the ticket is opened once the request is approved
+ * - Agents see the answers and tick off the fulfillment tasks on the ticket
+ */
+
+import { db } from '../db';
+import {
+  serviceCatalogItems, serviceRequests, serviceRequestTasks, categories, employees, tickets, users,
+  type InsertTicket, type ServiceCatalogItem, type ServiceRequest, type ServiceRequestTask, type Ticket
+} from '@shared/schema';
+import { and, asc, desc, eq, inArray, type SQL } from 'drizzle-orm';
+import { storage } from '../storage';
+import {
+  registerApprovalSubject, startApproval, cancelApproval, notifyCurrentStep,
+  type ApprovalChainStepInput, type ApprovalOutcome
+} from './approvalService';
+import * as notificationService from './notificationService';
+import { emitWebhookEvent, toTicketWebhookData } from './webhookService';
+import { logger } from './logger';
+
+export const FORM_FIELD_TYPES = ['text', 'textarea', 'number', 'select', 'checkbox', 'date'] as const;
+export type FormFieldType = typeof FORM_FIELD_TYPES[number];
+
+export const SERVICE_REQUEST_STATUSES = ['pending_approval', 'submitted', 'rejected', 'cancelled'] as const;
+export type ServiceRequestStatus = typeof SERVICE_REQUEST_STATUSES[number];
+
+const MAX_TEXT_LENGTH: Record<'text' | 'textarea', number> = {
+  text: 255,
+  textarea: 5000,
+};
+
+// Approval used when an item needs approval but no 'service_request' chain is active
+const DEFAULT_APPROVAL_STEPS: ApprovalChainStepInput[] = [
+  { name: 'Direct manager', approverType: 'direct_manager', approverRole: null, approverUserId: null, minAmount: null },
+];
+
+export class ServiceCatalogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServiceCatalogError';
+  }
+}
+
+export interface ServiceFormField {
+  key: string;
+  label: string;
+  type: FormFieldType;
+  required: boolean;
+  options?: string[]; // select only
+}
+
+export interface ServiceRequestAnswer {
+  key: string;
+  label: string;
+  type: FormFieldType;
+  value: string | number | boolean | null;
+}
+
+export interface ServiceCatalogItemInput {
+  name: string;
+  description: string | null;
+  icon: string | null;
+  formFields: ServiceFormField[];
+  ticketType: ServiceCatalogItem['ticketType'];
+  categoryId: number | null;
+  urgency: ServiceCatalogItem['urgency'];
+  impact: ServiceCatalogItem['impact'];
+  requiresApproval: boolean;
+  fulfillmentTasks: string[];
+  sortOrder: number;
+  isActive: boolean;
+}
+
+export interface ServiceCatalogItemDetails extends ServiceCatalogItem {
+  categoryName: string | null;
+}
+
+export interface ServiceRequestTaskDetails extends ServiceRequestTask {
+  completedByName: string | null;
+}
+
+export interface ServiceRequestDetails extends ServiceRequest {
+  employeeName: string | null;
+  requestedByName: string | null;
+  ticketCode: string | null;
+  tasks: ServiceRequestTaskDetails[];
+}
+
+// ============================================================================
+// Catalog items
+// ============================================================================
+
+/**
+ * Field keys identify answers, so they must be unique within a form; select fields need options
+ */
+function validateFormFields(fields: ServiceFormField[]): void {
+  const keys = new Set<string>();
+  for (const field of fields) {
+    if (keys.has(field.key)) {
+      throw new ServiceCatalogError(`Form field key "${field.key}" is used more than once`);
+    }
+    keys.add(field.key);
+    if (field.type === 'select' && !field.options?.length) {
+      throw new ServiceCatalogError(`Select field "${field.label}" needs at least one option`);
+    }
+  }
+}
+
+function toItemValues(input: ServiceCatalogItemInput) {
+  validateFormFields(input.formFields);
+  return {
+    ...input,
+    formFields: input.formFields.map(field => ({
+      key: field.key,
+      label: field.label,
+      type: field.type,
+      required: field.required,
+      ...(field.type === 'select' ? { options: field.options } : {}),
+    })),
+  };
+}
+
+export async function getCatalogItems(options: { includeInactive?: boolean } = {}): Promise<ServiceCatalogItemDetails[]> {
+  const rows = await db.select({ item: serviceCatalogItems, categoryName: categories.name })
+    .from(serviceCatalogItems)
+    .leftJoin(categories, eq(categories.id, serviceCatalogItems.categoryId))
+    .where(options.includeInactive ? undefined : eq(serviceCatalogItems.isActive, true))
+    .orderBy(asc(serviceCatalogItems.sortOrder), asc(serviceCatalogItems.name));
+  return rows.map(row => ({ ...row.item, categoryName: row.categoryName }));
+}
+
+export async function getCatalogItem(id: number): Promise<ServiceCatalogItem | undefined> {
+  const [item] = await db.select().from(serviceCatalogItems).where(eq(serviceCatalogItems.id, id));
+  return item;
+}
+
+export async function createCatalogItem(input: ServiceCatalogItemInput, createdById: number): Promise<ServiceCatalogItem> {
+  const [item] = await db.insert(serviceCatalogItems)
+    .values({ ...toItemValues(input), createdById })
+    .returning();
+  return item;
+}
+
+/**
+ * Requests already submitted keep the answers they were given; pending ones are fulfilled
+ * with the item's ticket defaults and tasks as they are when approved
+ */
+export async function updateCatalogItem(id: number, input: ServiceCatalogItemInput): Promise<ServiceCatalogItem | undefined> {
+  const [item] = await db.update(serviceCatalogItems)
+    .set({ ...toItemValues(input), updatedAt: new Date() })
+    .where(eq(serviceCatalogItems.id, id))
+    .returning();
+  return item;
+}
+
+/**
+ * Past requests keep the item name; items with requests still waiting for approval can only be deactivated
+ */
+export async function deleteCatalogItem(id: number): Promise<boolean> {
+  const [pending] = await db.select({ id: serviceRequests.id })
+    .from(serviceRequests)
+    .where(and(eq(serviceRequests.itemId, id), eq(serviceRequests.status, 'pending_approval')))
+    .limit(1);
+  if (pending) {
+    throw new ServiceCatalogError('This item has requests waiting for approval; deactivate it instead');
+  }
+  const deleted = await db.delete(serviceCatalogItems).where(eq(serviceCatalogItems.id, id)).returning();
+  return deleted.length > 0;
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Check submitted values against the item's form and snapshot them with their labels
+ */
+export function buildAnswers(fields: ServiceFormField[], values: Record<string, unknown>): ServiceRequestAnswer[] {
+  return fields.map(field => {
+    const raw = values[field.key];
+    let value: ServiceRequestAnswer['value'] = null;
+
+    if (field.type === 'checkbox') {
+      value = raw === true;
+      if (field.required && !value) {
+        throw new ServiceCatalogError(`"${field.label}" must be ticked`);
+      }
+    } else if (isBlank(raw)) {
+      if (field.required) {
+        throw new ServiceCatalogError(`"${field.label}" is required`);
+      }
+    } else if (field.type === 'number') {
+      value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      if (!Number.isFinite(value)) {
+        throw new ServiceCatalogError(`"${field.label}" must be a number`);
+      }
+    } else if (field.type === 'date') {
+      value = String(raw).trim();
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+        throw new ServiceCatalogError(`"${field.label}" must be a date (YYYY-MM-DD)`);
+      }
+    } else if (field.type === 'select') {
+      value = String(raw);
+      if (!field.options?.includes(value)) {
+        throw new ServiceCatalogError(`"${field.label}" must be one of: ${field.options?.join(', ')}`);
+      }
+    } else {
+      value = String(raw).trim();
+      if (value.length > MAX_TEXT_LENGTH[field.type]) {
+        throw new ServiceCatalogError(`"${field.label}" is longer than ${MAX_TEXT_LENGTH[field.type]} characters`);
+      }
+    }
+
+    return { key: field.key, label: field.label, type: field.type, value };
+  });
+}
+
+function formatAnswer(answer: ServiceRequestAnswer): string {
+  if (answer.value === null || answer.value === '') return '-';
+  if (typeof answer.value === 'boolean') return answer.value ? 'Yes' : 'No';
+  return String(answer.value);
+}
+
+/**
+ * Open the fulfillment ticket of an approved (or approval-free) request and copy the item's tasks onto it
+ * Returns the ticket, or null when the request isn't ready for one
+ */
+async function openServiceTicket(serviceRequestId: number): Promise<Ticket | null> {
+  const [row] = await db.select({ request: serviceRequests, employeeName: employees.englishName })
+    .from(serviceRequests)
+    .innerJoin(employees, eq(employees.id, serviceRequests.employeeId))
+    .where(eq(serviceRequests.id, serviceRequestId));
+  if (!row || row.request.status !== 'submitted') return null;
+  const { request } = row;
+  if (request.ticketId) {
+    const [existing] = await db.select().from(tickets).where(eq(tickets.id, request.ticketId));
+    return existing ?? null;
+  }
+
+  const item = request.itemId ? await getCatalogItem(request.itemId) : undefined;
+  const answers = request.answers as ServiceRequestAnswer[];
+  const lines = [
+    `Service request: ${request.itemName}`,
+    ...(answers.length > 0 ? ['', ...answers.map(answer => `${answer.label}: ${formatAnswer(answer)}`)] : []),
+  ];
+
+  const ticketData: InsertTicket = {
+    submittedById: request.employeeId,
+    type: item?.ticketType ?? 'Service Request',
+    categoryId: item?.categoryId ?? null,
+    urgency: item?.urgency ?? 'Medium',
+    impact: item?.impact ?? 'Medium',
+    status: 'Open',
+    title: `${request.itemName} - ${row.employeeName}`,
+    description: lines.join('\n'),
+  };
+  const created = await storage.createTicketWithHistory(ticketData);
+
+  const taskTitles = (item?.fulfillmentTasks as string[] | undefined) ?? [];
+  await db.transaction(async (tx) => {
+    if (taskTitles.length > 0) {
+      await tx.insert(serviceRequestTasks).values(taskTitles.map((title, index) => ({
+        serviceRequestId: request.id,
+        sortOrder: index + 1,
+        title,
+      })));
+    }
+    await tx.update(serviceRequests)
+      .set({ ticketId: created.id, updatedAt: new Date() })
+      .where(eq(serviceRequests.id, request.id));
+  });
+
+  const [ticket] = await db.select().from(tickets).where(eq(tickets.id, created.id));
+  emitWebhookEvent('ticket.created', toTicketWebhookData(ticket));
+  return ticket;
+}
+
+/**
+ * Submit a catalog item for an employee
+ * Items needing approval wait for it; the rest get their ticket straight away
+ */
+export async function submitServiceRequest(
+  itemId: number,
+  values: Record<string, unknown>,
+  requester: { userId: number; username: string; employeeId: number }
+): Promise<ServiceRequest> {
+  const item = await getCatalogItem(itemId);
+  if (!item || !item.isActive) {
+    throw new ServiceCatalogError('This catalog item is not available');
+  }
+  const answers = buildAnswers(item.formFields as ServiceFormField[], values);
+
+  const { request, approval } = await db.transaction(async (tx) => {
+    const [created] = await tx.insert(serviceRequests).values({
+      itemId: item.id,
+      itemName: item.name,
+      answers,
+      status: item.requiresApproval ? 'pending_approval' : 'submitted',
+      employeeId: requester.employeeId,
+      requestedById: requester.userId,
+    }).returning();
+    if (!item.requiresApproval) {
+      return { request: created, approval: null };
+    }
+
+    const approval = await startApproval(tx, {
+      requestType: 'service_request',
+      subjectId: created.id,
+      title: `${item.name} - ${requester.username}`,
+      amount: null,
+      requestedById: requester.userId,
+      employeeId: requester.employeeId,
+      defaultSteps: DEFAULT_APPROVAL_STEPS,
+    });
+    // Every step of the chain was skipped
+    if (approval?.status === 'approved') {
+      const [approved] = await tx.update(serviceRequests)
+        .set({ status: 'submitted', updatedAt: new Date() })
+        .where(eq(serviceRequests.id, created.id))
+        .returning();
+      return { request: approved, approval };
+    }
+    return { request: created, approval };
+  });
+
+  if (approval?.status === 'pending') {
+    await notifyCurrentStep(approval.id);
+    return request;
+  }
+  await openServiceTicket(request.id);
+  const [refreshed] = await db.select().from(serviceRequests).where(eq(serviceRequests.id, request.id));
+  return refreshed;
+}
+
+registerApprovalSubject('service_request', {
+  async complete(tx, subjectId, outcome: ApprovalOutcome) {
+    await tx.update(serviceRequests)
+      .set({ status: outcome.approved ? 'submitted' : 'rejected', updatedAt: new Date() })
+      .where(and(eq(serviceRequests.id, subjectId), eq(serviceRequests.status, 'pending_approval')));
+  },
+
+  async afterComplete(subjectId, outcome) {
+    const ticket = outcome.approved ? await openServiceTicket(subjectId) : null;
+    const [request] = await db.select().from(serviceRequests).where(eq(serviceRequests.id, subjectId));
+    if (!request) return;
+    try {
+      await notificationService.notifyServiceRequestDecision({
+        userId: request.requestedById,
+        serviceRequestId: request.id,
+        itemName: request.itemName,
+        approved: outcome.approved,
+        decidedBy: outcome.decidedBy.username,
+        notes: outcome.notes,
+        ticketId: ticket?.ticketId ?? null,
+      });
+    } catch (error) {
+      logger.error('service-catalog', 'Failed to notify requester of service request decision', {
+        metadata: { serviceRequestId: subjectId },
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+    }
+  },
+});
+
+/**
+ * Withdraw a request that is still waiting for approval (requester only)
+ */
+export async function cancelServiceRequest(id: number, employeeId: number): Promise<ServiceRequest> {
+  return db.transaction(async (tx) => {
+    const [current] = await tx.select().from(serviceRequests)
+      .where(eq(serviceRequests.id, id))
+      .for('update');
+    if (!current || current.employeeId !== employeeId) {
+      throw new ServiceCatalogError('Service request not found');
+    }
+    if (current.status !== 'pending_approval') {
+      throw new ServiceCatalogError('Only requests waiting for approval can be cancelled');
+    }
+    await cancelApproval(tx, 'service_request', id);
+    const [cancelled] = await tx.update(serviceRequests)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(eq(serviceRequests.id, id))
+      .returning();
+    return cancelled;
+  });
+}
+
+async function withDetails(requests: ServiceRequest[]): Promise<ServiceRequestDetails[]> {
+  if (requests.length === 0) return [];
+
+  const employeeIds = Array.from(new Set(requests.map(request => request.employeeId)));
+  const ticketIds = requests.map(request => request.ticketId).filter((id): id is number => id !== null);
+  const [employeeRows, ticketRows, taskRows] = await Promise.all([
+    db.select({ id: employees.id, name: employees.englishName }).from(employees).where(inArray(employees.id, employeeIds)),
+    ticketIds.length > 0
+      ? db.select({ id: tickets.id, ticketId: tickets.ticketId }).from(tickets).where(inArray(tickets.id, ticketIds))
+      : Promise.resolve([]),
+    db.select().from(serviceRequestTasks)
+      .where(inArray(serviceRequestTasks.serviceRequestId, requests.map(request => request.id)))
+      .orderBy(asc(serviceRequestTasks.sortOrder)),
+  ]);
+
+  const userIds = Array.from(new Set([
+    ...requests.map(request => request.requestedById),
+    ...taskRows.map(task => task.completedById).filter((id): id is number => id !== null),
+  ]));
+  const userRows = await db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, userIds));
+
+  const employeeNames = new Map(employeeRows.map(row => [row.id, row.name]));
+  const ticketCodes = new Map(ticketRows.map(row => [row.id, row.ticketId]));
+  const usernames = new Map(userRows.map(row => [row.id, row.username]));
+
+  return requests.map(request => ({
+    ...request,
+    employeeName: employeeNames.get(request.employeeId) ?? null,
+    requestedByName: usernames.get(request.requestedById) ?? null,
+    ticketCode: request.ticketId ? ticketCodes.get(request.ticketId) ?? null : null,
+    tasks: taskRows
+      .filter(task => task.serviceRequestId === request.id)
+      .map(task => ({ ...task, completedByName: task.completedById ? usernames.get(task.completedById) ?? null : null })),
+  }));
+}
+
+export async function getServiceRequests(filters: {
+  employeeId?: number;
+  status?: ServiceRequestStatus;
+  limit?: number;
+} = {}): Promise<ServiceRequestDetails[]> {
+  const conditions: SQL[] = [];
+  if (filters.employeeId) conditions.push(eq(serviceRequests.employeeId, filters.employeeId));
+  if (filters.status) conditions.push(eq(serviceRequests.status, filters.status));
+
+  const rows = await db.select().from(serviceRequests)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(serviceRequests.createdAt))
+    .limit(filters.limit ?? 200);
+  return withDetails(rows);
+}
+
+export async function getServiceRequest(id: number): Promise<ServiceRequestDetails | undefined> {
+  const [request] = await db.select().from(serviceRequests).where(eq(serviceRequests.id, id));
+  return request ? (await withDetails([request]))[0] : undefined;
+}
+
+/**
+ * The catalog request a ticket was opened for, if any
+ */
+export async function getServiceRequestForTicket(ticketId: number): Promise<ServiceRequestDetails | undefined> {
+  const [request] = await db.select().from(serviceRequests).where(eq(serviceRequests.ticketId, ticketId));
+  return request ? (await withDetails([request]))[0] : undefined;
+}
+
+/**
+ * Tick a fulfillment task off, or reopen it
+ */
+export async function setTaskDone(taskId: number, done: boolean, userId: number): Promise<ServiceRequestTask | undefined> {
+  const [task] = await db.update(serviceRequestTasks)
+    .set(done
+      ? { status: 'done', completedById: userId, completedAt: new Date() }
+      : { status: 'pending', completedById: null, completedAt: null })
+    .where(eq(serviceRequestTasks.id, taskId))
+    .returning();
+  return task;
+}
@@ -0,0 +1,166 @@
+/**
+ * Session Service
+ * Active-session management on top of the database-backed express-session store (sessions table)
+ * - Each signed-in session records the client's user agent, IP and last activity
+ * - Sessions are exposed by a hash of their ID; the session ID itself never leaves the server
+ * - Revoking a session deletes its row, so the next request from that browser is signed out
+ */
+
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import 'express-session';
+import { db } from '../db';
+import { sessions } from '@shared/schema';
+import { and, desc, gt, sql } from 'drizzle-orm';
+
+// Writing lastSeenAt on every request would rewrite the row constantly; once a minute is enough
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+const MAX_USER_AGENT_LENGTH = 300;
+
+/**
+ * Client details stored with a signed-in session
+ */
+export interface SessionClientInfo {
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    client?: SessionClientInfo;
+  }
+}
+
+export interface ActiveSession {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: Date;
+  current: boolean;
+}
+
+/**
+ * Public identifier of a session (the raw session ID works as a bearer credential)
+ */
+function toSessionKey(sid: string): string {
+  return crypto.createHash('sha256').update(sid).digest('hex').slice(0, 32);
+}
+
+/**
+ * Short human-readable label such as "Chrome on Windows"
+ */
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  let browser = 'Unknown browser';
+  if (/Edg\//.test(userAgent)) browser = 'Edge';
+  else if (/OPR\/|Opera/.test(userAgent)) browser = 'Opera';
+  else if (/Firefox\//.test(userAgent)) browser = 'Firefox';
+  else if (/Chrome\/|CriOS\//.test(userAgent)) browser = 'Chrome';
+  else if (/Safari\//.test(userAgent)) browser = 'Safari';
+  else if (/curl|PowerShell|python|axios|node/i.test(userAgent)) browser = 'Script';
+
+  let os = '';
+  if (/Windows/.test(userAgent)) os = 'Windows';
+  else if (/Android/.test(userAgent)) os = 'Android';
+  else if (/iPhone|iPad|iPod/.test(userAgent)) os = 'iOS';
+  else if (/Mac OS X|Macintosh/.test(userAgent)) os = 'macOS';
+  else if (/CrOS/.test(userAgent)) os = 'ChromeOS';
+  else if (/Linux/.test(userAgent)) os = 'Linux';
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Record (or refresh) the client details of the current session
+ */
+export function recordSessionClient(req: Request): void {
+  const now = new Date();
+  const existing = req.session.client;
+  const userAgent = req.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) ?? null;
+  const ip = req.ip ?? null;
+
+  if (existing
+    && existing.userAgent === userAgent
+    && existing.ip === ip
+    && now.getTime() - new Date(existing.lastSeenAt).getTime() < LAST_SEEN_RESOLUTION_MS) {
+    return;
+  }
+
+  req.session.client = {
+    userAgent,
+    ip,
+    createdAt: existing?.createdAt ?? now.toISOString(),
+    lastSeenAt: now.toISOString()
+  };
+}
+
+/**
+ * Middleware (after passport.session()) keeping the "last seen" details of signed-in sessions current
+ */
+export function trackSessionActivity(req: Request, _res: Response, next: NextFunction) {
+  if (req.isAuthenticated?.()) {
+    recordSessionClient(req);
+  }
+  next();
+}
+
+async function getSessionRows(userId: number) {
+  return db.select()
+    .from(sessions)
+    .where(and(
+      sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`,
+      gt(sessions.expire, new Date())
+    ))
+    .orderBy(desc(sessions.expire));
+}
+
+/**
+ * Unexpired sessions of a user, most recently active first
+ */
+export async function listUserSessions(userId: number, currentSessionId?: string): Promise<ActiveSession[]> {
+  const rows = await getSessionRows(userId);
+
+  const result = rows.map(row => {
+    const client = (row.sess as { client?: SessionClientInfo }).client;
+    return {
+      id: toSessionKey(row.sid),
+      device: describeDevice(client?.userAgent ?? null),
+      userAgent: client?.userAgent ?? null,
+      ip: client?.ip ?? null,
+      createdAt: client?.createdAt ?? null,
+      lastSeenAt: client?.lastSeenAt ?? null,
+      expiresAt: row.expire,
+      current: row.sid === currentSessionId
+    };
+  });
+
+  return result.sort((a, b) => {
+    if (a.current !== b.current) return a.current ? -1 : 1;
+    return (b.lastSeenAt ?? '').localeCompare(a.lastSeenAt ?? '');
+  });
+}
+
+/**
+ * Session ID behind a public session key, or null if the user has no such session
+ */
+export async function findUserSessionId(userId: number, key: string): Promise<string | null> {
+  const rows = await getSessionRows(userId);
+  return rows.find(row => toSessionKey(row.sid) === key)?.sid ?? null;
+}
+
+/**
+ * Delete one session of a user by its public key
+ */
+export async function revokeUserSession(userId: number, key: string): Promise<boolean> {
+  const sid = await findUserSessionId(userId, key);
+  if (!sid) return false;
+
+  await db.delete(sessions).where(sql`${sessions.sid} = ${sid}`);
+  return true;
+}
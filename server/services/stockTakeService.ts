@@ -0,0 +1,477 @@
+/**
+ * Stock-take Service
+ * Physical inventory campaigns reconciling the asset register with what auditors find
+ * - Opening a campaign snapshots every asset in scope (department, type, assignee, location)
+ * - Auditors count each asset as found, misplaced, missing or with the wrong assignee;
+ *   assets counted outside the scope are added as unexpected
+ * - Every discrepancy comes with the correction that resolves it; applying a correction
+ *   updates the asset and writes an "Audit" asset transaction
+ * - Closing writes an "Audit" transaction per counted asset so the result stays in the asset history
+ */
+
+import { db } from '../db';
+import {
+  stockTakes, stockTakeItems, assets, assetTransactions, employees,
+  type Asset, type StockTake, type StockTakeItem, type AssetTransaction
+} from '@shared/schema';
+import { and, asc, eq, inArray, isNull, notInArray, type SQL } from 'drizzle-orm';
+import { getAllLocations, getDescendantIds, getLocationPaths } from './locationService';
+
+export const STOCK_TAKE_RESULTS = ['found', 'misplaced', 'missing', 'wrong_assignee'] as const;
+export type StockTakeResult = typeof STOCK_TAKE_RESULTS[number];
+
+export const STOCK_TAKE_RESULT_LABELS: Record<StockTakeResult, string> = {
+  found: 'Found',
+  misplaced: 'Misplaced',
+  missing: 'Missing',
+  wrong_assignee: 'Wrong assignee',
+};
+
+// Assets the company no longer holds are left out of campaigns
+export const STOCK_TAKE_EXCLUDED_STATUSES = ['Sold', 'Retired', 'Disposed'];
+
+// Status given to assets confirmed missing; a found asset in one of the lost statuses is restored
+export const MISSING_STATUS = 'Missing';
+const LOST_STATUSES = [MISSING_STATUS, 'Lost'];
+
+export interface StockTakeScope {
+  department?: string | null;
+  assetType?: string | null;
+  assignedEmployeeId?: number | null;
+  locationId?: number | null;
+}
+
+export interface StockTakeCount {
+  result: StockTakeResult;
+  foundLocationId?: number | null;
+  foundEmployeeId?: number | null;
+  notes?: string | null;
+}
+
+export type StockTakeCorrection =
+  | { action: 'mark_missing'; status: string }
+  | { action: 'restore'; status: string }
+  | { action: 'move'; toLocationId: number }
+  | { action: 'reassign'; toEmployeeId: number | null };
+
+export interface StockTakeLine extends StockTakeItem {
+  asset: Pick<Asset, 'id' | 'assetId' | 'type' | 'brand' | 'modelName' | 'serialNumber' | 'status' | 'assignedEmployeeId' | 'locationId'>;
+  expectedEmployeeName: string | null;
+  foundEmployeeName: string | null;
+  expectedLocationPath: string | null;
+  foundLocationPath: string | null;
+  correction: StockTakeCorrection | null;
+}
+
+export interface StockTakeSummary {
+  total: number;
+  counted: number;
+  notCounted: number;
+  found: number;
+  misplaced: number;
+  missing: number;
+  wrongAssignee: number;
+  unexpected: number;
+  pendingCorrections: number;
+  corrected: number;
+}
+
+export interface StockTakeDetails {
+  stockTake: StockTake;
+  summary: StockTakeSummary;
+  items: StockTakeLine[];
+}
+
+export function isStockTakeResult(value: unknown): value is StockTakeResult {
+  return typeof value === 'string' && (STOCK_TAKE_RESULTS as readonly string[]).includes(value);
+}
+
+/**
+ * Assets a campaign with this scope expects to find
+ */
+export async function findAssetsInScope(scope: StockTakeScope): Promise<Asset[]> {
+  const conditions: SQL[] = [notInArray(assets.status, STOCK_TAKE_EXCLUDED_STATUSES)];
+
+  if (scope.assetType) {
+    conditions.push(eq(assets.type, scope.assetType));
+  }
+  if (scope.assignedEmployeeId) {
+    conditions.push(eq(assets.assignedEmployeeId, scope.assignedEmployeeId));
+  }
+  if (scope.department) {
+    conditions.push(inArray(
+      assets.assignedEmployeeId,
+      db.select({ id: employees.id }).from(employees).where(eq(employees.department, scope.department))
+    ));
+  }
+  if (scope.locationId) {
+    const rows = await getAllLocations();
+    conditions.push(inArray(assets.locationId, getDescendantIds(rows, scope.locationId)));
+  }
+
+  return db.select().from(assets).where(and(...conditions)).orderBy(asc(assets.assetId));
+}
+
+/**
+ * Campaigns with the name of the assignee and the path of the location they are scoped to
+ */
+export async function withScopeNames<T extends StockTake>(
+  rows: T[]
+): Promise<(T & { assignedEmployeeName: string | null; locationPath: string | null })[]> {
+  const employeeIds = Array.from(new Set(rows.flatMap(row => row.assignedEmployeeId ? [row.assignedEmployeeId] : [])));
+  const employeeRows = employeeIds.length > 0
+    ? await db.select({ id: employees.id, englishName: employees.englishName })
+      .from(employees)
+      .where(inArray(employees.id, employeeIds))
+    : [];
+  const employeeNames = new Map(employeeRows.map(employee => [employee.id, employee.englishName]));
+  const locationPaths = rows.some(row => row.locationId) ? getLocationPaths(await getAllLocations()) : new Map<number, string>();
+
+  return rows.map(row => ({
+    ...row,
+    assignedEmployeeName: row.assignedEmployeeId ? employeeNames.get(row.assignedEmployeeId) ?? null : null,
+    locationPath: row.locationId ? locationPaths.get(row.locationId) ?? null : null,
+  }));
+}
+
+/**
+ * Create the campaign with one item per asset, capturing the state the register expects
+ */
+export async function openStockTake(
+  input: StockTakeScope & { name: string; notes?: string | null },
+  scopedAssets: Asset[],
+  createdById: number
+): Promise<StockTake> {
+  return db.transaction(async (tx) => {
+    const [stockTake] = await tx.insert(stockTakes).values({
+      name: input.name,
+      notes: input.notes ?? null,
+      department: input.department ?? null,
+      assetType: input.assetType ?? null,
+      assignedEmployeeId: input.assignedEmployeeId ?? null,
+      locationId: input.locationId ?? null,
+      createdById,
+    }).returning();
+
+    if (scopedAssets.length > 0) {
+      await tx.insert(stockTakeItems).values(scopedAssets.map(asset => ({
+        stockTakeId: stockTake.id,
+        assetId: asset.id,
+        expectedStatus: asset.status,
+        expectedEmployeeId: asset.assignedEmployeeId,
+        expectedLocationId: asset.locationId,
+      })));
+    }
+
+    return stockTake;
+  });
+}
+
+/**
+ * Result of scanning an asset at a location: found when the scan location and the expected
+ * location are on the same branch (either one contains the other), otherwise misplaced
+ */
+export function classifyScannedLocation(
+  rows: Awaited<ReturnType<typeof getAllLocations>>,
+  expectedLocationId: number | null,
+  scannedAtLocationId: number | null
+): StockTakeResult {
+  if (!expectedLocationId || !scannedAtLocationId) return 'found';
+  if (getDescendantIds(rows, expectedLocationId).includes(scannedAtLocationId)) return 'found';
+  if (getDescendantIds(rows, scannedAtLocationId).includes(expectedLocationId)) return 'found';
+  return 'misplaced';
+}
+
+/**
+ * Record (or re-record) the count of an asset; an asset outside the campaign is added as unexpected
+ */
+export async function recordCount(
+  stockTakeId: number,
+  asset: Asset,
+  count: StockTakeCount,
+  countedById: number
+): Promise<StockTakeItem> {
+  const values = {
+    result: count.result,
+    foundLocationId: count.result === 'misplaced' ? count.foundLocationId ?? null : null,
+    foundEmployeeId: count.result === 'wrong_assignee' ? count.foundEmployeeId ?? null : null,
+    notes: count.notes ?? null,
+    countedById,
+    countedAt: new Date(),
+    // A recount supersedes any correction made from the previous count
+    correctedById: null,
+    correctedAt: null,
+    correctionTransactionId: null,
+  };
+
+  const [existing] = await db.select().from(stockTakeItems)
+    .where(and(eq(stockTakeItems.stockTakeId, stockTakeId), eq(stockTakeItems.assetId, asset.id)));
+
+  if (existing) {
+    const [item] = await db.update(stockTakeItems)
+      .set(values)
+      .where(eq(stockTakeItems.id, existing.id))
+      .returning();
+    return item;
+  }
+
+  const [item] = await db.insert(stockTakeItems).values({
+    stockTakeId,
+    assetId: asset.id,
+    unexpected: true,
+    expectedStatus: asset.status,
+    expectedEmployeeId: asset.assignedEmployeeId,
+    expectedLocationId: asset.locationId,
+    ...values,
+  }).returning();
+  return item;
+}
+
+/**
+ * Change that brings the asset in line with what was counted, or null when the register already agrees
+ */
+export function getCorrection(
+  item: Pick<StockTakeItem, 'result' | 'foundLocationId' | 'foundEmployeeId' | 'correctedAt'>,
+  asset: Pick<Asset, 'status' | 'assignedEmployeeId' | 'locationId'>
+): StockTakeCorrection | null {
+  if (item.correctedAt || !item.result) return null;
+
+  switch (item.result) {
+    case 'missing':
+      return asset.status !== MISSING_STATUS ? { action: 'mark_missing', status: MISSING_STATUS } : null;
+    case 'misplaced':
+      return item.foundLocationId && asset.locationId !== item.foundLocationId
+        ? { action: 'move', toLocationId: item.foundLocationId }
+        : null;
+    case 'wrong_assignee':
+      return asset.assignedEmployeeId !== item.foundEmployeeId
+        ? { action: 'reassign', toEmployeeId: item.foundEmployeeId }
+        : null;
+    case 'found':
+      return LOST_STATUSES.includes(asset.status)
+        ? { action: 'restore', status: asset.assignedEmployeeId ? 'In Use' : 'Available' }
+        : null;
+  }
+  return null;
+}
+
+/**
+ * Campaign with every item, the names and paths the screens show and the pending correction of each
+ */
+export async function getStockTakeDetails(stockTakeId: number): Promise<StockTakeDetails | null> {
+  const [stockTake] = await db.select().from(stockTakes).where(eq(stockTakes.id, stockTakeId));
+  if (!stockTake) return null;
+
+  const items = await db.select().from(stockTakeItems)
+    .where(eq(stockTakeItems.stockTakeId, stockTakeId))
+    .orderBy(asc(stockTakeItems.id));
+
+  const assetRows = items.length > 0
+    ? await db.select().from(assets).where(inArray(assets.id, items.map(item => item.assetId)))
+    : [];
+  const assetsById = new Map(assetRows.map(asset => [asset.id, asset]));
+
+  const employeeIds = new Set<number>();
+  items.forEach(item => {
+    if (item.expectedEmployeeId) employeeIds.add(item.expectedEmployeeId);
+    if (item.foundEmployeeId) employeeIds.add(item.foundEmployeeId);
+  });
+  const employeeRows = employeeIds.size > 0
+    ? await db.select({ id: employees.id, englishName: employees.englishName })
+      .from(employees)
+      .where(inArray(employees.id, Array.from(employeeIds)))
+    : [];
+  const employeeNames = new Map(employeeRows.map(employee => [employee.id, employee.englishName]));
+  const locationPaths = getLocationPaths(await getAllLocations());
+
+  const lines: StockTakeLine[] = items.flatMap(item => {
+    const asset = assetsById.get(item.assetId);
+    if (!asset) return [];
+    return [{
+      ...item,
+      asset: {
+        id: asset.id,
+        assetId: asset.assetId,
+        type: asset.type,
+        brand: asset.brand,
+        modelName: asset.modelName,
+        serialNumber: asset.serialNumber,
+        status: asset.status,
+        assignedEmployeeId: asset.assignedEmployeeId,
+        locationId: asset.locationId,
+      },
+      expectedEmployeeName: item.expectedEmployeeId ? employeeNames.get(item.expectedEmployeeId) ?? null : null,
+      foundEmployeeName: item.foundEmployeeId ? employeeNames.get(item.foundEmployeeId) ?? null : null,
+      expectedLocationPath: item.expectedLocationId ? locationPaths.get(item.expectedLocationId) ?? null : null,
+      foundLocationPath: item.foundLocationId ? locationPaths.get(item.foundLocationId) ?? null : null,
+      correction: getCorrection(item, asset),
+    }];
+  });
+
+  const countOf = (result: StockTakeResult) => lines.filter(line => line.result === result).length;
+  const summary: StockTakeSummary = {
+    total: lines.length,
+    counted: lines.filter(line => line.result).length,
+    notCounted: lines.filter(line => !line.result).length,
+    found: countOf('found'),
+    misplaced: countOf('misplaced'),
+    missing: countOf('missing'),
+    wrongAssignee: countOf('wrong_assignee'),
+    unexpected: lines.filter(line => line.unexpected).length,
+    pendingCorrections: lines.filter(line => line.correction).length,
+    corrected: lines.filter(line => line.correctedAt).length,
+  };
+
+  return { stockTake, summary, items: lines };
+}
+
+/**
+ * Lines that need attention: anything not found where expected, not yet counted,
+ * unexpected or still awaiting a correction
+ */
+export function getVarianceLines(details: StockTakeDetails): StockTakeLine[] {
+  return details.items.filter(line =>
+    line.result !== 'found' || line.unexpected || line.correction !== null
+  );
+}
+
+function describeCorrection(correction: StockTakeCorrection, asset: Asset, locationPaths: Map<number, string>): string {
+  switch (correction.action) {
+    case 'mark_missing':
+    case 'restore':
+      return `status ${asset.status} → ${correction.status}`;
+    case 'move': {
+      const from = asset.locationId ? locationPaths.get(asset.locationId) ?? 'unknown location' : 'no location';
+      return `location ${from} → ${locationPaths.get(correction.toLocationId) ?? 'unknown location'}`;
+    }
+    case 'reassign':
+      return correction.toEmployeeId ? 'reassigned to the employee holding it' : 'unassigned (nobody holds it)';
+  }
+}
+
+/**
+ * Apply the pending corrections of a campaign (all of them, or only the given items),
+ * writing an "Audit" transaction per corrected asset
+ */
+export async function applyCorrections(
+  stockTake: StockTake,
+  itemIds: number[] | undefined,
+  handledById: number
+): Promise<{ corrected: AssetTransaction[]; skipped: number[] }> {
+  const locationPaths = getLocationPaths(await getAllLocations());
+
+  return db.transaction(async (tx) => {
+    const conditions: SQL[] = [eq(stockTakeItems.stockTakeId, stockTake.id), isNull(stockTakeItems.correctedAt)];
+    if (itemIds) conditions.push(inArray(stockTakeItems.id, itemIds));
+    const items = await tx.select().from(stockTakeItems).where(and(...conditions));
+
+    const corrected: AssetTransaction[] = [];
+    const skipped: number[] = [];
+
+    for (const item of items) {
+      const [asset] = await tx.select().from(assets).where(eq(assets.id, item.assetId)).for('update');
+      const correction = asset ? getCorrection(item, asset) : null;
+      if (!asset || !correction) {
+        skipped.push(item.id);
+        continue;
+      }
+
+      const updates: Partial<Asset> = { updatedAt: new Date() };
+      let employeeId = asset.assignedEmployeeId;
+      let toLocationId = asset.locationId;
+
+      if (correction.action === 'mark_missing' || correction.action === 'restore') {
+        updates.status = correction.status;
+      } else if (correction.action === 'move') {
+        updates.locationId = correction.toLocationId;
+        toLocationId = correction.toLocationId;
+      } else {
+        updates.assignedEmployeeId = correction.toEmployeeId;
+        employeeId = correction.toEmployeeId;
+        // Only the assignment statuses follow the holder; e.g. "Under Maintenance" stays as it is
+        if (asset.status === 'In Use' || asset.status === 'Available') {
+          updates.status = correction.toEmployeeId ? 'In Use' : 'Available';
+        }
+      }
+
+      await tx.update(assets).set(updates).where(eq(assets.id, asset.id));
+
+      const [transaction] = await tx.insert(assetTransactions).values({
+        assetId: asset.id,
+        type: 'Audit',
+        employeeId,
+        handledById,
+        transactionDate: new Date(),
+        conditionNotes: `Stock-take "${stockTake.name}" correction: ${describeCorrection(correction, asset, locationPaths)}`,
+        deviceSpecs: {
+          stockTakeId: stockTake.id,
+          stockTakeName: stockTake.name,
+          result: item.result,
+          correction: correction.action,
+          previousStatus: asset.status,
+        },
+        fromLocationId: asset.locationId,
+        toLocationId,
+      }).returning();
+
+      await tx.update(stockTakeItems)
+        .set({ correctedById: handledById, correctedAt: new Date(), correctionTransactionId: transaction.id })
+        .where(eq(stockTakeItems.id, item.id));
+
+      corrected.push(transaction);
+    }
+
+    return { corrected, skipped };
+  });
+}
+
+/**
+ * Close the campaign: optionally report uncounted assets as missing, then record the
+ * result of every counted asset in its transaction history
+ */
+export async function closeStockTake(
+  stockTake: StockTake,
+  markUncountedMissing: boolean,
+  closedById: number
+): Promise<StockTake> {
+  return db.transaction(async (tx) => {
+    if (markUncountedMissing) {
+      await tx.update(stockTakeItems)
+        .set({ result: 'missing', notes: 'Not counted before the stock-take closed' })
+        .where(and(eq(stockTakeItems.stockTakeId, stockTake.id), isNull(stockTakeItems.result)));
+    }
+
+    const items = await tx.select().from(stockTakeItems).where(eq(stockTakeItems.stockTakeId, stockTake.id));
+    const counted = items.filter(item => isStockTakeResult(item.result));
+
+    if (counted.length > 0) {
+      await tx.insert(assetTransactions).values(counted.map(item => {
+        const result = item.result as StockTakeResult;
+        return {
+          assetId: item.assetId,
+          type: 'Audit' as const,
+          employeeId: result === 'wrong_assignee' ? item.foundEmployeeId : item.expectedEmployeeId,
+          handledById: item.countedById ?? closedById,
+          transactionDate: item.countedAt ?? new Date(),
+          conditionNotes: `Stock-take "${stockTake.name}": ${STOCK_TAKE_RESULT_LABELS[result]}` +
+            (item.unexpected ? ' (not expected in this stock-take)' : '') +
+            (item.notes ? ` - ${item.notes}` : ''),
+          deviceSpecs: {
+            stockTakeId: stockTake.id,
+            stockTakeName: stockTake.name,
+            result,
+            unexpected: item.unexpected,
+          },
+          fromLocationId: item.expectedLocationId,
+          toLocationId: item.foundLocationId ?? item.expectedLocationId,
+        };
+      }));
+    }
+
+    const [closed] = await tx.update(stockTakes)
+      .set({ status: 'closed', closedById, closedAt: new Date(), updatedAt: new Date() })
+      .where(eq(stockTakes.id, stockTake.id))
+      .returning();
+    return closed;
+  });
+}
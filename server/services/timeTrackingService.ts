@@ -0,0 +1,110 @@
+/**
+ * Time Tracking Service
+ *
+ * Builds weekly per-agent timesheets from the ticket time entry ledger
+ * and shapes them for the Timesheets page and CSV export.
+ */
+
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+import { storage } from '../storage';
+
+export interface TimesheetRow {
+  ticketId: number;
+  ticketCode: string;
+  ticketTitle: string;
+  ticketStatus: string;
+  minutesByDay: Record<string, number>;
+  totalMinutes: number;
+}
+
+export interface WeeklyTimesheet {
+  userId: number;
+  weekStart: string;
+  weekEnd: string;
+  days: string[];
+  rows: TimesheetRow[];
+  totalsByDay: Record<string, number>;
+  totalMinutes: number;
+}
+
+/**
+ * Returns the Monday-Sunday week (as YYYY-MM-DD strings) containing the given date
+ */
+export function getWeekBounds(date?: string): { weekStart: string; weekEnd: string; days: string[] } {
+  const reference = date ? parseISO(date) : new Date();
+  const monday = startOfWeek(isNaN(reference.getTime()) ? new Date() : reference, { weekStartsOn: 1 });
+  const days = Array.from({ length: 7 }, (_, i) => format(addDays(monday, i), 'yyyy-MM-dd'));
+
+  return { weekStart: days[0], weekEnd: days[6], days };
+}
+
+/**
+ * Build the weekly timesheet for a single agent
+ * @param userId - The agent whose time entries are aggregated
+ * @param date - Any date inside the requested week (defaults to today)
+ */
+export async function getWeeklyTimesheet(userId: number, date?: string): Promise<WeeklyTimesheet> {
+  const { weekStart, weekEnd, days } = getWeekBounds(date);
+  const entries = await storage.getTimesheetEntries(userId, weekStart, weekEnd);
+
+  const rowsByTicket = new Map<number, TimesheetRow>();
+  const totalsByDay: Record<string, number> = Object.fromEntries(days.map(day => [day, 0]));
+
+  for (const entry of entries) {
+    let row = rowsByTicket.get(entry.ticketId);
+    if (!row) {
+      row = {
+        ticketId: entry.ticketId,
+        ticketCode: entry.ticketCode,
+        ticketTitle: entry.ticketTitle,
+        ticketStatus: entry.ticketStatus,
+        minutesByDay: Object.fromEntries(days.map(day => [day, 0])),
+        totalMinutes: 0,
+      };
+      rowsByTicket.set(entry.ticketId, row);
+    }
+
+    row.minutesByDay[entry.workDate] = (row.minutesByDay[entry.workDate] || 0) + entry.minutes;
+    row.totalMinutes += entry.minutes;
+    totalsByDay[entry.workDate] = (totalsByDay[entry.workDate] || 0) + entry.minutes;
+  }
+
+  const rows = Array.from(rowsByTicket.values());
+
+  return {
+    userId,
+    weekStart,
+    weekEnd,
+    days,
+    rows,
+    totalsByDay,
+    totalMinutes: rows.reduce((total, row) => total + row.totalMinutes, 0),
+  };
+}
+
+/**
+ * Flatten a weekly timesheet into CSV rows (hours per day, one row per ticket)
+ */
+export function timesheetToCSVRows(timesheet: WeeklyTimesheet, agentName: string): Record<string, string | number>[] {
+  const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+  const rows = timesheet.rows.map(row => ({
+    'Agent': agentName,
+    'Ticket ID': row.ticketCode,
+    'Title': row.ticketTitle,
+    'Status': row.ticketStatus,
+    ...Object.fromEntries(timesheet.days.map(day => [day, toHours(row.minutesByDay[day] || 0)])),
+    'Total Hours': toHours(row.totalMinutes),
+  }));
+
+  rows.push({
+    'Agent': agentName,
+    'Ticket ID': 'TOTAL',
+    'Title': '',
+    'Status': '',
+    ...Object.fromEntries(timesheet.days.map(day => [day, toHours(timesheet.totalsByDay[day] || 0)])),
+    'Total Hours': toHours(timesheet.totalMinutes),
+  });
+
+  return rows;
+}
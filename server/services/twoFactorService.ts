@@ -0,0 +1,313 @@
+/**
+ * Two-Factor Authentication Service
+ * Optional TOTP (RFC 6238) second factor for password logins
+ * - Secrets are encrypted with encryptionService; enrollment is only active once confirmed with a code
+ * - Codes are 6 digits / 30 seconds (SHA-1), which every authenticator app supports; ±1 step of clock drift
+ *   is accepted and a time step is never accepted twice
+ * - Ten one-time recovery codes per enrollment; only their SHA-256 hashes are stored
+ * - Admins can require 2FA per role (system_config.two_factor_required_roles)
+ */
+
+import crypto from 'crypto';
+import 'express-session';
+import QRCode from 'qrcode';
+import { db } from '../db';
+import { userTwoFactor, systemConfig, type UserTwoFactor } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { ROLE_IDS } from '@shared/roles.config';
+import { encryptSecret, decryptSecret } from './encryptionService';
+
+const ISSUER = 'SimpleIT';
+const TIME_STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+const ALLOWED_DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Second login step: how long the password stays "verified" and how many wrong codes it tolerates
+export const PENDING_LOGIN_TTL_MS = 5 * 60 * 1000;
+export const MAX_PENDING_LOGIN_ATTEMPTS = 5;
+
+export const TWO_FACTOR_ROLES = Object.values(ROLE_IDS);
+
+/**
+ * A login whose password was accepted but whose second factor is still outstanding
+ */
+export interface PendingTwoFactorLogin {
+  userId: number;
+  enrollmentRequired: boolean; // The role requires 2FA but the user has not enrolled yet
+  expiresAt: number;
+  failedAttempts: number;
+  singleSignOn?: boolean; // Started by SSO: the local password policy does not apply
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    pendingTwoFactor?: PendingTwoFactorLogin;
+  }
+}
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+export class TwoFactorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+// ============================================================================
+// TOTP
+// ============================================================================
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new TwoFactorError('Invalid two-factor secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function currentTimeStep(): number {
+  return Math.floor(Date.now() / 1000 / TIME_STEP_SECONDS);
+}
+
+function generateTotp(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, '0');
+}
+
+/**
+ * Time step the code belongs to, or null when it matches none within the allowed drift
+ */
+function matchTotpStep(secret: string, code: string, lastUsedStep: number | null): number | null {
+  const key = base32Decode(secret);
+  const now = currentTimeStep();
+  for (let step = now - ALLOWED_DRIFT_STEPS; step <= now + ALLOWED_DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    const expected = generateTotp(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+function normalizeTotpCode(code: string): string | null {
+  const digits = code.replace(/\s+/g, '');
+  return new RegExp(`^\\d{${CODE_DIGITS}}$`).test(digits) ? digits : null;
+}
+
+// ============================================================================
+// Recovery codes
+// ============================================================================
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * New plain recovery codes ("xxxxx-xxxxx") and the hashes to store for them
+ */
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// ============================================================================
+// Enrollment
+// ============================================================================
+
+async function getRecord(userId: number): Promise<UserTwoFactor | undefined> {
+  const [record] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+  return record;
+}
+
+export async function isTwoFactorEnabled(userId: number): Promise<boolean> {
+  const record = await getRecord(userId);
+  return !!record?.enabledAt;
+}
+
+export async function getTwoFactorStatus(userId: number, role: string) {
+  const [record, required] = await Promise.all([getRecord(userId), isTwoFactorRequiredForRole(role)]);
+  return {
+    enabled: !!record?.enabledAt,
+    enabledAt: record?.enabledAt ?? null,
+    recoveryCodesRemaining: record?.enabledAt ? record.recoveryCodes.length : 0,
+    required,
+  };
+}
+
+/**
+ * Start (or restart) enrollment with a new secret; the QR code is an otpauth:// URL as a PNG data URL
+ */
+export async function startEnrollment(userId: number, accountName: string) {
+  const existing = await getRecord(userId);
+  if (existing?.enabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already enabled');
+  }
+
+  const secret = base32Encode(crypto.randomBytes(SECRET_BYTES));
+  const encrypted = encryptSecret(secret);
+  await db.insert(userTwoFactor)
+    .values({ userId, secret: encrypted, recoveryCodes: [] })
+    .onConflictDoUpdate({
+      target: userTwoFactor.userId,
+      set: { secret: encrypted, lastUsedStep: null, recoveryCodes: [], updatedAt: new Date() }
+    });
+
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}`
+    + `&algorithm=SHA1&digits=${CODE_DIGITS}&period=${TIME_STEP_SECONDS}`;
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+
+  return { secret, otpauthUrl, qrCode };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ * @returns The plain recovery codes; they are shown once and only their hashes are kept
+ */
+export async function confirmEnrollment(userId: number, code: string): Promise<string[]> {
+  const record = await getRecord(userId);
+  if (!record) {
+    throw new TwoFactorError('Start two-factor setup first');
+  }
+  if (record.enabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already enabled');
+  }
+
+  const normalized = normalizeTotpCode(code);
+  const step = normalized ? matchTotpStep(decryptSecret(record.secret), normalized, record.lastUsedStep) : null;
+  if (step === null) {
+    throw new TwoFactorError('Invalid verification code');
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await db.update(userTwoFactor)
+    .set({ enabledAt: new Date(), lastUsedStep: step, recoveryCodes: hashes, updatedAt: new Date() })
+    .where(eq(userTwoFactor.userId, userId));
+  return codes;
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Check a login code: an authenticator code, or else an unused recovery code (which is then used up)
+ * @returns How the user proved the second factor, or null when the code is wrong
+ */
+export async function verifyTwoFactorCode(userId: number, code: string): Promise<TwoFactorMethod | null> {
+  const record = await getRecord(userId);
+  if (!record?.enabledAt) return null;
+
+  const totpCode = normalizeTotpCode(code);
+  if (totpCode) {
+    const step = matchTotpStep(decryptSecret(record.secret), totpCode, record.lastUsedStep);
+    if (step === null) return null;
+    await db.update(userTwoFactor)
+      .set({ lastUsedStep: step, updatedAt: new Date() })
+      .where(eq(userTwoFactor.userId, userId));
+    return 'totp';
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (!record.recoveryCodes.includes(hash)) return null;
+  await db.update(userTwoFactor)
+    .set({ recoveryCodes: record.recoveryCodes.filter(stored => stored !== hash), updatedAt: new Date() })
+    .where(eq(userTwoFactor.userId, userId));
+  return 'recovery_code';
+}
+
+/**
+ * Replace all recovery codes; the old ones stop working
+ */
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await db.update(userTwoFactor)
+    .set({ recoveryCodes: hashes, updatedAt: new Date() })
+    .where(eq(userTwoFactor.userId, userId));
+  return codes;
+}
+
+/**
+ * Remove a user's 2FA (disable by the user, reset by an admin)
+ * @returns False when the user had not enrolled
+ */
+export async function removeTwoFactor(userId: number): Promise<boolean> {
+  const deleted = await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId)).returning();
+  return deleted.length > 0;
+}
+
+/**
+ * Users with confirmed 2FA (user management list)
+ */
+export async function getEnrolledUsers() {
+  const records = await db.select({ userId: userTwoFactor.userId, enabledAt: userTwoFactor.enabledAt })
+    .from(userTwoFactor);
+  return records.filter(record => record.enabledAt !== null);
+}
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+export async function getRequiredRoles(): Promise<string[]> {
+  const [config] = await db.select({ roles: systemConfig.twoFactorRequiredRoles }).from(systemConfig).limit(1);
+  return config?.roles ?? [];
+}
+
+export async function isTwoFactorRequiredForRole(role: string): Promise<boolean> {
+  return (await getRequiredRoles()).includes(role);
+}
+
+/**
+ * Whether a login with a correct password still needs a second step, and of which kind
+ */
+export async function getLoginRequirement(userId: number, role: string) {
+  const [enabled, required] = await Promise.all([isTwoFactorEnabled(userId), isTwoFactorRequiredForRole(role)]);
+  return {
+    twoFactorRequired: enabled || required,
+    enrollmentRequired: required && !enabled,
+  };
+}
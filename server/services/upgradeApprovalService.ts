@@ -0,0 +1,139 @@
+/**
+ * Upgrade Approval Service
+ * Runs asset upgrade requests through the 'upgrade' approval chain when one is active
+ * - The direct manager step goes to the manager of the asset's assigned employee, or of the
+ *   requester's own employee record when the asset is unassigned
+ * - The outcome sets Approved/Rejected with the deciding user's employee record as approver
+ */
+
+import { db } from '../db';
+import { assetUpgrades, assets, assetTransactions, users } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import {
+  registerApprovalSubject, startApproval, notifyCurrentStep, getLinkedEmployeeId, type ApprovalOutcome, type Transaction
+} from './approvalService';
+import * as notificationService from './notificationService';
+import { emitWebhookEvent } from './webhookService';
+
+/**
+ * Start the approval chain for a pending upgrade on behalf of whoever raised it; false when no chain is active
+ * Starting again (e.g. after the estimated cost changed) replaces the pending run
+ */
+export async function startUpgradeApproval(upgradeId: number): Promise<boolean> {
+  const started = await db.transaction(async (tx) => {
+    const [upgrade] = await tx.select({
+      id: assetUpgrades.id,
+      title: assetUpgrades.title,
+      estimatedCost: assetUpgrades.estimatedCost,
+      createdById: assetUpgrades.createdById,
+      requesterName: users.username,
+      assignedEmployeeId: assets.assignedEmployeeId,
+      assetTag: assets.assetId,
+    })
+      .from(assetUpgrades)
+      .innerJoin(assets, eq(assets.id, assetUpgrades.assetId))
+      .innerJoin(users, eq(users.id, assetUpgrades.createdById))
+      .where(eq(assetUpgrades.id, upgradeId));
+    if (!upgrade) return null;
+
+    const request = await startApproval(tx, {
+      requestType: 'upgrade',
+      subjectId: upgrade.id,
+      title: `${upgrade.title} (${upgrade.assetTag})`,
+      amount: upgrade.estimatedCost,
+      requestedById: upgrade.createdById,
+      employeeId: upgrade.assignedEmployeeId ?? await getLinkedEmployeeId(upgrade.createdById, tx),
+    });
+    if (!request) return null;
+
+    const outcome: ApprovalOutcome = {
+      approved: true,
+      decidedBy: { id: upgrade.createdById, username: upgrade.requesterName },
+      notes: null,
+    };
+    // No step applies at this cost: approved straight away
+    if (request.status === 'approved') {
+      await completeUpgrade(tx, upgrade.id, outcome);
+    }
+    return { request, outcome };
+  });
+  if (!started) return false;
+
+  if (started.request.status === 'approved') {
+    await announceUpgradeDecision(upgradeId, started.outcome);
+  } else {
+    await notifyCurrentStep(started.request.id);
+  }
+  return true;
+}
+
+async function completeUpgrade(tx: Transaction, upgradeId: number, outcome: ApprovalOutcome): Promise<void> {
+  const status = outcome.approved ? 'Approved' : 'Rejected';
+  const [upgrade] = await tx.update(assetUpgrades)
+    .set({
+      status,
+      approvedById: outcome.approved ? await getLinkedEmployeeId(outcome.decidedBy.id, tx) : null,
+      approvalDate: outcome.approved ? new Date().toISOString().split('T')[0] : null,
+      updatedById: outcome.decidedBy.id,
+      updatedAt: new Date(),
+    })
+    .where(eq(assetUpgrades.id, upgradeId))
+    .returning();
+  if (!upgrade) return;
+
+  const [asset] = await tx.select({ assignedEmployeeId: assets.assignedEmployeeId })
+    .from(assets)
+    .where(eq(assets.id, upgrade.assetId));
+  await tx.insert(assetTransactions).values({
+    assetId: upgrade.assetId,
+    type: 'Upgrade',
+    employeeId: asset?.assignedEmployeeId ?? null,
+    transactionDate: new Date(),
+    conditionNotes: `Upgrade Request: ${upgrade.title}\nCategory: ${upgrade.category}\nType: ${upgrade.upgradeType}\nStatus: ${status}\nJustification: ${upgrade.justification}${outcome.notes ? `\nReview Notes: ${outcome.notes}` : ''}`,
+    handledById: outcome.decidedBy.id,
+  });
+}
+
+async function announceUpgradeDecision(upgradeId: number, outcome: ApprovalOutcome): Promise<void> {
+  const [upgrade] = await db.select({
+    id: assetUpgrades.id,
+    assetId: assetUpgrades.assetId,
+    title: assetUpgrades.title,
+    category: assetUpgrades.category,
+    upgradeType: assetUpgrades.upgradeType,
+    estimatedCost: assetUpgrades.estimatedCost,
+    status: assetUpgrades.status,
+    createdById: assetUpgrades.createdById,
+    assetTag: assets.assetId,
+  })
+    .from(assetUpgrades)
+    .innerJoin(assets, eq(assets.id, assetUpgrades.assetId))
+    .where(eq(assetUpgrades.id, upgradeId));
+  if (!upgrade) return;
+
+  emitWebhookEvent(outcome.approved ? 'upgrade.approved' : 'upgrade.rejected', {
+    id: upgrade.id,
+    assetId: upgrade.assetId,
+    title: upgrade.title,
+    category: upgrade.category,
+    upgradeType: upgrade.upgradeType,
+    estimatedCost: upgrade.estimatedCost,
+    status: upgrade.status,
+    previousStatus: 'Pending Approval',
+    decidedById: outcome.decidedBy.id,
+    notes: outcome.notes,
+  });
+
+  await notificationService.notifyUpgradeDecision({
+    upgradeId: upgrade.id,
+    requesterId: upgrade.createdById,
+    assetName: upgrade.assetTag,
+    approved: outcome.approved,
+    approvedBy: outcome.decidedBy.username,
+  });
+}
+
+registerApprovalSubject('upgrade', {
+  complete: completeUpgrade,
+  afterComplete: announceUpgradeDecision,
+});
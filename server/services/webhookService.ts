@@ -0,0 +1,376 @@
+/**
+ * Webhook Service
+ * Pushes ticket, asset, employee and upgrade events to admin-managed HTTP endpoints
+ * - Payloads are JSON, signed with HMAC-SHA256 over "<timestamp>.<body>" using the subscription secret
+ * - Every attempt is recorded in webhook_deliveries; failures are retried with exponential backoff
+ * Uses native Node.js setInterval instead of node-cron
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { db } from '../db';
+import { webhookSubscriptions, webhookDeliveries, type WebhookDelivery, type WebhookSubscription } from '@shared/schema';
+import { and, asc, eq, inArray, lt, lte, sql } from 'drizzle-orm';
+import { logger } from './logger';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Events a subscription can listen to
+ */
+export const WEBHOOK_EVENTS = [
+  'ticket.created',
+  'ticket.assigned',
+  'ticket.status_changed',
+  'asset.checked_out',
+  'asset.checked_in',
+  'employee.created',
+  'employee.offboarded',
+  'upgrade.approved',
+  'upgrade.rejected',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Sent only by the "test" action; subscriptions cannot listen to it
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+/**
+ * Configuration for webhook delivery
+ */
+export const WEBHOOK_CONFIG = {
+  // Whether the retry worker runs (can be disabled via env var)
+  enabled: process.env.WEBHOOKS_ENABLED !== 'false',
+
+  // How often due retries are sent (every minute)
+  retryInterval: MS_PER_MINUTE,
+
+  // Attempts before a delivery is marked failed (first try included)
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6'),
+
+  // First retry delay; doubles on every further attempt (1, 2, 4, 8, 16 minutes)
+  retryBaseDelay: MS_PER_MINUTE,
+
+  // Endpoints that take longer than this count as failed
+  requestTimeout: parseInt(process.env.WEBHOOK_TIMEOUT_SECONDS || '10') * 1000,
+
+  // Stored response bodies are cut to this length
+  maxResponseLength: 2000,
+
+  // Delivery log retention
+  retentionDays: parseInt(process.env.WEBHOOK_LOG_RETENTION_DAYS || '30'),
+};
+
+let isProcessing = false;
+
+/**
+ * New random signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature header value: receivers recompute HMAC-SHA256(secret, "<timestamp>.<raw body>")
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Ticket fields sent in payloads; accepts Drizzle rows and raw SQL rows (snake_case)
+ */
+export function toTicketWebhookData(ticket: any): Record<string, unknown> {
+  return {
+    id: ticket.id,
+    ticketId: ticket.ticketId ?? ticket.ticket_id,
+    title: ticket.title,
+    type: ticket.type,
+    status: ticket.status,
+    priority: ticket.priority,
+    urgency: ticket.urgency,
+    impact: ticket.impact,
+    categoryId: ticket.categoryId ?? ticket.category_id ?? null,
+    submittedById: ticket.submittedById ?? ticket.submitted_by_id ?? null,
+    assignedToId: ticket.assignedToId ?? ticket.assigned_to_id ?? null,
+    relatedAssetId: ticket.relatedAssetId ?? ticket.related_asset_id ?? null,
+  };
+}
+
+export function toAssetWebhookData(asset: any): Record<string, unknown> {
+  return {
+    id: asset.id,
+    assetId: asset.assetId ?? asset.asset_id,
+    type: asset.type,
+    brand: asset.brand,
+    modelName: asset.modelName ?? asset.model_name ?? null,
+    serialNumber: asset.serialNumber ?? asset.serial_number,
+    status: asset.status,
+  };
+}
+
+export function toEmployeeWebhookData(employee: any): Record<string, unknown> {
+  return {
+    id: employee.id,
+    empId: employee.empId ?? employee.emp_id,
+    englishName: employee.englishName ?? employee.english_name,
+    arabicName: employee.arabicName ?? employee.arabic_name ?? null,
+    department: employee.department,
+    title: employee.title,
+    status: employee.status,
+    corporateEmail: employee.corporateEmail ?? employee.corporate_email ?? null,
+    joiningDate: employee.joiningDate ?? employee.joining_date ?? null,
+    exitDate: employee.exitDate ?? employee.exit_date ?? null,
+  };
+}
+
+function getRetryDelay(attempts: number): number {
+  return WEBHOOK_CONFIG.retryBaseDelay * Math.pow(2, Math.max(attempts - 1, 0));
+}
+
+/**
+ * POST one delivery and record the outcome
+ */
+export async function attemptDelivery(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SimpleIT-Webhooks/1.0',
+        'X-SimpleIT-Event': delivery.eventType,
+        'X-SimpleIT-Delivery': String(delivery.id),
+        'X-SimpleIT-Timestamp': timestamp,
+        'X-SimpleIT-Signature': signWebhookPayload(subscription.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_CONFIG.requestTimeout),
+      redirect: 'manual',
+    });
+
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, WEBHOOK_CONFIG.maxResponseLength);
+    if (!response.ok) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (requestError) {
+    error = requestError instanceof Error ? requestError.message : String(requestError);
+  }
+
+  const update = !error
+    ? { status: 'success', deliveredAt: new Date(), lastError: null }
+    : attempts >= WEBHOOK_CONFIG.maxAttempts
+      ? { status: 'failed', lastError: error }
+      : { status: 'pending', lastError: error, nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)) };
+
+  const [updated] = await db.update(webhookDeliveries)
+    .set({ ...update, attempts, responseStatus, responseBody })
+    .where(eq(webhookDeliveries.id, delivery.id))
+    .returning();
+
+  if (error && update.status === 'failed') {
+    logger.warn('webhooks', `Webhook delivery ${delivery.id} to ${subscription.name} failed after ${attempts} attempts`, {
+      userId: 0,
+      metadata: { subscriptionId: subscription.id, eventType: delivery.eventType, lastError: error }
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Fresh deliveries are tried immediately; the worker only picks them up if that attempt never finished
+ */
+function firstAttemptFallback(): Date {
+  return new Date(Date.now() + WEBHOOK_CONFIG.requestTimeout + MS_PER_MINUTE);
+}
+
+/**
+ * Record a delivery and try it right away; retries are left to the scheduler
+ */
+async function createDelivery(subscription: WebhookSubscription, eventType: string, data: Record<string, unknown>): Promise<WebhookDelivery> {
+  const [delivery] = await db.insert(webhookDeliveries).values({
+    subscriptionId: subscription.id,
+    eventType,
+    payload: {
+      id: randomUUID(),
+      event: eventType,
+      occurredAt: new Date().toISOString(),
+      data,
+    },
+    nextAttemptAt: firstAttemptFallback(),
+  }).returning();
+
+  return attemptDelivery(delivery, subscription);
+}
+
+/**
+ * Publish an event to every active subscription that listens to it
+ * Never throws and does not hold up the caller: callers fire and forget
+ */
+export function emitWebhookEvent(event: WebhookEvent, data: Record<string, unknown>): void {
+  (async () => {
+    const subscriptions = await db.select().from(webhookSubscriptions)
+      .where(and(
+        eq(webhookSubscriptions.isActive, true),
+        sql`${webhookSubscriptions.events} @> ${JSON.stringify([event])}::jsonb`
+      ));
+
+    for (const subscription of subscriptions) {
+      await createDelivery(subscription, event, data);
+    }
+  })().catch(error => {
+    logger.error('webhooks', `Failed to publish webhook event ${event}`, {
+      userId: 0,
+      metadata: { event },
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  });
+}
+
+/**
+ * ticket.assigned / ticket.status_changed for an update, comparing the row before and after it
+ */
+export function emitTicketChangeEvents(before: any, after: any): void {
+  const previous = toTicketWebhookData(before);
+  const current = toTicketWebhookData(after);
+
+  if (current.assignedToId && current.assignedToId !== previous.assignedToId) {
+    emitWebhookEvent('ticket.assigned', { ...current, previousAssignedToId: previous.assignedToId });
+  }
+  if (current.status !== previous.status) {
+    emitWebhookEvent('ticket.status_changed', { ...current, previousStatus: previous.status });
+  }
+}
+
+/**
+ * Send a sample payload to one subscription and wait for the result
+ */
+export async function sendTestWebhook(subscription: WebhookSubscription, triggeredBy: string): Promise<WebhookDelivery> {
+  return createDelivery(subscription, WEBHOOK_TEST_EVENT, {
+    message: 'This is a test delivery from SimpleIT',
+    subscriptionId: subscription.id,
+    triggeredBy,
+  });
+}
+
+/**
+ * Send a logged delivery again as a new delivery with the same payload
+ */
+export async function replayWebhookDelivery(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+  const [replay] = await db.insert(webhookDeliveries).values({
+    subscriptionId: subscription.id,
+    eventType: delivery.eventType,
+    payload: delivery.payload,
+    nextAttemptAt: firstAttemptFallback(),
+  }).returning();
+
+  return attemptDelivery(replay, subscription);
+}
+
+/**
+ * Retry every pending delivery that is due
+ */
+export async function processWebhookRetries(): Promise<number> {
+  if (isProcessing) return 0;
+  isProcessing = true;
+
+  try {
+    const due = await db.select({ delivery: webhookDeliveries, subscription: webhookSubscriptions })
+      .from(webhookDeliveries)
+      .innerJoin(webhookSubscriptions, eq(webhookDeliveries.subscriptionId, webhookSubscriptions.id))
+      .where(and(
+        eq(webhookDeliveries.status, 'pending'),
+        lte(webhookDeliveries.nextAttemptAt, new Date())
+      ))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(50);
+
+    for (const { delivery, subscription } of due) {
+      if (!subscription.isActive) {
+        await db.update(webhookDeliveries)
+          .set({ status: 'failed', lastError: 'Subscription disabled' })
+          .where(eq(webhookDeliveries.id, delivery.id));
+        continue;
+      }
+      await attemptDelivery(delivery, subscription);
+    }
+
+    return due.length;
+  } catch (error) {
+    logger.error('webhooks', 'Webhook retry processing failed', {
+      userId: 0,
+      metadata: {},
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    return 0;
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Drop finished deliveries older than the retention period
+ */
+export async function cleanupWebhookDeliveries(): Promise<number> {
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - WEBHOOK_CONFIG.retentionDays);
+
+  const deleted = await db.delete(webhookDeliveries)
+    .where(and(
+      inArray(webhookDeliveries.status, ['success', 'failed']),
+      lt(webhookDeliveries.createdAt, cutoffDate)
+    ));
+
+  return deleted.rowCount || 0;
+}
+
+/**
+ * Start the webhook retry worker
+ */
+export function startWebhookScheduler() {
+  if (!WEBHOOK_CONFIG.enabled) {
+    logger.info('webhooks', 'Webhook retry worker disabled', {
+      userId: 0,
+      metadata: { reason: 'WEBHOOKS_ENABLED=false' }
+    });
+    return null;
+  }
+
+  let lastCleanupDate: string | null = null;
+
+  const webhookTask = setInterval(async () => {
+    await processWebhookRetries();
+
+    const today = new Date().toISOString().split('T')[0];
+    if (lastCleanupDate !== today) {
+      lastCleanupDate = today;
+      try {
+        await cleanupWebhookDeliveries();
+      } catch (error) {
+        logger.error('webhooks', 'Webhook delivery log cleanup failed', {
+          userId: 0,
+          metadata: {},
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+  }, WEBHOOK_CONFIG.retryInterval);
+
+  logger.info('webhooks', 'Webhook retry worker started successfully', {
+    userId: 0,
+    metadata: {
+      retryInterval: `${WEBHOOK_CONFIG.retryInterval / MS_PER_MINUTE} minutes`,
+      maxAttempts: WEBHOOK_CONFIG.maxAttempts
+    }
+  });
+
+  return webhookTask;
+}
@@ -14,21 +14,37 @@ import {
   passwordResetTokens, type PasswordResetToken, type InsertPasswordResetToken,
   customAssetTypes, customAssetBrands, customAssetStatuses, customDepartments, categories,
   assetStatuses, type AssetStatus, type InsertAssetStatus,
-  notifications, type Notification, type InsertNotification
+  notifications, type Notification, type InsertNotification,
+  ticketTimeEntries, type TicketTimeEntry, type InsertTicketTimeEntry,
+  sessions
 } from "@shared/schema";
 import { calculatePriority, type UrgencyLevel, type ImpactLevel } from "@shared/priorityUtils";
 import { db, pool } from "./db";
-import { eq, and, like, desc, or, asc, gte, lt, sql } from "drizzle-orm";
+import { eq, and, like, desc, or, asc, gte, lt, sql, inArray, ne } from "drizzle-orm";
 import { compare, hash } from 'bcrypt';
+import { syncTicketSLA } from "./services/slaService";
+import { ACTUAL_COST_STATUSES } from "./services/purchaseOrderService";
 
 // Storage interface for all CRUD operations
-// Define UpsertUser type for Replit Auth
+// Just-in-time provisioning for single sign-on (OIDC): updates the account with this id, or creates it
 export interface UpsertUser {
-  id: string;
-  email?: string | null;
+  id?: number;
+  username: string;
+  email: string;
   firstName?: string | null;
   lastName?: string | null;
-  profileImageUrl?: string | null;
+  role?: User['role']; // Omitted: an existing account keeps its role, a new one is an employee
+}
+
+// The database or an open transaction
+type StorageExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A ticket merge that cannot be done as requested (missing or already merged tickets)
+export class TicketMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TicketMergeError';
+  }
 }
 
 // Import proper types
@@ -68,11 +84,14 @@ export interface IStorage {
   updateUser?(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
   getAllUsers(): Promise<User[]>;
-  upsertUser(user: UpsertUser): Promise<User>; // Add this for Replit Auth
+  upsertUser(user: UpsertUser): Promise<User>; // Single sign-on (OIDC) provisioning
+  // Signs the user out everywhere (optionally except one session); returns the number of sessions removed
+  deleteAllUserSessions(userId: number, exceptSessionId?: string): Promise<number>;
   
   // Employee operations
   getEmployee(id: number): Promise<Employee | undefined>;
   getEmployeeByEmail(email: string): Promise<Employee | undefined>;
+  getEmployeeByUserId(userId: number): Promise<Employee | undefined>;
   createEmployee(employee: InsertEmployee): Promise<Employee>;
   updateEmployee(id: number, employee: Partial<InsertEmployee>): Promise<Employee | undefined>;
   deleteEmployee(id: number): Promise<boolean>;
@@ -103,8 +122,8 @@ export interface IStorage {
   getAssetTransactions(assetId: number): Promise<AssetTransaction[]>;
   getEmployeeTransactions(employeeId: number): Promise<AssetTransaction[]>;
   getAllAssetTransactions(): Promise<AssetTransaction[]>;
-  checkOutAsset(assetId: number, employeeId: number, notes?: string, type?: string,handledById?: number, deviceSpecs?: any): Promise<AssetTransaction>;
-  checkInAsset(assetId: number, notes?: string, type?: string,handledById?: number, deviceSpecs?: any): Promise<AssetTransaction>;
+  checkOutAsset(assetId: number, employeeId: number, notes?: string, type?: string,handledById?: number, deviceSpecs?: any, locationId?: number | null): Promise<AssetTransaction>;
+  checkInAsset(assetId: number, notes?: string, type?: string,handledById?: number, deviceSpecs?: any, locationId?: number | null): Promise<AssetTransaction>;
 
   // Asset Sales operations
   createAssetSale(sale: InsertAssetSale): Promise<AssetSale>;
@@ -216,9 +235,16 @@ export interface IStorage {
   createTicketCategory(categoryData: any): Promise<any>;
   getTicketComments(ticketId: number): Promise<any[]>;
   addTicketComment(commentData: any): Promise<any>;
-  addTimeEntry(ticketId: number, hours: number, description: string, userId: number): Promise<any>;
   mergeTickets(primaryTicketId: number, secondaryTicketIds: number[], userId: number): Promise<any>;
   addTicketHistory(historyData: any): Promise<any>;
+
+  // Ticket time tracking operations (ledger rolled up into tickets.timeSpent)
+  getTimeEntries(ticketId: number): Promise<any[]>;
+  getTimeEntry(id: number): Promise<TicketTimeEntry | undefined>;
+  addTimeEntry(ticketId: number, hours: number, description: string, userId: number, workDate?: string): Promise<TicketTimeEntry>;
+  updateTimeEntry(id: number, entry: Partial<InsertTicketTimeEntry>): Promise<TicketTimeEntry | undefined>;
+  deleteTimeEntry(id: number): Promise<boolean>;
+  getTimesheetEntries(userId: number, startDate: string, endDate: string): Promise<any[]>;
 }
 
 // Implementation of Storage using a PostgreSQL database
@@ -591,6 +617,16 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async deleteAllUserSessions(userId: number, exceptSessionId?: string): Promise<number> {
+    // The session store keeps the passport user ID in the session JSON
+    const conditions = [sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`];
+    if (exceptSessionId) {
+      conditions.push(ne(sessions.sid, exceptSessionId));
+    }
+    const result = await db.delete(sessions).where(and(...conditions));
+    return result.rowCount ?? 0;
+  }
+
   async getAllUsers(): Promise<User[]> {
     try {
       const result = await db.select({
@@ -614,36 +650,36 @@ export class DatabaseStorage implements IStorage {
 
   async upsertUser(userData: UpsertUser): Promise<User> {
     try {
-      // First, check if user exists
-      const [existingUser] = await db
-        .select()
-        .from(users)
-        .where(eq(users.id, parseInt(userData.id)));
-
-      if (existingUser) {
-        // Update the user if exists
+      if (userData.id) {
+        // Username and email are left alone: the identity provider's values may belong to another account
         const [updatedUser] = await db
           .update(users)
           .set({
-            email: userData.email || undefined,
+            ...(userData.firstName ? { firstName: userData.firstName } : {}),
+            ...(userData.lastName ? { lastName: userData.lastName } : {}),
+            ...(userData.role ? { role: userData.role } : {}),
             updatedAt: new Date()
           })
-          .where(eq(users.id, parseInt(userData.id)))
-          .returning();
-        return updatedUser;
-      } else {
-        // Create a new user
-        const [newUser] = await db
-          .insert(users)
-          .values([{
-            username: userData.id, // Use the ID as username for simplicity
-            email: userData.email || '',
-            password: '', // Not used with Replit Auth
-            role: 'employee', // Default to employee role
-          }])
+          .where(eq(users.id, userData.id))
           .returning();
-        return newUser;
+        if (updatedUser) {
+          return this.mapUserFromDb(updatedUser);
+        }
       }
+
+      // Create a new user without a password hash: it can only sign in through the identity provider
+      const [newUser] = await db
+        .insert(users)
+        .values([{
+          username: userData.username,
+          email: userData.email,
+          firstName: userData.firstName || null,
+          lastName: userData.lastName || null,
+          password: '',
+          role: userData.role || 'employee',
+        }])
+        .returning();
+      return this.mapUserFromDb(newUser);
     } catch (error) {
       console.error('Error upserting user:', error);
       throw error;
@@ -697,9 +733,9 @@ export class DatabaseStorage implements IStorage {
           english_name, arabic_name, department, id_number, title,
           direct_manager, employment_type, joining_date, exit_date, status,
           personal_mobile, work_mobile, personal_email, corporate_email, user_id,
-          created_at, updated_at
+          custom_fields, created_at, updated_at
         ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW(), NOW()
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16::jsonb, NOW(), NOW()
         ) RETURNING *
       `, [
         cleanEmployee.englishName,
@@ -716,7 +752,8 @@ export class DatabaseStorage implements IStorage {
         cleanEmployee.workMobile || null,
         cleanEmployee.personalEmail || null,
         cleanEmployee.corporateEmail || null,
-        cleanEmployee.userId || null
+        cleanEmployee.userId || null,
+        JSON.stringify(cleanEmployee.customFields ?? {})
       ]);
       
       console.log('Employee created successfully:', result.rows[0]);
@@ -752,6 +789,7 @@ export class DatabaseStorage implements IStorage {
           personal_email = COALESCE($15, personal_email),
           corporate_email = COALESCE($16, corporate_email),
           user_id = $17,
+          custom_fields = COALESCE($18::jsonb, custom_fields),
           updated_at = NOW()
         WHERE id = $1
         RETURNING *
@@ -772,7 +810,8 @@ export class DatabaseStorage implements IStorage {
         updateData.workMobile,
         updateData.personalEmail,
         updateData.corporateEmail,
-        updateData.userId
+        updateData.userId,
+        updateData.customFields === undefined ? null : JSON.stringify(updateData.customFields)
       ]);
       
       return result.rows[0];
@@ -807,7 +846,7 @@ export class DatabaseStorage implements IStorage {
             ELSE 'Active'
           END as status,
           personal_mobile, work_mobile, personal_email, corporate_email,
-          user_id, created_at, updated_at
+          user_id, custom_fields, directory_id, directory_synced_at, created_at, updated_at
         FROM employees 
         ORDER BY emp_id ASC
       `);
@@ -835,6 +874,9 @@ export class DatabaseStorage implements IStorage {
         personalEmail: emp.personal_email,
         corporateEmail: emp.corporate_email,
         userId: emp.user_id,
+        customFields: emp.custom_fields || {},
+        directoryId: emp.directory_id,
+        directorySyncedAt: emp.directory_synced_at,
         createdAt: emp.created_at,
         updatedAt: emp.updated_at,
         };
@@ -975,9 +1017,9 @@ export class DatabaseStorage implements IStorage {
           type, brand, model_number, model_name, serial_number, specs,
           status, purchase_date, buy_price, warranty_expiry_date,
           life_span, out_of_box_os, assigned_employee_id, cpu, ram, storage,
-          created_at, updated_at
+          custom_fields, created_at, updated_at
         ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, NOW(), NOW()
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17::jsonb, NOW(), NOW()
         ) RETURNING *
       `;
 
@@ -997,7 +1039,8 @@ export class DatabaseStorage implements IStorage {
         asset.assignedEmployeeId || null,
         asset.cpu || null,
         asset.ram || null,
-        asset.storage || null
+        asset.storage || null,
+        JSON.stringify(asset.customFields ?? {})
       ];
 
       const result = await pool.query(query, values);
@@ -1254,6 +1297,15 @@ export class DatabaseStorage implements IStorage {
           completionTime: tickets.completionTime,
           timeSpent: tickets.timeSpent,
           dueDate: tickets.dueDate,
+          slaTarget: tickets.slaTarget,
+          mergedIntoId: tickets.mergedIntoId,
+          slaPolicyId: tickets.slaPolicyId,
+          responseDueAt: tickets.responseDueAt,
+          firstResponseAt: tickets.firstResponseAt,
+          slaPausedAt: tickets.slaPausedAt,
+          slaPausedMinutes: tickets.slaPausedMinutes,
+          slaStatus: tickets.slaStatus,
+          customFields: tickets.customFields,
         })
         .from(tickets)
         .leftJoin(categories, eq(tickets.categoryId, categories.id))
@@ -1300,6 +1352,7 @@ export class DatabaseStorage implements IStorage {
         timeSpent: ticket.timeSpent || null,
         dueDate: ticket.dueDate || null,
         slaTarget: ticket.slaTarget || null,
+        customFields: ticket.customFields ?? {},
       };
 
       // Let database auto-generate ticket_id using the sequence
@@ -1308,10 +1361,10 @@ export class DatabaseStorage implements IStorage {
           submitted_by_id, assigned_to_id, related_asset_id,
           type, category_id, priority, urgency, impact,
           title, description, resolution, status,
-          time_spent, due_date, sla_target,
+          time_spent, due_date, sla_target, custom_fields,
           created_at, updated_at
         ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16::jsonb,
           NOW(), NOW()
         ) RETURNING *
       `, [
@@ -1329,10 +1382,16 @@ export class DatabaseStorage implements IStorage {
         safeData.status,
         safeData.timeSpent,
         safeData.dueDate,
-        safeData.slaTarget
+        safeData.slaTarget,
+        JSON.stringify(safeData.customFields)
       ]);
 
-      return result.rows[0];
+      // Apply SLA response/resolution targets from the matching policy
+      const createdTicket = result.rows[0];
+      await syncTicketSLA(createdTicket.id);
+      const refreshed = await pool.query(`SELECT * FROM tickets WHERE id = $1`, [createdTicket.id]);
+
+      return refreshed.rows[0] || createdTicket;
     } catch (error) {
       console.error('Error creating ticket:', error);
       throw error;
@@ -1357,6 +1416,8 @@ export class DatabaseStorage implements IStorage {
     try {
       // If urgency or impact is being updated, recalculate priority
       let updatedData = { ...ticketData };
+      // Time spent is rolled up from the time entry ledger only
+      delete updatedData.timeSpent;
       
       // Check if urgency or impact is being changed
       if (ticketData.urgency || ticketData.impact) {
@@ -1387,6 +1448,12 @@ export class DatabaseStorage implements IStorage {
         .set({ ...updatedData, updatedAt: new Date() })
         .where(eq(tickets.id, id))
         .returning();
+
+      if (updatedTicket && this.affectsSLA(updatedData)) {
+        await syncTicketSLA(id);
+        const [refreshed] = await db.select().from(tickets).where(eq(tickets.id, id));
+        return refreshed;
+      }
       return updatedTicket;
     } catch (error) {
       console.error('Error updating ticket:', error);
@@ -1459,6 +1526,15 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
           completionTime: tickets.completionTime,
           timeSpent: tickets.timeSpent,
           dueDate: tickets.dueDate,
+          slaTarget: tickets.slaTarget,
+          mergedIntoId: tickets.mergedIntoId,
+          slaPolicyId: tickets.slaPolicyId,
+          responseDueAt: tickets.responseDueAt,
+          firstResponseAt: tickets.firstResponseAt,
+          slaPausedAt: tickets.slaPausedAt,
+          slaPausedMinutes: tickets.slaPausedMinutes,
+          slaStatus: tickets.slaStatus,
+          customFields: tickets.customFields,
         })
         .from(tickets)
         .leftJoin(categories, eq(tickets.categoryId, categories.id))
@@ -2228,6 +2304,8 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
         createdAt: row.created_at,
         updatedAt: row.updated_at,
         deviceSpecs: row.device_specs,
+        fromLocationId: row.from_location_id,
+        toLocationId: row.to_location_id,
         asset: row.asset_asset_id ? {
           id: row.asset_id,
           assetId: row.asset_asset_id,
@@ -2293,6 +2371,8 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
         createdAt: row.created_at,
         updatedAt: row.updated_at,
         deviceSpecs: row.device_specs,
+        fromLocationId: row.from_location_id,
+        toLocationId: row.to_location_id,
         asset: row.asset_asset_id ? {
           id: row.asset_id,
           assetId: row.asset_asset_id,
@@ -2357,12 +2437,17 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
     }
   }
 
-  async checkOutAsset(assetId: number, employeeId: number, notes?: string, type: string = 'Check-Out',handledById?: number, deviceSpecs?: any): Promise<AssetTransaction> {
+  async checkOutAsset(assetId: number, employeeId: number, notes?: string, type: string = 'Check-Out',handledById?: number, deviceSpecs?: any, locationId?: number | null): Promise<AssetTransaction> {
     try {
+      // Current location is recorded as the origin; the asset only moves when a destination is given
+      const asset = await this.getAsset(assetId);
+      const fromLocationId = asset?.locationId ?? null;
+
       // First update the asset to set employeeId
       await this.updateAsset(assetId, { 
         assignedEmployeeId: employeeId,
-        status: 'In Use'
+        status: 'In Use',
+        ...(locationId ? { locationId } : {})
       });
       
       // Create transaction record with device specs
@@ -2373,7 +2458,9 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
         handledById, 
         transactionDate: new Date(),
         conditionNotes: notes || null,
-        deviceSpecs
+        deviceSpecs,
+        fromLocationId,
+        toLocationId: locationId || fromLocationId
       });
         
       return transaction;
@@ -2383,7 +2470,7 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
     }
   }
 
-  async checkInAsset(assetId: number, notes?: string, type: string = 'Check-In',handledById?: number,deviceSpecs?: any): Promise<AssetTransaction> {
+  async checkInAsset(assetId: number, notes?: string, type: string = 'Check-In',handledById?: number,deviceSpecs?: any, locationId?: number | null): Promise<AssetTransaction> {
     try {
       // Get asset to determine employee
       const asset = await this.getAsset(assetId);
@@ -2393,10 +2480,11 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
       
       const employeeId = asset.assignedEmployeeId;
       
-      // Update asset to remove employee and set status to Available
+      // Update asset to remove employee and set status to Available (and return it to the given location)
       await this.updateAsset(assetId, { 
         assignedEmployeeId: null,
-        status: 'Available'
+        status: 'Available',
+        ...(locationId ? { locationId } : {})
       });
       
       // Create transaction record with device specs
@@ -2408,7 +2496,9 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
         transactionDate: new Date(),
         actualReturnDate: new Date(),
         conditionNotes: notes || null,
-        deviceSpecs
+        deviceSpecs,
+        fromLocationId: asset.locationId,
+        toLocationId: locationId || asset.locationId
       });
         
       return transaction;
@@ -2434,27 +2524,68 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
 
 
 
-  async addTimeEntry(ticketId: number, hours: number, description: string, userId: number): Promise<any> {
+  // Ticket time tracking operations
+  async getTimeEntries(ticketId: number): Promise<any[]> {
+    try {
+      const result = await pool.query(`
+        SELECT te.*, to_char(te.work_date, 'YYYY-MM-DD') AS work_day, u.username
+        FROM ticket_time_entries te
+        LEFT JOIN users u ON te.user_id = u.id
+        WHERE te.ticket_id = $1
+        ORDER BY te.work_date DESC, te.created_at DESC
+      `, [ticketId]);
+
+      return result.rows.map(row => ({
+        id: row.id,
+        ticketId: row.ticket_id,
+        userId: row.user_id,
+        workDate: row.work_day,
+        minutes: row.minutes,
+        description: row.description,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        user: {
+          id: row.user_id,
+          username: row.username
+        }
+      }));
+    } catch (error) {
+      console.error('Error fetching time entries:', error);
+      return [];
+    }
+  }
+
+  async getTimeEntry(id: number): Promise<TicketTimeEntry | undefined> {
+    try {
+      const [entry] = await db.select().from(ticketTimeEntries).where(eq(ticketTimeEntries.id, id));
+      return entry;
+    } catch (error) {
+      console.error('Error fetching time entry:', error);
+      return undefined;
+    }
+  }
+
+  async addTimeEntry(ticketId: number, hours: number, description: string, userId: number, workDate?: string): Promise<TicketTimeEntry> {
     try {
-      const timeEntry = {
-        id: this.timeEntries.length + 1,
+      await this.openLegacyTimeEntry(ticketId, userId);
+
+      const [timeEntry] = await db.insert(ticketTimeEntries).values({
         ticketId,
         userId,
-        hours,
-        description,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-      
-      this.timeEntries.push(timeEntry);
-      
-      // Update ticket's actual hours
-      const ticket = this.tickets.find(t => t.id === ticketId);
-      if (ticket) {
-        ticket.actualHours = (ticket.actualHours || 0) + hours;
-        ticket.lastActivityAt = new Date();
-      }
-      
+        minutes: Math.round(hours * 60),
+        description: description || null,
+        workDate: workDate || new Date().toISOString().split('T')[0]
+      }).returning();
+
+      await this.recalculateTicketTimeSpent(ticketId);
+
+      await this.addTicketHistory({
+        ticketId,
+        userId,
+        action: "Time Logged",
+        notes: `${timeEntry.minutes} minutes logged`
+      });
+
       return timeEntry;
     } catch (error) {
       console.error('Error adding time entry:', error);
@@ -2462,6 +2593,100 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
     }
   }
 
+  async updateTimeEntry(id: number, entry: Partial<InsertTicketTimeEntry>): Promise<TicketTimeEntry | undefined> {
+    try {
+      const [updatedEntry] = await db
+        .update(ticketTimeEntries)
+        .set({ ...entry, updatedAt: new Date() })
+        .where(eq(ticketTimeEntries.id, id))
+        .returning();
+
+      if (updatedEntry) {
+        await this.recalculateTicketTimeSpent(updatedEntry.ticketId);
+      }
+      return updatedEntry;
+    } catch (error) {
+      console.error('Error updating time entry:', error);
+      throw error;
+    }
+  }
+
+  async deleteTimeEntry(id: number): Promise<boolean> {
+    try {
+      const [deletedEntry] = await db
+        .delete(ticketTimeEntries)
+        .where(eq(ticketTimeEntries.id, id))
+        .returning();
+
+      if (!deletedEntry) {
+        return false;
+      }
+      await this.recalculateTicketTimeSpent(deletedEntry.ticketId);
+      return true;
+    } catch (error) {
+      console.error('Error deleting time entry:', error);
+      throw error;
+    }
+  }
+
+  async getTimesheetEntries(userId: number, startDate: string, endDate: string): Promise<any[]> {
+    try {
+      const result = await pool.query(`
+        SELECT te.*, to_char(te.work_date, 'YYYY-MM-DD') AS work_day, t.ticket_id AS ticket_code, t.title AS ticket_title, t.status AS ticket_status
+        FROM ticket_time_entries te
+        JOIN tickets t ON te.ticket_id = t.id
+        WHERE te.user_id = $1 AND te.work_date >= $2 AND te.work_date <= $3
+        ORDER BY te.work_date ASC, te.created_at ASC
+      `, [userId, startDate, endDate]);
+
+      return result.rows.map(row => ({
+        id: row.id,
+        ticketId: row.ticket_id,
+        userId: row.user_id,
+        workDate: row.work_day,
+        minutes: row.minutes,
+        description: row.description,
+        ticketCode: row.ticket_code,
+        ticketTitle: row.ticket_title,
+        ticketStatus: row.ticket_status
+      }));
+    } catch (error) {
+      console.error('Error fetching timesheet entries:', error);
+      return [];
+    }
+  }
+
+  // Classification or status changes re-target and re-evaluate the ticket's SLA
+  private affectsSLA(ticketData: Partial<InsertTicket>): boolean {
+    return ['priority', 'urgency', 'impact', 'type', 'categoryId', 'status']
+      .some(field => (ticketData as Record<string, unknown>)[field] !== undefined);
+  }
+
+  // A ticket created or imported with a time spent value has no ledger entries yet:
+  // record that value as an opening entry so the rollup keeps it
+  private async openLegacyTimeEntry(ticketId: number, userId: number, executor: StorageExecutor = db): Promise<void> {
+    await executor.execute(sql`
+      INSERT INTO ticket_time_entries (ticket_id, user_id, work_date, minutes, description)
+      SELECT t.id, COALESCE(t.assigned_to_id, ${userId}), COALESCE(t.created_at, NOW())::date, t.time_spent,
+             'Imported from legacy time spent value'
+      FROM tickets t
+      WHERE t.id = ${ticketId}
+        AND t.time_spent > 0
+        AND NOT EXISTS (SELECT 1 FROM ticket_time_entries te WHERE te.ticket_id = t.id)
+    `);
+  }
+
+  // Keep tickets.timeSpent (minutes) in sync with the time entry ledger
+  private async recalculateTicketTimeSpent(ticketId: number): Promise<void> {
+    await pool.query(`
+      UPDATE tickets
+      SET time_spent = (
+        SELECT COALESCE(SUM(minutes), 0) FROM ticket_time_entries WHERE ticket_id = $1
+      ), updated_at = NOW()
+      WHERE id = $1
+    `, [ticketId]);
+  }
+
   // Categories operations
   async getCategories(): Promise<Category[]> {
     try {
@@ -2503,7 +2728,8 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
       { name: 'Damaged', description: 'Asset requires repair or replacement', color: '#ef4444' },
       { name: 'Retired', description: 'Asset is at end of life, no longer in use', color: '#6b7280' },
       { name: 'Lost', description: 'Asset cannot be located', color: '#dc2626' },
-      { name: 'Sold', description: 'Asset has been sold', color: '#8b5cf6' }
+      { name: 'Sold', description: 'Asset has been sold', color: '#8b5cf6' },
+      { name: 'Missing', description: 'Asset was not found during a stock-take', color: '#f97316' }
     ];
 
     try {
@@ -2629,6 +2855,19 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
         WHERE id = $1
       `, [commentData.ticketId]);
 
+      // A public reply from anyone other than the requester is the SLA first response
+      if (!commentData.isPrivate) {
+        await pool.query(`
+          UPDATE tickets
+          SET first_response_at = NOW()
+          WHERE id = $1
+            AND first_response_at IS NULL
+            AND NOT EXISTS (
+              SELECT 1 FROM employees e WHERE e.id = tickets.submitted_by_id AND e.user_id = $2
+            )
+        `, [commentData.ticketId, commentData.userId]);
+      }
+
       // Add to history
       await this.addTicketHistory({
         ticketId: commentData.ticketId,
@@ -2644,6 +2883,114 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
     }
   }
 
+  // Merge duplicate tickets: comments, history and time entries move to the primary ticket,
+  // secondaries are closed with mergedIntoId pointing back to the primary
+  async mergeTickets(primaryTicketId: number, secondaryTicketIds: number[], userId: number): Promise<any> {
+    const secondaryIds = Array.from(new Set(secondaryTicketIds)).filter(id => id !== primaryTicketId);
+    if (secondaryIds.length === 0) {
+      throw new TicketMergeError('At least one ticket other than the primary ticket is required');
+    }
+
+    const { primaryTicket, secondaryTickets, counts } = await db.transaction(async (tx) => {
+      // Lock every ticket involved (in id order) so concurrent merges of the same tickets run one after another
+      const lockedTickets = await tx
+        .select()
+        .from(tickets)
+        .where(inArray(tickets.id, [primaryTicketId, ...secondaryIds]))
+        .orderBy(asc(tickets.id))
+        .for('update');
+
+      const primaryTicket = lockedTickets.find(ticket => ticket.id === primaryTicketId);
+      if (!primaryTicket) {
+        throw new TicketMergeError('Primary ticket not found');
+      }
+      if (primaryTicket.mergedIntoId) {
+        throw new TicketMergeError(`Ticket ${primaryTicket.ticketId} has already been merged and cannot be a merge target`);
+      }
+
+      const secondaryTickets = lockedTickets.filter(ticket => ticket.id !== primaryTicketId);
+      if (secondaryTickets.length !== secondaryIds.length) {
+        throw new TicketMergeError('One or more tickets to merge were not found');
+      }
+      const alreadyMerged = secondaryTickets.find(ticket => ticket.mergedIntoId);
+      if (alreadyMerged) {
+        throw new TicketMergeError(`Ticket ${alreadyMerged.ticketId} has already been merged`);
+      }
+
+      const secondaryCodes = secondaryTickets.map(ticket => ticket.ticketId).join(', ');
+
+      // Time spent recorded before the ledger becomes entries first, so it moves into the merged total
+      for (const ticket of lockedTickets) {
+        await this.openLegacyTimeEntry(ticket.id, userId, tx);
+      }
+
+      const movedComments = await tx
+        .update(ticketComments)
+        .set({ ticketId: primaryTicketId })
+        .where(inArray(ticketComments.ticketId, secondaryIds))
+        .returning({ id: ticketComments.id });
+
+      const movedHistory = await tx
+        .update(ticketHistory)
+        .set({ ticketId: primaryTicketId })
+        .where(inArray(ticketHistory.ticketId, secondaryIds))
+        .returning({ id: ticketHistory.id });
+
+      const movedTimeEntries = await tx
+        .update(ticketTimeEntries)
+        .set({ ticketId: primaryTicketId, updatedAt: new Date() })
+        .where(inArray(ticketTimeEntries.ticketId, secondaryIds))
+        .returning({ id: ticketTimeEntries.id });
+
+      await tx
+        .update(tickets)
+        .set({
+          status: 'Closed',
+          mergedIntoId: primaryTicketId,
+          resolution: `Merged into ${primaryTicket.ticketId}`,
+          completionTime: new Date(),
+          timeSpent: 0,
+          updatedAt: new Date(),
+        })
+        .where(inArray(tickets.id, secondaryIds));
+
+      await tx.insert(ticketHistory).values({
+        ticketId: primaryTicketId,
+        userId,
+        action: "Tickets Merged",
+        notes: `Merged ${secondaryCodes} into this ticket`,
+      });
+
+      await tx.insert(ticketHistory).values(secondaryTickets.map(ticket => ({
+        ticketId: ticket.id,
+        userId,
+        action: "Merged",
+        fieldChanged: "status",
+        oldValue: ticket.status,
+        newValue: "Closed",
+        notes: `Merged into ${primaryTicket.ticketId}`,
+      })));
+
+      return {
+        primaryTicket,
+        secondaryTickets,
+        counts: {
+          comments: movedComments.length,
+          history: movedHistory.length,
+          timeEntries: movedTimeEntries.length,
+        },
+      };
+    });
+
+    await this.recalculateTicketTimeSpent(primaryTicketId);
+
+    return {
+      primaryTicket: await this.getTicket(primaryTicketId),
+      mergedTickets: secondaryTickets,
+      moved: counts,
+    };
+  }
+
   // Enhanced ticket update with history tracking
   async updateTicketWithHistory(id: number, ticketData: Partial<InsertTicket>, userId: number): Promise<Ticket | undefined> {
     try {
@@ -2678,6 +3025,8 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
 
       // Prepare update data with proper field type handling
       const updateData = { ...ticketData };
+      // Time spent is rolled up from the time entry ledger only
+      delete updateData.timeSpent;
       
       // Handle date fields properly - only convert actual date fields
       if (updateData.dueDate && typeof updateData.dueDate === 'string') {
@@ -2722,6 +3071,11 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
         });
       }
 
+      if (updatedTicket && this.affectsSLA(updateData)) {
+        await syncTicketSLA(id);
+        const [refreshed] = await db.select().from(tickets).where(eq(tickets.id, id));
+        return refreshed;
+      }
       return updatedTicket;
     } catch (error) {
       console.error('Error updating ticket with history:', error);
@@ -2825,16 +3179,26 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
         approver.english_name as approved_by_name,
         assigned_emp.english_name as assigned_employee_name,
         assigned_emp.emp_id as assigned_employee_id_code,
-        assigned_emp.department as assigned_employee_department
+        assigned_emp.department as assigned_employee_department,
+        po.purchase_order_count,
+        po.actual_cost
       FROM asset_upgrades au
       LEFT JOIN assets a ON au.asset_id = a.id
       LEFT JOIN users creator ON au.created_by_id = creator.id
       LEFT JOIN employees approver ON au.approved_by_id = approver.id
       LEFT JOIN employees assigned_emp ON a.assigned_employee_id = assigned_emp.id
+      LEFT JOIN (
+        SELECT upgrade_id,
+          COUNT(*)::int as purchase_order_count,
+          SUM(total_amount) FILTER (WHERE status = ANY($1)) as actual_cost
+        FROM purchase_orders
+        WHERE upgrade_id IS NOT NULL
+        GROUP BY upgrade_id
+      ) po ON po.upgrade_id = au.id
       ORDER BY au.created_at DESC
     `;
     
-    const result = await pool.query(query);
+    const result = await pool.query(query, [ACTUAL_COST_STATUSES]);
     
     return result.rows.map(row => ({
       ...row,
@@ -2846,6 +3210,9 @@ async deleteTicket(id: number, userId: number): Promise<boolean> {
       },
       createdByName: row.created_by_name,
       approvedByName: row.approved_by_name,
+      purchaseOrderCount: row.purchase_order_count || 0,
+      // Approved-or-later purchase orders raised for this upgrade; null when none
+      actualCost: row.actual_cost !== null && row.actual_cost !== undefined ? Number(row.actual_cost) : null,
       assignedEmployee: row.assigned_employee_name ? {
         name: row.assigned_employee_name,
         employeeId: row.assigned_employee_id_code,
@@ -0,0 +1,24 @@
+/**
+ * Custom field value matching shared by the table filters
+ * (server-side for paginated assets, client-side for employees and tickets)
+ */
+
+/**
+ * Whether the custom field values of an entity match a filter on one field
+ *
+ * @param values - The entity's customFields object
+ * @param key - Custom field key to filter on
+ * @param filter - Wanted value; empty matches any entity that has a value for the field
+ * @returns True when text contains the filter (case-insensitive), or numbers/Yes-No equal it
+ */
+export function matchesCustomFieldFilter(values: unknown, key: string, filter: string | undefined): boolean {
+  const value = values && typeof values === 'object' ? (values as Record<string, unknown>)[key] : undefined;
+  if (value === null || value === undefined || value === '') return false;
+
+  const wanted = (filter ?? '').trim().toLowerCase();
+  if (!wanted) return true;
+
+  if (typeof value === 'boolean') return String(value) === wanted;
+  if (typeof value === 'number') return value === Number(wanted);
+  return String(value).toLowerCase().includes(wanted);
+}
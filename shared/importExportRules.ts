@@ -120,6 +120,13 @@ export const assetValidationRules: CSVValidationRule[] = [
     required: false,
     type: 'number',
     transform: (value) => value ? parseInt(value) : null
+  },
+  {
+    // Location code, full path ("Cairo Office / Building A / Storeroom") or unique name
+    field: 'location',
+    required: false,
+    type: 'string',
+    transform: (value) => value ? String(value).trim() : null
   }
 ];
 
@@ -452,7 +459,7 @@ export const assetTransactionValidationRules: CSVValidationRule[] = [
     required: true,
     type: 'string',
     validate: (value) => {
-      const validTypes = ['Check-Out', 'Check-In', 'Maintenance', 'Sale', 'Retirement'];
+      const validTypes = ['Check-Out', 'Check-In', 'Maintenance', 'Sale', 'Retirement', 'Transfer', 'Audit'];
       return validTypes.includes(value) || `Type must be one of: ${validTypes.join(', ')}`;
     }
   },
@@ -496,6 +503,91 @@ export const assetTransactionValidationRules: CSVValidationRule[] = [
     required: false,
     type: 'number',
     transform: (value) => value ? parseInt(value) : null
+  },
+  {
+    field: 'fromLocationId',
+    required: false,
+    type: 'number',
+    transform: (value) => value ? parseInt(value) : null
+  },
+  {
+    field: 'toLocationId',
+    required: false,
+    type: 'number',
+    transform: (value) => value ? parseInt(value) : null
+  }
+];
+
+/**
+ * Software License Import/Export Rules
+ */
+export const licenseValidationRules: CSVValidationRule[] = [
+  {
+    field: 'productName',
+    required: true,
+    type: 'string'
+  },
+  {
+    field: 'vendor',
+    required: false,
+    type: 'string'
+  },
+  {
+    field: 'licenseType',
+    required: false,
+    type: 'string',
+    validate: (value) => {
+      const validTypes = ['subscription', 'perpetual'];
+      return !value || validTypes.includes(value.toLowerCase()) || `License type must be one of: ${validTypes.join(', ')}`;
+    }
+  },
+  {
+    field: 'seatCount',
+    required: false,
+    type: 'number',
+    transform: (value) => value ? parseInt(value) : 1
+  },
+  {
+    field: 'billingCycle',
+    required: false,
+    type: 'string',
+    validate: (value) => {
+      const validCycles = ['monthly', 'quarterly', 'annual', 'one_time'];
+      return !value || validCycles.includes(value.toLowerCase()) || `Billing cycle must be one of: ${validCycles.join(', ')}`;
+    }
+  },
+  {
+    field: 'cost',
+    required: false,
+    type: 'number',
+    transform: (value) => value ? parseFloat(value).toFixed(2) : null
+  },
+  {
+    field: 'purchaseDate',
+    required: false,
+    type: 'date',
+    transform: (value) => value ? new Date(value).toISOString().split('T')[0] : null
+  },
+  {
+    field: 'renewalDate',
+    required: false,
+    type: 'date',
+    transform: (value) => value ? new Date(value).toISOString().split('T')[0] : null
+  },
+  {
+    field: 'autoRenew',
+    required: false,
+    type: 'boolean',
+    transform: parseBoolean
+  },
+  {
+    field: 'status',
+    required: false,
+    type: 'string',
+    validate: (value) => {
+      const validStatuses = ['active', 'expired', 'cancelled'];
+      return !value || validStatuses.includes(value.toLowerCase()) || `Status must be one of: ${validStatuses.join(', ')}`;
+    }
   }
 ];
 
@@ -506,7 +598,7 @@ export const assetExportColumns = [
   'id', 'assetId', 'type', 'brand', 'modelNumber', 'modelName', 'serialNumber', 
   'specs', 'cpu', 'ram', 'storage', 'status', 'purchaseDate', 'buyPrice', 
   'warrantyExpiryDate', 'lifeSpan', 'outOfBoxOs', 'assignedEmployeeId', 
-  'createdAt', 'updatedAt'
+  'locationId', 'location', 'createdAt', 'updatedAt'
 ];
 
 export const employeeExportColumns = [
@@ -536,7 +628,14 @@ export const assetMaintenanceExportColumns = [
 export const assetTransactionExportColumns = [
   'id', 'type', 'assetId', 'employeeId', 'transactionDate', 
   'expectedReturnDate', 'actualReturnDate', 'conditionNotes', 
-  'handledById', 'createdAt', 'updatedAt'
+  'handledById', 'fromLocationId', 'toLocationId', 'createdAt', 'updatedAt'
+];
+
+// License keys are never exported
+export const licenseExportColumns = [
+  'productName', 'vendor', 'edition', 'licenseType', 'seatCount', 'usedSeats',
+  'billingCycle', 'cost', 'annualCost', 'purchaseDate', 'renewalDate', 'autoRenew',
+  'status', 'notes'
 ];
 
 /**
@@ -549,7 +648,8 @@ export function getValidationRules(entityType: string): CSVValidationRule[] {
     'tickets': ticketValidationRules,
     'users': userValidationRules,
     'asset-maintenance': assetMaintenanceValidationRules,
-    'asset-transactions': assetTransactionValidationRules
+    'asset-transactions': assetTransactionValidationRules,
+    'licenses': licenseValidationRules
   };
   
   return ruleMap[entityType] || [];
@@ -565,7 +665,8 @@ export function getExportColumns(entityType: string): string[] {
     'tickets': ticketExportColumns,
     'users': userExportColumns,
     'asset-maintenance': assetMaintenanceExportColumns,
-    'asset-transactions': assetTransactionExportColumns
+    'asset-transactions': assetTransactionExportColumns,
+    'licenses': licenseExportColumns
   };
   
   return columnMap[entityType] || [];
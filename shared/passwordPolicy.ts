@@ -0,0 +1,99 @@
+/**
+ * Password rules shared by the server (enforcement) and the client (strength meter and checklist)
+ * The admin-configured policy lives in system_config; see server/services/passwordPolicyService.ts
+ */
+
+export interface PasswordRules {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+}
+
+export type PasswordRule = keyof PasswordRules;
+
+export const DEFAULT_PASSWORD_RULES: PasswordRules = {
+  minLength: 8,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireNumber: true,
+  requireSymbol: false,
+};
+
+// Admins can tighten the minimum length within these bounds
+export const PASSWORD_MIN_LENGTH_FLOOR = 6;
+export const PASSWORD_MIN_LENGTH_CEILING = 64;
+
+const RULE_PATTERNS: Record<Exclude<PasswordRule, 'minLength'>, RegExp> = {
+  requireUppercase: /[A-Z]/,
+  requireLowercase: /[a-z]/,
+  requireNumber: /\d/,
+  requireSymbol: /[^A-Za-z0-9]/,
+};
+
+// Rejected by the strength meter regardless of the rules
+const COMMON_PASSWORDS = [
+  'password', 'password1', 'password123', '12345678', '123456789', '1234567890', 'qwerty123',
+  'qwertyuiop', 'iloveyou', 'welcome1', 'letmein1', 'admin123', 'simpleit', 'changeme',
+];
+
+/**
+ * Rules the password does not meet (empty when it is acceptable)
+ */
+export function getPasswordRuleFailures(password: string, rules: PasswordRules): PasswordRule[] {
+  const failures: PasswordRule[] = [];
+  if (password.length < rules.minLength) failures.push('minLength');
+  for (const [rule, pattern] of Object.entries(RULE_PATTERNS) as [Exclude<PasswordRule, 'minLength'>, RegExp][]) {
+    if (rules[rule] && !pattern.test(password)) failures.push(rule);
+  }
+  return failures;
+}
+
+/**
+ * Enabled rules, in display order
+ */
+export function getActivePasswordRules(rules: PasswordRules): PasswordRule[] {
+  return (['minLength', 'requireUppercase', 'requireLowercase', 'requireNumber', 'requireSymbol'] as PasswordRule[])
+    .filter(rule => rule === 'minLength' || rules[rule]);
+}
+
+export function describePasswordRule(rule: PasswordRule, rules: PasswordRules, language: 'en' | 'ar' = 'en'): string {
+  const descriptions: Record<PasswordRule, { en: string; ar: string }> = {
+    minLength: {
+      en: `At least ${rules.minLength} characters`,
+      ar: `${rules.minLength} أحرف على الأقل`,
+    },
+    requireUppercase: { en: 'An uppercase letter', ar: 'حرف كبير' },
+    requireLowercase: { en: 'A lowercase letter', ar: 'حرف صغير' },
+    requireNumber: { en: 'A number', ar: 'رقم' },
+    requireSymbol: { en: 'A symbol (e.g. ! @ # $)', ar: 'رمز (مثل ! @ # $)' },
+  };
+  return descriptions[rule][language];
+}
+
+/**
+ * Server error message for a password that fails the rules
+ */
+export function formatPasswordRuleFailures(failures: PasswordRule[], rules: PasswordRules): string {
+  return `Password does not meet the password policy: ${failures
+    .map(rule => describePasswordRule(rule, rules).toLowerCase())
+    .join(', ')}`;
+}
+
+/**
+ * Rough strength from 0 (very weak) to 4 (strong): length, character variety and common passwords
+ */
+export function getPasswordStrength(password: string): 0 | 1 | 2 | 3 | 4 {
+  if (!password) return 0;
+  const lower = password.toLowerCase();
+  if (COMMON_PASSWORDS.includes(lower) || /^(.)\1+$/.test(password)) return 0;
+
+  const variety = Object.values(RULE_PATTERNS).filter(pattern => pattern.test(password)).length;
+  let score = 0;
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (variety >= 3) score++;
+  if (password.length >= 16 || (password.length >= 12 && variety === 4)) score++;
+  return Math.min(score, 4) as 0 | 1 | 2 | 3 | 4;
+}
@@ -96,6 +96,23 @@ export function getSLAResponseTime(priority: PriorityLevel): number {
   return responseTimes[priority];
 }
 
+/**
+ * Get SLA resolution time in hours based on priority
+ * Used as the fallback when no SLA policy matches a ticket
+ * @param priority - Priority level
+ * @returns Resolution time in hours
+ */
+export function getSLAResolutionTime(priority: PriorityLevel): number {
+  const resolutionTimes: Record<PriorityLevel, number> = {
+    'Critical': 4,    // 4 hours
+    'High': 24,       // 1 day
+    'Medium': 72,     // 3 days
+    'Low': 120        // 5 days
+  };
+
+  return resolutionTimes[priority];
+}
+
 /**
  * Validate if the provided priority matches the calculated priority
  * @param urgency - Ticket urgency
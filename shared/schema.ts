@@ -1,4 +1,4 @@
-import { pgTable, serial, varchar, text, integer, boolean, timestamp,bigint, decimal, date, jsonb, index, pgEnum,pgSequence } from "drizzle-orm/pg-core";
+import { pgTable, serial, varchar, text, integer, boolean, timestamp,bigint, decimal, date, jsonb, index, uniqueIndex, pgEnum,pgSequence } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -22,7 +22,7 @@ export const notificationPriorityEnum = pgEnum('notification_priority', ['info',
 export const notificationCategoryEnum = pgEnum('notification_category', ['assignments', 'status_changes', 'maintenance', 'approvals', 'announcements', 'reminders', 'alerts']);
 export const upgradeStatusEnum = pgEnum('upgrade_status', ['Planned', 'Approved', 'In Progress', 'Testing', 'Completed', 'Failed', 'Cancelled', 'Rolled Back']);
 export const maintenanceTypeEnum = pgEnum('maintenance_type', ['Preventive', 'Corrective', 'Upgrade', 'Repair', 'Inspection', 'Cleaning', 'Replacement']);
-export const assetTransactionTypeEnum = pgEnum('asset_transaction_type', ['Check-Out', 'Check-In', 'Maintenance','Sale','Retirement','Upgrade']);
+export const assetTransactionTypeEnum = pgEnum('asset_transaction_type', ['Check-Out', 'Check-In', 'Maintenance','Sale','Retirement','Upgrade','Transfer','Audit']);
 
 // Add sequence definitions with increment: 1
 export const employeesIdSequence = pgSequence('employees_id_seq', {
@@ -121,6 +121,72 @@ export const registrationTokens = pgTable("registration_tokens", {
   used: boolean("used").default(false),
 });
 
+// API Tokens table (personal access tokens for scripts and integrations)
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar("name", { length: 100 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 of the token; the token itself is never stored
+  tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(), // Shown in the UI to tell tokens apart
+  scopes: jsonb("scopes").notNull().default([]), // Array of PERMISSIONS values from shared/roles.config.ts
+  expiresAt: timestamp("expires_at"), // Null = never expires
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: varchar("last_used_ip", { length: 45 }),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_api_tokens_user").on(table.userId),
+]);
+
+// Two-factor authentication (TOTP) per user; kept out of the users table so secrets never travel with user rows
+export const userTwoFactor = pgTable("user_two_factor", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+  secret: text("secret").notNull(), // Base32 TOTP secret, encrypted with encryptionService
+  enabledAt: timestamp("enabled_at"), // Null while enrollment is not confirmed with a code
+  lastUsedStep: integer("last_used_step"), // Last accepted 30s time step, so a code can't be replayed
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().notNull().default([]), // SHA-256 of unused one-time codes
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// User Credentials table - password age, forced change and lockout state of local accounts
+export const userCredentials = pgTable("user_credentials", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+  passwordChangedAt: timestamp("password_changed_at").notNull().defaultNow(),
+  mustChangePassword: boolean("must_change_password").notNull().default(false), // Set by an admin reset
+  failedLoginCount: integer("failed_login_count").notNull().default(0), // Consecutive wrong passwords
+  lastFailedLoginAt: timestamp("last_failed_login_at"),
+  lockedAt: timestamp("locked_at"),
+  lockedUntil: timestamp("locked_until"), // Null while locked: until an admin unlocks the account
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Password History table - hashes of previous passwords, for the reuse rule
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_password_history_user").on(table.userId),
+]);
+
+// User Identities table - accounts signed in through an external directory or identity provider
+export const userIdentities = pgTable("user_identities", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  provider: varchar("provider", { length: 20 }).notNull(), // ldap | oidc
+  externalId: varchar("external_id", { length: 255 }).notNull(), // LDAP: objectGUID / entryUUID (falls back to the DN); OIDC: issuer + "|" + sub
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_user_identities_provider_external").on(table.provider, table.externalId),
+  index("IDX_user_identities_user").on(table.userId),
+]);
+
 // Employees table
 export const employees = pgTable("employees", {
   id: serial("id").primaryKey(),
@@ -140,10 +206,99 @@ export const employees = pgTable("employees", {
   personalEmail: varchar("personal_email", { length: 100 }),
   corporateEmail: varchar("corporate_email", { length: 100 }).unique(),
   userId: integer("user_id").unique().references(() => users.id),
+  customFields: jsonb("custom_fields").$type<Record<string, string | number | boolean | null>>().notNull().default({}), // { [fieldKey]: value } for custom_field_definitions
+  directoryId: varchar("directory_id", { length: 255 }).unique(), // Directory entry (objectGUID / entryUUID) this employee is synced from; null = maintained by hand
+  directorySyncedAt: timestamp("directory_synced_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
 });
 
+// Onboarding Templates table - assets and provisioning work for new hires by department/title
+export const onboardingTemplates = pgTable("onboarding_templates", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  department: varchar("department", { length: 100 }), // null matches any department
+  title: varchar("title", { length: 100 }), // null matches any title
+  assetRequirements: jsonb("asset_requirements").notNull().default([]), // [{ type: "Laptop", quantity: 1 }]
+  provisioningTasks: jsonb("provisioning_tasks").notNull().default([]), // Ticket titles opened for IT, e.g. ["Create accounts"]
+  sendRegistrationInvite: boolean("send_registration_invite").notNull().default(true),
+  isActive: boolean("is_active").notNull().default(true),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Onboarding Plans table - what was prepared for one new hire and its day-one check-out
+export const onboardingPlans = pgTable("onboarding_plans", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
+  templateId: integer("template_id").references(() => onboardingTemplates.id, { onDelete: 'set null' }),
+  joiningDate: date("joining_date").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default('scheduled'), // scheduled | completed | cancelled
+  reservedAssetIds: jsonb("reserved_asset_ids").notNull().default([]), // assets.id values held with status Reserved
+  shortfall: jsonb("shortfall").notNull().default([]), // [{ type, missing }] when not enough assets were Available
+  ticketIds: jsonb("ticket_ids").notNull().default([]), // Provisioning tickets (tickets.id)
+  invitationSentAt: timestamp("invitation_sent_at"),
+  checkedOutAt: timestamp("checked_out_at"),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_onboarding_plans_status_date").on(table.status, table.joiningDate),
+  index("IDX_onboarding_plans_employee").on(table.employeeId),
+]);
+
+// Offboarding Cases table - one open case per leaving employee
+export const offboardingCases = pgTable("offboarding_cases", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
+  status: varchar("status", { length: 20 }).notNull().default('open'), // open | completed | cancelled
+  exitDate: date("exit_date"),
+  reason: varchar("reason", { length: 50 }), // exit_date | Resigned | Terminated | manual
+  managerSignedOffById: integer("manager_signed_off_by_id").references(() => users.id),
+  managerSignedOffAt: timestamp("manager_signed_off_at"),
+  lastReminderLevel: integer("last_reminder_level").notNull().default(0), // Highest escalation level already sent
+  lastReminderAt: timestamp("last_reminder_at"),
+  completedAt: timestamp("completed_at"),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_offboarding_cases_employee").on(table.employeeId),
+  index("IDX_offboarding_cases_status").on(table.status, table.exitDate),
+]);
+
+// Offboarding Tasks table - checklist items of a case
+export const offboardingTasks = pgTable("offboarding_tasks", {
+  id: serial("id").primaryKey(),
+  caseId: integer("case_id").notNull().references(() => offboardingCases.id, { onDelete: 'cascade' }),
+  type: varchar("type", { length: 30 }).notNull(), // return_asset | disable_account | transfer_tickets | manager_signoff
+  assetId: integer("asset_id").references(() => assets.id, { onDelete: 'set null' }), // return_asset only
+  title: varchar("title", { length: 255 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default('pending'), // pending | done | waived
+  notes: text("notes"),
+  completedById: integer("completed_by_id").references(() => users.id),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_offboarding_tasks_case").on(table.caseId),
+]);
+
+// Locations table - site > building > floor > room/cabinet hierarchy where assets are kept
+export const locations = pgTable("locations", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  type: varchar("type", { length: 20 }).notNull(), // Site | Building | Floor | Room | Cabinet
+  parentId: integer("parent_id"), // Parent location (locations.id); null for top-level sites
+  code: varchar("code", { length: 50 }).unique(), // Optional short code used on imports and labels
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_locations_parent").on(table.parentId),
+]);
+
 // Assets table
 export const assets = pgTable("assets", {
   id: serial("id").primaryKey(),
@@ -161,12 +316,14 @@ export const assets = pgTable("assets", {
   lifeSpan: integer("life_span"),
   outOfBoxOs: varchar("out_of_box_os", { length: 100 }),
   assignedEmployeeId: integer("assigned_employee_id").references(() => employees.id),
+  locationId: integer("location_id").references(() => locations.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   // Additional hardware specification columns
   cpu: varchar("cpu", { length: 100 }),
   ram: varchar("ram", { length: 100 }),
   storage: varchar("storage", { length: 100 }),
+  customFields: jsonb("custom_fields").$type<Record<string, string | number | boolean | null>>().notNull().default({}), // { [fieldKey]: value } for custom_field_definitions
 });
 
 // Asset Maintenance table
@@ -199,8 +356,357 @@ export const assetTransactions = pgTable("asset_transactions", {
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   deviceSpecs: jsonb("device_specs"),
+  fromLocationId: integer("from_location_id").references(() => locations.id, { onDelete: 'set null' }),
+  toLocationId: integer("to_location_id").references(() => locations.id, { onDelete: 'set null' }),
+});
+
+// Stock-take campaigns - physical inventory audits reconciling the register with what is on shelves and desks
+export const stockTakes = pgTable("stock_takes", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 150 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default('open'), // open | closed | cancelled
+  // Scope; assets matching every filter that is set are expected to be counted
+  department: varchar("department", { length: 100 }), // Department of the employee the asset is assigned to
+  assetType: varchar("asset_type", { length: 100 }),
+  assignedEmployeeId: integer("assigned_employee_id").references(() => employees.id, { onDelete: 'set null' }),
+  locationId: integer("location_id").references(() => locations.id, { onDelete: 'set null' }), // Includes locations beneath it
+  notes: text("notes"),
+  createdById: integer("created_by_id").references(() => users.id),
+  closedById: integer("closed_by_id").references(() => users.id),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_stock_takes_status").on(table.status),
+]);
+
+// Stock-take items - one per asset, with the register state captured when the campaign opened
+export const stockTakeItems = pgTable("stock_take_items", {
+  id: serial("id").primaryKey(),
+  stockTakeId: integer("stock_take_id").notNull().references(() => stockTakes.id, { onDelete: 'cascade' }),
+  assetId: integer("asset_id").notNull().references(() => assets.id, { onDelete: 'cascade' }),
+  unexpected: boolean("unexpected").notNull().default(false), // Counted but outside the campaign scope
+  expectedStatus: varchar("expected_status", { length: 100 }),
+  expectedEmployeeId: integer("expected_employee_id").references(() => employees.id, { onDelete: 'set null' }),
+  expectedLocationId: integer("expected_location_id").references(() => locations.id, { onDelete: 'set null' }),
+  result: varchar("result", { length: 20 }), // found | misplaced | missing | wrong_assignee; null until counted
+  foundLocationId: integer("found_location_id").references(() => locations.id, { onDelete: 'set null' }), // Where a misplaced asset was found
+  foundEmployeeId: integer("found_employee_id").references(() => employees.id, { onDelete: 'set null' }), // Who actually holds it (wrong_assignee; null = nobody)
+  notes: text("notes"),
+  countedById: integer("counted_by_id").references(() => users.id),
+  countedAt: timestamp("counted_at"),
+  correctedById: integer("corrected_by_id").references(() => users.id),
+  correctedAt: timestamp("corrected_at"),
+  correctionTransactionId: integer("correction_transaction_id").references(() => assetTransactions.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_stock_take_items_asset").on(table.stockTakeId, table.assetId),
+  index("IDX_stock_take_items_asset_id").on(table.assetId),
+]);
+
+// Vendors - suppliers of software licenses and other purchases
+export const vendors = pgTable("vendors", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 150 }).notNull().unique(),
+  website: varchar("website", { length: 255 }),
+  contactName: varchar("contact_name", { length: 100 }),
+  contactEmail: varchar("contact_email", { length: 100 }),
+  contactPhone: varchar("contact_phone", { length: 50 }),
+  notes: text("notes"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Software licenses and subscriptions
+export const softwareLicenses = pgTable("software_licenses", {
+  id: serial("id").primaryKey(),
+  productName: varchar("product_name", { length: 150 }).notNull(),
+  vendorId: integer("vendor_id").references(() => vendors.id, { onDelete: 'set null' }),
+  edition: varchar("edition", { length: 100 }), // e.g. Business Premium
+  licenseType: varchar("license_type", { length: 20 }).notNull().default('subscription'), // subscription | perpetual
+  seatCount: integer("seat_count").notNull().default(1),
+  licenseKeyEncrypted: text("license_key_encrypted"), // AES-256-GCM, never returned by list endpoints
+  billingCycle: varchar("billing_cycle", { length: 20 }).notNull().default('annual'), // monthly | quarterly | annual | one_time
+  cost: decimal("cost", { precision: 12, scale: 2 }), // Per billing cycle, in the system currency
+  purchaseDate: date("purchase_date"),
+  renewalDate: date("renewal_date"),
+  autoRenew: boolean("auto_renew").notNull().default(false),
+  status: varchar("status", { length: 20 }).notNull().default('active'), // active | expired | cancelled
+  renewalReminderDays: integer("renewal_reminder_days").notNull().default(30), // First reminder, days before renewal
+  lastReminderLevel: integer("last_reminder_level").notNull().default(0), // Reset whenever the renewal date changes
+  lastReminderAt: timestamp("last_reminder_at"),
+  notes: text("notes"),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_software_licenses_renewal").on(table.renewalDate),
+  index("IDX_software_licenses_vendor").on(table.vendorId),
+]);
+
+// License seats - one row per assignment to an employee or an asset; released seats are kept as history
+export const licenseSeats = pgTable("license_seats", {
+  id: serial("id").primaryKey(),
+  licenseId: integer("license_id").notNull().references(() => softwareLicenses.id, { onDelete: 'cascade' }),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: 'cascade' }),
+  assetId: integer("asset_id").references(() => assets.id, { onDelete: 'cascade' }),
+  assignedById: integer("assigned_by_id").references(() => users.id),
+  assignedAt: timestamp("assigned_at").defaultNow(),
+  releasedAt: timestamp("released_at"), // Null while the seat is in use
+  releasedById: integer("released_by_id").references(() => users.id),
+  releaseReason: varchar("release_reason", { length: 30 }), // manual | offboarding
+  notes: text("notes"),
+}, (table) => [
+  index("IDX_license_seats_license").on(table.licenseId),
+  index("IDX_license_seats_employee").on(table.employeeId),
+  index("IDX_license_seats_asset").on(table.assetId),
+]);
+
+// Consumables - quantity-tracked stock items (cables, toner, headsets) that have no serial number
+export const consumables = pgTable("consumables", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 150 }).notNull(),
+  sku: varchar("sku", { length: 50 }).unique(), // Optional stock code
+  category: varchar("category", { length: 100 }),
+  unit: varchar("unit", { length: 20 }).notNull().default('pcs'), // pcs | box | pack | ...
+  minStock: integer("min_stock").notNull().default(0), // Reorder threshold for the total across locations; 0 disables alerts
+  unitCost: decimal("unit_cost", { precision: 12, scale: 2 }), // Default cost used for issues
+  notes: text("notes"),
+  isActive: boolean("is_active").notNull().default(true),
+  lowStockAlertedAt: timestamp("low_stock_alerted_at"), // Set when the low-stock alert is sent, cleared once restocked
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Consumable stock on hand per location (null location = not stored at a specific location)
+export const consumableStock = pgTable("consumable_stock", {
+  id: serial("id").primaryKey(),
+  consumableId: integer("consumable_id").notNull().references(() => consumables.id, { onDelete: 'cascade' }),
+  locationId: integer("location_id").references(() => locations.id, { onDelete: 'cascade' }),
+  quantity: integer("quantity").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_consumable_stock_consumable").on(table.consumableId),
+  index("IDX_consumable_stock_location").on(table.locationId),
+]);
+
+// Consumable stock movements; quantity is the signed change (receive +, issue -, adjust +/-)
+export const consumableTransactions = pgTable("consumable_transactions", {
+  id: serial("id").primaryKey(),
+  consumableId: integer("consumable_id").notNull().references(() => consumables.id, { onDelete: 'cascade' }),
+  type: varchar("type", { length: 20 }).notNull(), // receive | issue | adjust
+  quantity: integer("quantity").notNull(),
+  locationId: integer("location_id").references(() => locations.id, { onDelete: 'set null' }),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: 'set null' }), // Recipient of an issue
+  department: varchar("department", { length: 100 }), // Recipient's department at the time of the issue
+  unitCost: decimal("unit_cost", { precision: 12, scale: 2 }),
+  reference: varchar("reference", { length: 100 }), // Supplier invoice / delivery note for receipts
+  notes: text("notes"),
+  performedById: integer("performed_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_consumable_transactions_consumable").on(table.consumableId),
+  index("IDX_consumable_transactions_employee").on(table.employeeId),
+  index("IDX_consumable_transactions_created").on(table.createdAt),
+]);
+
+// Purchase orders - procurement from a vendor, optionally raised for an approved upgrade request
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: serial("id").primaryKey(),
+  poNumber: varchar("po_number", { length: 20 }).notNull().unique().default(sql`concat('PO-', lpad((nextval('purchase_orders_id_seq'::regclass))::text, 5, '0'::text))`),
+  vendorId: integer("vendor_id").notNull().references(() => vendors.id),
+  upgradeId: integer("upgrade_id").references(() => assetUpgrades.id, { onDelete: 'set null' }),
+  status: varchar("status", { length: 30 }).notNull().default('draft'), // draft | pending_approval | approved | rejected | ordered | partially_received | received | cancelled
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull().default('0'), // Sum of the line totals
+  approvalLevel: varchar("approval_level", { length: 20 }), // auto | manager | admin from the amount thresholds, or chain when an approval chain decides
+  expectedDate: date("expected_date"),
+  notes: text("notes"),
+  submittedAt: timestamp("submitted_at"),
+  decidedById: integer("decided_by_id").references(() => users.id),
+  decidedAt: timestamp("decided_at"),
+  decisionNotes: text("decision_notes"),
+  orderedAt: timestamp("ordered_at"),
+  receivedAt: timestamp("received_at"), // Set once every line is fully received
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_purchase_orders_status").on(table.status),
+  index("IDX_purchase_orders_vendor").on(table.vendorId),
+  index("IDX_purchase_orders_upgrade").on(table.upgradeId),
+]);
+
+// Purchase order lines; asset lines create one asset per unit when received
+export const purchaseOrderLines = pgTable("purchase_order_lines", {
+  id: serial("id").primaryKey(),
+  purchaseOrderId: integer("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: 'cascade' }),
+  description: varchar("description", { length: 255 }).notNull(),
+  createsAssets: boolean("creates_assets").notNull().default(false),
+  assetType: varchar("asset_type", { length: 100 }), // Required when createsAssets is set
+  assetBrand: varchar("asset_brand", { length: 100 }), // Required when createsAssets is set
+  assetModelName: varchar("asset_model_name", { length: 100 }),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull(),
+  receivedQuantity: integer("received_quantity").notNull().default(0),
+}, (table) => [
+  index("IDX_purchase_order_lines_order").on(table.purchaseOrderId),
+]);
+
+// Goods received against a purchase order line; asset lines get one row per asset created
+export const purchaseOrderReceipts = pgTable("purchase_order_receipts", {
+  id: serial("id").primaryKey(),
+  purchaseOrderId: integer("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: 'cascade' }),
+  lineId: integer("line_id").notNull().references(() => purchaseOrderLines.id, { onDelete: 'cascade' }),
+  quantity: integer("quantity").notNull(),
+  assetId: integer("asset_id").references(() => assets.id, { onDelete: 'set null' }),
+  serialNumber: varchar("serial_number", { length: 100 }), // Captured at receipt for asset lines
+  locationId: integer("location_id").references(() => locations.id, { onDelete: 'set null' }),
+  notes: text("notes"),
+  receivedById: integer("received_by_id").references(() => users.id),
+  receivedAt: timestamp("received_at").defaultNow(),
+}, (table) => [
+  index("IDX_purchase_order_receipts_order").on(table.purchaseOrderId),
+  index("IDX_purchase_order_receipts_asset").on(table.assetId),
+]);
+
+// Approval chains: the ordered steps a request type goes through before it is approved
+// One chain per request type; with no active chain the request type keeps its built-in approval
+export const approvalChains = pgTable("approval_chains", {
+  id: serial("id").primaryKey(),
+  requestType: varchar("request_type", { length: 30 }).notNull().unique(), // upgrade | purchase_order | service_request
+  name: varchar("name", { length: 150 }).notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const approvalChainSteps = pgTable("approval_chain_steps", {
+  id: serial("id").primaryKey(),
+  chainId: integer("chain_id").notNull().references(() => approvalChains.id, { onDelete: 'cascade' }),
+  stepOrder: integer("step_order").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  approverType: varchar("approver_type", { length: 20 }).notNull(), // direct_manager | role | user
+  approverRole: varchar("approver_role", { length: 20 }), // For role steps: that role or any higher one
+  approverUserId: integer("approver_user_id").references(() => users.id, { onDelete: 'set null' }), // For user steps
+  minAmount: decimal("min_amount", { precision: 12, scale: 2 }), // Step only applies from this amount up; null = always
+}, (table) => [
+  index("IDX_approval_chain_steps_chain").on(table.chainId),
+]);
+
+// One run of a chain for a request (an upgrade, purchase order or service request); resubmitting starts a new one
+export const approvalRequests = pgTable("approval_requests", {
+  id: serial("id").primaryKey(),
+  chainId: integer("chain_id").references(() => approvalChains.id, { onDelete: 'set null' }),
+  requestType: varchar("request_type", { length: 30 }).notNull(),
+  subjectId: integer("subject_id").notNull(), // Upgrade, purchase order or service request id, depending on requestType
+  title: varchar("title", { length: 255 }).notNull(), // Snapshot for inboxes and emails
+  amount: decimal("amount", { precision: 12, scale: 2 }),
+  status: varchar("status", { length: 20 }).notNull().default('pending'), // pending | approved | rejected | cancelled
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: 'set null' }), // Whose direct manager approves
+  requestedById: integer("requested_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("IDX_approval_requests_subject").on(table.requestType, table.subjectId),
+  index("IDX_approval_requests_status").on(table.status),
+]);
+
+// The approval trail: the chain's steps copied onto the request with who decided each one
+export const approvalRequestSteps = pgTable("approval_request_steps", {
+  id: serial("id").primaryKey(),
+  approvalRequestId: integer("approval_request_id").notNull().references(() => approvalRequests.id, { onDelete: 'cascade' }),
+  stepOrder: integer("step_order").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  approverType: varchar("approver_type", { length: 20 }).notNull(),
+  approverRole: varchar("approver_role", { length: 20 }),
+  approverUserId: integer("approver_user_id").references(() => users.id), // Resolved when the request starts
+  status: varchar("status", { length: 20 }).notNull().default('waiting'), // waiting | pending | approved | rejected | skipped | cancelled
+  decidedById: integer("decided_by_id").references(() => users.id),
+  onBehalfOfId: integer("on_behalf_of_id").references(() => users.id), // Set when a delegate decided
+  decidedVia: varchar("decided_via", { length: 20 }), // app | notification | email
+  decidedAt: timestamp("decided_at"),
+  comments: text("comments"),
+}, (table) => [
+  index("IDX_approval_request_steps_request").on(table.approvalRequestId),
+]);
+
+// Approvers hand their approvals to someone else while away
+export const approvalDelegations = pgTable("approval_delegations", {
+  id: serial("id").primaryKey(),
+  delegatorId: integer("delegator_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  delegateId: integer("delegate_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  reason: varchar("reason", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_approval_delegations_delegate").on(table.delegateId),
+]);
+
+// Single-use tokens behind the approve/reject links in approval emails (stored hashed)
+export const approvalActionTokens = pgTable("approval_action_tokens", {
+  id: serial("id").primaryKey(),
+  stepId: integer("step_id").notNull().references(() => approvalRequestSteps.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Service catalog: requestable items with their own form, browsed in the employee portal
+export const serviceCatalogItems = pgTable("service_catalog_items", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 150 }).notNull(),
+  description: text("description"),
+  icon: varchar("icon", { length: 10 }), // Emoji shown on the portal card
+  formFields: jsonb("form_fields").notNull().default([]), // [{ key, label, type, required, options? }]
+  ticketType: ticketTypeEnum("ticket_type").notNull().default('Service Request'),
+  categoryId: integer("category_id").references(() => categories.id, { onDelete: 'set null' }),
+  urgency: ticketUrgencyEnum("urgency").notNull().default('Medium'), // Ticket priority follows from urgency x impact
+  impact: ticketImpactEnum("impact").notNull().default('Medium'),
+  requiresApproval: boolean("requires_approval").notNull().default(false), // Goes through the service_request approval chain
+  fulfillmentTasks: jsonb("fulfillment_tasks").notNull().default([]), // Task titles copied onto each request, e.g. ["Image laptop"]
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One submission of a catalog item; its ticket is opened once it no longer waits on approval
+export const serviceRequests = pgTable("service_requests", {
+  id: serial("id").primaryKey(),
+  itemId: integer("item_id").references(() => serviceCatalogItems.id, { onDelete: 'set null' }),
+  itemName: varchar("item_name", { length: 150 }).notNull(), // Snapshot so renamed or deleted items keep their history
+  answers: jsonb("answers").notNull().default([]), // [{ key, label, type, value }] as the form was filled in
+  status: varchar("status", { length: 20 }).notNull().default('pending_approval'), // pending_approval | submitted | rejected | cancelled
+  employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
+  requestedById: integer("requested_by_id").notNull().references(() => users.id),
+  ticketId: integer("ticket_id").references(() => tickets.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_service_requests_employee").on(table.employeeId),
+  index("IDX_service_requests_ticket").on(table.ticketId),
+  index("IDX_service_requests_status").on(table.status),
+]);
+
+// Fulfillment checklist of a service request, worked through by agents on the ticket
+export const serviceRequestTasks = pgTable("service_request_tasks", {
+  id: serial("id").primaryKey(),
+  serviceRequestId: integer("service_request_id").notNull().references(() => serviceRequests.id, { onDelete: 'cascade' }),
+  sortOrder: integer("sort_order").notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default('pending'), // pending | done
+  completedById: integer("completed_by_id").references(() => users.id),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("IDX_service_request_tasks_request").on(table.serviceRequestId),
+]);
+
 // Asset Sales table
 export const assetSales = pgTable("asset_sales", {
   id: serial("id").primaryKey(),
@@ -306,6 +812,7 @@ export const tickets = pgTable("tickets", {
   
   // Status & Workflow
   status: ticketStatusEnum("status").notNull().default('Open'),
+  mergedIntoId: integer("merged_into_id"), // Primary ticket (tickets.id) this ticket was merged into
   
   // Time Management
   createdAt: timestamp("created_at").defaultNow(),
@@ -313,7 +820,17 @@ export const tickets = pgTable("tickets", {
   completionTime: timestamp("completion_time"),
   timeSpent: integer("time_spent"), // in minutes
   dueDate: timestamp("due_date"),
-  slaTarget: timestamp("sla_target"),
+  slaTarget: timestamp("sla_target"), // Resolution target (calculated from the matching SLA policy)
+
+  // SLA Tracking
+  slaPolicyId: integer("sla_policy_id").references(() => slaPolicies.id, { onDelete: 'set null' }),
+  responseDueAt: timestamp("response_due_at"),
+  firstResponseAt: timestamp("first_response_at"),
+  slaPausedAt: timestamp("sla_paused_at"), // Set while the ticket waits on the requester
+  slaPausedMinutes: integer("sla_paused_minutes").default(0), // Business minutes spent paused
+  slaStatus: varchar("sla_status", { length: 20 }), // on_track | at_risk | breached | paused | met
+
+  customFields: jsonb("custom_fields").$type<Record<string, string | number | boolean | null>>().notNull().default({}), // { [fieldKey]: value } for custom_field_definitions
 });
 
 // Ticket Comments table
@@ -341,6 +858,78 @@ export const ticketHistory = pgTable("ticket_history", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Ticket Time Entries table - persistent time-tracking ledger (rolled up into tickets.timeSpent)
+export const ticketTimeEntries = pgTable("ticket_time_entries", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").notNull().references(() => tickets.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  workDate: date("work_date").notNull(), // Day the work was performed (used for timesheets)
+  minutes: integer("minutes").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_time_entries_ticket").on(table.ticketId),
+  index("IDX_time_entries_user_date").on(table.userId, table.workDate),
+]);
+
+// Business Calendars table - working hours used for SLA calculations (server local time)
+export const businessCalendars = pgTable("business_calendars", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  workingDays: integer("working_days").array().notNull().default(sql`ARRAY[1,2,3,4,5]`), // 0 = Sunday ... 6 = Saturday
+  dayStartTime: varchar("day_start_time", { length: 5 }).notNull().default('08:00'), // HH:mm
+  dayEndTime: varchar("day_end_time", { length: 5 }).notNull().default('17:00'), // HH:mm (24:00 = midnight)
+  isDefault: boolean("is_default").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Business Holidays table - non-working dates excluded from SLA time
+export const businessHolidays = pgTable("business_holidays", {
+  id: serial("id").primaryKey(),
+  calendarId: integer("calendar_id").notNull().references(() => businessCalendars.id, { onDelete: 'cascade' }),
+  date: date("date").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_business_holidays_calendar_date").on(table.calendarId, table.date),
+]);
+
+// SLA Policies table - response/resolution targets matched by priority, type and category
+export const slaPolicies = pgTable("sla_policies", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  priority: ticketPriorityEnum("priority"), // null = any priority
+  type: ticketTypeEnum("type"), // null = any type
+  categoryId: integer("category_id").references(() => categories.id, { onDelete: 'cascade' }), // null = any category
+  calendarId: integer("calendar_id").references(() => businessCalendars.id, { onDelete: 'set null' }), // null = default calendar
+  responseMinutes: integer("response_minutes").notNull(),
+  resolutionMinutes: integer("resolution_minutes").notNull(),
+  atRiskPercent: integer("at_risk_percent").notNull().default(80), // Elapsed % that flags a ticket as at risk
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Attachments table - files on local disk linked to tickets, ticket comments or asset transactions
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  entityType: varchar("entity_type", { length: 30 }).notNull(), // ticket | ticket_comment | asset_transaction
+  entityId: integer("entity_id").notNull(),
+  ticketId: integer("ticket_id").references(() => tickets.id, { onDelete: 'cascade' }), // Owning ticket for ticket and comment files
+  fileName: varchar("file_name", { length: 255 }).notNull(), // Generated name on disk
+  originalName: varchar("original_name", { length: 255 }).notNull(),
+  mimeType: varchar("mime_type", { length: 100 }).notNull(),
+  size: integer("size").notNull(), // Bytes
+  uploadedById: integer("uploaded_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_attachments_entity").on(table.entityType, table.entityId),
+  index("IDX_attachments_ticket").on(table.ticketId),
+]);
+
 // Activity Log table
 export const activityLog = pgTable("activity_log", {
   id: serial("id").primaryKey(),
@@ -377,6 +966,24 @@ export const systemConfig = pgTable("system_config", {
   defaultCurrency: varchar("default_currency", { length: 10 }).default('USD'),
   enableAuditLogs: boolean("enable_audit_logs").default(true),
   auditLogRetentionDays: integer("audit_log_retention_days").default(365),
+  // Purchase order approval thresholds: at or below the auto limit POs are approved on submission,
+  // up to the manager limit a manager approves, above it an admin must approve
+  poAutoApproveLimit: decimal("po_auto_approve_limit", { precision: 12, scale: 2 }).notNull().default('0'),
+  poManagerApprovalLimit: decimal("po_manager_approval_limit", { precision: 12, scale: 2 }).notNull().default('5000'),
+  // Roles whose users must use two-factor authentication to sign in
+  twoFactorRequiredRoles: jsonb("two_factor_required_roles").$type<string[]>().notNull().default([]),
+  // Username/password sign-in (local and LDAP); only enforced while single sign-on (OIDC) is enabled
+  passwordLoginEnabled: boolean("password_login_enabled").notNull().default(true),
+  // Password policy for local accounts (rules in shared/passwordPolicy.ts); 0 turns history, expiry and lockout off
+  passwordMinLength: integer("password_min_length").notNull().default(8),
+  passwordRequireUppercase: boolean("password_require_uppercase").notNull().default(false),
+  passwordRequireLowercase: boolean("password_require_lowercase").notNull().default(false),
+  passwordRequireNumber: boolean("password_require_number").notNull().default(true),
+  passwordRequireSymbol: boolean("password_require_symbol").notNull().default(false),
+  passwordHistoryCount: integer("password_history_count").notNull().default(0),
+  passwordMaxAgeDays: integer("password_max_age_days").notNull().default(0),
+  lockoutThreshold: integer("lockout_threshold").notNull().default(5),
+  lockoutDurationMinutes: integer("lockout_duration_minutes").notNull().default(15), // 0 = until an admin unlocks
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -418,6 +1025,29 @@ export const customDepartments = pgTable("custom_departments", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Custom Field Definitions table - admin-defined extra attributes of assets, employees and tickets
+// Values live in the custom_fields column of each entity, keyed by the definition key
+export const customFieldDefinitions = pgTable("custom_field_definitions", {
+  id: serial("id").primaryKey(),
+  entityType: varchar("entity_type", { length: 20 }).notNull(), // asset | employee | ticket
+  key: varchar("key", { length: 50 }).notNull(), // Fixed once created so stored values keep their meaning
+  label: varchar("label", { length: 150 }).notNull(),
+  fieldType: varchar("field_type", { length: 20 }).notNull(), // text | number | date | select | boolean
+  options: jsonb("options").notNull().default([]), // select only
+  required: boolean("required").notNull().default(false),
+  assetTypes: jsonb("asset_types").notNull().default([]), // asset only; empty applies to every asset type
+  pattern: varchar("pattern", { length: 255 }), // text only; regular expression the whole value must match
+  minValue: decimal("min_value", { precision: 14, scale: 4 }), // number only
+  maxValue: decimal("max_value", { precision: 14, scale: 4 }),
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_custom_field_definitions_entity_key").on(table.entityType, table.key),
+]);
+
 // Categories table (formerly Custom Request Types)
 export const categories = pgTable("categories", {
   id: serial("id").primaryKey(),
@@ -464,10 +1094,77 @@ export const notificationPreferences = pgTable("notification_preferences", {
   dndStartTime: varchar("dnd_start_time", { length: 5 }), // Format: "HH:MM" (e.g., "22:00")
   dndEndTime: varchar("dnd_end_time", { length: 5 }), // Format: "HH:MM" (e.g., "08:00")
   dndDays: jsonb("dnd_days").default([]), // Array of weekday numbers: [0,6] for weekends
+  // Email channel settings
+  emailChannels: jsonb("email_channels").default({}), // Category key -> 'off' | 'immediate' | 'hourly' | 'daily'
+  dailyDigestTime: varchar("daily_digest_time", { length: 5 }).notNull().default('08:00'), // Format: "HH:MM"
+  emailLanguage: varchar("email_language", { length: 10 }).notNull().default('English'), // English | Arabic
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Notification Digest Items table - notifications waiting for the next hourly/daily email digest
+export const notificationDigestItems = pgTable("notification_digest_items", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  frequency: varchar("frequency", { length: 10 }).notNull(), // hourly | daily
+  category: varchar("category", { length: 50 }).notNull(), // Preference key, e.g. ticketAssignments
+  title: varchar("title", { length: 255 }).notNull(),
+  message: text("message").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_digest_items_user_frequency").on(table.userId, table.frequency),
+]);
+
+// Email Queue table - persistent outbound queue with retry/backoff
+export const emailQueue = pgTable("email_queue", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  toAddress: varchar("to_address", { length: 255 }).notNull(),
+  subject: varchar("subject", { length: 255 }).notNull(),
+  html: text("html"),
+  text: text("text"),
+  status: varchar("status", { length: 20 }).notNull().default('pending'), // pending | sent | failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_email_queue_status_next").on(table.status, table.nextAttemptAt),
+]);
+
+// Webhook Subscriptions table - admin-managed outbound webhooks per event type
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  url: text("url").notNull(),
+  secret: varchar("secret", { length: 128 }).notNull(), // HMAC-SHA256 signing key
+  events: jsonb("events").notNull().default([]), // Array of event types, e.g. ["ticket.created"]
+  isActive: boolean("is_active").notNull().default(true),
+  createdById: integer("created_by_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Webhook Deliveries table - delivery log and retry queue
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").notNull().references(() => webhookSubscriptions.id, { onDelete: 'cascade' }),
+  eventType: varchar("event_type", { length: 50 }).notNull(),
+  payload: jsonb("payload").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default('pending'), // pending | success | failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // Truncated
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_webhook_deliveries_subscription").on(table.subscriptionId, table.createdAt),
+  index("IDX_webhook_deliveries_status_next").on(table.status, table.nextAttemptAt),
+]);
+
 // Notification Templates table - Admin-configurable templates
 export const notificationTemplates = pgTable("notification_templates", {
   id: serial("id").primaryKey(),
@@ -479,11 +1176,15 @@ export const notificationTemplates = pgTable("notification_templates", {
   titleTemplate: varchar("title_template", { length: 255 }).notNull(), // e.g., "Ticket {{ticketId}} Assigned"
   messageTemplate: text("message_template").notNull(), // e.g., "You have been assigned ticket {{ticketId}}: {{title}}"
   variables: jsonb("variables").notNull(), // Array of variable names: ["ticketId", "title"]
+  eventKey: varchar("event_key", { length: 100 }), // Notification event rendered with this template, e.g. "ticket.assigned"
+  language: varchar("language", { length: 10 }).notNull().default('English'), // English | Arabic
   isActive: boolean("is_active").notNull().default(true),
   createdBy: integer("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_notification_templates_event").on(table.eventKey, table.language, table.isActive),
+]);
 
 // System Logs table - For debugging and system monitoring (Super Admin only)
 export const systemLogs = pgTable("system_logs", {
@@ -602,6 +1303,28 @@ export const ticketsRelations = relations(tickets, ({ one, many }) => ({
   category: one(categories, { fields: [tickets.categoryId], references: [categories.id] }),
   comments: many(ticketComments),
   history: many(ticketHistory),
+  timeEntries: many(ticketTimeEntries),
+  slaPolicy: one(slaPolicies, { fields: [tickets.slaPolicyId], references: [slaPolicies.id] }),
+}));
+
+export const businessCalendarsRelations = relations(businessCalendars, ({ many }) => ({
+  holidays: many(businessHolidays),
+  policies: many(slaPolicies),
+}));
+
+export const businessHolidaysRelations = relations(businessHolidays, ({ one }) => ({
+  calendar: one(businessCalendars, { fields: [businessHolidays.calendarId], references: [businessCalendars.id] }),
+}));
+
+export const slaPoliciesRelations = relations(slaPolicies, ({ one, many }) => ({
+  category: one(categories, { fields: [slaPolicies.categoryId], references: [categories.id] }),
+  calendar: one(businessCalendars, { fields: [slaPolicies.calendarId], references: [businessCalendars.id] }),
+  tickets: many(tickets),
+}));
+
+export const ticketTimeEntriesRelations = relations(ticketTimeEntries, ({ one }) => ({
+  ticket: one(tickets, { fields: [ticketTimeEntries.ticketId], references: [tickets.id] }),
+  user: one(users, { fields: [ticketTimeEntries.userId], references: [users.id] }),
 }));
 
 export const categoriesRelations = relations(categories, ({ many }) => ({
@@ -610,7 +1333,10 @@ export const categoriesRelations = relations(categories, ({ many }) => ({
 
 // Insert schemas for form validation
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertEmployeeSchema = createInsertSchema(employees).omit({ id: true, createdAt: true, updatedAt: true, empId: true });
+export const insertEmployeeSchema = createInsertSchema(employees).omit({ id: true, createdAt: true, updatedAt: true, empId: true, directoryId: true, directorySyncedAt: true });
+export const insertLocationSchema = createInsertSchema(locations, {
+  name: (schema) => schema.min(1, "Name is required"),
+}).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertAssetSchema = createInsertSchema(assets).omit({ id: true, createdAt: true, updatedAt: true, assetId: true });
 export const insertTicketSchema = createInsertSchema(tickets).omit({ id: true, createdAt: true, updatedAt: true, ticketId: true });
 export const insertCategorySchema = createInsertSchema(categories).omit({ id: true, createdAt: true, updatedAt: true });
@@ -620,7 +1346,9 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
 // Additional insert schemas for missing tables
 export const insertAssetSalesSchema = createInsertSchema(assetSales).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertAssetSaleItemsSchema = createInsertSchema(assetSaleItems).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertSystemConfigSchema = createInsertSchema(systemConfig).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertSystemConfigSchema = createInsertSchema(systemConfig, {
+  twoFactorRequiredRoles: z.array(z.string()),
+}).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertActivityLogSchema = createInsertSchema(activityLog).omit({ id: true, createdAt: true });
 export const insertAssetTransactionSchema = createInsertSchema(assetTransactions).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertSecurityQuestionSchema = createInsertSchema(securityQuestions).omit({ id: true, createdAt: true, updatedAt: true });
@@ -628,12 +1356,68 @@ export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTo
 export const insertNotificationTemplateSchema = createInsertSchema(notificationTemplates).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertCustomDepartmentSchema = createInsertSchema(customDepartments).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertTicketTimeEntrySchema = createInsertSchema(ticketTimeEntries).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertBusinessCalendarSchema = createInsertSchema(businessCalendars, {
+  dayStartTime: (schema) => schema.regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Start time must be HH:mm"),
+  dayEndTime: (schema) => schema.regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, "End time must be HH:mm"),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertBusinessHolidaySchema = createInsertSchema(businessHolidays).omit({ id: true, createdAt: true });
+export const insertSlaPolicySchema = createInsertSchema(slaPolicies, {
+  responseMinutes: (schema) => schema.min(1, "Response target must be at least 1 minute"),
+  resolutionMinutes: (schema) => schema.min(1, "Resolution target must be at least 1 minute"),
+  atRiskPercent: (schema) => schema.min(1).max(99),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({ id: true, createdAt: true });
+export const insertNotificationDigestItemSchema = createInsertSchema(notificationDigestItems).omit({ id: true, createdAt: true });
+export const insertEmailQueueSchema = createInsertSchema(emailQueue).omit({ id: true, createdAt: true });
+export const insertWebhookSubscriptionSchema = createInsertSchema(webhookSubscriptions).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({ id: true, createdAt: true });
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({ id: true, createdAt: true });
+export const insertUserTwoFactorSchema = createInsertSchema(userTwoFactor).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertUserIdentitySchema = createInsertSchema(userIdentities).omit({ id: true, createdAt: true });
+export const insertUserCredentialsSchema = createInsertSchema(userCredentials).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertPasswordHistorySchema = createInsertSchema(passwordHistory).omit({ id: true, createdAt: true });
+export const insertOnboardingTemplateSchema = createInsertSchema(onboardingTemplates, {
+  name: (schema) => schema.min(1, "Name is required"),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertOnboardingPlanSchema = createInsertSchema(onboardingPlans).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertOffboardingCaseSchema = createInsertSchema(offboardingCases).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertOffboardingTaskSchema = createInsertSchema(offboardingTasks).omit({ id: true, createdAt: true });
+export const insertStockTakeSchema = createInsertSchema(stockTakes).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertStockTakeItemSchema = createInsertSchema(stockTakeItems).omit({ id: true, createdAt: true });
+export const insertVendorSchema = createInsertSchema(vendors, {
+  name: (schema) => schema.min(1, "Name is required"),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertSoftwareLicenseSchema = createInsertSchema(softwareLicenses).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertLicenseSeatSchema = createInsertSchema(licenseSeats).omit({ id: true, assignedAt: true });
+export const insertConsumableSchema = createInsertSchema(consumables, {
+  name: (schema) => schema.min(1, "Name is required"),
+}).omit({ id: true, lowStockAlertedAt: true, createdAt: true, updatedAt: true });
+export const insertConsumableTransactionSchema = createInsertSchema(consumableTransactions).omit({ id: true, createdAt: true });
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({ id: true, poNumber: true, createdAt: true, updatedAt: true });
+export const insertPurchaseOrderLineSchema = createInsertSchema(purchaseOrderLines, {
+  description: (schema) => schema.min(1, "Description is required"),
+}).omit({ id: true, receivedQuantity: true });
+export const insertApprovalChainSchema = createInsertSchema(approvalChains, {
+  name: (schema) => schema.min(1, "Name is required"),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertApprovalChainStepSchema = createInsertSchema(approvalChainSteps).omit({ id: true });
+export const insertApprovalDelegationSchema = createInsertSchema(approvalDelegations).omit({ id: true, createdAt: true });
+export const insertServiceCatalogItemSchema = createInsertSchema(serviceCatalogItems, {
+  name: (schema) => schema.min(1, "Name is required"),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertServiceRequestSchema = createInsertSchema(serviceRequests).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertCustomFieldDefinitionSchema = createInsertSchema(customFieldDefinitions, {
+  label: (schema) => schema.min(1, "Label is required"),
+}).omit({ id: true, createdAt: true, updatedAt: true });
 
 // Type exports
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Employee = typeof employees.$inferSelect;
 export type InsertEmployee = z.infer<typeof insertEmployeeSchema>;
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
 export type Asset = typeof assets.$inferSelect;
 export type InsertAsset = z.infer<typeof insertAssetSchema>;
 export type Ticket = typeof tickets.$inferSelect;
@@ -668,6 +1452,77 @@ export type NotificationPreferences = typeof notificationPreferences.$inferSelec
 export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
 export type CustomDepartment = typeof customDepartments.$inferSelect;
 export type InsertCustomDepartment = z.infer<typeof insertCustomDepartmentSchema>;
+export type TicketTimeEntry = typeof ticketTimeEntries.$inferSelect;
+export type InsertTicketTimeEntry = z.infer<typeof insertTicketTimeEntrySchema>;
+export type BusinessCalendar = typeof businessCalendars.$inferSelect;
+export type InsertBusinessCalendar = z.infer<typeof insertBusinessCalendarSchema>;
+export type BusinessHoliday = typeof businessHolidays.$inferSelect;
+export type InsertBusinessHoliday = z.infer<typeof insertBusinessHolidaySchema>;
+export type SlaPolicy = typeof slaPolicies.$inferSelect;
+export type InsertSlaPolicy = z.infer<typeof insertSlaPolicySchema>;
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+export type NotificationDigestItem = typeof notificationDigestItems.$inferSelect;
+export type InsertNotificationDigestItem = z.infer<typeof insertNotificationDigestItemSchema>;
+export type EmailQueueItem = typeof emailQueue.$inferSelect;
+export type InsertEmailQueueItem = z.infer<typeof insertEmailQueueSchema>;
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type InsertWebhookSubscription = z.infer<typeof insertWebhookSubscriptionSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type InsertUserTwoFactor = z.infer<typeof insertUserTwoFactorSchema>;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type InsertUserIdentity = z.infer<typeof insertUserIdentitySchema>;
+export type UserCredentials = typeof userCredentials.$inferSelect;
+export type InsertUserCredentials = z.infer<typeof insertUserCredentialsSchema>;
+export type PasswordHistory = typeof passwordHistory.$inferSelect;
+export type InsertPasswordHistory = z.infer<typeof insertPasswordHistorySchema>;
+export type OnboardingTemplate = typeof onboardingTemplates.$inferSelect;
+export type InsertOnboardingTemplate = z.infer<typeof insertOnboardingTemplateSchema>;
+export type OnboardingPlan = typeof onboardingPlans.$inferSelect;
+export type InsertOnboardingPlan = z.infer<typeof insertOnboardingPlanSchema>;
+export type OffboardingCase = typeof offboardingCases.$inferSelect;
+export type InsertOffboardingCase = z.infer<typeof insertOffboardingCaseSchema>;
+export type OffboardingTask = typeof offboardingTasks.$inferSelect;
+export type InsertOffboardingTask = z.infer<typeof insertOffboardingTaskSchema>;
+export type StockTake = typeof stockTakes.$inferSelect;
+export type InsertStockTake = z.infer<typeof insertStockTakeSchema>;
+export type StockTakeItem = typeof stockTakeItems.$inferSelect;
+export type InsertStockTakeItem = z.infer<typeof insertStockTakeItemSchema>;
+export type Vendor = typeof vendors.$inferSelect;
+export type InsertVendor = z.infer<typeof insertVendorSchema>;
+export type SoftwareLicense = typeof softwareLicenses.$inferSelect;
+export type InsertSoftwareLicense = z.infer<typeof insertSoftwareLicenseSchema>;
+export type LicenseSeat = typeof licenseSeats.$inferSelect;
+export type InsertLicenseSeat = z.infer<typeof insertLicenseSeatSchema>;
+export type Consumable = typeof consumables.$inferSelect;
+export type InsertConsumable = z.infer<typeof insertConsumableSchema>;
+export type ConsumableStock = typeof consumableStock.$inferSelect;
+export type ConsumableTransaction = typeof consumableTransactions.$inferSelect;
+export type InsertConsumableTransaction = z.infer<typeof insertConsumableTransactionSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+export type InsertPurchaseOrderLine = z.infer<typeof insertPurchaseOrderLineSchema>;
+export type PurchaseOrderReceipt = typeof purchaseOrderReceipts.$inferSelect;
+export type ApprovalChain = typeof approvalChains.$inferSelect;
+export type InsertApprovalChain = z.infer<typeof insertApprovalChainSchema>;
+export type ApprovalChainStep = typeof approvalChainSteps.$inferSelect;
+export type InsertApprovalChainStep = z.infer<typeof insertApprovalChainStepSchema>;
+export type ApprovalRequest = typeof approvalRequests.$inferSelect;
+export type ApprovalRequestStep = typeof approvalRequestSteps.$inferSelect;
+export type ApprovalDelegation = typeof approvalDelegations.$inferSelect;
+export type InsertApprovalDelegation = z.infer<typeof insertApprovalDelegationSchema>;
+export type ServiceCatalogItem = typeof serviceCatalogItems.$inferSelect;
+export type InsertServiceCatalogItem = z.infer<typeof insertServiceCatalogItemSchema>;
+export type ServiceRequest = typeof serviceRequests.$inferSelect;
+export type InsertServiceRequest = z.infer<typeof insertServiceRequestSchema>;
+export type ServiceRequestTask = typeof serviceRequestTasks.$inferSelect;
+export type CustomFieldDefinition = typeof customFieldDefinitions.$inferSelect;
+export type InsertCustomFieldDefinition = z.infer<typeof insertCustomFieldDefinitionSchema>;
 
 // Asset Status types
 export const insertAssetStatusSchema = createInsertSchema(assetStatuses).omit({
@@ -144,6 +144,7 @@ export interface TicketResponse {
   
   // Status & Workflow
   status: 'Open' | 'In Progress' | 'Resolved' | 'Closed';
+  mergedIntoId?: number; // Primary ticket this ticket was merged into
   
   // Time Management
   createdAt: string;
@@ -151,7 +152,18 @@ export interface TicketResponse {
   completionTime?: string;
   timeSpent?: number; // in minutes
   dueDate?: string;
-  slaTarget?: string;
+  slaTarget?: string; // Resolution target
+  
+  // SLA Tracking (computed by the server)
+  slaPolicyId?: number;
+  responseDueAt?: string;
+  firstResponseAt?: string;
+  slaPausedAt?: string;
+  slaPausedMinutes?: number;
+  slaStatus?: 'on_track' | 'at_risk' | 'breached' | 'paused' | 'met';
+
+  // Admin-defined custom fields, keyed by field key
+  customFields?: Record<string, string | number | boolean | null>;
 }
 
 export interface TicketCreateRequest {
@@ -165,6 +177,7 @@ export interface TicketCreateRequest {
   assignedToId?: number;
   relatedAssetId?: number;
   dueDate?: string;
+  customFields?: Record<string, string | number | boolean | null>;
 }
 
 export interface TicketUpdateRequest {
@@ -179,6 +192,7 @@ export interface TicketUpdateRequest {
   resolution?: string;
   timeSpent?: number;
   completionTime?: string;
+  customFields?: Record<string, string | number | boolean | null>;
 }
 
 // System configuration types
@@ -247,6 +261,18 @@ export interface AssetTransactionResponse {
   employee?: EmployeeResponse;
 }
 
+export interface AttachmentResponse {
+  id: number;
+  entityType: 'ticket' | 'ticket_comment' | 'asset_transaction';
+  entityId: number;
+  ticketId?: number | null;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  uploadedById?: number | null;
+  createdAt: string;
+}
+
 export interface ActivityLogResponse {
   id: number;
   userId?: number;
@@ -290,6 +316,9 @@ export interface AssetFilters {
   model?: string;
   status?: string | string[]; // Support multi-select
   assignedTo?: string;
+  location?: string; // Location id (includes locations beneath it) or 'none'
+  customField?: string; // Custom field key, filtered with customFieldValue
+  customFieldValue?: string;
   search?: string;
 }
 
@@ -304,6 +333,8 @@ export interface TicketFilters {
   dateRange?: string; // Quick filter: 'today', 'yesterday', 'last7days', 'last30days', 'last90days', 'thisMonth', 'lastMonth', 'custom'
   createdFrom?: string; // ISO date string for custom range start
   createdTo?: string; // ISO date string for custom range end
+  customField?: string; // Custom field key, filtered with customFieldValue
+  customFieldValue?: string;
 }
 
 // Form validation types